@@ -110,7 +110,7 @@ fi
 # Start sync-service in background
 log "Starting sync-service..."
 cd /app/sync-service
-node dist/index.js &
+node dist/sync-service/src/index.js &
 SYNC_PID=$!
 
 # Wait for sync-service to be ready
@@ -0,0 +1,27 @@
+-- Role-based permissions for management UI logins (the "user" table from
+-- 02_auth_schema.sql, not Radicale/CardDAV users).
+--
+-- Roles:  viewer  - browse contacts
+--         editor  - also create / update / merge / delete contacts
+--         owner   - also manage address books, Radicale users and settings
+--
+-- A row with address_book_id NULL grants the role on every address book
+-- (including ones created later) plus the instance-wide admin pages; a row
+-- with a book id scopes it to that book, mirroring user_address_books. The
+-- effective role on a book is the higher of the two.
+
+CREATE TABLE IF NOT EXISTS ui_user_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+  address_book_id UUID REFERENCES address_books(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'editor', 'owner')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ui_user_roles_scope
+  ON ui_user_roles (user_id, COALESCE(address_book_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+-- Anyone who could already sign in keeps full access.
+INSERT INTO ui_user_roles (user_id, address_book_id, role)
+SELECT id, NULL, 'owner' FROM "user"
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,140 @@
+-- Durable per-address-book change log, the backing store for the sync
+-- service's incremental change feed (GET /api/address-books/:id/changes,
+-- modelled on CardDAV sync-collection, RFC 6578).
+--
+-- Every book has a counter in address_book_sync_tokens. Each logged change
+-- bumps it and stores the new value as its sync_token, so tokens are strictly
+-- increasing per book. Bumping takes a row lock on the counter, which
+-- serializes writers per book: once a client has seen token N, every change
+-- <= N is committed and nothing can later appear below it.
+--
+-- Changes are recorded by triggers, so writes from the UI, the sync service
+-- and raw SQL all land in the log:
+--   contact_address_books INSERT/DELETE   created / deleted in that book
+--   contacts UPDATE                       updated (content changed), or
+--                                         deleted / created on soft delete,
+--                                         restore, and vcard_id changes
+--   contacts DELETE                       deleted (unless already trashed)
+-- Only sync bookkeeping columns changing (the same set history.ts treats as
+-- non-content) is not a change. Contacts without a vcard_id are invisible to
+-- CardDAV and are never logged.
+
+CREATE TABLE IF NOT EXISTS address_book_sync_tokens (
+  address_book_id UUID PRIMARY KEY REFERENCES address_books(id) ON DELETE CASCADE,
+  token BIGINT NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS contact_changes (
+  id BIGSERIAL PRIMARY KEY,
+  address_book_id UUID NOT NULL REFERENCES address_books(id) ON DELETE CASCADE,
+  sync_token BIGINT NOT NULL,
+  contact_id UUID,
+  vcard_id TEXT NOT NULL,
+  change_type TEXT NOT NULL CHECK (change_type IN ('created', 'updated', 'deleted')),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_changes_book_token ON contact_changes(address_book_id, sync_token);
+
+CREATE OR REPLACE FUNCTION record_contact_change(book UUID, contact UUID, vcard TEXT, kind TEXT)
+RETURNS VOID AS $$
+DECLARE
+  next_token BIGINT;
+BEGIN
+  INSERT INTO address_book_sync_tokens (address_book_id, token) VALUES (book, 1)
+  ON CONFLICT (address_book_id) DO UPDATE SET token = address_book_sync_tokens.token + 1
+  RETURNING token INTO next_token;
+
+  INSERT INTO contact_changes (address_book_id, sync_token, contact_id, vcard_id, change_type)
+  VALUES (book, next_token, contact, vcard, kind);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_contact_books_change(contact UUID, vcard TEXT, kind TEXT)
+RETURNS VOID AS $$
+DECLARE
+  book UUID;
+BEGIN
+  FOR book IN SELECT address_book_id FROM contact_address_books WHERE contact_id = contact LOOP
+    PERFORM record_contact_change(book, contact, vcard, kind);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION log_contact_membership_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  member contact_address_books;
+  contact_row contacts;
+BEGIN
+  -- Depth > 1 means an FK cascade from deleting the contact (already logged
+  -- by log_contact_delete) or the whole address book (nothing left to sync).
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    member := NEW;
+  ELSE
+    member := OLD;
+  END IF;
+
+  SELECT * INTO contact_row FROM contacts WHERE id = member.contact_id;
+  IF FOUND AND contact_row.vcard_id IS NOT NULL AND contact_row.deleted_at IS NULL THEN
+    PERFORM record_contact_change(
+      member.address_book_id,
+      contact_row.id,
+      contact_row.vcard_id,
+      CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'deleted' END
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION log_contact_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  non_content TEXT[] := ARRAY[
+    'updated_at', 'created_at', 'deleted_at', 'last_synced_from_radicale_at', 'last_synced_to_radicale_at',
+    'vcard_hash', 'sync_source', 'radicale_file_mtime'
+  ];
+  was_live BOOLEAN := OLD.deleted_at IS NULL AND OLD.vcard_id IS NOT NULL;
+  is_live BOOLEAN := NEW.deleted_at IS NULL AND NEW.vcard_id IS NOT NULL;
+  same_vcard BOOLEAN := NEW.vcard_id IS NOT DISTINCT FROM OLD.vcard_id;
+BEGIN
+  IF was_live AND NOT (is_live AND same_vcard) THEN
+    PERFORM record_contact_books_change(OLD.id, OLD.vcard_id, 'deleted');
+  END IF;
+
+  IF is_live AND NOT (was_live AND same_vcard) THEN
+    PERFORM record_contact_books_change(NEW.id, NEW.vcard_id, 'created');
+  ELSIF was_live AND is_live AND (to_jsonb(NEW) - non_content) IS DISTINCT FROM (to_jsonb(OLD) - non_content) THEN
+    PERFORM record_contact_books_change(NEW.id, NEW.vcard_id, 'updated');
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION log_contact_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- BEFORE DELETE: the memberships are still there to say which books to log.
+  IF OLD.deleted_at IS NULL AND OLD.vcard_id IS NOT NULL THEN
+    PERFORM record_contact_books_change(OLD.id, OLD.vcard_id, 'deleted');
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_contact_membership_change ON contact_address_books;
+CREATE TRIGGER log_contact_membership_change AFTER INSERT OR DELETE ON contact_address_books
+    FOR EACH ROW EXECUTE FUNCTION log_contact_membership_change();
+
+DROP TRIGGER IF EXISTS log_contact_update ON contacts;
+CREATE TRIGGER log_contact_update AFTER UPDATE ON contacts
+    FOR EACH ROW EXECUTE FUNCTION log_contact_update();
+
+DROP TRIGGER IF EXISTS log_contact_delete ON contacts;
+CREATE TRIGGER log_contact_delete BEFORE DELETE ON contacts
+    FOR EACH ROW EXECUTE FUNCTION log_contact_delete();
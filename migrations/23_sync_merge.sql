@@ -0,0 +1,31 @@
+-- Three-way merge for the Radicale <-> Postgres sync (sync-service/src/sync/conflict.ts).
+--
+-- contact_sync_bases holds, per contact, the last vCard both sides agreed on:
+-- written after every successful push to or pull from Radicale. When both
+-- sides change before the next sync, each is diffed against this base and
+-- non-overlapping property changes are merged. Kept out of contacts so
+-- updating it does not touch updated_at or the change log.
+--
+-- contact_sync_conflicts records the properties both sides changed
+-- differently. `fields` is a JSON array of
+--   { property, base: [...], db: [...], radicale: [...], kept: 'db' | 'radicale' }
+-- holding the raw vCard lines of each version. The kept value is already in
+-- the contact; the record exists so the UI can show what the other side had
+-- until someone resolves it.
+
+CREATE TABLE IF NOT EXISTS contact_sync_bases (
+  contact_id UUID PRIMARY KEY REFERENCES contacts(id) ON DELETE CASCADE,
+  vcard_data TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS contact_sync_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  fields JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_sync_conflicts_open ON contact_sync_conflicts(contact_id) WHERE resolved_at IS NULL;
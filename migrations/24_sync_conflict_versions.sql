@@ -0,0 +1,11 @@
+-- Both versions of a conflicted contact, for the /conflicts inbox in the UI.
+--
+-- db_version and radicale_version hold each side's contact fields (the
+-- contacts columns minus ids, sync bookkeeping, photo and raw vCard) as they
+-- were when the sync service detected the conflict, so the inbox can compare
+-- them field by field even after the contact has moved on. `resolution`
+-- records the per-field choice ('db', 'radicale' or 'both') made there.
+
+ALTER TABLE contact_sync_conflicts ADD COLUMN IF NOT EXISTS db_version JSONB;
+ALTER TABLE contact_sync_conflicts ADD COLUMN IF NOT EXISTS radicale_version JSONB;
+ALTER TABLE contact_sync_conflicts ADD COLUMN IF NOT EXISTS resolution JSONB;
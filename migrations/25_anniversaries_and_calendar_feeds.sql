@@ -0,0 +1,16 @@
+-- Dates for the /upcoming page and the birthdays calendar feed.
+--
+-- anniversary is the date a spouse or partner relationship started (e.g. the
+-- wedding day). Like the rest of the relationship graph it stays DB/UI-only.
+--
+-- address_book_calendar_feeds holds at most one secret token per book for
+-- /api/calendar/birthdays.ics. Calendar apps cannot log in, so the token in the
+-- subscription URL is the credential; replacing it revokes old links.
+
+ALTER TABLE contact_relationships ADD COLUMN IF NOT EXISTS anniversary DATE;
+
+CREATE TABLE IF NOT EXISTS address_book_calendar_feeds (
+  address_book_id UUID NOT NULL PRIMARY KEY REFERENCES address_books(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
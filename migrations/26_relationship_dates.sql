@@ -0,0 +1,26 @@
+-- Dates on the relationship graph, for family-tree use.
+--
+-- contact_relationships.start_date / end_date bound a spouse or partner
+-- relationship (married 1998, divorced 2010). start_date replaces the
+-- anniversary column from migration 25; an ongoing relationship's start date
+-- is its anniversary.
+--
+-- relationship_placeholders.birth_date / death_date hold full dates when they
+-- are known. birth_year / death_year stay for people only known to the year
+-- and are kept in step with the dates by the API.
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'contact_relationships' AND column_name = 'anniversary'
+  ) THEN
+    ALTER TABLE contact_relationships RENAME COLUMN anniversary TO start_date;
+  END IF;
+END $$;
+
+ALTER TABLE contact_relationships ADD COLUMN IF NOT EXISTS start_date DATE;
+ALTER TABLE contact_relationships ADD COLUMN IF NOT EXISTS end_date DATE;
+
+ALTER TABLE relationship_placeholders ADD COLUMN IF NOT EXISTS birth_date DATE;
+ALTER TABLE relationship_placeholders ADD COLUMN IF NOT EXISTS death_date DATE;
@@ -0,0 +1,28 @@
+-- Two-step contact import: an uploaded CSV or vCard file is staged here,
+-- previewed with its column mapping and per-row decisions, and only written
+-- to contacts once the user confirms. A session is deleted when it is
+-- committed or discarded; stale ones are purged when new files are staged.
+--
+-- column_mapping holds one canonical field (or null to ignore) per CSV
+-- column; vCard sessions have none. decisions maps a row or card number to
+-- create | update | skip and only lists rows the user overrode.
+--
+-- contact_history.batch_id ties every entry written by one commit to the
+-- summary 'import' entry, so undoing that entry reverts the whole import.
+
+CREATE TABLE IF NOT EXISTS contact_import_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'vcard')),
+  content TEXT NOT NULL,
+  column_mapping JSONB,
+  decisions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_import_sessions_created_at ON contact_import_sessions(created_at);
+
+ALTER TABLE contact_history ADD COLUMN IF NOT EXISTS batch_id UUID;
+CREATE INDEX IF NOT EXISTS idx_contact_history_batch_id ON contact_history(batch_id) WHERE batch_id IS NOT NULL;
@@ -0,0 +1,11 @@
+-- Options chosen on the import preview: the books new contacts are added to
+-- (NULL: the default shared-contacts book) and what happens to rows that
+-- match an existing contact:
+--   overwrite   imported values replace the contact's (empty ones are ignored)
+--   fill_empty  imported values only fill fields the contact leaves empty
+--   skip        matched rows are left out
+--   create      matched rows become new contacts anyway
+
+ALTER TABLE contact_import_sessions ADD COLUMN IF NOT EXISTS address_book_ids UUID[];
+ALTER TABLE contact_import_sessions ADD COLUMN IF NOT EXISTS match_strategy TEXT NOT NULL DEFAULT 'overwrite'
+  CHECK (match_strategy IN ('overwrite', 'fill_empty', 'skip', 'create'));
@@ -0,0 +1,51 @@
+-- Full-text search for the contacts list (GET /api/contacts?q=...).
+--
+-- The document is built by an IMMUTABLE function over the searched columns and
+-- indexed as an expression, so contacts gets no extra column: code that copies
+-- whole rows (history snapshots, undo, merges) keeps working unchanged. Queries
+-- must call the function with the same arguments for the index to be used; see
+-- SEARCH_VECTOR in shared/contact-filter.ts.
+--
+-- The 'simple' configuration is used so names are not stemmed. Emails are
+-- indexed whole and split on "@" and ".", and phone numbers both as one run of
+-- digits and as their digit groups, so "ada", "example", "555-0100" and "12025550100"
+-- all find ada@example.com / +1 202-555-0100.
+
+CREATE OR REPLACE FUNCTION contact_search_vector(
+  full_name TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  nickname TEXT,
+  maiden_name TEXT,
+  email TEXT,
+  emails JSONB,
+  phone TEXT,
+  phones JSONB,
+  organization TEXT,
+  job_title TEXT,
+  notes TEXT
+) RETURNS tsvector AS $$
+  WITH parts AS (
+    SELECT
+      concat_ws(' ', email, (SELECT string_agg(e->>'value', ' ')
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(emails) = 'array' THEN emails ELSE '[]'::jsonb END) e)) AS all_emails,
+      array_remove(array_prepend(phone, ARRAY(SELECT p->>'value'
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(phones) = 'array' THEN phones ELSE '[]'::jsonb END) p)), NULL) AS all_phones
+  )
+  SELECT
+    setweight(to_tsvector('simple', concat_ws(' ', full_name, first_name, last_name, nickname, maiden_name)), 'A') ||
+    setweight(to_tsvector('simple', concat_ws(' ',
+      all_emails,
+      translate(all_emails, '@.', '  '),
+      -- Each number as one run of digits, then as its separate digit groups.
+      (SELECT string_agg(regexp_replace(num, '\D', '', 'g'), ' ') FROM unnest(all_phones) num),
+      regexp_replace(array_to_string(all_phones, ' '), '\D+', ' ', 'g')
+    )), 'B') ||
+    setweight(to_tsvector('simple', concat_ws(' ', organization, job_title)), 'C') ||
+    setweight(to_tsvector('simple', COALESCE(notes, '')), 'D')
+  FROM parts
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_search ON contacts USING GIN (
+  contact_search_vector(full_name, first_name, last_name, nickname, maiden_name, email, emails, phone, phones, organization, job_title, notes)
+) WHERE deleted_at IS NULL;
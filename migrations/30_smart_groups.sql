@@ -0,0 +1,27 @@
+-- Smart groups: saved contact searches published to CardDAV as read-only
+-- address books.
+--
+-- query is the search as typed in the contacts list (the language of
+-- ui/src/lib/contact-query.ts) and is the source of truth. The UI compiles it
+-- into filter_sql, a WHERE clause over contacts with $1..$n bound to
+-- filter_params, whenever a group is saved; the sync service only ever runs
+-- that stored clause, so it needs no copy of the parser. Membership is
+-- re-evaluated on every DB → Radicale sync, so it follows contact edits.
+--
+-- Each group is served like a book's read-only subscription: user
+-- ro-{smart_group_id} (password_hash) reads collection ro-{id}/{id}.
+
+CREATE TABLE IF NOT EXISTS smart_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  filter_sql TEXT NOT NULL,
+  filter_params JSONB NOT NULL DEFAULT '[]'::jsonb,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_smart_groups_updated_at ON smart_groups;
+CREATE TRIGGER update_smart_groups_updated_at BEFORE UPDATE ON smart_groups
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,66 @@
+-- Contact groups inside an address book, synced as group vCards
+-- (KIND:group / X-ADDRESSBOOKSERVER-KIND:group with one MEMBER per contact),
+-- which is how Apple Contacts and DAVx5 store groups in a CardDAV collection.
+--
+-- vcard_id is the group card's UID and file name in the book's collection.
+-- vcard_hash is the card last written to or read from Radicale, so the sync
+-- service only rewrites a group whose card changed; last_synced_at is when
+-- that happened, and an updated_at after it means the group was edited in the
+-- UI since.
+--
+-- Before this migration group cards were imported as contacts (with the
+-- X-ADDRESSBOOKSERVER-* lines kept as custom fields). Those rows become real
+-- groups here and are removed from contacts.
+
+CREATE TABLE IF NOT EXISTS contact_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  address_book_id UUID NOT NULL REFERENCES address_books(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  vcard_id TEXT NOT NULL,
+  vcard_hash TEXT,
+  last_synced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (address_book_id, vcard_id)
+);
+
+CREATE TABLE IF NOT EXISTS contact_group_members (
+  group_id UUID NOT NULL REFERENCES contact_groups(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  PRIMARY KEY (group_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_group_members_contact_id ON contact_group_members(contact_id);
+
+DROP TRIGGER IF EXISTS update_contact_groups_updated_at ON contact_groups;
+CREATE TRIGGER update_contact_groups_updated_at BEFORE UPDATE ON contact_groups
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Group cards previously imported as contacts.
+CREATE TEMP TABLE legacy_group_contacts ON COMMIT DROP AS
+SELECT c.id, c.vcard_id, c.full_name, c.custom_fields
+FROM contacts c
+WHERE c.vcard_id IS NOT NULL
+  AND jsonb_typeof(c.custom_fields) = 'array'
+  AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(c.custom_fields) f
+    WHERE upper(f->>'key') = 'X-ADDRESSBOOKSERVER-KIND' AND lower(f->>'value') = 'group'
+  );
+
+INSERT INTO contact_groups (address_book_id, name, vcard_id)
+SELECT cab.address_book_id, COALESCE(NULLIF(l.full_name, ''), 'Group'), l.vcard_id
+FROM legacy_group_contacts l
+JOIN contact_address_books cab ON cab.contact_id = l.id
+ON CONFLICT (address_book_id, vcard_id) DO NOTHING;
+
+INSERT INTO contact_group_members (group_id, contact_id)
+SELECT g.id, member.id
+FROM legacy_group_contacts l
+JOIN contact_groups g ON g.vcard_id = l.vcard_id
+CROSS JOIN LATERAL jsonb_array_elements(l.custom_fields) f
+JOIN contacts member ON member.vcard_id = regexp_replace(f->>'value', '^urn:uuid:', '', 'i') AND member.deleted_at IS NULL
+JOIN contact_address_books mcab ON mcab.contact_id = member.id AND mcab.address_book_id = g.address_book_id
+WHERE upper(f->>'key') = 'X-ADDRESSBOOKSERVER-MEMBER'
+ON CONFLICT DO NOTHING;
+
+DELETE FROM contacts WHERE id IN (SELECT id FROM legacy_group_contacts);
@@ -0,0 +1,14 @@
+-- Colors for contact tags. Tags themselves live in contacts.categories (vCard
+-- CATEGORIES); this table only holds what a vCard can't carry. Tags compare
+-- case-insensitively, so tag is the lower-cased name.
+
+CREATE TABLE IF NOT EXISTS tag_colors (
+  tag TEXT PRIMARY KEY CHECK (tag = lower(tag)),
+  color TEXT NOT NULL CHECK (color ~ '^#[0-9a-f]{6}$'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_tag_colors_updated_at ON tag_colors;
+CREATE TRIGGER update_tag_colors_updated_at BEFORE UPDATE ON tag_colors
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,45 @@
+-- Contact photos move out of the contacts row. Each photo is stored once,
+-- addressed by its SHA-256 (contacts.photo_hash). data holds the bytes when
+-- PHOTO_STORE is 'db' (the default); with an external store ('fs', 's3') the
+-- row only records the photo and data stays NULL.
+
+CREATE TABLE IF NOT EXISTS contact_photos (
+  hash VARCHAR(64) PRIMARY KEY,
+  mime VARCHAR(50) NOT NULL DEFAULT 'image/jpeg',
+  byte_size INT NOT NULL,
+  data BYTEA,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'contacts' AND column_name = 'photo_blob'
+  ) THEN
+    -- A one-off storage move, not a contact edit: keep updated_at and the
+    -- CardDAV change log as they are.
+    ALTER TABLE contacts DISABLE TRIGGER update_contacts_updated_at;
+    ALTER TABLE contacts DISABLE TRIGGER log_contact_update;
+
+    UPDATE contacts SET photo_hash = encode(sha256(photo_blob), 'hex')
+    WHERE photo_blob IS NOT NULL AND photo_hash IS NULL;
+
+    INSERT INTO contact_photos (hash, mime, byte_size, data)
+    SELECT DISTINCT ON (photo_hash) photo_hash, COALESCE(photo_mime, 'image/jpeg'), octet_length(photo_blob), photo_blob
+    FROM contacts
+    WHERE photo_blob IS NOT NULL
+    ORDER BY photo_hash, updated_at DESC
+    ON CONFLICT (hash) DO NOTHING;
+
+    -- The sync service puts PHOTO back from the store when it publishes a card.
+    UPDATE contacts
+    SET vcard_data = regexp_replace(vcard_data, E'\\r?\\n(?:[A-Za-z0-9-]+\\.)?PHOTO[;:][^\\r\\n]*(?:\\r?\\n[ \\t][^\\r\\n]*)*', '', 'gi')
+    WHERE photo_blob IS NOT NULL AND vcard_data IS NOT NULL;
+
+    ALTER TABLE contacts ENABLE TRIGGER update_contacts_updated_at;
+    ALTER TABLE contacts ENABLE TRIGGER log_contact_update;
+
+    ALTER TABLE contacts DROP COLUMN photo_blob;
+  END IF;
+END $$;
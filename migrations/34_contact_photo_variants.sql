@@ -0,0 +1,18 @@
+-- Resized copies of each contact photo (longest edge <= size pixels), made
+-- when the photo is stored, or on first request for older photos. A photo
+-- that already fits has variant_hash = hash and no copy. data holds the bytes
+-- when PHOTO_STORE is 'db'; external stores keep them under <hash>_<size>.
+
+CREATE TABLE IF NOT EXISTS contact_photo_variants (
+  hash VARCHAR(64) NOT NULL REFERENCES contact_photos(hash) ON DELETE CASCADE,
+  size INT NOT NULL,
+  variant_hash VARCHAR(64) NOT NULL,
+  mime VARCHAR(50),
+  byte_size INT,
+  data BYTEA,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (hash, size)
+);
+
+-- A CardDAV client sends back the variant it was given; this finds its original.
+CREATE INDEX IF NOT EXISTS idx_contact_photo_variants_variant_hash ON contact_photo_variants(variant_hash);
@@ -0,0 +1,45 @@
+-- Tell the sync service which contact changed, so it can write that vCard to
+-- Radicale right away instead of waiting for the next SYNC_INTERVAL pass.
+-- The payload is the contact id on the 'contact_changed' channel; NOTIFY is
+-- delivered on commit and duplicates within a transaction are folded.
+--
+-- As in log_contact_update (22_contact_changes.sql), an update that only
+-- touches sync bookkeeping columns is not a change. That keeps the sync
+-- service's own metadata writes from notifying it again.
+
+CREATE OR REPLACE FUNCTION notify_contact_changed()
+RETURNS TRIGGER AS $$
+DECLARE
+  non_content TEXT[] := ARRAY[
+    'updated_at', 'last_synced_from_radicale_at', 'last_synced_to_radicale_at',
+    'vcard_hash', 'sync_source', 'radicale_file_mtime'
+  ];
+BEGIN
+  IF TG_TABLE_NAME = 'contact_address_books' THEN
+    -- Depth > 1 is a cascade from deleting the contact or the book.
+    IF pg_trigger_depth() > 1 THEN
+      RETURN NULL;
+    END IF;
+    IF TG_OP = 'INSERT' THEN
+      PERFORM pg_notify('contact_changed', NEW.contact_id::text);
+    ELSE
+      PERFORM pg_notify('contact_changed', OLD.contact_id::text);
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    PERFORM pg_notify('contact_changed', NEW.id::text);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM pg_notify('contact_changed', OLD.id::text);
+  ELSIF (to_jsonb(NEW) - non_content) IS DISTINCT FROM (to_jsonb(OLD) - non_content) THEN
+    PERFORM pg_notify('contact_changed', NEW.id::text);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS notify_contact_changed ON contacts;
+CREATE TRIGGER notify_contact_changed AFTER INSERT OR UPDATE OR DELETE ON contacts
+    FOR EACH ROW EXECUTE FUNCTION notify_contact_changed();
+
+DROP TRIGGER IF EXISTS notify_contact_membership_changed ON contact_address_books;
+CREATE TRIGGER notify_contact_membership_changed AFTER INSERT OR DELETE ON contact_address_books
+    FOR EACH ROW EXECUTE FUNCTION notify_contact_changed();
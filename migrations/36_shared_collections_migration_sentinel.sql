@@ -0,0 +1,9 @@
+-- Sentinel table for one-time shared collections migration.
+-- Sync-service checks this table on startup; if no row exists, it merges each
+-- per-user copy of a book (collection-root/{username-bookid}, {username}/{bookid}
+-- and ro-{bookid}/{bookid}) into collection-root/{bookid}, replaces the copy
+-- with a symlink to it, then inserts a row to mark completion.
+CREATE TABLE IF NOT EXISTS shared_collections_migration_done (
+  id SERIAL PRIMARY KEY,
+  done_at TIMESTAMPTZ DEFAULT NOW()
+);
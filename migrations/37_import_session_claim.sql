@@ -0,0 +1,7 @@
+-- Set when a commit of an import session starts, so a double-submitted
+-- confirm cannot write the same file twice. The session is deleted in the
+-- import's transaction; a failed commit clears the claim so the user can
+-- retry, and a claim older than the commit timeout (a crashed request) no
+-- longer blocks one.
+
+ALTER TABLE contact_import_sessions ADD COLUMN IF NOT EXISTS commit_claimed_at TIMESTAMPTZ;
@@ -0,0 +1,12 @@
+-- Smart groups store their search as parsed terms instead of compiled SQL.
+--
+-- filter_terms is the query parsed into the QueryTerm list of
+-- shared/contact-filter.ts. The UI (for member counts) and the sync service
+-- (for the CardDAV collection) compile it with that same module each time they
+-- run a group, so the database never holds SQL that gets executed as-is.
+-- Groups saved before this migration have filter_terms NULL; both sides parse
+-- their query instead until the group is saved again.
+
+ALTER TABLE smart_groups ADD COLUMN IF NOT EXISTS filter_terms JSONB;
+ALTER TABLE smart_groups DROP COLUMN IF EXISTS filter_sql;
+ALTER TABLE smart_groups DROP COLUMN IF EXISTS filter_params;
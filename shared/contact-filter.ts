@@ -0,0 +1,299 @@
+// The contacts search language, shared by the UI and the sync service. Plain
+// words are full-text searched; words of the form `qualifier:value` filter on
+// a field, and a leading "-" negates either kind:
+//
+//   book:family has:birthday -has:email org:"Acme" city:Denver born:1980..1990 tag:volunteer
+//
+// The UI parses searches (and smart group queries) into terms; smart groups
+// store those terms, and whoever runs one compiles them here, so the database
+// never holds SQL. This module must stay free of imports: it is built into
+// the browser bundle, the UI server and the sync service. Compiling only
+// emits SQL fragments over the contacts row with every value passed through
+// `param`, never spliced in.
+
+export class ContactQueryError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'ContactQueryError'
+	}
+}
+
+export interface QualifierInfo {
+	key: string
+	/** Other spellings accepted for the same qualifier. */
+	aliases: Array<string>
+	description: string
+	example: string
+}
+
+export const QUALIFIERS: Array<QualifierInfo> = [
+	{ key: 'book', aliases: [], description: 'In an address book (slug or name)', example: 'book:family' },
+	{ key: 'has', aliases: [], description: 'Has a value for a field; -has: for missing', example: 'has:birthday' },
+	{ key: 'name', aliases: [], description: 'Name contains', example: 'name:ada' },
+	{ key: 'email', aliases: [], description: 'Any email contains', example: 'email:example.com' },
+	{ key: 'phone', aliases: [], description: 'Any phone number contains these digits', example: 'phone:555' },
+	{ key: 'org', aliases: ['organization', 'company'], description: 'Organization contains', example: 'org:"Acme"' },
+	{ key: 'title', aliases: [], description: 'Job title contains', example: 'title:engineer' },
+	{ key: 'city', aliases: [], description: 'Lives in a city', example: 'city:Denver' },
+	{ key: 'tag', aliases: ['category'], description: 'Has a category', example: 'tag:volunteer' },
+	{ key: 'born', aliases: [], description: 'Birth year or date range', example: 'born:1980..1990' },
+	{ key: 'note', aliases: ['notes'], description: 'Notes contain', example: 'note:allergic' },
+]
+
+export type QueryTerm =
+	| { kind: 'text'; value: string; negated: boolean }
+	| { kind: 'qualifier'; qualifier: string; value: string; negated: boolean }
+
+const JSONB_ARRAY = (column: string) =>
+	`jsonb_array_elements(CASE WHEN jsonb_typeof(${column}) = 'array' THEN ${column} ELSE '[]'::jsonb END)`
+const NON_EMPTY_ARRAY = (column: string) => `(jsonb_typeof(${column}) = 'array' AND jsonb_array_length(${column}) > 0)`
+
+/** Conditions for has:<field>. The first five are also the contacts list's filter chips. */
+export const HAS_CONDITIONS: Record<string, string> = {
+	email: "COALESCE(email, '') <> ''",
+	phone: "COALESCE(phone, '') <> ''",
+	birthday: 'birthday IS NOT NULL',
+	organization: "COALESCE(organization, '') <> ''",
+	book: 'EXISTS (SELECT 1 FROM contact_address_books cab WHERE cab.contact_id = contacts.id)',
+	address: `(COALESCE(address, '') <> '' OR ${NON_EMPTY_ARRAY('addresses')})`,
+	photo: 'photo_hash IS NOT NULL',
+	nickname: "COALESCE(nickname, '') <> ''",
+	notes: "COALESCE(notes, '') <> ''",
+	tag: NON_EMPTY_ARRAY('categories'),
+	title: "COALESCE(job_title, '') <> ''",
+	url: `(COALESCE(homepage, '') <> '' OR ${NON_EMPTY_ARRAY('urls')})`,
+}
+
+const HAS_ALIASES: Partial<Record<string, string>> = { org: 'organization', note: 'notes', category: 'tag', homepage: 'url' }
+
+/** Years at or below this mean "no year given" (Apple stores 1604), as in upcoming.ts. */
+const NO_YEAR_MAX = 1700
+
+export function qualifierFor(word: string): QualifierInfo | undefined {
+	const key = word.toLowerCase()
+	return QUALIFIERS.find(info => info.key === key || info.aliases.includes(key))
+}
+
+/** A bare word, or a double-quoted phrase (an unclosed quote runs to the end). */
+function readValue(input: string, start: number): { value: string; end: number } {
+	if (input[start] === '"') {
+		const close = input.indexOf('"', start + 1)
+		return close === -1 ? { value: input.slice(start + 1), end: input.length } : { value: input.slice(start + 1, close), end: close + 1 }
+	}
+	let end = start
+	while (end < input.length && !/\s/.test(input[end])) end++
+	return { value: input.slice(start, end), end }
+}
+
+/** Split a search into terms. Words that look like qualifiers but name none (say "re:") stay plain text. */
+export function parseContactQuery(input: string): Array<QueryTerm> {
+	const terms: Array<QueryTerm> = []
+	let i = 0
+	while (i < input.length) {
+		if (/\s/.test(input[i])) {
+			i++
+			continue
+		}
+		const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])
+		if (negated) i++
+
+		const prefix = /^([a-z]+):/i.exec(input.slice(i))
+		const qualifier = prefix ? qualifierFor(prefix[1]) : undefined
+		if (prefix && qualifier) i += prefix[0].length
+
+		const { value, end } = readValue(input, i)
+		i = end
+		if (qualifier) {
+			if (!value.trim()) throw new ContactQueryError(`${qualifier.key}: needs a value, as in ${qualifier.example}`)
+			terms.push({ kind: 'qualifier', qualifier: qualifier.key, value: value.trim(), negated })
+		} else if (value.trim()) {
+			terms.push({ kind: 'text', value: value.trim(), negated })
+		}
+	}
+	return terms
+}
+
+export function escapeLike(value: string): string {
+	return value.replace(/[\\%_]/g, char => `\\${char}`)
+}
+
+function isCalendarDate(value: string): boolean {
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+	if (!match) return false
+	const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+	return date.getUTCMonth() === Number(match[2]) - 1 && date.getUTCDate() === Number(match[3])
+}
+
+function bornRange(value: string): { from: string | null; to: string | null } {
+	const bound = (part: string, end: boolean): string | null => {
+		if (!part) return null
+		if (/^\d{4}$/.test(part)) return end ? `${part}-12-31` : `${part}-01-01`
+		if (isCalendarDate(part)) return part
+		throw new ContactQueryError(`born: takes a year or YYYY-MM-DD date, or a range like 1980..1990 (got "${value}")`)
+	}
+	const parts = value.split('..')
+	if (parts.length > 2) throw new ContactQueryError(`born: range "${value}" is not valid`)
+	if (parts.length === 1) return { from: bound(value, false), to: bound(value, true) }
+	const range = { from: bound(parts[0], false), to: bound(parts[1], true) }
+	if (!range.from && !range.to) throw new ContactQueryError('born: range needs at least one end')
+	return range
+}
+
+function qualifierCondition(qualifier: string, value: string, param: (value: unknown) => string): string {
+	const contains = () => param(`%${escapeLike(value)}%`)
+	switch (qualifier) {
+		case 'book': {
+			const book = param(value.toLowerCase())
+			return `EXISTS (SELECT 1 FROM contact_address_books cab JOIN address_books ab ON ab.id = cab.address_book_id WHERE cab.contact_id = contacts.id AND (ab.slug = ${book} OR lower(ab.name) = ${book}))`
+		}
+		case 'has': {
+			const field = HAS_ALIASES[value.toLowerCase()] ?? value.toLowerCase()
+			if (!(field in HAS_CONDITIONS)) {
+				throw new ContactQueryError(`has: takes one of ${Object.keys(HAS_CONDITIONS).join(', ')} (got "${value}")`)
+			}
+			return HAS_CONDITIONS[field]
+		}
+		case 'name':
+			return `concat_ws(' ', full_name, first_name, last_name, nickname, maiden_name) ILIKE ${contains()}`
+		case 'email': {
+			const pattern = contains()
+			return `(email ILIKE ${pattern} OR EXISTS (SELECT 1 FROM ${JSONB_ARRAY('emails')} e WHERE e->>'value' ILIKE ${pattern}))`
+		}
+		case 'phone': {
+			const digits = value.replace(/\D/g, '')
+			if (!digits) throw new ContactQueryError(`phone: takes digits (got "${value}")`)
+			const pattern = param(`%${digits}%`)
+			return `EXISTS (SELECT 1 FROM unnest(array_prepend(phone, ARRAY(SELECT p->>'value' FROM ${JSONB_ARRAY('phones')} p))) num WHERE regexp_replace(num, '\\D', '', 'g') LIKE ${pattern})`
+		}
+		case 'org':
+			return `organization ILIKE ${contains()}`
+		case 'title':
+			return `job_title ILIKE ${contains()}`
+		case 'city': {
+			// Exact but case-insensitive; addresses store the city as the fourth ADR component.
+			const city = param(escapeLike(value))
+			return `(address_city ILIKE ${city} OR EXISTS (SELECT 1 FROM ${JSONB_ARRAY('addresses')} a WHERE split_part(a->>'value', ';', 4) ILIKE ${city}))`
+		}
+		case 'tag':
+			return `EXISTS (SELECT 1 FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(categories) = 'array' THEN categories ELSE '[]'::jsonb END) t WHERE lower(t) = ${param(value.toLowerCase())})`
+		case 'born': {
+			const { from, to } = bornRange(value)
+			const bounds = [`EXTRACT(YEAR FROM birthday) > ${NO_YEAR_MAX}`]
+			if (from) bounds.push(`birthday >= ${param(from)}::date`)
+			if (to) bounds.push(`birthday <= ${param(to)}::date`)
+			return `(${bounds.join(' AND ')})`
+		}
+		case 'note':
+			return `notes ILIKE ${contains()}`
+		default:
+			throw new ContactQueryError(`Unknown qualifier "${qualifier}:"`)
+	}
+}
+
+export interface CompiledContactQuery {
+	/** WHERE conditions for the qualifiers. */
+	conditions: Array<string>
+	/** Free words to full-text search for. */
+	text: Array<string>
+	/** Negated free words: contacts matching any of them are left out. */
+	excludedText: Array<string>
+}
+
+export function compileContactQuery(terms: Array<QueryTerm>, param: (value: unknown) => string): CompiledContactQuery {
+	const compiled: CompiledContactQuery = { conditions: [], text: [], excludedText: [] }
+	for (const term of terms) {
+		if (term.kind === 'text') {
+			;(term.negated ? compiled.excludedText : compiled.text).push(term.value)
+			continue
+		}
+		const condition = qualifierCondition(term.qualifier, term.value, param)
+		// A NULL column makes the condition NULL; negated, that must still count as "not matching".
+		compiled.conditions.push(term.negated ? `NOT COALESCE((${condition}), false)` : condition)
+	}
+	return compiled
+}
+
+// ---------------------------------------------------------------------------
+// Full-text search
+// ---------------------------------------------------------------------------
+
+/** Must match the index expression in migrations/29_contact_search.sql exactly. */
+export const SEARCH_VECTOR =
+	'contact_search_vector(full_name, first_name, last_name, nickname, maiden_name, email, emails, phone, phones, organization, job_title, notes)'
+
+/** The ILIKE fallback's haystack: the same columns the search vector covers. */
+const SEARCH_TEXT =
+	"concat_ws(' ', full_name, first_name, last_name, nickname, maiden_name, email, emails::text, phone, phones::text, organization, job_title, notes)"
+
+/** A search term as prefix lexemes. Phone-like terms become their digit groups, matching how numbers are indexed. */
+function termLexemes(term: string): Array<string> {
+	if (/\d/.test(term) && /^[\d\s()+.-]+$/.test(term)) {
+		return term.split(/\D+/).filter(Boolean)
+	}
+	const cleaned = term.replace(/[^\p{L}\p{N}@._-]/gu, '')
+	return cleaned ? [cleaned] : []
+}
+
+/**
+ * Turn free text into a to_tsquery('simple', ...) expression: every word must
+ * match, each as a prefix, so results narrow as the user types. Null when the
+ * text has nothing searchable.
+ */
+export function buildSearchQuery(text: string): string | null {
+	const lexemes = text.toLowerCase().split(/\s+/).flatMap(termLexemes)
+	if (lexemes.length === 0) return null
+	return lexemes.map(lexeme => `'${lexeme}':*`).join(' & ')
+}
+
+export interface ContactSearchSql {
+	conditions: Array<string>
+	/** Relevance expression when there are words to rank by. */
+	rank: string | null
+}
+
+/**
+ * WHERE conditions for parsed search terms. `fullTextSearch` says whether the
+ * contact_search_vector() function from migration 29 exists; without it words
+ * are matched with ILIKE over the same columns. Null when the words have
+ * nothing searchable, so nothing can match; no value has been passed to
+ * `param` then. Throws ContactQueryError.
+ */
+export function compileContactSearch(
+	terms: Array<QueryTerm>,
+	param: (value: unknown) => string,
+	fullTextSearch: boolean
+): ContactSearchSql | null {
+	const words = terms.filter(term => term.kind === 'text' && !term.negated).map(term => term.value)
+	const tsquery = fullTextSearch && words.length > 0 ? buildSearchQuery(words.join(' ')) : null
+	if (fullTextSearch && words.length > 0 && !tsquery) return null
+
+	const compiled = compileContactQuery(terms, param)
+	const conditions = [...compiled.conditions]
+	let rank: string | null = null
+	if (fullTextSearch) {
+		if (tsquery) {
+			const tsqueryParam = param(tsquery)
+			conditions.push(`${SEARCH_VECTOR} @@ to_tsquery('simple', ${tsqueryParam})`)
+			rank = `ts_rank(${SEARCH_VECTOR}, to_tsquery('simple', ${tsqueryParam}))`
+		}
+		for (const word of compiled.excludedText) {
+			const excluded = buildSearchQuery(word)
+			if (excluded) conditions.push(`NOT (${SEARCH_VECTOR} @@ to_tsquery('simple', ${param(excluded)}))`)
+		}
+	} else {
+		for (const word of compiled.text.flatMap(text => text.split(/\s+/))) {
+			conditions.push(`${SEARCH_TEXT} ILIKE ${param(`%${escapeLike(word)}%`)}`)
+		}
+		for (const word of compiled.excludedText) {
+			conditions.push(`${SEARCH_TEXT} NOT ILIKE ${param(`%${escapeLike(word)}%`)}`)
+		}
+	}
+	return { conditions, rank }
+}
+
+/** The whole search as one parenthesized WHERE condition over contacts. Throws ContactQueryError. */
+export function compileContactFilter(terms: Array<QueryTerm>, param: (value: unknown) => string, fullTextSearch: boolean): string {
+	const search = compileContactSearch(terms, param, fullTextSearch)
+	if (!search) return '(false)'
+	return search.conditions.length > 0 ? `(${search.conditions.join(' AND ')})` : '(true)'
+}
@@ -0,0 +1,7 @@
+// Longest-edge pixel sizes of the resized variants made for every stored
+// photo: the UI's photo route serves them with `?size=`, and the sync service
+// can publish one to CardDAV clients. Kept apart from photo-store.ts and free
+// of imports because the browser bundle builds photo URLs with these too.
+
+export const PHOTO_SIZES = [64, 256, 512] as const
+export type PhotoSize = (typeof PHOTO_SIZES)[number]
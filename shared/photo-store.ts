@@ -0,0 +1,296 @@
+import crypto from 'node:crypto'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { PHOTO_SIZES } from './photo-sizes'
+import type { PhotoSize } from './photo-sizes'
+
+/**
+ * Contact photos are kept out of the contacts row, addressed by photo_hash
+ * (the SHA-256 of the image bytes). contact_photos records every photo; where
+ * the bytes live depends on PHOTO_STORE:
+ *
+ * - `db` (default): contact_photos.data
+ * - `fs`: files under PHOTO_STORE_PATH
+ * - `s3`: objects in an S3-compatible bucket (AWS, MinIO, ...)
+ *
+ * Each photo also gets resized variants (PHOTO_SIZES), kept in
+ * contact_photo_variants and, for an external store, under `<hash>_<size>`.
+ *
+ * Photos are never overwritten or deleted here: history entries keep pointing
+ * at old hashes, so an undo can bring an earlier photo back.
+ *
+ * The UI and the sync service both run this store. Each passes in its own
+ * database pool, logger and image resizer (sharp lives in each package's
+ * dependencies, not here).
+ */
+export interface BlobStore {
+	get: (key: string) => Promise<Buffer | null>
+	put: (key: string, data: Buffer, mime: string) => Promise<void>
+}
+
+/** Photo bytes with their content hash; mime is null when it is the contact's own photo_mime. */
+export interface PhotoData {
+	hash: string
+	data: Buffer
+	mime: string | null
+}
+
+export interface S3Config {
+	endpoint: string
+	bucket: string
+	region: string
+	accessKeyId: string
+	secretAccessKey: string
+}
+
+/** Files named by key, fanned out by its first two characters. */
+export function createFsStore(root: string): BlobStore {
+	const filePath = (key: string) => path.join(root, key.slice(0, 2), key)
+	return {
+		async get(key) {
+			try {
+				return await readFile(filePath(key))
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+				throw error
+			}
+		},
+		async put(key, data) {
+			const target = filePath(key)
+			await mkdir(path.dirname(target), { recursive: true })
+			const temp = `${target}.${process.pid}.tmp`
+			await writeFile(temp, data)
+			await rename(temp, target)
+		},
+	}
+}
+
+function sha256Hex(data: Uint8Array | string): string {
+	return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+	return crypto.createHmac('sha256', key).update(data).digest()
+}
+
+/**
+ * AWS Signature Version 4 Authorization header for a request with no query
+ * string. `headers` are the headers to sign, lower-cased, and must include
+ * host, x-amz-date and x-amz-content-sha256.
+ */
+export function signS3Request(
+	method: string,
+	pathname: string,
+	headers: Record<string, string>,
+	config: Pick<S3Config, 'region' | 'accessKeyId' | 'secretAccessKey'>
+): string {
+	const amzDate = headers['x-amz-date']
+	const date = amzDate.slice(0, 8)
+	const names = Object.keys(headers).sort()
+	const signedHeaders = names.join(';')
+	const canonicalRequest = [
+		method,
+		pathname,
+		'',
+		names.map(name => `${name}:${headers[name].trim()}\n`).join(''),
+		signedHeaders,
+		headers['x-amz-content-sha256'],
+	].join('\n')
+	const scope = `${date}/${config.region}/s3/aws4_request`
+	const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+	const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region), 's3'), 'aws4_request')
+	const signature = hmac(signingKey, stringToSign).toString('hex')
+	return `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+}
+
+/** Path-style requests (endpoint/bucket/key), which MinIO and other stand-ins accept. */
+export function createS3Store(config: S3Config): BlobStore {
+	const request = (method: 'GET' | 'PUT', key: string, body?: Buffer, mime?: string): Promise<Response> => {
+		const url = new URL(`${config.endpoint.replace(/\/+$/, '')}/${config.bucket}/${key}`)
+		const headers: Record<string, string> = {
+			'x-amz-content-sha256': sha256Hex(body ?? ''),
+			'x-amz-date': new Date().toISOString().replace(/[-:]|\.\d{3}/g, ''),
+		}
+		if (mime) headers['content-type'] = mime
+		const authorization = signS3Request(method, url.pathname, { ...headers, host: url.host }, config)
+		return fetch(url, { method, headers: { ...headers, authorization }, body: body ? new Uint8Array(body) : undefined })
+	}
+	return {
+		async get(key) {
+			const response = await request('GET', key)
+			if (response.status === 404) return null
+			if (!response.ok) throw new Error(`Photo store GET ${key} failed with ${response.status}`)
+			return Buffer.from(await response.arrayBuffer())
+		},
+		async put(key, data, mime) {
+			const response = await request('PUT', key, data, mime)
+			if (!response.ok) throw new Error(`Photo store PUT ${key} failed with ${response.status}`)
+		},
+	}
+}
+
+function requiredEnv(name: string): string {
+	const value = process.env[name]
+	if (!value) throw new Error(`${name} environment variable is not set`)
+	return value
+}
+
+let externalStore: BlobStore | null | undefined
+
+/** The store PHOTO_STORE selects, or null when the bytes stay in contact_photos. */
+function getExternalStore(): BlobStore | null {
+	if (externalStore !== undefined) return externalStore
+	const kind = (process.env.PHOTO_STORE || 'db').toLowerCase()
+	if (kind === 'fs') {
+		externalStore = createFsStore(requiredEnv('PHOTO_STORE_PATH'))
+	} else if (kind === 's3') {
+		externalStore = createS3Store({
+			endpoint: requiredEnv('PHOTO_STORE_S3_ENDPOINT'),
+			bucket: requiredEnv('PHOTO_STORE_S3_BUCKET'),
+			region: process.env.PHOTO_STORE_S3_REGION || 'us-east-1',
+			accessKeyId: requiredEnv('PHOTO_STORE_S3_ACCESS_KEY_ID'),
+			secretAccessKey: requiredEnv('PHOTO_STORE_S3_SECRET_ACCESS_KEY'),
+		})
+	} else if (kind === 'db') {
+		externalStore = null
+	} else {
+		throw new Error(`Unknown PHOTO_STORE "${kind}"; use db, fs or s3`)
+	}
+	return externalStore
+}
+
+export function photoHash(data: Uint8Array): string {
+	return sha256Hex(data)
+}
+
+/** What the store needs from the package running it. */
+export interface PhotoStoreDeps {
+	query: (text: string, values?: Array<unknown>) => Promise<{ rows: Array<any> }>
+	/** Shrink a photo to fit `size`, or null when it already does. */
+	resize: (data: Buffer, size: number) => Promise<{ data: Buffer; mime: string } | null>
+	logger: { warn: (details: Record<string, unknown>, message: string) => void }
+}
+
+export interface PhotoStore {
+	putPhoto: (photo: Uint8Array, mime: string) => Promise<{ hash: string; mime: string }>
+	getPhoto: (hash: string) => Promise<Buffer | null>
+	getPhotoVariant: (hash: string, size: PhotoSize) => Promise<PhotoData | null>
+	getPhotoVariantHash: (hash: string, size: PhotoSize) => Promise<string | null>
+}
+
+export function createPhotoStore({ query, resize, logger }: PhotoStoreDeps): PhotoStore {
+	const dbStore: BlobStore = {
+		async get(hash) {
+			const result = await query('SELECT data FROM contact_photos WHERE hash = $1', [hash])
+			return result.rows[0]?.data ?? null
+		},
+		async put(hash, data, mime) {
+			await query(
+				`INSERT INTO contact_photos (hash, mime, byte_size, data) VALUES ($1, $2, $3, $4)
+				ON CONFLICT (hash) DO UPDATE SET data = COALESCE(contact_photos.data, EXCLUDED.data)`,
+				[hash, mime, data.length, data]
+			)
+		},
+	}
+
+	/**
+	 * The photo a resized variant was made from. A CardDAV client sends back the
+	 * variant it was given, which must not replace the full-size original.
+	 */
+	const findOriginalPhoto = async (variantHash: string): Promise<{ hash: string; mime: string } | null> => {
+		const result = await query(
+			`SELECT p.hash, p.mime FROM contact_photo_variants v JOIN contact_photos p ON p.hash = v.hash
+			WHERE v.variant_hash = $1 AND v.variant_hash <> v.hash LIMIT 1`,
+			[variantHash]
+		)
+		return result.rows[0] ?? null
+	}
+
+	/**
+	 * Make and save one variant. A photo that already fits, or that cannot be
+	 * decoded, gets a row pointing back at itself so it is not retried.
+	 */
+	const putVariant = async (hash: string, size: PhotoSize, original: Buffer): Promise<PhotoData | null> => {
+		const resized = await resize(original, size).catch((error: unknown) => {
+			logger.warn({ err: error, hash, size }, 'Could not resize photo; serving the original')
+			return null
+		})
+		const variant = resized ? { hash: photoHash(resized.data), ...resized } : null
+		const external = getExternalStore()
+		if (variant && external) await external.put(`${hash}_${size}`, variant.data, variant.mime)
+		await query(
+			`INSERT INTO contact_photo_variants (hash, size, variant_hash, mime, byte_size, data) VALUES ($1, $2, $3, $4, $5, $6)
+			ON CONFLICT (hash, size) DO NOTHING`,
+			[hash, size, variant?.hash ?? hash, variant?.mime ?? null, variant?.data.length ?? null, variant && !external ? variant.data : null]
+		)
+		return variant
+	}
+
+	/**
+	 * Load a photo by hash. Bytes already in contact_photos win, so photos moved
+	 * there by the migration stay readable after switching to an external store.
+	 */
+	const getPhoto = async (hash: string): Promise<Buffer | null> => {
+		const stored = await dbStore.get(hash)
+		if (stored) return stored
+		const external = getExternalStore()
+		return external ? external.get(hash) : null
+	}
+
+	return {
+		/**
+		 * Save a photo and its variants, returning the hash and MIME to put on the
+		 * contact. Saving a photo that is already stored is a no-op.
+		 */
+		async putPhoto(photo, mime) {
+			const data = Buffer.from(photo)
+			const hash = photoHash(data)
+			const stored = await query('SELECT mime FROM contact_photos WHERE hash = $1', [hash])
+			if (stored.rows[0]) return { hash, mime: stored.rows[0].mime }
+			const original = await findOriginalPhoto(hash)
+			if (original) return original
+
+			const external = getExternalStore()
+			if (external) {
+				await external.put(hash, data, mime)
+				await query(`INSERT INTO contact_photos (hash, mime, byte_size) VALUES ($1, $2, $3) ON CONFLICT (hash) DO NOTHING`, [
+					hash,
+					mime,
+					data.length,
+				])
+			} else {
+				await dbStore.put(hash, data, mime)
+			}
+			for (const size of PHOTO_SIZES) await putVariant(hash, size, data)
+			return { hash, mime }
+		},
+
+		getPhoto,
+
+		/**
+		 * A photo resized to fit `size`, or the original when it is already that
+		 * small. Photos stored before variants existed get theirs made here.
+		 */
+		async getPhotoVariant(hash, size) {
+			const result = await query('SELECT variant_hash, mime, data FROM contact_photo_variants WHERE hash = $1 AND size = $2', [hash, size])
+			const row = result.rows[0]
+			if (row && row.variant_hash !== hash) {
+				const data = row.data ?? (await getExternalStore()?.get(`${hash}_${size}`))
+				if (data) return { hash: row.variant_hash, data, mime: row.mime }
+			}
+			const original = await getPhoto(hash)
+			if (!original) return null
+			const variant = row ? null : await putVariant(hash, size, original)
+			return variant ?? { hash, data: original, mime: null }
+		},
+
+		/**
+		 * The hash of the variant getPhotoVariant would serve, read without loading
+		 * any bytes; null when the variant has not been made yet.
+		 */
+		async getPhotoVariantHash(hash, size) {
+			const result = await query('SELECT variant_hash FROM contact_photo_variants WHERE hash = $1 AND size = $2', [hash, size])
+			return result.rows[0]?.variant_hash ?? null
+		},
+	}
+}
@@ -2,10 +2,15 @@ import express, { Request, Response } from 'express'
 import cors from 'cors'
 import { getUsers, createUser, updateUserPassword, deleteUser, backfillSharedContactsForUser } from './htpasswd'
 import { logger, httpLogger } from './logger'
+import { getAddressBookById, getAddressBookSyncHealth, getContactSyncMetadata, resetSyncMetadata, ResyncSource } from './db'
+import { getChangesSince, InvalidSyncTokenError } from './changes'
+import { formatPrometheusMetrics, getManualSyncJob, getSyncStatus, ManualSyncDirection, startManualSync } from './sync'
 
 const app = express()
 const PORT = 3001
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
 // Track when migrations are complete and whether startup hit a fatal error
 let migrationsComplete = false
 let startupError: Error | null = null
@@ -144,6 +149,127 @@ app.delete('/api/radicale-users/:username', async (req: Request, res: Response)
 	}
 })
 
+// Incremental change feed for one address book. Without ?sync_token= every
+// current vCard is returned as created; pass the returned sync_token back to
+// get only what changed since (see changes.ts).
+app.get('/api/address-books/:id/changes', async (req: Request, res: Response) => {
+	try {
+		const { id } = req.params
+		const syncToken = typeof req.query.sync_token === 'string' && req.query.sync_token !== '' ? req.query.sync_token : undefined
+		const book = UUID_PATTERN.test(id) ? await getAddressBookById(id) : null
+		if (!book) {
+			return res.status(404).json({ error: 'Address book not found' })
+		}
+		res.json(await getChangesSince(book.id, syncToken))
+	} catch (error: unknown) {
+		if (error instanceof InvalidSyncTokenError) {
+			// RFC 6578 valid-sync-token: the client should drop its state and do a full sync.
+			return res.status(400).json({ error: error.message, code: 'invalid_sync_token' })
+		}
+		logger.error({ err: error }, 'Error fetching address book changes')
+		res.status(500).json({ error: 'Failed to fetch changes' })
+	}
+})
+
+// Prometheus scrape target: sync pass counters, durations and watcher queue depth (see sync/stats.ts).
+app.get('/metrics', (_req: Request, res: Response) => {
+	res.type('text/plain; version=0.0.4').send(formatPrometheusMetrics())
+})
+
+// Recent sync runs plus per-book health for the UI's Sync page.
+app.get('/api/sync/status', async (req: Request, res: Response) => {
+	try {
+		const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '20'), 10) || 20, 1), 50)
+		res.json({ ...getSyncStatus(limit), books: await getAddressBookSyncHealth() })
+	} catch (error: unknown) {
+		logger.error({ err: error }, 'Error fetching sync status')
+		res.status(500).json({ error: 'Failed to fetch sync status' })
+	}
+})
+
+const MANUAL_SYNC_DIRECTIONS: ManualSyncDirection[] = ['both', 'radicale-to-db', 'db-to-radicale']
+const RESYNC_SOURCES: ResyncSource[] = ['radicale', 'db']
+
+// Start an on-demand sync ("sync now"). Body: { direction: 'both' | 'radicale-to-db' | 'db-to-radicale' },
+// default both. Returns the job right away; poll GET /api/sync/runs/:id until it is no longer running.
+app.post('/api/sync/run', (req: Request, res: Response) => {
+	if (!migrationsComplete) {
+		return res.status(503).json({ error: 'Sync service is still starting up' })
+	}
+	const direction = req.body?.direction ?? 'both'
+	if (!MANUAL_SYNC_DIRECTIONS.includes(direction)) {
+		return res.status(400).json({ error: `direction must be one of ${MANUAL_SYNC_DIRECTIONS.join(', ')}` })
+	}
+	const job = startManualSync(direction)
+	if (!job) {
+		return res.status(409).json({ error: 'A sync is already running' })
+	}
+	res.status(202).json(job)
+})
+
+app.get('/api/sync/runs/:id', (req: Request, res: Response) => {
+	const job = getManualSyncJob(req.params.id)
+	if (!job) {
+		return res.status(404).json({ error: 'Sync run not found' })
+	}
+	res.json(job)
+})
+
+/**
+ * Force resync: clear the sync metadata of one contact or every contact in a
+ * book, then run the pass for the chosen source right away, so the other
+ * direction cannot overwrite it first. Body: { source: 'radicale' | 'db' }.
+ */
+function startResync(req: Request, res: Response, target: { contactId: string } | { addressBookId: string }) {
+	const source: ResyncSource = req.body?.source ?? 'radicale'
+	if (!RESYNC_SOURCES.includes(source)) {
+		return res.status(400).json({ error: `source must be one of ${RESYNC_SOURCES.join(', ')}` })
+	}
+	const direction = source === 'radicale' ? 'radicale-to-db' : 'db-to-radicale'
+	const job = startManualSync(direction, async () => {
+		const reset = await resetSyncMetadata(target, source)
+		logger.info({ ...target, source, reset }, 'Cleared sync metadata for force resync')
+	})
+	if (!job) {
+		return res.status(409).json({ error: 'A sync is already running' })
+	}
+	res.status(202).json(job)
+}
+
+app.post('/api/contacts/:id/resync', async (req: Request, res: Response) => {
+	try {
+		if (!migrationsComplete) {
+			return res.status(503).json({ error: 'Sync service is still starting up' })
+		}
+		const { id } = req.params
+		const contact = UUID_PATTERN.test(id) ? await getContactSyncMetadata(id) : null
+		if (!contact) {
+			return res.status(404).json({ error: 'Contact not found' })
+		}
+		startResync(req, res, { contactId: id })
+	} catch (error: unknown) {
+		logger.error({ err: error }, 'Error starting contact resync')
+		res.status(500).json({ error: 'Failed to start resync' })
+	}
+})
+
+app.post('/api/address-books/:id/resync', async (req: Request, res: Response) => {
+	try {
+		if (!migrationsComplete) {
+			return res.status(503).json({ error: 'Sync service is still starting up' })
+		}
+		const { id } = req.params
+		const book = UUID_PATTERN.test(id) ? await getAddressBookById(id) : null
+		if (!book) {
+			return res.status(404).json({ error: 'Address book not found' })
+		}
+		startResync(req, res, { addressBookId: book.id })
+	} catch (error: unknown) {
+		logger.error({ err: error }, 'Error starting address book resync')
+		res.status(500).json({ error: 'Failed to start resync' })
+	}
+})
+
 export function startApiServer() {
 	app.listen(PORT, () => {
 		logger.info({ port: PORT }, 'API server listening')
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('./db', () => ({
+	getPool: vi.fn(),
+}))
+
+import { InvalidSyncTokenError, parseSyncToken, summarizeChanges } from './changes'
+import type { ContactChange } from './changes'
+
+let token = 0
+function change(vcardId: string, changeType: ContactChange['change_type']): ContactChange {
+	token += 1
+	return { vcard_id: vcardId, change_type: changeType, sync_token: String(token) }
+}
+
+describe('summarizeChanges', () => {
+	it('reports single changes as-is', () => {
+		expect(summarizeChanges([change('a', 'created'), change('b', 'updated'), change('c', 'deleted')])).toEqual({
+			created: ['a'],
+			updated: ['b'],
+			deleted: ['c'],
+		})
+	})
+
+	it('keeps a card created after the token as created through later updates', () => {
+		expect(summarizeChanges([change('a', 'created'), change('a', 'updated'), change('a', 'updated')])).toEqual({
+			created: ['a'],
+			updated: [],
+			deleted: [],
+		})
+	})
+
+	it('omits cards created and deleted after the token', () => {
+		expect(summarizeChanges([change('a', 'created'), change('a', 'deleted')])).toEqual({ created: [], updated: [], deleted: [] })
+	})
+
+	it('reports an updated-then-deleted card as deleted', () => {
+		expect(summarizeChanges([change('a', 'updated'), change('a', 'deleted')]).deleted).toEqual(['a'])
+	})
+
+	it('reports a card the client had that was removed and re-added as updated', () => {
+		expect(summarizeChanges([change('a', 'deleted'), change('a', 'created')])).toEqual({ created: [], updated: ['a'], deleted: [] })
+	})
+})
+
+describe('parseSyncToken', () => {
+	it('accepts decimal counters', () => {
+		expect(parseSyncToken('0')).toBe(0n)
+		expect(parseSyncToken('42')).toBe(42n)
+	})
+
+	it('rejects anything else', () => {
+		expect(() => parseSyncToken('abc')).toThrow(InvalidSyncTokenError)
+		expect(() => parseSyncToken('-1')).toThrow(InvalidSyncTokenError)
+		expect(() => parseSyncToken('1.5')).toThrow(InvalidSyncTokenError)
+	})
+})
@@ -0,0 +1,123 @@
+import { getPool } from './db'
+
+/**
+ * Incremental change feed per address book, read from the contact_changes log
+ * that migration 22 fills via triggers. Same model as CardDAV sync-collection
+ * (RFC 6578): a client without a token gets every member plus the current
+ * token, then passes that token back to get only what changed since.
+ */
+
+export type ChangeType = 'created' | 'updated' | 'deleted'
+
+export interface ContactChange {
+	vcard_id: string
+	change_type: ChangeType
+	sync_token: string
+}
+
+export interface ChangeFeed {
+	address_book_id: string
+	/** Opaque to clients; pass it back as ?sync_token= on the next call. */
+	sync_token: string
+	created: string[]
+	updated: string[]
+	deleted: string[]
+}
+
+export class InvalidSyncTokenError extends Error {
+	constructor(token: string) {
+		super(`Invalid sync token: ${token}`)
+		this.name = 'InvalidSyncTokenError'
+	}
+}
+
+/** Tokens are the per-book counter as a decimal string. */
+export function parseSyncToken(token: string): bigint {
+	if (!/^\d{1,18}$/.test(token)) throw new InvalidSyncTokenError(token)
+	return BigInt(token)
+}
+
+/**
+ * Collapse an ordered change log into one entry per vCard. The first change
+ * after the token tells whether the client already has the card (anything
+ * but `created`), the last one tells what it looks like now:
+ *
+ *   created ... deleted   -> omitted (the client never saw it)
+ *   created ... (live)    -> created
+ *   (had it) ... deleted  -> deleted
+ *   (had it) ... (live)   -> updated
+ */
+export function summarizeChanges(changes: ContactChange[]): Pick<ChangeFeed, 'created' | 'updated' | 'deleted'> {
+	const byVcard = new Map<string, { first: ChangeType; last: ChangeType }>()
+	for (const change of changes) {
+		const existing = byVcard.get(change.vcard_id)
+		if (existing) {
+			existing.last = change.change_type
+		} else {
+			byVcard.set(change.vcard_id, { first: change.change_type, last: change.change_type })
+		}
+	}
+
+	const created: string[] = []
+	const updated: string[] = []
+	const deleted: string[] = []
+	for (const [vcardId, { first, last }] of byVcard) {
+		const clientHasIt = first !== 'created'
+		if (last === 'deleted') {
+			if (clientHasIt) deleted.push(vcardId)
+		} else if (clientHasIt) {
+			updated.push(vcardId)
+		} else {
+			created.push(vcardId)
+		}
+	}
+	return { created, updated, deleted }
+}
+
+async function getCurrentSyncToken(addressBookId: string): Promise<bigint> {
+	const result = await getPool().query('SELECT token FROM address_book_sync_tokens WHERE address_book_id = $1', [addressBookId])
+	return result.rows[0] ? BigInt(result.rows[0].token) : 0n
+}
+
+/**
+ * Changes in a book since `syncToken`, or every live member when no token is
+ * given. The current token is read first: writers hold the counter's row lock
+ * until commit, so every change at or below it is already visible.
+ */
+export async function getChangesSince(addressBookId: string, syncToken?: string): Promise<ChangeFeed> {
+	const since = syncToken === undefined ? null : parseSyncToken(syncToken)
+	const current = await getCurrentSyncToken(addressBookId)
+	if (since !== null && since > current) throw new InvalidSyncTokenError(syncToken as string)
+
+	const pool = getPool()
+	if (since === null) {
+		const result = await pool.query(
+			`SELECT c.vcard_id
+       FROM contacts c
+       JOIN contact_address_books cab ON cab.contact_id = c.id
+       WHERE cab.address_book_id = $1 AND c.deleted_at IS NULL AND c.vcard_id IS NOT NULL
+       ORDER BY c.vcard_id`,
+			[addressBookId]
+		)
+		return {
+			address_book_id: addressBookId,
+			sync_token: current.toString(),
+			created: result.rows.map(row => row.vcard_id),
+			updated: [],
+			deleted: [],
+		}
+	}
+
+	const result = await pool.query(
+		`SELECT vcard_id, change_type, sync_token::text AS sync_token
+     FROM contact_changes
+     WHERE address_book_id = $1 AND sync_token > $2 AND sync_token <= $3
+     ORDER BY sync_token`,
+		[addressBookId, since.toString(), current.toString()]
+	)
+	return {
+		address_book_id: addressBookId,
+		sync_token: current.toString(),
+		...summarizeChanges(result.rows),
+	}
+}
@@ -0,0 +1,60 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('./logger', () => ({
+	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}))
+
+import { linkBookCollection } from './collection-links'
+
+let root = ''
+const master = () => path.join(root, 'collection-root', 'book-1')
+const userCollection = () => path.join(root, 'collection-root', 'alice-book-1')
+
+beforeEach(() => {
+	root = fs.mkdtempSync(path.join(os.tmpdir(), 'collection-links-'))
+})
+
+afterEach(() => {
+	fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('linkBookCollection', () => {
+	it('links the collection to the master with a relative path', async () => {
+		expect(await linkBookCollection(userCollection(), master())).toBe(true)
+
+		expect(fs.readlinkSync(userCollection())).toBe('book-1')
+		fs.writeFileSync(path.join(userCollection(), 'ada.vcf'), 'BEGIN:VCARD')
+		expect(fs.readdirSync(master())).toEqual(['ada.vcf'])
+	})
+
+	it('links nested and read-only collections across directories', async () => {
+		const roCollection = path.join(root, 'collection-root', 'ro-book-1', 'book-1')
+
+		await linkBookCollection(roCollection, master())
+
+		expect(fs.readlinkSync(roCollection)).toBe(path.join('..', 'book-1'))
+		expect(fs.realpathSync(roCollection)).toBe(fs.realpathSync(master()))
+	})
+
+	it('repoints a link to another collection', async () => {
+		fs.mkdirSync(path.join(root, 'collection-root', 'book-2'), { recursive: true })
+		fs.symlinkSync('book-2', userCollection())
+
+		await linkBookCollection(userCollection(), master())
+
+		expect(fs.readlinkSync(userCollection())).toBe('book-1')
+	})
+
+	it('leaves a collection that is still a directory alone', async () => {
+		fs.mkdirSync(userCollection(), { recursive: true })
+		fs.writeFileSync(path.join(userCollection(), 'ada.vcf'), 'BEGIN:VCARD')
+
+		expect(await linkBookCollection(userCollection(), master())).toBe(false)
+
+		expect(fs.lstatSync(userCollection()).isDirectory()).toBe(true)
+		expect(fs.readdirSync(userCollection())).toEqual(['ada.vcf'])
+	})
+})
@@ -0,0 +1,37 @@
+import path from 'path'
+import { lstat, mkdir, readlink, symlink, unlink } from 'fs/promises'
+import { logger } from './logger'
+import { getErrorCode } from './sync/constants'
+
+/**
+ * Every principal that sees a book (its composite users, the ro-{book_id}
+ * subscription) gets a symlink to the book's one master collection instead of
+ * its own copy of the cards, so a card is stored and written once per book.
+ * Links are relative, so they resolve the same in the Radicale and sync
+ * service containers.
+ *
+ * Returns false without touching anything when `linkPath` is a real
+ * directory: an old per-user copy that the shared collections migration
+ * (shared-collections-migration.ts) has not merged yet.
+ */
+export async function linkBookCollection(linkPath: string, masterPath: string): Promise<boolean> {
+	const target = path.relative(path.dirname(linkPath), masterPath)
+	await mkdir(masterPath, { recursive: true })
+
+	try {
+		const stats = await lstat(linkPath)
+		if (stats.isSymbolicLink()) {
+			if ((await readlink(linkPath)) === target) return true
+			await unlink(linkPath)
+		} else {
+			logger.warn({ linkPath }, 'Collection is a directory, not a link to its book; leaving it alone')
+			return false
+		}
+	} catch (error: unknown) {
+		if (getErrorCode(error) !== 'ENOENT') throw error
+	}
+
+	await mkdir(path.dirname(linkPath), { recursive: true })
+	await symlink(target, linkPath, 'dir')
+	return true
+}
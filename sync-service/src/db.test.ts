@@ -1,5 +1,16 @@
-import { describe, it, expect } from 'vitest'
-import { parseContactRow } from './db'
+import { beforeEach, describe, it, expect, vi } from 'vitest'
+import { getSmartGroupMembers, parseContactRow } from './db'
+import type { SmartGroup } from './db'
+
+const query = vi.hoisted(() => vi.fn())
+
+vi.mock('pg', () => ({
+	Pool: class {
+		query = query
+		on = vi.fn()
+	},
+	types: { setTypeParser: vi.fn(), builtins: { DATE: 1082 } },
+}))
 
 describe('parseContactRow', () => {
 	it('parses string-encoded JSONB fields into arrays', () => {
@@ -63,3 +74,38 @@ describe('parseContactRow', () => {
 		expect(() => parseContactRow(row)).toThrow() // JSON.parse will throw
 	})
 })
+
+describe('getSmartGroupMembers', () => {
+	const group: SmartGroup = {
+		id: 'group-1',
+		name: 'Family birthdays',
+		query: 'book:family has:birthday',
+		filter_terms: [
+			{ kind: 'qualifier', qualifier: 'book', value: 'family', negated: false },
+			{ kind: 'qualifier', qualifier: 'has', value: 'birthday', negated: false },
+		],
+		password_hash: '$2a$10$hash',
+	}
+
+	beforeEach(() => {
+		vi.stubEnv('DATABASE_URL', 'postgresql://test')
+		query.mockReset().mockResolvedValue({ rows: [] })
+	})
+
+	it('compiles the stored terms into the members query', async () => {
+		await getSmartGroupMembers(group)
+
+		const [sql, params] = query.mock.calls.at(-1) as [string, Array<unknown>]
+		expect(sql).toContain('ab.slug = $1')
+		expect(sql).toContain('birthday IS NOT NULL')
+		expect(params).toEqual(['family'])
+	})
+
+	it('parses the query of a group saved before terms were stored', async () => {
+		await getSmartGroupMembers({ ...group, query: 'ada', filter_terms: null })
+
+		const [sql, params] = query.mock.calls.at(-1) as [string, Array<unknown>]
+		expect(sql).toContain('ILIKE $1')
+		expect(params).toEqual(['%ada%'])
+	})
+})
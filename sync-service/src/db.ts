@@ -1,6 +1,9 @@
 import { Pool, types } from 'pg'
 import { logger } from './logger'
 import { retry, isTransientDbError } from './retry'
+import { compileContactFilter, parseContactQuery } from '../../shared/contact-filter'
+import { stripVCardPhoto } from './vcard'
+import type { QueryTerm } from '../../shared/contact-filter'
 
 // Return DATE columns (the `birthday` column) as the raw "YYYY-MM-DD" string
 // instead of a JS Date, so a date-only value isn't shifted by a day when read
@@ -110,7 +113,6 @@ export interface Contact {
 	class: string | null
 	custom_fields: Array<{ key: string; value: string; params?: string[] }> | null
 	notes: string | null
-	photo_blob: Buffer | null
 	photo_mime: string | null
 	photo_width: number | null
 	photo_height: number | null
@@ -129,6 +131,12 @@ export interface Contact {
 	address_books?: Array<AddressBook> | null
 }
 
+/**
+ * Contact columns to write. photo_blob is not a column: createContact and
+ * updateContact put it in the photo store and keep only photo_hash.
+ */
+export type ContactInput = Partial<Contact> & { photo_blob?: Buffer | null }
+
 /**
  * Parse JSONB fields that may be returned as strings from PostgreSQL.
  * This handles the case where pg returns JSONB as already-parsed objects
@@ -157,6 +165,20 @@ export function parseContactRow<T extends Record<string, unknown>>(row: T): T {
 	return row
 }
 
+async function functionExists(functionName: string): Promise<boolean> {
+	const pool = getPool()
+	const result = await pool.query(
+		`
+    SELECT 1
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public' AND p.proname = $1
+  `,
+		[functionName]
+	)
+	return result.rows.length > 0
+}
+
 async function tableExists(tableName: string): Promise<boolean> {
 	const pool = getPool()
 	const result = await pool.query(
@@ -202,6 +224,139 @@ export async function getAllAddressBookReadonly(): Promise<Array<{ address_book_
 	return result.rows
 }
 
+export interface SmartGroup {
+	id: string
+	name: string
+	query: string
+	/** query as parsed by the UI; null for groups saved before migration 38. */
+	filter_terms: Array<QueryTerm> | null
+	password_hash: string
+}
+
+export async function getSmartGroups(): Promise<Array<SmartGroup>> {
+	if (!(await tableExists('smart_groups'))) return []
+	const pool = getPool()
+	const result = await pool.query('SELECT id, name, query, filter_terms, password_hash FROM smart_groups ORDER BY name')
+	return result.rows
+}
+
+/**
+ * Live contacts with a vCard that currently match a smart group's filter,
+ * compiled here with the same shared compiler the UI uses.
+ */
+export async function getSmartGroupMembers(group: SmartGroup): Promise<Contact[]> {
+	const params: unknown[] = []
+	const param = (value: unknown) => {
+		params.push(value)
+		return `$${params.length}`
+	}
+	const terms = group.filter_terms ?? parseContactQuery(group.query)
+	const filter = compileContactFilter(terms, param, await functionExists('contact_search_vector'))
+	const pool = getPool()
+	const result = await pool.query(
+		`SELECT * FROM contacts WHERE vcard_id IS NOT NULL AND deleted_at IS NULL AND ${filter} ORDER BY id`,
+		params
+	)
+	return result.rows.map(parseContactRow)
+}
+
+export interface ContactGroup {
+	id: string
+	address_book_id: string
+	name: string
+	vcard_id: string
+	vcard_hash: string | null
+	last_synced_at: Date | null
+	updated_at: Date
+	/** vcard_ids of the live members that are still in the group's book. */
+	member_vcard_ids: string[]
+}
+
+const CONTACT_GROUP_SELECT = `
+	SELECT g.id, g.address_book_id, g.name, g.vcard_id, g.vcard_hash, g.last_synced_at, g.updated_at,
+		COALESCE(
+			ARRAY(
+				SELECT c.vcard_id FROM contact_group_members m
+				JOIN contacts c ON c.id = m.contact_id
+				JOIN contact_address_books cab ON cab.contact_id = c.id AND cab.address_book_id = g.address_book_id
+				WHERE m.group_id = g.id AND c.deleted_at IS NULL AND c.vcard_id IS NOT NULL
+				ORDER BY c.vcard_id
+			),
+			'{}'
+		) AS member_vcard_ids
+	FROM contact_groups g`
+
+export async function getContactGroups(): Promise<ContactGroup[]> {
+	if (!(await tableExists('contact_groups'))) return []
+	const pool = getPool()
+	const result = await pool.query(`${CONTACT_GROUP_SELECT} ORDER BY g.address_book_id, g.name`)
+	return result.rows
+}
+
+export async function getContactGroupByVcardId(addressBookId: string, vcardId: string): Promise<ContactGroup | null> {
+	if (!(await tableExists('contact_groups'))) return null
+	const pool = getPool()
+	const result = await pool.query(`${CONTACT_GROUP_SELECT} WHERE g.address_book_id = $1 AND g.vcard_id = $2`, [addressBookId, vcardId])
+	return result.rows[0] || null
+}
+
+/**
+ * Create or replace a group from a group card read from Radicale. Members are
+ * matched by vcard_id; UIDs of contacts that are not in the book are dropped.
+ */
+export async function saveContactGroupFromRadicale(group: {
+	addressBookId: string
+	vcardId: string
+	name: string
+	memberVcardIds: string[]
+	vcardHash: string
+}): Promise<void> {
+	const pool = getPool()
+	const client = await pool.connect()
+	try {
+		await client.query('BEGIN')
+		const result = await client.query(
+			`INSERT INTO contact_groups (address_book_id, vcard_id, name, vcard_hash, last_synced_at)
+			VALUES ($1, $2, $3, $4, NOW())
+			ON CONFLICT (address_book_id, vcard_id)
+			DO UPDATE SET name = EXCLUDED.name, vcard_hash = EXCLUDED.vcard_hash, last_synced_at = NOW()
+			RETURNING id`,
+			// updated_at (trigger) and last_synced_at share the transaction's NOW(), so the group doesn't look edited in the UI.
+			[group.addressBookId, group.vcardId, group.name, group.vcardHash]
+		)
+		const groupId = result.rows[0].id
+		await client.query('DELETE FROM contact_group_members WHERE group_id = $1', [groupId])
+		await client.query(
+			`INSERT INTO contact_group_members (group_id, contact_id)
+			SELECT $1, c.id FROM contacts c
+			JOIN contact_address_books cab ON cab.contact_id = c.id AND cab.address_book_id = $2
+			WHERE c.vcard_id = ANY($3::text[]) AND c.deleted_at IS NULL
+			ON CONFLICT DO NOTHING`,
+			[groupId, group.addressBookId, group.memberVcardIds]
+		)
+		await client.query('COMMIT')
+	} catch (error) {
+		await client.query('ROLLBACK')
+		throw error
+	} finally {
+		client.release()
+	}
+}
+
+/**
+ * Record the card just written to Radicale for a group. The updated_at trigger
+ * sets updated_at to the same NOW(), so the group no longer counts as edited.
+ */
+export async function markContactGroupSynced(groupId: string, vcardHash: string): Promise<void> {
+	const pool = getPool()
+	await pool.query('UPDATE contact_groups SET vcard_hash = $2, last_synced_at = NOW() WHERE id = $1', [groupId, vcardHash])
+}
+
+export async function deleteContactGroup(groupId: string): Promise<void> {
+	const pool = getPool()
+	await pool.query('DELETE FROM contact_groups WHERE id = $1', [groupId])
+}
+
 export async function getContactAddressBookIds(contactId: string): Promise<string[]> {
 	if (!(await tableExists('contact_address_books'))) return []
 	const pool = getPool()
@@ -209,17 +364,27 @@ export async function getContactAddressBookIds(contactId: string): Promise<strin
 	return result.rows.map(row => row.address_book_id)
 }
 
-export async function getContactAddressBookEntries(): Promise<Array<{ contact_id: string; address_book_id: string }>> {
+/** Book memberships of the given contacts, or of every contact when `contactIds` is omitted. */
+export async function getContactAddressBookEntries(
+	contactIds?: Array<string>
+): Promise<Array<{ contact_id: string; address_book_id: string }>> {
 	if (!(await tableExists('contact_address_books'))) return []
 	const pool = getPool()
-	const result = await pool.query('SELECT contact_id, address_book_id FROM contact_address_books')
+	const result = contactIds
+		? await pool.query('SELECT contact_id, address_book_id FROM contact_address_books WHERE contact_id = ANY($1::uuid[])', [contactIds])
+		: await pool.query('SELECT contact_id, address_book_id FROM contact_address_books')
 	return result.rows
 }
 
 export async function setContactAddressBooks(contactId: string, addressBookIds: Array<string>): Promise<void> {
 	if (!(await tableExists('contact_address_books'))) return
 	const pool = getPool()
-	await pool.query('DELETE FROM contact_address_books WHERE contact_id = $1', [contactId])
+	// Only drop memberships that are going away: delete-and-reinsert would log
+	// a spurious deleted/created pair in contact_changes for every kept book.
+	await pool.query('DELETE FROM contact_address_books WHERE contact_id = $1 AND address_book_id <> ALL($2::uuid[])', [
+		contactId,
+		addressBookIds,
+	])
 	if (addressBookIds.length === 0) return
 	await pool.query(
 		`
@@ -298,6 +463,46 @@ export async function getContactByVcardId(vcardId: string): Promise<Contact | nu
 	return parseContactRow(result.rows[0])
 }
 
+export async function getContactsByVcardIds(vcardIds: Array<string>): Promise<Contact[]> {
+	if (vcardIds.length === 0) return []
+	const pool = getPool()
+	const result = await pool.query('SELECT * FROM contacts WHERE vcard_id = ANY($1) AND deleted_at IS NULL', [vcardIds])
+	return result.rows.map(parseContactRow)
+}
+
+/** Contacts by id, soft-deleted ones included; ids with no row are left out. */
+export async function getContactsByIds(ids: Array<string>): Promise<Contact[]> {
+	if (ids.length === 0) return []
+	const pool = getPool()
+	const result = await pool.query('SELECT * FROM contacts WHERE id = ANY($1::uuid[])', [ids])
+	return result.rows.map(parseContactRow)
+}
+
+/**
+ * The last vcard_id the change log (22_contact_changes.sql) recorded for each
+ * contact: all that is left to name the card of a contact whose row is gone.
+ */
+export async function getLoggedVcardIds(contactIds: Array<string>): Promise<Map<string, string>> {
+	if (contactIds.length === 0) return new Map()
+	const pool = getPool()
+	const result = await pool.query(
+		`SELECT DISTINCT ON (contact_id) contact_id, vcard_id
+     FROM contact_changes
+     WHERE contact_id = ANY($1::uuid[])
+     ORDER BY contact_id, id DESC`,
+		[contactIds]
+	)
+	return new Map(result.rows.map(row => [row.contact_id as string, row.vcard_id as string]))
+}
+
+/** The vcard_ids among `vcardIds` that a live contact carries. */
+export async function getLiveVcardIds(vcardIds: Array<string>): Promise<Set<string>> {
+	if (vcardIds.length === 0) return new Set()
+	const pool = getPool()
+	const result = await pool.query('SELECT vcard_id FROM contacts WHERE vcard_id = ANY($1::text[]) AND deleted_at IS NULL', [vcardIds])
+	return new Set(result.rows.map(row => row.vcard_id as string))
+}
+
 /**
  * Find a contact by vcard_id including soft-deleted rows.
  * Used during sync to detect and restore soft-deleted contacts that
@@ -319,11 +524,31 @@ export async function restoreContact(id: string): Promise<void> {
 	await pool.query('UPDATE contacts SET deleted_at = NULL WHERE id = $1', [id])
 }
 
-export async function createContact(contact: Partial<Contact>): Promise<Contact> {
+/**
+ * Move an incoming photo into the photo store. The row keeps photo_hash, and
+ * vcard_data drops its PHOTO so contact queries never carry image bytes;
+ * withStoredPhoto puts it back when the card is published.
+ */
+async function storeContactPhoto(input: ContactInput): Promise<Partial<Contact>> {
+	const { photo_blob, ...contact } = input
+	if (!photo_blob) return contact
+	// Dynamic import: photo-store reads contact_photos through this module.
+	const { putPhoto } = await import('./photo-store')
+	const photo = await putPhoto(photo_blob, contact.photo_mime || 'image/jpeg')
+	return {
+		...contact,
+		photo_hash: photo.hash,
+		photo_mime: photo.mime,
+		vcard_data: contact.vcard_data ? stripVCardPhoto(contact.vcard_data) : contact.vcard_data,
+	}
+}
+
+export async function createContact(input: ContactInput): Promise<Contact> {
+	const contact = await storeContactPhoto(input)
 	const pool = getPool()
 	const result = await pool.query(
-		`INSERT INTO contacts (vcard_id, full_name, first_name, last_name, middle_name, name_prefix, name_suffix, nickname, maiden_name, email, phone, phones, emails, organization, org_units, job_title, role, address, addresses, birthday, homepage, urls, categories, labels, logos, sounds, keys, mailer, time_zone, geo, agent, prod_id, revision, sort_string, class, custom_fields, notes, photo_blob, photo_mime, photo_width, photo_height, photo_updated_at, photo_hash, vcard_data)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34, $35, $36, $37, $38, $39, $40, $41, $42, $43, $44)
+		`INSERT INTO contacts (vcard_id, full_name, first_name, last_name, middle_name, name_prefix, name_suffix, nickname, maiden_name, email, phone, phones, emails, organization, org_units, job_title, role, address, addresses, birthday, homepage, urls, categories, labels, logos, sounds, keys, mailer, time_zone, geo, agent, prod_id, revision, sort_string, class, custom_fields, notes, photo_mime, photo_width, photo_height, photo_updated_at, photo_hash, vcard_data)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34, $35, $36, $37, $38, $39, $40, $41, $42, $43)
      RETURNING *`,
 		[
 			contact.vcard_id || null,
@@ -363,7 +588,6 @@ export async function createContact(contact: Partial<Contact>): Promise<Contact>
 			contact.class || null,
 			contact.custom_fields ? JSON.stringify(contact.custom_fields) : '[]',
 			contact.notes || null,
-			contact.photo_blob || null,
 			contact.photo_mime || null,
 			contact.photo_width || null,
 			contact.photo_height || null,
@@ -375,7 +599,8 @@ export async function createContact(contact: Partial<Contact>): Promise<Contact>
 	return parseContactRow(result.rows[0])
 }
 
-export async function updateContact(id: string, contact: Partial<Contact>): Promise<Contact> {
+export async function updateContact(id: string, input: ContactInput): Promise<Contact> {
+	const contact = await storeContactPhoto(input)
 	const pool = getPool()
 	const updates: string[] = []
 	const values: Array<unknown> = []
@@ -419,7 +644,6 @@ export async function updateContact(id: string, contact: Partial<Contact>): Prom
 		'class',
 		'custom_fields',
 		'notes',
-		'photo_blob',
 		'photo_mime',
 		'photo_width',
 		'photo_height',
@@ -523,6 +747,32 @@ export async function updateSyncMetadata(id: string, metadata: SyncMetadata): Pr
 	await pool.query(`UPDATE contacts SET ${updates.join(', ')} WHERE id = $${paramIndex}`, values)
 }
 
+/**
+ * Side a force resync takes its data from. 'radicale' re-imports the vCard
+ * files (what scripts/force-resync-grouped.sql did by hand); 'db' pushes the
+ * stored contacts over whatever Radicale has.
+ */
+export type ResyncSource = 'radicale' | 'db'
+
+/**
+ * Clear sync metadata so the next pass stops hash- and timestamp-skipping the
+ * contacts. Clearing last_synced_from_radicale_at also turns off conflict
+ * detection for them, so the chosen side wins outright. Returns how many
+ * contacts were reset.
+ */
+export async function resetSyncMetadata(target: { contactId: string } | { addressBookId: string }, source: ResyncSource): Promise<number> {
+	const pool = getPool()
+	const assignments =
+		source === 'radicale'
+			? 'vcard_hash = NULL, last_synced_from_radicale_at = NULL'
+			: 'vcard_hash = NULL, last_synced_from_radicale_at = NULL, last_synced_to_radicale_at = NULL'
+	const where = 'contactId' in target ? 'id = $1' : 'id IN (SELECT contact_id FROM contact_address_books WHERE address_book_id = $1)'
+	const result = await pool.query(`UPDATE contacts SET ${assignments} WHERE ${where} AND deleted_at IS NULL AND vcard_id IS NOT NULL`, [
+		'contactId' in target ? target.contactId : target.addressBookId,
+	])
+	return result.rowCount ?? 0
+}
+
 /**
  * Get contacts that need to be synced to Radicale
  * A contact needs syncing if:
@@ -546,6 +796,106 @@ export async function getContactsNeedingRadicaleSync(): Promise<Contact[]> {
 	return result.rows.map(parseContactRow)
 }
 
+/**
+ * Last vCard both Postgres and Radicale agreed on, the base for a three-way
+ * merge (see sync/conflict.ts). Null before the first sync after migration 23.
+ */
+export async function getSyncBase(contactId: string): Promise<string | null> {
+	if (!(await tableExists('contact_sync_bases'))) return null
+	const pool = getPool()
+	const result = await pool.query('SELECT vcard_data FROM contact_sync_bases WHERE contact_id = $1', [contactId])
+	return result.rows[0]?.vcard_data ?? null
+}
+
+export async function setSyncBase(contactId: string, vcardData: string): Promise<void> {
+	if (!(await tableExists('contact_sync_bases'))) return
+	const pool = getPool()
+	await pool.query(
+		`INSERT INTO contact_sync_bases (contact_id, vcard_data, updated_at) VALUES ($1, $2, NOW())
+		ON CONFLICT (contact_id) DO UPDATE SET vcard_data = EXCLUDED.vcard_data, updated_at = NOW()`,
+		[contactId, vcardData]
+	)
+}
+
+// Columns a conflict snapshot leaves out: identity, sync bookkeeping, and the
+// photo and raw vCard, which are large and not picked field by field.
+const CONFLICT_VERSION_OMIT = new Set([
+	'id',
+	'vcard_data',
+	'photo_mime',
+	'photo_width',
+	'photo_height',
+	'photo_updated_at',
+	'photo_hash',
+	'created_at',
+	'updated_at',
+	'deleted_at',
+	'last_synced_from_radicale_at',
+	'last_synced_to_radicale_at',
+	'vcard_hash',
+	'sync_source',
+	'radicale_file_mtime',
+	'address_books',
+])
+
+function conflictVersion(contact: Partial<Contact>): Record<string, unknown> {
+	return Object.fromEntries(Object.entries(contact).filter(([key]) => !CONFLICT_VERSION_OMIT.has(key)))
+}
+
+/**
+ * Record a sync conflict: the properties both sides changed differently (what
+ * the contact page notice shows) plus each side's contact fields as they were
+ * when it was detected (what the /conflicts inbox compares).
+ */
+export async function recordSyncConflict(
+	contactId: string,
+	fields: unknown[],
+	versions: { db: Partial<Contact>; radicale: Partial<Contact> }
+): Promise<void> {
+	if (!(await tableExists('contact_sync_conflicts'))) return
+	const pool = getPool()
+	await pool.query('INSERT INTO contact_sync_conflicts (contact_id, fields, db_version, radicale_version) VALUES ($1, $2, $3, $4)', [
+		contactId,
+		JSON.stringify(fields),
+		JSON.stringify(conflictVersion(versions.db)),
+		JSON.stringify(conflictVersion(versions.radicale)),
+	])
+}
+
+export interface AddressBookSyncHealth {
+	id: string
+	name: string
+	contacts: number
+	/** Edited in the UI and not yet written to Radicale (last_synced_to_radicale_at is cleared on every UI save). */
+	pending: number
+	open_conflicts: number
+	last_synced_at: Date | null
+}
+
+/** Per-book counts for the sync status page. */
+export async function getAddressBookSyncHealth(): Promise<AddressBookSyncHealth[]> {
+	const pool = getPool()
+	const hasConflicts = await tableExists('contact_sync_conflicts')
+	const openConflicts = hasConflicts
+		? `(SELECT COUNT(*) FROM contact_sync_conflicts sc
+		     JOIN contact_address_books scab ON scab.contact_id = sc.contact_id
+		     WHERE scab.address_book_id = ab.id AND sc.resolved_at IS NULL)::int`
+		: '0'
+	const result = await pool.query(
+		`SELECT ab.id, ab.name,
+			COUNT(c.id)::int AS contacts,
+			COUNT(c.id) FILTER (WHERE c.last_synced_to_radicale_at IS NULL)::int AS pending,
+			${openConflicts} AS open_conflicts,
+			MAX(GREATEST(c.last_synced_to_radicale_at, c.last_synced_from_radicale_at)) AS last_synced_at
+		FROM address_books ab
+		LEFT JOIN contact_address_books cab ON cab.address_book_id = ab.id
+		LEFT JOIN contacts c ON c.id = cab.contact_id AND c.deleted_at IS NULL AND c.vcard_id IS NOT NULL
+		GROUP BY ab.id, ab.name
+		ORDER BY ab.name`
+	)
+	return result.rows
+}
+
 /**
  * Get sync metadata for a contact
  */
@@ -1,7 +1,8 @@
 import bcrypt from 'bcrypt'
 import path from 'path'
-import { readFile, writeFile, access, constants, readdir, copyFile, mkdir, rm, stat } from 'fs/promises'
+import { readFile, writeFile, access, constants, readdir, mkdir, rm, stat } from 'fs/promises'
 import { getAddressBooks, getAddressBooksForUser } from './db'
+import { linkBookCollection } from './collection-links'
 import { AsyncMutex, atomicWriteFile } from './fs-utils'
 import { logger } from './logger'
 
@@ -103,44 +104,12 @@ async function ensureAddressBookProps(userPath: string, name: string): Promise<v
 export async function backfillSharedContactsForUser(username: string): Promise<void> {
 	await ensurePrincipalPropsForUser(username)
 
-	const books = await getAddressBooks()
-	const userBooks =
-		books.length > 0
-			? await getAddressBooksForUser(username)
-			: [{ id: '', name: 'Shared Contacts', slug: 'shared-contacts', is_public: true }]
-
+	const userBooks = await getAddressBooksForUser(username)
 	for (const book of userBooks) {
 		const userPath = getAddressBookPathForUser(username, book.id)
-		await ensureDirectoryExists(userPath)
-		await ensureAddressBookProps(userPath, book.name)
-
 		const masterPath = getAddressBookPath(book.id)
-		try {
-			await access(masterPath, constants.F_OK)
-		} catch (error: unknown) {
-			if (getErrorCode(error) === 'ENOENT') {
-				continue
-			}
-			throw error
-		}
-
-		const masterFiles = await readdir(masterPath)
-		for (const file of masterFiles) {
-			if (!file.endsWith('.vcf') && !file.endsWith('.ics')) {
-				continue
-			}
-			const sourcePath = path.join(masterPath, file)
-			const destinationPath = path.join(userPath, file)
-			try {
-				await access(destinationPath, constants.F_OK)
-				continue
-			} catch (error: unknown) {
-				if (getErrorCode(error) !== 'ENOENT') {
-					throw error
-				}
-			}
-			await copyFile(sourcePath, destinationPath)
-		}
+		await linkBookCollection(userPath, masterPath)
+		await ensureAddressBookProps(masterPath, book.name)
 	}
 }
 
@@ -311,36 +280,13 @@ export async function createCompositeUser(baseUsername: string, bookId: string):
 	}
 
 	await setUserHash(compositeUsername, baseHash)
-	// Create storage directory for composite user (single book, no nested structure)
-	const compositePath = path.join(RADICALE_STORAGE_PATH, 'collection-root', compositeUsername)
-	await ensureDirectoryExists(compositePath)
-	// Copy contacts from master book directory
+	// The composite user's principal is the address book itself (no nested structure): a link to the master
 	const masterPath = getAddressBookPath(bookId)
-	try {
-		await access(masterPath, constants.F_OK)
-		const masterFiles = await readdir(masterPath)
-		for (const file of masterFiles) {
-			if (file.endsWith('.vcf') || file.endsWith('.ics')) {
-				const sourcePath = path.join(masterPath, file)
-				const destPath = path.join(compositePath, file)
-				try {
-					await access(destPath, constants.F_OK)
-					continue // Already exists
-				} catch {
-					await copyFile(sourcePath, destPath)
-				}
-			}
-		}
-		// Ensure address book props
-		const books = await getAddressBooks()
-		const book = books.find(b => b.id === bookId)
-		if (book) {
-			await ensureAddressBookProps(compositePath, book.name)
-		}
-	} catch (error: unknown) {
-		if (getErrorCode(error) !== 'ENOENT') {
-			throw error
-		}
+	await linkBookCollection(getPrincipalPath(compositeUsername), masterPath)
+	const books = await getAddressBooks()
+	const book = books.find(b => b.id === bookId)
+	if (book) {
+		await ensureAddressBookProps(masterPath, book.name)
 	}
 }
 
@@ -463,27 +409,16 @@ export async function ensureAllCompositeUsersExist(): Promise<void> {
 						logger.info({ compositeUsername }, 'Synced composite user password hash to match base user')
 					}
 
-					// Ensure directory and props exist
-					const compositePath = path.join(RADICALE_STORAGE_PATH, 'collection-root', compositeUsername)
+					// Ensure the collection links to the master and the master has props
+					const masterPath = getAddressBookPath(bookId)
 					try {
-						await ensureDirectoryExists(compositePath)
+						await linkBookCollection(getPrincipalPath(compositeUsername), masterPath)
 						const book = books.find(b => b.id === bookId)
 						if (book) {
-							const propsPath = path.join(compositePath, '.Radicale.props')
-							try {
-								await access(propsPath, constants.F_OK)
-							} catch {
-								// Props don't exist, create them
-								const props = {
-									tag: 'VADDRESSBOOK',
-									'D:displayname': book.name,
-									'C:addressbook-description': `Contacts for ${book.name}`,
-								}
-								await writeFile(propsPath, JSON.stringify(props), 'utf-8')
-							}
+							await ensureAddressBookProps(masterPath, book.name)
 						}
 					} catch (error) {
-						logger.warn({ err: error, compositeUsername }, 'Failed to ensure directory/props for composite user')
+						logger.warn({ err: error, compositeUsername }, 'Failed to link collection for composite user')
 					}
 				}
 			}
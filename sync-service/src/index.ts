@@ -1,10 +1,18 @@
 import 'dotenv/config'
 import { closePool, waitForDatabase } from './db'
-import { syncDbToRadicale, syncRadicaleToDb, startWatchingRadicale, startPeriodicSync } from './sync'
+import {
+	syncDbToRadicale,
+	syncRadicaleToDb,
+	startListeningForContactChanges,
+	startWatchingRadicale,
+	startPeriodicSync,
+	trackSyncRun,
+} from './sync'
 import { startApiServer, setMigrationsComplete, setStartupError } from './api'
 import { runMigrations } from './migrations'
 import { runPathMigrationIfNeeded } from './path-migration'
 import { runCompositeUsersMigrationIfNeeded } from './composite-users-migration'
+import { runSharedCollectionsMigrationIfNeeded } from './shared-collections-migration'
 import { ensureAllCompositeUsersExist } from './htpasswd'
 import { syncReadonlyUsersToHtpasswd } from './readonly-auth'
 import { retry, isTransientDbError } from './retry'
@@ -88,6 +96,7 @@ async function main() {
 				await runMigrations()
 				await runPathMigrationIfNeeded()
 				await runCompositeUsersMigrationIfNeeded()
+				await runSharedCollectionsMigrationIfNeeded()
 				await ensureAllCompositeUsersExist()
 				await syncReadonlyUsersToHtpasswd()
 			},
@@ -104,13 +113,13 @@ async function main() {
 		// Initial syncs — if the DB drops mid-sync we retry the whole pass.
 		// Non-transient failures (e.g. a bug in the sync code) surface.
 		logger.info('Performing initial sync...')
-		await retry(() => syncRadicaleToDb(), {
+		await retry(() => trackSyncRun('radicale-to-db', 'startup', () => syncRadicaleToDb()), {
 			label: 'initial Radicale→DB sync',
 			initialDelayMs: 1000,
 			maxDelayMs: 30_000,
 			isRetryable: isTransientDbError,
 		})
-		await retry(() => syncDbToRadicale(), {
+		await retry(() => trackSyncRun('db-to-radicale', 'startup', () => syncDbToRadicale()), {
 			label: 'initial DB→Radicale sync',
 			initialDelayMs: 1000,
 			maxDelayMs: 30_000,
@@ -118,6 +127,7 @@ async function main() {
 		})
 
 		await startWatchingRadicale()
+		await startListeningForContactChanges()
 		startPeriodicSync()
 		startReadonlyAuthSync()
 
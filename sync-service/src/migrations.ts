@@ -50,6 +50,24 @@ function getMigrationFiles(): string[] {
 		'18_change_history.sql',
 		'19_drop_user_encrypted_passwords.sql',
 		'20_relationships.sql',
+		'21_ui_user_roles.sql',
+		'22_contact_changes.sql',
+		'23_sync_merge.sql',
+		'24_sync_conflict_versions.sql',
+		'25_anniversaries_and_calendar_feeds.sql',
+		'26_relationship_dates.sql',
+		'27_import_sessions.sql',
+		'28_import_options.sql',
+		'29_contact_search.sql',
+		'30_smart_groups.sql',
+		'31_contact_groups.sql',
+		'32_tag_colors.sql',
+		'33_contact_photos.sql',
+		'34_contact_photo_variants.sql',
+		'35_contact_change_notify.sql',
+		'36_shared_collections_migration_sentinel.sql',
+		'37_import_session_claim.sql',
+		'38_smart_group_filter_terms.sql',
 	]
 }
 
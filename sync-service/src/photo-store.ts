@@ -0,0 +1,60 @@
+import sharp from 'sharp'
+import { PHOTO_SIZES } from '../../shared/photo-sizes'
+import { createPhotoStore } from '../../shared/photo-store'
+import { getPool } from './db'
+import { logger } from './logger'
+import { hasVCardPhoto, insertVCardPhoto } from './vcard'
+import type { PhotoSize } from '../../shared/photo-sizes'
+
+// Contact photos live in the content-addressed store of
+// shared/photo-store.ts, which the UI runs too; this module wires it to the
+// service's pool and logger and puts photos back into outgoing cards.
+
+export { PHOTO_SIZES } from '../../shared/photo-sizes'
+export type { PhotoSize } from '../../shared/photo-sizes'
+export { createFsStore, createS3Store, photoHash, signS3Request } from '../../shared/photo-store'
+export type { BlobStore, PhotoData, S3Config } from '../../shared/photo-store'
+
+/** Shrink a photo to fit `size`, or null when it already does. PNGs stay PNG; everything else becomes JPEG. */
+export async function resizePhoto(data: Buffer, size: number): Promise<{ data: Buffer; mime: string } | null> {
+	const image = sharp(data, { failOn: 'none' })
+	const { width = 0, height = 0, format } = await image.metadata()
+	if (width <= size && height <= size) return null
+	const resized = image.rotate().resize(size, size, { fit: 'inside' })
+	return format === 'png'
+		? { data: await resized.png().toBuffer(), mime: 'image/png' }
+		: { data: await resized.jpeg({ quality: 85 }).toBuffer(), mime: 'image/jpeg' }
+}
+
+export const { putPhoto, getPhoto, getPhotoVariant } = createPhotoStore({
+	query: (text, values) => getPool().query(text, values),
+	resize: resizePhoto,
+	logger,
+})
+
+/**
+ * Largest variant size allowed by VCARD_PHOTO_MAX_SIZE (pixels) for the
+ * photos published to CardDAV clients, or null to publish originals.
+ */
+export function vcardPhotoSize(): PhotoSize | null {
+	const max = parseInt(process.env.VCARD_PHOTO_MAX_SIZE || '', 10)
+	if (!max) return null
+	return [...PHOTO_SIZES].reverse().find(size => size <= max) ?? PHOTO_SIZES[0]
+}
+
+/**
+ * The card with the contact's photo put back in, resized to fit `size` when
+ * given. Stored vCards leave PHOTO out; this is applied where a full card
+ * leaves the service (Radicale, merges).
+ */
+export async function withStoredPhoto(
+	card: string,
+	contact: { photo_hash?: string | null; photo_mime?: string | null },
+	size: PhotoSize | null = null
+): Promise<string> {
+	if (!contact.photo_hash || hasVCardPhoto(card)) return card
+	const photo = size ? await getPhotoVariant(contact.photo_hash, size) : await getPhoto(contact.photo_hash)
+	if (!photo) return card
+	const { data, mime } = Buffer.isBuffer(photo) ? { data: photo, mime: null } : photo
+	return insertVCardPhoto(card, data.toString('base64'), mime ?? contact.photo_mime)
+}
@@ -1,28 +1,32 @@
 import { deleteUser, getUsers, setUserHash } from './htpasswd'
-import { getAllAddressBookReadonly } from './db'
+import { getAllAddressBookReadonly, getSmartGroups } from './db'
 import { logger } from './logger'
 
 const READONLY_USERNAME_PREFIX = 'ro-'
 
 /**
- * Sync address_book_readonly table to htpasswd.
- * Ensures each row has a user ro-{address_book_id} with the stored hash;
- * removes any ro-* users whose book is no longer in the table.
+ * Sync address_book_readonly and smart_groups to htpasswd.
+ * Ensures each row has a user ro-{address_book_id} or ro-{smart_group_id}
+ * with the stored hash; removes any ro-* users whose book or group is gone.
  */
 export async function syncReadonlyUsersToHtpasswd(): Promise<void> {
 	const rows = await getAllAddressBookReadonly()
-	const allowedBookIds = new Set(rows.map(r => r.address_book_id))
+	const groups = await getSmartGroups()
+	const allowedIds = new Set([...rows.map(r => r.address_book_id), ...groups.map(group => group.id)])
 
 	for (const row of rows) {
 		const username = `${READONLY_USERNAME_PREFIX}${row.address_book_id}`
 		await setUserHash(username, row.password_hash)
 	}
+	for (const group of groups) {
+		await setUserHash(`${READONLY_USERNAME_PREFIX}${group.id}`, group.password_hash)
+	}
 
 	const users = await getUsers()
 	for (const user of users) {
 		if (!user.username.startsWith(READONLY_USERNAME_PREFIX)) continue
-		const addressBookId = user.username.slice(READONLY_USERNAME_PREFIX.length)
-		if (!allowedBookIds.has(addressBookId)) {
+		const collectionId = user.username.slice(READONLY_USERNAME_PREFIX.length)
+		if (!allowedIds.has(collectionId)) {
 			try {
 				await deleteUser(user.username)
 			} catch (err) {
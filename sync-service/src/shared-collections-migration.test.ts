@@ -0,0 +1,142 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const storage = vi.hoisted(() => ({ path: '' }))
+const query = vi.hoisted(() => vi.fn())
+
+vi.mock('./sync/constants', () => ({
+	get RADICALE_STORAGE_PATH() {
+		return storage.path
+	},
+	getErrorCode: (error: unknown) => (error as NodeJS.ErrnoException).code,
+}))
+
+vi.mock('./logger', () => ({
+	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('./db', () => ({
+	getPool: () => ({ query }),
+	getAddressBooks: vi.fn(),
+	getAddressBooksForUser: vi.fn(),
+}))
+
+vi.mock('./sync/address-books', () => ({ getAddressBooksForSync: vi.fn() }))
+
+vi.mock('./htpasswd', () => ({
+	getUsers: vi.fn(),
+	parseCompositeUsername: (username: string) => {
+		const match = username.match(/^(.+)-(book-\d)$/)
+		return match ? { username: match[1], bookId: match[2] } : null
+	},
+}))
+
+import { getAddressBooks, getAddressBooksForUser } from './db'
+import { getUsers } from './htpasswd'
+import { runSharedCollectionsMigrationIfNeeded } from './shared-collections-migration'
+import type { AddressBook } from './db'
+
+const FAMILY = { id: 'book-1', name: 'Family', slug: 'family', is_public: true } as AddressBook
+const WORK = { id: 'book-2', name: 'Work', slug: 'work', is_public: false } as AddressBook
+
+const collection = (...segments: Array<string>) => path.join(storage.path, 'collection-root', ...segments)
+
+function writeCard(dir: string, vcardId: string, fn: string, mtime: Date) {
+	fs.mkdirSync(dir, { recursive: true })
+	const filePath = path.join(dir, `${vcardId}.vcf`)
+	fs.writeFileSync(filePath, `BEGIN:VCARD\r\nVERSION:3.0\r\nUID:${vcardId}\r\nFN:${fn}\r\nEND:VCARD`)
+	fs.utimesSync(filePath, mtime, mtime)
+}
+
+const readCard = (dir: string, vcardId: string) => fs.readFileSync(path.join(dir, `${vcardId}.vcf`), 'utf-8')
+
+const SYNCED = new Date('2026-01-01T00:00:00Z')
+const EDITED = new Date('2026-02-01T00:00:00Z')
+
+beforeEach(() => {
+	vi.clearAllMocks()
+	storage.path = fs.mkdtempSync(path.join(os.tmpdir(), 'shared-collections-'))
+	query.mockResolvedValue({ rowCount: 0 })
+	vi.mocked(getAddressBooks).mockResolvedValue([FAMILY, WORK])
+	vi.mocked(getAddressBooksForUser).mockResolvedValue([FAMILY])
+	vi.mocked(getUsers).mockResolvedValue([{ username: 'alice' }, { username: 'alice-book-1' }])
+})
+
+afterEach(() => {
+	fs.rmSync(storage.path, { recursive: true, force: true })
+})
+
+describe('runSharedCollectionsMigrationIfNeeded', () => {
+	it('merges unsynced client edits into the master and links every copy to it', async () => {
+		writeCard(collection('book-1'), 'ada', 'Ada', SYNCED)
+		writeCard(collection('book-1'), 'grace', 'Grace', SYNCED)
+		writeCard(collection('alice-book-1'), 'ada', 'Ada', SYNCED)
+		writeCard(collection('alice-book-1'), 'grace', 'Grace Hopper', EDITED)
+		writeCard(collection('alice-book-1'), 'linus', 'Linus', EDITED)
+		writeCard(collection('bob-book-1'), 'stale', 'Stale', SYNCED)
+		writeCard(collection('ro-book-1', 'book-1'), 'ada', 'Ada', SYNCED)
+		writeCard(collection('alice', 'book-1'), 'ada', 'Ada', SYNCED)
+		writeCard(collection('alice', 'book-2'), 'ada', 'Ada', SYNCED)
+		writeCard(collection('ro-group-1', 'group-1'), 'ada', 'Ada', SYNCED)
+
+		await runSharedCollectionsMigrationIfNeeded()
+
+		expect(fs.readdirSync(collection('book-1')).sort()).toEqual(['.Radicale.props', 'ada.vcf', 'grace.vcf', 'linus.vcf'])
+		expect(readCard(collection('book-1'), 'grace')).toContain('FN:Grace Hopper')
+		expect(fs.statSync(path.join(collection('book-1'), 'linus.vcf')).mtime).toEqual(EDITED)
+		expect(fs.readlinkSync(collection('alice-book-1'))).toBe('book-1')
+		expect(fs.readlinkSync(collection('ro-book-1', 'book-1'))).toBe(path.join('..', 'book-1'))
+		expect(fs.readlinkSync(collection('alice', 'book-1'))).toBe(path.join('..', 'book-1'))
+		expect(fs.existsSync(collection('alice', 'book-2'))).toBe(false)
+		expect(fs.existsSync(collection('bob-book-1'))).toBe(false)
+		expect(fs.lstatSync(collection('ro-group-1', 'group-1')).isDirectory()).toBe(true)
+		expect(fs.existsSync(path.join(collection('book-1'), 'stale.vcf'))).toBe(false)
+		expect(query).toHaveBeenCalledWith('INSERT INTO shared_collections_migration_done (done_at) VALUES (NOW())')
+	})
+
+	it('removes master cards every client deleted from its copy before the migration', async () => {
+		const LATER = new Date('2026-03-01T00:00:00Z')
+		vi.mocked(getUsers).mockResolvedValue([{ username: 'alice-book-1' }, { username: 'carol-book-1' }])
+		writeCard(collection('book-1'), 'ada', 'Ada', SYNCED)
+		writeCard(collection('book-1'), 'grace', 'Grace', SYNCED)
+		writeCard(collection('book-1'), 'linus', 'Linus', LATER)
+		writeCard(collection('alice-book-1'), 'ada', 'Ada', SYNCED)
+		fs.utimesSync(collection('alice-book-1'), EDITED, EDITED)
+		writeCard(collection('carol-book-1'), 'ada', 'Ada', SYNCED)
+		fs.utimesSync(collection('carol-book-1'), SYNCED, SYNCED)
+
+		await runSharedCollectionsMigrationIfNeeded()
+
+		expect(fs.readdirSync(collection('book-1')).sort()).toEqual(['.Radicale.props', 'ada.vcf', 'linus.vcf'])
+		expect(fs.readlinkSync(collection('carol-book-1'))).toBe('book-1')
+	})
+
+	it('keeps cards that another copy still has, including ones merged in by this run', async () => {
+		const LATER = new Date('2026-03-01T00:00:00Z')
+		vi.mocked(getUsers).mockResolvedValue([{ username: 'alice-book-1' }, { username: 'carol-book-1' }])
+		writeCard(collection('book-1'), 'ada', 'Ada', SYNCED)
+		writeCard(collection('book-1'), 'grace', 'Grace', SYNCED)
+		writeCard(collection('alice-book-1'), 'ada', 'Ada', SYNCED)
+		writeCard(collection('alice-book-1'), 'newcard', 'New', EDITED)
+		fs.utimesSync(collection('alice-book-1'), EDITED, EDITED)
+		writeCard(collection('carol-book-1'), 'ada', 'Ada', SYNCED)
+		writeCard(collection('carol-book-1'), 'grace', 'Grace', SYNCED)
+		fs.utimesSync(collection('carol-book-1'), LATER, LATER)
+
+		await runSharedCollectionsMigrationIfNeeded()
+
+		expect(fs.readdirSync(collection('book-1')).sort()).toEqual(['.Radicale.props', 'ada.vcf', 'grace.vcf', 'newcard.vcf'])
+	})
+
+	it('does nothing once the sentinel row exists', async () => {
+		query.mockResolvedValue({ rowCount: 1 })
+		writeCard(collection('alice-book-1'), 'ada', 'Ada', SYNCED)
+
+		await runSharedCollectionsMigrationIfNeeded()
+
+		expect(fs.lstatSync(collection('alice-book-1')).isDirectory()).toBe(true)
+		expect(query).toHaveBeenCalledTimes(1)
+	})
+})
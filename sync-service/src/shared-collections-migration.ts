@@ -0,0 +1,183 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { AddressBook, getAddressBooks, getAddressBooksForUser, getPool } from './db'
+import { linkBookCollection } from './collection-links'
+import { getUsers, parseCompositeUsername } from './htpasswd'
+import { logger } from './logger'
+import { RADICALE_STORAGE_PATH } from './sync/constants'
+import { ensureAddressBookProps, ensureDirectoryExists, isVCardFile } from './sync/radicale-fs'
+
+const COLLECTION_ROOT = 'collection-root'
+const READONLY_USERNAME_PREFIX = 'ro-'
+
+/**
+ * Bring the unsynced client changes in a book's per-user copies into its master:
+ * - cards the master lacks, and cards newer than the master's with other content, are copied in
+ *   with their mtime, so the next Radicale → DB pass imports them as usual
+ * - master cards that every copy lacks, unchanged since a copy was last written (its directory
+ *   mtime, which any sync write or client delete moves), were deleted by a client and are removed
+ * A card one copy still has is kept, and so is any card copied in by this merge.
+ */
+function mergeIntoMaster(copyPaths: Array<string>, masterPath: string): { merged: number; deleted: number } {
+	let merged = 0
+	let deleted = 0
+	const copyFileSet = new Set<string>()
+	const mergedFiles = new Set<string>()
+	let lastWrittenAt = new Date(0)
+	for (const copyPath of copyPaths) {
+		const copyMtime = fs.statSync(copyPath).mtime
+		if (copyMtime > lastWrittenAt) lastWrittenAt = copyMtime
+		for (const file of fs.readdirSync(copyPath).filter(isVCardFile)) {
+			copyFileSet.add(file)
+			const copyFilePath = path.join(copyPath, file)
+			const masterFilePath = path.join(masterPath, file)
+			const copyStats = fs.statSync(copyFilePath)
+			if (fs.existsSync(masterFilePath)) {
+				if (fs.statSync(masterFilePath).mtime >= copyStats.mtime) continue
+				if (fs.readFileSync(masterFilePath, 'utf-8') === fs.readFileSync(copyFilePath, 'utf-8')) continue
+			}
+			fs.copyFileSync(copyFilePath, masterFilePath)
+			fs.utimesSync(masterFilePath, copyStats.atime, copyStats.mtime)
+			mergedFiles.add(file)
+			merged++
+		}
+	}
+
+	for (const file of fs.readdirSync(masterPath).filter(isVCardFile)) {
+		if (copyFileSet.has(file) || mergedFiles.has(file)) continue
+		const masterFilePath = path.join(masterPath, file)
+		if (fs.statSync(masterFilePath).mtime >= lastWrittenAt) continue
+		fs.unlinkSync(masterFilePath)
+		deleted++
+		logger.info({ file, masterPath }, 'Removed card from master collection (deleted by a client before the migration)')
+	}
+
+	return { merged, deleted }
+}
+
+async function replaceWithLink(copyPath: string, masterPath: string): Promise<void> {
+	fs.rmSync(copyPath, { recursive: true, force: true })
+	await linkBookCollection(copyPath, masterPath)
+}
+
+/**
+ * One-time migration: stop keeping a copy of every card per user. Each book's
+ * cards live only in collection-root/{id}; the collections users and read-only
+ * subscriptions see become symlinks to it:
+ * - composite users: collection-root/{username-id}, after merging edits and deletions their clients had not synced yet
+ * - base users: collection-root/{username}/{id}, backfilled copies that sync never wrote to
+ * - read-only subscriptions: collection-root/ro-{id}/{id}, copies of the master
+ * Copies of composite users no longer in htpasswd are removed.
+ */
+export async function runSharedCollectionsMigrationIfNeeded(): Promise<void> {
+	const pool = getPool()
+
+	// Check if shared_collections_migration_done table exists and has a row
+	let migrationDone = false
+	try {
+		const result = await pool.query('SELECT 1 FROM shared_collections_migration_done LIMIT 1')
+		migrationDone = (result.rowCount ?? 0) > 0
+	} catch {
+		// Table might not exist before migration 36
+		return
+	}
+
+	if (migrationDone) {
+		return
+	}
+
+	logger.info('Running one-time shared collections migration...')
+	const books = await getAddressBooks()
+	if (books.length === 0) {
+		await pool.query('INSERT INTO shared_collections_migration_done (done_at) VALUES (NOW())')
+		logger.info('Shared collections migration skipped (no address books)')
+		return
+	}
+
+	const rootPath = path.join(RADICALE_STORAGE_PATH, COLLECTION_ROOT)
+	if (!fs.existsSync(rootPath)) {
+		await pool.query('INSERT INTO shared_collections_migration_done (done_at) VALUES (NOW())')
+		logger.info('Shared collections migration skipped (collection-root not found)')
+		return
+	}
+
+	const bookById = new Map<string, AddressBook>(books.map(book => [book.id, book]))
+	// Composite users' copies by book, merged together once every entry has been seen
+	const copyPathsByBook = new Map<AddressBook, Array<string>>()
+	const usernames = new Set((await getUsers()).map(user => user.username))
+	const masterPathFor = (book: AddressBook) => {
+		const masterPath = path.join(rootPath, book.id)
+		ensureDirectoryExists(masterPath)
+		ensureAddressBookProps(masterPath, book)
+		return masterPath
+	}
+
+	let mergedCount = 0
+	let deletedCount = 0
+	let linkedCount = 0
+	let removedCount = 0
+
+	// Symlinks are not directories to readdir, so collections already linked are skipped.
+	for (const entry of fs.readdirSync(rootPath, { withFileTypes: true })) {
+		if (!entry.isDirectory() || entry.name.startsWith('.') || bookById.has(entry.name)) continue
+		const entryPath = path.join(rootPath, entry.name)
+
+		if (entry.name.startsWith(READONLY_USERNAME_PREFIX)) {
+			// Smart group collections (ro-{group_id}) have cards of their own and are left alone.
+			const book = bookById.get(entry.name.slice(READONLY_USERNAME_PREFIX.length))
+			if (!book) continue
+			const roPath = path.join(entryPath, book.id)
+			if (fs.existsSync(roPath) && fs.lstatSync(roPath).isDirectory()) {
+				await replaceWithLink(roPath, masterPathFor(book))
+				linkedCount++
+			}
+			continue
+		}
+
+		const parsed = parseCompositeUsername(entry.name)
+		if (parsed) {
+			const book = bookById.get(parsed.bookId)
+			if (!book) continue
+			if (!usernames.has(entry.name)) {
+				fs.rmSync(entryPath, { recursive: true, force: true })
+				removedCount++
+				logger.info({ compositeUsername: entry.name }, 'Removed collection of a deleted composite user')
+				continue
+			}
+			copyPathsByBook.set(book, [...(copyPathsByBook.get(book) ?? []), entryPath])
+			continue
+		}
+
+		// Base user principal: nested per-book collections
+		const accessibleBookIds = new Set((await getAddressBooksForUser(entry.name)).map(book => book.id))
+		for (const child of fs.readdirSync(entryPath, { withFileTypes: true })) {
+			const book = child.isDirectory() ? bookById.get(child.name) : undefined
+			if (!book) continue
+			const childPath = path.join(entryPath, child.name)
+			if (accessibleBookIds.has(book.id)) {
+				await replaceWithLink(childPath, masterPathFor(book))
+				linkedCount++
+			} else {
+				fs.rmSync(childPath, { recursive: true, force: true })
+				removedCount++
+			}
+		}
+	}
+
+	for (const [book, copyPaths] of copyPathsByBook) {
+		const masterPath = masterPathFor(book)
+		const { merged, deleted } = mergeIntoMaster(copyPaths, masterPath)
+		mergedCount += merged
+		deletedCount += deleted
+		if (merged > 0 || deleted > 0) {
+			logger.info({ merged, deleted, copies: copyPaths.length, bookId: book.id }, 'Merged unsynced cards into master collection')
+		}
+		for (const copyPath of copyPaths) {
+			await replaceWithLink(copyPath, masterPath)
+			linkedCount++
+		}
+	}
+
+	await pool.query('INSERT INTO shared_collections_migration_done (done_at) VALUES (NOW())')
+	logger.info({ mergedCount, deletedCount, linkedCount, removedCount }, 'Shared collections migration completed')
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { calculateVCardHash, detectConflict, resolveConflict } from './conflict'
+import { calculateVCardHash, detectConflict, diffVCards, mergeVCards, resolveConflict } from './conflict'
 import type { Contact } from '../db'
 
 function makeContact(overrides: Partial<Contact> = {}): Contact {
@@ -163,3 +163,127 @@ describe('resolveConflict', () => {
 		expect(result).toBe('radicale')
 	})
 })
+
+// ---------------------------------------------------------------------------
+// mergeVCards
+// ---------------------------------------------------------------------------
+function card(...lines: string[]): string {
+	return ['BEGIN:VCARD', 'VERSION:3.0', 'UID:abc', ...lines, 'END:VCARD'].join('\r\n')
+}
+
+function propertyLines(vcard: string): string[] {
+	return vcard.split('\r\n').filter(line => !['BEGIN:VCARD', 'VERSION:3.0', 'END:VCARD'].includes(line))
+}
+
+describe('mergeVCards', () => {
+	const base = card('FN:Ana Núñez', 'TEL;TYPE=CELL:+15550001', 'ADR;TYPE=HOME:;;1 Old St;Springfield;;;')
+
+	it('keeps a phone added in Radicale and an address fixed in the DB', () => {
+		const db = card('FN:Ana Núñez', 'TEL;TYPE=CELL:+15550001', 'ADR;TYPE=HOME:;;2 New St;Springfield;;;')
+		const radicale = card('FN:Ana Núñez', 'TEL;TYPE=CELL:+15550001', 'TEL;TYPE=WORK:+15550002', 'ADR;TYPE=HOME:;;1 Old St;Springfield;;;')
+
+		const result = mergeVCards(base, db, radicale, 'db')
+
+		expect(result.collisions).toEqual([])
+		expect(propertyLines(result.vcard)).toEqual([
+			'UID:abc',
+			'FN:Ana Núñez',
+			'TEL;TYPE=CELL:+15550001',
+			'TEL;TYPE=WORK:+15550002',
+			'ADR;TYPE=HOME:;;2 New St;Springfield;;;',
+		])
+	})
+
+	it('applies removals from either side to repeating properties', () => {
+		const db = card('FN:Ana Núñez', 'TEL;TYPE=CELL:+15550001', 'TEL;TYPE=HOME:+15550003', 'ADR;TYPE=HOME:;;1 Old St;Springfield;;;')
+		const radicale = card('FN:Ana Núñez', 'ADR;TYPE=HOME:;;1 Old St;Springfield;;;')
+
+		const result = mergeVCards(base, db, radicale, 'db')
+
+		expect(result.collisions).toEqual([])
+		expect(propertyLines(result.vcard)).toContain('TEL;TYPE=HOME:+15550003')
+		expect(propertyLines(result.vcard)).not.toContain('TEL;TYPE=CELL:+15550001')
+	})
+
+	it('reports a single-valued property both sides changed and keeps the preferred side', () => {
+		const db = card('FN:Ana Nunez', 'TEL;TYPE=CELL:+15550001', 'ADR;TYPE=HOME:;;1 Old St;Springfield;;;')
+		const radicale = card('FN:Ana N. Núñez', 'TEL;TYPE=CELL:+15550001', 'ADR;TYPE=HOME:;;1 Old St;Springfield;;;')
+
+		const result = mergeVCards(base, db, radicale, 'radicale')
+
+		expect(propertyLines(result.vcard)).toContain('FN:Ana N. Núñez')
+		expect(result.collisions).toEqual([
+			{ property: 'FN', base: ['FN:Ana Núñez'], db: ['FN:Ana Nunez'], radicale: ['FN:Ana N. Núñez'], kept: 'radicale' },
+		])
+	})
+
+	it('reports the same phone number edited differently on both sides', () => {
+		const db = card('FN:Ana Núñez', 'TEL;TYPE=CELL:+15550009', 'ADR;TYPE=HOME:;;1 Old St;Springfield;;;')
+		const radicale = card('FN:Ana Núñez', 'TEL;TYPE=CELL:+15550008', 'ADR;TYPE=HOME:;;1 Old St;Springfield;;;')
+
+		const result = mergeVCards(base, db, radicale, 'db')
+
+		expect(result.collisions.map(collision => collision.property)).toEqual(['TEL'])
+		expect(propertyLines(result.vcard)).toContain('TEL;TYPE=CELL:+15550009')
+		expect(propertyLines(result.vcard)).not.toContain('TEL;TYPE=CELL:+15550008')
+	})
+
+	it('treats Apple grouped properties as one entry', () => {
+		const groupedBase = card('FN:Ana', 'item1.TEL:+15550001', 'item1.X-ABLabel:Studio')
+		const db = card('FN:Ana', 'item1.TEL:+15550001', 'item1.X-ABLabel:Studio', 'NOTE:from the web')
+		const radicale = card('FN:Ana', 'item1.TEL:+15550004', 'item1.X-ABLabel:Lake house', 'item2.TEL:+15550001', 'item2.X-ABLabel:Studio')
+
+		const result = mergeVCards(groupedBase, db, radicale, 'db')
+
+		expect(result.collisions).toEqual([])
+		expect(propertyLines(result.vcard)).toEqual([
+			'UID:abc',
+			'FN:Ana',
+			'item1.TEL:+15550004',
+			'item1.X-ABLabel:Lake house',
+			'item2.TEL:+15550001',
+			'item2.X-ABLabel:Studio',
+			'NOTE:from the web',
+		])
+	})
+
+	it('keeps group names and renames only a group both sides added', () => {
+		const groupedBase = card('FN:Ana', 'screl1.X-ABRELATEDNAMES:Bob', 'screl1.X-ABLabel:_$!<Friend>!$_')
+		const db = card('FN:Ana', 'screl1.X-ABRELATEDNAMES:Bob', 'screl1.X-ABLabel:_$!<Friend>!$_', 'item1.TEL:+15550001')
+		const radicale = card('FN:Ana', 'screl1.X-ABRELATEDNAMES:Bob', 'screl1.X-ABLabel:_$!<Friend>!$_', 'item1.TEL:+15550002')
+
+		const result = mergeVCards(groupedBase, db, radicale, 'db')
+
+		expect(result.collisions).toEqual([])
+		expect(propertyLines(result.vcard)).toEqual([
+			'UID:abc',
+			'FN:Ana',
+			'screl1.X-ABRELATEDNAMES:Bob',
+			'screl1.X-ABLabel:_$!<Friend>!$_',
+			'item1.TEL:+15550001',
+			'item2.TEL:+15550002',
+		])
+	})
+
+	it('ignores REV and PRODID churn', () => {
+		const db = card('FN:Ana Núñez', 'TEL;TYPE=CELL:+15550001', 'ADR;TYPE=HOME:;;1 Old St;Springfield;;;', 'REV:2024-07-01T00:00:00Z')
+		const radicale = card('FN:Ana Núñez', 'TEL;TYPE=CELL:+15550001', 'ADR;TYPE=HOME:;;1 Old St;Springfield;;;', 'REV:2024-07-02T00:00:00Z')
+
+		const result = mergeVCards(base, db, radicale, 'radicale')
+
+		expect(result.collisions).toEqual([])
+		expect(propertyLines(result.vcard)).toContain('REV:2024-07-02T00:00:00Z')
+	})
+})
+
+describe('diffVCards', () => {
+	it('reports only the properties that differ, with the side that was kept', () => {
+		const db = card('FN:Ana Núñez', 'TEL;TYPE=CELL:+15550001', 'NOTE:web', 'REV:2024-07-01T00:00:00Z')
+		const radicale = card('FN:Ana Núñez', 'TEL;TYPE=CELL:+15550002', 'REV:2024-07-02T00:00:00Z')
+
+		expect(diffVCards(db, radicale, 'radicale')).toEqual([
+			{ property: 'TEL', base: [], db: ['TEL;TYPE=CELL:+15550001'], radicale: ['TEL;TYPE=CELL:+15550002'], kept: 'radicale' },
+			{ property: 'NOTE', base: [], db: ['NOTE:web'], radicale: [], kept: 'radicale' },
+		])
+	})
+})
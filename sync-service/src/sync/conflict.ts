@@ -1,5 +1,6 @@
 import * as crypto from 'crypto'
 import { Contact } from '../db'
+import { foldVCardLine } from '../vcard'
 
 export interface ConflictInfo {
 	hasConflict: boolean
@@ -61,9 +62,274 @@ export function detectConflict(
 
 /**
  * Resolve conflict using last-write-wins strategy
- * Returns 'db' if DB version should be used, 'radicale' if Radicale version should be used
+ * Returns 'db' if DB version should be used, 'radicale' if Radicale version should be used.
+ * Used on its own only when there is no base to merge against; otherwise it
+ * just picks the side that wins a field-level collision in mergeVCards.
  */
 export function resolveConflict(conflict: ConflictInfo): 'db' | 'radicale' {
 	// Last-write-wins: use the most recent timestamp
 	return conflict.dbNewer ? 'db' : 'radicale'
 }
+
+// ---------------------------------------------------------------------------
+// Three-way merge
+// ---------------------------------------------------------------------------
+
+/** Properties that may repeat; these merge entry by entry instead of as one value. */
+const MULTI_VALUE_PROPERTIES = new Set([
+	'TEL',
+	'EMAIL',
+	'ADR',
+	'URL',
+	'IMPP',
+	'LABEL',
+	'LOGO',
+	'SOUND',
+	'KEY',
+	'RELATED',
+	'X-SOCIALPROFILE',
+	'X-ABRELATEDNAMES',
+	'X-ABDATE',
+])
+
+/** Regenerated on every write by one side or the other; never a real edit. */
+const VOLATILE_PROPERTIES = new Set(['REV', 'PRODID'])
+
+/** Apple attaches these to a grouped property (item1.TEL + item1.X-ABLabel). */
+const GROUP_ATTRIBUTE_PROPERTIES = new Set(['X-ABLABEL'])
+
+interface VCardEntry {
+	/** Property name the entry is merged under, e.g. TEL. */
+	name: string
+	/** Unfolded content lines with any group prefix stripped. */
+	lines: string[]
+	/** Group name as the card had it (item1, screl2, ...); null for an ungrouped property. */
+	group: string | null
+}
+
+interface ParsedVCard {
+	version: string
+	volatile: Map<string, string>
+	entries: VCardEntry[]
+}
+
+export interface FieldCollision {
+	/** vCard property name, e.g. TEL or NOTE. */
+	property: string
+	base: string[]
+	db: string[]
+	radicale: string[]
+	kept: 'db' | 'radicale'
+}
+
+export interface MergeResult {
+	vcard: string
+	collisions: FieldCollision[]
+}
+
+function unfoldVCard(vcard: string): string[] {
+	const lines: string[] = []
+	for (const raw of vcard.split(/\r\n|\r|\n/)) {
+		if ((raw.startsWith(' ') || raw.startsWith('\t')) && lines.length > 0) {
+			lines[lines.length - 1] += raw.substring(1)
+		} else if (raw.trim() !== '') {
+			lines.push(raw)
+		}
+	}
+	return lines
+}
+
+function splitGroup(line: string): { group: string | null; name: string; rest: string } {
+	const match = line.match(/^(?:([A-Za-z0-9-]+)\.)?([A-Za-z0-9-]+)/)
+	if (!match) return { group: null, name: '', rest: line }
+	const group = match[1] ?? null
+	return { group, name: match[2].toUpperCase(), rest: group ? line.substring(group.length + 1) : line }
+}
+
+function parseEntries(vcard: string): ParsedVCard {
+	const parsed: ParsedVCard = { version: 'VERSION:3.0', volatile: new Map(), entries: [] }
+	const groups = new Map<string, VCardEntry>()
+
+	for (const line of unfoldVCard(vcard)) {
+		const { group, name, rest } = splitGroup(line)
+		if (name === 'BEGIN' || name === 'END') continue
+		if (name === 'VERSION') {
+			parsed.version = line
+			continue
+		}
+		if (VOLATILE_PROPERTIES.has(name)) {
+			parsed.volatile.set(name, line)
+			continue
+		}
+		if (!group) {
+			parsed.entries.push({ name, lines: [rest], group: null })
+			continue
+		}
+		const key = group.toLowerCase()
+		const entry = groups.get(key)
+		if (entry) {
+			entry.lines.push(rest)
+			if (GROUP_ATTRIBUTE_PROPERTIES.has(entry.name) && !GROUP_ATTRIBUTE_PROPERTIES.has(name)) entry.name = name
+		} else {
+			const created: VCardEntry = { name, lines: [rest], group }
+			groups.set(key, created)
+			parsed.entries.push(created)
+		}
+	}
+	return parsed
+}
+
+function entryKey(entry: VCardEntry): string {
+	return entry.lines.join('\n')
+}
+
+function entriesByName(parsed: ParsedVCard): Map<string, VCardEntry[]> {
+	const byName = new Map<string, VCardEntry[]>()
+	for (const entry of parsed.entries) {
+		const list = byName.get(entry.name) || []
+		list.push(entry)
+		byName.set(entry.name, list)
+	}
+	return byName
+}
+
+function sameEntries(a: VCardEntry[], b: VCardEntry[]): boolean {
+	return a.length === b.length && a.every((entry, i) => entryKey(entry) === entryKey(b[i]))
+}
+
+/** Entries of `from` whose text is not in `other`, respecting duplicates. */
+function difference(from: VCardEntry[], other: VCardEntry[]): VCardEntry[] {
+	const remaining = new Map<string, number>()
+	for (const entry of other) remaining.set(entryKey(entry), (remaining.get(entryKey(entry)) || 0) + 1)
+	return from.filter(entry => {
+		const count = remaining.get(entryKey(entry)) || 0
+		if (count === 0) return true
+		remaining.set(entryKey(entry), count - 1)
+		return false
+	})
+}
+
+/**
+ * Merge one property. Returns the merged entries, or null when both sides
+ * changed it in ways that overlap (the caller records a collision).
+ */
+function mergeProperty(name: string, base: VCardEntry[], db: VCardEntry[], radicale: VCardEntry[]): VCardEntry[] | null {
+	if (sameEntries(db, radicale)) return db
+	if (sameEntries(db, base)) return radicale
+	if (sameEntries(radicale, base)) return db
+	if (!MULTI_VALUE_PROPERTIES.has(name)) return null
+
+	// Both sides touched a repeating property: apply each side's removals and
+	// additions to the other. Only an entry both sides removed and replaced
+	// differently (the same phone number edited two ways) is a collision.
+	const removedByDb = difference(base, db)
+	const removedByRadicale = difference(base, radicale)
+	const addedByDb = difference(db, base)
+	const addedByRadicale = difference(radicale, base)
+	const removedByBoth = difference(removedByDb, difference(removedByDb, removedByRadicale))
+	if (removedByBoth.length > 0 && addedByDb.length > 0 && addedByRadicale.length > 0) return null
+
+	const kept = difference(db, removedByRadicale)
+	return [...kept, ...difference(addedByRadicale, addedByDb)]
+}
+
+/**
+ * Group names to write, one per entry. Each grouped entry keeps its own name
+ * (other code looks lines up by it, e.g. the screl groups of related names);
+ * only an entry whose name an earlier entry already took, as when both sides
+ * added an item1, gets a fresh itemN.
+ */
+function groupNames(entries: VCardEntry[]): Array<string | null> {
+	const taken = new Set(entries.flatMap(entry => (entry.group ? [entry.group.toLowerCase()] : [])))
+	const claimed = new Set<string>()
+	let next = 0
+	return entries.map(entry => {
+		if (!entry.group) return null
+		const key = entry.group.toLowerCase()
+		if (!claimed.has(key)) {
+			claimed.add(key)
+			return entry.group
+		}
+		let renamed = `item${++next}`
+		while (taken.has(renamed)) renamed = `item${++next}`
+		taken.add(renamed)
+		claimed.add(renamed)
+		return renamed
+	})
+}
+
+function serializeEntries(version: string, volatile: Map<string, string>, entries: VCardEntry[]): string {
+	const lines = ['BEGIN:VCARD', version]
+	const groups = groupNames(entries)
+	entries.forEach((entry, index) => {
+		const prefix = groups[index] ? `${groups[index]}.` : ''
+		for (const line of entry.lines) lines.push(...foldVCardLine(`${prefix}${line}`))
+	})
+	for (const line of volatile.values()) lines.push(line)
+	lines.push('END:VCARD')
+	return lines.join('\r\n')
+}
+
+/**
+ * Field-level three-way merge of two edited copies of a vCard against the
+ * last version both sides agreed on. Properties only one side changed are
+ * taken from that side; repeating properties (TEL, EMAIL, ...) merge entry by
+ * entry, so a number added on a phone survives an address fix in the web UI.
+ * Where both sides changed the same thing differently, `prefer` picks the
+ * value that goes into the card and the collision is reported so the losing
+ * value is not silently lost.
+ */
+export function mergeVCards(base: string, db: string, radicale: string, prefer: 'db' | 'radicale'): MergeResult {
+	const parsedBase = parseEntries(base)
+	const parsedDb = parseEntries(db)
+	const parsedRadicale = parseEntries(radicale)
+	const baseByName = entriesByName(parsedBase)
+	const dbByName = entriesByName(parsedDb)
+	const radicaleByName = entriesByName(parsedRadicale)
+
+	const names = [...new Set([...dbByName.keys(), ...radicaleByName.keys(), ...baseByName.keys()])]
+	const mergedByName = new Map<string, VCardEntry[]>()
+	const collisions: FieldCollision[] = []
+	for (const name of names) {
+		const baseEntries = baseByName.get(name) || []
+		const dbEntries = dbByName.get(name) || []
+		const radicaleEntries = radicaleByName.get(name) || []
+		const merged = mergeProperty(name, baseEntries, dbEntries, radicaleEntries)
+		if (merged) {
+			mergedByName.set(name, merged)
+			continue
+		}
+		collisions.push({
+			property: name,
+			base: baseEntries.map(entryKey),
+			db: dbEntries.map(entryKey),
+			radicale: radicaleEntries.map(entryKey),
+			kept: prefer,
+		})
+		mergedByName.set(name, prefer === 'db' ? dbEntries : radicaleEntries)
+	}
+
+	// Keep the DB card's property order, then anything only Radicale has.
+	const ordered: VCardEntry[] = []
+	for (const name of names) ordered.push(...(mergedByName.get(name) || []))
+	const winner = prefer === 'db' ? parsedDb : parsedRadicale
+	return { vcard: serializeEntries(winner.version, winner.volatile, ordered), collisions }
+}
+
+/**
+ * Two-way fallback for when there is no base to merge against: every
+ * property whose values differ is reported, with `kept` naming the side
+ * resolveConflict picked for the whole card.
+ */
+export function diffVCards(db: string, radicale: string, kept: 'db' | 'radicale'): FieldCollision[] {
+	const dbByName = entriesByName(parseEntries(db))
+	const radicaleByName = entriesByName(parseEntries(radicale))
+	const collisions: FieldCollision[] = []
+	for (const name of new Set([...dbByName.keys(), ...radicaleByName.keys()])) {
+		const dbEntries = dbByName.get(name) || []
+		const radicaleEntries = radicaleByName.get(name) || []
+		if (sameEntries(dbEntries, radicaleEntries)) continue
+		collisions.push({ property: name, base: [], db: dbEntries.map(entryKey), radicale: radicaleEntries.map(entryKey), kept })
+	}
+	return collisions
+}
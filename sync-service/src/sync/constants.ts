@@ -1,6 +1,9 @@
 export const RADICALE_STORAGE_PATH = '/data/collections'
 export const SYNC_INTERVAL = parseInt(process.env.SYNC_INTERVAL || '30000', 10) // Default 30 seconds instead of 5
+// Full Radicale → DB scan behind the watcher's per-file syncs, for changes it missed
+export const RECONCILE_INTERVAL = parseInt(process.env.RECONCILE_INTERVAL || '600000', 10) // Default 10 minutes
 export const FILE_WATCHER_DEBOUNCE_MS = parseInt(process.env.FILE_WATCHER_DEBOUNCE_MS || '2000', 10) // Debounce file changes for 2 seconds
+export const NOTIFY_DEBOUNCE_MS = parseInt(process.env.NOTIFY_DEBOUNCE_MS || '200', 10) // Batch contact_changed notifications for 200ms
 
 export const getErrorCode = (error: unknown): string | undefined => {
 	if (error instanceof Error && 'code' in error) {
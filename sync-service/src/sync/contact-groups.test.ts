@@ -0,0 +1,171 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const storage = vi.hoisted(() => ({ path: '' }))
+
+vi.mock('./constants', () => ({
+	get RADICALE_STORAGE_PATH() {
+		return storage.path
+	},
+	getErrorCode: () => undefined,
+}))
+
+vi.mock('../logger', () => ({
+	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('../htpasswd', () => ({
+	getCompositeUsername: (username: string, bookId: string) => `${username}-${bookId}`,
+	isCompositeUsername: () => true,
+}))
+
+vi.mock('../db', () => ({
+	deleteContactGroup: vi.fn(),
+	getContactGroups: vi.fn(),
+	markContactGroupSynced: vi.fn(),
+	saveContactGroupFromRadicale: vi.fn(),
+}))
+
+import { deleteContactGroup, getContactGroups, markContactGroupSynced, saveContactGroupFromRadicale } from '../db'
+import { calculateVCardHash } from './conflict'
+import { contactGroupVCard, importContactGroupCards, syncContactGroupsToRadicale } from './contact-groups'
+import { getAddressBookPath } from './radicale-fs'
+import type { AddressBook, ContactGroup } from '../db'
+
+const BOOK = { id: 'book-1', name: 'Family', slug: 'family' } as AddressBook
+const SYNCED_AT = new Date('2026-01-01T00:00:00Z')
+
+const GROUP: ContactGroup = {
+	id: 'group-1',
+	address_book_id: BOOK.id,
+	name: 'Close friends',
+	vcard_id: 'close-friends',
+	vcard_hash: null,
+	last_synced_at: null,
+	updated_at: SYNCED_AT,
+	member_vcard_ids: ['ada'],
+}
+
+function syncedGroup(overrides: Partial<ContactGroup> = {}): ContactGroup {
+	return { ...GROUP, vcard_hash: calculateVCardHash(contactGroupVCard(GROUP)), last_synced_at: SYNCED_AT, ...overrides }
+}
+
+function groupCard(name: string, members: Array<string>): string {
+	return [
+		'BEGIN:VCARD',
+		'VERSION:3.0',
+		'UID:close-friends',
+		`FN:${name}`,
+		'X-ADDRESSBOOKSERVER-KIND:group',
+		...members.map(uid => `X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:${uid}`),
+		'END:VCARD',
+	].join('\r\n')
+}
+
+beforeEach(() => {
+	vi.clearAllMocks()
+	storage.path = fs.mkdtempSync(path.join(os.tmpdir(), 'contact-groups-'))
+})
+
+afterEach(() => {
+	fs.rmSync(storage.path, { recursive: true, force: true })
+})
+
+// ---------------------------------------------------------------------------
+// importContactGroupCards
+// ---------------------------------------------------------------------------
+describe('importContactGroupCards', () => {
+	it('saves new and changed group cards', async () => {
+		vi.mocked(getContactGroups).mockResolvedValue([syncedGroup()])
+		const content = groupCard('Best friends', ['ada', 'grace'])
+
+		const result = await importContactGroupCards(
+			[{ book: BOOK, vcardId: 'close-friends', fileMtime: new Date('2026-02-01T00:00:00Z'), vcardContent: content }],
+			new Set([BOOK.id])
+		)
+
+		expect(result).toEqual({ synced: 1, skipped: 0 })
+		expect(saveContactGroupFromRadicale).toHaveBeenCalledWith({
+			addressBookId: BOOK.id,
+			vcardId: 'close-friends',
+			name: 'Best friends',
+			memberVcardIds: ['ada', 'grace'],
+			vcardHash: calculateVCardHash(content),
+		})
+	})
+
+	it('skips unchanged cards', async () => {
+		const content = groupCard('Close friends', ['ada'])
+		vi.mocked(getContactGroups).mockResolvedValue([syncedGroup({ vcard_hash: calculateVCardHash(content) })])
+
+		const result = await importContactGroupCards(
+			[{ book: BOOK, vcardId: 'close-friends', fileMtime: new Date(), vcardContent: content }],
+			new Set([BOOK.id])
+		)
+
+		expect(result).toEqual({ synced: 0, skipped: 1 })
+		expect(saveContactGroupFromRadicale).not.toHaveBeenCalled()
+	})
+
+	it('keeps a UI edit that is newer than the card', async () => {
+		vi.mocked(getContactGroups).mockResolvedValue([syncedGroup({ updated_at: new Date('2026-03-01T00:00:00Z') })])
+
+		const result = await importContactGroupCards(
+			[{ book: BOOK, vcardId: 'close-friends', fileMtime: new Date('2026-02-01T00:00:00Z'), vcardContent: groupCard('Phone', []) }],
+			new Set([BOOK.id])
+		)
+
+		expect(result).toEqual({ synced: 0, skipped: 1 })
+		expect(saveContactGroupFromRadicale).not.toHaveBeenCalled()
+	})
+
+	it('deletes synced groups whose card is gone', async () => {
+		const edited = syncedGroup({ id: 'group-2', vcard_id: 'edited', updated_at: new Date('2026-03-01T00:00:00Z') })
+		const otherBook = syncedGroup({ id: 'group-3', address_book_id: 'book-2' })
+		vi.mocked(getContactGroups).mockResolvedValue([syncedGroup(), edited, otherBook, { ...GROUP, id: 'group-4', vcard_id: 'new' }])
+
+		await importContactGroupCards([], new Set([BOOK.id]))
+
+		expect(vi.mocked(deleteContactGroup).mock.calls).toEqual([['group-1']])
+	})
+})
+
+// ---------------------------------------------------------------------------
+// syncContactGroupsToRadicale
+// ---------------------------------------------------------------------------
+describe('syncContactGroupsToRadicale', () => {
+	const bookById = new Map([[BOOK.id, BOOK]])
+
+	it('writes changed groups and keeps their cards out of the orphan cleanup', async () => {
+		vi.mocked(getContactGroups).mockResolvedValue([GROUP])
+		const existing = new Map([[BOOK.id, new Set<string>()]])
+
+		const synced = await syncContactGroupsToRadicale(bookById, existing)
+
+		expect(synced).toBe(1)
+		expect(existing.get(BOOK.id)).toEqual(new Set(['close-friends']))
+		const card = fs.readFileSync(path.join(getAddressBookPath(BOOK.id), 'close-friends.vcf'), 'utf-8')
+		expect(card).toBe(contactGroupVCard(GROUP))
+		expect(markContactGroupSynced).toHaveBeenCalledWith(GROUP.id, calculateVCardHash(card))
+	})
+
+	it('skips groups whose card is up to date', async () => {
+		vi.mocked(getContactGroups).mockResolvedValue([syncedGroup()])
+
+		expect(await syncContactGroupsToRadicale(bookById, new Map())).toBe(0)
+		expect(markContactGroupSynced).not.toHaveBeenCalled()
+	})
+
+	it('leaves a card changed on a phone for the Radicale → DB pass', async () => {
+		// A member was deleted in the DB, so the generated card differs too.
+		vi.mocked(getContactGroups).mockResolvedValue([syncedGroup({ member_vcard_ids: [] })])
+		const dir = getAddressBookPath(BOOK.id)
+		fs.mkdirSync(dir, { recursive: true })
+		fs.writeFileSync(path.join(dir, 'close-friends.vcf'), groupCard('Renamed on phone', ['ada']))
+
+		expect(await syncContactGroupsToRadicale(bookById, new Map())).toBe(0)
+		expect(fs.readFileSync(path.join(dir, 'close-friends.vcf'), 'utf-8')).toContain('FN:Renamed on phone')
+	})
+})
@@ -0,0 +1,124 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+	AddressBook,
+	ContactGroup,
+	deleteContactGroup,
+	getContactGroups,
+	markContactGroupSynced,
+	saveContactGroupFromRadicale,
+} from '../db'
+import { generateGroupVCard, parseVCard } from '../vcard'
+import { logger } from '../logger'
+import { calculateVCardHash } from './conflict'
+import { getAddressBookPath, readVCardFile, writeVCardFile } from './radicale-fs'
+
+// Contact groups are stored as group vCards (KIND:group plus the Apple
+// X-ADDRESSBOOKSERVER-* spelling) next to the contacts of their book. The DB
+// card is generated from the group's name and members, so vcard_hash tells
+// whether either side changed since the last sync.
+
+export interface GroupCardFile {
+	book: AddressBook
+	vcardId: string
+	fileMtime: Date | null
+	vcardContent: string
+}
+
+/** Edited in the UI since the card was last written or read. */
+function editedInDb(group: ContactGroup): boolean {
+	return !group.last_synced_at || group.updated_at > group.last_synced_at
+}
+
+export function contactGroupVCard(group: ContactGroup): string {
+	return generateGroupVCard({ uid: group.vcard_id, name: group.name, memberUids: group.member_vcard_ids })
+}
+
+/**
+ * Import the group cards found in Radicale. Call after the contacts of the same
+ * run are imported, so members created in this run resolve. Groups that were
+ * synced before but whose card is gone from a book with CardDAV users are
+ * deleted, unless they were edited in the UI since.
+ */
+export async function importContactGroupCards(
+	files: Array<GroupCardFile>,
+	booksWithUsers: Set<string>
+): Promise<{ synced: number; skipped: number }> {
+	const groups = await getContactGroups()
+	const groupsByKey = new Map(groups.map(group => [`${group.address_book_id}:${group.vcard_id}`, group]))
+	const seen = new Set<string>()
+	let synced = 0
+	let skipped = 0
+
+	for (const { book, vcardId, fileMtime, vcardContent } of files) {
+		const key = `${book.id}:${vcardId}`
+		seen.add(key)
+		const existing = groupsByKey.get(key)
+		const vcardHash = calculateVCardHash(vcardContent)
+		if (existing && existing.vcard_hash === vcardHash) {
+			skipped++
+			continue
+		}
+		if (existing && editedInDb(existing) && (!fileMtime || existing.updated_at > fileMtime)) {
+			logger.info({ vcardId, bookId: book.id }, 'Group changed on both sides: DB version is newer, skipping Radicale update')
+			skipped++
+			continue
+		}
+
+		const data = parseVCard(vcardContent)
+		await saveContactGroupFromRadicale({
+			addressBookId: book.id,
+			vcardId,
+			name: data.fn || existing?.name || 'Group',
+			memberVcardIds: data.members || [],
+			vcardHash,
+		})
+		synced++
+	}
+
+	for (const group of groups) {
+		if (seen.has(`${group.address_book_id}:${group.vcard_id}`)) continue
+		if (!booksWithUsers.has(group.address_book_id) || editedInDb(group)) continue
+		logger.info({ vcardId: group.vcard_id, bookId: group.address_book_id }, 'Deleting contact group (card removed from Radicale)')
+		await deleteContactGroup(group.id)
+	}
+
+	return { synced, skipped }
+}
+
+/**
+ * Write the card of every group whose name or members changed in the DB.
+ * Adds each group's vcard_id to `existingVCardIdsByBookId` so the orphan
+ * cleanup that follows keeps the card.
+ */
+export async function syncContactGroupsToRadicale(
+	bookById: Map<string, AddressBook>,
+	existingVCardIdsByBookId: Map<string, Set<string>>
+): Promise<number> {
+	const groups = await getContactGroups()
+	let synced = 0
+
+	for (const group of groups) {
+		const book = bookById.get(group.address_book_id)
+		if (!book) continue
+		existingVCardIdsByBookId.get(book.id)?.add(group.vcard_id)
+
+		const vcardData = contactGroupVCard(group)
+		const newHash = calculateVCardHash(vcardData)
+		if (newHash === group.vcard_hash) continue
+
+		// A card changed on a phone and not yet imported stays until the Radicale → DB pass picks it up.
+		const filePath = path.join(getAddressBookPath(book.id), `${group.vcard_id}.vcf`)
+		const fileContent = fs.existsSync(filePath) ? readVCardFile(filePath) : null
+		if (fileContent && calculateVCardHash(fileContent) !== group.vcard_hash && !editedInDb(group)) continue
+
+		await writeVCardFile(book, group.vcard_id, vcardData)
+		await markContactGroupSynced(group.id, newHash)
+		synced++
+	}
+
+	if (synced > 0) {
+		logger.info({ synced }, 'Synced contact groups to Radicale')
+	}
+	return synced
+}
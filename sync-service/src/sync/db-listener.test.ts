@@ -0,0 +1,96 @@
+import { EventEmitter } from 'events'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const clients = vi.hoisted(() => [] as Array<EventEmitter & { query: ReturnType<typeof vi.fn> }>)
+
+vi.mock('pg', async () => {
+	const { EventEmitter } = await import('events')
+	class Client extends EventEmitter {
+		connect = vi.fn().mockResolvedValue(undefined)
+		query = vi.fn().mockResolvedValue({ rows: [] })
+		end = vi.fn().mockResolvedValue(undefined)
+		constructor() {
+			super()
+			clients.push(this)
+		}
+	}
+	return { Client }
+})
+
+vi.mock('../logger', () => ({
+	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('./constants', () => ({ NOTIFY_DEBOUNCE_MS: 200 }))
+
+vi.mock('./db-to-radicale', () => ({
+	syncContactsToRadicale: vi.fn().mockResolvedValue({ synced: 1, skipped: 0, conflicts: 0 }),
+}))
+
+import { CONTACT_CHANGED_CHANNEL, startListeningForContactChanges } from './db-listener'
+import { syncContactsToRadicale } from './db-to-radicale'
+import { resetSyncStats } from './stats'
+
+function notify(payload: string, channel = CONTACT_CHANGED_CHANNEL) {
+	clients[clients.length - 1].emit('notification', { channel, payload })
+}
+
+beforeEach(() => {
+	vi.useFakeTimers()
+	vi.clearAllMocks()
+	clients.length = 0
+	resetSyncStats()
+})
+
+afterEach(() => {
+	vi.useRealTimers()
+})
+
+describe('startListeningForContactChanges', () => {
+	it('pushes each burst of changed contacts once', async () => {
+		await startListeningForContactChanges()
+		expect(clients[0].query).toHaveBeenCalledWith(`LISTEN ${CONTACT_CHANGED_CHANNEL}`)
+
+		notify('contact-1')
+		notify('contact-2')
+		notify('contact-1')
+		notify('group-1', 'something_else')
+		await vi.advanceTimersByTimeAsync(199)
+		expect(syncContactsToRadicale).not.toHaveBeenCalled()
+
+		await vi.advanceTimersByTimeAsync(1)
+		expect(syncContactsToRadicale).toHaveBeenCalledTimes(1)
+		expect(syncContactsToRadicale).toHaveBeenCalledWith(['contact-1', 'contact-2'])
+	})
+
+	it('pushes changes that arrive mid-push right after it', async () => {
+		let finishPush: () => void = () => {}
+		vi.mocked(syncContactsToRadicale).mockImplementationOnce(
+			() => new Promise(resolve => (finishPush = () => resolve({ synced: 1, skipped: 0, conflicts: 0 })))
+		)
+		await startListeningForContactChanges()
+
+		notify('contact-1')
+		await vi.advanceTimersByTimeAsync(200)
+		notify('contact-2')
+		await vi.advanceTimersByTimeAsync(200)
+		expect(syncContactsToRadicale).toHaveBeenCalledTimes(1)
+
+		finishPush()
+		await vi.advanceTimersByTimeAsync(200)
+		expect(vi.mocked(syncContactsToRadicale).mock.calls).toEqual([[['contact-1']], [['contact-2']]])
+	})
+
+	it('listens again after the connection drops', async () => {
+		await startListeningForContactChanges()
+
+		clients[0].emit('end')
+		await vi.advanceTimersByTimeAsync(2000)
+
+		expect(clients).toHaveLength(2)
+		expect(clients[1].query).toHaveBeenCalledWith(`LISTEN ${CONTACT_CHANGED_CHANNEL}`)
+		notify('contact-3')
+		await vi.advanceTimersByTimeAsync(200)
+		expect(syncContactsToRadicale).toHaveBeenCalledWith(['contact-3'])
+	})
+})
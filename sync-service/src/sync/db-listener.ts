@@ -0,0 +1,86 @@
+import { Client } from 'pg'
+import { logger } from '../logger'
+import { isTransientDbError, retry } from '../retry'
+import { NOTIFY_DEBOUNCE_MS } from './constants'
+import { syncContactsToRadicale } from './db-to-radicale'
+import { trackSyncRun } from './stats'
+
+export const CONTACT_CHANGED_CHANNEL = 'contact_changed'
+
+/**
+ * LISTEN for contact_changed (35_contact_change_notify.sql) on a dedicated
+ * connection and push the named contacts to Radicale, so web edits reach
+ * phones within a second instead of on the next SYNC_INTERVAL pass. The
+ * interval pass still runs and catches anything missed, including changes
+ * made while this connection was down.
+ */
+export async function startListeningForContactChanges(): Promise<void> {
+	const pendingIds = new Set<string>()
+	let debounceTimer: NodeJS.Timeout | null = null
+	let isPushing = false
+
+	const pushPending = async () => {
+		if (isPushing || pendingIds.size === 0) return
+		isPushing = true
+		const contactIds = Array.from(pendingIds)
+		pendingIds.clear()
+		try {
+			await trackSyncRun('db-to-radicale', 'notify', () => syncContactsToRadicale(contactIds))
+		} catch (err) {
+			// Swallow, as the watcher does: the interval pass retries these contacts.
+			logger.error({ err, contactIds }, 'Notification-triggered sync failed; periodic sync will retry')
+		} finally {
+			isPushing = false
+			// Changes that arrived during the push go out right after it.
+			if (pendingIds.size > 0) schedulePush()
+		}
+	}
+
+	const schedulePush = () => {
+		if (debounceTimer) clearTimeout(debounceTimer)
+		debounceTimer = setTimeout(() => {
+			debounceTimer = null
+			void pushPending()
+		}, NOTIFY_DEBOUNCE_MS)
+	}
+
+	const connect = async (): Promise<void> => {
+		const client = new Client({ connectionString: process.env.DATABASE_URL })
+		client.on('notification', message => {
+			if (message.channel !== CONTACT_CHANGED_CHANNEL || !message.payload) return
+			pendingIds.add(message.payload)
+			schedulePush()
+		})
+		// An 'error' without a listener would kill the process; 'end' follows it.
+		client.on('error', err => {
+			logger.error({ err }, 'Contact change listener connection error')
+		})
+
+		try {
+			await client.connect()
+			await client.query(`LISTEN ${CONTACT_CHANGED_CHANNEL}`)
+		} catch (err) {
+			await client.end().catch(() => undefined)
+			throw err
+		}
+
+		client.once('end', () => {
+			logger.warn('Contact change listener disconnected; reconnecting')
+			void reconnect()
+		})
+		logger.info({ channel: CONTACT_CHANGED_CHANNEL, debounceMs: NOTIFY_DEBOUNCE_MS }, 'Listening for contact changes')
+	}
+
+	const reconnect = () =>
+		retry(connect, {
+			label: 'contact change listener',
+			initialDelayMs: 1000,
+			maxDelayMs: 30_000,
+			isRetryable: isTransientDbError,
+		}).catch(err => {
+			// The interval pass keeps Radicale up to date without the listener.
+			logger.error({ err }, 'Contact change listener stopped; changes reach Radicale on the periodic sync only')
+		})
+
+	await reconnect()
+}
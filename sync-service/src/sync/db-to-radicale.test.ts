@@ -0,0 +1,133 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const storage = vi.hoisted(() => ({ path: '' }))
+
+vi.mock('./constants', () => ({
+	get RADICALE_STORAGE_PATH() {
+		return storage.path
+	},
+	getErrorCode: (error: unknown) => (error as NodeJS.ErrnoException).code,
+}))
+
+vi.mock('../logger', () => ({
+	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('../htpasswd', () => ({
+	getUsers: vi.fn().mockResolvedValue([]),
+	getCompositeUsername: (username: string, bookId: string) => `${username}-${bookId}`,
+	isCompositeUsername: () => false,
+}))
+
+vi.mock('../history', () => ({ recordHistory: vi.fn() }))
+
+vi.mock('./address-books', () => ({
+	getAddressBooksForSync: vi.fn(),
+}))
+
+vi.mock('./vcard-contact', () => ({
+	contactVCard: vi.fn(async (contact: { vcard_id: string; full_name: string }) =>
+		['BEGIN:VCARD', 'VERSION:3.0', `UID:${contact.vcard_id}`, `FN:${contact.full_name}`, 'END:VCARD'].join('\r\n')
+	),
+	contactDataFromVCard: vi.fn(),
+}))
+
+vi.mock('../db', () => ({
+	getContactsByIds: vi.fn(),
+	getLiveVcardIds: vi.fn().mockResolvedValue(new Set()),
+	getLoggedVcardIds: vi.fn().mockResolvedValue(new Map()),
+	getExplicitAddressBookIdsForUser: vi.fn().mockResolvedValue([]),
+	getContactAddressBookEntries: vi.fn(),
+	getAllAddressBookReadonly: vi.fn().mockResolvedValue([]),
+	updateSyncMetadata: vi.fn(),
+	setSyncBase: vi.fn(),
+	setContactAddressBooks: vi.fn(),
+}))
+
+import { getContactAddressBookEntries, getContactsByIds, getLiveVcardIds, getLoggedVcardIds, updateSyncMetadata } from '../db'
+import { getAddressBooksForSync } from './address-books'
+import { syncContactsToRadicale } from './db-to-radicale'
+import { getAddressBookPath } from './radicale-fs'
+import type { AddressBook, Contact } from '../db'
+
+const FAMILY = { id: 'book-1', name: 'Family', slug: 'family', is_public: true } as AddressBook
+const WORK = { id: 'book-2', name: 'Work', slug: 'work', is_public: true } as AddressBook
+
+const cardPath = (book: AddressBook, vcardId: string) => path.join(getAddressBookPath(book.id), `${vcardId}.vcf`)
+
+function writeCard(book: AddressBook, vcardId: string) {
+	fs.mkdirSync(getAddressBookPath(book.id), { recursive: true })
+	fs.writeFileSync(cardPath(book, vcardId), `BEGIN:VCARD\r\nVERSION:3.0\r\nUID:${vcardId}\r\nFN:Old\r\nEND:VCARD`)
+}
+
+beforeEach(() => {
+	vi.clearAllMocks()
+	storage.path = fs.mkdtempSync(path.join(os.tmpdir(), 'db-to-radicale-'))
+	vi.mocked(getAddressBooksForSync).mockResolvedValue({ books: [FAMILY, WORK], defaultBook: FAMILY, hasAddressBooks: true })
+})
+
+afterEach(() => {
+	fs.rmSync(storage.path, { recursive: true, force: true })
+})
+
+describe('syncContactsToRadicale', () => {
+	it('writes changed contacts and removes cards from books they left or from the trash', async () => {
+		writeCard(FAMILY, 'ada')
+		writeCard(WORK, 'ada')
+		writeCard(FAMILY, 'grace')
+		writeCard(FAMILY, 'untouched')
+		vi.mocked(getContactsByIds).mockResolvedValue([
+			{ id: 'id-ada', vcard_id: 'ada', full_name: 'Ada Lovelace', sync_source: 'db' } as Contact,
+			{ id: 'id-grace', vcard_id: 'grace', full_name: 'Grace Hopper', deleted_at: new Date() } as Contact,
+		])
+		vi.mocked(getContactAddressBookEntries).mockResolvedValue([{ contact_id: 'id-ada', address_book_id: FAMILY.id }])
+
+		const counts = await syncContactsToRadicale(['id-ada', 'id-grace'])
+
+		expect(counts).toEqual({ synced: 1, skipped: 0, conflicts: 0 })
+		expect(getContactAddressBookEntries).toHaveBeenCalledWith(['id-ada'])
+		expect(fs.readFileSync(cardPath(FAMILY, 'ada'), 'utf-8')).toContain('FN:Ada Lovelace')
+		expect(fs.existsSync(cardPath(WORK, 'ada'))).toBe(false)
+		expect(fs.existsSync(cardPath(FAMILY, 'grace'))).toBe(false)
+		expect(fs.existsSync(cardPath(FAMILY, 'untouched'))).toBe(true)
+		expect(updateSyncMetadata).toHaveBeenCalledWith('id-ada', expect.objectContaining({ sync_source: 'db' }))
+	})
+
+	it('removes the cards of contacts deleted outright, found through the change log', async () => {
+		writeCard(FAMILY, 'ada')
+		writeCard(WORK, 'ada')
+		writeCard(FAMILY, 'untouched')
+		vi.mocked(getContactsByIds).mockResolvedValue([])
+		vi.mocked(getLoggedVcardIds).mockResolvedValue(new Map([['id-ada', 'ada']]))
+
+		const counts = await syncContactsToRadicale(['id-ada'])
+
+		expect(counts).toEqual({ synced: 0, skipped: 0, conflicts: 0 })
+		expect(getLoggedVcardIds).toHaveBeenCalledWith(['id-ada'])
+		expect(fs.existsSync(cardPath(FAMILY, 'ada'))).toBe(false)
+		expect(fs.existsSync(cardPath(WORK, 'ada'))).toBe(false)
+		expect(fs.existsSync(cardPath(FAMILY, 'untouched'))).toBe(true)
+	})
+
+	it('keeps the card of a deleted contact whose UID a live contact now carries', async () => {
+		writeCard(FAMILY, 'ada')
+		writeCard(FAMILY, 'grace')
+		vi.mocked(getContactsByIds).mockResolvedValue([])
+		vi.mocked(getLoggedVcardIds).mockResolvedValue(
+			new Map([
+				['id-ada', 'ada'],
+				['id-grace', 'grace'],
+			])
+		)
+		vi.mocked(getLiveVcardIds).mockResolvedValue(new Set(['ada']))
+
+		await syncContactsToRadicale(['id-ada', 'id-grace'])
+
+		expect(getLiveVcardIds).toHaveBeenCalledWith(['ada', 'grace'])
+		expect(fs.existsSync(cardPath(FAMILY, 'ada'))).toBe(true)
+		expect(fs.existsSync(cardPath(FAMILY, 'grace'))).toBe(false)
+	})
+})
@@ -2,209 +2,305 @@ import * as fs from 'fs'
 import * as path from 'path'
 import {
 	AddressBook,
+	Contact,
 	getAllAddressBookReadonly,
 	getContactAddressBookEntries,
+	getContactsByIds,
 	getContactsNeedingRadicaleSync,
+	getLiveVcardIds,
+	getLoggedVcardIds,
+	getSyncBase,
+	recordSyncConflict,
 	setContactAddressBooks,
+	setSyncBase,
+	updateContact,
 	updateSyncMetadata,
 } from '../db'
-import { generateVCard } from '../vcard'
 import { getUsers, getCompositeUsername, isCompositeUsername } from '../htpasswd'
+import { recordHistory } from '../history'
 import { logger } from '../logger'
+import { linkBookCollection } from '../collection-links'
 import { RADICALE_STORAGE_PATH } from './constants'
 import { getAddressBooksForSync } from './address-books'
-import { calculateVCardHash, detectConflict, resolveConflict } from './conflict'
+import { syncContactGroupsToRadicale } from './contact-groups'
+import { syncSmartGroupsToRadicale } from './smart-groups'
+import { calculateVCardHash, detectConflict, diffVCards, mergeVCards, resolveConflict } from './conflict'
+import { contactDataFromVCard, contactVCard } from './vcard-contact'
+import type { SyncCounts } from './stats'
 import {
 	getAddressBookPath,
 	ensureDirectoryExists,
-	ensureAddressBookProps,
 	extractVCardId,
 	readVCardFile,
 	writeVCardFile,
 	deleteVCardFile,
 	getFileModificationTime,
+	linkUserCollections,
 } from './radicale-fs'
 
+/** Per-pass state shared by the contacts it pushes. */
+interface PushContext {
+	books: Array<AddressBook>
+	bookById: Map<string, AddressBook>
+	defaultBook: AddressBook
+	hasAddressBooks: boolean
+	bookIdsByContactId: Map<string, Set<string>>
+	/** Filled with the cards each book should keep, for the orphan cleanup. */
+	existingVCardIdsByBookId: Map<string, Set<string>>
+}
+
 /**
- * Sync from PostgreSQL to Radicale
- * Only syncs contacts that have changed since last sync to prevent loops
+ * The CardDAV users whose collections link to each book: composite usernames
+ * (username-bookid), which give each address book its own CardDAV account.
  */
-export async function syncDbToRadicale(): Promise<void> {
-	logger.info('Syncing PostgreSQL → Radicale...')
-
-	try {
-		const contacts = await getContactsNeedingRadicaleSync()
-		const { books, defaultBook, hasAddressBooks } = await getAddressBooksForSync()
-		const bookById = new Map(books.map(book => [book.id, book]))
+async function loadUsersByBookId(books: Array<AddressBook>, hasAddressBooks: boolean): Promise<Map<string, Set<string>>> {
+	const usersByBookId = new Map<string, Set<string>>()
+	for (const book of books) {
+		usersByBookId.set(book.id, new Set<string>())
+	}
 
-		// Build usersByBookId using composite usernames (username-bookid)
-		// This allows each address book to have its own CardDAV account
-		const usersByBookId = new Map<string, Set<string>>()
-		for (const book of books) {
-			usersByBookId.set(book.id, new Set<string>())
+	if (hasAddressBooks) {
+		// Get base users from database (not htpasswd, which includes composite users)
+		const { getExplicitAddressBookIdsForUser } = await import('../db')
+		const allHtpasswdUsers = await getUsers()
+		// Extract base usernames (exclude composite and ro-*)
+		const baseUsernames = new Set<string>()
+		for (const user of allHtpasswdUsers) {
+			if (user.username.startsWith('ro-')) continue
+			if (isCompositeUsername(user.username)) continue
+			baseUsernames.add(user.username)
 		}
 
-		if (hasAddressBooks) {
-			// Get base users from database (not htpasswd, which includes composite users)
-			const { getExplicitAddressBookIdsForUser } = await import('../db')
-			const allHtpasswdUsers = await getUsers()
-			// Extract base usernames (exclude composite and ro-*)
-			const baseUsernames = new Set<string>()
-			for (const user of allHtpasswdUsers) {
-				if (user.username.startsWith('ro-')) continue
-				if (isCompositeUsername(user.username)) continue
-				baseUsernames.add(user.username)
-			}
-
-			// For each base user, get their assigned books and create composite usernames
-			for (const baseUsername of baseUsernames) {
-				const assignedBookIds = await getExplicitAddressBookIdsForUser(baseUsername)
-				// Also include public books
-				for (const book of books) {
-					if (book.is_public || assignedBookIds.includes(book.id)) {
-						if (!usersByBookId.has(book.id)) {
-							usersByBookId.set(book.id, new Set<string>())
-						}
-						const compositeUsername = getCompositeUsername(baseUsername, book.id)
-						usersByBookId.get(book.id)?.add(compositeUsername)
-					}
-				}
-			}
-		} else {
-			// No address books: use regular usernames (backward compatibility)
-			const users = await getUsers()
-			for (const user of users) {
-				if (user.username.startsWith('ro-')) continue
-				if (isCompositeUsername(user.username)) continue
-				for (const book of books) {
+		// For each base user, get their assigned books and create composite usernames
+		for (const baseUsername of baseUsernames) {
+			const assignedBookIds = await getExplicitAddressBookIdsForUser(baseUsername)
+			// Also include public books
+			for (const book of books) {
+				if (book.is_public || assignedBookIds.includes(book.id)) {
 					if (!usersByBookId.has(book.id)) {
 						usersByBookId.set(book.id, new Set<string>())
 					}
-					usersByBookId.get(book.id)?.add(user.username)
+					const compositeUsername = getCompositeUsername(baseUsername, book.id)
+					usersByBookId.get(book.id)?.add(compositeUsername)
 				}
 			}
 		}
-
-		const contactBookEntries = await getContactAddressBookEntries()
-		const contactBookIdsByContactId = new Map<string, Set<string>>()
-		for (const entry of contactBookEntries) {
-			const existing = contactBookIdsByContactId.get(entry.contact_id) || new Set<string>()
-			existing.add(entry.address_book_id)
-			contactBookIdsByContactId.set(entry.contact_id, existing)
+	} else {
+		// No address books: use regular usernames (backward compatibility)
+		const users = await getUsers()
+		for (const user of users) {
+			if (user.username.startsWith('ro-')) continue
+			if (isCompositeUsername(user.username)) continue
+			for (const book of books) {
+				if (!usersByBookId.has(book.id)) {
+					usersByBookId.set(book.id, new Set<string>())
+				}
+				usersByBookId.get(book.id)?.add(user.username)
+			}
 		}
+	}
 
-		const existingVCardIdsByBookId = new Map<string, Set<string>>()
-		for (const book of books) {
-			existingVCardIdsByBookId.set(book.id, new Set<string>())
-		}
+	return usersByBookId
+}
 
-		let synced = 0
-		let skipped = 0
-		let conflicts = 0
+function groupBookIdsByContactId(entries: Array<{ contact_id: string; address_book_id: string }>): Map<string, Set<string>> {
+	const bookIdsByContactId = new Map<string, Set<string>>()
+	for (const entry of entries) {
+		const existing = bookIdsByContactId.get(entry.contact_id) || new Set<string>()
+		existing.add(entry.address_book_id)
+		bookIdsByContactId.set(entry.contact_id, existing)
+	}
+	return bookIdsByContactId
+}
 
-		for (const contact of contacts) {
-			if (!contact.vcard_id) {
-				logger.warn({ contactId: contact.id }, 'Contact has no vcard_id, skipping')
-				continue
-			}
+/** Write one contact's card to each of its books, unless Radicale already has it. */
+async function pushContact(contact: Contact, context: PushContext, counts: SyncCounts): Promise<void> {
+	if (!contact.vcard_id) {
+		logger.warn({ contactId: contact.id }, 'Contact has no vcard_id, skipping')
+		return
+	}
 
-			let bookIds = contactBookIdsByContactId.get(contact.id) || new Set<string>()
-			if (bookIds.size === 0 && hasAddressBooks && defaultBook) {
-				bookIds = new Set<string>([defaultBook.id])
-				contactBookIdsByContactId.set(contact.id, bookIds)
-				await setContactAddressBooks(contact.id, [defaultBook.id])
-			}
+	let bookIds = context.bookIdsByContactId.get(contact.id) || new Set<string>()
+	if (bookIds.size === 0 && context.hasAddressBooks && context.defaultBook) {
+		bookIds = new Set<string>([context.defaultBook.id])
+		context.bookIdsByContactId.set(contact.id, bookIds)
+		await setContactAddressBooks(contact.id, [context.defaultBook.id])
+	}
 
-			const targetBooks = Array.from(bookIds)
-				.map(id => bookById.get(id))
-				.filter((book): book is AddressBook => Boolean(book))
+	const targetBooks = Array.from(bookIds)
+		.map(id => context.bookById.get(id))
+		.filter((book): book is AddressBook => Boolean(book))
 
-			const booksToSync = targetBooks.length > 0 ? targetBooks : hasAddressBooks ? [defaultBook] : books
-			for (const book of booksToSync) {
-				existingVCardIdsByBookId.get(book.id)?.add(contact.vcard_id)
-			}
+	const booksToSync = targetBooks.length > 0 ? targetBooks : context.hasAddressBooks ? [context.defaultBook] : context.books
+	for (const book of booksToSync) {
+		context.existingVCardIdsByBookId.get(book.id)?.add(contact.vcard_id)
+	}
 
-			const primaryBook = booksToSync.find(book => book.id === defaultBook.id) || booksToSync[0]
-			if (!primaryBook) continue
-
-			const vcardData =
-				contact.vcard_data ||
-				generateVCard(
-					{},
-					{
-						...contact,
-						phones: contact.phones || null,
-						emails: contact.emails || null,
-						addresses: contact.addresses || null,
-						urls: contact.urls || null,
-					}
-				)
+	const primaryBook = booksToSync.find(book => book.id === context.defaultBook.id) || booksToSync[0]
+	if (!primaryBook) return
+
+	let vcardData = await contactVCard(contact)
 
-			const newHash = calculateVCardHash(vcardData)
-			const primaryMasterPath = getAddressBookPath(primaryBook.id)
-			ensureDirectoryExists(primaryMasterPath)
-			const primaryFilePath = path.join(primaryMasterPath, `${contact.vcard_id}.vcf`)
-			const radicaleFileExists = fs.existsSync(primaryFilePath)
+	let newHash = calculateVCardHash(vcardData)
+	// Set when Radicale's edits were merged in and the DB row needs them too.
+	let mergedFromRadicale = false
+	const primaryMasterPath = getAddressBookPath(primaryBook.id)
+	ensureDirectoryExists(primaryMasterPath)
+	const primaryFilePath = path.join(primaryMasterPath, `${contact.vcard_id}.vcf`)
+	const radicaleFileExists = fs.existsSync(primaryFilePath)
 
-			if (radicaleFileExists) {
-				const existingVCardContent = readVCardFile(primaryFilePath)
-				if (existingVCardContent) {
-					const existingHash = calculateVCardHash(existingVCardContent)
-					const fileMtime = getFileModificationTime(primaryFilePath)
+	if (radicaleFileExists) {
+		const existingVCardContent = readVCardFile(primaryFilePath)
+		if (existingVCardContent) {
+			const existingHash = calculateVCardHash(existingVCardContent)
+			const fileMtime = getFileModificationTime(primaryFilePath)
 
-					if (newHash === existingHash && contact.vcard_hash === newHash) {
+			if (newHash === existingHash && contact.vcard_hash === newHash) {
+				await updateSyncMetadata(contact.id, {
+					last_synced_to_radicale_at: new Date(),
+					vcard_hash: newHash,
+					radicale_file_mtime: fileMtime,
+				})
+				await setSyncBase(contact.id, vcardData)
+				counts.skipped++
+				return
+			}
+
+			if (fileMtime && (contact.last_synced_to_radicale_at || contact.last_synced_from_radicale_at)) {
+				const conflict = detectConflict(contact, fileMtime, existingHash, 'db-to-radicale')
+				if (conflict.hasConflict) {
+					counts.conflicts++
+					const resolution = resolveConflict(conflict)
+					const base = await getSyncBase(contact.id)
+					const merged = base ? mergeVCards(base, vcardData, existingVCardContent, resolution) : null
+					const collisions = merged ? merged.collisions : diffVCards(vcardData, existingVCardContent, resolution)
+					if (collisions.length > 0) {
+						await recordSyncConflict(contact.id, collisions, {
+							db: contact,
+							radicale: contactDataFromVCard(contact.vcard_id, existingVCardContent, fileMtime),
+						})
+					}
+					if (merged) {
+						vcardData = merged.vcard
+						newHash = calculateVCardHash(vcardData)
+						mergedFromRadicale = true
+						const updatedContact = await updateContact(contact.id, contactDataFromVCard(contact.vcard_id, vcardData, fileMtime))
+						await recordHistory({
+							contactId: contact.id,
+							operation: 'update',
+							source: 'sync',
+							actor: null,
+							actorType: 'system',
+							summary: `Merged CardDAV changes into ${updatedContact.full_name || updatedContact.email || 'contact'}`,
+							previousState: contact,
+							newState: updatedContact,
+							metadata: { vcardId: contact.vcard_id, merged: true, collisions: merged.collisions.length },
+						})
+						logger.info(
+							{ vcardId: contact.vcard_id, collisions: merged.collisions.length },
+							'Conflict detected: merged DB and Radicale changes'
+						)
+					} else if (resolution === 'radicale') {
+						logger.info({ vcardId: contact.vcard_id }, 'Conflict detected: Radicale version is newer, skipping sync')
 						await updateSyncMetadata(contact.id, {
 							last_synced_to_radicale_at: new Date(),
-							vcard_hash: newHash,
 							radicale_file_mtime: fileMtime,
 						})
-						skipped++
-						continue
-					}
-
-					if (fileMtime && (contact.last_synced_to_radicale_at || contact.last_synced_from_radicale_at)) {
-						const conflict = detectConflict(contact, fileMtime, existingHash, 'db-to-radicale')
-						if (conflict.hasConflict) {
-							conflicts++
-							const resolution = resolveConflict(conflict)
-							if (resolution === 'radicale') {
-								logger.info({ vcardId: contact.vcard_id }, 'Conflict detected: Radicale version is newer, skipping sync')
-								await updateSyncMetadata(contact.id, {
-									last_synced_to_radicale_at: new Date(),
-									radicale_file_mtime: fileMtime,
-								})
-								skipped++
-								continue
-							}
-							logger.info({ vcardId: contact.vcard_id }, 'Conflict detected: DB version is newer, overwriting Radicale')
-						}
+						counts.skipped++
+						return
+					} else {
+						logger.info({ vcardId: contact.vcard_id }, 'Conflict detected: DB version is newer, overwriting Radicale')
 					}
 				}
 			}
+		}
+	}
 
-			for (const book of booksToSync) {
-				const usernames = Array.from(usersByBookId.get(book.id) || [])
-				await writeVCardFile(book, contact.vcard_id, vcardData, usernames)
-			}
+	for (const book of booksToSync) {
+		await writeVCardFile(book, contact.vcard_id, vcardData)
+	}
 
-			const fileMtime = getFileModificationTime(primaryFilePath)
-			await updateSyncMetadata(contact.id, {
-				last_synced_to_radicale_at: new Date(),
-				vcard_hash: newHash,
-				radicale_file_mtime: fileMtime,
-				sync_source: contact.sync_source === 'api' ? 'api' : 'db',
-			})
-
-			synced++
+	const fileMtime = getFileModificationTime(primaryFilePath)
+	await updateSyncMetadata(contact.id, {
+		last_synced_to_radicale_at: new Date(),
+		// The Radicale edits are in the merged card, so there is nothing left to pull.
+		...(mergedFromRadicale ? { last_synced_from_radicale_at: new Date() } : {}),
+		vcard_hash: newHash,
+		radicale_file_mtime: fileMtime,
+		sync_source: contact.sync_source === 'api' ? 'api' : 'db',
+	})
+	await setSyncBase(contact.id, vcardData)
+
+	counts.synced++
+}
+
+/**
+ * Link the read-only subscription collection (ro-{book_id}/{book_id}) of each
+ * book that has one to the book's master collection.
+ */
+async function linkReadonlyCollections(bookById: Map<string, AddressBook>): Promise<void> {
+	const readonlyRows = await getAllAddressBookReadonly()
+	for (const row of readonlyRows) {
+		const book = bookById.get(row.address_book_id)
+		if (!book) continue
+		const roPath = path.join(RADICALE_STORAGE_PATH, 'collection-root', `ro-${book.id}`, book.id)
+		try {
+			await linkBookCollection(roPath, getAddressBookPath(book.id))
+		} catch (err) {
+			logger.warn({ err, bookName: book.name }, 'Failed to link read-only collection')
+		}
+	}
+}
+
+function logCounts({ synced, skipped, conflicts }: SyncCounts): SyncCounts {
+	if (synced > 0 || skipped > 0 || conflicts > 0) {
+		logger.info({ synced, skipped, conflicts }, 'Synced contacts to Radicale')
+	}
+	return { synced, skipped, conflicts }
+}
+
+/**
+ * Sync from PostgreSQL to Radicale
+ * Only syncs contacts that have changed since last sync to prevent loops
+ */
+export async function syncDbToRadicale(): Promise<SyncCounts> {
+	logger.info('Syncing PostgreSQL → Radicale...')
+
+	try {
+		const contacts = await getContactsNeedingRadicaleSync()
+		const { books, defaultBook, hasAddressBooks } = await getAddressBooksForSync()
+		const bookById = new Map(books.map(book => [book.id, book]))
+
+		const usersByBookId = await loadUsersByBookId(books, hasAddressBooks)
+		const existingVCardIdsByBookId = new Map<string, Set<string>>()
+		for (const book of books) {
+			existingVCardIdsByBookId.set(book.id, new Set<string>())
+			await linkUserCollections(book, Array.from(usersByBookId.get(book.id) || []))
 		}
 
+		const context: PushContext = {
+			books,
+			bookById,
+			defaultBook,
+			hasAddressBooks,
+			bookIdsByContactId: groupBookIdsByContactId(await getContactAddressBookEntries()),
+			existingVCardIdsByBookId,
+		}
+		const counts: SyncCounts = { synced: 0, skipped: 0, conflicts: 0 }
+
+		for (const contact of contacts) {
+			await pushContact(contact, context, counts)
+		}
+
+		// Before the orphan cleanup, which would otherwise delete the group cards.
+		counts.synced += await syncContactGroupsToRadicale(bookById, existingVCardIdsByBookId)
+
 		for (const book of books) {
 			const masterPath = getAddressBookPath(book.id)
 			if (!fs.existsSync(masterPath)) continue
 			const masterFiles = fs.readdirSync(masterPath)
 			const masterVCardFiles = masterFiles.filter(file => (file.endsWith('.vcf') || file.endsWith('.ics')) && file !== '.Radicale.props')
 			const existingVCardIds = existingVCardIdsByBookId.get(book.id) || new Set<string>()
-			const usernames = Array.from(usersByBookId.get(book.id) || [])
 
 			for (const fileName of masterVCardFiles) {
 				const filePath = path.join(masterPath, fileName)
@@ -214,41 +310,77 @@ export async function syncDbToRadicale(): Promise<void> {
 				const vcardId = extractVCardId(filePath, vcardContent)
 				if (vcardId && !existingVCardIds.has(vcardId)) {
 					logger.info({ bookId: book.id, vcardId }, 'Deleting orphaned vCard file')
-					await deleteVCardFile(book, vcardId, usernames)
+					await deleteVCardFile(book, vcardId)
 				}
 			}
 		}
 
-		// Copy master to read-only subscription dirs (ro-{book_id}/{book_id}) for books with readonly enabled
-		const readonlyRows = await getAllAddressBookReadonly()
-		for (const row of readonlyRows) {
-			const book = bookById.get(row.address_book_id)
-			if (!book) continue
-			const masterPath = getAddressBookPath(book.id)
-			if (!fs.existsSync(masterPath)) continue
-			const roUsername = `ro-${book.id}`
-			const roPath = path.join(RADICALE_STORAGE_PATH, 'collection-root', roUsername, book.id)
-			ensureDirectoryExists(roPath)
-			ensureAddressBookProps(roPath, book)
-			const masterFiles = fs.readdirSync(masterPath)
-			for (const file of masterFiles) {
-				if (!file.endsWith('.vcf') && !file.endsWith('.ics')) continue
-				if (file === '.Radicale.props') continue
-				const src = path.join(masterPath, file)
-				const dest = path.join(roPath, file)
-				try {
-					fs.copyFileSync(src, dest)
-				} catch (err) {
-					logger.warn({ err, file, bookName: book.name }, 'Failed to copy to read-only dir')
-				}
-			}
+		await linkReadonlyCollections(bookById)
+
+		// Smart groups are re-evaluated on every run, including runs where no contact changed.
+		await syncSmartGroupsToRadicale()
+
+		return logCounts(counts)
+	} catch (error) {
+		logger.error({ err: error }, 'Error syncing DB to Radicale')
+		throw error
+	}
+}
+
+/**
+ * Push just the given contacts, as reported by the contact_changed
+ * notification (35_contact_change_notify.sql). Writes each live contact's card
+ * and removes it from books it has left; the card of a trashed or deleted
+ * contact is removed everywhere. Smart groups, contact groups, the orphan cleanup and linking
+ * collections are left to the interval pass.
+ */
+export async function syncContactsToRadicale(contactIds: Array<string>): Promise<SyncCounts> {
+	try {
+		const contacts = await getContactsByIds(contactIds)
+		const { books, defaultBook, hasAddressBooks } = await getAddressBooksForSync()
+		const bookById = new Map(books.map(book => [book.id, book]))
+		const live = contacts.filter(contact => contact.vcard_id && !contact.deleted_at)
+
+		const existingVCardIdsByBookId = new Map<string, Set<string>>()
+		for (const book of books) {
+			existingVCardIdsByBookId.set(book.id, new Set<string>())
+		}
+		const context: PushContext = {
+			books,
+			bookById,
+			defaultBook,
+			hasAddressBooks,
+			bookIdsByContactId: groupBookIdsByContactId(
+				live.length > 0 ? await getContactAddressBookEntries(live.map(contact => contact.id)) : []
+			),
+			existingVCardIdsByBookId,
+		}
+		const counts: SyncCounts = { synced: 0, skipped: 0, conflicts: 0 }
+
+		for (const contact of live) {
+			await pushContact(contact, context, counts)
 		}
 
-		if (synced > 0 || skipped > 0 || conflicts > 0) {
-			logger.info({ synced, skipped, conflicts }, 'Synced contacts to Radicale')
+		// Contacts deleted outright have no row left; the change log still has
+		// their vcard_id. A live contact may carry that UID by now (a re-import
+		// or a card pulled back from Radicale), and its card must stay.
+		const foundIds = new Set(contacts.map(contact => contact.id))
+		const deletedVCardIds = [...(await getLoggedVcardIds(contactIds.filter(id => !foundIds.has(id)))).values()]
+		const reusedVCardIds = await getLiveVcardIds(deletedVCardIds)
+		const vcardIds = [...contacts.map(contact => contact.vcard_id), ...deletedVCardIds.filter(vcardId => !reusedVCardIds.has(vcardId))]
+		for (const vcardId of vcardIds) {
+			if (!vcardId) continue
+			for (const book of books) {
+				if (context.existingVCardIdsByBookId.get(book.id)?.has(vcardId)) continue
+				if (!fs.existsSync(path.join(getAddressBookPath(book.id), `${vcardId}.vcf`))) continue
+				logger.info({ bookId: book.id, vcardId }, 'Removing vCard file of a contact no longer in this book')
+				await deleteVCardFile(book, vcardId)
+			}
 		}
+
+		return logCounts(counts)
 	} catch (error) {
-		logger.error({ err: error }, 'Error syncing DB to Radicale')
+		logger.error({ err: error, contactIds }, 'Error syncing changed contacts to Radicale')
 		throw error
 	}
 }
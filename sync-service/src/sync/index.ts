@@ -1,4 +1,7 @@
 export { syncDbToRadicale } from './db-to-radicale'
+export { startListeningForContactChanges } from './db-listener'
 export { syncRadicaleToDb } from './radicale-to-db'
 export { startWatchingRadicale } from './watcher'
-export { startPeriodicSync } from './scheduler'
+export { startPeriodicSync, startManualSync, getManualSyncJob } from './scheduler'
+export type { ManualSyncDirection, ManualSyncJob } from './scheduler'
+export { trackSyncRun, getSyncStatus, formatPrometheusMetrics } from './stats'
@@ -1,7 +1,8 @@
 import * as fs from 'fs'
 import * as path from 'path'
 import { AddressBook } from '../db'
-import { getUsers, getCompositeUsername, isCompositeUsername, parseCompositeUsername } from '../htpasswd'
+import { getCompositeUsername, isCompositeUsername, parseCompositeUsername } from '../htpasswd'
+import { linkBookCollection } from '../collection-links'
 import { atomicWriteFileSync } from '../fs-utils'
 import { logger } from '../logger'
 import { RADICALE_STORAGE_PATH, getErrorCode } from './constants'
@@ -92,76 +93,28 @@ export function extractVCardId(filePath: string, vcardContent: string): string |
 	return fileName
 }
 
+/** A card file Radicale stores in a collection, as opposed to its .Radicale.* metadata. */
+export function isVCardFile(filePath: string): boolean {
+	const fileName = path.basename(filePath)
+	return (fileName.endsWith('.vcf') || fileName.endsWith('.ics')) && !fileName.startsWith('.')
+}
+
 /**
- * Get all vCard files from Radicale storage
- * Checks both the master directory and all user directories
+ * Get all vCard files from Radicale storage. Every user collection links to
+ * its book's master (linkUserCollections), so the masters hold every card.
  */
 export async function getVCardFiles(): Promise<Array<string>> {
 	const files: Array<string> = []
-	const { books, hasAddressBooks } = await getAddressBooksForSync()
+	const { books } = await getAddressBooksForSync()
 
-	// Check master directories first
 	for (const book of books) {
 		const masterPath = getAddressBookPath(book.id)
 		if (fs.existsSync(masterPath)) {
 			const masterFiles = fs.readdirSync(masterPath)
-			masterFiles
-				.filter(file => (file.endsWith('.vcf') || file.endsWith('.ics')) && file !== '.Radicale.props')
-				.forEach(file => files.push(path.join(masterPath, file)))
+			masterFiles.filter(isVCardFile).forEach(file => files.push(path.join(masterPath, file)))
 		}
 	}
 
-	// Check user directories (where clients might create contacts)
-	try {
-		const users = await getUsers()
-		for (const user of users) {
-			// Skip ro-* users (read-only subscriptions)
-			if (user.username.startsWith('ro-')) continue
-
-			if (hasAddressBooks) {
-				// For composite usernames, the path already includes the bookId
-				if (isCompositeUsername(user.username)) {
-					const userPath = getAddressBookPathForUser(user.username, '') // bookId not needed for composite
-					if (fs.existsSync(userPath)) {
-						const userFiles = fs.readdirSync(userPath)
-						userFiles
-							.filter(file => (file.endsWith('.vcf') || file.endsWith('.ics')) && file !== '.Radicale.props')
-							.forEach(file => files.push(path.join(userPath, file)))
-					}
-				} else {
-					// Base username: check all assigned books
-					const { getExplicitAddressBookIdsForUser } = await import('../db')
-					const assignedBookIds = await getExplicitAddressBookIdsForUser(user.username)
-					for (const book of books) {
-						if (book.is_public || assignedBookIds.includes(book.id)) {
-							const compositeUsername = getCompositeUsername(user.username, book.id)
-							const userPath = getAddressBookPathForUser(compositeUsername, '')
-							if (fs.existsSync(userPath)) {
-								const userFiles = fs.readdirSync(userPath)
-								userFiles
-									.filter(file => (file.endsWith('.vcf') || file.endsWith('.ics')) && file !== '.Radicale.props')
-									.forEach(file => files.push(path.join(userPath, file)))
-							}
-						}
-					}
-				}
-			} else {
-				// No address books: use regular username
-				for (const book of books) {
-					const userPath = getAddressBookPathForUser(user.username, book.id)
-					if (fs.existsSync(userPath)) {
-						const userFiles = fs.readdirSync(userPath)
-						userFiles
-							.filter(file => (file.endsWith('.vcf') || file.endsWith('.ics')) && file !== '.Radicale.props')
-							.forEach(file => files.push(path.join(userPath, file)))
-					}
-				}
-			}
-		}
-	} catch (error) {
-		logger.error({ err: error }, 'Error reading user directories')
-	}
-
 	return files
 }
 
@@ -182,54 +135,41 @@ export function readVCardFile(filePath: string): string | null {
 }
 
 /**
- * Write a vCard file to Radicale storage
- * Writes to both the master location and each user's directory
+ * Point each user's collection for the book at the book's master collection,
+ * so clients of every user read and write the same card files.
  */
-export async function writeVCardFile(book: AddressBook, vcardId: string, vcardData: string, usernames: Array<string>): Promise<void> {
+export async function linkUserCollections(book: AddressBook, usernames: Array<string>): Promise<void> {
 	const masterPath = getAddressBookPath(book.id)
 	ensureDirectoryExists(masterPath)
 	ensureAddressBookProps(masterPath, book)
-	const masterFilePath = path.join(masterPath, `${vcardId}.vcf`)
-	atomicWriteFileSync(masterFilePath, vcardData, 'utf-8')
 
-	try {
-		for (const username of usernames) {
-			// For composite usernames, book.id is already in the username, so pass empty string
-			// getAddressBookPathForUser will detect composite and use it directly
-			const userPath = getAddressBookPathForUser(username, book.id)
-			ensureDirectoryExists(userPath)
-			ensureAddressBookProps(userPath, book)
-			const userFilePath = path.join(userPath, `${vcardId}.vcf`)
-			atomicWriteFileSync(userFilePath, vcardData, 'utf-8')
+	for (const username of usernames) {
+		try {
+			await linkBookCollection(getAddressBookPathForUser(username, book.id), masterPath)
+		} catch (error) {
+			logger.error({ err: error, username, bookId: book.id }, 'Error linking user collection')
 		}
-	} catch (error) {
-		logger.error({ err: error }, 'Error writing to user directories')
 	}
 }
 
 /**
- * Delete a vCard file from Radicale storage
- * Deletes from both the master location and each user's directory
+ * Write a vCard file to the book's master collection
  */
-export async function deleteVCardFile(book: AddressBook, vcardId: string, usernames: Array<string>): Promise<void> {
+export async function writeVCardFile(book: AddressBook, vcardId: string, vcardData: string): Promise<void> {
 	const masterPath = getAddressBookPath(book.id)
-	const masterFilePath = path.join(masterPath, `${vcardId}.vcf`)
+	ensureDirectoryExists(masterPath)
+	ensureAddressBookProps(masterPath, book)
+	atomicWriteFileSync(path.join(masterPath, `${vcardId}.vcf`), vcardData, 'utf-8')
+}
+
+/**
+ * Delete a vCard file from the book's master collection
+ */
+export async function deleteVCardFile(book: AddressBook, vcardId: string): Promise<void> {
+	const masterFilePath = path.join(getAddressBookPath(book.id), `${vcardId}.vcf`)
 	if (fs.existsSync(masterFilePath)) {
 		fs.unlinkSync(masterFilePath)
 	}
-
-	try {
-		for (const username of usernames) {
-			// For composite usernames, book.id is already in the username
-			const userPath = getAddressBookPathForUser(username, book.id)
-			const userFilePath = path.join(userPath, `${vcardId}.vcf`)
-			if (fs.existsSync(userFilePath)) {
-				fs.unlinkSync(userFilePath)
-			}
-		}
-	} catch (error) {
-		logger.error({ err: error }, 'Error deleting from user directories')
-	}
 }
 
 /**
@@ -0,0 +1,129 @@
+/**
+ * Timing benchmark for the watcher's per-file sync, left out of the unit run
+ * because wall-clock comparisons are unreliable on a busy machine.
+ *
+ * Run with: npm run test:benchmark
+ */
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const storage = vi.hoisted(() => ({ path: '' }))
+
+vi.mock('./constants', () => ({
+	get RADICALE_STORAGE_PATH() {
+		return storage.path
+	},
+	getErrorCode: (error: unknown) => (error as NodeJS.ErrnoException).code,
+}))
+
+vi.mock('../logger', () => ({
+	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('../htpasswd', () => ({
+	getUsers: vi.fn().mockResolvedValue([]),
+	getCompositeUsername: (username: string, bookId: string) => `${username}-${bookId}`,
+	isCompositeUsername: () => false,
+	parseCompositeUsername: () => null,
+}))
+
+vi.mock('../history', () => ({ recordHistory: vi.fn() }))
+
+vi.mock('./address-books', () => ({
+	getAddressBooksForSync: vi.fn(),
+}))
+
+vi.mock('../db', () => ({
+	getAllContacts: vi.fn(),
+	getExplicitAddressBookIdsForUser: vi.fn().mockResolvedValue([]),
+	getContactsByVcardIds: vi.fn(),
+	getContactAddressBookEntries: vi.fn(),
+	getContactGroups: vi.fn().mockResolvedValue([]),
+	saveContactGroupFromRadicale: vi.fn(),
+	deleteContactGroup: vi.fn(),
+	updateContact: vi.fn(),
+	updateSyncMetadata: vi.fn(),
+	setSyncBase: vi.fn(),
+	setContactAddressBooks: vi.fn(),
+	deleteContact: vi.fn(),
+}))
+
+import { getAllContacts, getContactAddressBookEntries, getContactsByVcardIds, updateContact } from '../db'
+import { getAddressBooksForSync } from './address-books'
+import { calculateVCardHash } from './conflict'
+import { getAddressBookPath } from './radicale-fs'
+import { syncRadicaleFilesToDb, syncRadicaleToDb } from './radicale-to-db'
+import type { AddressBook, Contact } from '../db'
+
+const BOOK = { id: 'book-1', name: 'Family', slug: 'family', is_public: true } as AddressBook
+const CONTACT_COUNT = 10_000
+
+function card(uid: string, name: string): string {
+	return ['BEGIN:VCARD', 'VERSION:3.0', `UID:${uid}`, `FN:${name}`, `EMAIL:${uid}@example.com`, 'END:VCARD'].join('\r\n')
+}
+
+const uid = (index: number) => `contact-${index}`
+const cardPath = (vcardId: string) => path.join(getAddressBookPath(BOOK.id), `${vcardId}.vcf`)
+
+// Every card is already in the DB and synced after the files were written.
+const contacts = new Map<string, Contact>()
+
+beforeAll(() => {
+	storage.path = fs.mkdtempSync(path.join(os.tmpdir(), 'radicale-to-db-'))
+	fs.mkdirSync(getAddressBookPath(BOOK.id), { recursive: true })
+	const syncedAt = new Date(Date.now() + 60 * 60 * 1000)
+	for (let index = 0; index < CONTACT_COUNT; index++) {
+		const content = card(uid(index), `Contact ${index}`)
+		fs.writeFileSync(cardPath(uid(index)), content)
+		contacts.set(uid(index), {
+			id: `id-${index}`,
+			vcard_id: uid(index),
+			full_name: `Contact ${index}`,
+			vcard_hash: calculateVCardHash(content),
+			last_synced_from_radicale_at: syncedAt,
+			updated_at: new Date(0),
+			sync_source: 'radicale',
+		} as Contact)
+	}
+})
+
+afterAll(() => {
+	fs.rmSync(storage.path, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+	vi.clearAllMocks()
+	vi.mocked(getAddressBooksForSync).mockResolvedValue({ books: [BOOK], defaultBook: BOOK, hasAddressBooks: true })
+	vi.mocked(getAllContacts).mockImplementation(async () => Array.from(contacts.values()))
+	vi.mocked(getContactsByVcardIds).mockImplementation(async vcardIds => vcardIds.flatMap(id => contacts.get(id) ?? []))
+	vi.mocked(getContactAddressBookEntries).mockImplementation(async contactIds =>
+		(contactIds ?? Array.from(contacts.values(), contact => contact.id)).map(contact_id => ({ contact_id, address_book_id: BOOK.id }))
+	)
+	vi.mocked(updateContact).mockImplementation(async (id, input) => ({ ...(input as Contact), id }))
+})
+
+describe('syncRadicaleFilesToDb', () => {
+	it(`imports one edited card out of ${CONTACT_COUNT} far faster than a full scan`, async () => {
+		fs.writeFileSync(cardPath(uid(1)), card(uid(1), 'Edited in full scan'))
+		let started = performance.now()
+		const full = await syncRadicaleToDb(true)
+		const fullMs = performance.now() - started
+
+		fs.writeFileSync(cardPath(uid(2)), card(uid(2), 'Edited on a phone'))
+		started = performance.now()
+		const incremental = await syncRadicaleFilesToDb([cardPath(uid(2))])
+		const incrementalMs = performance.now() - started
+
+		expect(full).toEqual({ synced: 1, skipped: CONTACT_COUNT - 1, conflicts: 0 })
+		expect(incremental).toEqual({ synced: 1, skipped: 0, conflicts: 0 })
+		expect(getContactsByVcardIds).toHaveBeenCalledWith([uid(2)])
+		expect(getContactAddressBookEntries).toHaveBeenLastCalledWith(['id-2'])
+		expect(vi.mocked(updateContact).mock.calls.map(([id, input]) => [id, input.full_name])).toEqual([
+			['id-1', 'Edited in full scan'],
+			['id-2', 'Edited on a phone'],
+		])
+		expect(incrementalMs).toBeLessThan(fullMs / 20)
+	}, 120_000)
+})
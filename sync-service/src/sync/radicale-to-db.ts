@@ -1,6 +1,4 @@
 import * as fs from 'fs'
-import * as path from 'path'
-import * as crypto from 'crypto'
 import {
 	AddressBook,
 	Contact,
@@ -9,63 +7,313 @@ import {
 	getAllContacts,
 	getContactAddressBookEntries,
 	getContactByVcardIdIncludingDeleted,
+	getContactsByVcardIds,
+	getSyncBase,
+	recordSyncConflict,
 	restoreContact,
+	setSyncBase,
 	setContactAddressBooks,
 	updateContact,
 	updateSyncMetadata,
 } from '../db'
-import { parseVCard } from '../vcard'
+import { isGroupVCard, parseVCard } from '../vcard'
 import { getUsers, getCompositeUsername, isCompositeUsername, parseCompositeUsername } from '../htpasswd'
-import { atomicWriteFileSync } from '../fs-utils'
 import { recordHistory } from '../history'
 import { logger } from '../logger'
 import { getAddressBooksForSync } from './address-books'
-import { calculateVCardHash, detectConflict, resolveConflict } from './conflict'
+import { importContactGroupCards } from './contact-groups'
+import type { GroupCardFile } from './contact-groups'
+import { calculateVCardHash, detectConflict, diffVCards, mergeVCards, resolveConflict } from './conflict'
+import { contactDataFromVCard, contactVCard } from './vcard-contact'
+import type { SyncCounts } from './stats'
 import {
-	getAddressBookPath,
 	getVCardFiles,
+	isVCardFile,
 	readVCardFile,
 	extractVCardId,
 	extractBookPathSegmentFromPath,
 	getFileModificationTime,
-	ensureDirectoryExists,
-	ensureAddressBookProps,
 } from './radicale-fs'
 
-// Cap inbound photo size so a hostile or oversized vCard PHOTO cannot OOM the
-// process. Oversize photos are skipped (the rest of the contact still syncs).
-const MAX_PHOTO_BYTES = 10 * 1024 * 1024 // 10 MB
+/** The newest file of one card in one book's master collection. */
+interface RadicaleFile {
+	book: AddressBook
+	vcardId: string
+	filePath: string
+	fileMtime: Date | null
+	vcardContent: string
+	isGroup: boolean
+}
+
+/** DB state a pass needs for the cards it imports, kept up to date as it goes. */
+interface ImportContext {
+	bookById: Map<string, AddressBook>
+	hasAddressBooks: boolean
+	contactsByVcardId: Map<string, Contact>
+	bookIdsByContactId: Map<string, Set<string>>
+}
+
+interface ImportCounts {
+	created: number
+	updated: number
+	skipped: number
+	conflicts: number
+}
+
+async function loadBooks(): Promise<{
+	books: Array<AddressBook>
+	hasAddressBooks: boolean
+	bookById: Map<string, AddressBook>
+	bookForPath: (filePath: string) => AddressBook | null
+}> {
+	const { books, defaultBook, hasAddressBooks } = await getAddressBooksForSync()
+	const bookBySlug = new Map(books.map(book => [book.slug, book]))
+	const bookById = new Map(books.map(book => [book.id, book]))
+	const bookForPath = (filePath: string) => {
+		const pathSegment = extractBookPathSegmentFromPath(filePath)
+		return (
+			(pathSegment && bookById.get(pathSegment)) ||
+			(pathSegment && bookBySlug.get(pathSegment)) ||
+			(pathSegment === 'shared-contacts' ? defaultBook : null)
+		)
+	}
+	return { books, hasAddressBooks, bookById, bookForPath }
+}
+
+/** Read and parse the files, keeping the most recently modified copy of each card per book. */
+function readRadicaleFiles(filePaths: Array<string>, bookForPath: (filePath: string) => AddressBook | null): Map<string, RadicaleFile> {
+	const latestFiles = new Map<string, RadicaleFile>()
+
+	for (const filePath of filePaths) {
+		const vcardContent = readVCardFile(filePath)
+		if (!vcardContent) continue
+
+		const vcardData = parseVCard(vcardContent)
+		const vcardId = vcardData.uid || extractVCardId(filePath, vcardContent)
+		if (!vcardId) {
+			logger.warn({ filePath }, 'Could not extract vCard ID, skipping')
+			continue
+		}
+
+		const book = bookForPath(filePath)
+		if (!book) {
+			logger.warn({ filePath }, 'Unknown address book, skipping')
+			continue
+		}
+
+		const fileMtime = getFileModificationTime(filePath)
+		const key = `${book.id}:${vcardId}`
+		const existing = latestFiles.get(key)
+		if (!existing || (fileMtime && existing.fileMtime && fileMtime > existing.fileMtime) || (fileMtime && !existing.fileMtime)) {
+			latestFiles.set(key, { book, vcardId, filePath, fileMtime, vcardContent, isGroup: isGroupVCard(vcardData) })
+		}
+	}
+
+	return latestFiles
+}
+
+function groupBookIdsByContactId(entries: Array<{ contact_id: string; address_book_id: string }>): Map<string, Set<string>> {
+	const bookIdsByContactId = new Map<string, Set<string>>()
+	for (const entry of entries) {
+		const existing = bookIdsByContactId.get(entry.contact_id) || new Set<string>()
+		existing.add(entry.address_book_id)
+		bookIdsByContactId.set(entry.contact_id, existing)
+	}
+	return bookIdsByContactId
+}
+
+/** Import one contact card into the DB, unless it is unchanged since the last sync. */
+async function importContactFile(file: RadicaleFile, context: ImportContext, counts: ImportCounts): Promise<void> {
+	const { book, vcardId, fileMtime, vcardContent } = file
+	const vcardHash = calculateVCardHash(vcardContent)
+	// What gets stored: the Radicale card, or a merge of it with DB edits.
+	let importContent = vcardContent
+	let collisionCount: number | null = null
+	const existingContact = context.contactsByVcardId.get(vcardId)
+
+	// Check if we need to sync this file
+	if (existingContact) {
+		// Check if file hasn't changed since last sync
+		if (fileMtime && existingContact.last_synced_from_radicale_at) {
+			if (fileMtime <= existingContact.last_synced_from_radicale_at && existingContact.vcard_hash === vcardHash) {
+				// File hasn't changed, skip
+				counts.skipped++
+				return
+			}
+		}
+
+		// Check for conflict: both sides changed
+		if (
+			fileMtime &&
+			existingContact.last_synced_from_radicale_at &&
+			existingContact.updated_at > existingContact.last_synced_from_radicale_at &&
+			existingContact.vcard_hash !== null &&
+			existingContact.vcard_hash !== vcardHash
+		) {
+			const conflict = detectConflict(existingContact, fileMtime, vcardHash, 'radicale-to-db')
+			if (conflict.hasConflict) {
+				counts.conflicts++
+				const resolution = resolveConflict(conflict)
+				const dbVCard = existingContact.vcard_data ? await contactVCard(existingContact) : null
+				const base = dbVCard ? await getSyncBase(existingContact.id) : null
+				const merged = base && dbVCard ? mergeVCards(base, dbVCard, vcardContent, resolution) : null
+				const collisions = merged ? merged.collisions : dbVCard ? diffVCards(dbVCard, vcardContent, resolution) : []
+				if (collisions.length > 0) {
+					await recordSyncConflict(existingContact.id, collisions, {
+						db: existingContact,
+						radicale: contactDataFromVCard(vcardId, vcardContent, fileMtime),
+					})
+				}
+				if (merged) {
+					// Keep both sides' edits; the DB → Radicale pass writes the result back.
+					importContent = merged.vcard
+					collisionCount = merged.collisions.length
+					logger.info({ vcardId, collisions: merged.collisions.length }, 'Conflict detected: merged DB and Radicale changes')
+				} else if (resolution === 'db') {
+					// DB version wins, skip updating from Radicale
+					logger.info({ vcardId }, 'Conflict detected: DB version is newer, skipping Radicale update')
+					// Update metadata to reflect we saw the Radicale file
+					await updateSyncMetadata(existingContact.id, {
+						last_synced_from_radicale_at: new Date(),
+						radicale_file_mtime: fileMtime,
+					})
+					counts.skipped++
+					return
+				} else {
+					// Radicale version wins, continue to update
+					logger.info({ vcardId }, 'Conflict detected: Radicale version is newer, updating DB')
+				}
+			}
+		}
+	}
+
+	const contactData = contactDataFromVCard(vcardId, importContent, fileMtime)
+
+	if (existingContact) {
+		const wasMerged = collisionCount !== null
+		const updatedContact = await updateContact(existingContact.id, contactData)
+		context.contactsByVcardId.set(vcardId, updatedContact)
+		await updateSyncMetadata(existingContact.id, {
+			last_synced_from_radicale_at: new Date(),
+			vcard_hash: vcardHash,
+			radicale_file_mtime: fileMtime,
+			// A merged card still has to go back to Radicale, which becomes the new base.
+			sync_source: wasMerged ? 'db' : 'radicale',
+		})
+		if (!wasMerged) {
+			await setSyncBase(existingContact.id, vcardContent)
+		}
+		const summaryVerb = wasMerged ? 'Merged CardDAV changes into' : 'Updated via CardDAV:'
+		await recordHistory({
+			contactId: existingContact.id,
+			operation: 'update',
+			source: 'carddav',
+			actor: null,
+			actorType: 'carddav-client',
+			summary: `${summaryVerb} ${updatedContact.full_name || updatedContact.email || 'contact'}`,
+			previousState: existingContact,
+			newState: updatedContact,
+			metadata: {
+				bookId: book.id,
+				vcardId,
+				fileMtime: fileMtime?.toISOString(),
+				...(wasMerged ? { merged: true, collisions: collisionCount } : {}),
+			},
+		})
+		counts.updated++
+	} else {
+		try {
+			const newContact = await createContact(contactData)
+			context.contactsByVcardId.set(vcardId, newContact)
+			// Update sync metadata for new contact
+			await updateSyncMetadata(newContact.id, {
+				last_synced_from_radicale_at: new Date(),
+				vcard_hash: vcardHash,
+				radicale_file_mtime: fileMtime,
+				sync_source: 'radicale',
+			})
+			await setSyncBase(newContact.id, vcardContent)
+
+			await recordHistory({
+				contactId: newContact.id,
+				operation: 'create',
+				source: 'carddav',
+				actor: null,
+				actorType: 'carddav-client',
+				summary: `Created via CardDAV: ${newContact.full_name || newContact.email || 'contact'}`,
+				newState: newContact,
+				metadata: { bookId: book.id, vcardId, fileMtime: fileMtime?.toISOString() },
+			})
+
+			counts.created++
+		} catch (error) {
+			const errorCode = (error as { code?: string }).code
+			const constraint = (error as { constraint?: string }).constraint
+			if (errorCode === '23505' && constraint === 'contacts_vcard_id_key') {
+				// The vcard_id already exists — could be a soft-deleted row or a
+				// race condition.  Search including soft-deleted rows so we can
+				// restore and update instead of crashing.
+				const duplicateContact = await getContactByVcardIdIncludingDeleted(vcardId)
+				if (duplicateContact) {
+					if (duplicateContact.deleted_at) {
+						await restoreContact(duplicateContact.id)
+						logger.info({ vcardId }, 'Restored soft-deleted contact during sync')
+					}
+					const updatedContact = await updateContact(duplicateContact.id, contactData)
+					context.contactsByVcardId.set(vcardId, updatedContact)
+					await updateSyncMetadata(duplicateContact.id, {
+						last_synced_from_radicale_at: new Date(),
+						vcard_hash: vcardHash,
+						radicale_file_mtime: fileMtime,
+						sync_source: 'radicale',
+					})
+					await setSyncBase(duplicateContact.id, vcardContent)
+					counts.updated++
+					return
+				}
+			}
+			throw error
+		}
+	}
+
+	const contactId = existingContact?.id || context.contactsByVcardId.get(vcardId)?.id
+	if (contactId && context.hasAddressBooks) {
+		const currentBookIds = context.bookIdsByContactId.get(contactId) || new Set<string>()
+		if (!currentBookIds.has(book.id)) {
+			currentBookIds.add(book.id)
+			await setContactAddressBooks(contactId, Array.from(currentBookIds))
+			context.bookIdsByContactId.set(contactId, currentBookIds)
+		}
+	}
+}
+
+function logCounts({ created, updated, skipped, conflicts }: ImportCounts): SyncCounts {
+	if (created > 0 || updated > 0 || skipped > 0 || conflicts > 0) {
+		logger.info({ created, updated, skipped, conflicts }, 'Synced Radicale to DB')
+	}
+	return { synced: created + updated, skipped, conflicts }
+}
 
 /**
  * Sync from Radicale to PostgreSQL
  * Only syncs files that have changed since last sync to prevent loops
  * @param silent If true, suppresses the initial "Syncing..." log message
  */
-export async function syncRadicaleToDb(silent: boolean = false): Promise<void> {
+export async function syncRadicaleToDb(silent: boolean = false): Promise<SyncCounts> {
 	if (!silent) {
 		logger.info('Syncing Radicale → PostgreSQL...')
 	}
 
 	try {
 		const vcardFiles = await getVCardFiles()
-		const { books, defaultBook, hasAddressBooks } = await getAddressBooksForSync()
-		const bookBySlug = new Map(books.map(book => [book.slug, book]))
-		const bookById = new Map(books.map(book => [book.id, book]))
+		const { books, hasAddressBooks, bookById, bookForPath } = await loadBooks()
 
 		const dbContacts = await getAllContacts()
-		const dbContactsByVcardId = new Map<string, Contact>()
-		for (const contact of dbContacts) {
-			if (contact.vcard_id) {
-				dbContactsByVcardId.set(contact.vcard_id, contact)
-			}
-		}
-
-		const contactBookEntries = await getContactAddressBookEntries()
-		const contactBookIdsByContactId = new Map<string, Set<string>>()
-		for (const entry of contactBookEntries) {
-			const existing = contactBookIdsByContactId.get(entry.contact_id) || new Set<string>()
-			existing.add(entry.address_book_id)
-			contactBookIdsByContactId.set(entry.contact_id, existing)
+		const context: ImportContext = {
+			bookById,
+			hasAddressBooks,
+			contactsByVcardId: new Map(dbContacts.filter(contact => contact.vcard_id).map(contact => [contact.vcard_id as string, contact])),
+			bookIdsByContactId: groupBookIdsByContactId(await getContactAddressBookEntries()),
 		}
 
 		const users = await getUsers()
@@ -132,343 +380,27 @@ export async function syncRadicaleToDb(silent: boolean = false): Promise<void> {
 			radicaleVCardIdsByBookId.set(book.id, new Set<string>())
 		}
 
-		const latestFiles = new Map<
-			string,
-			{
-				book: AddressBook
-				vcardId: string
-				filePath: string
-				fileMtime: Date | null
-				vcardContent: string
-			}
-		>()
-
-		for (const filePath of vcardFiles) {
-			const vcardContent = readVCardFile(filePath)
-			if (!vcardContent) continue
-
-			const vcardData = parseVCard(vcardContent)
-			const vcardId = vcardData.uid || extractVCardId(filePath, vcardContent)
-			if (!vcardId) {
-				logger.warn({ filePath }, 'Could not extract vCard ID, skipping')
-				continue
-			}
+		const counts: ImportCounts = { created: 0, updated: 0, skipped: 0, conflicts: 0 }
+		// Group cards are imported after the contacts, so members created in this run resolve.
+		const groupFiles: Array<GroupCardFile> = []
 
-			const pathSegment = extractBookPathSegmentFromPath(filePath)
-			const book =
-				(pathSegment && bookById.get(pathSegment)) ||
-				(pathSegment && bookBySlug.get(pathSegment)) ||
-				(pathSegment === 'shared-contacts' ? defaultBook : null)
-			if (!book) {
-				logger.warn({ filePath }, 'Unknown address book, skipping')
+		for (const file of readRadicaleFiles(vcardFiles, bookForPath).values()) {
+			if (file.isGroup) {
+				groupFiles.push(file)
 				continue
 			}
-
-			const fileMtime = getFileModificationTime(filePath)
-			const key = `${book.id}:${vcardId}`
-			const existing = latestFiles.get(key)
-			if (!existing || (fileMtime && existing.fileMtime && fileMtime > existing.fileMtime) || (fileMtime && !existing.fileMtime)) {
-				latestFiles.set(key, { book, vcardId, filePath, fileMtime, vcardContent })
-			}
-		}
-
-		let created = 0
-		let updated = 0
-		let skipped = 0
-		let conflicts = 0
-
-		const extractUsernameFromPath = (filePath: string): { username: string | null; isMaster: boolean } => {
-			const parts = filePath.split(path.sep).filter(Boolean)
-			const rootIndex = parts.lastIndexOf('collection-root')
-			if (rootIndex === -1 || rootIndex + 1 >= parts.length) return { username: null, isMaster: true }
-			const first = parts[rootIndex + 1]
-			const isMaster = bookById.has(first)
-			if (isMaster) return { username: null, isMaster: true }
-			const parsed = parseCompositeUsername(first)
-			return { username: parsed ? parsed.username : first, isMaster: false }
+			radicaleVCardIdsByBookId.get(file.book.id)?.add(file.vcardId)
+			await importContactFile(file, context, counts)
 		}
 
-		for (const { book, vcardId, filePath, fileMtime, vcardContent } of latestFiles.values()) {
-			const vcardData = parseVCard(vcardContent)
-			const vcardHash = calculateVCardHash(vcardContent)
-			radicaleVCardIdsByBookId.get(book.id)?.add(vcardId)
-			const existingContact = dbContactsByVcardId.get(vcardId)
-
-			// Check if we need to sync this file
-			if (existingContact) {
-				// Check if file hasn't changed since last sync
-				if (fileMtime && existingContact.last_synced_from_radicale_at) {
-					if (fileMtime <= existingContact.last_synced_from_radicale_at && existingContact.vcard_hash === vcardHash) {
-						// File hasn't changed, skip
-						skipped++
-						continue
-					}
-				}
-
-				// Check for conflict: both sides changed
-				if (
-					fileMtime &&
-					existingContact.last_synced_from_radicale_at &&
-					existingContact.updated_at > existingContact.last_synced_from_radicale_at &&
-					existingContact.vcard_hash !== null &&
-					existingContact.vcard_hash !== vcardHash
-				) {
-					const conflict = detectConflict(existingContact, fileMtime, vcardHash, 'radicale-to-db')
-					if (conflict.hasConflict) {
-						conflicts++
-						const resolution = resolveConflict(conflict)
-						if (resolution === 'db') {
-							// DB version wins, skip updating from Radicale
-							logger.info({ vcardId }, 'Conflict detected: DB version is newer, skipping Radicale update')
-							// Update metadata to reflect we saw the Radicale file
-							await updateSyncMetadata(existingContact.id, {
-								last_synced_from_radicale_at: new Date(),
-								radicale_file_mtime: fileMtime,
-							})
-							skipped++
-							continue
-						}
-						// Radicale version wins, continue to update
-						logger.info({ vcardId }, 'Conflict detected: Radicale version is newer, updating DB')
-					}
-				}
-			}
-
-			// Parse name
-			const nameParts = vcardData.n ? vcardData.n.split(';') : []
-			const firstName = nameParts[1] || ''
-			const lastName = nameParts[0] || ''
-			const middleName = nameParts[2] || ''
-			const namePrefix = nameParts[3] || ''
-			const nameSuffix = nameParts[4] || ''
-			const fullName = vcardData.fn || `${firstName} ${middleName} ${lastName}`.trim() || 'Unknown'
-
-			// Parse birthday (BDAY format: YYYYMMDD or YYYY-MM-DD) into a date-only
-			// "YYYY-MM-DD" string. We avoid constructing a JS Date so the value is
-			// never subject to a timezone off-by-one shift.
-			let birthday: string | null = null
-			if (vcardData.bday) {
-				const bdayStr = vcardData.bday.replace(/-/g, '')
-				if (bdayStr.length >= 8) {
-					const year = bdayStr.substring(0, 4)
-					const month = bdayStr.substring(4, 6)
-					const day = bdayStr.substring(6, 8)
-					if (/^\d{4}$/.test(year) && /^\d{2}$/.test(month) && /^\d{2}$/.test(day)) {
-						birthday = `${year}-${month}-${day}`
-					}
-				}
-			}
-
-			// Extract maiden name from notes if present
-			let maidenName: string | null = null
-			let notes = vcardData.note || null
-			if (notes) {
-				const maidenMatch = notes.match(/Maiden name:\s*(.+)/i)
-				if (maidenMatch) {
-					maidenName = maidenMatch[1].trim()
-					// Remove maiden name from notes
-					notes = notes.replace(/Maiden name:\s*.+/i, '').trim() || null
-				}
-			}
-
-			// Convert vCard arrays to Contact arrays
-			const phones =
-				vcardData.tels && vcardData.tels.length > 0 ? vcardData.tels : vcardData.tel ? [{ value: vcardData.tel, type: 'CELL' }] : []
-
-			const emails =
-				vcardData.emails && vcardData.emails.length > 0
-					? vcardData.emails
-					: vcardData.email
-						? [{ value: vcardData.email, type: 'INTERNET' }]
-						: []
-
-			const addresses =
-				vcardData.addresses && vcardData.addresses.length > 0
-					? vcardData.addresses
-					: vcardData.adr
-						? [{ value: vcardData.adr, type: 'HOME' }]
-						: []
-
-			const urls =
-				vcardData.urls && vcardData.urls.length > 0 ? vcardData.urls : vcardData.url ? [{ value: vcardData.url, type: 'HOME' }] : []
-
-			// Photo (base64)
-			let photoBlob: Buffer | null = null
-			let photoMime: string | null = null
-			let photoHash: string | null = null
-			if (vcardData.photo?.data) {
-				try {
-					const decoded = Buffer.from(vcardData.photo.data, 'base64')
-					if (decoded.length > MAX_PHOTO_BYTES) {
-						logger.warn({ vcardId, size: decoded.length }, 'Photo exceeds size limit; skipping photo for this contact')
-					} else {
-						photoBlob = decoded
-						const type = vcardData.photo.type?.toUpperCase()
-						if (type === 'PNG') {
-							photoMime = 'image/png'
-						} else if (type === 'JPEG' || type === 'JPG') {
-							photoMime = 'image/jpeg'
-						} else {
-							photoMime = 'image/jpeg'
-						}
-						photoHash = crypto.createHash('sha256').update(photoBlob).digest('hex')
-					}
-				} catch (error) {
-					logger.warn({ err: error, vcardId }, 'Failed to decode photo')
-				}
-			}
-
-			const contactData: Partial<Contact> = {
-				vcard_id: vcardId,
-				full_name: fullName,
-				first_name: firstName || null,
-				last_name: lastName || null,
-				middle_name: middleName || null,
-				name_prefix: namePrefix || null,
-				name_suffix: nameSuffix || null,
-				nickname: vcardData.nickname || null,
-				maiden_name: maidenName,
-				// Backward compatibility: set single values from arrays
-				email: emails.length > 0 ? emails[0].value : null,
-				phone: phones.length > 0 ? phones[0].value : null,
-				address: addresses.length > 0 ? addresses[0].value : null,
-				homepage: urls.length > 0 ? urls[0].value : null,
-				// New array fields
-				phones: phones.length > 0 ? phones : null,
-				emails: emails.length > 0 ? emails : null,
-				addresses: addresses.length > 0 ? addresses : null,
-				urls: urls.length > 0 ? urls : null,
-				organization: vcardData.org || null,
-				org_units: vcardData.orgUnits && vcardData.orgUnits.length > 0 ? vcardData.orgUnits : null,
-				job_title: vcardData.title || null,
-				role: vcardData.role || null,
-				birthday: birthday,
-				categories: vcardData.categories && vcardData.categories.length > 0 ? vcardData.categories : null,
-				labels: vcardData.labels && vcardData.labels.length > 0 ? vcardData.labels : null,
-				logos: vcardData.logos && vcardData.logos.length > 0 ? vcardData.logos : null,
-				sounds: vcardData.sounds && vcardData.sounds.length > 0 ? vcardData.sounds : null,
-				keys: vcardData.keys && vcardData.keys.length > 0 ? vcardData.keys : null,
-				mailer: vcardData.mailer || null,
-				time_zone: vcardData.tz || null,
-				geo: vcardData.geo || null,
-				agent: vcardData.agent || null,
-				prod_id: vcardData.prodid || null,
-				revision: vcardData.rev || null,
-				sort_string: vcardData.sortString || null,
-				class: vcardData.class || null,
-				custom_fields: vcardData.customFields && vcardData.customFields.length > 0 ? vcardData.customFields : null,
-				notes: notes,
-				photo_blob: photoBlob,
-				photo_mime: photoMime,
-				photo_width: null,
-				photo_height: null,
-				photo_updated_at: photoBlob ? fileMtime || new Date() : null,
-				photo_hash: photoHash,
-				vcard_data: vcardContent,
-			}
-
-			const { username: pathUsername, isMaster: pathIsMaster } = extractUsernameFromPath(filePath)
-			const carddavActor = pathUsername
-			const carddavSource = pathIsMaster ? 'sync' : 'carddav'
-
-			if (existingContact) {
-				const updatedContact = await updateContact(existingContact.id, contactData)
-				dbContactsByVcardId.set(vcardId, updatedContact)
-				await updateSyncMetadata(existingContact.id, {
-					last_synced_from_radicale_at: new Date(),
-					vcard_hash: vcardHash,
-					radicale_file_mtime: fileMtime,
-					sync_source: 'radicale',
-				})
-				await recordHistory({
-					contactId: existingContact.id,
-					operation: 'update',
-					source: carddavSource,
-					actor: carddavActor,
-					actorType: carddavActor ? 'carddav-client' : 'system',
-					summary: `Updated via CardDAV: ${updatedContact.full_name || updatedContact.email || 'contact'}`,
-					previousState: existingContact,
-					newState: updatedContact,
-					metadata: { bookId: book.id, vcardId, fileMtime: fileMtime?.toISOString() },
-				})
-				updated++
-			} else {
-				try {
-					const newContact = await createContact(contactData)
-					dbContactsByVcardId.set(vcardId, newContact)
-					// Update sync metadata for new contact
-					await updateSyncMetadata(newContact.id, {
-						last_synced_from_radicale_at: new Date(),
-						vcard_hash: vcardHash,
-						radicale_file_mtime: fileMtime,
-						sync_source: 'radicale',
-					})
-
-					await recordHistory({
-						contactId: newContact.id,
-						operation: 'create',
-						source: carddavSource,
-						actor: carddavActor,
-						actorType: carddavActor ? 'carddav-client' : 'system',
-						summary: `Created via CardDAV: ${newContact.full_name || newContact.email || 'contact'}`,
-						newState: newContact,
-						metadata: { bookId: book.id, vcardId, fileMtime: fileMtime?.toISOString() },
-					})
-
-					const masterPath = getAddressBookPath(book.id)
-					const masterFilePath = path.join(masterPath, `${vcardId}.vcf`)
-					if (!fs.existsSync(masterFilePath)) {
-						ensureDirectoryExists(masterPath)
-						ensureAddressBookProps(masterPath, book)
-						atomicWriteFileSync(masterFilePath, vcardContent, 'utf-8')
-						logger.info({ vcardId, bookId: book.id }, 'Copied new contact into master directory')
-					}
-
-					created++
-				} catch (error) {
-					const errorCode = (error as { code?: string }).code
-					const constraint = (error as { constraint?: string }).constraint
-					if (errorCode === '23505' && constraint === 'contacts_vcard_id_key') {
-						// The vcard_id already exists — could be a soft-deleted row or a
-						// race condition.  Search including soft-deleted rows so we can
-						// restore and update instead of crashing.
-						const duplicateContact = await getContactByVcardIdIncludingDeleted(vcardId)
-						if (duplicateContact) {
-							if (duplicateContact.deleted_at) {
-								await restoreContact(duplicateContact.id)
-								logger.info({ vcardId }, 'Restored soft-deleted contact during sync')
-							}
-							const updatedContact = await updateContact(duplicateContact.id, contactData)
-							dbContactsByVcardId.set(vcardId, updatedContact)
-							await updateSyncMetadata(duplicateContact.id, {
-								last_synced_from_radicale_at: new Date(),
-								vcard_hash: vcardHash,
-								radicale_file_mtime: fileMtime,
-								sync_source: 'radicale',
-							})
-							updated++
-							continue
-						}
-					}
-					throw error
-				}
-			}
-
-			const contactId = existingContact?.id || dbContactsByVcardId.get(vcardId)?.id
-			if (contactId && hasAddressBooks) {
-				const currentBookIds = contactBookIdsByContactId.get(contactId) || new Set<string>()
-				if (!currentBookIds.has(book.id)) {
-					currentBookIds.add(book.id)
-					await setContactAddressBooks(contactId, Array.from(currentBookIds))
-					contactBookIdsByContactId.set(contactId, currentBookIds)
-				}
-			}
-		}
+		const groupCounts = await importContactGroupCards(groupFiles, booksWithUsers)
+		counts.updated += groupCounts.synced
+		counts.skipped += groupCounts.skipped
 
 		// Handle deletions: delete DB contacts that were created from Radicale but no longer exist there
 		for (const contact of dbContacts) {
 			if (!contact.vcard_id) continue
-			const currentBookIds = contactBookIdsByContactId.get(contact.id) || new Set<string>()
+			const currentBookIds = context.bookIdsByContactId.get(contact.id) || new Set<string>()
 			let changed = false
 
 			for (const bookId of Array.from(currentBookIds)) {
@@ -482,9 +414,9 @@ export async function syncRadicaleToDb(silent: boolean = false): Promise<void> {
 				}
 			}
 
-			if (changed && hasAddressBooks) {
+			if (changed && context.hasAddressBooks) {
 				await setContactAddressBooks(contact.id, Array.from(currentBookIds))
-				contactBookIdsByContactId.set(contact.id, currentBookIds)
+				context.bookIdsByContactId.set(contact.id, currentBookIds)
 			}
 
 			if (currentBookIds.size === 0 && contact.sync_source === 'radicale') {
@@ -502,11 +434,57 @@ export async function syncRadicaleToDb(silent: boolean = false): Promise<void> {
 			}
 		}
 
-		if (created > 0 || updated > 0 || skipped > 0 || conflicts > 0) {
-			logger.info({ created, updated, skipped, conflicts }, 'Synced Radicale to DB')
-		}
+		return logCounts(counts)
 	} catch (error) {
 		logger.error({ err: error }, 'Error syncing Radicale to DB')
 		throw error
 	}
 }
+
+/**
+ * Sync only the given Radicale files, as reported by the file watcher. Loads
+ * just the contacts those files name, so one edit on a phone costs one card
+ * rather than a scan of every book. Paths that no longer exist are skipped:
+ * the watcher handles deletions itself, and syncRadicaleToDb() reconciles
+ * anything missed.
+ */
+export async function syncRadicaleFilesToDb(filePaths: Array<string>): Promise<SyncCounts> {
+	try {
+		const { hasAddressBooks, bookById, bookForPath } = await loadBooks()
+		const files = Array.from(
+			readRadicaleFiles(
+				filePaths.filter(filePath => isVCardFile(filePath) && fs.existsSync(filePath)),
+				bookForPath
+			).values()
+		)
+		const contactFiles = files.filter(file => !file.isGroup)
+
+		const dbContacts = await getContactsByVcardIds(Array.from(new Set(contactFiles.map(file => file.vcardId))))
+		const context: ImportContext = {
+			bookById,
+			hasAddressBooks,
+			contactsByVcardId: new Map(dbContacts.map(contact => [contact.vcard_id as string, contact])),
+			bookIdsByContactId: groupBookIdsByContactId(
+				dbContacts.length > 0 ? await getContactAddressBookEntries(dbContacts.map(contact => contact.id)) : []
+			),
+		}
+
+		const counts: ImportCounts = { created: 0, updated: 0, skipped: 0, conflicts: 0 }
+		for (const file of contactFiles) {
+			await importContactFile(file, context, counts)
+		}
+
+		const groupFiles = files.filter(file => file.isGroup)
+		if (groupFiles.length > 0) {
+			// No books with users: a partial list says nothing about which groups are gone.
+			const groupCounts = await importContactGroupCards(groupFiles, new Set())
+			counts.updated += groupCounts.synced
+			counts.skipped += groupCounts.skipped
+		}
+
+		return logCounts(counts)
+	} catch (error) {
+		logger.error({ err: error }, 'Error syncing changed Radicale files to DB')
+		throw error
+	}
+}
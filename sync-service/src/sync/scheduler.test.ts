@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const calls: string[] = []
+
+vi.mock('./db-to-radicale', () => ({
+	syncDbToRadicale: vi.fn(() => {
+		calls.push('db-to-radicale')
+		return Promise.resolve({ synced: 2, skipped: 5, conflicts: 0 })
+	}),
+}))
+vi.mock('./radicale-to-db', () => ({
+	syncRadicaleToDb: vi.fn(() => {
+		calls.push('radicale-to-db')
+		return Promise.resolve({ synced: 1, skipped: 6, conflicts: 1 })
+	}),
+}))
+
+import { RECONCILE_INTERVAL } from './constants'
+import { getManualSyncJob, startManualSync, startPeriodicSync } from './scheduler'
+import { resetSyncStats } from './stats'
+import type { ManualSyncJob } from './scheduler'
+
+async function settle(job: ManualSyncJob): Promise<ManualSyncJob> {
+	await vi.waitFor(() => expect(getManualSyncJob(job.id)?.state).not.toBe('running'))
+	return getManualSyncJob(job.id) as ManualSyncJob
+}
+
+beforeEach(() => {
+	calls.length = 0
+	resetSyncStats()
+})
+
+describe('startManualSync', () => {
+	it('pulls from Radicale before pushing when running both directions', async () => {
+		const job = startManualSync('both')
+		expect(job?.state).toBe('running')
+
+		const done = await settle(job as ManualSyncJob)
+		expect(calls).toEqual(['radicale-to-db', 'db-to-radicale'])
+		expect(done.state).toBe('finished')
+		expect(done.finished_at).not.toBeNull()
+		expect(done.passes).toEqual([
+			{ direction: 'radicale-to-db', synced: 1, skipped: 6, conflicts: 1 },
+			{ direction: 'db-to-radicale', synced: 2, skipped: 5, conflicts: 0 },
+		])
+	})
+
+	it('refuses to start while another run is in progress', async () => {
+		const job = startManualSync('db-to-radicale')
+		expect(startManualSync('radicale-to-db')).toBeNull()
+		await settle(job as ManualSyncJob)
+		expect(calls).toEqual(['db-to-radicale'])
+	})
+
+	it('runs prepare before the pass and fails the job when it throws', async () => {
+		const prepare = vi.fn(() => {
+			calls.push('prepare')
+			return Promise.resolve()
+		})
+		await settle(startManualSync('radicale-to-db', prepare) as ManualSyncJob)
+		expect(calls).toEqual(['prepare', 'radicale-to-db'])
+
+		calls.length = 0
+		const failed = await settle(startManualSync('db-to-radicale', () => Promise.reject(new Error('reset failed'))) as ManualSyncJob)
+		expect(failed.state).toBe('failed')
+		expect(failed.error).toBe('reset failed')
+		expect(calls).toEqual([])
+	})
+})
+
+describe('startPeriodicSync', () => {
+	it('queues ticks that land during another pass and runs each once it ends', async () => {
+		vi.useFakeTimers({ toFake: ['setInterval'] })
+		try {
+			startPeriodicSync()
+			const job = startManualSync('db-to-radicale')
+			// Every DB tick and the reconcile tick fire while the manual pass runs.
+			vi.advanceTimersByTime(RECONCILE_INTERVAL)
+			await settle(job as ManualSyncJob)
+			await vi.waitFor(() => expect(calls).toEqual(['db-to-radicale', 'db-to-radicale', 'radicale-to-db']))
+		} finally {
+			vi.clearAllTimers()
+			vi.useRealTimers()
+		}
+	})
+})
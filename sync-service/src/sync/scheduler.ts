@@ -1,27 +1,119 @@
+import { randomUUID } from 'crypto'
 import { logger } from '../logger'
-import { SYNC_INTERVAL } from './constants'
+import { RECONCILE_INTERVAL, SYNC_INTERVAL } from './constants'
 import { syncDbToRadicale } from './db-to-radicale'
+import { syncRadicaleToDb } from './radicale-to-db'
+import { isSyncRunning, trackSyncRun } from './stats'
+import type { SyncCounts, SyncDirection } from './stats'
 
-/**
- * Start periodic sync
- */
 let isSyncing = false
+/** Periodic passes whose tick came while another pass was running; each runs once the flag is free. */
+const pendingPeriodic = new Set<SyncDirection>()
+
+async function runPeriodic(direction: SyncDirection): Promise<void> {
+	if (isSyncing) {
+		pendingPeriodic.add(direction)
+		logger.info({ direction }, 'Sync already in progress, queueing periodic sync')
+		return
+	}
+	isSyncing = true
+	try {
+		await trackSyncRun(direction, 'periodic', PASSES[direction])
+	} catch (error) {
+		logger.error({ err: error, direction }, 'Periodic sync error')
+	} finally {
+		isSyncing = false
+		runPendingPeriodic()
+	}
+}
+
+function runPendingPeriodic(): void {
+	const [next] = pendingPeriodic
+	if (!next) return
+	pendingPeriodic.delete(next)
+	void runPeriodic(next)
+}
 
+/**
+ * Start periodic sync: DB → Radicale every SYNC_INTERVAL, and a full
+ * Radicale → DB scan every RECONCILE_INTERVAL to catch what the file watcher
+ * missed (events lost while the service was busy, directories added later).
+ * A tick that lands while another pass runs is queued, not dropped.
+ */
 export function startPeriodicSync(): void {
-	logger.info({ intervalMs: SYNC_INTERVAL }, 'Starting periodic sync')
+	logger.info({ intervalMs: SYNC_INTERVAL, reconcileIntervalMs: RECONCILE_INTERVAL }, 'Starting periodic sync')
 
-	setInterval(async () => {
-		if (isSyncing) {
-			logger.info('Sync already in progress, skipping periodic sync')
-			return
-		}
-		isSyncing = true
+	setInterval(() => void runPeriodic('db-to-radicale'), SYNC_INTERVAL)
+	setInterval(() => void runPeriodic('radicale-to-db'), RECONCILE_INTERVAL)
+}
+
+export type ManualSyncDirection = SyncDirection | 'both'
+
+/** An on-demand run started from the API; callers poll it by id until it is no longer running. */
+export interface ManualSyncJob {
+	id: string
+	direction: ManualSyncDirection
+	state: 'running' | 'finished' | 'failed'
+	started_at: string
+	finished_at: string | null
+	error: string | null
+	passes: Array<SyncCounts & { direction: SyncDirection }>
+}
+
+const MAX_JOBS = 20
+const jobs = new Map<string, ManualSyncJob>()
+
+const PASSES: Record<SyncDirection, () => Promise<SyncCounts>> = {
+	'radicale-to-db': () => syncRadicaleToDb(),
+	'db-to-radicale': () => syncDbToRadicale(),
+}
+
+export function getManualSyncJob(id: string): ManualSyncJob | null {
+	return jobs.get(id) ?? null
+}
+
+/**
+ * Run one or both passes in the background ("sync now", force resync).
+ * Both directions pull from Radicale first so CardDAV edits are merged before
+ * the DB is pushed back. `prepare` runs first, while no other pass can start
+ * (force resync clears sync metadata there). Returns null without starting
+ * when another pass is running.
+ */
+export function startManualSync(direction: ManualSyncDirection = 'both', prepare?: () => Promise<void>): ManualSyncJob | null {
+	if (isSyncing || isSyncRunning()) return null
+	isSyncing = true
+
+	const job: ManualSyncJob = {
+		id: randomUUID(),
+		direction,
+		state: 'running',
+		started_at: new Date().toISOString(),
+		finished_at: null,
+		error: null,
+		passes: [],
+	}
+	jobs.set(job.id, job)
+	// Maps iterate in insertion order, so the first key is the oldest job.
+	if (jobs.size > MAX_JOBS) jobs.delete(jobs.keys().next().value as string)
+
+	const directions: SyncDirection[] = direction === 'both' ? ['radicale-to-db', 'db-to-radicale'] : [direction]
+	void (async () => {
 		try {
-			await syncDbToRadicale()
+			if (prepare) await prepare()
+			for (const pass of directions) {
+				const counts = await trackSyncRun(pass, 'manual', PASSES[pass])
+				job.passes.push({ direction: pass, ...counts })
+			}
+			job.state = 'finished'
 		} catch (error) {
-			logger.error({ err: error }, 'Periodic sync error')
+			logger.error({ err: error, jobId: job.id }, 'Manual sync error')
+			job.state = 'failed'
+			job.error = error instanceof Error ? error.message : String(error)
 		} finally {
+			job.finished_at = new Date().toISOString()
 			isSyncing = false
+			runPendingPeriodic()
 		}
-	}, SYNC_INTERVAL)
+	})()
+	return job
 }
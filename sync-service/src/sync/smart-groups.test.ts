@@ -0,0 +1,128 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const storage = vi.hoisted(() => ({ path: '' }))
+
+vi.mock('./constants', () => ({
+	get RADICALE_STORAGE_PATH() {
+		return storage.path
+	},
+	getErrorCode: () => undefined,
+}))
+
+vi.mock('../logger', () => ({
+	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('../htpasswd', () => ({}))
+
+vi.mock('../db', () => ({
+	getAddressBooks: vi.fn(),
+	getSmartGroups: vi.fn(),
+	getSmartGroupMembers: vi.fn(),
+}))
+
+import { getAddressBooks, getSmartGroupMembers, getSmartGroups } from '../db'
+import { getSmartGroupPath, mirrorCollection, syncSmartGroupsToRadicale } from './smart-groups'
+import type { AddressBook, Contact, SmartGroup } from '../db'
+
+const GROUP: SmartGroup = {
+	id: '5c9e1f0a-3b2d-4c8e-9f7a-6d5e4c3b2a19',
+	name: 'Family birthdays',
+	query: 'book:family has:birthday',
+	filter_terms: [
+		{ kind: 'qualifier', qualifier: 'book', value: 'family', negated: false },
+		{ kind: 'qualifier', qualifier: 'has', value: 'birthday', negated: false },
+	],
+	password_hash: '$2a$10$hash',
+}
+
+function card(name: string): string {
+	return `BEGIN:VCARD\nVERSION:3.0\nFN:${name}\nEND:VCARD\n`
+}
+
+beforeEach(() => {
+	storage.path = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-groups-'))
+	vi.mocked(getAddressBooks).mockResolvedValue([])
+	vi.mocked(getSmartGroups).mockResolvedValue([GROUP])
+	vi.mocked(getSmartGroupMembers).mockResolvedValue([
+		{ id: 'c1', vcard_id: 'ada', vcard_data: card('Ada') } as Contact,
+		{ id: 'c2', vcard_id: null, vcard_data: card('No id') } as Contact,
+	])
+})
+
+afterEach(() => {
+	fs.rmSync(storage.path, { recursive: true, force: true })
+})
+
+// ---------------------------------------------------------------------------
+// mirrorCollection
+// ---------------------------------------------------------------------------
+describe('mirrorCollection', () => {
+	it('writes new and changed cards and removes the rest', () => {
+		const dir = path.join(storage.path, 'collection')
+		mirrorCollection(
+			dir,
+			{ tag: 'VADDRESSBOOK' },
+			new Map([
+				['a', card('A')],
+				['b', card('B')],
+			])
+		)
+
+		const result = mirrorCollection(
+			dir,
+			{ tag: 'VADDRESSBOOK' },
+			new Map([
+				['a', card('A')],
+				['c', card('C')],
+			])
+		)
+		expect(result).toEqual({ written: 1, removed: 1 })
+		expect(fs.readdirSync(dir).sort()).toEqual(['.Radicale.props', 'a.vcf', 'c.vcf'])
+		expect(JSON.parse(fs.readFileSync(path.join(dir, '.Radicale.props'), 'utf-8'))).toEqual({ tag: 'VADDRESSBOOK' })
+	})
+})
+
+// ---------------------------------------------------------------------------
+// syncSmartGroupsToRadicale
+// ---------------------------------------------------------------------------
+describe('syncSmartGroupsToRadicale', () => {
+	it('mirrors each group into its read-only collection', async () => {
+		await syncSmartGroupsToRadicale()
+
+		const dir = getSmartGroupPath(GROUP.id)
+		expect(dir).toBe(path.join(storage.path, 'collection-root', `ro-${GROUP.id}`, GROUP.id))
+		expect(fs.readdirSync(dir).sort()).toEqual(['.Radicale.props', 'ada.vcf'])
+		expect(JSON.parse(fs.readFileSync(path.join(dir, '.Radicale.props'), 'utf-8'))).toMatchObject({
+			'D:displayname': 'Family birthdays',
+		})
+	})
+
+	it('removes collections of deleted groups but keeps read-only books', async () => {
+		const root = path.join(storage.path, 'collection-root')
+		fs.mkdirSync(path.join(root, 'ro-deleted-group', 'deleted-group'), { recursive: true })
+		fs.mkdirSync(path.join(root, 'ro-book-1', 'book-1'), { recursive: true })
+		vi.mocked(getAddressBooks).mockResolvedValue([{ id: 'book-1' } as AddressBook])
+
+		await syncSmartGroupsToRadicale()
+
+		expect(fs.readdirSync(root).sort()).toEqual(['ro-book-1', `ro-${GROUP.id}`].sort())
+	})
+
+	it('keeps going when one group fails', async () => {
+		const broken = { ...GROUP, id: '0f1e2d3c-4b5a-4968-8776-5a4b3c2d1e0f', name: 'Broken' }
+		vi.mocked(getSmartGroups).mockResolvedValue([broken, GROUP])
+		vi.mocked(getSmartGroupMembers).mockImplementation(group =>
+			group.id === broken.id
+				? Promise.reject(new Error('bad filter'))
+				: Promise.resolve([{ id: 'c1', vcard_id: 'ada', vcard_data: card('Ada') } as Contact])
+		)
+
+		await syncSmartGroupsToRadicale()
+
+		expect(fs.existsSync(path.join(getSmartGroupPath(GROUP.id), 'ada.vcf'))).toBe(true)
+	})
+})
@@ -0,0 +1,101 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { getAddressBooks, getSmartGroupMembers, getSmartGroups } from '../db'
+import { atomicWriteFileSync } from '../fs-utils'
+import { logger } from '../logger'
+import { RADICALE_STORAGE_PATH } from './constants'
+import { ensureDirectoryExists, readVCardFile } from './radicale-fs'
+import { contactVCard } from './vcard-contact'
+
+const READONLY_USERNAME_PREFIX = 'ro-'
+
+/**
+ * Smart group collection: ro-{group_id}/{group_id}, the same layout as a
+ * book's read-only subscription, so the ro-* rule in radicale/config/rights
+ * serves it without changes.
+ */
+export function getSmartGroupPath(groupId: string): string {
+	return path.join(RADICALE_STORAGE_PATH, 'collection-root', `${READONLY_USERNAME_PREFIX}${groupId}`, groupId)
+}
+
+/**
+ * Make a collection hold exactly `cards` (vCard id → vCard). Cards are only
+ * rewritten when their content changed, so subscribers don't refetch the
+ * whole group on every sync.
+ */
+export function mirrorCollection(
+	collectionPath: string,
+	props: Record<string, string>,
+	cards: Map<string, string>
+): { written: number; removed: number } {
+	ensureDirectoryExists(collectionPath)
+	const propsPath = path.join(collectionPath, '.Radicale.props')
+	const propsJson = JSON.stringify(props)
+	if (!fs.existsSync(propsPath) || fs.readFileSync(propsPath, 'utf-8') !== propsJson) {
+		atomicWriteFileSync(propsPath, propsJson, 'utf-8')
+	}
+
+	let written = 0
+	for (const [vcardId, vcard] of cards) {
+		const filePath = path.join(collectionPath, `${vcardId}.vcf`)
+		if (fs.existsSync(filePath) && readVCardFile(filePath) === vcard) continue
+		atomicWriteFileSync(filePath, vcard, 'utf-8')
+		written++
+	}
+
+	let removed = 0
+	for (const file of fs.readdirSync(collectionPath)) {
+		if (!file.endsWith('.vcf')) continue
+		if (cards.has(file.slice(0, -'.vcf'.length))) continue
+		fs.unlinkSync(path.join(collectionPath, file))
+		removed++
+	}
+	return { written, removed }
+}
+
+/**
+ * Re-evaluate every smart group and mirror its members into its read-only
+ * collection. Runs on each DB → Radicale sync, so membership follows contact
+ * edits, deletions and book changes. Collections of deleted groups are
+ * removed.
+ */
+export async function syncSmartGroupsToRadicale(): Promise<void> {
+	const groups = await getSmartGroups()
+
+	for (const group of groups) {
+		try {
+			const members = await getSmartGroupMembers(group)
+			const cards = new Map<string, string>()
+			for (const contact of members) {
+				if (contact.vcard_id) cards.set(contact.vcard_id, await contactVCard(contact))
+			}
+			const { written, removed } = mirrorCollection(
+				getSmartGroupPath(group.id),
+				{
+					tag: 'VADDRESSBOOK',
+					'D:displayname': group.name,
+					'C:addressbook-description': `Smart group: ${group.query}`,
+				},
+				cards
+			)
+			if (written > 0 || removed > 0) {
+				logger.info({ groupId: group.id, members: cards.size, written, removed }, 'Synced smart group to Radicale')
+			}
+		} catch (err) {
+			// One group's filter failing (e.g. a stored term the compiler no longer accepts) must not stop the rest.
+			logger.error({ err, groupId: group.id }, 'Failed to sync smart group')
+		}
+	}
+
+	// ro-{id} directories that belong to neither a book nor a group are left over from deleted groups.
+	const collectionRoot = path.join(RADICALE_STORAGE_PATH, 'collection-root')
+	if (!fs.existsSync(collectionRoot)) return
+	const books = await getAddressBooks()
+	const knownIds = new Set([...groups.map(group => group.id), ...books.map(book => book.id)])
+	for (const entry of fs.readdirSync(collectionRoot)) {
+		if (!entry.startsWith(READONLY_USERNAME_PREFIX)) continue
+		if (knownIds.has(entry.slice(READONLY_USERNAME_PREFIX.length))) continue
+		logger.info({ collection: entry }, 'Removing collection of deleted smart group')
+		fs.rmSync(path.join(collectionRoot, entry), { recursive: true, force: true })
+	}
+}
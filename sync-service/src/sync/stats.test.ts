@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { formatPrometheusMetrics, getSyncStatus, resetSyncStats, setWatcherQueueDepth, trackSyncRun } from './stats'
+
+afterEach(() => {
+	resetSyncStats()
+})
+
+describe('trackSyncRun', () => {
+	it('records counts for a successful run, newest first', async () => {
+		await trackSyncRun('radicale-to-db', 'startup', () => Promise.resolve({ synced: 3, skipped: 1, conflicts: 0 }))
+		await trackSyncRun('db-to-radicale', 'periodic', () => Promise.resolve({ synced: 2, skipped: 5, conflicts: 1 }))
+
+		const status = getSyncStatus()
+		expect(status.runs.map(run => [run.direction, run.trigger, run.synced, run.skipped, run.conflicts, run.error])).toEqual([
+			['db-to-radicale', 'periodic', 2, 5, 1, null],
+			['radicale-to-db', 'startup', 3, 1, 0, null],
+		])
+		expect(Object.keys(status.last_success_at).sort()).toEqual(['db-to-radicale', 'radicale-to-db'])
+		expect(status.last_error).toBeNull()
+		expect(status.running).toEqual([])
+	})
+
+	it('records the error and rethrows it', async () => {
+		await expect(trackSyncRun('db-to-radicale', 'manual', () => Promise.reject(new Error('disk full')))).rejects.toThrow('disk full')
+
+		const status = getSyncStatus()
+		expect(status.runs[0].error).toBe('disk full')
+		expect(status.last_error).toMatchObject({ message: 'disk full', direction: 'db-to-radicale' })
+		expect(status.last_success_at).toEqual({})
+	})
+
+	it('reports a direction as running until the pass settles', async () => {
+		let finish: () => void = () => {}
+		const pass = trackSyncRun(
+			'radicale-to-db',
+			'watcher',
+			() =>
+				new Promise(resolve => {
+					finish = () => resolve({ synced: 0, skipped: 0, conflicts: 0 })
+				})
+		)
+		expect(getSyncStatus().running).toEqual(['radicale-to-db'])
+		finish()
+		await pass
+		expect(getSyncStatus().running).toEqual([])
+	})
+})
+
+describe('formatPrometheusMetrics', () => {
+	it('exposes run and contact counters and the watcher queue depth', async () => {
+		await trackSyncRun('db-to-radicale', 'periodic', () => Promise.resolve({ synced: 2, skipped: 5, conflicts: 1 }))
+		await trackSyncRun('db-to-radicale', 'periodic', () => Promise.resolve({ synced: 1, skipped: 0, conflicts: 0 }))
+		setWatcherQueueDepth(4)
+
+		const text = formatPrometheusMetrics()
+		expect(text).toContain('# TYPE shared_contacts_sync_runs_total counter')
+		expect(text).toContain('shared_contacts_sync_runs_total{direction="db-to-radicale",trigger="periodic",result="success"} 2')
+		expect(text).toContain('shared_contacts_sync_contacts_total{direction="db-to-radicale",outcome="synced"} 3')
+		expect(text).toContain('shared_contacts_sync_contacts_total{direction="db-to-radicale",outcome="conflict"} 1')
+		expect(text).toContain('shared_contacts_sync_running{direction="radicale-to-db"} 0')
+		expect(text).toContain('shared_contacts_sync_watcher_queue_depth 4')
+		expect(text.endsWith('\n')).toBe(true)
+	})
+})
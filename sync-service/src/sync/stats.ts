@@ -0,0 +1,181 @@
+/**
+ * In-memory record of recent sync runs, served by the API as JSON
+ * (/api/sync/status) and Prometheus text (/metrics). Every caller of a sync
+ * pass (startup, the periodic scheduler, the file watcher, a DB notification,
+ * a manual run) wraps it in trackSyncRun; the counters reset when the process
+ * restarts, which Prometheus handles for *_total series.
+ */
+
+export type SyncDirection = 'radicale-to-db' | 'db-to-radicale'
+
+export type SyncTrigger = 'startup' | 'periodic' | 'watcher' | 'notify' | 'manual'
+
+export interface SyncCounts {
+	synced: number
+	skipped: number
+	conflicts: number
+}
+
+export interface SyncRun extends SyncCounts {
+	direction: SyncDirection
+	trigger: SyncTrigger
+	started_at: string
+	finished_at: string
+	duration_ms: number
+	error: string | null
+}
+
+export interface SyncStatus {
+	running: SyncDirection[]
+	watcher_queue_depth: number
+	last_error: { message: string; at: string; direction: SyncDirection } | null
+	last_success_at: Partial<Record<SyncDirection, string>>
+	runs: SyncRun[]
+}
+
+const DIRECTIONS: SyncDirection[] = ['radicale-to-db', 'db-to-radicale']
+
+export const MAX_RECENT_RUNS = 50
+
+const recentRuns: SyncRun[] = []
+const running = new Map<SyncDirection, number>()
+const runTotals = new Map<string, number>()
+const contactTotals = new Map<string, number>()
+const lastSuccessAt = new Map<SyncDirection, Date>()
+let lastError: SyncStatus['last_error'] = null
+let watcherQueueDepth = 0
+
+function increment(map: Map<string, number>, key: string, by = 1): void {
+	map.set(key, (map.get(key) || 0) + by)
+}
+
+export function setWatcherQueueDepth(depth: number): void {
+	watcherQueueDepth = depth
+}
+
+export function isSyncRunning(): boolean {
+	return running.size > 0
+}
+
+/** Add a finished run. Exported for tests; production code goes through trackSyncRun. */
+export function recordSyncRun(run: SyncRun): void {
+	recentRuns.unshift(run)
+	recentRuns.length = Math.min(recentRuns.length, MAX_RECENT_RUNS)
+	increment(runTotals, `${run.direction}|${run.trigger}|${run.error ? 'error' : 'success'}`)
+	increment(contactTotals, `${run.direction}|synced`, run.synced)
+	increment(contactTotals, `${run.direction}|skipped`, run.skipped)
+	increment(contactTotals, `${run.direction}|conflict`, run.conflicts)
+	if (run.error) {
+		lastError = { message: run.error, at: run.finished_at, direction: run.direction }
+	} else {
+		lastSuccessAt.set(run.direction, new Date(run.finished_at))
+	}
+}
+
+/** Run one sync pass and record its outcome. Errors are recorded, then rethrown. */
+export async function trackSyncRun(direction: SyncDirection, trigger: SyncTrigger, pass: () => Promise<SyncCounts>): Promise<SyncCounts> {
+	const startedAt = new Date()
+	running.set(direction, (running.get(direction) || 0) + 1)
+	let counts: SyncCounts = { synced: 0, skipped: 0, conflicts: 0 }
+	let error: string | null = null
+	try {
+		counts = await pass()
+		return counts
+	} catch (err) {
+		error = err instanceof Error ? err.message : String(err)
+		throw err
+	} finally {
+		const remaining = (running.get(direction) || 1) - 1
+		if (remaining > 0) running.set(direction, remaining)
+		else running.delete(direction)
+		const finishedAt = new Date()
+		recordSyncRun({
+			direction,
+			trigger,
+			...counts,
+			started_at: startedAt.toISOString(),
+			finished_at: finishedAt.toISOString(),
+			duration_ms: finishedAt.getTime() - startedAt.getTime(),
+			error,
+		})
+	}
+}
+
+export function getSyncStatus(limit = 20): SyncStatus {
+	return {
+		running: DIRECTIONS.filter(direction => running.has(direction)),
+		watcher_queue_depth: watcherQueueDepth,
+		last_error: lastError,
+		last_success_at: Object.fromEntries(Array.from(lastSuccessAt, ([direction, at]) => [direction, at.toISOString()])),
+		runs: recentRuns.slice(0, limit),
+	}
+}
+
+function metric(lines: string[], name: string, type: 'counter' | 'gauge', help: string, samples: Array<[string, number]>): void {
+	lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`)
+	for (const [labels, value] of samples) lines.push(`${name}${labels} ${value}`)
+}
+
+/** Prometheus text exposition format (version 0.0.4). */
+export function formatPrometheusMetrics(): string {
+	const lines: string[] = []
+	const latest = new Map<SyncDirection, SyncRun>()
+	for (const run of [...recentRuns].reverse()) latest.set(run.direction, run)
+
+	metric(
+		lines,
+		'shared_contacts_sync_runs_total',
+		'counter',
+		'Sync passes by direction, trigger and result.',
+		Array.from(runTotals, ([key, value]) => {
+			const [direction, trigger, result] = key.split('|')
+			return [`{direction="${direction}",trigger="${trigger}",result="${result}"}`, value]
+		})
+	)
+	metric(
+		lines,
+		'shared_contacts_sync_contacts_total',
+		'counter',
+		'Contacts handled by sync passes, by outcome.',
+		Array.from(contactTotals, ([key, value]) => {
+			const [direction, outcome] = key.split('|')
+			return [`{direction="${direction}",outcome="${outcome}"}`, value]
+		})
+	)
+	metric(
+		lines,
+		'shared_contacts_sync_last_run_duration_seconds',
+		'gauge',
+		'Duration of the most recent sync pass.',
+		Array.from(latest, ([direction, run]) => [`{direction="${direction}"}`, run.duration_ms / 1000])
+	)
+	metric(
+		lines,
+		'shared_contacts_sync_last_success_timestamp_seconds',
+		'gauge',
+		'Unix time the last successful sync pass finished.',
+		Array.from(lastSuccessAt, ([direction, at]) => [`{direction="${direction}"}`, Math.floor(at.getTime() / 1000)])
+	)
+	metric(
+		lines,
+		'shared_contacts_sync_running',
+		'gauge',
+		'1 while a sync pass in that direction is running.',
+		DIRECTIONS.map(direction => [`{direction="${direction}"}`, running.has(direction) ? 1 : 0])
+	)
+	metric(lines, 'shared_contacts_sync_watcher_queue_depth', 'gauge', 'Changed vCard files waiting for the next watcher sync.', [
+		['', watcherQueueDepth],
+	])
+	return `${lines.join('\n')}\n`
+}
+
+/** Reset all state. Tests only. */
+export function resetSyncStats(): void {
+	recentRuns.length = 0
+	running.clear()
+	runTotals.clear()
+	contactTotals.clear()
+	lastSuccessAt.clear()
+	lastError = null
+	watcherQueueDepth = 0
+}
@@ -0,0 +1,171 @@
+import * as crypto from 'crypto'
+import { Contact, ContactInput } from '../db'
+import { vcardPhotoSize, withStoredPhoto } from '../photo-store'
+import { generateVCard, parseVCard } from '../vcard'
+import { logger } from '../logger'
+
+// Cap inbound photo size so a hostile or oversized vCard PHOTO cannot OOM the
+// process. Oversize photos are skipped (the rest of the contact still syncs).
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024 // 10 MB
+
+/**
+ * The card to publish for a contact: its stored vCard, or one generated from
+ * its columns, with the photo put back in from the photo store (resized to
+ * VCARD_PHOTO_MAX_SIZE when that is set).
+ */
+export async function contactVCard(contact: Contact): Promise<string> {
+	const card =
+		contact.vcard_data ||
+		generateVCard(
+			{},
+			{
+				...contact,
+				phones: contact.phones || null,
+				emails: contact.emails || null,
+				addresses: contact.addresses || null,
+				urls: contact.urls || null,
+			}
+		)
+	return withStoredPhoto(card, contact, vcardPhotoSize())
+}
+
+/**
+ * Map a Radicale vCard onto contact columns. Shared by the Radicale → DB
+ * import and the DB → Radicale merge path, which both store a card that did
+ * not come from the UI.
+ */
+export function contactDataFromVCard(vcardId: string, vcardContent: string, fileMtime: Date | null): ContactInput {
+	const vcardData = parseVCard(vcardContent)
+
+	// Parse name
+	const nameParts = vcardData.n ? vcardData.n.split(';') : []
+	const firstName = nameParts[1] || ''
+	const lastName = nameParts[0] || ''
+	const middleName = nameParts[2] || ''
+	const namePrefix = nameParts[3] || ''
+	const nameSuffix = nameParts[4] || ''
+	const fullName = vcardData.fn || `${firstName} ${middleName} ${lastName}`.trim() || 'Unknown'
+
+	// Parse birthday (BDAY format: YYYYMMDD or YYYY-MM-DD) into a date-only
+	// "YYYY-MM-DD" string. We avoid constructing a JS Date so the value is
+	// never subject to a timezone off-by-one shift.
+	let birthday: string | null = null
+	if (vcardData.bday) {
+		const bdayStr = vcardData.bday.replace(/-/g, '')
+		if (bdayStr.length >= 8) {
+			const year = bdayStr.substring(0, 4)
+			const month = bdayStr.substring(4, 6)
+			const day = bdayStr.substring(6, 8)
+			if (/^\d{4}$/.test(year) && /^\d{2}$/.test(month) && /^\d{2}$/.test(day)) {
+				birthday = `${year}-${month}-${day}`
+			}
+		}
+	}
+
+	// Extract maiden name from notes if present
+	let maidenName: string | null = null
+	let notes = vcardData.note || null
+	if (notes) {
+		const maidenMatch = notes.match(/Maiden name:\s*(.+)/i)
+		if (maidenMatch) {
+			maidenName = maidenMatch[1].trim()
+			// Remove maiden name from notes
+			notes = notes.replace(/Maiden name:\s*.+/i, '').trim() || null
+		}
+	}
+
+	// Convert vCard arrays to Contact arrays
+	const phones =
+		vcardData.tels && vcardData.tels.length > 0 ? vcardData.tels : vcardData.tel ? [{ value: vcardData.tel, type: 'CELL' }] : []
+
+	const emails =
+		vcardData.emails && vcardData.emails.length > 0
+			? vcardData.emails
+			: vcardData.email
+				? [{ value: vcardData.email, type: 'INTERNET' }]
+				: []
+
+	const addresses =
+		vcardData.addresses && vcardData.addresses.length > 0
+			? vcardData.addresses
+			: vcardData.adr
+				? [{ value: vcardData.adr, type: 'HOME' }]
+				: []
+
+	const urls = vcardData.urls && vcardData.urls.length > 0 ? vcardData.urls : vcardData.url ? [{ value: vcardData.url, type: 'HOME' }] : []
+
+	// Photo (base64)
+	let photoBlob: Buffer | null = null
+	let photoMime: string | null = null
+	let photoHash: string | null = null
+	if (vcardData.photo?.data) {
+		try {
+			const decoded = Buffer.from(vcardData.photo.data, 'base64')
+			if (decoded.length > MAX_PHOTO_BYTES) {
+				logger.warn({ vcardId, size: decoded.length }, 'Photo exceeds size limit; skipping photo for this contact')
+			} else {
+				photoBlob = decoded
+				const type = vcardData.photo.type?.toUpperCase()
+				if (type === 'PNG') {
+					photoMime = 'image/png'
+				} else if (type === 'JPEG' || type === 'JPG') {
+					photoMime = 'image/jpeg'
+				} else {
+					photoMime = 'image/jpeg'
+				}
+				photoHash = crypto.createHash('sha256').update(photoBlob).digest('hex')
+			}
+		} catch (error) {
+			logger.warn({ err: error, vcardId }, 'Failed to decode photo')
+		}
+	}
+
+	return {
+		vcard_id: vcardId,
+		full_name: fullName,
+		first_name: firstName || null,
+		last_name: lastName || null,
+		middle_name: middleName || null,
+		name_prefix: namePrefix || null,
+		name_suffix: nameSuffix || null,
+		nickname: vcardData.nickname || null,
+		maiden_name: maidenName,
+		// Backward compatibility: set single values from arrays
+		email: emails.length > 0 ? emails[0].value : null,
+		phone: phones.length > 0 ? phones[0].value : null,
+		address: addresses.length > 0 ? addresses[0].value : null,
+		homepage: urls.length > 0 ? urls[0].value : null,
+		// New array fields
+		phones: phones.length > 0 ? phones : null,
+		emails: emails.length > 0 ? emails : null,
+		addresses: addresses.length > 0 ? addresses : null,
+		urls: urls.length > 0 ? urls : null,
+		organization: vcardData.org || null,
+		org_units: vcardData.orgUnits && vcardData.orgUnits.length > 0 ? vcardData.orgUnits : null,
+		job_title: vcardData.title || null,
+		role: vcardData.role || null,
+		birthday: birthday,
+		categories: vcardData.categories && vcardData.categories.length > 0 ? vcardData.categories : null,
+		labels: vcardData.labels && vcardData.labels.length > 0 ? vcardData.labels : null,
+		logos: vcardData.logos && vcardData.logos.length > 0 ? vcardData.logos : null,
+		sounds: vcardData.sounds && vcardData.sounds.length > 0 ? vcardData.sounds : null,
+		keys: vcardData.keys && vcardData.keys.length > 0 ? vcardData.keys : null,
+		mailer: vcardData.mailer || null,
+		time_zone: vcardData.tz || null,
+		geo: vcardData.geo || null,
+		agent: vcardData.agent || null,
+		prod_id: vcardData.prodid || null,
+		revision: vcardData.rev || null,
+		sort_string: vcardData.sortString || null,
+		class: vcardData.class || null,
+		custom_fields: vcardData.customFields && vcardData.customFields.length > 0 ? vcardData.customFields : null,
+		notes: notes,
+		photo_blob: photoBlob,
+		photo_mime: photoMime,
+		photo_width: null,
+		photo_height: null,
+		photo_updated_at: photoBlob ? fileMtime || new Date() : null,
+		photo_hash: photoHash,
+		vcard_data: vcardContent,
+	}
+}
@@ -3,23 +3,24 @@ import { watch } from 'chokidar'
 import {
 	getAddressBookById,
 	getAddressBookBySlug,
-	getAddressBooksForUser,
 	getContactAddressBookIds,
 	getContactByVcardId,
+	getContactGroupByVcardId,
 	getDefaultAddressBook,
 	deleteContact,
+	deleteContactGroup,
 	setContactAddressBooks,
 } from '../db'
-import { getUsers } from '../htpasswd'
 import { logger } from '../logger'
 import { FILE_WATCHER_DEBOUNCE_MS } from './constants'
 import { getAddressBooksForSync } from './address-books'
-import { getAddressBookPath, getAddressBookPathForUser, ensureDirectoryExists, extractBookPathSegmentFromPath } from './radicale-fs'
-import { syncRadicaleToDb } from './radicale-to-db'
+import { getAddressBookPath, ensureDirectoryExists, extractBookPathSegmentFromPath } from './radicale-fs'
+import { syncRadicaleFilesToDb } from './radicale-to-db'
+import { setWatcherQueueDepth, trackSyncRun } from './stats'
 
 /**
  * Start watching Radicale storage for changes
- * Watches both the master directory and all user directories
+ * User collections link to the master directories, so watching those sees every client write
  */
 export async function startWatchingRadicale(): Promise<void> {
 	const { books, hasAddressBooks } = await getAddressBooksForSync()
@@ -43,28 +44,6 @@ export async function startWatchingRadicale(): Promise<void> {
 
 	logger.info({ debounceMs: FILE_WATCHER_DEBOUNCE_MS }, 'File watcher debounce configured')
 
-	try {
-		const users = await getUsers()
-		for (const user of users) {
-			const userBooks = hasAddressBooks ? await getAddressBooksForUser(user.username) : books
-			for (const book of userBooks) {
-				const userPath = getAddressBookPathForUser(user.username, book.id)
-				ensureDirectoryExists(userPath)
-				if (watchedPaths.has(userPath)) continue
-				const userWatcher = watch(userPath, {
-					ignored: /(^|[\\/])\../,
-					persistent: true,
-					ignoreInitial: true,
-				})
-				watchers.push(userWatcher)
-				watchedPaths.add(userPath)
-				logger.info({ userPath }, 'Also watching user directory')
-			}
-		}
-	} catch (error) {
-		logger.error({ err: error }, 'Error setting up user directory watchers')
-	}
-
 	// Use a single debounce mechanism for all watchers
 	if (watchers.length === 0) {
 		logger.warn('No Radicale directories available to watch.')
@@ -81,6 +60,7 @@ export async function startWatchingRadicale(): Promise<void> {
 
 		const files = Array.from(pendingFiles)
 		pendingFiles.clear()
+		setWatcherQueueDepth(0)
 
 		// Only log if there are many files changed (likely a batch sync)
 		if (files.length > 1) {
@@ -90,10 +70,11 @@ export async function startWatchingRadicale(): Promise<void> {
 		}
 
 		try {
-			await syncRadicaleToDb(true) // Silent mode since we already logged above
+			// Only the changed files; the periodic reconciliation catches anything the watcher missed.
+			await trackSyncRun('radicale-to-db', 'watcher', () => syncRadicaleFilesToDb(files))
 		} catch (err) {
 			// Swallow — rejecting here would surface as an unhandledRejection and
-			// kill the process. Periodic sync and the next file change will
+			// kill the process. Reconciliation and the next file change will
 			// retry, so a transient DB outage resolves on its own.
 			logger.error({ err }, 'Watcher-triggered sync failed; will retry on next change or periodic tick')
 		}
@@ -101,6 +82,7 @@ export async function startWatchingRadicale(): Promise<void> {
 
 	const scheduleSync = (filePath: string) => {
 		pendingFiles.add(filePath)
+		setWatcherQueueDepth(pendingFiles.size)
 
 		if (debounceTimer) {
 			clearTimeout(debounceTimer)
@@ -161,12 +143,24 @@ export async function startWatchingRadicale(): Promise<void> {
 							} else {
 								logger.info({ vcardId }, 'Contact deleted from Radicale but keeping in DB (will be recreated)')
 							}
+						} else {
+							const pathSegment = extractBookPathSegmentFromPath(filePath)
+							const book =
+								(pathSegment && (await getAddressBookById(pathSegment))) ||
+								(pathSegment && (await getAddressBookBySlug(pathSegment))) ||
+								(pathSegment === 'shared-contacts' ? await getDefaultAddressBook() : null)
+							const group = book ? await getContactGroupByVcardId(book.id, vcardId) : null
+							// A group renamed or re-membered in the UI since the last sync is written back instead.
+							if (group && group.last_synced_at && group.updated_at <= group.last_synced_at) {
+								logger.info({ vcardId, bookId: group.address_book_id }, 'Deleting contact group (card removed from Radicale)')
+								await deleteContactGroup(group.id)
+							}
 						}
 					}
 				} catch (err) {
-					logger.error({ err, filePath }, 'Error handling file deletion; full sync will reconcile')
+					logger.error({ err, filePath }, 'Error handling file deletion; reconciliation will catch up')
 				} finally {
-					// Also trigger full sync to handle any other changes
+					// Also sync any other pending changes
 					scheduleSync(filePath)
 				}
 			})()
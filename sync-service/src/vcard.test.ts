@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { parseVCard, generateVCard, parseName } from './vcard'
+import { parseVCard, generateVCard, generateGroupVCard, isGroupVCard, parseName } from './vcard'
 
 describe('parseVCard', () => {
 	it('parses a minimal vCard 3.0', () => {
@@ -325,6 +325,58 @@ describe('round-trip: parse → generate → parse', () => {
 	})
 })
 
+describe('group vCards', () => {
+	it('parses an Apple group card', () => {
+		const vcard = [
+			'BEGIN:VCARD',
+			'VERSION:3.0',
+			'UID:family',
+			'FN:Family',
+			'X-ADDRESSBOOKSERVER-KIND:group',
+			'X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:ada',
+			'X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:grace',
+			'END:VCARD',
+		].join('\r\n')
+
+		const result = parseVCard(vcard)
+		expect(isGroupVCard(result)).toBe(true)
+		expect(result.members).toEqual(['ada', 'grace'])
+		expect(result.customFields).toEqual([])
+	})
+
+	it('merges KIND/MEMBER with the Apple properties', () => {
+		const vcard = [
+			'BEGIN:VCARD',
+			'VERSION:4.0',
+			'UID:team',
+			'FN:Team',
+			'KIND:Group',
+			'MEMBER:urn:uuid:ada',
+			'X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:ada',
+			'MEMBER:urn:uuid:linus',
+			'END:VCARD',
+		].join('\r\n')
+
+		const result = parseVCard(vcard)
+		expect(result.kind).toBe('group')
+		expect(result.members).toEqual(['ada', 'linus'])
+	})
+
+	it('does not treat contacts as groups', () => {
+		expect(isGroupVCard(parseVCard('BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Ada\r\nEND:VCARD'))).toBe(false)
+	})
+
+	it('generates a stable card that parses back', () => {
+		const card = generateGroupVCard({ uid: 'family', name: 'Family, close', memberUids: ['grace', 'ada'] })
+		expect(card).toBe(generateGroupVCard({ uid: 'family', name: 'Family, close', memberUids: ['ada', 'grace'] }))
+		expect(card).toContain('X-ADDRESSBOOKSERVER-KIND:group')
+		expect(card).toContain('MEMBER:urn:uuid:ada')
+
+		const parsed = parseVCard(card)
+		expect(parsed).toMatchObject({ uid: 'family', fn: 'Family, close', kind: 'group', members: ['ada', 'grace'] })
+	})
+})
+
 describe('parseName', () => {
 	it('parses structured name field', () => {
 		const result = parseName('Doe;John;M.;Dr.;Jr.')
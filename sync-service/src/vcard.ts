@@ -43,6 +43,15 @@ export interface VCardData {
 	note?: string
 	photo?: { data: string; type?: string }
 	version?: string
+	/** KIND (vCard 4) or X-ADDRESSBOOKSERVER-KIND (Apple), lower-cased; "group" for contact groups. */
+	kind?: string
+	/** Member UIDs of a group card, from MEMBER / X-ADDRESSBOOKSERVER-MEMBER without the urn:uuid: prefix. */
+	members?: string[]
+}
+
+/** Group cards describe a contact group, not a person; they are synced as groups, never as contacts. */
+export function isGroupVCard(data: VCardData): boolean {
+	return data.kind === 'group'
 }
 
 /**
@@ -278,6 +287,18 @@ function parseVCardLine(line: string, data: VCardData): void {
 				type,
 			}
 			break
+		case 'KIND':
+		case 'X-ADDRESSBOOKSERVER-KIND':
+			data.kind = value.trim().toLowerCase()
+			break
+		case 'MEMBER':
+		case 'X-ADDRESSBOOKSERVER-MEMBER': {
+			const member = value.trim().replace(/^urn:uuid:/i, '')
+			if (!member) break
+			if (!data.members) data.members = []
+			if (!data.members.includes(member)) data.members.push(member)
+			break
+		}
 		default:
 			// Match on the raw (possibly grouped) key so Apple's grouping-helper
 			// metadata such as item1.X-ABLabel is not ingested as a visible custom field.
@@ -643,7 +664,32 @@ export function generateVCard(
 	return lines.join('\r\n')
 }
 
-function foldVCardLine(line: string): string[] {
+/**
+ * Generate a contact group card. Both the vCard 4 KIND/MEMBER properties and
+ * Apple's X-ADDRESSBOOKSERVER-* ones are written: Apple Contacts only reads
+ * the latter, DAVx5 reads either. No REV, so the same group always yields the
+ * same card and unchanged groups are not rewritten.
+ */
+export function generateGroupVCard(group: { uid: string; name: string; memberUids: string[] }): string {
+	const name = normalizeVCardText(group.name)
+	const lines: string[] = [
+		'BEGIN:VCARD',
+		'VERSION:3.0',
+		`UID:${group.uid}`,
+		`FN:${name}`,
+		`N:${name};;;;`,
+		'KIND:group',
+		'X-ADDRESSBOOKSERVER-KIND:group',
+	]
+	for (const uid of [...group.memberUids].sort()) {
+		lines.push(...foldVCardLine(`MEMBER:urn:uuid:${uid}`))
+		lines.push(...foldVCardLine(`X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:${uid}`))
+	}
+	lines.push('END:VCARD')
+	return lines.join('\r\n')
+}
+
+export function foldVCardLine(line: string): string[] {
 	const maxLength = 75
 	if (line.length <= maxLength) return [line]
 
@@ -661,6 +707,47 @@ function foldVCardLine(line: string): string[] {
 	return lines
 }
 
+const PHOTO_LINE = /^(?:[\w-]+\.)?PHOTO[;:]/i
+
+/** Whether a card carries a PHOTO property. */
+export function hasVCardPhoto(card: string): boolean {
+	return card.split(/\r?\n/).some(line => PHOTO_LINE.test(line))
+}
+
+/** Drop PHOTO properties, folded continuation lines included. */
+export function stripVCardPhoto(card: string): string {
+	const eol = card.includes('\r\n') ? '\r\n' : '\n'
+	const kept: string[] = []
+	let inPhoto = false
+	for (const line of card.split(/\r?\n/)) {
+		if (inPhoto && /^[ \t]/.test(line)) continue
+		inPhoto = PHOTO_LINE.test(line)
+		if (!inPhoto) kept.push(line)
+	}
+	return kept.join(eol)
+}
+
+/**
+ * Put a PHOTO back into a card, where generateVCard writes it: after the
+ * name properties, or just before END:VCARD when the card has none.
+ */
+export function insertVCardPhoto(card: string, base64: string, mime?: string | null): string {
+	const eol = card.includes('\r\n') ? '\r\n' : '\n'
+	const lines = card.split(/\r?\n/)
+	let at = -1
+	lines.forEach((line, index) => {
+		if (/^(?:FN|N|NICKNAME)[;:]/i.test(line)) at = index + 1
+	})
+	if (at < 0) {
+		at = lines.findIndex(line => /^END:VCARD/i.test(line))
+		if (at < 0) at = lines.length
+	}
+	while (at < lines.length && /^[ \t]/.test(lines[at])) at++
+	const type = getPhotoType({}, { photo_mime: mime })
+	lines.splice(at, 0, ...foldVCardLine(`PHOTO;ENCODING=b;TYPE=${type}:${base64}`))
+	return lines.join(eol)
+}
+
 function getPhotoBase64(data: VCardData, contact?: { photo_blob?: Buffer | null }): string | null {
 	if (data.photo?.data) return data.photo.data
 	if (contact?.photo_blob) {
@@ -1,10 +1,12 @@
-import { defineConfig } from 'vitest/config'
+import { configDefaults, defineConfig } from 'vitest/config'
 
 export default defineConfig({
 	test: {
 		globals: true,
 		environment: 'node',
 		include: ['src/**/*.test.ts'],
+		// Timing benchmarks only run when asked for: npm run test:benchmark
+		exclude: process.env.BENCHMARK ? configDefaults.exclude : [...configDefaults.exclude, 'src/**/*.benchmark.test.ts'],
 		coverage: {
 			provider: 'v8',
 			include: ['src/**/*.ts'],
@@ -0,0 +1,42 @@
+import { createError, defineEventHandler, getHeader, redirect } from 'h3'
+import {
+	AUTH_USER_HEADER,
+	encodeAuthUserHeader,
+	getSessionUser,
+	isAuthDisabled,
+	isPublicApiPath,
+	readSessionToken,
+} from '../../src/lib/auth'
+
+/**
+ * Login wall for the management UI. Every /api/* route except health, the
+ * auth endpoints and the token-protected calendar feed needs a valid session cookie; page navigations without one
+ * are redirected to /login. /carddav is proxied to Radicale, which does its
+ * own Basic auth, so it is left alone.
+ */
+export default defineEventHandler(async event => {
+	// Never trust an identity header coming from the client.
+	event.req.headers.delete(AUTH_USER_HEADER)
+	if (isAuthDisabled()) return
+
+	const pathname = event.url.pathname
+	if (pathname === '/carddav' || pathname.startsWith('/carddav/')) return
+
+	const isApi = pathname.startsWith('/api/')
+	const isPageNavigation = !isApi && event.req.method === 'GET' && (getHeader(event, 'accept') || '').includes('text/html')
+	if (!isApi && !isPageNavigation) return
+	if (isApi && isPublicApiPath(pathname)) return
+	if (pathname === '/login') return
+
+	const token = readSessionToken(getHeader(event, 'cookie'))
+	const user = token ? await getSessionUser(token) : null
+	if (user) {
+		event.req.headers.set(AUTH_USER_HEADER, encodeAuthUserHeader(user))
+		return
+	}
+
+	if (isApi) {
+		throw createError({ statusCode: 401, statusMessage: 'Unauthorized', message: 'Sign in required' })
+	}
+	return redirect(`/login?redirect=${encodeURIComponent(pathname + event.url.search)}`)
+})
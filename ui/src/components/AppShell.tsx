@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react'
+import { useRouterState } from '@tanstack/react-router'
 import { PanelLeftOpen } from 'lucide-react'
 import { AppSidebar } from './AppSidebar'
 import { MobileHeader } from './MobileHeader'
@@ -8,9 +9,11 @@ import { MobileHeader } from './MobileHeader'
  * a slim rail with just the expand control, giving wide pages (relationship
  * trees, the contacts table) the full viewport width. Preference persists in
  * localStorage. Mobile keeps the existing sheet-based header navigation.
+ * The login page renders bare, without any navigation.
  */
 export function AppShell({ children }: { children: React.ReactNode }) {
 	const [collapsed, setCollapsed] = useState(false)
+	const pathname = useRouterState({ select: state => state.location.pathname })
 
 	useEffect(() => {
 		try {
@@ -31,6 +34,10 @@ export function AppShell({ children }: { children: React.ReactNode }) {
 		})
 	}
 
+	if (pathname === '/login') {
+		return <main className="h-screen overflow-y-auto">{children}</main>
+	}
+
 	return (
 		<div className="flex h-screen overflow-hidden">
 			{/* Desktop sidebar / rail */}
@@ -1,21 +1,29 @@
 import { useState } from 'react'
 import { Link } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
 import {
 	BookOpen,
+	Cake,
 	ContactRound,
+	GitCompare,
 	Heart,
 	HelpCircle,
 	History,
 	Info,
 	Link as LinkIcon,
+	LogOut,
 	Network,
 	NotebookTabs,
 	PanelLeftClose,
+	RefreshCw,
+	ShieldCheck,
+	Tags,
 	Trash2,
 	Upload,
 	Users,
 } from 'lucide-react'
 
+import { SESSION_QUERY_KEY, fetchSession, isInstanceOwner, signOut } from '../lib/auth-client'
 import { ThemeToggle } from './ThemeToggle'
 import { PhosphorToggle } from './PhosphorToggle'
 import { SupportDialog } from './SupportDialog'
@@ -35,6 +43,14 @@ interface AppSidebarProps {
 
 export function AppSidebar({ onNavigate, onCollapse }: AppSidebarProps) {
 	const [supportOpen, setSupportOpen] = useState(false)
+	const { data: session } = useQuery({ queryKey: SESSION_QUERY_KEY, queryFn: fetchSession })
+	const user = session?.user ?? null
+	const isOwner = isInstanceOwner(session)
+
+	const handleSignOut = async () => {
+		await signOut()
+		window.location.assign('/login')
+	}
 
 	return (
 		<aside className="flex h-full flex-col bg-sidebar text-sidebar-foreground">
@@ -78,17 +94,29 @@ export function AppSidebar({ onNavigate, onCollapse }: AppSidebarProps) {
 						<Network className="size-4 shrink-0" />
 						Relationships
 					</Link>
+					<Link to="/upcoming" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
+						<Cake className="size-4 shrink-0" />
+						Upcoming
+					</Link>
+					<Link to="/tags" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
+						<Tags className="size-4 shrink-0" />
+						Tags
+					</Link>
 					<Link to="/import" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
 						<Upload className="size-4 shrink-0" />
 						Import
 					</Link>
+					<Link to="/conflicts" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
+						<GitCompare className="size-4 shrink-0" />
+						Conflicts
+					</Link>
 					<Link to="/trash" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
 						<Trash2 className="size-4 shrink-0" />
 						Deleted
 					</Link>
 					<Link
 						to="/history"
-						search={{ contactId: undefined }}
+						search={{ contactId: undefined, batchId: undefined }}
 						className={navLinkClass}
 						activeProps={{ className: navLinkActiveClass }}
 						onClick={onNavigate}
@@ -105,14 +133,26 @@ export function AppSidebar({ onNavigate, onCollapse }: AppSidebarProps) {
 						<BookOpen className="size-4 shrink-0" />
 						All Books
 					</Link>
-					<Link to="/radicale-users" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
-						<Users className="size-4 shrink-0" />
-						Book Users
-					</Link>
-					<Link to="/carddav-connection" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
-						<LinkIcon className="size-4 shrink-0" />
-						CardDAV Config
-					</Link>
+					{isOwner && (
+						<>
+							<Link to="/radicale-users" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
+								<Users className="size-4 shrink-0" />
+								Book Users
+							</Link>
+							<Link to="/carddav-connection" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
+								<LinkIcon className="size-4 shrink-0" />
+								CardDAV Config
+							</Link>
+							<Link to="/sync" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
+								<RefreshCw className="size-4 shrink-0" />
+								Sync
+							</Link>
+							<Link to="/users" className={navLinkClass} activeProps={{ className: navLinkActiveClass }} onClick={onNavigate}>
+								<ShieldCheck className="size-4 shrink-0" />
+								Admins
+							</Link>
+						</>
+					)}
 				</div>
 
 				{/* Help & About */}
@@ -137,6 +177,17 @@ export function AppSidebar({ onNavigate, onCollapse }: AppSidebarProps) {
 					<PhosphorToggle />
 					<ThemeToggle />
 				</div>
+				{user && (
+					<button
+						type="button"
+						onClick={handleSignOut}
+						className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm text-sidebar-foreground/80 transition-colors outline-none hover:bg-sidebar-accent hover:text-sidebar-accent-foreground focus-visible:ring-[3px] focus-visible:ring-sidebar-ring/50"
+						title={user.email}
+					>
+						<LogOut className="size-4 shrink-0" />
+						<span className="truncate">Sign out {user.name || user.email}</span>
+					</button>
+				)}
 				<button
 					type="button"
 					onClick={() => setSupportOpen(true)}
@@ -0,0 +1,231 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Plus, X } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { BULK_EDIT_FIELDS } from '../lib/bulk-edit-fields'
+import { formatValue, undoHistory } from '../lib/history-format'
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Input } from './ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import type { BulkEditChange, BulkEditField, BulkEditOperation } from '../lib/bulk-edit-fields'
+import type { BulkEditPreview } from '../lib/bulk-edit'
+
+interface BulkEditDialogProps {
+	contactIds: Array<string>
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	onEdited?: () => void
+}
+
+const OPERATION_LABELS: Record<BulkEditOperation, string> = {
+	set: 'Set to',
+	clear: 'Clear',
+	append: 'Append',
+	prepend: 'Prepend',
+}
+
+const EMPTY_CHANGE: BulkEditChange = { field: 'organization', operation: 'set', value: '' }
+
+async function bulkEdit<T>(contactIds: Array<string>, changes: Array<BulkEditChange>, preview: boolean): Promise<T> {
+	const response = await fetch('/api/contacts/bulk-edit', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({
+			contact_ids: contactIds,
+			changes: changes.map(change => (change.operation === 'clear' ? { field: change.field, operation: 'clear' } : change)),
+			preview,
+		}),
+	})
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to edit contacts')
+	}
+	return response.json()
+}
+
+/**
+ * Set, clear, append or prepend fields across the contacts list selection.
+ * Changes are previewed on the server before they are applied, and the applied
+ * edit can be undone as one batch.
+ */
+export function BulkEditDialog({ contactIds, open, onOpenChange, onEdited }: BulkEditDialogProps) {
+	const queryClient = useQueryClient()
+	const [changes, setChanges] = useState<Array<BulkEditChange>>([EMPTY_CHANGE])
+	const [preview, setPreview] = useState<Array<BulkEditPreview> | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		if (open) {
+			setChanges([EMPTY_CHANGE])
+			setPreview(null)
+			setError(null)
+		}
+	}, [open])
+
+	const updateChange = (index: number, patch: Partial<BulkEditChange>) => {
+		setChanges(prev => prev.map((change, i) => (i === index ? { ...change, ...patch } : change)))
+		setPreview(null)
+	}
+
+	const removeChange = (index: number) => {
+		setChanges(prev => prev.filter((_, i) => i !== index))
+		setPreview(null)
+	}
+
+	const isComplete = changes.length > 0 && changes.every(change => change.operation === 'clear' || !!change.value?.trim())
+
+	const undoMutation = useMutation({
+		mutationFn: undoHistory,
+		onSuccess: response => {
+			toast.success(response.message || 'Bulk edit undone')
+			queryClient.invalidateQueries({ queryKey: ['contacts'] })
+			queryClient.invalidateQueries({ queryKey: ['history'] })
+		},
+		onError: (err: Error) => toast.error(err.message),
+	})
+
+	const previewMutation = useMutation({
+		mutationFn: () => bulkEdit<{ contacts: Array<BulkEditPreview> }>(contactIds, changes, true),
+		onSuccess: result => {
+			setPreview(result.contacts)
+			setError(null)
+		},
+		onError: (err: Error) => setError(err.message),
+	})
+
+	const applyMutation = useMutation({
+		mutationFn: () => bulkEdit<{ updated: number; historyId: string | null }>(contactIds, changes, false),
+		onSuccess: ({ updated, historyId }) => {
+			queryClient.invalidateQueries({ queryKey: ['contacts'] })
+			queryClient.invalidateQueries({ queryKey: ['history'] })
+			toast.success(`Updated ${updated} contact${updated === 1 ? '' : 's'}`, {
+				action: historyId ? { label: 'Undo', onClick: () => undoMutation.mutate(historyId) } : undefined,
+			})
+			onEdited?.()
+			onOpenChange(false)
+		},
+		onError: (err: Error) => setError(err.message),
+	})
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-2xl">
+				<DialogHeader>
+					<DialogTitle>Bulk Edit</DialogTitle>
+					<DialogDescription>
+						Change fields on {contactIds.length} selected contact{contactIds.length === 1 ? '' : 's'}. Categories and departments take
+						comma-separated values.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4 py-2">
+					<div className="space-y-2">
+						{changes.map((change, index) => (
+							<div key={index} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+								<Select value={change.field} onValueChange={value => updateChange(index, { field: value as BulkEditField })}>
+									<SelectTrigger className="sm:w-44" aria-label="Field">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{(Object.keys(BULK_EDIT_FIELDS) as Array<BulkEditField>).map(field => (
+											<SelectItem key={field} value={field}>
+												{BULK_EDIT_FIELDS[field].label}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+								<Select value={change.operation} onValueChange={value => updateChange(index, { operation: value as BulkEditOperation })}>
+									<SelectTrigger className="sm:w-32" aria-label="Operation">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{(Object.keys(OPERATION_LABELS) as Array<BulkEditOperation>).map(operation => (
+											<SelectItem key={operation} value={operation}>
+												{OPERATION_LABELS[operation]}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+								<Input
+									className="flex-1"
+									value={change.operation === 'clear' ? '' : (change.value ?? '')}
+									onChange={e => updateChange(index, { value: e.target.value })}
+									disabled={change.operation === 'clear'}
+									placeholder={BULK_EDIT_FIELDS[change.field].kind === 'list' ? 'one, two' : 'Value'}
+									aria-label="Value"
+								/>
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => removeChange(index)}
+									disabled={changes.length === 1}
+									aria-label="Remove change"
+								>
+									<X className="size-4" />
+								</Button>
+							</div>
+						))}
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => {
+								setChanges(prev => [...prev, EMPTY_CHANGE])
+								setPreview(null)
+							}}
+						>
+							<Plus className="size-4" />
+							Add field
+						</Button>
+					</div>
+
+					{preview &&
+						(preview.length === 0 ? (
+							<p className="text-sm text-muted-foreground">No selected contact would change.</p>
+						) : (
+							<div className="max-h-72 overflow-y-auto rounded-md border">
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Contact</TableHead>
+											<TableHead>Field</TableHead>
+											<TableHead>Before</TableHead>
+											<TableHead>After</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{preview.flatMap(contact =>
+											contact.changes.map((change, index) => (
+												<TableRow key={`${contact.contactId}:${change.field}`}>
+													<TableCell className="font-medium">{index === 0 ? contact.name : ''}</TableCell>
+													<TableCell>{change.label}</TableCell>
+													<TableCell className="text-muted-foreground">{formatValue(change.before)}</TableCell>
+													<TableCell>{formatValue(change.after)}</TableCell>
+												</TableRow>
+											))
+										)}
+									</TableBody>
+								</Table>
+							</div>
+						))}
+
+					{error && <div className="text-sm text-destructive bg-destructive/10 rounded-lg px-3 py-2">{error}</div>}
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					{preview && preview.length > 0 ? (
+						<Button onClick={() => applyMutation.mutate()} disabled={applyMutation.isPending}>
+							{applyMutation.isPending ? 'Updating…' : `Update ${preview.length} contact${preview.length === 1 ? '' : 's'}`}
+						</Button>
+					) : (
+						<Button onClick={() => previewMutation.mutate()} disabled={!isComplete || previewMutation.isPending}>
+							{previewMutation.isPending ? 'Loading…' : 'Preview'}
+						</Button>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
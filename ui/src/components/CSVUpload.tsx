@@ -1,51 +1,45 @@
 import { useRef, useState } from 'react'
-import { useMutation, useQueryClient } from '@tanstack/react-query'
-import { CheckCircle2, FileText, Loader2, Upload, XCircle } from 'lucide-react'
+import { useMutation } from '@tanstack/react-query'
+import { FileText, Loader2, Upload, XCircle } from 'lucide-react'
 import { toast } from 'sonner'
 import { Button } from './ui/button'
-import { Badge } from './ui/badge'
 import { Card, CardContent } from './ui/card'
+import type { ImportSessionView } from '../lib/contact-import'
 
-interface ImportResult {
-	message: string
-	success: number
-	updated: number
-	skipped: number
-	failed: number
-	errors?: Array<{ row: number; error: string }>
-}
+const ACCEPTED_EXTENSIONS = ['.csv', '.vcf', '.vcard']
 
-async function importCSV(file: File): Promise<ImportResult> {
+async function stageImport(file: File): Promise<ImportSessionView> {
 	const formData = new FormData()
 	formData.append('file', file)
 
-	const response = await fetch('/api/contacts/import', {
+	const response = await fetch('/api/contacts/import/sessions', {
 		method: 'POST',
 		body: formData,
 	})
 
 	if (!response.ok) {
 		const error = await response.json()
-		throw new Error(error.error || 'Failed to import CSV')
+		throw new Error(error.error || 'Failed to read import file')
 	}
 
-	return response.json()
+	const body: { session: ImportSessionView } = await response.json()
+	return body.session
 }
 
-export function CSVUpload() {
+/**
+ * First step of an import: pick a CSV or vCard file and stage it. Nothing is
+ * written until the preview that follows is confirmed.
+ */
+export function CSVUpload({ onStaged }: { onStaged: (session: ImportSessionView) => void }) {
 	const [file, setFile] = useState<File | null>(null)
 	const [isDragging, setIsDragging] = useState(false)
 	const inputRef = useRef<HTMLInputElement>(null)
-	const queryClient = useQueryClient()
 
 	const importMutation = useMutation({
-		mutationFn: importCSV,
-		onSuccess: data => {
-			// Invalidate contacts query to refresh the list
-			queryClient.invalidateQueries({ queryKey: ['contacts'] })
-			toast.success(`Imported ${data.success} contact${data.success === 1 ? '' : 's'}`)
-			// Reset file after successful import
+		mutationFn: stageImport,
+		onSuccess: session => {
 			setFile(null)
+			onStaged(session)
 		},
 		onError: (err: Error) => {
 			toast.error(err.message)
@@ -54,10 +48,10 @@ export function CSVUpload() {
 
 	const selectFile = (selectedFile: File | undefined) => {
 		if (!selectedFile) return
-		if (selectedFile.name.toLowerCase().endsWith('.csv')) {
+		if (ACCEPTED_EXTENSIONS.some(extension => selectedFile.name.toLowerCase().endsWith(extension))) {
 			setFile(selectedFile)
 		} else {
-			toast.error('Please select a CSV file')
+			toast.error('Please select a CSV or vCard (.vcf) file')
 		}
 	}
 
@@ -82,15 +76,13 @@ export function CSVUpload() {
 		}
 	}
 
-	const result = importMutation.data
-
 	return (
 		<div className="space-y-4">
 			<input
 				ref={inputRef}
 				id="csv-upload"
 				type="file"
-				accept=".csv"
+				accept=".csv,.vcf,.vcard,text/csv,text/vcard"
 				onChange={handleFileChange}
 				className="sr-only"
 				disabled={importMutation.isPending}
@@ -100,7 +92,7 @@ export function CSVUpload() {
 			<div
 				role="button"
 				tabIndex={0}
-				aria-label="Choose a CSV file or drop one here"
+				aria-label="Choose a CSV or vCard file or drop one here"
 				aria-disabled={importMutation.isPending}
 				onClick={() => !importMutation.isPending && openPicker()}
 				onKeyDown={e => {
@@ -127,9 +119,9 @@ export function CSVUpload() {
 						{file.name}
 					</div>
 				) : (
-					<p className="text-sm font-medium">Drop a CSV file here, or click to choose</p>
+					<p className="text-sm font-medium">Drop a CSV or vCard file here, or click to choose</p>
 				)}
-				<p className="text-xs text-muted-foreground">CSV files only</p>
+				<p className="text-xs text-muted-foreground">CSV or vCard (.vcf) files, including multi-contact exports</p>
 			</div>
 
 			<div className="flex items-center justify-end gap-2">
@@ -142,51 +134,17 @@ export function CSVUpload() {
 					{importMutation.isPending ? (
 						<>
 							<Loader2 className="mr-1 size-4 animate-spin" />
-							Importing…
+							Reading…
 						</>
 					) : (
 						<>
 							<Upload className="mr-1 size-4" />
-							Import
+							Preview
 						</>
 					)}
 				</Button>
 			</div>
 
-			{/* Success summary */}
-			{importMutation.isSuccess && result && (
-				<Card>
-					<CardContent className="space-y-3">
-						<div className="flex items-start gap-2">
-							<CheckCircle2 className="mt-0.5 size-5 text-primary" />
-							<div className="flex-1 space-y-2">
-								<p className="text-sm font-medium">{result.message}</p>
-								<div className="flex flex-wrap gap-2">
-									<Badge variant="secondary">{result.success} imported</Badge>
-									{result.updated > 0 && <Badge variant="secondary">{result.updated} updated</Badge>}
-									{result.skipped > 0 && <Badge variant="outline">{result.skipped} skipped</Badge>}
-									{result.failed > 0 && <Badge variant="destructive">{result.failed} failed</Badge>}
-								</div>
-								{result.errors && result.errors.length > 0 && (
-									<details className="mt-1">
-										<summary className="cursor-pointer text-sm text-muted-foreground outline-none focus-visible:ring-ring/50 focus-visible:ring-[3px] rounded">
-											{result.errors.length} error{result.errors.length === 1 ? '' : 's'}
-										</summary>
-										<ul className="mt-2 space-y-1 text-sm text-muted-foreground">
-											{result.errors.map((error, idx) => (
-												<li key={idx}>
-													Row {error.row}: {error.error}
-												</li>
-											))}
-										</ul>
-									</details>
-								)}
-							</div>
-						</div>
-					</CardContent>
-				</Card>
-			)}
-
 			{/* Error summary */}
 			{importMutation.isError && (
 				<Card className="border-destructive/50">
@@ -194,7 +152,7 @@ export function CSVUpload() {
 						<div className="flex items-start gap-2">
 							<XCircle className="mt-0.5 size-5 text-destructive" />
 							<div className="flex-1">
-								<p className="text-sm font-medium">Import failed</p>
+								<p className="text-sm font-medium">Could not read the file</p>
 								<p className="mt-1 text-sm text-muted-foreground">
 									{importMutation.error instanceof Error ? importMutation.error.message : 'An unknown error occurred'}
 								</p>
@@ -31,7 +31,7 @@ export function ContactAvatar({ contact, className }: ContactAvatarProps) {
 		>
 			{showPhoto && (
 				<img
-					src={getContactPhotoUrl(contact)}
+					src={getContactPhotoUrl(contact, 64)}
 					alt={displayName}
 					className="h-full w-full object-cover"
 					onError={() => setShowPhoto(false)}
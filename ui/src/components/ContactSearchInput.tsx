@@ -0,0 +1,114 @@
+import { useRef, useState } from 'react'
+import { applyQueryCompletion, suggestQueryCompletions } from '../lib/contact-query'
+import { Input } from './ui/input'
+import type { KeyboardEvent } from 'react'
+
+interface ContactSearchInputProps {
+	value: string
+	onChange: (value: string) => void
+	/** Books offered after "book:". */
+	books: Array<{ slug: string; name: string }>
+	/** Why the server rejected the current query, shown under the box. */
+	error?: string | null
+}
+
+/**
+ * The contacts search box. Plain words search names, emails, phones and
+ * notes; qualifiers such as `book:family`, `has:birthday` or `-has:email`
+ * narrow the list and are completed while typing.
+ */
+export function ContactSearchInput({ value, onChange, books, error }: ContactSearchInputProps) {
+	const inputRef = useRef<HTMLInputElement>(null)
+	const [cursor, setCursor] = useState(0)
+	const [isOpen, setIsOpen] = useState(false)
+	const [highlighted, setHighlighted] = useState(0)
+
+	const completions = isOpen ? suggestQueryCompletions(value, cursor, books) : []
+	const active = Math.min(highlighted, Math.max(0, completions.length - 1))
+
+	const syncCursor = () => {
+		setCursor(inputRef.current?.selectionStart ?? value.length)
+	}
+
+	const accept = (index: number) => {
+		const next = applyQueryCompletion(value, cursor, completions[index])
+		onChange(next.value)
+		setCursor(next.cursor)
+		setHighlighted(0)
+		// Put the caret after the inserted term once React has re-rendered the value.
+		requestAnimationFrame(() => {
+			inputRef.current?.focus()
+			inputRef.current?.setSelectionRange(next.cursor, next.cursor)
+		})
+	}
+
+	const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+		if (completions.length === 0) return
+		if (e.key === 'ArrowDown') {
+			e.preventDefault()
+			setHighlighted((active + 1) % completions.length)
+		} else if (e.key === 'ArrowUp') {
+			e.preventDefault()
+			setHighlighted((active - 1 + completions.length) % completions.length)
+		} else if (e.key === 'Enter' || e.key === 'Tab') {
+			e.preventDefault()
+			accept(active)
+		} else if (e.key === 'Escape') {
+			setIsOpen(false)
+		}
+	}
+
+	return (
+		<div className="relative flex-1">
+			<span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 select-none font-medium text-primary">❯</span>
+			<Input
+				ref={inputRef}
+				type="text"
+				placeholder="search: name, email, or book:family has:birthday -has:email…"
+				value={value}
+				onChange={e => {
+					onChange(e.target.value)
+					setCursor(e.target.selectionStart ?? e.target.value.length)
+					setHighlighted(0)
+					setIsOpen(true)
+				}}
+				onKeyDown={handleKeyDown}
+				onKeyUp={e => {
+					if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') syncCursor()
+				}}
+				onClick={() => {
+					syncCursor()
+					setIsOpen(true)
+				}}
+				onBlur={() => setIsOpen(false)}
+				aria-invalid={error ? true : undefined}
+				aria-autocomplete="list"
+				aria-expanded={completions.length > 0}
+				className="pl-8"
+			/>
+			{completions.length > 0 && (
+				<div role="listbox" className="absolute left-0 right-0 top-full z-20 mt-1 rounded-sm border border-primary bg-background shadow-md">
+					{completions.map((completion, index) => (
+						<button
+							key={completion.insert}
+							type="button"
+							role="option"
+							aria-selected={index === active}
+							// Keep focus in the input so the blur handler doesn't close the list first.
+							onMouseDown={e => e.preventDefault()}
+							onClick={() => accept(index)}
+							onMouseEnter={() => setHighlighted(index)}
+							className={`flex w-full items-center gap-2 px-2 py-1.5 text-left text-xs hover:bg-secondary hover:text-foreground ${
+								index === active ? 'bg-secondary text-foreground' : 'text-muted-foreground'
+							}`}
+						>
+							<span className="font-mono">{completion.label}</span>
+							<span className="ml-auto truncate text-[10px] opacity-70">{completion.description}</span>
+						</button>
+					))}
+				</div>
+			)}
+			{error && <p className="mt-1 text-xs text-destructive">{error}</p>}
+		</div>
+	)
+}
@@ -0,0 +1,453 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Link } from '@tanstack/react-router'
+import { CheckCircle2, FileText, Loader2, RotateCcw, Upload, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { CSV_IMPORT_FIELDS } from '../lib/csv'
+import { undoHistory } from '../lib/history-format'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Checkbox } from './ui/checkbox'
+import { ConfirmDialog } from './ui/confirm-dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import type { ImportOutcome, ImportPreviewRow, ImportSessionView, MatchStrategy } from '../lib/contact-import'
+import type { AddressBook } from '../lib/db'
+
+export interface ImportCommitResult {
+	message: string
+	format: 'csv' | 'vcard'
+	success: number
+	updated: number
+	skipped: number
+	failed: number
+	errors: Array<{ row: number; error: string }>
+	historyId: string | null
+}
+
+const IGNORE_VALUE = '__ignore__'
+// Enough to eyeball an import; overrides for rows past this are rare and the
+// filter narrows the list.
+const MAX_VISIBLE_ROWS = 200
+
+const OUTCOME_LABELS: Record<ImportOutcome, string> = {
+	create: 'Create new',
+	update: 'Update existing',
+	skip: 'Skip',
+}
+
+const STRATEGY_LABELS: Record<MatchStrategy, string> = {
+	overwrite: 'Overwrite with imported values',
+	fill_empty: 'Fill empty fields only',
+	skip: 'Skip',
+	create: 'Create a new contact',
+}
+
+type RowFilter = ImportOutcome | 'all'
+
+async function fetchAddressBooks(): Promise<Array<AddressBook>> {
+	const response = await fetch('/api/address-books')
+	if (!response.ok) throw new Error('Failed to fetch address books')
+	return response.json()
+}
+
+async function patchSession(
+	id: string,
+	changes: {
+		column_mapping?: Array<string | null>
+		decisions?: Record<string, ImportOutcome | null>
+		address_book_ids?: Array<string> | null
+		match_strategy?: MatchStrategy
+	}
+): Promise<ImportSessionView> {
+	const response = await fetch(`/api/contacts/import/sessions/${id}`, {
+		method: 'PATCH',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(changes),
+	})
+	if (!response.ok) {
+		const error = await response.json()
+		throw new Error(error.error || 'Failed to update import preview')
+	}
+	const body: { session: ImportSessionView } = await response.json()
+	return body.session
+}
+
+async function commitSession(id: string): Promise<ImportCommitResult> {
+	const response = await fetch(`/api/contacts/import/sessions/${id}/commit`, { method: 'POST' })
+	if (!response.ok) {
+		const error = await response.json()
+		throw new Error(error.error || 'Failed to import contacts')
+	}
+	return response.json()
+}
+
+async function discardSession(id: string): Promise<void> {
+	const response = await fetch(`/api/contacts/import/sessions/${id}`, { method: 'DELETE' })
+	if (!response.ok) {
+		const error = await response.json()
+		throw new Error(error.error || 'Failed to discard import')
+	}
+}
+
+function rowLabel(format: ImportSessionView['format']): string {
+	return format === 'vcard' ? 'Card' : 'Row'
+}
+
+/**
+ * Second step of an import: check how each CSV column is read and what will
+ * happen to each row, override either, then confirm. Every change re-runs the
+ * preview on the server so matches always reflect the current mapping.
+ */
+export function ImportPreview({
+	session,
+	onChange,
+	onCommitted,
+	onDiscarded,
+}: {
+	session: ImportSessionView
+	onChange: (session: ImportSessionView) => void
+	onCommitted: (result: ImportCommitResult) => void
+	onDiscarded: () => void
+}) {
+	const queryClient = useQueryClient()
+	const [filter, setFilter] = useState<RowFilter>('all')
+	const [confirmOpen, setConfirmOpen] = useState(false)
+	const { data: books = [] } = useQuery({ queryKey: ['address-books'], queryFn: fetchAddressBooks })
+
+	const updateMutation = useMutation({
+		mutationFn: (changes: Parameters<typeof patchSession>[1]) => patchSession(session.id, changes),
+		onSuccess: onChange,
+		onError: (err: Error) => toast.error(err.message),
+	})
+
+	const commitMutation = useMutation({
+		mutationFn: () => commitSession(session.id),
+		onSuccess: result => {
+			setConfirmOpen(false)
+			queryClient.invalidateQueries({ queryKey: ['contacts'] })
+			queryClient.invalidateQueries({ queryKey: ['history'] })
+			onCommitted(result)
+		},
+		onError: (err: Error) => {
+			setConfirmOpen(false)
+			toast.error(err.message)
+		},
+	})
+
+	const discardMutation = useMutation({
+		mutationFn: () => discardSession(session.id),
+		onSuccess: onDiscarded,
+		onError: (err: Error) => toast.error(err.message),
+	})
+
+	const busy = updateMutation.isPending || commitMutation.isPending || discardMutation.isPending
+	const writes = session.counts.create + session.counts.update
+	const filtered = filter === 'all' ? session.rows : session.rows.filter(row => row.outcome === filter)
+	const visible = filtered.slice(0, MAX_VISIBLE_ROWS)
+	// With no books chosen the server uses the default book, so show that one ticked.
+	const selectedBookIds = session.address_book_ids?.length
+		? session.address_book_ids
+		: books.filter(book => book.slug === 'shared-contacts').map(book => book.id)
+
+	const toggleBook = (bookId: string, checked: boolean) => {
+		const next = checked ? [...selectedBookIds, bookId] : selectedBookIds.filter(id => id !== bookId)
+		updateMutation.mutate({ address_book_ids: next.length > 0 ? next : null })
+	}
+
+	const setMapping = (index: number, value: string) => {
+		const mapping = session.columns.map(column => column.mapping)
+		mapping[index] = value === IGNORE_VALUE ? null : value
+		updateMutation.mutate({ column_mapping: mapping })
+	}
+
+	const setDecision = (row: ImportPreviewRow, value: ImportOutcome) => {
+		// Choosing what the importer would do anyway clears the override.
+		updateMutation.mutate({ decisions: { [row.position]: value === row.detected ? null : value } })
+	}
+
+	return (
+		<div className="space-y-6">
+			<Card>
+				<CardHeader>
+					<CardTitle className="flex items-center gap-2">
+						<FileText className="size-4 text-muted-foreground" />
+						{session.file_name}
+					</CardTitle>
+					<CardDescription>Nothing has been imported yet. Check the preview, then confirm.</CardDescription>
+				</CardHeader>
+				<CardContent className="flex flex-wrap gap-2">
+					<Badge variant="secondary">{session.counts.create} new</Badge>
+					<Badge variant="secondary">{session.counts.update} update existing</Badge>
+					<Badge variant="outline">{session.counts.skip} skipped</Badge>
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Options</CardTitle>
+					<CardDescription>Where new contacts go, and what happens to rows that match an existing contact.</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					{books.length > 0 && (
+						<div className="space-y-2">
+							<p className="text-sm font-medium">Add new contacts to</p>
+							<div className="flex flex-col gap-2.5">
+								{books.map(book => (
+									<label key={book.id} className="flex items-center gap-2 text-sm">
+										<Checkbox
+											checked={selectedBookIds.includes(book.id)}
+											onCheckedChange={value => toggleBook(book.id, value === true)}
+											disabled={busy}
+										/>
+										<span>{book.name}</span>
+										{book.is_public && <span className="text-xs text-muted-foreground">(public)</span>}
+									</label>
+								))}
+							</div>
+						</div>
+					)}
+					<div className="space-y-2">
+						<p className="text-sm font-medium">When a row matches an existing contact</p>
+						<Select
+							value={session.match_strategy}
+							onValueChange={value => updateMutation.mutate({ match_strategy: value as MatchStrategy })}
+							disabled={busy}
+						>
+							<SelectTrigger className="h-8 w-full max-w-[280px] text-sm" aria-label="When a row matches an existing contact">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{(Object.keys(STRATEGY_LABELS) as Array<MatchStrategy>).map(strategy => (
+									<SelectItem key={strategy} value={strategy}>
+										{STRATEGY_LABELS[strategy]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</CardContent>
+			</Card>
+
+			{session.columns.length > 0 && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Columns</CardTitle>
+						<CardDescription>Each column was matched by its header. Change any that were guessed wrong.</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Column</TableHead>
+									<TableHead>Sample values</TableHead>
+									<TableHead className="w-[200px]">Imports as</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{session.columns.map(column => (
+									<TableRow key={column.index}>
+										<TableCell className="font-medium">{column.header || `Column ${column.index + 1}`}</TableCell>
+										<TableCell className="max-w-[280px] truncate text-sm text-muted-foreground">
+											{column.samples.length > 0 ? column.samples.join(', ') : '—'}
+										</TableCell>
+										<TableCell>
+											<Select
+												value={column.mapping ?? IGNORE_VALUE}
+												onValueChange={value => setMapping(column.index, value)}
+												disabled={busy}
+											>
+												<SelectTrigger className="h-8 w-full text-sm" aria-label={`Import ${column.header} as`}>
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													<SelectItem value={IGNORE_VALUE}>Ignore column</SelectItem>
+													{CSV_IMPORT_FIELDS.map(field => (
+														<SelectItem key={field.key} value={field.key}>
+															{field.label}
+															{field.key === column.detected ? ' (detected)' : ''}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					</CardContent>
+				</Card>
+			)}
+
+			<Card>
+				<CardHeader>
+					<CardTitle>{session.format === 'vcard' ? 'Cards' : 'Rows'}</CardTitle>
+					<CardDescription>Matches are found by UID, email, or name and phone. Change the action for any row.</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-3">
+					<div className="flex flex-wrap gap-1">
+						{(['all', 'create', 'update', 'skip'] as const).map(value => (
+							<Button
+								key={value}
+								type="button"
+								size="sm"
+								variant={filter === value ? 'secondary' : 'ghost'}
+								onClick={() => setFilter(value)}
+							>
+								{value === 'all' ? `All (${session.rows.length})` : `${OUTCOME_LABELS[value]} (${session.counts[value]})`}
+							</Button>
+						))}
+					</div>
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead className="w-[60px]">{rowLabel(session.format)}</TableHead>
+								<TableHead>Name</TableHead>
+								<TableHead>Email / phone</TableHead>
+								<TableHead>Existing contact</TableHead>
+								<TableHead className="w-[170px]">Action</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{visible.map(row => (
+								<TableRow key={row.position} className={row.outcome === 'skip' ? 'opacity-60' : ''}>
+									<TableCell className="text-sm text-muted-foreground">{row.position}</TableCell>
+									<TableCell className="text-sm">
+										{row.error ? <span className="text-destructive">{row.error}</span> : row.full_name || '—'}
+										{row.has_photo && <span className="ml-1 text-xs text-muted-foreground">(photo)</span>}
+									</TableCell>
+									<TableCell className="text-sm text-muted-foreground">
+										{[row.email, row.phone].filter(Boolean).join(' · ') || '—'}
+									</TableCell>
+									<TableCell className="text-sm">
+										{row.match ? (
+											<Link to="/$id" params={{ id: row.match.id }} className="underline-offset-2 hover:underline">
+												{row.match.full_name || 'Unnamed contact'}
+											</Link>
+										) : (
+											<span className="text-muted-foreground">—</span>
+										)}
+									</TableCell>
+									<TableCell>
+										<Select
+											value={row.outcome}
+											onValueChange={value => setDecision(row, value as ImportOutcome)}
+											disabled={busy || row.error !== null || (row.detected === 'skip' && !row.overridden)}
+										>
+											<SelectTrigger
+												className={`h-7 w-full text-xs ${row.overridden ? 'border-primary' : ''}`}
+												aria-label={`Action for ${rowLabel(session.format).toLowerCase()} ${row.position}`}
+											>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value="create">{OUTCOME_LABELS.create}</SelectItem>
+												{row.match && <SelectItem value="update">{OUTCOME_LABELS.update}</SelectItem>}
+												<SelectItem value="skip">{OUTCOME_LABELS.skip}</SelectItem>
+											</SelectContent>
+										</Select>
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+					{filtered.length > visible.length && (
+						<p className="text-xs text-muted-foreground">
+							Showing the first {visible.length} of {filtered.length}. Filter by action to find the rest.
+						</p>
+					)}
+				</CardContent>
+			</Card>
+
+			<div className="flex items-center justify-end gap-2">
+				<Button type="button" variant="outline" onClick={() => discardMutation.mutate()} disabled={busy}>
+					<X className="mr-1 size-4" />
+					Discard
+				</Button>
+				<Button type="button" onClick={() => setConfirmOpen(true)} disabled={busy || writes === 0}>
+					{updateMutation.isPending ? <Loader2 className="mr-1 size-4 animate-spin" /> : <Upload className="mr-1 size-4" />}
+					Import {writes} contact{writes === 1 ? '' : 's'}
+				</Button>
+			</div>
+
+			<ConfirmDialog
+				open={confirmOpen}
+				onOpenChange={setConfirmOpen}
+				variant="default"
+				title="Import these contacts?"
+				description={`${session.counts.create} new, ${session.counts.update} updated, ${session.counts.skip} skipped. The whole import can be undone from History.`}
+				confirmLabel="Import"
+				pendingLabel="Importing…"
+				pending={commitMutation.isPending}
+				onConfirm={() => commitMutation.mutate()}
+			/>
+		</div>
+	)
+}
+
+/** Outcome of a committed import, with a one-click undo of the whole batch. */
+export function ImportResultCard({ result, onReset }: { result: ImportCommitResult; onReset: () => void }) {
+	const queryClient = useQueryClient()
+	const [undone, setUndone] = useState(false)
+
+	const undoMutation = useMutation({
+		mutationFn: (historyId: string) => undoHistory(historyId),
+		onSuccess: response => {
+			toast.success(response.message || 'Import undone')
+			setUndone(true)
+			queryClient.invalidateQueries({ queryKey: ['contacts'] })
+			queryClient.invalidateQueries({ queryKey: ['history'] })
+		},
+		onError: (err: Error) => toast.error(err.message),
+	})
+
+	return (
+		<Card>
+			<CardContent className="space-y-3">
+				<div className="flex items-start gap-2">
+					<CheckCircle2 className="mt-0.5 size-5 text-primary" />
+					<div className="flex-1 space-y-2">
+						<p className="text-sm font-medium">{undone ? 'Import undone' : result.message}</p>
+						<div className="flex flex-wrap gap-2">
+							<Badge variant="secondary">{result.success} imported</Badge>
+							{result.updated > 0 && <Badge variant="secondary">{result.updated} updated</Badge>}
+							{result.skipped > 0 && <Badge variant="outline">{result.skipped} skipped</Badge>}
+							{result.failed > 0 && <Badge variant="destructive">{result.failed} failed</Badge>}
+						</div>
+						{result.errors.length > 0 && (
+							<details className="mt-1">
+								<summary className="cursor-pointer text-sm text-muted-foreground outline-none focus-visible:ring-ring/50 focus-visible:ring-[3px] rounded">
+									{result.errors.length} error{result.errors.length === 1 ? '' : 's'}
+								</summary>
+								<ul className="mt-2 space-y-1 text-sm text-muted-foreground">
+									{result.errors.map((error, idx) => (
+										<li key={idx}>
+											{rowLabel(result.format)} {error.row}: {error.error}
+										</li>
+									))}
+								</ul>
+							</details>
+						)}
+					</div>
+				</div>
+				<div className="flex items-center justify-end gap-2">
+					{result.historyId && !undone && (
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => undoMutation.mutate(result.historyId!)}
+							disabled={undoMutation.isPending}
+						>
+							<RotateCcw className="mr-1 size-4" />
+							{undoMutation.isPending ? 'Undoing…' : 'Undo import'}
+						</Button>
+					)}
+					<Button type="button" onClick={onReset}>
+						Import another file
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,63 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { RefreshCw } from 'lucide-react'
+import { startResync, summarizeSyncJob, waitForSyncJob } from '../lib/sync-jobs'
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import type { ResyncSource, ResyncTarget } from '../lib/sync-jobs'
+
+/**
+ * Force resync for a contact or a whole address book. Clears the sync
+ * metadata so the next pass rewrites the chosen side from the other, then
+ * waits for that pass and reports the result.
+ */
+export function ResyncButton({ target, label = 'Resync' }: { target: ResyncTarget; label?: string }) {
+	const queryClient = useQueryClient()
+	const [open, setOpen] = useState(false)
+	const scope = 'contactId' in target ? 'this contact' : 'every contact in this book'
+
+	const resyncMutation = useMutation({
+		mutationFn: async (source: ResyncSource) => waitForSyncJob(await startResync(target, source)),
+		onSuccess: job => {
+			setOpen(false)
+			if (job.state === 'failed') toast.error(summarizeSyncJob(job))
+			else toast.success(summarizeSyncJob(job))
+			queryClient.invalidateQueries({ queryKey: ['contacts'] })
+			queryClient.invalidateQueries({ queryKey: ['sync-conflicts'] })
+			queryClient.invalidateQueries({ queryKey: ['sync-status'] })
+			if ('contactId' in target) queryClient.invalidateQueries({ queryKey: ['history', target.contactId] })
+		},
+		onError: (err: Error) => toast.error(err.message),
+	})
+
+	const pending = resyncMutation.isPending
+
+	return (
+		<>
+			<Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+				<RefreshCw className={`size-4 mr-1 ${pending ? 'animate-spin' : ''}`} />
+				<span className="hidden sm:inline">{label}</span>
+			</Button>
+			<Dialog open={open} onOpenChange={next => !pending && setOpen(next)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Force resync</DialogTitle>
+						<DialogDescription>
+							Rewrite {scope} on one side from the other, ignoring what the sync service thinks is already up to date. Edits that exist only
+							on the overwritten side are lost.
+						</DialogDescription>
+					</DialogHeader>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => resyncMutation.mutate('radicale')} disabled={pending}>
+							{pending && resyncMutation.variables === 'radicale' ? 'Re-importing…' : 'Re-import from CardDAV'}
+						</Button>
+						<Button onClick={() => resyncMutation.mutate('db')} disabled={pending}>
+							{pending && resyncMutation.variables === 'db' ? 'Pushing…' : 'Push web version to CardDAV'}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</>
+	)
+}
@@ -0,0 +1,108 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Link } from '@tanstack/react-router'
+import { TriangleAlert } from 'lucide-react'
+import { toast } from 'sonner'
+import { formatHistoryDate } from '../lib/history-format'
+import { Button } from './ui/button'
+import type { SyncConflict, SyncConflictField } from '../lib/db'
+
+interface SyncConflictNoticeProps {
+	contactId: string
+}
+
+async function fetchSyncConflicts(contactId: string): Promise<Array<SyncConflict>> {
+	const response = await fetch(`/api/contacts/${contactId}/conflicts`)
+	if (!response.ok) throw new Error('Failed to fetch sync conflicts')
+	return response.json()
+}
+
+async function dismissSyncConflict(contactId: string, conflictId: string): Promise<void> {
+	const response = await fetch(`/api/contacts/${contactId}/conflicts/${conflictId}`, { method: 'DELETE' })
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to dismiss conflict')
+	}
+}
+
+/** vCard lines are stored whole; show just the value part. */
+function displayValues(lines: Array<string>): string {
+	if (lines.length === 0) return '(removed)'
+	return lines
+		.map(line =>
+			line
+				.slice(line.indexOf(':') + 1)
+				.replace(/\\,/g, ',')
+				.replace(/;+/g, ' ')
+				.trim()
+		)
+		.join(', ')
+}
+
+function sideLabel(side: SyncConflictField['kept']): string {
+	return side === 'db' ? 'web' : 'CardDAV'
+}
+
+/**
+ * Fields that both the web UI and a CardDAV client changed between two syncs.
+ * The sync service merged everything else; for these it kept one side, so
+ * the user gets to see what was dropped and fix it up before dismissing.
+ */
+export function SyncConflictNotice({ contactId }: SyncConflictNoticeProps) {
+	const queryClient = useQueryClient()
+	const { data: conflicts } = useQuery({
+		queryKey: ['sync-conflicts', contactId],
+		queryFn: () => fetchSyncConflicts(contactId),
+	})
+
+	const dismissMutation = useMutation({
+		mutationFn: (conflictId: string) => dismissSyncConflict(contactId, conflictId),
+		onSuccess: () => queryClient.invalidateQueries({ queryKey: ['sync-conflicts', contactId] }),
+		onError: (error: Error) => toast.error(error.message),
+	})
+
+	if (!conflicts || conflicts.length === 0) return null
+
+	return (
+		<div className="mb-6 space-y-3">
+			{conflicts.map(conflict => (
+				<div key={conflict.id} className="rounded-2xl border border-amber-500/40 bg-amber-500/5 p-4">
+					<div className="flex flex-wrap items-start gap-3">
+						<TriangleAlert className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+						<div className="min-w-0 flex-1">
+							<p className="text-sm font-medium">Edited in two places at once</p>
+							<p className="text-xs text-muted-foreground">
+								Synced {formatHistoryDate(String(conflict.created_at))}. Other changes were merged; for these fields one version was kept.
+							</p>
+						</div>
+						<Button variant="outline" size="sm" asChild>
+							<Link to="/conflicts">Review</Link>
+						</Button>
+						<Button variant="outline" size="sm" onClick={() => dismissMutation.mutate(conflict.id)} disabled={dismissMutation.isPending}>
+							Dismiss
+						</Button>
+					</div>
+					<dl className="mt-3 space-y-2 text-sm">
+						{conflict.fields.map(field => {
+							const dropped = field.kept === 'db' ? 'radicale' : 'db'
+							return (
+								<div key={field.property} className="grid gap-1 sm:grid-cols-[8rem_1fr]">
+									<dt className="font-mono text-xs text-muted-foreground">{field.property}</dt>
+									<dd className="space-y-0.5">
+										<div>
+											<span className="text-xs text-muted-foreground">Kept ({sideLabel(field.kept)}): </span>
+											{displayValues(field[field.kept])}
+										</div>
+										<div className="text-muted-foreground">
+											<span className="text-xs">Dropped ({sideLabel(dropped)}): </span>
+											<span className="line-through">{displayValues(field[dropped])}</span>
+										</div>
+									</dd>
+								</div>
+							)
+						})}
+					</dl>
+				</div>
+			))}
+		</div>
+	)
+}
@@ -104,7 +104,7 @@ export function useContactForm(contact?: Contact) {
 	const [fullName, setFullName] = useState(
 		contact?.full_name || [contact?.first_name, contact?.last_name].filter(Boolean).join(' ').trim() || ''
 	)
-	const existingPhotoUrl = contact?.id ? getContactPhotoUrl(contact) : null
+	const existingPhotoUrl = contact?.id ? getContactPhotoUrl(contact, 256) : null
 
 	const [photoPreviewUrl, setPhotoPreviewUrl] = useState<string | null>(null)
 	const [photoData, setPhotoData] = useState<string | null>(null)
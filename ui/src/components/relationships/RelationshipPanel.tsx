@@ -2,8 +2,10 @@ import { useEffect, useState } from 'react'
 import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { ContactAvatar } from '../ContactAvatar'
+import { Input } from '../ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
 import { Skeleton } from '../ui/skeleton'
+import { RELATIONSHIP_TYPE_CATALOG, catalogLabel, isFamilyType } from '../../lib/relationship-types'
 import { RelationshipTree } from './RelationshipTree'
 import { PersonPicker } from './PersonPicker'
 import type { PersonPick } from './PersonPicker'
@@ -25,10 +27,29 @@ type EndpointBody = { contact_id: string } | { placeholder_id: string } | { new_
 interface CreateBody {
 	a: EndpointBody
 	b: EndpointBody
-	type: 'parent' | 'spouse' | 'partner' | 'sibling'
+	type: string
 	qualifier?: string | null
 }
 
+/** A non-family type seen from the focal person: what the picked person will be to them. */
+interface OtherRole {
+	value: string
+	label: string
+	type: string
+	/** The picked person becomes endpoint A (e.g. the manager of the focal person). */
+	pickIsA: boolean
+}
+
+const OTHER_ROLES: Array<OtherRole> = RELATIONSHIP_TYPE_CATALOG.filter(definition => definition.category !== 'family').flatMap(
+	definition =>
+		definition.symmetric
+			? [{ value: definition.type, label: definition.aLabel, type: definition.type, pickIsA: true }]
+			: [
+					{ value: `${definition.type}:a`, label: definition.aLabel, type: definition.type, pickIsA: true },
+					{ value: `${definition.type}:b`, label: definition.bLabel, type: definition.type, pickIsA: false },
+				]
+)
+
 async function fetchGraph(contactId: string): Promise<EgoGraph> {
 	const response = await fetch(`/api/contacts/${contactId}/relationships`)
 	if (!response.ok) {
@@ -107,6 +128,25 @@ function PersonRow({ node, right, dashed }: { node: GraphNode; right?: React.Rea
 	)
 }
 
+/** A date input that saves on blur; an emptied field saves null. */
+function DateField({ label, value, onSave }: { label: string; value: string | null; onSave: (value: string | null) => void }) {
+	return (
+		<label className="flex items-center justify-end gap-2 text-[10px] text-muted-foreground">
+			{label}
+			<Input
+				key={value ?? ''}
+				type="date"
+				className="h-7 w-[150px] text-xs"
+				defaultValue={value ?? ''}
+				onBlur={event => {
+					const next = event.target.value || null
+					if (next !== value) onSave(next)
+				}}
+			/>
+		</label>
+	)
+}
+
 function SectionHeading({ children }: { children: React.ReactNode }) {
 	return <h3 className="mb-1.5 mt-4 text-[10px] font-semibold uppercase tracking-[0.14em] text-muted-foreground first:mt-0">{children}</h3>
 }
@@ -136,7 +176,7 @@ function RemoveButton({ onClick }: { onClick: () => void }) {
 	)
 }
 
-type AddSection = 'parent' | 'partner' | 'child' | 'sibling'
+type AddSection = 'parent' | 'partner' | 'child' | 'sibling' | 'other'
 
 /**
  * Relationship editor + auto-layout tree for one focal contact. Used with a
@@ -147,6 +187,7 @@ type AddSection = 'parent' | 'partner' | 'child' | 'sibling'
 export function RelationshipPanel({ contactId, focusName, onFocusContact, fullHeight }: RelationshipPanelProps) {
 	const queryClient = useQueryClient()
 	const [openPicker, setOpenPicker] = useState<AddSection | null>(null)
+	const [otherRole, setOtherRole] = useState(OTHER_ROLES[0].value)
 
 	const {
 		data: graph,
@@ -181,12 +222,22 @@ export function RelationshipPanel({ contactId, focusName, onFocusContact, fullHe
 	})
 
 	const patchMutation = useMutation({
-		mutationFn: ({ id, qualifier }: { id: string; qualifier: string | null }) =>
-			requestJson(`/api/relationships/${id}`, { method: 'PATCH', body: JSON.stringify({ qualifier }) }),
+		mutationFn: ({ id, ...changes }: { id: string; qualifier?: string | null; start_date?: string | null; end_date?: string | null }) =>
+			requestJson(`/api/relationships/${id}`, { method: 'PATCH', body: JSON.stringify(changes) }),
 		onSuccess: invalidate,
 		onError: (err: Error) => toast.error(err.message),
 	})
 
+	const placeholderMutation = useMutation({
+		mutationFn: ({ id, ...changes }: { id: string; birth_date?: string | null; death_date?: string | null }) =>
+			requestJson(`/api/relationship-placeholders/${id}`, { method: 'PATCH', body: JSON.stringify(changes) }),
+		onSuccess: () => {
+			invalidate()
+			queryClient.invalidateQueries({ queryKey: ['relationship-placeholders'] })
+		},
+		onError: (err: Error) => toast.error(err.message),
+	})
+
 	const removeMutation = useMutation({
 		mutationFn: (id: string) => requestJson(`/api/relationships/${id}`, { method: 'DELETE' }),
 		onSuccess: invalidate,
@@ -194,11 +245,20 @@ export function RelationshipPanel({ contactId, focusName, onFocusContact, fullHe
 	})
 
 	// spouse <-> partner is a type change, which means replace (edges are
-	// canonical rows, not mutable type fields).
+	// canonical rows, not mutable type fields). The dates carry over.
 	const replaceMutation = useMutation({
 		mutationFn: async ({ edge, body }: { edge: GraphEdge; body: CreateBody }) => {
 			await requestJson(`/api/relationships/${edge.id}`, { method: 'DELETE' })
-			return requestJson('/api/relationships', { method: 'POST', body: JSON.stringify(body) })
+			const created = (await requestJson('/api/relationships', { method: 'POST', body: JSON.stringify(body) })) as {
+				relationship: { id: string }
+			}
+			if (edge.start_date || edge.end_date) {
+				await requestJson(`/api/relationships/${created.relationship.id}`, {
+					method: 'PATCH',
+					body: JSON.stringify({ start_date: edge.start_date ?? null, end_date: edge.end_date ?? null }),
+				})
+			}
+			return created
 		},
 		onSuccess: invalidate,
 		onError: (err: Error) => toast.error(err.message),
@@ -243,6 +303,7 @@ export function RelationshipPanel({ contactId, focusName, onFocusContact, fullHe
 	)
 	const explicitSiblingEdges = graph.edges.filter(edge => edge.type === 'sibling' && (edge.a === focus || edge.b === focus))
 	const derivedSiblingPairs = graph.derivedSiblings.filter(pair => pair.a === focus || pair.b === focus)
+	const otherEdges = graph.edges.filter(edge => !isFamilyType(edge.type) && (edge.a === focus || edge.b === focus))
 
 	const sectionKeys = (edges: Array<GraphEdge>): Set<string> => {
 		const keys = new Set<string>([focus])
@@ -252,11 +313,13 @@ export function RelationshipPanel({ contactId, focusName, onFocusContact, fullHe
 
 	const addFromPick = (section: AddSection, pick: PersonPick) => {
 		const self: EndpointBody = { contact_id: contactId }
+		const role = OTHER_ROLES.find(option => option.value === otherRole) ?? OTHER_ROLES[0]
 		const bodies: Record<AddSection, CreateBody> = {
 			parent: { a: pick, b: self, type: 'parent' },
 			child: { a: self, b: pick, type: 'parent' },
 			partner: { a: self, b: pick, type: 'spouse' },
 			sibling: { a: self, b: pick, type: 'sibling' },
+			other: role.pickIsA ? { a: pick, b: self, type: role.type } : { a: self, b: pick, type: role.type },
 		}
 		addMutation.mutate(bodies[section])
 	}
@@ -266,6 +329,15 @@ export function RelationshipPanel({ contactId, focusName, onFocusContact, fullHe
 		return edge.qualifier === 'ex' ? 'ex-spouse' : 'spouse'
 	}
 
+	// Placeholders have no contact page, so their birth and death dates are edited inline.
+	const placeholderDates = (node: GraphNode) =>
+		node.kind === 'placeholder' ? (
+			<>
+				<DateField label="born" value={node.birth_date} onSave={birth_date => placeholderMutation.mutate({ id: node.id, birth_date })} />
+				<DateField label="died" value={node.death_date} onSave={death_date => placeholderMutation.mutate({ id: node.id, death_date })} />
+			</>
+		) : null
+
 	const onPartnerTypeChange = (edge: GraphEdge, value: string) => {
 		const targetType = value === 'partner' ? 'partner' : 'spouse'
 		const targetQualifier = value === 'ex-spouse' ? 'ex' : null
@@ -301,28 +373,30 @@ export function RelationshipPanel({ contactId, focusName, onFocusContact, fullHe
 						const node = nodesByKey.get(otherKey(edge))
 						if (!node) return null
 						return (
-							<PersonRow
-								key={edge.id}
-								node={node}
-								right={
-									<>
-										<Select
-											value={edge.qualifier ?? 'biological'}
-											onValueChange={value => patchMutation.mutate({ id: edge.id, qualifier: value === 'biological' ? null : value })}
-										>
-											<SelectTrigger className="h-7 w-[130px] text-xs">
-												<SelectValue />
-											</SelectTrigger>
-											<SelectContent>
-												<SelectItem value="biological">biological</SelectItem>
-												<SelectItem value="step">step</SelectItem>
-												<SelectItem value="adoptive">adoptive</SelectItem>
-											</SelectContent>
-										</Select>
-										<RemoveButton onClick={() => removeMutation.mutate(edge.id)} />
-									</>
-								}
-							/>
+							<div key={edge.id} className="space-y-1">
+								<PersonRow
+									node={node}
+									right={
+										<>
+											<Select
+												value={edge.qualifier ?? 'biological'}
+												onValueChange={value => patchMutation.mutate({ id: edge.id, qualifier: value === 'biological' ? null : value })}
+											>
+												<SelectTrigger className="h-7 w-[130px] text-xs">
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													<SelectItem value="biological">biological</SelectItem>
+													<SelectItem value="step">step</SelectItem>
+													<SelectItem value="adoptive">adoptive</SelectItem>
+												</SelectContent>
+											</Select>
+											<RemoveButton onClick={() => removeMutation.mutate(edge.id)} />
+										</>
+									}
+								/>
+								{placeholderDates(node)}
+							</div>
 						)
 					})}
 					{picker('parent', parentEdges, 'search or name a parent…')}
@@ -335,25 +409,37 @@ export function RelationshipPanel({ contactId, focusName, onFocusContact, fullHe
 						const node = nodesByKey.get(otherKey(edge))
 						if (!node) return null
 						return (
-							<PersonRow
-								key={edge.id}
-								node={node}
-								right={
-									<>
-										<Select value={partnerSelectValue(edge)} onValueChange={value => onPartnerTypeChange(edge, value)}>
-											<SelectTrigger className="h-7 w-[130px] text-xs">
-												<SelectValue />
-											</SelectTrigger>
-											<SelectContent>
-												<SelectItem value="spouse">spouse</SelectItem>
-												<SelectItem value="partner">partner</SelectItem>
-												<SelectItem value="ex-spouse">ex-spouse</SelectItem>
-											</SelectContent>
-										</Select>
-										<RemoveButton onClick={() => removeMutation.mutate(edge.id)} />
-									</>
-								}
-							/>
+							<div key={edge.id} className="space-y-1">
+								<PersonRow
+									node={node}
+									right={
+										<>
+											<Select value={partnerSelectValue(edge)} onValueChange={value => onPartnerTypeChange(edge, value)}>
+												<SelectTrigger className="h-7 w-[130px] text-xs">
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													<SelectItem value="spouse">spouse</SelectItem>
+													<SelectItem value="partner">partner</SelectItem>
+													<SelectItem value="ex-spouse">ex-spouse</SelectItem>
+												</SelectContent>
+											</Select>
+											<RemoveButton onClick={() => removeMutation.mutate(edge.id)} />
+										</>
+									}
+								/>
+								<DateField
+									label={edge.type === 'spouse' ? 'married' : 'together since'}
+									value={edge.start_date ?? null}
+									onSave={start_date => patchMutation.mutate({ id: edge.id, start_date })}
+								/>
+								<DateField
+									label={edge.qualifier === 'ex' ? 'divorced' : 'ended'}
+									value={edge.end_date ?? null}
+									onSave={end_date => patchMutation.mutate({ id: edge.id, end_date })}
+								/>
+								{placeholderDates(node)}
+							</div>
 						)
 					})}
 					{picker('partner', partnerEdges, 'search or name a spouse or partner…')}
@@ -381,7 +467,12 @@ export function RelationshipPanel({ contactId, focusName, onFocusContact, fullHe
 					{explicitSiblingEdges.map(edge => {
 						const node = nodesByKey.get(otherKey(edge))
 						if (!node) return null
-						return <PersonRow key={edge.id} node={node} right={<RemoveButton onClick={() => removeMutation.mutate(edge.id)} />} />
+						return (
+							<div key={edge.id} className="space-y-1">
+								<PersonRow node={node} right={<RemoveButton onClick={() => removeMutation.mutate(edge.id)} />} />
+								{placeholderDates(node)}
+							</div>
+						)
 					})}
 					{picker('sibling', explicitSiblingEdges, 'search or name a sibling…')}
 					{openPicker !== 'sibling' && <AddButton label="add sibling" onClick={() => setOpenPicker('sibling')} />}
@@ -395,11 +486,54 @@ export function RelationshipPanel({ contactId, focusName, onFocusContact, fullHe
 					{childEdges.map(edge => {
 						const node = nodesByKey.get(otherKey(edge))
 						if (!node) return null
-						return <PersonRow key={edge.id} node={node} right={<RemoveButton onClick={() => removeMutation.mutate(edge.id)} />} />
+						return (
+							<div key={edge.id} className="space-y-1">
+								<PersonRow node={node} right={<RemoveButton onClick={() => removeMutation.mutate(edge.id)} />} />
+								{placeholderDates(node)}
+							</div>
+						)
 					})}
 					{picker('child', childEdges, 'search or name a child…')}
 					{openPicker !== 'child' && <AddButton label="add child" onClick={() => setOpenPicker('child')} />}
 				</div>
+
+				<SectionHeading>Other</SectionHeading>
+				<div className="space-y-1.5">
+					{otherEdges.map(edge => {
+						const node = nodesByKey.get(otherKey(edge))
+						if (!node) return null
+						return (
+							<PersonRow
+								key={edge.id}
+								node={node}
+								right={
+									<>
+										<span className="rounded-sm border bg-muted px-1.5 py-0.5 text-[10px] text-muted-foreground">
+											{catalogLabel(edge.type, edge.a === focus)}
+										</span>
+										<RemoveButton onClick={() => removeMutation.mutate(edge.id)} />
+									</>
+								}
+							/>
+						)
+					})}
+					{openPicker === 'other' && (
+						<Select value={otherRole} onValueChange={setOtherRole}>
+							<SelectTrigger className="h-7 w-full text-xs">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{OTHER_ROLES.map(role => (
+									<SelectItem key={role.value} value={role.value}>
+										{role.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					)}
+					{picker('other', [], 'search or name a friend, coworker…')}
+					{openPicker !== 'other' && <AddButton label="add friend, coworker or contact person" onClick={() => setOpenPicker('other')} />}
+				</div>
 			</div>
 
 			{/* Tree preview pane */}
@@ -10,7 +10,8 @@ import {
 	useNodesInitialized,
 	useReactFlow,
 } from '@xyflow/react'
-import { CARD_H, CARD_W, layoutEgoTree } from '../../lib/relationship-layout'
+import { CARD_H, CARD_W, layoutEgoTree, unionDatesLabel } from '../../lib/relationship-layout'
+import { isFamilyType } from '../../lib/relationship-types'
 import { ContactAvatar } from '../ContactAvatar'
 import { cn } from '../../lib/utils'
 import type { Node as FlowNode, NodeProps } from '@xyflow/react'
@@ -29,6 +30,8 @@ interface PersonNodeData extends Record<string, unknown> {
 	node: GraphNode
 	isFocus: boolean
 	caption: string
+	/** Full dates behind the caption's years, shown on hover. */
+	detail: string | null
 	clickable: boolean
 }
 
@@ -56,8 +59,13 @@ function lifespan(node: GraphNode): string | null {
 	return null
 }
 
+function lifeDates(node: GraphNode): string | null {
+	const parts = [node.birth_date && `born ${node.birth_date}`, node.death_date && `died ${node.death_date}`].filter(Boolean)
+	return parts.length > 0 ? parts.join(' · ') : null
+}
+
 function PersonNode({ data }: NodeProps<PersonFlowNode>) {
-	const { node, isFocus, caption, clickable } = data
+	const { node, isFocus, caption, detail, clickable } = data
 	return (
 		<div
 			className={cn(
@@ -67,6 +75,7 @@ function PersonNode({ data }: NodeProps<PersonFlowNode>) {
 				clickable && 'cursor-pointer transition-colors hover:border-primary'
 			)}
 			style={{ width: CARD_W, minHeight: CARD_H }}
+			title={detail ?? undefined}
 		>
 			{node.kind === 'contact' ? (
 				<ContactAvatar
@@ -113,25 +122,32 @@ function CenterOnFocus({ focusKey, x, y }: { focusKey: string; x: number; y: num
 
 function TreeCanvas({ graph, layout, onContactClick }: RelationshipTreeProps & { layout: TreeLayout }) {
 	const focal = layout.nodes.find(entry => entry.isFocus)
-	const nodes = useMemo<Array<PersonFlowNode>>(
-		() =>
-			layout.nodes.map(({ node, x, y, isFocus, relationLabel }) => ({
-				id: node.key,
-				type: 'person',
-				position: { x, y },
-				width: CARD_W,
-				height: CARD_H,
-				draggable: false,
-				connectable: false,
-				data: {
-					node,
-					isFocus,
-					caption: [relationLabel, isFocus ? 'focal' : null, lifespan(node)].filter(Boolean).join(' · '),
-					clickable: node.kind === 'contact' && !isFocus && Boolean(onContactClick),
-				},
-			})),
-		[layout, onContactClick]
-	)
+	const nodes = useMemo<Array<PersonFlowNode>>(() => {
+		// Marriage/partnership years of the focal person's own unions, keyed by partner.
+		const unionDates = new Map<string, string>()
+		for (const edge of graph.edges) {
+			const label = unionDatesLabel(edge)
+			if (!label) continue
+			if (edge.a === graph.focus) unionDates.set(edge.b, label)
+			else if (edge.b === graph.focus) unionDates.set(edge.a, label)
+		}
+		return layout.nodes.map(({ node, x, y, isFocus, relationLabel }) => ({
+			id: node.key,
+			type: 'person',
+			position: { x, y },
+			width: CARD_W,
+			height: CARD_H,
+			draggable: false,
+			connectable: false,
+			data: {
+				node,
+				isFocus,
+				caption: [relationLabel, isFocus ? 'focal' : null, unionDates.get(node.key), lifespan(node)].filter(Boolean).join(' · '),
+				detail: lifeDates(node),
+				clickable: node.kind === 'contact' && !isFocus && Boolean(onContactClick),
+			},
+		}))
+	}, [graph, layout, onContactClick])
 
 	return (
 		<ReactFlow
@@ -216,7 +232,7 @@ function TreeCanvas({ graph, layout, onContactClick }: RelationshipTreeProps & {
 export function RelationshipTree({ graph, onContactClick }: RelationshipTreeProps) {
 	const layout = useMemo(() => layoutEgoTree(graph), [graph])
 
-	if (graph.edges.length === 0 && graph.derivedSiblings.length === 0) {
+	if (!graph.edges.some(edge => isFamilyType(edge.type)) && graph.derivedSiblings.length === 0) {
 		return (
 			<div className="flex h-full min-h-64 items-center justify-center p-8 text-center text-sm text-muted-foreground">
 				No relationships yet. Add a parent, spouse, or child to start the tree.
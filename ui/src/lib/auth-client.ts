@@ -0,0 +1,69 @@
+/**
+ * Browser-side helpers for the built-in login. Kept separate from ./auth so
+ * client bundles never pull in pg / node:crypto.
+ */
+
+export interface SessionUser {
+	id: string
+	email: string
+	name: string | null
+}
+
+export type Role = 'viewer' | 'editor' | 'owner'
+
+export interface SessionAccess {
+	/** Role on every book plus the instance-wide admin pages. */
+	globalRole: Role | null
+	bookRoles: Record<string, Role>
+}
+
+export interface SessionInfo {
+	user: SessionUser | null
+	authDisabled: boolean
+	needsSetup: boolean
+	access: SessionAccess | null
+}
+
+/** Client-side mirror of the server check, used only to hide controls the API would reject. */
+export function isInstanceOwner(session: SessionInfo | undefined): boolean {
+	return session?.access?.globalRole === 'owner'
+}
+
+export const SESSION_QUERY_KEY = ['session'] as const
+
+async function postJson<T>(url: string, body: unknown, fallbackError: string): Promise<T> {
+	const response = await fetch(url, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(body),
+	})
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || fallbackError)
+	}
+	return response.json()
+}
+
+export async function fetchSession(): Promise<SessionInfo> {
+	const response = await fetch('/api/auth/session')
+	if (!response.ok) throw new Error('Failed to load session')
+	return response.json()
+}
+
+export function signIn(email: string, password: string): Promise<{ user: SessionUser }> {
+	return postJson('/api/auth/login', { email, password }, 'Sign in failed')
+}
+
+export function setupOwner(input: { name?: string; email: string; password: string }): Promise<{ user: SessionUser }> {
+	return postJson('/api/auth/setup', input, 'Setup failed')
+}
+
+export async function signOut(): Promise<void> {
+	await fetch('/api/auth/logout', { method: 'POST' })
+}
+
+/** Only allow same-origin relative redirects after sign-in. */
+export function safeRedirectTarget(target: string | undefined): string {
+	if (!target || !target.startsWith('/') || target.startsWith('//') || target.startsWith('/login')) return '/'
+	return target
+}
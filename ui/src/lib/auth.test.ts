@@ -0,0 +1,149 @@
+import bcrypt from 'bcryptjs'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	AUTH_USER_HEADER,
+	clearedSessionCookie,
+	createSession,
+	encodeAuthUserHeader,
+	getAuthenticatedUser,
+	isPublicApiPath,
+	isSecureRequest,
+	readSessionToken,
+	sessionCookie,
+	verifyCredentials,
+	withFirstUserSetup,
+} from './auth'
+
+const query = vi.fn()
+
+vi.mock('./db', () => ({
+	getPool: () => ({ query }),
+	withTransaction: (fn: (client: unknown) => Promise<unknown>) => fn({ query }),
+}))
+
+describe('readSessionToken', () => {
+	it('returns null without a cookie header', () => {
+		expect(readSessionToken(null)).toBeNull()
+		expect(readSessionToken('')).toBeNull()
+	})
+
+	it('picks the session cookie out of several', () => {
+		expect(readSessionToken('theme=dark; sc_session=abc123; other=1')).toBe('abc123')
+	})
+
+	it('ignores cookies whose name merely contains the session name', () => {
+		expect(readSessionToken('not_sc_session=nope')).toBeNull()
+	})
+})
+
+describe('session cookies', () => {
+	it('is HttpOnly and SameSite=Lax, Secure only when asked', () => {
+		const expires = new Date('2030-01-01T00:00:00Z')
+		const plain = sessionCookie('tok', expires, false)
+		expect(plain).toContain('sc_session=tok')
+		expect(plain).toContain('HttpOnly')
+		expect(plain).toContain('SameSite=Lax')
+		expect(plain).not.toContain('Secure')
+		expect(sessionCookie('tok', expires, true)).toContain('Secure')
+	})
+
+	it('clears with Max-Age=0', () => {
+		expect(clearedSessionCookie(false)).toContain('Max-Age=0')
+	})
+
+	it('detects https directly or behind a TLS-terminating proxy', () => {
+		expect(isSecureRequest(new Request('https://contacts.example.com/'))).toBe(true)
+		expect(isSecureRequest(new Request('http://ui:3030/', { headers: { 'x-forwarded-proto': 'https' } }))).toBe(true)
+		expect(isSecureRequest(new Request('http://ui:3030/'))).toBe(false)
+	})
+})
+
+describe('isPublicApiPath', () => {
+	it('allows health, auth and calendar feed endpoints only', () => {
+		expect(isPublicApiPath('/api/health')).toBe(true)
+		expect(isPublicApiPath('/api/auth/login')).toBe(true)
+		expect(isPublicApiPath('/api/calendar/birthdays.ics')).toBe(true)
+		expect(isPublicApiPath('/api/calendar')).toBe(false)
+		expect(isPublicApiPath('/api/contacts')).toBe(false)
+		expect(isPublicApiPath('/api/healthz')).toBe(false)
+	})
+})
+
+describe('getAuthenticatedUser', () => {
+	it('round-trips the middleware header', () => {
+		const user = { id: 'u1', email: 'ana@example.com', name: 'Ana Núñez' }
+		const request = new Request('http://localhost/', { headers: { [AUTH_USER_HEADER]: encodeAuthUserHeader(user) } })
+		expect(getAuthenticatedUser(request)).toEqual(user)
+	})
+
+	it('returns null for missing or malformed headers', () => {
+		expect(getAuthenticatedUser(new Request('http://localhost/'))).toBeNull()
+		expect(getAuthenticatedUser(new Request('http://localhost/', { headers: { [AUTH_USER_HEADER]: 'not-json' } }))).toBeNull()
+	})
+})
+
+describe('verifyCredentials', () => {
+	beforeEach(() => {
+		query.mockReset()
+	})
+
+	it('returns the user for a matching password', async () => {
+		const hash = await bcrypt.hash('correct horse', 4)
+		query.mockResolvedValue({ rows: [{ id: 'u1', email: 'ana@example.com', name: 'Ana', password: hash }] })
+		await expect(verifyCredentials(' Ana@Example.com ', 'correct horse')).resolves.toEqual({
+			id: 'u1',
+			email: 'ana@example.com',
+			name: 'Ana',
+		})
+		expect(query.mock.calls[0][1]).toEqual(['ana@example.com', 'credential'])
+	})
+
+	it('returns null for a wrong password', async () => {
+		const hash = await bcrypt.hash('correct horse', 4)
+		query.mockResolvedValue({ rows: [{ id: 'u1', email: 'ana@example.com', name: 'Ana', password: hash }] })
+		await expect(verifyCredentials('ana@example.com', 'battery staple')).resolves.toBeNull()
+	})
+
+	it('returns null for an unknown email', async () => {
+		query.mockResolvedValue({ rows: [] })
+		await expect(verifyCredentials('nobody@example.com', 'whatever')).resolves.toBeNull()
+	})
+})
+
+describe('createSession', () => {
+	it('stores a hash of the token, never the token itself', async () => {
+		query.mockReset().mockResolvedValue({ rows: [] })
+		const { token, expiresAt } = await createSession('u1', { ipAddress: '203.0.113.1', userAgent: 'test' })
+		const params = query.mock.calls[0][1] as Array<unknown>
+		expect(params[1]).toBe('u1')
+		expect(params[3]).not.toBe(token)
+		expect(params[3]).toMatch(/^[0-9a-f]{64}$/)
+		expect(expiresAt.getTime()).toBeGreaterThan(Date.now())
+	})
+})
+
+describe('withFirstUserSetup', () => {
+	it('takes the setup lock before checking that no user exists', async () => {
+		query
+			.mockReset()
+			.mockResolvedValueOnce({ rows: [] })
+			.mockResolvedValueOnce({ rows: [{ count: 0 }] })
+		const create = vi.fn().mockResolvedValue('created')
+
+		expect(await withFirstUserSetup(create)).toBe('created')
+		expect(query.mock.calls[0][0]).toBe('SELECT pg_advisory_xact_lock($1)')
+		expect(query.mock.calls[1][0]).toContain('COUNT(*)')
+	})
+
+	it('creates nothing once a user exists', async () => {
+		query
+			.mockReset()
+			.mockResolvedValueOnce({ rows: [] })
+			.mockResolvedValueOnce({ rows: [{ count: 1 }] })
+		const create = vi.fn()
+
+		expect(await withFirstUserSetup(create)).toBeNull()
+		expect(create).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,245 @@
+import crypto from 'node:crypto'
+import bcrypt from 'bcryptjs'
+import { getPool, withTransaction } from './db'
+import type { PoolClient } from 'pg'
+
+/**
+ * Built-in login for the management UI. Users, credentials and sessions live
+ * in the `user` / `account` / `session` tables from 02_auth_schema.sql. The
+ * browser only ever holds an opaque random token in an HttpOnly cookie; the
+ * session row stores its SHA-256 so a leaked database dump cannot be replayed
+ * as a cookie.
+ */
+
+export const SESSION_COOKIE = 'sc_session'
+
+/**
+ * Set by the auth middleware (server/middleware/auth.ts) on every request it
+ * lets through, after discarding any client-supplied value. Route handlers
+ * read the signed-in identity from here via `getAuthenticatedUser`.
+ */
+export const AUTH_USER_HEADER = 'x-authenticated-user'
+
+const CREDENTIAL_PROVIDER = 'credential'
+const BCRYPT_ROUNDS = 12
+const DEFAULT_SESSION_TTL_HOURS = 24 * 30
+/** Advisory lock key held while the first account is created. */
+const FIRST_USER_LOCK_KEY = 727_001
+
+export interface AuthUser {
+	id: string
+	email: string
+	name: string | null
+}
+
+/** AUTH_DISABLED=true turns the login wall off for trusted-network deployments. */
+export function isAuthDisabled(): boolean {
+	return process.env.AUTH_DISABLED === 'true'
+}
+
+function sessionTtlMs(): number {
+	const hours = parseInt(process.env.SESSION_TTL_HOURS || '', 10)
+	return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_TTL_HOURS) * 60 * 60 * 1000
+}
+
+function hashToken(token: string): string {
+	return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function normalizeEmail(email: string): string {
+	return email.trim().toLowerCase()
+}
+
+// ---------------------------------------------------------------------------
+// Users
+// ---------------------------------------------------------------------------
+
+export async function countUsers(client?: PoolClient): Promise<number> {
+	const result = await (client ?? getPool()).query('SELECT COUNT(*)::int AS count FROM "user"')
+	return result.rows[0]?.count ?? 0
+}
+
+/**
+ * Run `fn` only while no user exists. The count and everything `fn` writes
+ * through the client it is given share one transaction under an advisory
+ * lock, so two first-run requests cannot both see an empty table. Returns
+ * null once setup is done.
+ */
+export async function withFirstUserSetup<T>(fn: (client: PoolClient) => Promise<T>): Promise<T | null> {
+	return withTransaction(async client => {
+		await client.query('SELECT pg_advisory_xact_lock($1)', [FIRST_USER_LOCK_KEY])
+		if ((await countUsers(client)) > 0) return null
+		return fn(client)
+	})
+}
+
+export async function createUser(input: { email: string; name?: string | null; password: string }, client?: PoolClient): Promise<AuthUser> {
+	return withTransaction(async tx => {
+		const id = crypto.randomUUID()
+		const email = normalizeEmail(input.email)
+		const userResult = await tx.query(`INSERT INTO "user" (id, name, email) VALUES ($1, $2, $3) RETURNING id, email, name`, [
+			id,
+			input.name?.trim() || null,
+			email,
+		])
+		const passwordHash = await bcrypt.hash(input.password, BCRYPT_ROUNDS)
+		await tx.query(`INSERT INTO account (id, "userId", "accountId", "providerId", password) VALUES ($1, $2, $3, $4, $5)`, [
+			crypto.randomUUID(),
+			id,
+			id,
+			CREDENTIAL_PROVIDER,
+			passwordHash,
+		])
+		return userResult.rows[0]
+	}, client)
+}
+
+export async function listUsers(): Promise<Array<AuthUser & { createdAt: Date }>> {
+	const result = await getPool().query('SELECT id, email, name, "createdAt" FROM "user" ORDER BY "createdAt"')
+	return result.rows
+}
+
+export async function updateUser(userId: string, updates: { name?: string | null; password?: string }): Promise<AuthUser | null> {
+	const dbPool = getPool()
+	if (updates.name !== undefined) {
+		await dbPool.query('UPDATE "user" SET name = $2, "updatedAt" = NOW() WHERE id = $1', [userId, updates.name?.trim() || null])
+	}
+	if (updates.password !== undefined) {
+		const passwordHash = await bcrypt.hash(updates.password, BCRYPT_ROUNDS)
+		await dbPool.query(`UPDATE account SET password = $2, "updatedAt" = NOW() WHERE "userId" = $1 AND "providerId" = $3`, [
+			userId,
+			passwordHash,
+			CREDENTIAL_PROVIDER,
+		])
+		// A password change signs the user out everywhere.
+		await dbPool.query('DELETE FROM session WHERE "userId" = $1', [userId])
+	}
+	const result = await dbPool.query('SELECT id, email, name FROM "user" WHERE id = $1', [userId])
+	return result.rows[0] ?? null
+}
+
+/** Sessions and accounts go with it via ON DELETE CASCADE. */
+export async function deleteUser(userId: string): Promise<boolean> {
+	const result = await getPool().query('DELETE FROM "user" WHERE id = $1', [userId])
+	return (result.rowCount ?? 0) > 0
+}
+
+let dummyHash: Promise<string> | null = null
+
+function getDummyHash(): Promise<string> {
+	if (!dummyHash) dummyHash = bcrypt.hash(crypto.randomBytes(16).toString('hex'), BCRYPT_ROUNDS)
+	return dummyHash
+}
+
+/** Returns the user when the email/password pair is valid, otherwise null. */
+export async function verifyCredentials(email: string, password: string): Promise<AuthUser | null> {
+	const result = await getPool().query(
+		`SELECT u.id, u.email, u.name, a.password
+     FROM "user" u
+     JOIN account a ON a."userId" = u.id AND a."providerId" = $2
+     WHERE u.email = $1`,
+		[normalizeEmail(email), CREDENTIAL_PROVIDER]
+	)
+	const row = result.rows[0]
+	if (!row || !row.password) {
+		// Burn a comparable amount of time so response latency does not reveal
+		// whether the email exists.
+		await bcrypt.compare(password, await getDummyHash())
+		return null
+	}
+	const valid = await bcrypt.compare(password, row.password)
+	return valid ? { id: row.id, email: row.email, name: row.name } : null
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+export async function createSession(
+	userId: string,
+	meta: { ipAddress?: string | null; userAgent?: string | null } = {}
+): Promise<{ token: string; expiresAt: Date }> {
+	const token = crypto.randomBytes(32).toString('base64url')
+	const expiresAt = new Date(Date.now() + sessionTtlMs())
+	await getPool().query(
+		`INSERT INTO session (id, "userId", "expiresAt", token, "ipAddress", "userAgent")
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+		[crypto.randomUUID(), userId, expiresAt, hashToken(token), meta.ipAddress ?? null, meta.userAgent ?? null]
+	)
+	return { token, expiresAt }
+}
+
+export async function getSessionUser(token: string): Promise<AuthUser | null> {
+	const result = await getPool().query(
+		`SELECT u.id, u.email, u.name
+     FROM session s
+     JOIN "user" u ON u.id = s."userId"
+     WHERE s.token = $1 AND s."expiresAt" > NOW()`,
+		[hashToken(token)]
+	)
+	return result.rows[0] ?? null
+}
+
+export async function deleteSession(token: string): Promise<void> {
+	await getPool().query('DELETE FROM session WHERE token = $1', [hashToken(token)])
+}
+
+// ---------------------------------------------------------------------------
+// Request / cookie helpers
+// ---------------------------------------------------------------------------
+
+export function readSessionToken(cookieHeader: string | null | undefined): string | null {
+	if (!cookieHeader) return null
+	for (const part of cookieHeader.split(';')) {
+		const index = part.indexOf('=')
+		if (index === -1) continue
+		if (part.slice(0, index).trim() === SESSION_COOKIE) {
+			const value = part.slice(index + 1).trim()
+			return value || null
+		}
+	}
+	return null
+}
+
+/** Secure cookies only when the browser reached us over https (directly or via a TLS-terminating proxy). */
+export function isSecureRequest(request: Request): boolean {
+	const forwardedProto = request.headers.get('x-forwarded-proto')
+	if (forwardedProto) return forwardedProto.split(',')[0].trim() === 'https'
+	return new URL(request.url).protocol === 'https:'
+}
+
+export function sessionCookie(token: string, expiresAt: Date, secure: boolean): string {
+	const parts = [`${SESSION_COOKIE}=${token}`, 'Path=/', 'HttpOnly', 'SameSite=Lax', `Expires=${expiresAt.toUTCString()}`]
+	if (secure) parts.push('Secure')
+	return parts.join('; ')
+}
+
+export function clearedSessionCookie(secure: boolean): string {
+	const parts = [`${SESSION_COOKIE}=`, 'Path=/', 'HttpOnly', 'SameSite=Lax', 'Max-Age=0']
+	if (secure) parts.push('Secure')
+	return parts.join('; ')
+}
+
+/**
+ * API paths reachable without a session: health checks, the login flow itself,
+ * and the birthdays calendar feed, which checks its own per-book token.
+ */
+export function isPublicApiPath(pathname: string): boolean {
+	return pathname === '/api/health' || pathname.startsWith('/api/auth/') || pathname === '/api/calendar/birthdays.ics'
+}
+
+/** The identity the auth middleware attached to this request, if any. */
+export function getAuthenticatedUser(request: Request): AuthUser | null {
+	const raw = request.headers.get(AUTH_USER_HEADER)
+	if (!raw) return null
+	try {
+		const parsed = JSON.parse(decodeURIComponent(raw)) as AuthUser
+		return parsed.id && parsed.email ? parsed : null
+	} catch {
+		return null
+	}
+}
+
+export function encodeAuthUserHeader(user: AuthUser): string {
+	return encodeURIComponent(JSON.stringify({ id: user.id, email: user.email, name: user.name }))
+}
@@ -0,0 +1,145 @@
+import type { Contact } from './db'
+
+// Field definitions for bulk editing the contacts list selection. Shared by the
+// bulk-edit dialog (preview labels) and the server (lib/bulk-edit.ts), so keep
+// this module free of server-only imports.
+
+export const BULK_EDIT_FIELDS = {
+	organization: { label: 'Organization', kind: 'text' },
+	org_units: { label: 'Department', kind: 'list' },
+	job_title: { label: 'Job title', kind: 'text' },
+	role: { label: 'Role', kind: 'text' },
+	nickname: { label: 'Nickname', kind: 'text' },
+	categories: { label: 'Categories', kind: 'list' },
+	address_country: { label: 'Address country', kind: 'text' },
+	time_zone: { label: 'Time zone', kind: 'text' },
+	notes: { label: 'Notes', kind: 'text' },
+} as const satisfies Record<string, { label: string; kind: 'text' | 'list' }>
+
+export type BulkEditField = keyof typeof BULK_EDIT_FIELDS
+
+export const BULK_EDIT_OPERATIONS = ['set', 'clear', 'append', 'prepend'] as const
+
+export type BulkEditOperation = (typeof BULK_EDIT_OPERATIONS)[number]
+
+export interface BulkEditChange {
+	field: BulkEditField
+	operation: BulkEditOperation
+	/** Required except for clear. List fields take comma-separated items. */
+	value?: string
+}
+
+type BulkEditValues = Partial<Pick<Contact, BulkEditField | 'addresses'>>
+
+function splitList(value: string): Array<string> {
+	return value
+		.split(',')
+		.map(item => item.trim())
+		.filter(Boolean)
+}
+
+/** Case-insensitive dedupe, keeping the first spelling (like tags). */
+function dedupe(items: Array<string>): Array<string> {
+	const seen = new Set<string>()
+	return items.filter(item => {
+		const key = item.toLowerCase()
+		if (seen.has(key)) return false
+		seen.add(key)
+		return true
+	})
+}
+
+function editText(current: string | null, change: BulkEditChange): string | null {
+	const value = (change.value ?? '').trim()
+	// Notes get their own line; short fields are joined with a space.
+	const separator = change.field === 'notes' ? '\n' : ' '
+	switch (change.operation) {
+		case 'set':
+			return value || null
+		case 'clear':
+			return null
+		case 'append':
+			return current ? `${current}${separator}${value}` : value || null
+		case 'prepend':
+			return current ? `${value}${separator}${current}` : value || null
+	}
+}
+
+function editList(current: Array<string> | null, change: BulkEditChange): Array<string> | null {
+	const items = splitList(change.value ?? '')
+	let next: Array<string>
+	switch (change.operation) {
+		case 'set':
+			next = items
+			break
+		case 'clear':
+			next = []
+			break
+		case 'append':
+			next = [...(current ?? []), ...items]
+			break
+		case 'prepend':
+			next = [...items, ...(current ?? [])]
+			break
+	}
+	const deduped = dedupe(next)
+	return deduped.length > 0 ? deduped : null
+}
+
+/**
+ * The country is also the last component of every structured address, which
+ * is what the vCard ADR is generated from when the contact has any.
+ */
+function withCountry(addresses: Contact['addresses'], country: string | null): Contact['addresses'] {
+	if (!addresses) return addresses
+	return addresses.map(address => {
+		const parts = address.value.split(';')
+		if (parts.length < 7) return address
+		parts[parts.length - 1] = country ?? ''
+		return { ...address, value: parts.join(';') }
+	})
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * Apply `changes` in order to one contact. Returns only the columns whose value
+ * changed, so an empty object means the contact is left alone.
+ */
+export function applyBulkEdit(contact: Pick<Contact, BulkEditField | 'addresses'>, changes: Array<BulkEditChange>): BulkEditValues {
+	const values: Record<string, unknown> = {}
+	const current = (field: string) => (field in values ? values[field] : contact[field as keyof typeof contact])
+
+	for (const change of changes) {
+		if (BULK_EDIT_FIELDS[change.field].kind === 'list') {
+			values[change.field] = editList(current(change.field) as Array<string> | null, change)
+		} else {
+			values[change.field] = editText(current(change.field) as string | null, change)
+		}
+		if (change.field === 'address_country') {
+			values.addresses = withCountry(current('addresses') as Contact['addresses'], values.address_country as string | null)
+		}
+	}
+
+	const changed: Record<string, unknown> = {}
+	for (const [field, value] of Object.entries(values)) {
+		if (!sameValue(value, contact[field as keyof typeof contact])) changed[field] = value
+	}
+	return changed as BulkEditValues
+}
+
+export function describeBulkEditChange(change: BulkEditChange): string {
+	const label = BULK_EDIT_FIELDS[change.field].label
+	switch (change.operation) {
+		case 'set':
+			return `${label} set to "${change.value}"`
+		case 'clear':
+			return `${label} cleared`
+		case 'append':
+			return `"${change.value}" appended to ${label.toLowerCase()}`
+		case 'prepend':
+			return `"${change.value}" prepended to ${label.toLowerCase()}`
+	}
+}
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { applyBulkEdit } from './bulk-edit-fields'
+import { bulkEditContacts, previewBulkEdit } from './bulk-edit'
+import { getContactsByIds, updateContact } from './db'
+import { recordHistory } from './history'
+import type { Contact } from './db'
+
+vi.mock('./db', () => ({
+	getContactsByIds: vi.fn(),
+	updateContact: vi.fn(),
+}))
+
+vi.mock('./history', () => ({
+	recordHistory: vi.fn(),
+}))
+
+const ACTOR = { actor: 'ada@example.com', actorType: 'user' as const, userAgent: null, clientIp: null, source: 'web' as const }
+
+function contact(id: string, fields: Partial<Contact> = {}): Contact {
+	return { id, full_name: `Contact ${id}`, vcard_id: `uid-${id}`, organization: null, notes: null, categories: null, ...fields } as Contact
+}
+
+describe('applyBulkEdit', () => {
+	it('sets, clears, appends and prepends text fields', () => {
+		const before = contact('a', { organization: 'Acme', job_title: 'Engineer', notes: 'Met at the conference', nickname: 'Al' })
+		expect(
+			applyBulkEdit(before, [
+				{ field: 'organization', operation: 'set', value: 'Initech' },
+				{ field: 'job_title', operation: 'append', value: '(retired)' },
+				{ field: 'notes', operation: 'prepend', value: '[2026]' },
+				{ field: 'nickname', operation: 'clear' },
+			])
+		).toEqual({ organization: 'Initech', job_title: 'Engineer (retired)', notes: '[2026]\nMet at the conference', nickname: null })
+	})
+
+	it('appends to list fields without duplicates and leaves unchanged fields out', () => {
+		const before = contact('a', { organization: 'Acme', categories: ['Work'] })
+		expect(
+			applyBulkEdit(before, [
+				{ field: 'categories', operation: 'append', value: 'work, Volunteers' },
+				{ field: 'organization', operation: 'set', value: 'Acme' },
+			])
+		).toEqual({ categories: ['Work', 'Volunteers'] })
+	})
+
+	it('updates the country of structured addresses', () => {
+		const before = contact('a', {
+			address_country: 'UK',
+			addresses: [
+				{ value: ';;1 Main St;London;;N1;UK', type: 'HOME' },
+				{ value: 'Somewhere unstructured', type: 'WORK' },
+			],
+		})
+		expect(applyBulkEdit(before, [{ field: 'address_country', operation: 'set', value: 'United Kingdom' }])).toEqual({
+			address_country: 'United Kingdom',
+			addresses: [
+				{ value: ';;1 Main St;London;;N1;United Kingdom', type: 'HOME' },
+				{ value: 'Somewhere unstructured', type: 'WORK' },
+			],
+		})
+	})
+})
+
+describe('bulk edit', () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(getContactsByIds).mockResolvedValue([contact('a', { organization: 'Acme' }), contact('b', { organization: 'Initech' })])
+		vi.mocked(updateContact).mockImplementation((id, data) => Promise.resolve({ ...contact(id), ...data } as Contact))
+		vi.mocked(recordHistory).mockResolvedValue('history-1')
+	})
+
+	it('previews only the contacts that change', async () => {
+		const preview = await previewBulkEdit(['a', 'b'], [{ field: 'organization', operation: 'set', value: 'Initech' }])
+
+		expect(preview).toEqual([
+			{ contactId: 'a', name: 'Contact a', changes: [{ field: 'organization', label: 'Organization', before: 'Acme', after: 'Initech' }] },
+		])
+		expect(updateContact).not.toHaveBeenCalled()
+	})
+
+	it('regenerates vCards and records the edit as one history batch', async () => {
+		const result = await bulkEditContacts(['a', 'b'], [{ field: 'organization', operation: 'set', value: 'Globex' }], ACTOR)
+
+		expect(result).toEqual({ updated: 2, historyId: 'history-1' })
+		const [id, data] = vi.mocked(updateContact).mock.calls[0]
+		expect(id).toBe('a')
+		expect(data).toMatchObject({ organization: 'Globex', sync_source: 'api', last_synced_to_radicale_at: null })
+		expect(data.vcard_data).toContain('ORG:Globex')
+
+		const history = vi.mocked(recordHistory).mock.calls.map(call => call[0])
+		expect(history.map(entry => [entry.contactId, entry.operation])).toEqual([
+			['a', 'update'],
+			['b', 'update'],
+			[null, 'bulk_update'],
+		])
+		expect(history[0].summary).toBe('Bulk edit (Organization set to "Globex"): Contact a')
+		expect(history[2].summary).toBe('Bulk edit of 2 contacts: Organization set to "Globex"')
+		expect(new Set(history.map(entry => entry.batchId)).size).toBe(1)
+	})
+
+	it('records nothing when no contact changes', async () => {
+		const result = await bulkEditContacts(['a'], [{ field: 'notes', operation: 'clear' }], ACTOR)
+
+		expect(result).toEqual({ updated: 0, historyId: null })
+		expect(recordHistory).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,88 @@
+import crypto from 'node:crypto'
+import { BULK_EDIT_FIELDS, applyBulkEdit, describeBulkEditChange } from './bulk-edit-fields'
+import { getContactsByIds, updateContact } from './db'
+import { recordHistory } from './history'
+import { generateVCard } from './vcard'
+import type { BulkEditChange, BulkEditField } from './bulk-edit-fields'
+import type { Contact } from './db'
+import type { HistoryEntryInput } from './history'
+
+// Bulk edits rewrite each affected contact's vcard_data so phones pick the
+// change up, and record one 'update' entry per contact plus a 'bulk_update'
+// entry for the whole edit, all sharing one batch_id. Undoing the
+// 'bulk_update' entry reverts the batch (see history.$id.undo.ts).
+
+export type BulkEditActor = Pick<HistoryEntryInput, 'actor' | 'actorType' | 'userAgent' | 'clientIp' | 'source'>
+
+export interface BulkEditPreview {
+	contactId: string
+	name: string
+	changes: Array<{ field: BulkEditField; label: string; before: unknown; after: unknown }>
+}
+
+function contactName(contact: Contact): string {
+	return contact.full_name || contact.email || 'contact'
+}
+
+function plan(contacts: Array<Contact>, changes: Array<BulkEditChange>) {
+	return contacts
+		.map(contact => ({ contact, values: applyBulkEdit(contact, changes) }))
+		.filter(({ values }) => Object.keys(values).length > 0)
+}
+
+/** What the edit would change, for the contacts it changes. */
+export async function previewBulkEdit(contactIds: Array<string>, changes: Array<BulkEditChange>): Promise<Array<BulkEditPreview>> {
+	return plan(await getContactsByIds(contactIds), changes).map(({ contact, values }) => ({
+		contactId: contact.id,
+		name: contactName(contact),
+		// addresses follow address_country and are not shown on their own.
+		changes: (Object.keys(values) as Array<keyof typeof values>)
+			.filter((field): field is BulkEditField => field in BULK_EDIT_FIELDS)
+			.map(field => ({ field, label: BULK_EDIT_FIELDS[field].label, before: contact[field], after: values[field] })),
+	}))
+}
+
+/**
+ * Apply the edit to the given contacts. Returns how many contacts changed and
+ * the id of the batch's 'bulk_update' history entry (null when nothing changed
+ * or history is unavailable).
+ */
+export async function bulkEditContacts(
+	contactIds: Array<string>,
+	changes: Array<BulkEditChange>,
+	actor: BulkEditActor
+): Promise<{ updated: number; historyId: string | null }> {
+	const batchId = crypto.randomUUID()
+	const description = changes.map(describeBulkEditChange).join(', ')
+	const planned = plan(await getContactsByIds(contactIds), changes)
+
+	for (const { contact, values } of planned) {
+		const saved = await updateContact(contact.id, {
+			...values,
+			vcard_data: generateVCard({ ...contact, ...values }),
+			sync_source: 'api',
+			last_synced_to_radicale_at: null, // Force sync to Radicale
+		})
+		await recordHistory({
+			...actor,
+			contactId: contact.id,
+			operation: 'update',
+			summary: `Bulk edit (${description}): ${contactName(saved)}`,
+			previousState: contact,
+			newState: saved,
+			metadata: { bulkEdit: { changes } },
+			batchId,
+		})
+	}
+
+	if (planned.length === 0) return { updated: 0, historyId: null }
+	const historyId = await recordHistory({
+		...actor,
+		contactId: null,
+		operation: 'bulk_update',
+		summary: `Bulk edit of ${planned.length} contact${planned.length === 1 ? '' : 's'}: ${description}`,
+		metadata: { changes, updated: planned.length },
+		batchId,
+	})
+	return { updated: planned.length, historyId }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { buildCalendar, escapeText, foldLine } from './calendar'
+import type { DatedItem } from './upcoming'
+
+const now = new Date('2026-05-01T12:00:00Z')
+
+function events(calendar: string): Array<string> {
+	return calendar.split('BEGIN:VEVENT').slice(1)
+}
+
+describe('buildCalendar', () => {
+	it('writes one yearly all-day event per item with CRLF line endings', () => {
+		const items: Array<DatedItem> = [
+			{ kind: 'birthday', id: 'c1', original_date: '1990-06-15', people: [{ contact_id: 'c1', name: 'Ana Núñez' }] },
+			{
+				kind: 'anniversary',
+				id: 'r1',
+				original_date: '2012-09-08',
+				people: [
+					{ contact_id: 'c1', name: 'Ana Núñez' },
+					{ contact_id: null, name: 'Sam' },
+				],
+			},
+		]
+		const calendar = buildCalendar(items, { name: 'Family birthdays', now })
+
+		expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true)
+		expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true)
+		expect(calendar).toContain('X-WR-CALNAME:Family birthdays\r\n')
+
+		const [birthday, anniversary] = events(calendar)
+		expect(birthday).toContain('UID:birthday-c1@shared-contacts\r\n')
+		expect(birthday).toContain('DTSTAMP:20260501T120000Z\r\n')
+		expect(birthday).toContain('DTSTART;VALUE=DATE:19900615\r\n')
+		expect(birthday).toContain('DTEND;VALUE=DATE:19900616\r\n')
+		expect(birthday).toContain('RRULE:FREQ=YEARLY\r\n')
+		expect(birthday).toContain("SUMMARY:Ana Núñez's birthday\r\n")
+		expect(birthday).toContain('DESCRIPTION:Born 1990\r\n')
+		expect(anniversary).toContain('SUMMARY:Ana Núñez & Sam anniversary\r\n')
+		expect(anniversary).toContain('DESCRIPTION:Together since 2012\r\n')
+	})
+
+	it('repeats Feb 29 on the last day of February and drops placeholder years', () => {
+		const calendar = buildCalendar(
+			[
+				{ kind: 'birthday', id: 'leap', original_date: '1996-02-29', people: [{ contact_id: 'leap', name: 'Leap' }] },
+				{ kind: 'birthday', id: 'noyear', original_date: '1604-12-31', people: [{ contact_id: 'noyear', name: 'No Year' }] },
+			],
+			{ name: 'Birthdays', now }
+		)
+		const [leap, noYear] = events(calendar)
+		expect(leap).toContain('DTEND;VALUE=DATE:19960301\r\n')
+		expect(leap).toContain('RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1\r\n')
+		expect(noYear).toContain('DTSTART;VALUE=DATE:20001231\r\n')
+		expect(noYear).toContain('DTEND;VALUE=DATE:20010101\r\n')
+		expect(noYear).not.toContain('DESCRIPTION')
+	})
+})
+
+describe('escapeText', () => {
+	it('escapes backslashes, separators and newlines', () => {
+		expect(escapeText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne')
+	})
+})
+
+describe('foldLine', () => {
+	it('leaves short lines alone', () => {
+		expect(foldLine('SUMMARY:short')).toBe('SUMMARY:short')
+	})
+
+	it('folds at 75 octets without splitting multi-byte characters', () => {
+		const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`)
+		const lines = folded.split('\r\n')
+		expect(lines.length).toBeGreaterThan(1)
+		for (const line of lines) expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75)
+		expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true)
+		expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`SUMMARY:${'é'.repeat(60)}`)
+	})
+})
@@ -0,0 +1,92 @@
+import { hasKnownYear, parseDateOnly } from './upcoming'
+import type { DatedItem } from './upcoming'
+
+// iCalendar (RFC 5545) feed of birthdays and anniversaries. Each item is one
+// all-day event repeating yearly from the stored date, so calendar apps keep
+// showing it without re-fetching the feed every year.
+
+const PRODID = '-//Shared Contacts//Birthdays//EN'
+
+/** Stand-in year for dates stored without one; a leap year so Feb 29 stays valid. */
+const NO_YEAR_START = 2000
+
+export function escapeText(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+/** Fold lines longer than 75 octets (RFC 5545 §3.1) without splitting a UTF-8 character. */
+export function foldLine(line: string): string {
+	const parts: Array<string> = []
+	let current = ''
+	let octets = 0
+	for (const char of line) {
+		const size = Buffer.byteLength(char)
+		// Continuation lines start with a space, which counts towards their 75.
+		if (octets + size > (parts.length === 0 ? 75 : 74)) {
+			parts.push(current)
+			current = ''
+			octets = 0
+		}
+		current += char
+		octets += size
+	}
+	parts.push(current)
+	return parts.join('\r\n ')
+}
+
+/** "YYYYMMDD"; day overflow rolls into the next month like Date.UTC. */
+function compactDate(year: number, month: number, day: number): string {
+	return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+function formatStamp(date: Date): string {
+	return date
+		.toISOString()
+		.replace(/[-:]/g, '')
+		.replace(/\.\d{3}/, '')
+}
+
+function joinNames(item: DatedItem): string {
+	return item.people.map(person => person.name).join(' & ')
+}
+
+function eventLines(item: DatedItem, stamp: string): Array<string> {
+	const parts = parseDateOnly(item.original_date)
+	if (!parts) return []
+	const knownYear = hasKnownYear(item.original_date)
+	const startYear = knownYear ? parts.year : NO_YEAR_START
+	const start = compactDate(startYear, parts.month, parts.day)
+	const end = compactDate(startYear, parts.month, parts.day + 1)
+	// A plain yearly rule skips Feb 29 in common years; last-day-of-February keeps it every year.
+	const rule = parts.month === 2 && parts.day === 29 ? 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1' : 'FREQ=YEARLY'
+	const summary = item.kind === 'birthday' ? `${joinNames(item)}'s birthday` : `${joinNames(item)} anniversary`
+	const lines = [
+		'BEGIN:VEVENT',
+		`UID:${item.kind}-${item.id}@shared-contacts`,
+		`DTSTAMP:${stamp}`,
+		`DTSTART;VALUE=DATE:${start}`,
+		`DTEND;VALUE=DATE:${end}`,
+		`RRULE:${rule}`,
+		`SUMMARY:${escapeText(summary)}`,
+	]
+	if (knownYear) {
+		lines.push(`DESCRIPTION:${escapeText(item.kind === 'birthday' ? `Born ${parts.year}` : `Together since ${parts.year}`)}`)
+	}
+	lines.push('TRANSP:TRANSPARENT', 'END:VEVENT')
+	return lines
+}
+
+export function buildCalendar(items: Array<DatedItem>, options: { name: string; now?: Date }): string {
+	const stamp = formatStamp(options.now ?? new Date())
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		`PRODID:${PRODID}`,
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		`X-WR-CALNAME:${escapeText(options.name)}`,
+		...items.flatMap(item => eventLines(item, stamp)),
+		'END:VCALENDAR',
+	]
+	return `${lines.map(foldLine).join('\r\n')}\r\n`
+}
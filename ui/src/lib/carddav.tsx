@@ -91,6 +91,11 @@ export function getCardDAVUrl(username: string, bookId: string, baseUrl: string)
 	return `${baseUrl}/${encodeURIComponent(compositeUsername)}/`
 }
 
+/** URL of a read-only collection (a smart group), served to ro-{id} at ro-{id}/{id}. */
+export function getReadonlyCardDAVUrl(readonlyUsername: string, collectionId: string, baseUrl: string): string {
+	return `${baseUrl}/${encodeURIComponent(readonlyUsername)}/${encodeURIComponent(collectionId)}/`
+}
+
 // ── Actions ────────────────────────────────────────────────────────
 
 // The server names the file in Content-Disposition and appends "-signed" when
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getPool } from './db'
+import { createContactGroup, deleteContactGroup, updateContactGroup } from './contact-groups'
+
+vi.mock('./db', () => ({
+	getPool: vi.fn(),
+	tableExists: vi.fn(),
+}))
+
+const BOOK_ID = '0b6f1d2e-3c4a-4b5d-8e6f-7a8b9c0d1e2f'
+const GROUP_ID = '5c9e1f0a-3b2d-4c8e-9f7a-6d5e4c3b2a19'
+const CONTACT_ID = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'
+
+describe('contact groups', () => {
+	const query = vi.fn()
+	const clientQuery = vi.fn()
+	const release = vi.fn()
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(getPool).mockReturnValue({ query, connect: () => Promise.resolve({ query: clientQuery, release }) } as never)
+		clientQuery.mockImplementation((sql: string) =>
+			Promise.resolve(
+				sql.startsWith('INSERT INTO contact_groups') || sql.startsWith('UPDATE') ? { rows: [{ id: GROUP_ID }], rowCount: 1 } : { rows: [] }
+			)
+		)
+		query.mockImplementation((sql: string) =>
+			Promise.resolve(
+				sql.includes('JOIN contact_group_members') && !sql.includes('member_count') ? { rows: [] } : { rows: [{ id: GROUP_ID }] }
+			)
+		)
+	})
+
+	it('creates the group with a fresh card UID and only members of its book', async () => {
+		const group = await createContactGroup(BOOK_ID, { name: 'Close friends', member_ids: [CONTACT_ID] })
+
+		const statements = clientQuery.mock.calls.map(call => call[0] as string)
+		expect(statements[0]).toBe('BEGIN')
+		const [bookId, name, vcardId] = clientQuery.mock.calls[1][1] as [string, string, string]
+		expect([bookId, name]).toEqual([BOOK_ID, 'Close friends'])
+		expect(vcardId).toMatch(/^[0-9a-f-]{36}$/)
+		const insertMembers = clientQuery.mock.calls.find(call => (call[0] as string).includes('INSERT INTO contact_group_members'))
+		expect(insertMembers?.[0]).toContain('cab.address_book_id = $2')
+		expect(insertMembers?.[1]).toEqual([GROUP_ID, BOOK_ID, [CONTACT_ID]])
+		expect(statements.at(-1)).toBe('COMMIT')
+		expect(release).toHaveBeenCalled()
+		expect(group).toMatchObject({ id: GROUP_ID, members: [] })
+	})
+
+	it('touches the group on member-only updates so it is synced again', async () => {
+		await updateContactGroup(BOOK_ID, GROUP_ID, { member_ids: [] })
+
+		expect(clientQuery.mock.calls[1]).toEqual([
+			'UPDATE contact_groups SET name = COALESCE($3, name) WHERE address_book_id = $1 AND id = $2 RETURNING id',
+			[BOOK_ID, GROUP_ID, null],
+		])
+		expect(clientQuery.mock.calls.some(call => call[0] === 'DELETE FROM contact_group_members WHERE group_id = $1')).toBe(true)
+	})
+
+	it('returns null for a group of another book', async () => {
+		clientQuery.mockImplementation(() => Promise.resolve({ rows: [], rowCount: 0 }))
+		expect(await updateContactGroup(BOOK_ID, GROUP_ID, { name: 'Renamed' })).toBeNull()
+		expect(query).not.toHaveBeenCalled()
+
+		query.mockResolvedValue({ rowCount: 0 })
+		expect(await deleteContactGroup(BOOK_ID, GROUP_ID)).toBe(false)
+	})
+})
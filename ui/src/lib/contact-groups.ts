@@ -0,0 +1,133 @@
+import crypto from 'node:crypto'
+import { getPool, tableExists } from './db'
+import type { PoolClient } from 'pg'
+
+// Contact groups: named sets of contacts inside one address book (see
+// migrations/31_contact_groups.sql). The sync service writes each group to the
+// book's collection as a group vCard, which is how Apple Contacts and DAVx5
+// show groups, and reads groups created on phones back into this table.
+// Every UI change bumps updated_at, which is what tells the sync service that
+// the group has to be written again.
+
+export interface ContactGroupMember {
+	id: string
+	full_name: string | null
+	email: string | null
+}
+
+export interface ContactGroup {
+	id: string
+	address_book_id: string
+	name: string
+	/** UID of the group card in the book's CardDAV collection. */
+	vcard_id: string
+	member_count: number
+	created_at: Date
+	updated_at: Date
+}
+
+export interface ContactGroupWithMembers extends ContactGroup {
+	members: Array<ContactGroupMember>
+}
+
+export interface ContactGroupInput {
+	name: string
+	/** Contacts outside the group's book are ignored. */
+	member_ids?: Array<string>
+}
+
+export async function contactGroupsEnabled(): Promise<boolean> {
+	return tableExists('contact_groups')
+}
+
+// Members count only while they are live contacts of the group's book.
+const LIVE_MEMBER_JOIN = `
+	JOIN contacts c ON c.id = m.contact_id AND c.deleted_at IS NULL
+	JOIN contact_address_books cab ON cab.contact_id = c.id AND cab.address_book_id = g.address_book_id`
+
+const GROUP_SELECT = `
+	SELECT g.id, g.address_book_id, g.name, g.vcard_id, g.created_at, g.updated_at,
+		(SELECT COUNT(*)::int FROM contact_group_members m ${LIVE_MEMBER_JOIN} WHERE m.group_id = g.id) AS member_count
+	FROM contact_groups g`
+
+export async function listContactGroups(addressBookId: string): Promise<Array<ContactGroup>> {
+	const result = await getPool().query<ContactGroup>(`${GROUP_SELECT} WHERE g.address_book_id = $1 ORDER BY lower(g.name)`, [addressBookId])
+	return result.rows
+}
+
+export async function getContactGroup(addressBookId: string, id: string): Promise<ContactGroupWithMembers | null> {
+	const pool = getPool()
+	const result = await pool.query<ContactGroup>(`${GROUP_SELECT} WHERE g.address_book_id = $1 AND g.id = $2`, [addressBookId, id])
+	if (!result.rows[0]) return null
+	const members = await pool.query<ContactGroupMember>(
+		`SELECT c.id, c.full_name, c.email
+		 FROM contact_groups g
+		 JOIN contact_group_members m ON m.group_id = g.id ${LIVE_MEMBER_JOIN}
+		 WHERE g.id = $1
+		 ORDER BY lower(COALESCE(c.full_name, c.email, ''))`,
+		[id]
+	)
+	return { ...result.rows[0], members: members.rows }
+}
+
+async function replaceMembers(client: PoolClient, groupId: string, addressBookId: string, memberIds: Array<string>): Promise<void> {
+	await client.query('DELETE FROM contact_group_members WHERE group_id = $1', [groupId])
+	await client.query(
+		`INSERT INTO contact_group_members (group_id, contact_id)
+		 SELECT $1, cab.contact_id FROM contact_address_books cab
+		 WHERE cab.address_book_id = $2 AND cab.contact_id = ANY($3::uuid[])
+		 ON CONFLICT DO NOTHING`,
+		[groupId, addressBookId, memberIds]
+	)
+}
+
+async function inTransaction<T>(run: (client: PoolClient) => Promise<T>): Promise<T> {
+	const client = await getPool().connect()
+	try {
+		await client.query('BEGIN')
+		const value = await run(client)
+		await client.query('COMMIT')
+		return value
+	} catch (error) {
+		await client.query('ROLLBACK')
+		throw error
+	} finally {
+		client.release()
+	}
+}
+
+export async function createContactGroup(addressBookId: string, input: ContactGroupInput): Promise<ContactGroupWithMembers | null> {
+	const id = await inTransaction(async client => {
+		const result = await client.query<{ id: string }>(
+			'INSERT INTO contact_groups (address_book_id, name, vcard_id) VALUES ($1, $2, $3) RETURNING id',
+			[addressBookId, input.name, crypto.randomUUID()]
+		)
+		const groupId = result.rows[0].id
+		if (input.member_ids?.length) await replaceMembers(client, groupId, addressBookId, input.member_ids)
+		return groupId
+	})
+	return getContactGroup(addressBookId, id)
+}
+
+export async function updateContactGroup(
+	addressBookId: string,
+	id: string,
+	input: Partial<ContactGroupInput>
+): Promise<ContactGroupWithMembers | null> {
+	const found = await inTransaction(async client => {
+		// Always touch the row: the trigger bumps updated_at, which also marks member changes for the sync service.
+		const result = await client.query(
+			'UPDATE contact_groups SET name = COALESCE($3, name) WHERE address_book_id = $1 AND id = $2 RETURNING id',
+			[addressBookId, id, input.name ?? null]
+		)
+		if (result.rowCount === 0) return false
+		if (input.member_ids) await replaceMembers(client, id, addressBookId, input.member_ids)
+		return true
+	})
+	return found ? getContactGroup(addressBookId, id) : null
+}
+
+export async function deleteContactGroup(addressBookId: string, id: string): Promise<boolean> {
+	const result = await getPool().query('DELETE FROM contact_groups WHERE address_book_id = $1 AND id = $2', [addressBookId, id])
+	return (result.rowCount ?? 0) > 0
+}
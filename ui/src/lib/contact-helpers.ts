@@ -2,7 +2,7 @@ import crypto from 'node:crypto'
 import { json } from '@tanstack/react-start'
 import { logger } from './logger'
 import { getAddressBookBySlug } from './db'
-import type { Contact } from './db'
+import type { ContactInput } from './db'
 
 const NodeBuffer = (globalThis as { Buffer?: any }).Buffer
 
@@ -75,8 +75,8 @@ export interface DecodedPhotoWithFlag extends DecodedPhoto {
 	hasPhotoUpdate: boolean
 }
 
-/** Strip the photo_blob binary from a contact before sending to the client. */
-export function sanitizeContact(contact: Contact): Omit<Contact, 'photo_blob'> {
+/** Strip any photo_blob binary (write inputs carry one) from a contact before sending it to the client. */
+export function sanitizeContact<T extends ContactInput>(contact: T): Omit<T, 'photo_blob'> {
 	const { photo_blob, ...rest } = contact
 	return rest
 }
@@ -0,0 +1,268 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createContact, findDuplicateContact, getContactByVcardId, setContactAddressBooks, updateContact, withTransaction } from './db'
+import { recordHistory } from './history'
+import {
+	ImportAlreadyCommittedError,
+	commitImportSession,
+	importFormatForFile,
+	previewImport,
+	readImportRecords,
+	runImport,
+} from './contact-import'
+import type { ImportSession } from './contact-import'
+import type { Contact } from './db'
+
+vi.mock('./db', () => ({
+	createContact: vi.fn(),
+	findDuplicateContact: vi.fn(),
+	columnExists: vi.fn(),
+	getAddressBookBySlug: vi.fn(),
+	getAddressBooks: vi.fn(),
+	getContactByVcardId: vi.fn(),
+	getPool: vi.fn(),
+	setContactAddressBooks: vi.fn(),
+	updateContact: vi.fn(),
+	withTransaction: vi.fn(),
+}))
+
+vi.mock('./history', () => ({
+	recordHistory: vi.fn(),
+}))
+
+vi.mock('./logger', () => ({
+	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}))
+
+const CSV = ['Name,E-mail address,Mystery', 'Ada Lovelace,ada@example.com,x', 'Grace Hopper,grace@example.com,y', ',,'].join('\n')
+
+const existingAda = { id: 'c-ada', full_name: 'Ada Lovelace', email: 'ada@example.com', created_at: new Date() } as Contact
+
+const actor = { actor: 'tester', actorType: 'user' as const, userAgent: null, clientIp: null }
+
+const options = { addressBookIds: [], matchStrategy: 'overwrite' as const }
+
+describe('importFormatForFile', () => {
+	it('recognizes CSV and vCard extensions', () => {
+		expect(importFormatForFile('people.CSV')).toBe('csv')
+		expect(importFormatForFile('export.vcf')).toBe('vcard')
+		expect(importFormatForFile('export.vcard')).toBe('vcard')
+		expect(importFormatForFile('notes.txt')).toBeNull()
+	})
+})
+
+describe('readImportRecords', () => {
+	it('numbers CSV rows as in a spreadsheet and cards from 1', () => {
+		expect(readImportRecords('csv', CSV).map(record => record.position)).toEqual([2, 3, 4])
+		expect(readImportRecords('vcard', 'BEGIN:VCARD\nFN:a\nEND:VCARD\nBEGIN:VCARD\nFN:b\nEND:VCARD').map(r => r.position)).toEqual([1, 2])
+	})
+
+	it('applies an overridden column mapping', () => {
+		const [detected] = readImportRecords('csv', CSV)
+		expect(detected.read().contact).toMatchObject({ full_name: 'Ada Lovelace', email: 'ada@example.com', notes: null })
+
+		const [mapped] = readImportRecords('csv', CSV, ['full_name', null, 'notes'])
+		expect(mapped.read().contact).toMatchObject({ full_name: 'Ada Lovelace', email: null, notes: 'x' })
+	})
+})
+
+describe('previewImport', () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(getContactByVcardId).mockResolvedValue(null)
+		vi.mocked(findDuplicateContact).mockImplementation((_name, email) => Promise.resolve(email === 'ada@example.com' ? existingAda : null))
+	})
+
+	it('detects create, update and skip outcomes', async () => {
+		const rows = await previewImport(readImportRecords('csv', CSV), {})
+		expect(rows.map(row => [row.position, row.detected, row.outcome])).toEqual([
+			[2, 'update', 'update'],
+			[3, 'create', 'create'],
+			[4, 'skip', 'skip'],
+		])
+		expect(rows[0].match).toEqual({ id: 'c-ada', full_name: 'Ada Lovelace' })
+	})
+
+	it('detects matches per the match strategy', async () => {
+		const skipRows = await previewImport(readImportRecords('csv', CSV), {}, 'skip')
+		expect(skipRows.map(row => row.detected)).toEqual(['skip', 'create', 'skip'])
+		const createRows = await previewImport(readImportRecords('csv', CSV), {}, 'create')
+		expect(createRows.map(row => row.detected)).toEqual(['create', 'create', 'skip'])
+		expect(createRows[0].match).toEqual({ id: 'c-ada', full_name: 'Ada Lovelace' })
+	})
+
+	it('applies overrides, except update on a row without a match and anything on an empty row', async () => {
+		const rows = await previewImport(readImportRecords('csv', CSV), { 2: 'create', 3: 'update', 4: 'create' })
+		expect(rows.map(row => [row.outcome, row.overridden])).toEqual([
+			['create', true],
+			['create', false],
+			['skip', false],
+		])
+	})
+})
+
+const query = vi.fn()
+const client = { query }
+
+describe('runImport', () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+		query.mockResolvedValue({ rows: [], rowCount: 1 })
+		vi.mocked(withTransaction).mockImplementation(fn => fn(client as never))
+		vi.mocked(getContactByVcardId).mockResolvedValue(null)
+		vi.mocked(findDuplicateContact).mockImplementation((_name, email) => Promise.resolve(email === 'ada@example.com' ? existingAda : null))
+		vi.mocked(createContact).mockImplementation(data => Promise.resolve({ ...data, id: `new-${data.full_name}` } as Contact))
+		vi.mocked(updateContact).mockImplementation((id, data) => Promise.resolve({ ...data, id } as Contact))
+		vi.mocked(recordHistory).mockResolvedValue('history-id')
+	})
+
+	it('honors per-row decisions', async () => {
+		const results = await runImport({
+			records: readImportRecords('csv', CSV),
+			format: 'csv',
+			fileName: 'people.csv',
+			decisions: { 2: 'skip' },
+			actor,
+			options,
+		})
+		expect(results).toMatchObject({ success: 1, updated: 0, skipped: 2, failed: 0 })
+		expect(updateContact).not.toHaveBeenCalled()
+		expect(createContact).toHaveBeenCalledWith(expect.objectContaining({ full_name: 'Grace Hopper' }), client)
+	})
+
+	it('records every write and a summary entry under one batch', async () => {
+		const results = await runImport({
+			records: readImportRecords('csv', CSV),
+			format: 'csv',
+			fileName: 'people.csv',
+			actor,
+			options,
+		})
+		expect(results).toMatchObject({ success: 1, updated: 1, skipped: 1, historyId: 'history-id' })
+
+		const entries = vi.mocked(recordHistory).mock.calls.map(([entry]) => entry)
+		expect(entries.map(entry => entry.operation)).toEqual(['update', 'create', 'import'])
+		const batchIds = new Set(entries.map(entry => entry.batchId))
+		expect(batchIds.size).toBe(1)
+		expect(entries[2]).toMatchObject({ contactId: null, source: 'import', metadata: expect.objectContaining({ fileName: 'people.csv' }) })
+	})
+
+	it('records no summary when nothing was written', async () => {
+		const results = await runImport({
+			records: readImportRecords('csv', CSV),
+			format: 'csv',
+			fileName: 'people.csv',
+			decisions: { 2: 'skip', 3: 'skip' },
+			actor,
+			options,
+		})
+		expect(results.historyId).toBeNull()
+		expect(recordHistory).not.toHaveBeenCalled()
+	})
+
+	it('adds new contacts to the chosen books and records the options', async () => {
+		const chosen = { addressBookIds: ['book-1', 'book-2'], matchStrategy: 'fill_empty' as const }
+		await runImport({ records: readImportRecords('csv', CSV), format: 'csv', fileName: 'people.csv', actor, options: chosen })
+		expect(setContactAddressBooks).toHaveBeenCalledTimes(1)
+		expect(setContactAddressBooks).toHaveBeenCalledWith('new-Grace Hopper', ['book-1', 'book-2'], client)
+
+		const entries = vi.mocked(recordHistory).mock.calls.map(([entry]) => entry)
+		for (const entry of entries) expect(entry.metadata).toMatchObject({ options: chosen })
+	})
+
+	it('only fills empty fields with fill_empty', async () => {
+		const csv = ['Name,E-mail address,Notes', 'Ada Countess,ada@example.com,Analyst'].join('\n')
+		await runImport({
+			records: readImportRecords('csv', csv),
+			format: 'csv',
+			fileName: 'people.csv',
+			actor,
+			options: { addressBookIds: [], matchStrategy: 'fill_empty' },
+		})
+		expect(updateContact).toHaveBeenCalledWith('c-ada', expect.objectContaining({ full_name: 'Ada Lovelace', notes: 'Analyst' }), client)
+	})
+
+	it('overwrites with the imported values by default', async () => {
+		const csv = ['Name,E-mail address', 'Ada Countess,ada@example.com'].join('\n')
+		await runImport({ records: readImportRecords('csv', csv), format: 'csv', fileName: 'people.csv', actor, options })
+		expect(updateContact).toHaveBeenCalledWith('c-ada', expect.objectContaining({ full_name: 'Ada Countess' }), client)
+	})
+
+	it('leaves matches alone with skip and duplicates them with create', async () => {
+		const skipped = await runImport({
+			records: readImportRecords('csv', CSV),
+			format: 'csv',
+			fileName: 'people.csv',
+			actor,
+			options: { addressBookIds: [], matchStrategy: 'skip' },
+		})
+		expect(skipped).toMatchObject({ success: 1, updated: 0, skipped: 2 })
+
+		vi.mocked(createContact).mockClear()
+		const created = await runImport({
+			records: readImportRecords('csv', CSV),
+			format: 'csv',
+			fileName: 'people.csv',
+			actor,
+			options: { addressBookIds: [], matchStrategy: 'create' },
+		})
+		expect(created).toMatchObject({ success: 2, updated: 0, skipped: 1 })
+		expect(updateContact).not.toHaveBeenCalled()
+	})
+
+	it('rolls a failed row back to its savepoint and imports the rest in the same transaction', async () => {
+		vi.mocked(updateContact).mockRejectedValue(new Error('duplicate key'))
+
+		const results = await runImport({ records: readImportRecords('csv', CSV), format: 'csv', fileName: 'people.csv', actor, options })
+
+		expect(withTransaction).toHaveBeenCalledTimes(1)
+		expect(results).toMatchObject({ success: 1, updated: 0, skipped: 1, failed: 1, errors: [{ row: 2, error: 'duplicate key' }] })
+		const statements = query.mock.calls.map(([sql]) => sql as string).filter(sql => sql.includes('SAVEPOINT'))
+		expect(statements).toEqual([
+			'SAVEPOINT import_row',
+			'ROLLBACK TO SAVEPOINT import_row',
+			'RELEASE SAVEPOINT import_row',
+			'SAVEPOINT import_row',
+			'RELEASE SAVEPOINT import_row',
+			'SAVEPOINT import_row',
+			'RELEASE SAVEPOINT import_row',
+		])
+	})
+})
+
+describe('commitImportSession', () => {
+	const session = {
+		id: 's-1',
+		file_name: 'people.csv',
+		format: 'csv',
+		content: CSV,
+		column_mapping: null,
+		decisions: {},
+		address_book_ids: [],
+		match_strategy: 'overwrite',
+	} as unknown as ImportSession
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		query.mockResolvedValue({ rows: [], rowCount: 1 })
+		vi.mocked(withTransaction).mockImplementation(fn => fn(client as never))
+		vi.mocked(getContactByVcardId).mockResolvedValue(null)
+		vi.mocked(findDuplicateContact).mockResolvedValue(null)
+		vi.mocked(createContact).mockImplementation(data => Promise.resolve({ ...data, id: `new-${data.full_name}` } as Contact))
+	})
+
+	it('imports the records and deletes the session in one transaction', async () => {
+		const results = await commitImportSession(session, actor)
+
+		expect(results).toMatchObject({ success: 2, skipped: 1 })
+		// runImport joins the commit's transaction instead of opening its own.
+		expect(vi.mocked(withTransaction).mock.calls.map(call => call[1])).toEqual([undefined, client])
+		expect(query).toHaveBeenLastCalledWith('DELETE FROM contact_import_sessions WHERE id = $1', ['s-1'])
+	})
+
+	it('rolls back when another commit already deleted the session', async () => {
+		query.mockImplementation((sql: string) => Promise.resolve({ rows: [], rowCount: sql.startsWith('DELETE') ? 0 : 1 }))
+
+		await expect(commitImportSession(session, actor)).rejects.toBeInstanceOf(ImportAlreadyCommittedError)
+	})
+})
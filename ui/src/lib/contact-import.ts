@@ -0,0 +1,597 @@
+import crypto from 'node:crypto'
+import {
+	columnExists,
+	createContact,
+	findDuplicateContact,
+	getAddressBooks,
+	getContactByVcardId,
+	getPool,
+	setContactAddressBooks,
+	updateContact,
+	withTransaction,
+} from './db'
+import { logger } from './logger'
+import { extractUID, generateVCard } from './vcard'
+import { applyColumnMapping, detectColumnMapping, mapCSVRowToContact, parseCSVTable } from './csv'
+import { mapVCardToContact, splitVCards } from './vcard-import'
+import { BadPhotoError, decodePhotoPayload, resolveAddressBookIds } from './contact-helpers'
+import { recordHistory } from './history'
+import type { CSVColumnMapping } from './csv'
+import type { ImportedVCard } from './vcard-import'
+import type { DecodedPhoto } from './contact-helpers'
+import type { HistoryEntryInput } from './history'
+import type { Contact, ContactInput } from './db'
+import type { PoolClient } from 'pg'
+
+// CSV and vCard import. Files are staged in contact_import_sessions, previewed
+// row by row (create, update an existing contact, or skip) and only written
+// once the user commits; every commit is one history batch that a single undo
+// reverts. The one-shot POST /api/contacts/import runs the same commit with
+// the detected mapping and no overrides.
+
+export type ImportFormat = 'csv' | 'vcard'
+export type ImportOutcome = 'create' | 'update' | 'skip'
+
+/**
+ * What to do with a record that matches an existing contact: overwrite it with
+ * the imported values, only fill its empty fields, leave it alone, or import
+ * the record as a separate contact.
+ */
+export const MATCH_STRATEGIES = ['overwrite', 'fill_empty', 'skip', 'create'] as const
+export type MatchStrategy = (typeof MATCH_STRATEGIES)[number]
+export const DEFAULT_MATCH_STRATEGY: MatchStrategy = 'overwrite'
+
+/** The choices made for one import, kept in its history metadata. */
+export interface ImportOptions {
+	/** Books new contacts are added to; matched contacts keep theirs. */
+	addressBookIds: Array<string>
+	matchStrategy: MatchStrategy
+}
+
+/** One CSV row or vCard card. `position` is the spreadsheet row number (the header is row 1) or the card number. */
+export interface ImportRecord {
+	position: number
+	read: () => ImportedVCard
+}
+
+/** Per-row overrides keyed by position. */
+export type ImportDecisions = Partial<Record<string, ImportOutcome>>
+
+export type ImportActor = Pick<HistoryEntryInput, 'actor' | 'actorType' | 'userAgent' | 'clientIp'>
+
+export interface ImportResults {
+	success: number
+	updated: number
+	skipped: number
+	failed: number
+	errors: Array<{ row: number; error: string }>
+	/** The summary history entry; undoing it reverts the whole import. Null when nothing was written. */
+	historyId: string | null
+}
+
+export interface ImportSession {
+	id: string
+	file_name: string
+	format: ImportFormat
+	content: string
+	column_mapping: CSVColumnMapping | null
+	decisions: ImportDecisions
+	/** Null until the user picks books; the commit then falls back to the default book. */
+	address_book_ids: Array<string> | null
+	match_strategy: MatchStrategy
+	/** When the running commit claimed this session; null when none has. */
+	commit_claimed_at: Date | null
+	created_by: string | null
+	created_at: Date
+	updated_at: Date
+}
+
+export interface ImportColumn {
+	index: number
+	header: string
+	detected: string | null
+	mapping: string | null
+	/** The first few non-empty values, to judge the mapping by. */
+	samples: Array<string>
+}
+
+export interface ImportPreviewRow {
+	position: number
+	/** What the importer would do on its own. */
+	detected: ImportOutcome
+	/** What it will do, after the user's override. */
+	outcome: ImportOutcome
+	overridden: boolean
+	full_name: string | null
+	email: string | null
+	phone: string | null
+	has_photo: boolean
+	/** The contact an update would merge into. */
+	match: { id: string; full_name: string | null } | null
+	error: string | null
+}
+
+const SESSION_TTL = '24 hours'
+/** A claim this old belongs to a commit that died without releasing it. */
+const CLAIM_TTL = '15 minutes'
+const SAMPLE_COUNT = 3
+
+export function importFormatForFile(fileName: string): ImportFormat | null {
+	const name = fileName.toLowerCase()
+	if (name.endsWith('.csv')) return 'csv'
+	if (name.endsWith('.vcf') || name.endsWith('.vcard')) return 'vcard'
+	return null
+}
+
+/** The file's rows or cards. CSV uses `mapping` when given, otherwise the one detected from the headers. */
+export function readImportRecords(format: ImportFormat, content: string, mapping?: CSVColumnMapping | null): Array<ImportRecord> {
+	if (format === 'vcard') {
+		return splitVCards(content).map((card, i) => ({ position: i + 1, read: () => mapVCardToContact(card) }))
+	}
+	const { headers, rows } = parseCSVTable(content)
+	const columns = mapping ?? detectColumnMapping(headers)
+	return rows.map((values, i) => ({
+		position: i + 2,
+		read: () => ({ contact: mapCSVRowToContact(applyColumnMapping(values, columns)), photo_data: null }),
+	}))
+}
+
+export function importColumns(session: ImportSession): Array<ImportColumn> {
+	if (session.format !== 'csv') return []
+	const { headers, rows } = parseCSVTable(session.content)
+	const detected = detectColumnMapping(headers)
+	return headers.map((header, index) => ({
+		index,
+		header,
+		detected: detected[index],
+		mapping: session.column_mapping?.[index] ?? null,
+		samples: rows
+			.map(values => (values[index] ?? '').replace(/^"|"$/g, '').trim())
+			.filter(Boolean)
+			.slice(0, SAMPLE_COUNT),
+	}))
+}
+
+/** Photo columns for an imported card. An unusable photo is dropped; the rest of the card still imports. */
+function decodeImportedPhoto(photoData: string | null, position: number): Partial<DecodedPhoto> {
+	if (!photoData) return {}
+	try {
+		const photo = decodePhotoPayload({ photo_data: photoData })
+		return photo.photo_blob ? photo : {}
+	} catch (error) {
+		if (!(error instanceof BadPhotoError)) throw error
+		logger.warn({ err: error, card: position }, 'Skipping unusable photo in vCard import')
+		return {}
+	}
+}
+
+function readRecord(record: ImportRecord): ContactInput {
+	const { contact, photo_data } = record.read()
+	return { ...contact, ...decodeImportedPhoto(photo_data, record.position) }
+}
+
+/** The mappers fall back to "Unnamed Contact", which findDuplicateContact also treats as no name. */
+function isEmptyRecord(contact: Partial<Contact>): boolean {
+	const named = Boolean(contact.full_name) && contact.full_name !== 'Unnamed Contact'
+	return !named && !contact.email && !contact.phone
+}
+
+/** The contact an imported record updates: a stored card with the same UID, else findDuplicateContact. */
+async function findImportMatch(contact: Partial<Contact>, client?: PoolClient): Promise<Contact | null> {
+	const byUid = contact.vcard_id ? await getContactByVcardId(contact.vcard_id, client) : null
+	return byUid ?? (await findDuplicateContact(contact.full_name || null, contact.email || null, contact.phone || null, client))
+}
+
+/** vcard_id is unique across live and trashed contacts, so a new contact cannot reuse a taken UID. */
+async function vcardIdTaken(vcardId: string, client: PoolClient): Promise<boolean> {
+	const result = await client.query('SELECT 1 FROM contacts WHERE vcard_id = $1 LIMIT 1', [vcardId])
+	return result.rows.length > 0
+}
+
+function detectOutcome(match: Contact | null, strategy: MatchStrategy): ImportOutcome {
+	if (!match) return 'create'
+	if (strategy === 'skip' || strategy === 'create') return strategy
+	return 'update'
+}
+
+/** An override applies unless it asks to update a row that matches nothing. */
+function resolveOutcome(detected: ImportOutcome, match: Contact | null, override: ImportOutcome | undefined): ImportOutcome {
+	if (!override || (override === 'update' && !match)) return detected
+	return override
+}
+
+function isBlank(value: unknown): boolean {
+	return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * Merge an imported record into its match. 'fill_empty' only sets fields the
+ * contact has no value for; otherwise the imported non-empty values win.
+ */
+function mergeImported(existing: Contact, imported: ContactInput, strategy: MatchStrategy): ContactInput {
+	const merged: Record<string, unknown> = { id: existing.id, created_at: existing.created_at }
+	for (const key of Object.keys(imported) as Array<keyof Contact>) {
+		merged[key] = strategy === 'fill_empty' && !isBlank(existing[key]) ? existing[key] : imported[key] || existing[key]
+	}
+	// Stored rows carry photo_hash, not the bytes: drop the imported photo
+	// unless it is the one that won.
+	if (merged.photo_hash !== imported.photo_hash) delete merged.photo_blob
+	return merged as ContactInput
+}
+
+export async function previewImport(
+	records: Array<ImportRecord>,
+	decisions: ImportDecisions,
+	strategy: MatchStrategy = DEFAULT_MATCH_STRATEGY
+): Promise<Array<ImportPreviewRow>> {
+	const rows: Array<ImportPreviewRow> = []
+	for (const record of records) {
+		const override = decisions[String(record.position)]
+		try {
+			const contact = readRecord(record)
+			const empty = isEmptyRecord(contact)
+			const match = empty ? null : await findImportMatch(contact)
+			const detected: ImportOutcome = empty ? 'skip' : detectOutcome(match, strategy)
+			// An empty row has nothing to write whatever the override says.
+			const outcome = empty ? 'skip' : resolveOutcome(detected, match, override)
+			rows.push({
+				position: record.position,
+				detected,
+				outcome,
+				overridden: outcome !== detected,
+				full_name: contact.full_name ?? null,
+				email: contact.email ?? null,
+				phone: contact.phone ?? null,
+				has_photo: Boolean(contact.photo_blob),
+				match: match ? { id: match.id, full_name: match.full_name } : null,
+				error: null,
+			})
+		} catch (error) {
+			rows.push({
+				position: record.position,
+				detected: 'skip',
+				outcome: 'skip',
+				overridden: false,
+				full_name: null,
+				email: null,
+				phone: null,
+				has_photo: false,
+				match: null,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+		}
+	}
+	return rows
+}
+
+/**
+ * Write the records: new contacts go into the chosen books, matches are handled
+ * per the match strategy. Each write gets its own history entry, all tied by
+ * one batch id to a summary 'import' entry whose undo reverts them. The whole
+ * import is one transaction (`client`'s when given), so a commit that fails
+ * halfway writes nothing and can simply be retried; a row that fails rolls
+ * back to its own savepoint and is reported instead.
+ */
+export async function runImport(opts: {
+	records: Array<ImportRecord>
+	format: ImportFormat
+	fileName: string
+	decisions?: ImportDecisions
+	actor: ImportActor
+	options: ImportOptions
+	client?: PoolClient
+}): Promise<ImportResults> {
+	const { records, format, fileName, actor, options } = opts
+	const decisions = opts.decisions ?? {}
+	const label = format === 'vcard' ? 'vCard' : 'CSV'
+	const batchId = crypto.randomUUID()
+	return withTransaction(async client => {
+		const results: ImportResults = { success: 0, updated: 0, skipped: 0, failed: 0, errors: [], historyId: null }
+
+		for (const record of records) {
+			const { position } = record
+			await client.query('SAVEPOINT import_row')
+			try {
+				const contactData = readRecord(record)
+				const override = decisions[String(position)]
+
+				// Skip if no meaningful data, or if the user chose to
+				if (isEmptyRecord(contactData) || override === 'skip') {
+					results.skipped++
+					continue
+				}
+
+				const match = await findImportMatch(contactData, client)
+				const outcome = resolveOutcome(detectOutcome(match, options.matchStrategy), match, override)
+				if (outcome === 'skip') {
+					results.skipped++
+					continue
+				}
+				if (outcome === 'create' && contactData.vcard_id && (await vcardIdTaken(contactData.vcard_id, client))) {
+					contactData.vcard_id = null
+				}
+
+				// Generate vCard data
+				const vcardData = generateVCard(contactData)
+				const vcardId = extractUID(vcardData) || undefined
+				const metadata = format === 'vcard' ? { vcardIndex: position, fileName, options } : { csvRow: position, fileName, options }
+
+				if (outcome === 'update' && match) {
+					const updated = await updateContact(
+						match.id,
+						{
+							...mergeImported(match, contactData, options.matchStrategy),
+							// Always update vCard
+							vcard_id: vcardId,
+							vcard_data: vcardData,
+							sync_source: 'api',
+							last_synced_to_radicale_at: null, // Force sync to Radicale
+						},
+						client
+					)
+					await recordHistory(
+						{
+							...actor,
+							contactId: match.id,
+							operation: 'update',
+							source: 'import',
+							summary: `Updated from ${label} import: ${updated.full_name || updated.email || 'contact'}`,
+							previousState: match,
+							newState: updated,
+							metadata,
+							batchId,
+						},
+						client
+					)
+					results.updated++
+				} else {
+					const created = await createContact(
+						{
+							...contactData,
+							vcard_id: vcardId,
+							vcard_data: vcardData,
+							sync_source: 'api',
+							last_synced_to_radicale_at: null, // Force sync to Radicale
+						},
+						client
+					)
+					if (options.addressBookIds.length > 0) {
+						await setContactAddressBooks(created.id, options.addressBookIds, client)
+					}
+					await recordHistory(
+						{
+							...actor,
+							contactId: created.id,
+							operation: 'create',
+							source: 'import',
+							summary: `Imported from ${label}: ${created.full_name || created.email || 'contact'}`,
+							newState: created,
+							metadata,
+							batchId,
+						},
+						client
+					)
+					results.success++
+				}
+			} catch (error) {
+				await client.query('ROLLBACK TO SAVEPOINT import_row')
+				results.failed++
+				results.errors.push({
+					row: position,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			} finally {
+				// Also reached by the skips' `continue`; a rolled-back savepoint still exists.
+				await client.query('RELEASE SAVEPOINT import_row')
+			}
+		}
+
+		if (results.success + results.updated > 0) {
+			results.historyId = await recordHistory(
+				{
+					...actor,
+					contactId: null,
+					operation: 'import',
+					source: 'import',
+					summary: `Imported ${fileName}: ${results.success} new, ${results.updated} updated`,
+					metadata: {
+						fileName,
+						format,
+						created: results.success,
+						updated: results.updated,
+						skipped: results.skipped,
+						failed: results.failed,
+						options,
+					},
+					batchId,
+				},
+				client
+			)
+		}
+		return results
+	}, opts.client)
+}
+
+/** Ids among `ids` that name no address book. */
+export async function unknownAddressBookIds(ids: Array<string>): Promise<Array<string>> {
+	if (ids.length === 0) return []
+	const known = new Set((await getAddressBooks()).map(book => book.id))
+	return ids.filter(id => !known.has(id))
+}
+
+/** The options a commit runs with; no chosen books means the default book. */
+export async function resolveImportOptions(
+	addressBookIds: Array<string> | null | undefined,
+	matchStrategy: MatchStrategy | undefined
+): Promise<ImportOptions> {
+	return {
+		addressBookIds: await resolveAddressBookIds(addressBookIds ?? undefined),
+		matchStrategy: matchStrategy ?? DEFAULT_MATCH_STRATEGY,
+	}
+}
+
+export function importResultMessage(format: ImportFormat, results: ImportResults): string {
+	const unit = format === 'vcard' ? 'cards' : 'rows'
+	return `Imported ${results.success} new contacts, updated ${results.updated} existing contacts${results.skipped > 0 ? `, skipped ${results.skipped} ${unit}` : ''}${results.failed > 0 ? `, ${results.failed} failed` : ''}`
+}
+
+// ---------------------------------------------------------------------------
+// Staging
+// ---------------------------------------------------------------------------
+
+export async function importSessionsEnabled(): Promise<boolean> {
+	// Options and the commit claim arrived in later migrations; the newest implies the rest.
+	return columnExists('contact_import_sessions', 'commit_claimed_at')
+}
+
+export async function createImportSession(input: {
+	fileName: string
+	format: ImportFormat
+	content: string
+	addressBookIds: Array<string> | null
+	matchStrategy: MatchStrategy
+	createdBy: string | null
+}): Promise<ImportSession> {
+	const pool = getPool()
+	// Abandoned previews are not worth a cleanup job; drop them as new ones arrive.
+	await pool.query(`DELETE FROM contact_import_sessions WHERE updated_at < NOW() - INTERVAL '${SESSION_TTL}'`)
+	const mapping = input.format === 'csv' ? detectColumnMapping(parseCSVTable(input.content).headers) : null
+	const result = await pool.query(
+		`INSERT INTO contact_import_sessions (file_name, format, content, column_mapping, address_book_ids, match_strategy, created_by)
+		 VALUES ($1, $2, $3, $4, $5, $6, $7)
+		 RETURNING *`,
+		[
+			input.fileName,
+			input.format,
+			input.content,
+			mapping ? JSON.stringify(mapping) : null,
+			input.addressBookIds,
+			input.matchStrategy,
+			input.createdBy,
+		]
+	)
+	return result.rows[0]
+}
+
+export async function getImportSession(id: string): Promise<ImportSession | null> {
+	const result = await getPool().query('SELECT * FROM contact_import_sessions WHERE id = $1', [id])
+	return result.rows[0] ?? null
+}
+
+/** Replace the column mapping or options and/or merge per-row overrides (null clears one). */
+export async function updateImportSession(
+	session: ImportSession,
+	changes: {
+		column_mapping?: CSVColumnMapping
+		decisions?: Partial<Record<string, ImportOutcome | null>>
+		address_book_ids?: Array<string> | null
+		match_strategy?: MatchStrategy
+	}
+): Promise<ImportSession> {
+	const decisions: ImportDecisions = { ...session.decisions }
+	for (const [position, decision] of Object.entries(changes.decisions ?? {})) {
+		if (decision) decisions[position] = decision
+		else delete decisions[position]
+	}
+	const mapping = changes.column_mapping ?? session.column_mapping
+	const result = await getPool().query(
+		`UPDATE contact_import_sessions
+		 SET column_mapping = $2, decisions = $3, address_book_ids = $4, match_strategy = $5, updated_at = NOW()
+		 WHERE id = $1
+		 RETURNING *`,
+		[
+			session.id,
+			mapping ? JSON.stringify(mapping) : null,
+			JSON.stringify(decisions),
+			changes.address_book_ids === undefined ? session.address_book_ids : changes.address_book_ids,
+			changes.match_strategy ?? session.match_strategy,
+		]
+	)
+	return result.rows[0]
+}
+
+/** Mark the session as being committed; null if it is gone or a live commit holds it. Stale claims are taken over. */
+export async function claimImportSession(id: string): Promise<ImportSession | null> {
+	const result = await getPool().query(
+		`UPDATE contact_import_sessions
+		 SET commit_claimed_at = NOW(), updated_at = NOW()
+		 WHERE id = $1 AND (commit_claimed_at IS NULL OR commit_claimed_at < NOW() - INTERVAL '${CLAIM_TTL}')
+		 RETURNING *`,
+		[id]
+	)
+	return result.rows[0] ?? null
+}
+
+/** Give up a claim after a failed commit so the session can be committed again. */
+export async function releaseImportSession(id: string): Promise<void> {
+	await getPool().query('UPDATE contact_import_sessions SET commit_claimed_at = NULL WHERE id = $1', [id])
+}
+
+/** Thrown when another commit of the same session finished first. */
+export class ImportAlreadyCommittedError extends Error {
+	constructor() {
+		super('This import has already been committed')
+		this.name = 'ImportAlreadyCommittedError'
+	}
+}
+
+/**
+ * Import a claimed session's records and delete the session in one
+ * transaction. A commit that outlived its claim finds the session gone once
+ * the commit that took it over has finished, and rolls back.
+ */
+export async function commitImportSession(session: ImportSession, actor: ImportActor): Promise<ImportResults> {
+	const options = await resolveImportOptions(session.address_book_ids, session.match_strategy)
+	return withTransaction(async client => {
+		const results = await runImport({
+			records: sessionRecords(session),
+			format: session.format,
+			fileName: session.file_name,
+			decisions: session.decisions,
+			actor,
+			options,
+			client,
+		})
+		const deleted = await client.query('DELETE FROM contact_import_sessions WHERE id = $1', [session.id])
+		if (!deleted.rowCount) throw new ImportAlreadyCommittedError()
+		return results
+	})
+}
+
+export async function deleteImportSession(id: string): Promise<void> {
+	await getPool().query('DELETE FROM contact_import_sessions WHERE id = $1', [id])
+}
+
+export function sessionRecords(session: ImportSession): Array<ImportRecord> {
+	return readImportRecords(session.format, session.content, session.column_mapping)
+}
+
+export interface ImportSessionView {
+	id: string
+	file_name: string
+	format: ImportFormat
+	created_at: Date
+	address_book_ids: Array<string> | null
+	match_strategy: MatchStrategy
+	columns: Array<ImportColumn>
+	rows: Array<ImportPreviewRow>
+	counts: Record<ImportOutcome, number>
+}
+
+/** What the preview page shows: the columns with their mapping and every row's outcome. */
+export async function describeImportSession(session: ImportSession): Promise<ImportSessionView> {
+	const rows = await previewImport(sessionRecords(session), session.decisions, session.match_strategy)
+	const counts: Record<ImportOutcome, number> = { create: 0, update: 0, skip: 0 }
+	for (const row of rows) counts[row.outcome]++
+	return {
+		id: session.id,
+		file_name: session.file_name,
+		format: session.format,
+		created_at: session.created_at,
+		address_book_ids: session.address_book_ids,
+		match_strategy: session.match_strategy,
+		columns: importColumns(session),
+		rows,
+		counts,
+	}
+}
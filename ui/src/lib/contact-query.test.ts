@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import { ContactQueryError, applyQueryCompletion, compileContactQuery, parseContactQuery, suggestQueryCompletions } from './contact-query'
+
+function compile(input: string) {
+	const params: Array<unknown> = []
+	const compiled = compileContactQuery(parseContactQuery(input), value => {
+		params.push(value)
+		return `$${params.length}`
+	})
+	return { ...compiled, params }
+}
+
+const BOOKS = [
+	{ slug: 'family', name: 'Family' },
+	{ slug: 'friends', name: 'Friends' },
+	{ slug: 'work', name: 'Work' },
+]
+
+// ---------------------------------------------------------------------------
+// parseContactQuery
+// ---------------------------------------------------------------------------
+describe('parseContactQuery', () => {
+	it('splits the example from the search box', () => {
+		expect(parseContactQuery('book:family has:birthday -has:email org:"Acme Inc" city:Denver born:1980..1990 tag:volunteer ada')).toEqual([
+			{ kind: 'qualifier', qualifier: 'book', value: 'family', negated: false },
+			{ kind: 'qualifier', qualifier: 'has', value: 'birthday', negated: false },
+			{ kind: 'qualifier', qualifier: 'has', value: 'email', negated: true },
+			{ kind: 'qualifier', qualifier: 'org', value: 'Acme Inc', negated: false },
+			{ kind: 'qualifier', qualifier: 'city', value: 'Denver', negated: false },
+			{ kind: 'qualifier', qualifier: 'born', value: '1980..1990', negated: false },
+			{ kind: 'qualifier', qualifier: 'tag', value: 'volunteer', negated: false },
+			{ kind: 'text', value: 'ada', negated: false },
+		])
+	})
+
+	it('accepts aliases and any case', () => {
+		expect(parseContactQuery('Company:acme CATEGORY:x')).toEqual([
+			{ kind: 'qualifier', qualifier: 'org', value: 'acme', negated: false },
+			{ kind: 'qualifier', qualifier: 'tag', value: 'x', negated: false },
+		])
+	})
+
+	it('keeps unknown qualifiers, quoted phrases and negated words as text', () => {
+		expect(parseContactQuery('re:lunch "Ada Lovelace" -smith')).toEqual([
+			{ kind: 'text', value: 're:lunch', negated: false },
+			{ kind: 'text', value: 'Ada Lovelace', negated: false },
+			{ kind: 'text', value: 'smith', negated: true },
+		])
+	})
+
+	it('reads an unclosed quote to the end', () => {
+		expect(parseContactQuery('org:"Acme In')).toEqual([{ kind: 'qualifier', qualifier: 'org', value: 'Acme In', negated: false }])
+	})
+
+	it('rejects a qualifier without a value', () => {
+		expect(() => parseContactQuery('book: ada')).toThrow(ContactQueryError)
+	})
+})
+
+// ---------------------------------------------------------------------------
+// compileContactQuery
+// ---------------------------------------------------------------------------
+describe('compileContactQuery', () => {
+	it('separates free text from qualifier conditions', () => {
+		const { text, excludedText, conditions } = compile('ada -smith has:email')
+		expect(text).toEqual(['ada'])
+		expect(excludedText).toEqual(['smith'])
+		expect(conditions).toEqual(["COALESCE(email, '') <> ''"])
+	})
+
+	it('passes every value as a parameter', () => {
+		const { conditions, params } = compile(`org:"O'Brien %" book:Family tag:Volunteer`)
+		expect(conditions.join(' ')).not.toContain("O'Brien")
+		expect(params).toEqual(["%O'Brien \\%%", 'family', 'volunteer'])
+	})
+
+	it('wraps negated qualifiers so NULL columns count as not matching', () => {
+		expect(compile('-org:acme').conditions).toEqual(['NOT COALESCE((organization ILIKE $1), false)'])
+	})
+
+	it('matches phone numbers on digits only', () => {
+		const { conditions, params } = compile('phone:555-01')
+		expect(conditions[0]).toContain("regexp_replace(num, '\\D', '', 'g') LIKE $1")
+		expect(params).toEqual(['%55501%'])
+	})
+
+	it.each([
+		['born:1985', ['1985-01-01', '1985-12-31']],
+		['born:1980..1990', ['1980-01-01', '1990-12-31']],
+		['born:..1990', ['1990-12-31']],
+		['born:1980-04-01..1980-05-01', ['1980-04-01', '1980-05-01']],
+	])('compiles %s to a date range that skips year-less birthdays', (input, params) => {
+		const compiled = compile(input)
+		expect(compiled.conditions[0]).toContain('EXTRACT(YEAR FROM birthday) > 1700')
+		expect(compiled.params).toEqual(params)
+	})
+
+	it.each(['born:soon', 'born:1980-02-30', 'born:1..2..3', 'born:..', 'has:shoe_size', 'phone:abc'])('rejects %s', input => {
+		expect(() => compile(input)).toThrow(ContactQueryError)
+	})
+})
+
+// ---------------------------------------------------------------------------
+// Autocomplete
+// ---------------------------------------------------------------------------
+describe('suggestQueryCompletions', () => {
+	it('suggests qualifiers for the word under the cursor', () => {
+		expect(suggestQueryCompletions('ada b', 5, BOOKS).map(c => c.insert)).toEqual(['book:', 'born:'])
+		expect(suggestQueryCompletions('-ha', 3, BOOKS).map(c => c.insert)).toEqual(['-has:'])
+	})
+
+	it('suggests has: fields and book slugs', () => {
+		expect(suggestQueryCompletions('has:bi', 6, BOOKS).map(c => c.insert)).toEqual(['has:birthday '])
+		expect(suggestQueryCompletions('book:f', 6, BOOKS).map(c => c.label)).toEqual(['book:family', 'book:friends'])
+	})
+
+	it('suggests nothing for free-form values or an empty word', () => {
+		expect(suggestQueryCompletions('org:ac', 6, BOOKS)).toEqual([])
+		expect(suggestQueryCompletions('ada ', 4, BOOKS)).toEqual([])
+	})
+})
+
+describe('applyQueryCompletion', () => {
+	it('replaces the word under the cursor and moves the cursor past it', () => {
+		const [completion] = suggestQueryCompletions('ada has:bi smith', 10, BOOKS)
+		expect(applyQueryCompletion('ada has:bi smith', 10, completion)).toEqual({ value: 'ada has:birthday  smith', cursor: 17 })
+	})
+})
@@ -0,0 +1,96 @@
+// The contacts search box's side of the search language: autocomplete. The
+// language itself (parsing and compiling to SQL) lives in
+// shared/contact-filter.ts so the sync service compiles smart groups with the
+// same code; it is re-exported here for the UI.
+
+import { HAS_CONDITIONS, QUALIFIERS, qualifierFor } from '../../../shared/contact-filter'
+
+export {
+	ContactQueryError,
+	HAS_CONDITIONS,
+	QUALIFIERS,
+	buildSearchQuery,
+	compileContactFilter,
+	compileContactQuery,
+	compileContactSearch,
+	escapeLike,
+	parseContactQuery,
+} from '../../../shared/contact-filter'
+export type { CompiledContactQuery, ContactSearchSql, QualifierInfo, QueryTerm } from '../../../shared/contact-filter'
+
+// ---------------------------------------------------------------------------
+// Autocomplete
+// ---------------------------------------------------------------------------
+
+export interface QueryCompletion {
+	/** The whole term to put in place of the one being typed. */
+	insert: string
+	label: string
+	description: string
+}
+
+function currentTermStart(input: string, cursor: number): number {
+	let start = cursor
+	let quoted = (input.slice(0, cursor).match(/"/g) ?? []).length % 2 === 1
+	while (start > 0 && (quoted || !/\s/.test(input[start - 1]))) {
+		if (input[start - 1] === '"') quoted = !quoted
+		start--
+	}
+	return start
+}
+
+function quoteValue(value: string): string {
+	return /\s/.test(value) ? `"${value}"` : value
+}
+
+/**
+ * Completions for the term under the cursor: qualifier names while typing a
+ * word, then values for qualifiers with a known set (has: fields and book:
+ * slugs from `books`).
+ */
+export function suggestQueryCompletions(
+	input: string,
+	cursor: number,
+	books: Array<{ slug: string; name: string }>
+): Array<QueryCompletion> {
+	const term = input.slice(currentTermStart(input, cursor), cursor)
+	const sign = term.startsWith('-') ? '-' : ''
+	const body = term.slice(sign.length)
+	const colon = body.indexOf(':')
+
+	if (colon === -1) {
+		if (!body) return []
+		const typed = body.toLowerCase()
+		return QUALIFIERS.filter(info => info.key.startsWith(typed) && info.key !== typed).map(info => ({
+			insert: `${sign}${info.key}:`,
+			label: `${sign}${info.key}:`,
+			description: info.description,
+		}))
+	}
+
+	const qualifier = qualifierFor(body.slice(0, colon))
+	const typed = body
+		.slice(colon + 1)
+		.replace(/^"/, '')
+		.toLowerCase()
+	const values =
+		qualifier?.key === 'has'
+			? Object.keys(HAS_CONDITIONS).map(field => ({ value: field, description: sign ? `Missing ${field}` : `Has ${field}` }))
+			: qualifier?.key === 'book'
+				? books.map(book => ({ value: book.slug, description: book.name }))
+				: []
+	return values
+		.filter(({ value }) => value.toLowerCase().startsWith(typed) && value.toLowerCase() !== typed)
+		.map(({ value, description }) => ({
+			insert: `${sign}${qualifier!.key}:${quoteValue(value)} `,
+			label: `${sign}${qualifier!.key}:${value}`,
+			description,
+		}))
+}
+
+/** Replace the term under the cursor with a completion; returns the new text and cursor. */
+export function applyQueryCompletion(input: string, cursor: number, completion: QueryCompletion): { value: string; cursor: number } {
+	const start = currentTermStart(input, cursor)
+	const value = input.slice(0, start) + completion.insert + input.slice(cursor)
+	return { value, cursor: start + completion.insert.length }
+}
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { attachAddressBooks, functionExists, getPool } from './db'
+import { decodeCursor, encodeCursor, isContactSearchRequest, parseContactListQuery, searchContacts } from './contact-search'
+import { buildSearchQuery, parseContactQuery } from './contact-query'
+import type { ContactListQuery } from './contact-search'
+
+vi.mock('./db', () => ({
+	attachAddressBooks: vi.fn(),
+	functionExists: vi.fn(),
+	getPool: vi.fn(),
+	parseContactRow: (row: unknown) => row,
+}))
+
+const BOOK_ID = '0b7a3c1e-5d2f-4e6a-9b8c-1d2e3f4a5b6c'
+const CONTACT_ID = '7f1e2d3c-4b5a-4968-8776-5a4b3c2d1e0f'
+
+function parse(query: string) {
+	return parseContactListQuery(new URLSearchParams(query))
+}
+
+describe('isContactSearchRequest', () => {
+	it('recognizes search params but not the legacy pagination ones', () => {
+		expect(isContactSearchRequest(new URLSearchParams('q=ada'))).toBe(true)
+		expect(isContactSearchRequest(new URLSearchParams('sort=name'))).toBe(true)
+		expect(isContactSearchRequest(new URLSearchParams('limit=10&offset=20'))).toBe(false)
+		expect(isContactSearchRequest(new URLSearchParams(''))).toBe(false)
+	})
+})
+
+describe('parseContactListQuery', () => {
+	it('sorts by relevance while searching and by name otherwise', () => {
+		expect(parse('q=ada')).toEqual({ query: expect.objectContaining({ q: 'ada', sort: 'relevance', order: 'desc' }) })
+		expect(parse('sort=name')).toEqual({ query: expect.objectContaining({ q: null, sort: 'name', order: 'asc', limit: 50 }) })
+	})
+
+	it('reads filters, book and cursor', () => {
+		const cursor = encodeCursor({ value: 'ada', id: CONTACT_ID })
+		const parsed = parse(`has=email,phone&missing=birthday&book=${BOOK_ID}&cursor=${cursor}&limit=20`)
+		expect(parsed).toEqual({
+			query: expect.objectContaining({
+				has: ['email', 'phone'],
+				missing: ['birthday'],
+				bookId: BOOK_ID,
+				cursor: { value: 'ada', id: CONTACT_ID },
+				limit: 20,
+			}),
+		})
+	})
+
+	it.each([
+		['sort=shoe_size', 'sort must be one of'],
+		['sort=relevance', 'sort=relevance needs a search'],
+		['sort=name&order=sideways', 'order must be'],
+		['sort=name&limit=1000', 'limit must be'],
+		['has=email,shoe_size', 'has and missing'],
+		['book=shared-contacts', 'book must be'],
+		['sort=name&cursor=garbage', 'Invalid cursor'],
+	])('rejects %s', (query, message) => {
+		const parsed = parse(query)
+		expect('error' in parsed && parsed.error).toContain(message)
+	})
+})
+
+describe('decodeCursor', () => {
+	it('round-trips and rejects tampered cursors', () => {
+		expect(decodeCursor(encodeCursor({ value: '2024-01-01 10:00:00.123456+00', id: CONTACT_ID }))).toEqual({
+			value: '2024-01-01 10:00:00.123456+00',
+			id: CONTACT_ID,
+		})
+		expect(decodeCursor(Buffer.from(JSON.stringify({ value: 'x', id: "1' OR 1=1" })).toString('base64url'))).toBeNull()
+	})
+})
+
+describe('buildSearchQuery', () => {
+	it('ANDs every word as a prefix', () => {
+		expect(buildSearchQuery('Ada  Love')).toBe("'ada':* & 'love':*")
+	})
+
+	it('keeps emails whole and splits phone numbers into digit groups', () => {
+		expect(buildSearchQuery('ada@example.com')).toBe("'ada@example.com':*")
+		expect(buildSearchQuery('555-0100')).toBe("'555':* & '0100':*")
+		expect(buildSearchQuery('(202)')).toBe("'202':*")
+	})
+
+	it('drops tsquery syntax', () => {
+		expect(buildSearchQuery("o'neil | !x")).toBe("'oneil':* & 'x':*")
+		expect(buildSearchQuery(' & ! ')).toBeNull()
+	})
+})
+
+describe('searchContacts', () => {
+	const query = vi.fn()
+	const base: ContactListQuery = {
+		q: null,
+		terms: [],
+		bookId: null,
+		has: [],
+		missing: [],
+		sort: 'name',
+		order: 'asc',
+		limit: 2,
+		cursor: null,
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(getPool).mockReturnValue({ query } as never)
+		vi.mocked(functionExists).mockResolvedValue(true)
+		vi.mocked(attachAddressBooks).mockImplementation(contacts => Promise.resolve(contacts))
+		query.mockImplementation((sql: string) =>
+			Promise.resolve(
+				sql.startsWith('SELECT COUNT')
+					? { rows: [{ count: '3' }] }
+					: {
+							rows: [
+								{ id: 'a', full_name: 'Ada', sort_value: 'ada' },
+								{ id: CONTACT_ID, full_name: 'Bea', sort_value: 'bea' },
+								{ id: 'c', full_name: 'Cy', sort_value: 'cy' },
+							],
+						}
+			)
+		)
+	})
+
+	it('returns a page and a cursor at its last row', async () => {
+		const page = await searchContacts(base, null)
+		expect(page.total).toBe(3)
+		expect(page.data).toEqual([
+			{ id: 'a', full_name: 'Ada' },
+			{ id: CONTACT_ID, full_name: 'Bea' },
+		])
+		expect(page.next_cursor && decodeCursor(page.next_cursor)).toEqual({ value: 'bea', id: CONTACT_ID })
+	})
+
+	it('continues after the cursor in the sort direction', async () => {
+		await searchContacts({ ...base, order: 'desc', cursor: { value: 'bea', id: CONTACT_ID } }, null)
+		const [sql, params] = query.mock.calls[1] as [string, Array<unknown>]
+		expect(sql).toContain("(lower(COALESCE(full_name, '')), id) < ($1::text, $2::uuid)")
+		expect(sql).toContain('DESC, id DESC')
+		expect(params).toEqual(['bea', CONTACT_ID, 3])
+	})
+
+	it('applies the search, filters and books', async () => {
+		await searchContacts(
+			{ ...base, q: 'ada', terms: parseContactQuery('ada'), sort: 'relevance', has: ['email'], missing: ['book'], bookId: BOOK_ID },
+			[BOOK_ID]
+		)
+		const [sql, params] = query.mock.calls[0] as [string, Array<unknown>]
+		expect(sql).toContain("@@ to_tsquery('simple', $3)")
+		expect(sql).toContain("COALESCE(email, '') <> ''")
+		expect(sql).toContain('NOT (EXISTS (SELECT 1 FROM contact_address_books cab WHERE cab.contact_id = contacts.id))')
+		expect(params).toEqual([[BOOK_ID], BOOK_ID, "'ada':*"])
+		expect(query.mock.calls[1][0]).toContain('ORDER BY ts_rank(')
+	})
+
+	it('falls back to ILIKE before the search migration', async () => {
+		vi.mocked(functionExists).mockResolvedValue(false)
+		await searchContacts({ ...base, q: '50%', terms: parseContactQuery('50%') }, null)
+		const [sql, params] = query.mock.calls[0] as [string, Array<unknown>]
+		expect(sql).toContain('ILIKE $1')
+		expect(params).toEqual(['%50\\%%'])
+	})
+})
@@ -0,0 +1,229 @@
+import { attachAddressBooks, functionExists, getPool, parseContactRow } from './db'
+import { ContactQueryError, HAS_CONDITIONS, compileContactSearch, parseContactQuery } from './contact-query'
+import type { Contact } from './db'
+import type { QueryTerm } from './contact-query'
+
+// Server-side search, filtering, sorting and keyset pagination for the
+// contacts list (GET /api/contacts?q=...&sort=...). `q` is in the search
+// language of shared/contact-filter.ts; its free words go through the
+// contact_search_vector() expression index from migration 29, or ILIKE over
+// the same columns before that migration has run.
+
+export const CONTACT_SORT_KEYS = [
+	'relevance',
+	'name',
+	'first_name',
+	'last_name',
+	'email',
+	'phone',
+	'birthday',
+	'organization',
+	'created_at',
+	'updated_at',
+] as const
+export type ContactSortKey = (typeof CONTACT_SORT_KEYS)[number]
+export type SortOrder = 'asc' | 'desc'
+
+/** The has/missing filters of the contacts list; 'book' means "in any address book". */
+export const CONTACT_FIELD_FILTERS = ['email', 'phone', 'birthday', 'organization', 'book'] as const
+export type ContactFieldFilter = (typeof CONTACT_FIELD_FILTERS)[number]
+
+export const DEFAULT_CONTACT_PAGE_SIZE = 50
+export const MAX_CONTACT_PAGE_SIZE = 200
+
+/** Only what the list renders; the full record is fetched from /api/contacts/:id. */
+const LIST_COLUMNS = [
+	'id',
+	'full_name',
+	'first_name',
+	'last_name',
+	'nickname',
+	'email',
+	'phone',
+	'birthday',
+	'organization',
+	'job_title',
+	'photo_hash',
+	'photo_updated_at',
+	'created_at',
+	'updated_at',
+] as const
+
+export type ContactListItem = Pick<Contact, (typeof LIST_COLUMNS)[number] | 'address_books'>
+
+export interface ContactListCursor {
+	/** The last row's sort value, as Postgres renders it in text. */
+	value: string
+	id: string
+}
+
+export interface ContactListQuery {
+	q: string | null
+	/** `q`, parsed. */
+	terms: Array<QueryTerm>
+	bookId: string | null
+	has: Array<ContactFieldFilter>
+	missing: Array<ContactFieldFilter>
+	sort: ContactSortKey
+	order: SortOrder
+	limit: number
+	cursor: ContactListCursor | null
+}
+
+export interface ContactListPage {
+	data: Array<ContactListItem>
+	/** Contacts matching the search and filters, across all pages. */
+	total: number
+	/** Pass back as ?cursor= for the next page; null on the last page. */
+	next_cursor: string | null
+}
+
+/** Sort expressions never yield NULL, so they compare cleanly in the keyset condition. */
+const SORTS: Record<Exclude<ContactSortKey, 'relevance'>, { expression: string; type: string }> = {
+	name: { expression: "lower(COALESCE(full_name, ''))", type: 'text' },
+	first_name: { expression: "lower(COALESCE(NULLIF(first_name, ''), split_part(COALESCE(full_name, ''), ' ', 1)))", type: 'text' },
+	last_name: { expression: "lower(COALESCE(last_name, ''))", type: 'text' },
+	email: { expression: "lower(COALESCE(email, ''))", type: 'text' },
+	phone: { expression: "COALESCE(phone, '')", type: 'text' },
+	birthday: { expression: "COALESCE(birthday::text, '')", type: 'text' },
+	organization: { expression: "lower(COALESCE(organization, ''))", type: 'text' },
+	created_at: { expression: 'created_at', type: 'timestamptz' },
+	updated_at: { expression: 'updated_at', type: 'timestamptz' },
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Params that switch GET /api/contacts from the legacy responses to a search page. */
+const SEARCH_PARAMS = ['q', 'sort', 'order', 'cursor', 'book', 'has', 'missing']
+
+export function isContactSearchRequest(params: URLSearchParams): boolean {
+	return SEARCH_PARAMS.some(name => params.has(name))
+}
+
+export function encodeCursor(cursor: ContactListCursor): string {
+	return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeCursor(raw: string): ContactListCursor | null {
+	try {
+		const parsed: unknown = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'))
+		if (typeof parsed !== 'object' || parsed === null) return null
+		const { value, id } = parsed as Record<string, unknown>
+		if (typeof value !== 'string' || typeof id !== 'string' || !UUID_PATTERN.test(id)) return null
+		return { value, id }
+	} catch {
+		return null
+	}
+}
+
+function parseFieldList(raw: string | null): Array<ContactFieldFilter> | null {
+	if (!raw) return []
+	const fields = raw.split(',').map(field => field.trim())
+	if (!fields.every(field => (CONTACT_FIELD_FILTERS as ReadonlyArray<string>).includes(field))) return null
+	return fields as Array<ContactFieldFilter>
+}
+
+/**
+ * Read ?q, ?book, ?has=email,phone, ?missing=birthday, ?sort, ?order, ?limit
+ * and ?cursor. Sorting defaults to relevance while searching for words, else
+ * to name.
+ */
+export function parseContactListQuery(params: URLSearchParams): { query: ContactListQuery } | { error: string } {
+	const q = params.get('q')?.trim() || null
+	let terms: Array<QueryTerm> = []
+	try {
+		terms = q ? parseContactQuery(q) : []
+	} catch (error) {
+		if (error instanceof ContactQueryError) return { error: error.message }
+		throw error
+	}
+	const hasText = terms.some(term => term.kind === 'text' && !term.negated)
+
+	const sort = params.get('sort') ?? (hasText ? 'relevance' : 'name')
+	if (!(CONTACT_SORT_KEYS as ReadonlyArray<string>).includes(sort)) {
+		return { error: `sort must be one of ${CONTACT_SORT_KEYS.join(', ')}` }
+	}
+	if (sort === 'relevance' && !q) return { error: 'sort=relevance needs a search (q)' }
+
+	const order = params.get('order') ?? (sort === 'relevance' ? 'desc' : 'asc')
+	if (order !== 'asc' && order !== 'desc') return { error: 'order must be asc or desc' }
+
+	const limit = Number(params.get('limit') ?? DEFAULT_CONTACT_PAGE_SIZE)
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CONTACT_PAGE_SIZE) {
+		return { error: `limit must be a whole number from 1 to ${MAX_CONTACT_PAGE_SIZE}` }
+	}
+
+	const has = parseFieldList(params.get('has'))
+	const missing = parseFieldList(params.get('missing'))
+	if (!has || !missing) return { error: `has and missing take a comma-separated list of ${CONTACT_FIELD_FILTERS.join(', ')}` }
+
+	const bookId = params.get('book') || null
+	if (bookId && !UUID_PATTERN.test(bookId)) return { error: 'book must be an address book id' }
+
+	const rawCursor = params.get('cursor')
+	const cursor = rawCursor ? decodeCursor(rawCursor) : null
+	if (rawCursor && !cursor) return { error: 'Invalid cursor' }
+
+	return { query: { q, terms, bookId, has, missing, sort: sort as ContactSortKey, order, limit, cursor } }
+}
+
+/**
+ * One page of the contacts list. `readableBookIds` limits the results to the
+ * caller's books (null: no restriction); `query.bookId` must already have been
+ * checked against them. Throws ContactQueryError for a qualifier value that
+ * cannot be compiled.
+ */
+export async function searchContacts(query: ContactListQuery, readableBookIds: Array<string> | null): Promise<ContactListPage> {
+	const params: Array<unknown> = []
+	const param = (value: unknown) => {
+		params.push(value)
+		return `$${params.length}`
+	}
+
+	const conditions = ['deleted_at IS NULL']
+	if (readableBookIds) {
+		conditions.push(
+			`EXISTS (SELECT 1 FROM contact_address_books cab WHERE cab.contact_id = contacts.id AND cab.address_book_id = ANY(${param(readableBookIds)}::uuid[]))`
+		)
+	}
+	if (query.bookId) {
+		conditions.push(
+			`EXISTS (SELECT 1 FROM contact_address_books cab WHERE cab.contact_id = contacts.id AND cab.address_book_id = ${param(query.bookId)}::uuid)`
+		)
+	}
+	for (const field of query.has) conditions.push(HAS_CONDITIONS[field])
+	for (const field of query.missing) conditions.push(`NOT (${HAS_CONDITIONS[field]})`)
+
+	const search = compileContactSearch(query.terms, param, await functionExists('contact_search_vector'))
+	if (!search) return { data: [], total: 0, next_cursor: null }
+	conditions.push(...search.conditions)
+	const sort = query.sort === 'relevance' ? (search.rank ? { expression: search.rank, type: 'real' } : SORTS.name) : SORTS[query.sort]
+
+	const pool = getPool()
+	const where = conditions.join(' AND ')
+	const countResult = await pool.query(`SELECT COUNT(*) FROM contacts WHERE ${where}`, [...params])
+
+	const direction = query.order === 'desc' ? 'DESC' : 'ASC'
+	const pageConditions = [...conditions]
+	if (query.cursor) {
+		const comparison = query.order === 'desc' ? '<' : '>'
+		pageConditions.push(
+			`(${sort.expression}, id) ${comparison} (${param(query.cursor.value)}::${sort.type}, ${param(query.cursor.id)}::uuid)`
+		)
+	}
+	const dataResult = await pool.query(
+		`SELECT ${LIST_COLUMNS.join(', ')}, (${sort.expression})::text AS sort_value
+		 FROM contacts
+		 WHERE ${pageConditions.join(' AND ')}
+		 ORDER BY ${sort.expression} ${direction}, id ${direction}
+		 LIMIT ${param(query.limit + 1)}`,
+		params
+	)
+
+	const rows: Array<ContactListItem & { sort_value: string }> = dataResult.rows.map(parseContactRow)
+	const page = rows.slice(0, query.limit)
+	const last = page.at(-1)
+	const next_cursor = rows.length > query.limit && last ? encodeCursor({ value: last.sort_value, id: last.id }) : null
+	const data = await attachAddressBooks(page.map(({ sort_value, ...contact }) => contact))
+	return { data, total: parseInt(countResult.rows[0].count, 10), next_cursor }
+}
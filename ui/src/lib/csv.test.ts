@@ -1,12 +1,15 @@
 import { describe, expect, it } from 'vitest'
 import {
 	CSV_COLUMNS,
+	applyColumnMapping,
 	contactsToCsv,
+	detectColumnMapping,
 	escapeCsvField,
 	mapCSVRowToContact,
 	normalizeHeader,
 	parseCSV,
 	parseCSVLine,
+	parseCSVTable,
 	toCanonicalHeader,
 } from './csv'
 import type { Contact } from './db'
@@ -160,6 +163,44 @@ describe('parseCSV', () => {
 	})
 })
 
+// ---------------------------------------------------------------------------
+// parseCSVTable / column mapping
+// ---------------------------------------------------------------------------
+describe('parseCSVTable', () => {
+	it('keeps the header and raw rows apart', () => {
+		expect(parseCSVTable('Name,Mystery\r\nAda,x\n\nGrace,y')).toEqual({
+			headers: ['Name', 'Mystery'],
+			rows: [
+				['Ada', 'x'],
+				['Grace', 'y'],
+			],
+		})
+	})
+
+	it('returns an empty table for empty input', () => {
+		expect(parseCSVTable('')).toEqual({ headers: [], rows: [] })
+	})
+})
+
+describe('detectColumnMapping', () => {
+	it('maps known headers and leaves unknown ones unmapped', () => {
+		expect(detectColumnMapping(['First Name', 'Mystery', 'E-mail'])).toEqual(['first', null, 'email'])
+	})
+})
+
+describe('applyColumnMapping', () => {
+	it('keys values by the mapped field and drops ignored columns', () => {
+		expect(applyColumnMapping(['Ada', 'x', 'ada@example.com'], ['first', null, 'email'])).toEqual({
+			first: 'Ada',
+			email: 'ada@example.com',
+		})
+	})
+
+	it('keeps the first non-empty value when columns share a field', () => {
+		expect(applyColumnMapping(['', '555-1234', '555-9999'], [null, 'phone', 'phone'])).toEqual({ phone: '555-1234' })
+	})
+})
+
 // ---------------------------------------------------------------------------
 // mapCSVRowToContact
 // ---------------------------------------------------------------------------
@@ -102,44 +102,81 @@ export function toCanonicalHeader(header: string): string | null {
 	return headerAliases[normalized] || null
 }
 
-export function parseCSV(csvText: string): Array<Record<string, string>> {
+/** Canonical fields a CSV column can be mapped to, in the order the import preview offers them. */
+export const CSV_IMPORT_FIELDS: Array<{ key: string; label: string }> = [
+	{ key: 'full_name', label: 'Full name' },
+	{ key: 'first', label: 'First name' },
+	{ key: 'middle', label: 'Middle name' },
+	{ key: 'last', label: 'Last name' },
+	{ key: 'nick', label: 'Nickname' },
+	{ key: 'maiden', label: 'Maiden name' },
+	{ key: 'email', label: 'Email' },
+	{ key: 'email_work', label: 'Work email' },
+	{ key: 'email_other', label: 'Other email' },
+	{ key: 'phone', label: 'Phone' },
+	{ key: 'phone_home', label: 'Home phone' },
+	{ key: 'company', label: 'Organization' },
+	{ key: 'job_title', label: 'Job title' },
+	{ key: 'address', label: 'Address' },
+	{ key: 'bday', label: 'Birthday' },
+	{ key: 'homepage', label: 'Homepage' },
+	{ key: 'notes', label: 'Notes' },
+]
+
+/** One canonical field, or null to ignore the column, per CSV column. */
+export type CSVColumnMapping = Array<string | null>
+
+export interface CSVTable {
+	headers: Array<string>
+	rows: Array<Array<string>>
+}
+
+/** Split CSV text into its header and data rows, without interpreting the columns. */
+export function parseCSVTable(csvText: string): CSVTable {
 	const lines = csvText
 		.replace(/\r\n/g, '\n')
 		.replace(/\r/g, '\n')
 		.split('\n')
 		.filter(line => line.trim())
-	if (lines.length === 0) return []
-
-	// Parse header
-	const headers = parseCSVLine(lines[0]).map(h => h.trim())
-	const rows: Array<Record<string, string>> = []
-
-	// Parse data rows
-	for (let i = 1; i < lines.length; i++) {
-		const line = lines[i]
-		const values = parseCSVLine(line)
-		const row: Record<string, string> = {}
-
-		for (let j = 0; j < headers.length; j++) {
-			const value = values[j] || ''
-			const header = headers[j] || ''
-			const canonical = toCanonicalHeader(header)
-			if (!canonical) continue
-
-			// Remove surrounding quotes if present
-			const cleanValue = value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value
-			const trimmed = cleanValue.trim()
-
-			if (!trimmed) continue
-			if (!row[canonical]) {
-				row[canonical] = trimmed
-			}
-		}
+	if (lines.length === 0) return { headers: [], rows: [] }
+
+	return {
+		headers: parseCSVLine(lines[0]).map(h => h.trim()),
+		rows: lines.slice(1).map(line => parseCSVLine(line)),
+	}
+}
+
+/** The mapping guessed from the header names via headerAliases. */
+export function detectColumnMapping(headers: Array<string>): CSVColumnMapping {
+	return headers.map(header => toCanonicalHeader(header))
+}
+
+/** Key a row's values by canonical field. When several columns map to one field the first non-empty value wins. */
+export function applyColumnMapping(values: Array<string>, mapping: CSVColumnMapping): Record<string, string> {
+	const row: Record<string, string> = {}
+
+	for (let j = 0; j < mapping.length; j++) {
+		const value = values[j] || ''
+		const canonical = mapping[j]
+		if (!canonical) continue
 
-		rows.push(row)
+		// Remove surrounding quotes if present
+		const cleanValue = value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value
+		const trimmed = cleanValue.trim()
+
+		if (!trimmed) continue
+		if (!row[canonical]) {
+			row[canonical] = trimmed
+		}
 	}
 
-	return rows
+	return row
+}
+
+export function parseCSV(csvText: string): Array<Record<string, string>> {
+	const { headers, rows } = parseCSVTable(csvText)
+	const mapping = detectColumnMapping(headers)
+	return rows.map(values => applyColumnMapping(values, mapping))
 }
 
 /**
@@ -1,14 +1,38 @@
 import { Pool, types } from 'pg'
+import { stripVCardPhoto } from './vcard'
+import type { PoolClient } from 'pg'
 
 // Return DATE columns (e.g. birthday) as the raw "YYYY-MM-DD" string instead of
 // a JS Date. Parsing a date-only value into a Date and reading it back with
 // local-timezone getters shifts the day by one in timezones behind UTC. The
-// only DATE-typed column is `birthday`; timestamps use TIMESTAMP(TZ) and are
-// unaffected.
+// DATE-typed columns are `birthday`, the relationship `start_date`/`end_date`
+// and the placeholder `birth_date`/`death_date`; timestamps use TIMESTAMP(TZ)
+// and are unaffected.
 types.setTypeParser(types.builtins.DATE, value => value)
 
 let pool: Pool | null = null
 
+/**
+ * Run `fn` in one transaction on a pooled client. Helpers that write several
+ * statements take an optional client and pass it through here, so inside a
+ * caller's transaction they run on its client instead of opening their own.
+ */
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>, outer?: PoolClient): Promise<T> {
+	if (outer) return fn(outer)
+	const client = await getPool().connect()
+	try {
+		await client.query('BEGIN')
+		const result = await fn(client)
+		await client.query('COMMIT')
+		return result
+	} catch (error) {
+		await client.query('ROLLBACK')
+		throw error
+	} finally {
+		client.release()
+	}
+}
+
 export function getPool(): Pool {
 	if (!pool) {
 		const databaseUrl = process.env.DATABASE_URL
@@ -97,7 +121,6 @@ export interface Contact {
 	class: string | null
 	custom_fields: Array<{ key: string; value: string; params?: Array<string> }> | null
 	notes: string | null
-	photo_blob: Uint8Array | string | null
 	photo_mime: string | null
 	photo_width: number | null
 	photo_height: number | null
@@ -116,6 +139,12 @@ export interface Contact {
 	address_books?: Array<AddressBook> | null
 }
 
+/**
+ * Contact columns to write. photo_blob is not a column: createContact and
+ * updateContact put it in the photo store and keep only photo_hash.
+ */
+export type ContactInput = Partial<Contact> & { photo_blob?: Uint8Array | null }
+
 /**
  * Parse JSONB fields that may be returned as strings from PostgreSQL.
  * This handles the case where pg returns JSONB as already-parsed objects
@@ -188,7 +217,54 @@ export async function tableExists(tableName: string): Promise<boolean> {
 	return exists
 }
 
-async function attachAddressBooks(contacts: Array<Contact>): Promise<Array<Contact>> {
+/** Same caching as tableExists, for columns added to existing tables. */
+const columnExistsCache = new Map<string, boolean>()
+
+export async function columnExists(tableName: string, columnName: string): Promise<boolean> {
+	const cacheKey = `${tableName}.${columnName}`
+	const cached = columnExistsCache.get(cacheKey)
+	if (cached !== undefined) return cached
+
+	const dbPool = getPool()
+	const result = await dbPool.query(
+		`
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = $1 AND column_name = $2
+  `,
+		[tableName, columnName]
+	)
+	const exists = result.rows.length > 0
+	columnExistsCache.set(cacheKey, exists)
+	return exists
+}
+
+/** Same caching as tableExists, for SQL functions created by migrations. */
+const functionExistsCache = new Map<string, boolean>()
+
+export async function functionExists(functionName: string): Promise<boolean> {
+	const cached = functionExistsCache.get(functionName)
+	if (cached !== undefined) return cached
+
+	const dbPool = getPool()
+	const result = await dbPool.query(
+		`
+    SELECT 1
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public' AND p.proname = $1
+  `,
+		[functionName]
+	)
+	const exists = result.rows.length > 0
+	functionExistsCache.set(functionName, exists)
+	return exists
+}
+
+export async function attachAddressBooks<T extends Pick<Contact, 'id' | 'address_books'>>(
+	contacts: Array<T>,
+	client?: PoolClient
+): Promise<Array<T>> {
 	if (contacts.length === 0) return contacts
 	const hasAddressBooks = await tableExists('address_books')
 	const hasContactAddressBooks = await tableExists('contact_address_books')
@@ -197,7 +273,7 @@ async function attachAddressBooks(contacts: Array<Contact>): Promise<Array<Conta
 	}
 
 	const contactIds = contacts.map(contact => contact.id)
-	const dbPool = getPool()
+	const dbPool = client ?? getPool()
 	const result = await dbPool.query(
 		`
     SELECT cab.contact_id,
@@ -346,6 +422,32 @@ export async function setAddressBookReadonly(addressBookId: string, passwordHash
 	)
 }
 
+/** Secret token of the book's birthdays calendar feed, or null when the feed is off. */
+export async function getAddressBookCalendarToken(addressBookId: string): Promise<string | null> {
+	if (!(await tableExists('address_book_calendar_feeds'))) return null
+	const dbPool = getPool()
+	const result = await dbPool.query('SELECT token FROM address_book_calendar_feeds WHERE address_book_id = $1', [addressBookId])
+	return result.rows[0]?.token ?? null
+}
+
+/** Replace the feed token (revoking the old link), or turn the feed off with null. */
+export async function setAddressBookCalendarToken(addressBookId: string, token: string | null): Promise<void> {
+	if (!(await tableExists('address_book_calendar_feeds'))) return
+	const dbPool = getPool()
+	if (!token) {
+		await dbPool.query('DELETE FROM address_book_calendar_feeds WHERE address_book_id = $1', [addressBookId])
+		return
+	}
+	await dbPool.query(
+		`
+    INSERT INTO address_book_calendar_feeds (address_book_id, token)
+    VALUES ($1, $2)
+    ON CONFLICT (address_book_id) DO UPDATE SET token = EXCLUDED.token, created_at = NOW()
+  `,
+		[addressBookId, token]
+	)
+}
+
 export async function getContactAddressBookIds(contactId: string): Promise<Array<string>> {
 	const hasContactAddressBooks = await tableExists('contact_address_books')
 	if (!hasContactAddressBooks) return []
@@ -354,11 +456,20 @@ export async function getContactAddressBookIds(contactId: string): Promise<Array
 	return result.rows.map(row => row.address_book_id)
 }
 
-export async function setContactAddressBooks(contactId: string, addressBookIds: Array<string> | null | undefined): Promise<void> {
+export async function setContactAddressBooks(
+	contactId: string,
+	addressBookIds: Array<string> | null | undefined,
+	client?: PoolClient
+): Promise<void> {
 	const hasContactAddressBooks = await tableExists('contact_address_books')
 	if (!hasContactAddressBooks) return
-	const dbPool = getPool()
-	await dbPool.query('DELETE FROM contact_address_books WHERE contact_id = $1', [contactId])
+	const dbPool = client ?? getPool()
+	// Only drop memberships that are going away: delete-and-reinsert would log
+	// a spurious deleted/created pair in contact_changes for every kept book.
+	await dbPool.query('DELETE FROM contact_address_books WHERE contact_id = $1 AND address_book_id <> ALL($2::uuid[])', [
+		contactId,
+		addressBookIds ?? [],
+	])
 	if (!addressBookIds || addressBookIds.length === 0) {
 		return
 	}
@@ -432,20 +543,27 @@ export async function getAllContacts(): Promise<Array<Contact>> {
 export async function getAllContactsPaginated({
 	limit = 100,
 	offset = 0,
+	addressBookIds = null,
 }: {
 	limit?: number
 	offset?: number
+	/** Restrict to contacts in at least one of these books; null means no restriction. */
+	addressBookIds?: Array<string> | null
 }): Promise<{ data: Array<Contact>; total: number; limit: number; offset: number }> {
 	const dbPool = getPool()
 	const clampedLimit = Math.max(1, Math.min(500, limit))
 	const clampedOffset = Math.max(0, offset)
 
+	const bookClause = addressBookIds
+		? ' AND EXISTS (SELECT 1 FROM contact_address_books cab WHERE cab.contact_id = contacts.id AND cab.address_book_id = ANY($1::uuid[]))'
+		: ''
+	const bookParams = addressBookIds ? [addressBookIds] : []
 	const [countResult, dataResult] = await Promise.all([
-		dbPool.query('SELECT COUNT(*) FROM contacts WHERE deleted_at IS NULL'),
-		dbPool.query('SELECT * FROM contacts WHERE deleted_at IS NULL ORDER BY full_name, created_at DESC LIMIT $1 OFFSET $2', [
-			clampedLimit,
-			clampedOffset,
-		]),
+		dbPool.query(`SELECT COUNT(*) FROM contacts WHERE deleted_at IS NULL${bookClause}`, bookParams),
+		dbPool.query(
+			`SELECT * FROM contacts WHERE deleted_at IS NULL${bookClause} ORDER BY full_name, created_at DESC LIMIT $${bookParams.length + 1} OFFSET $${bookParams.length + 2}`,
+			[...bookParams, clampedLimit, clampedOffset]
+		),
 	])
 
 	const total = parseInt(countResult.rows[0].count, 10)
@@ -454,13 +572,13 @@ export async function getAllContactsPaginated({
 	return { data, total, limit: clampedLimit, offset: clampedOffset }
 }
 
-export async function getContactById(id: string, includeDeleted = false): Promise<Contact | null> {
-	const dbPool = getPool()
+export async function getContactById(id: string, includeDeleted = false, client?: PoolClient): Promise<Contact | null> {
+	const dbPool = client ?? getPool()
 	const deletedClause = includeDeleted ? '' : ' AND deleted_at IS NULL'
 	const result = await dbPool.query(`SELECT * FROM contacts WHERE id = $1${deletedClause}`, [id])
 	if (!result.rows[0]) return null
 	const row = parseContactRow(result.rows[0])
-	const [contactWithBooks] = await attachAddressBooks([row])
+	const [contactWithBooks] = await attachAddressBooks([row], client)
 	return contactWithBooks
 }
 
@@ -495,13 +613,16 @@ export async function bulkSetContactAddressBooks(assignments: Array<{ contactId:
 	const hasTable = await tableExists('contact_address_books')
 	if (!hasTable) return
 	const dbPool = getPool()
-	const contactIds = assignments.map(a => a.contactId)
 
 	const client = await dbPool.connect()
 	try {
 		await client.query('BEGIN')
-		await client.query('DELETE FROM contact_address_books WHERE contact_id = ANY($1::uuid[])', [contactIds])
 		for (const { contactId, bookIds } of assignments) {
+			// Keep unchanged memberships in place (see setContactAddressBooks).
+			await client.query('DELETE FROM contact_address_books WHERE contact_id = $1 AND address_book_id <> ALL($2::uuid[])', [
+				contactId,
+				bookIds,
+			])
 			if (bookIds.length > 0) {
 				await client.query(
 					`INSERT INTO contact_address_books (contact_id, address_book_id)
@@ -520,20 +641,20 @@ export async function bulkSetContactAddressBooks(assignments: Array<{ contactId:
 	}
 }
 
-export async function getContactByVcardId(vcardId: string): Promise<Contact | null> {
-	const dbPool = getPool()
+export async function getContactByVcardId(vcardId: string, client?: PoolClient): Promise<Contact | null> {
+	const dbPool = client ?? getPool()
 	const result = await dbPool.query('SELECT * FROM contacts WHERE vcard_id = $1 AND deleted_at IS NULL', [vcardId])
 	if (!result.rows[0]) return null
-	const [contactWithBooks] = await attachAddressBooks([result.rows[0]])
+	const [contactWithBooks] = await attachAddressBooks([result.rows[0]], client)
 	return contactWithBooks
 }
 
 /**
  * Find existing contact by email (case-insensitive)
  */
-export async function getContactByEmail(email: string): Promise<Contact | null> {
+export async function getContactByEmail(email: string, client?: PoolClient): Promise<Contact | null> {
 	if (!email) return null
-	const dbPool = getPool()
+	const dbPool = client ?? getPool()
 	const result = await dbPool.query('SELECT * FROM contacts WHERE LOWER(email) = LOWER($1) AND deleted_at IS NULL LIMIT 1', [email])
 	return result.rows[0] || null
 }
@@ -541,12 +662,17 @@ export async function getContactByEmail(email: string): Promise<Contact | null>
 /**
  * Find existing contact by name and phone (for duplicate detection)
  */
-export async function findDuplicateContact(fullName: string | null, email: string | null, phone: string | null): Promise<Contact | null> {
-	const dbPool = getPool()
+export async function findDuplicateContact(
+	fullName: string | null,
+	email: string | null,
+	phone: string | null,
+	client?: PoolClient
+): Promise<Contact | null> {
+	const dbPool = client ?? getPool()
 
 	// Try email first (most reliable)
 	if (email) {
-		const byEmail = await getContactByEmail(email)
+		const byEmail = await getContactByEmail(email, client)
 		if (byEmail) return byEmail
 	}
 
@@ -570,8 +696,27 @@ export async function findDuplicateContact(fullName: string | null, email: strin
 	return null
 }
 
-export async function createContact(contact: Partial<Contact>): Promise<Contact> {
-	const dbPool = getPool()
+/**
+ * Move an incoming photo into the photo store. The row keeps photo_hash, and
+ * vcard_data drops its PHOTO so contact queries never carry image bytes.
+ */
+async function storeContactPhoto(input: ContactInput): Promise<Partial<Contact>> {
+	const { photo_blob, ...contact } = input
+	if (!photo_blob) return contact
+	// Dynamic import: photo-store reads contact_photos through this module.
+	const { putPhoto } = await import('./photo-store')
+	const photo = await putPhoto(photo_blob, contact.photo_mime || 'image/jpeg')
+	return {
+		...contact,
+		photo_hash: photo.hash,
+		photo_mime: photo.mime,
+		vcard_data: contact.vcard_data ? stripVCardPhoto(contact.vcard_data) : contact.vcard_data,
+	}
+}
+
+export async function createContact(input: ContactInput, client?: PoolClient): Promise<Contact> {
+	const contact = await storeContactPhoto(input)
+	const dbPool = client ?? getPool()
 
 	// Check which columns exist in the database (cached)
 	const existingColumns = await getContactColumns()
@@ -620,7 +765,6 @@ export async function createContact(contact: Partial<Contact>): Promise<Contact>
 		'class',
 		'custom_fields',
 		'notes',
-		'photo_blob',
 		'photo_mime',
 		'photo_width',
 		'photo_height',
@@ -702,8 +846,9 @@ export async function createContact(contact: Partial<Contact>): Promise<Contact>
 	return parseContactRow(result.rows[0])
 }
 
-export async function updateContact(id: string, contact: Partial<Contact>): Promise<Contact> {
-	const dbPool = getPool()
+export async function updateContact(id: string, input: ContactInput, client?: PoolClient): Promise<Contact> {
+	let contact = await storeContactPhoto(input)
+	const dbPool = client ?? getPool()
 
 	// Any writer that regenerates vcard_data would otherwise wipe the
 	// relationship-derived related-name lines - re-inject them here so every
@@ -712,7 +857,7 @@ export async function updateContact(id: string, contact: Partial<Contact>): Prom
 	if (typeof contact.vcard_data === 'string' && contact.vcard_data.length > 0) {
 		try {
 			const { maybeInjectRelatedNames } = await import('./relationships')
-			const injected = await maybeInjectRelatedNames(id, contact.vcard_data)
+			const injected = await maybeInjectRelatedNames(id, contact.vcard_data, client)
 			if (injected !== null) contact = { ...contact, vcard_data: injected }
 		} catch {
 			// Relationships tables missing or query failed - store as provided.
@@ -770,7 +915,6 @@ export async function updateContact(id: string, contact: Partial<Contact>): Prom
 		'class',
 		'custom_fields',
 		'notes',
-		'photo_blob',
 		'photo_mime',
 		'photo_width',
 		'photo_height',
@@ -820,13 +964,13 @@ export async function updateContact(id: string, contact: Partial<Contact>): Prom
 	return parseContactRow(result.rows[0])
 }
 
-export async function deleteContact(id: string): Promise<void> {
-	const dbPool = getPool()
+export async function deleteContact(id: string, client?: PoolClient): Promise<void> {
+	const dbPool = client ?? getPool()
 	await dbPool.query('UPDATE contacts SET deleted_at = NOW() WHERE id = $1', [id])
 }
 
-export async function restoreContact(id: string): Promise<void> {
-	const dbPool = getPool()
+export async function restoreContact(id: string, client?: PoolClient): Promise<void> {
+	const dbPool = client ?? getPool()
 	await dbPool.query('UPDATE contacts SET deleted_at = NULL WHERE id = $1', [id])
 }
 
@@ -838,7 +982,7 @@ export async function permanentlyDeleteContact(id: string): Promise<void> {
 export async function getDeletedContacts(): Promise<Array<Contact>> {
 	const dbPool = getPool()
 	const result = await dbPool.query('SELECT * FROM contacts WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC')
-	return result.rows.map(parseContactRow)
+	return attachAddressBooks(result.rows.map(parseContactRow))
 }
 
 export async function emptyTrash(): Promise<number> {
@@ -846,3 +990,62 @@ export async function emptyTrash(): Promise<number> {
 	const result = await dbPool.query('DELETE FROM contacts WHERE deleted_at IS NOT NULL')
 	return result.rowCount ?? 0
 }
+
+/** One property both Postgres and a CardDAV client changed differently (see migrations/23_sync_merge.sql). */
+export interface SyncConflictField {
+	property: string
+	base: Array<string>
+	db: Array<string>
+	radicale: Array<string>
+	kept: 'db' | 'radicale'
+}
+
+export interface SyncConflict {
+	id: string
+	contact_id: string
+	fields: Array<SyncConflictField>
+	/** Each side's contact fields when the conflict was detected; null for rows from before migration 24. */
+	db_version: Partial<Contact> | null
+	radicale_version: Partial<Contact> | null
+	created_at: Date
+}
+
+const SYNC_CONFLICT_COLUMNS = 'id, contact_id, fields, db_version, radicale_version, created_at'
+
+export async function getOpenSyncConflicts(contactId?: string): Promise<Array<SyncConflict>> {
+	if (!(await tableExists('contact_sync_conflicts'))) return []
+	const dbPool = getPool()
+	const result = contactId
+		? await dbPool.query(
+				`SELECT ${SYNC_CONFLICT_COLUMNS} FROM contact_sync_conflicts WHERE contact_id = $1 AND resolved_at IS NULL ORDER BY created_at DESC`,
+				[contactId]
+			)
+		: await dbPool.query(`SELECT ${SYNC_CONFLICT_COLUMNS} FROM contact_sync_conflicts WHERE resolved_at IS NULL ORDER BY created_at DESC`)
+	return result.rows
+}
+
+export async function getSyncConflictById(conflictId: string): Promise<(SyncConflict & { resolved_at: Date | null }) | null> {
+	if (!(await tableExists('contact_sync_conflicts'))) return null
+	const dbPool = getPool()
+	const result = await dbPool.query(`SELECT ${SYNC_CONFLICT_COLUMNS}, resolved_at FROM contact_sync_conflicts WHERE id = $1`, [conflictId])
+	return result.rows[0] ?? null
+}
+
+/**
+ * Mark a conflict as handled, optionally with the per-field choice made in
+ * the inbox. Returns false when it does not exist or was already resolved.
+ */
+export async function resolveSyncConflict(
+	contactId: string,
+	conflictId: string,
+	resolvedBy: string | null,
+	resolution: Record<string, string> | null = null
+): Promise<boolean> {
+	if (!(await tableExists('contact_sync_conflicts'))) return false
+	const dbPool = getPool()
+	const result = await dbPool.query(
+		'UPDATE contact_sync_conflicts SET resolved_at = NOW(), resolved_by = $3, resolution = $4 WHERE id = $1 AND contact_id = $2 AND resolved_at IS NULL',
+		[conflictId, contactId, resolvedBy, resolution ? JSON.stringify(resolution) : null]
+	)
+	return (result.rowCount ?? 0) > 0
+}
@@ -13,6 +13,8 @@ export interface HistoryRow {
 	related_contact_ids: Array<string> | null
 	undone_at: string | null
 	undoes_history_id: string | null
+	batch_id?: string | null
+	batch_size?: number
 	created_at: string
 }
 
@@ -28,6 +30,13 @@ export interface HistoryResponse {
 	total: number
 }
 
+export interface BatchUndoResponse {
+	message: string
+	reverted: number
+	skipped: Array<{ historyId: string; contactId: string | null; summary: string | null; reason: string }>
+	undoHistoryId: string | null
+}
+
 // Friendly labels for the noisier snake_case column names. Anything not listed
 // falls back to a generic prettifier, so new fields still render acceptably.
 const FIELD_LABELS: Record<string, string> = {
@@ -137,7 +146,7 @@ export function describeSource(source: string): string {
 		case 'sync':
 			return 'Sync service'
 		case 'import':
-			return 'CSV import'
+			return 'Import'
 		case 'merge':
 			return 'Manual merge'
 		case 'dedup':
@@ -168,7 +177,7 @@ export function operationBadgeClass(op: string): string {
 	}
 }
 
-export const UNDOABLE_OPS = new Set(['create', 'update', 'delete', 'restore', 'merge', 'permanent_delete'])
+export const UNDOABLE_OPS = new Set(['create', 'update', 'delete', 'restore', 'merge', 'permanent_delete', 'import', 'bulk_update'])
 
 export async function fetchHistory(contactId?: string): Promise<HistoryResponse> {
 	const params = new URLSearchParams()
@@ -178,6 +187,22 @@ export async function fetchHistory(contactId?: string): Promise<HistoryResponse>
 	return response.json()
 }
 
+export async function fetchHistoryBatch(batchId: string): Promise<HistoryResponse> {
+	const response = await fetch(`/api/history?${new URLSearchParams({ batchId, limit: '500' }).toString()}`)
+	if (!response.ok) throw new Error('Failed to fetch history')
+	return response.json()
+}
+
+/** Revert every entry of a batch that is still in effect; entries changed since are skipped and reported. */
+export async function undoHistoryBatch(batchId: string): Promise<BatchUndoResponse> {
+	const response = await fetch(`/api/history/batches/${batchId}/undo`, { method: 'POST' })
+	if (!response.ok) {
+		const error = await response.json()
+		throw new Error(error.error || 'Undo failed')
+	}
+	return response.json()
+}
+
 export async function undoHistory(historyId: string): Promise<{ message: string }> {
 	const response = await fetch(`/api/history/${historyId}/undo`, { method: 'POST' })
 	if (!response.ok) {
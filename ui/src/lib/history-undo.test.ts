@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { deleteContact, getContactById, restoreContact, setContactAddressBooks, updateContact, withTransaction } from './db'
+import { listHistoryBatch, markHistoryUndone, recordHistory } from './history'
+import { UndoError, undoHistoryBatch, undoHistoryEntry } from './history-undo'
+import type { HistoryRow } from './history'
+
+vi.mock('./db', () => ({
+	createContact: vi.fn(),
+	deleteContact: vi.fn(),
+	getContactById: vi.fn(),
+	restoreContact: vi.fn(),
+	setContactAddressBooks: vi.fn(),
+	updateContact: vi.fn(),
+	withTransaction: vi.fn(),
+}))
+
+vi.mock('./history', () => ({
+	listHistoryBatch: vi.fn(),
+	markHistoryUndone: vi.fn(),
+	recordHistory: vi.fn(),
+}))
+
+vi.mock('./relationships', () => ({
+	refreshRelatedNamesVcards: vi.fn(),
+	restoreTransferredEdges: vi.fn(),
+}))
+
+const ACTOR = { actor: 'ada@example.com', actorType: 'user' as const, userAgent: null, clientIp: null, source: 'web' as const }
+const BATCH_ID = '3f1c2b4a-5d6e-4f70-8a9b-0c1d2e3f4a5b'
+
+function entry(id: string, fields: Partial<HistoryRow>): HistoryRow {
+	return {
+		id,
+		contact_id: null,
+		operation: 'update',
+		summary: `Entry ${id}`,
+		previous_state: null,
+		related_contact_ids: null,
+		metadata: null,
+		undone_at: null,
+		batch_id: BATCH_ID,
+		created_at: new Date('2026-10-01T12:00:00Z'),
+		...fields,
+	} as HistoryRow
+}
+
+describe('history undo', () => {
+	const query = vi.fn()
+	const client = { query }
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(withTransaction).mockImplementation(fn => fn(client as never))
+		query.mockResolvedValue({ rows: [] })
+		vi.mocked(getContactById).mockImplementation(id => Promise.resolve({ id, full_name: `Contact ${id}` } as never))
+		vi.mocked(recordHistory).mockResolvedValue('undo-1')
+	})
+
+	it('reverts a batch newest first in one transaction and marks it undone', async () => {
+		vi.mocked(listHistoryBatch).mockResolvedValue([
+			entry('summary', { operation: 'bulk_update', summary: 'Bulk edit of 2 contacts' }),
+			entry('books', { contact_id: 'b', previous_state: { address_book_ids: ['book-1'] } }),
+			entry('deleted', { contact_id: 'a', operation: 'delete' }),
+		])
+
+		const result = await undoHistoryBatch(BATCH_ID, ACTOR)
+
+		expect(withTransaction).toHaveBeenCalledTimes(1)
+		expect(setContactAddressBooks).toHaveBeenCalledWith('b', ['book-1'], client)
+		expect(vi.mocked(updateContact).mock.calls[0][1]).toMatchObject({ sync_source: 'api', last_synced_to_radicale_at: null })
+		expect(restoreContact).toHaveBeenCalledWith('a', client)
+		expect(result).toEqual({
+			message: 'Undid Bulk edit of 2 contacts: 2 change(s) reverted',
+			reverted: 2,
+			skipped: [],
+			undoHistoryId: 'undo-1',
+		})
+		expect(vi.mocked(recordHistory).mock.calls[0][0]).toMatchObject({ operation: 'undo', contactId: null, undoesHistoryId: 'summary' })
+		expect(vi.mocked(markHistoryUndone).mock.calls.map(call => call[0])).toEqual(['books', 'deleted', 'summary'])
+	})
+
+	it('skips entries whose contacts changed after the batch and keeps the summary undoable', async () => {
+		vi.mocked(listHistoryBatch).mockResolvedValue([
+			entry('summary', { operation: 'import', summary: 'Imported people.csv' }),
+			entry('edited', { contact_id: 'a', operation: 'create' }),
+			entry('untouched', { contact_id: 'b', operation: 'create' }),
+		])
+		query.mockImplementation((_sql: string, params: Array<unknown>) =>
+			Promise.resolve({ rows: (params[3] as Array<string>).includes('a') ? [{ '?column?': 1 }] : [] })
+		)
+
+		const result = await undoHistoryBatch(BATCH_ID, ACTOR)
+
+		expect(query.mock.calls[0][0]).toContain('batch_id IS DISTINCT FROM $3')
+		expect(deleteContact).toHaveBeenCalledTimes(1)
+		expect(deleteContact).toHaveBeenCalledWith('b', client)
+		expect(result.skipped).toEqual([{ historyId: 'edited', contactId: 'a', summary: 'Entry edited', reason: 'Changed after this batch' }])
+		expect(vi.mocked(markHistoryUndone).mock.calls.map(call => call[0])).toEqual(['untouched'])
+	})
+
+	it('undoes an import summary entry through its batch', async () => {
+		vi.mocked(listHistoryBatch).mockResolvedValue([
+			entry('summary', { operation: 'import' }),
+			entry('created', { contact_id: 'a', operation: 'create' }),
+		])
+
+		const result = await undoHistoryEntry(entry('summary', { operation: 'import' }), ACTOR)
+
+		expect(listHistoryBatch).toHaveBeenCalledWith(BATCH_ID, client)
+		expect(result.payload).toMatchObject({ action: 'batch-reverted', reverted: 1 })
+	})
+
+	it('refuses entries that are already undone or cannot be undone', async () => {
+		await expect(undoHistoryEntry(entry('done', { undone_at: new Date() }), ACTOR)).rejects.toMatchObject({ status: 409 })
+		await expect(undoHistoryEntry(entry('edge', { operation: 'relationship_add' }), ACTOR)).rejects.toBeInstanceOf(UndoError)
+		expect(recordHistory).not.toHaveBeenCalled()
+	})
+})
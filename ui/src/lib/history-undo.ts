@@ -0,0 +1,384 @@
+import { logger } from './logger'
+import { createContact, deleteContact, getContactById, restoreContact, setContactAddressBooks, updateContact, withTransaction } from './db'
+import { listHistoryBatch, markHistoryUndone, recordHistory } from './history'
+import { generateVCard } from './vcard'
+import { refreshRelatedNamesVcards, restoreTransferredEdges } from './relationships'
+import type { EdgeTransferSnapshotSet } from './relationships'
+import type { Contact } from './db'
+import type { PoolClient } from 'pg'
+import type { HistoryEntryInput, HistoryOperation, HistoryRow } from './history'
+
+// Undo of contact_history entries. A single entry is reverted on its own; a
+// batch (an import, bulk edit, bulk delete, bulk book change or dedup run,
+// grouped by batch_id) is reverted newest first in one transaction, skipping
+// entries whose contacts were changed after the batch.
+
+/** Thrown when an entry can't be undone; `status` is the HTTP status for the route. */
+export class UndoError extends Error {
+	constructor(
+		message: string,
+		readonly status = 400
+	) {
+		super(message)
+		this.name = 'UndoError'
+	}
+}
+
+export type UndoActor = Pick<HistoryEntryInput, 'actor' | 'actorType' | 'userAgent' | 'clientIp' | 'source'>
+
+export interface UndoResult {
+	message: string
+	payload: Record<string, unknown>
+	undoHistoryId: string | null
+}
+
+export interface BatchUndoResult {
+	message: string
+	reverted: number
+	/** Entries left as they are, newest first. */
+	skipped: Array<{ historyId: string; contactId: string | null; summary: string | null; reason: string }>
+	undoHistoryId: string | null
+}
+
+/** Summary entries of a batch; their changes are the other entries of the batch. */
+const BATCH_SUMMARY_OPS = new Set<HistoryOperation>(['import', 'bulk_update'])
+
+/** Operations that change a contact, and so block undoing earlier batch entries for it. */
+const CONTENT_OPS: Array<HistoryOperation> = ['create', 'update', 'delete', 'restore', 'merge', 'unmerge', 'permanent_delete']
+
+/**
+ * Fields to copy from a history snapshot back onto a Contact during undo.
+ * Excludes id/created_at and sync metadata that should be re-derived.
+ */
+const RESTORABLE_FIELDS = [
+	'vcard_id',
+	'full_name',
+	'first_name',
+	'last_name',
+	'middle_name',
+	'name_prefix',
+	'name_suffix',
+	'nickname',
+	'maiden_name',
+	'email',
+	'phone',
+	'phones',
+	'emails',
+	'organization',
+	'org_units',
+	'job_title',
+	'role',
+	'address',
+	'addresses',
+	'address_street',
+	'address_extended',
+	'address_city',
+	'address_state',
+	'address_postal',
+	'address_country',
+	'birthday',
+	'homepage',
+	'urls',
+	'categories',
+	'labels',
+	'logos',
+	'sounds',
+	'keys',
+	'mailer',
+	'time_zone',
+	'geo',
+	'agent',
+	'prod_id',
+	'revision',
+	'sort_string',
+	'class',
+	'custom_fields',
+	'notes',
+	'photo_mime',
+	'photo_width',
+	'photo_height',
+	'photo_updated_at',
+	'photo_hash',
+	'vcard_data',
+] as const
+
+function snapshotToContact(snapshot: Record<string, unknown>): Partial<Contact> {
+	const out: Record<string, unknown> = {}
+	for (const field of RESTORABLE_FIELDS) {
+		if (field in snapshot) {
+			const value = snapshot[field]
+			if (field === 'birthday' || field === 'photo_updated_at') {
+				out[field] = value ? new Date(value as string) : null
+			} else {
+				out[field] = value
+			}
+		}
+	}
+	return out as Partial<Contact>
+}
+
+/**
+ * Put a contact back to a pre-update snapshot, regenerating vcard_data so
+ * CardDAV stays in sync. Snapshots of address book changes carry
+ * address_book_ids, which are restored too.
+ */
+async function revertUpdate(contactId: string, previousState: Record<string, unknown>, client?: PoolClient): Promise<Partial<Contact>> {
+	const before = await getContactById(contactId, false, client)
+	const restored = snapshotToContact(previousState)
+	const vcardData = generateVCard({ ...(before || {}), ...restored } as never)
+	await updateContact(
+		contactId,
+		{
+			...restored,
+			vcard_data: vcardData,
+			sync_source: 'api',
+			last_synced_to_radicale_at: null,
+		},
+		client
+	)
+	if (Array.isArray(previousState.address_book_ids)) {
+		await setContactAddressBooks(contactId, previousState.address_book_ids as Array<string>, client)
+	}
+	return { ...(before || {}), ...restored }
+}
+
+/** Revert the change one entry recorded. Batch summary entries are handled by undoHistoryBatch. */
+async function revertEntry(entry: HistoryRow, client?: PoolClient): Promise<{ summary: string; payload: Record<string, unknown> }> {
+	if (entry.operation === 'create') {
+		// Undoing a create => soft delete the new contact.
+		if (!entry.contact_id) throw new UndoError('No contact to delete')
+		const before = await getContactById(entry.contact_id, false, client)
+		if (!before) throw new UndoError('Contact not found', 404)
+		await deleteContact(entry.contact_id, client)
+		return {
+			summary: `Undid creation of ${before.full_name || before.email || 'contact'}`,
+			payload: { contactId: entry.contact_id, action: 'soft-deleted' },
+		}
+	}
+
+	if (entry.operation === 'update') {
+		if (!entry.contact_id || !entry.previous_state) throw new UndoError('Missing data to restore')
+		const restored = await revertUpdate(entry.contact_id, entry.previous_state, client)
+		return {
+			summary: `Reverted update on ${restored.full_name || 'contact'}`,
+			payload: { contactId: entry.contact_id, action: 'reverted' },
+		}
+	}
+
+	if (entry.operation === 'delete') {
+		if (!entry.contact_id) throw new UndoError('No contact to restore')
+		await restoreContact(entry.contact_id, client)
+		const after = await getContactById(entry.contact_id, true, client)
+		return {
+			summary: `Restored ${after?.full_name || after?.email || 'contact'}`,
+			payload: { contactId: entry.contact_id, action: 'restored' },
+		}
+	}
+
+	if (entry.operation === 'restore') {
+		if (!entry.contact_id) throw new UndoError('No contact to delete')
+		await deleteContact(entry.contact_id, client)
+		return { summary: `Re-trashed contact`, payload: { contactId: entry.contact_id, action: 'soft-deleted' } }
+	}
+
+	if (entry.operation === 'merge') {
+		// Restore consumed contacts, then revert primary's data to its pre-merge snapshot.
+		if (!entry.contact_id || !entry.previous_state) throw new UndoError('Missing data to unmerge')
+		const rawConsumed = entry.metadata && Array.isArray(entry.metadata.consumedContacts) ? entry.metadata.consumedContacts : []
+		const consumed = (rawConsumed as Array<Record<string, unknown>>).map(snapshotToContact)
+		const restoredIds: Array<string> = []
+
+		// First, revert the primary contact to its pre-merge state.
+		const restoredPrimary = snapshotToContact(entry.previous_state)
+		const primaryVcardData = generateVCard(restoredPrimary as never)
+		await updateContact(
+			entry.contact_id,
+			{
+				...restoredPrimary,
+				vcard_data: primaryVcardData,
+				sync_source: 'api',
+				last_synced_to_radicale_at: null,
+			},
+			client
+		)
+
+		// Restore consumed contacts (which were soft-deleted at merge time).
+		// A recreated contact comes back under a new id, so keep an
+		// original-to-restored map for the edge restore below.
+		const restoredIdByOriginal = new Map<string, string>()
+		const consumedIds = entry.related_contact_ids ?? []
+		for (let i = 0; i < consumedIds.length; i++) {
+			const consumedId = consumedIds[i]
+			const consumedSnapshot = consumed[i] as Partial<Contact> | undefined
+			const existing = await getContactById(consumedId, true, client)
+			if (existing) {
+				await restoreContact(consumedId, client)
+				if (consumedSnapshot) {
+					const vcardData = generateVCard({ ...existing, ...consumedSnapshot } as never)
+					await updateContact(
+						consumedId,
+						{
+							...consumedSnapshot,
+							vcard_data: vcardData,
+							sync_source: 'api',
+							last_synced_to_radicale_at: null,
+						},
+						client
+					)
+				}
+				restoredIds.push(consumedId)
+				restoredIdByOriginal.set(consumedId, consumedId)
+			} else if (consumedSnapshot) {
+				// Permanently gone — recreate from the snapshot.
+				const created = await createContact(
+					{
+						...consumedSnapshot,
+						sync_source: 'api',
+						last_synced_to_radicale_at: null,
+					},
+					client
+				)
+				restoredIds.push(created.id)
+				restoredIdByOriginal.set(consumedId, created.id)
+			}
+		}
+
+		// Put relationship edges back where they were before the merge:
+		// repoint transferred edges to the restored contacts and re-insert
+		// dropped ones. Post-merge edits win over the restore; best-effort
+		// because the contacts themselves are already back.
+		const rawTransfers = entry.metadata?.relationshipTransfers as EdgeTransferSnapshotSet | undefined
+		if (rawTransfers && Array.isArray(rawTransfers.repointed) && Array.isArray(rawTransfers.dropped)) {
+			try {
+				const idMap = new Map<string, string>()
+				for (const [originalId, restoredId] of restoredIdByOriginal) {
+					if (originalId !== restoredId) idMap.set(originalId, restoredId)
+				}
+				await restoreTransferredEdges(rawTransfers, idMap, client)
+				await refreshRelatedNamesVcards([entry.contact_id, ...restoredIds], client)
+			} catch (restoreError) {
+				logger.error({ err: restoreError, historyId: entry.id }, 'Failed to restore relationship edges during unmerge')
+			}
+		}
+
+		return {
+			summary: `Unmerged ${restoredIds.length} contact(s)`,
+			payload: { contactId: entry.contact_id, action: 'unmerged', restoredIds },
+		}
+	}
+
+	if (entry.operation === 'permanent_delete') {
+		// Recreate from snapshot if available.
+		if (!entry.previous_state) throw new UndoError('No snapshot to restore from')
+		const restored = snapshotToContact(entry.previous_state)
+		const created = await createContact(
+			{
+				...restored,
+				sync_source: 'api',
+				last_synced_to_radicale_at: null,
+			},
+			client
+		)
+		return {
+			summary: `Recreated permanently-deleted ${created.full_name || created.email || 'contact'}`,
+			payload: { contactId: created.id, action: 'recreated' },
+		}
+	}
+
+	throw new UndoError(`Cannot undo operation: ${entry.operation}`)
+}
+
+/** Whether a contact the entry touched has changed since, outside the entry's own batch. */
+async function hasLaterEdits(entry: HistoryRow, client: PoolClient): Promise<boolean> {
+	const contactIds = [entry.contact_id, ...(entry.related_contact_ids ?? [])].filter((id): id is string => Boolean(id))
+	if (contactIds.length === 0) return false
+	const result = await client.query(
+		`SELECT 1 FROM contact_history
+		 WHERE created_at > $1 AND undone_at IS NULL AND operation = ANY($2::text[])
+		   AND batch_id IS DISTINCT FROM $3
+		   AND (contact_id = ANY($4::uuid[]) OR related_contact_ids && $4::uuid[])
+		 LIMIT 1`,
+		[entry.created_at, CONTENT_OPS, entry.batch_id ?? null, contactIds]
+	)
+	return result.rows.length > 0
+}
+
+/**
+ * Revert every entry of a batch that is not undone yet, newest first, in one
+ * transaction. Entries whose contacts changed after the batch, or that can't
+ * be undone, are skipped and reported. The batch's summary entry is marked
+ * undone only once nothing of the batch is left.
+ */
+export async function undoHistoryBatch(batchId: string, actor: UndoActor): Promise<BatchUndoResult> {
+	return withTransaction(async client => {
+		const entries = await listHistoryBatch(batchId, client)
+		if (entries.length === 0) throw new UndoError('Nothing left to undo in this batch', 409)
+
+		const summaries = entries.filter(entry => !entry.contact_id && BATCH_SUMMARY_OPS.has(entry.operation))
+		const reverted: Array<string> = []
+		const skipped: BatchUndoResult['skipped'] = []
+		for (const entry of entries) {
+			if (summaries.includes(entry)) continue
+			const skip = (reason: string) => skipped.push({ historyId: entry.id, contactId: entry.contact_id, summary: entry.summary, reason })
+			if (await hasLaterEdits(entry, client)) {
+				skip('Changed after this batch')
+				continue
+			}
+			try {
+				await revertEntry(entry, client)
+				reverted.push(entry.id)
+			} catch (error) {
+				if (!(error instanceof UndoError)) throw error
+				skip(error.message)
+			}
+		}
+
+		const label = summaries[0]?.summary ?? `batch of ${entries.length} change(s)`
+		const message = `Undid ${label}: ${reverted.length} change(s) reverted${skipped.length > 0 ? `, ${skipped.length} skipped` : ''}`
+		if (reverted.length === 0) return { message, reverted: 0, skipped, undoHistoryId: null }
+
+		const undoHistoryId = await recordHistory(
+			{
+				...actor,
+				contactId: null,
+				operation: 'undo',
+				summary: message,
+				undoesHistoryId: summaries[0]?.id ?? null,
+				metadata: { batchId, reverted: reverted.length, skipped },
+			},
+			client
+		)
+		if (undoHistoryId) {
+			const done = skipped.length === 0 ? [...reverted, ...summaries.map(entry => entry.id)] : reverted
+			for (const id of done) await markHistoryUndone(id, undoHistoryId, client)
+		}
+		return { message, reverted: reverted.length, skipped, undoHistoryId }
+	})
+}
+
+/** Undo one entry. An import or bulk edit summary entry undoes its whole batch. */
+export async function undoHistoryEntry(entry: HistoryRow, actor: UndoActor): Promise<UndoResult> {
+	if (entry.undone_at) throw new UndoError('History entry has already been undone', 409)
+
+	if (BATCH_SUMMARY_OPS.has(entry.operation)) {
+		if (!entry.batch_id) throw new UndoError(`Missing data to undo ${entry.operation === 'import' ? 'import' : 'bulk edit'}`)
+		const result = await undoHistoryBatch(entry.batch_id, actor)
+		return {
+			message: result.message,
+			payload: { action: 'batch-reverted', reverted: result.reverted, skipped: result.skipped },
+			undoHistoryId: result.undoHistoryId,
+		}
+	}
+
+	const { summary, payload } = await revertEntry(entry)
+	const undoHistoryId = await recordHistory({
+		...actor,
+		contactId: entry.contact_id,
+		operation: 'undo',
+		summary,
+		undoesHistoryId: entry.id,
+		relatedContactIds: entry.related_contact_ids || undefined,
+	})
+	if (undoHistoryId) await markHistoryUndone(entry.id, undoHistoryId)
+	return { message: summary, payload, undoHistoryId }
+}
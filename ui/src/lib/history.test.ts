@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 
+import { AUTH_USER_HEADER, encodeAuthUserHeader } from './auth'
 import { actorFromRequest, diffContacts, snapshotContact } from './history'
 
 describe('snapshotContact', () => {
@@ -101,6 +102,28 @@ describe('actorFromRequest', () => {
 		expect(result.actor).toBe('bob')
 	})
 
+	it('prefers the signed-in user over x-actor', () => {
+		const result = actorFromRequest(
+			new Request('http://localhost/api/anything', {
+				headers: {
+					'x-actor': 'spoofed',
+					[AUTH_USER_HEADER]: encodeAuthUserHeader({ id: 'u1', email: 'carol@example.com', name: 'Carol' }),
+				},
+			})
+		)
+		expect(result.actor).toBe('Carol')
+		expect(result.actorType).toBe('user')
+	})
+
+	it('falls back to the signed-in email when the user has no name', () => {
+		const result = actorFromRequest(
+			new Request('http://localhost/api/anything', {
+				headers: { [AUTH_USER_HEADER]: encodeAuthUserHeader({ id: 'u1', email: 'carol@example.com', name: null }) },
+			})
+		)
+		expect(result.actor).toBe('carol@example.com')
+	})
+
 	it('extracts the leftmost IP from x-forwarded-for', () => {
 		const result = actorFromRequest(
 			new Request('http://localhost/api/anything', { headers: { 'x-forwarded-for': '203.0.113.1, 198.51.100.1' } })
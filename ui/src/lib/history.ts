@@ -1,6 +1,8 @@
-import { getPool, tableExists } from './db'
+import { getAuthenticatedUser } from './auth'
+import { columnExists, getPool, tableExists } from './db'
 import { logger } from './logger'
 import type { Contact } from './db'
+import type { PoolClient } from 'pg'
 
 export type HistoryOperation =
 	| 'create'
@@ -11,6 +13,7 @@ export type HistoryOperation =
 	| 'merge'
 	| 'unmerge'
 	| 'import'
+	| 'bulk_update'
 	| 'undo'
 	| 'relationship_add'
 	| 'relationship_update'
@@ -32,6 +35,8 @@ export interface HistoryEntryInput {
 	relatedContactIds?: Array<string> | null
 	metadata?: Record<string, unknown> | null
 	undoesHistoryId?: string | null
+	/** Groups the entries of one bulk change (an import or bulk edit) so they can be undone together. */
+	batchId?: string | null
 }
 
 // Fields excluded from history snapshots. These are large and/or derivable, so
@@ -88,9 +93,11 @@ export function diffContacts(prev: Record<string, unknown> | null, next: Record<
 }
 
 /**
- * Pull actor / source / user-agent metadata off an incoming Request. Falls
- * back to "web" because the only authenticated path through the UI today is
- * the browser hitting our API routes; consumers can override the source.
+ * Pull actor / source / user-agent metadata off an incoming Request. The
+ * signed-in user (attached by the auth middleware) wins over the legacy
+ * x-actor / x-user-name headers, which only matter when AUTH_DISABLED is set.
+ * Falls back to "web" because the only path through the UI is the browser
+ * hitting our API routes; consumers can override the source.
  */
 export function actorFromRequest(request: Request): {
 	actor: string | null
@@ -100,7 +107,8 @@ export function actorFromRequest(request: Request): {
 	source: HistorySource
 } {
 	const headers = request.headers
-	const actor = headers.get('x-actor') || headers.get('x-user-name') || null
+	const user = getAuthenticatedUser(request)
+	const actor = (user ? user.name || user.email : null) || headers.get('x-actor') || headers.get('x-user-name') || null
 	const userAgent = headers.get('user-agent') || null
 	const forwardedFor = headers.get('x-forwarded-for')
 	const clientIp = forwardedFor ? forwardedFor.split(',')[0].trim() : headers.get('x-real-ip')
@@ -114,7 +122,7 @@ export function actorFromRequest(request: Request): {
 	}
 }
 
-export async function recordHistory(entry: HistoryEntryInput): Promise<string | null> {
+export async function recordHistory(entry: HistoryEntryInput, client?: PoolClient): Promise<string | null> {
 	try {
 		if (!(await tableExists('contact_history'))) {
 			return null
@@ -128,13 +136,15 @@ export async function recordHistory(entry: HistoryEntryInput): Promise<string |
 			return null
 		}
 
-		const pool = getPool()
+		const pool = client ?? getPool()
+		// batch_id arrives with migration 27; older schemas just lose the grouping.
+		const withBatch = Boolean(entry.batchId) && (await columnExists('contact_history', 'batch_id'))
 		const result = await pool.query(
 			`INSERT INTO contact_history (
 				contact_id, operation, source, actor, actor_type, user_agent, client_ip,
 				summary, changed_fields, previous_state, new_state, related_contact_ids,
-				metadata, undoes_history_id
-			) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+				metadata, undoes_history_id${withBatch ? ', batch_id' : ''}
+			) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14${withBatch ? ', $15' : ''})
 			RETURNING id`,
 			[
 				entry.contactId,
@@ -151,6 +161,7 @@ export async function recordHistory(entry: HistoryEntryInput): Promise<string |
 				entry.relatedContactIds && entry.relatedContactIds.length > 0 ? entry.relatedContactIds : null,
 				entry.metadata ? JSON.stringify(entry.metadata) : null,
 				entry.undoesHistoryId ?? null,
+				...(withBatch ? [entry.batchId] : []),
 			]
 		)
 		return result.rows[0]?.id ?? null
@@ -179,10 +190,13 @@ export interface HistoryRow {
 	undone_at: Date | null
 	undone_by_history_id: string | null
 	undoes_history_id: string | null
+	batch_id?: string | null
+	/** Entries sharing batch_id, when listed by listHistory. */
+	batch_size?: number
 	created_at: Date
 }
 
-export async function listHistory(opts: { contactId?: string; limit?: number; offset?: number }): Promise<{
+export async function listHistory(opts: { contactId?: string; batchId?: string; limit?: number; offset?: number }): Promise<{
 	rows: Array<HistoryRow>
 	total: number
 }> {
@@ -192,24 +206,30 @@ export async function listHistory(opts: { contactId?: string; limit?: number; of
 	const pool = getPool()
 	const limit = Math.max(1, Math.min(500, opts.limit ?? 100))
 	const offset = Math.max(0, opts.offset ?? 0)
+	const hasBatches = await columnExists('contact_history', 'batch_id')
+	// Lets the feed link each entry to the rest of its batch.
+	const select = hasBatches
+		? 'SELECT h.*, (SELECT COUNT(*)::int FROM contact_history b WHERE b.batch_id = h.batch_id) AS batch_size FROM contact_history h'
+		: 'SELECT h.* FROM contact_history h'
 
-	if (opts.contactId) {
-		const [count, data] = await Promise.all([
-			pool.query('SELECT COUNT(*) FROM contact_history WHERE contact_id = $1 OR $1 = ANY(related_contact_ids)', [opts.contactId]),
-			pool.query(
-				`SELECT * FROM contact_history
-				 WHERE contact_id = $1 OR $1 = ANY(related_contact_ids)
-				 ORDER BY created_at DESC
-				 LIMIT $2 OFFSET $3`,
-				[opts.contactId, limit, offset]
-			),
-		])
-		return { rows: data.rows, total: parseInt(count.rows[0].count, 10) }
+	let where = ''
+	const params: Array<unknown> = []
+	if (opts.batchId) {
+		if (!hasBatches) return { rows: [], total: 0 }
+		params.push(opts.batchId)
+		where = 'WHERE h.batch_id = $1'
+	} else if (opts.contactId) {
+		params.push(opts.contactId)
+		where = 'WHERE h.contact_id = $1 OR $1 = ANY(h.related_contact_ids)'
 	}
 
 	const [count, data] = await Promise.all([
-		pool.query('SELECT COUNT(*) FROM contact_history'),
-		pool.query('SELECT * FROM contact_history ORDER BY created_at DESC LIMIT $1 OFFSET $2', [limit, offset]),
+		pool.query(`SELECT COUNT(*) FROM contact_history h ${where}`, params),
+		pool.query(`${select} ${where} ORDER BY h.created_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`, [
+			...params,
+			limit,
+			offset,
+		]),
 	])
 	return { rows: data.rows, total: parseInt(count.rows[0].count, 10) }
 }
@@ -221,7 +241,20 @@ export async function getHistoryById(id: string): Promise<HistoryRow | null> {
 	return result.rows[0] || null
 }
 
-export async function markHistoryUndone(historyId: string, undoneByHistoryId: string): Promise<void> {
-	const pool = getPool()
+export async function markHistoryUndone(historyId: string, undoneByHistoryId: string, client?: PoolClient): Promise<void> {
+	const pool = client ?? getPool()
 	await pool.query('UPDATE contact_history SET undone_at = NOW(), undone_by_history_id = $1 WHERE id = $2', [undoneByHistoryId, historyId])
 }
+
+/** The entries of a batch that are not undone yet, newest first. */
+export async function listHistoryBatch(batchId: string, client?: PoolClient): Promise<Array<HistoryRow>> {
+	if (!(await columnExists('contact_history', 'batch_id'))) return []
+	const pool = client ?? getPool()
+	const result = await pool.query(
+		`SELECT * FROM contact_history
+		 WHERE batch_id = $1 AND undone_at IS NULL
+		 ORDER BY created_at DESC`,
+		[batchId]
+	)
+	return result.rows
+}
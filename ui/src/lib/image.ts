@@ -1,9 +1,17 @@
+import type { PhotoSize } from '../../../shared/photo-sizes'
+
 export type CropArea = { x: number; y: number; width: number; height: number }
 
 type PhotoCacheKey = string | number | Date | null | undefined
 
-export function getContactPhotoUrl(contact: { id: string; photo_hash?: string | null; photo_updated_at?: Date | string | null }): string {
-	const baseUrl = `/api/contacts/${contact.id}/photo`
+export { PHOTO_SIZES } from '../../../shared/photo-sizes'
+export type { PhotoSize }
+
+export function getContactPhotoUrl(
+	contact: { id: string; photo_hash?: string | null; photo_updated_at?: Date | string | null },
+	size?: PhotoSize
+): string {
+	const baseUrl = `/api/contacts/${contact.id}/photo${size ? `?size=${size}` : ''}`
 	const cacheKey: PhotoCacheKey = contact.photo_hash || contact.photo_updated_at
 	if (!cacheKey) return baseUrl
 
@@ -17,7 +25,7 @@ export function getContactPhotoUrl(contact: { id: string; photo_hash?: string |
 		keyValue = Number.isNaN(parsed) ? cacheKey : String(parsed)
 	}
 
-	return `${baseUrl}?v=${encodeURIComponent(keyValue)}`
+	return `${baseUrl}${size ? '&' : '?'}v=${encodeURIComponent(keyValue)}`
 }
 
 export async function readFileAsDataUrl(file: File): Promise<string> {
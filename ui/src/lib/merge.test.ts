@@ -61,7 +61,6 @@ function makeContact(overrides: Partial<Contact> = {}): Contact {
 		class: null,
 		custom_fields: null,
 		notes: null,
-		photo_blob: null,
 		photo_mime: null,
 		photo_width: null,
 		photo_height: null,
@@ -155,7 +155,6 @@ export function mergeContacts(contacts: Array<Contact>): Partial<Contact> {
 		notes: notesParts.length > 0 ? notesParts.join('') : null,
 
 		// Photo: preserve primary photo
-		photo_blob: primary.photo_blob || null,
 		photo_mime: primary.photo_mime || null,
 		photo_width: primary.photo_width || null,
 		photo_height: primary.photo_height || null,
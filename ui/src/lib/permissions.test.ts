@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	accessFromAssignments,
+	canAccessBooks,
+	canAccessContact,
+	filterReadableContacts,
+	hasAnyRole,
+	normalizeAssignments,
+	readableBookIds,
+	roleForBook,
+} from './permissions'
+import type { Access } from './permissions'
+import type { AddressBook, Contact } from './db'
+
+const book = (id: string): AddressBook => ({
+	id,
+	name: id,
+	slug: id,
+	is_public: false,
+	created_at: new Date(0),
+	updated_at: new Date(0),
+})
+
+describe('accessFromAssignments', () => {
+	it('splits global and per-book roles, keeping the highest per scope', () => {
+		const access = accessFromAssignments('u1', [
+			{ address_book_id: null, role: 'viewer' },
+			{ address_book_id: 'family', role: 'editor' },
+			{ address_book_id: 'family', role: 'viewer' },
+		])
+		expect(access).toEqual({ userId: 'u1', globalRole: 'viewer', bookRoles: { family: 'editor' } })
+	})
+})
+
+describe('roleForBook', () => {
+	it('uses whichever of the global and book role is higher', () => {
+		const access: Access = { userId: 'u1', globalRole: 'editor', bookRoles: { family: 'owner', work: 'viewer' } }
+		expect(roleForBook(access, 'family')).toBe('owner')
+		expect(roleForBook(access, 'work')).toBe('editor')
+		expect(roleForBook(access, 'other')).toBe('editor')
+	})
+})
+
+describe('canAccessBooks', () => {
+	const access: Access = { userId: 'u1', globalRole: null, bookRoles: { family: 'editor', work: 'viewer' } }
+
+	it('requires the minimum role on every listed book', () => {
+		expect(canAccessBooks(access, ['family'], 'editor')).toBe(true)
+		expect(canAccessBooks(access, ['family', 'work'], 'editor')).toBe(false)
+		expect(canAccessBooks(access, ['family', 'work'], 'viewer')).toBe(true)
+	})
+
+	it('only lets global roles reach contacts outside every book', () => {
+		expect(canAccessBooks(access, [], 'viewer')).toBe(false)
+		expect(canAccessBooks({ ...access, globalRole: 'viewer' }, [], 'viewer')).toBe(true)
+	})
+})
+
+describe('canAccessContact', () => {
+	it('checks the contact address books', () => {
+		const access: Access = { userId: 'u1', globalRole: null, bookRoles: { family: 'editor' } }
+		expect(canAccessContact(access, { address_books: [book('family')] }, 'editor')).toBe(true)
+		expect(canAccessContact(access, { address_books: [book('work')] }, 'viewer')).toBe(false)
+	})
+})
+
+describe('hasAnyRole', () => {
+	it('is true for a role on any single book', () => {
+		expect(hasAnyRole({ userId: 'u1', globalRole: null, bookRoles: { family: 'viewer' } }, 'viewer')).toBe(true)
+		expect(hasAnyRole({ userId: 'u1', globalRole: null, bookRoles: { family: 'viewer' } }, 'editor')).toBe(false)
+		expect(hasAnyRole({ userId: 'u1', globalRole: null, bookRoles: {} }, 'viewer')).toBe(false)
+	})
+})
+
+describe('readable contacts', () => {
+	const contacts: Array<Pick<Contact, 'id' | 'address_books'>> = [
+		{ id: 'a', address_books: [book('family')] },
+		{ id: 'b', address_books: [book('work'), book('family')] },
+		{ id: 'c', address_books: [book('work')] },
+		{ id: 'd', address_books: [] },
+	]
+
+	it('returns everything for a global viewer', () => {
+		const access: Access = { userId: 'u1', globalRole: 'viewer', bookRoles: {} }
+		expect(readableBookIds(access)).toBeNull()
+		expect(filterReadableContacts(access, contacts)).toHaveLength(4)
+	})
+
+	it('keeps contacts with at least one readable book', () => {
+		const access: Access = { userId: 'u1', globalRole: null, bookRoles: { family: 'viewer' } }
+		expect(readableBookIds(access)).toEqual(['family'])
+		expect(filterReadableContacts(access, contacts).map(contact => contact.id)).toEqual(['a', 'b'])
+	})
+})
+
+describe('normalizeAssignments', () => {
+	it('collapses repeated scopes to the highest role', () => {
+		expect(
+			normalizeAssignments([
+				{ address_book_id: null, role: 'viewer' },
+				{ address_book_id: null, role: 'owner' },
+				{ address_book_id: 'family', role: 'editor' },
+			])
+		).toEqual([
+			{ address_book_id: null, role: 'owner' },
+			{ address_book_id: 'family', role: 'editor' },
+		])
+	})
+})
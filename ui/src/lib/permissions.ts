@@ -0,0 +1,219 @@
+import { json } from '@tanstack/react-start'
+import { getAuthenticatedUser, isAuthDisabled } from './auth'
+import { getContactsByIds, getPool, tableExists, withTransaction } from './db'
+import type { Contact } from './db'
+import type { PoolClient } from 'pg'
+
+/**
+ * Role checks for the management API. Roles come from ui_user_roles (see
+ * migrations/21_ui_user_roles.sql): a NULL address_book_id grants the role on
+ * every book and on the instance-wide admin pages, a book id scopes it to
+ * that book. Route handlers gate themselves with the require* helpers, which
+ * return a 403 Response (or null when allowed), same shape as zodError:
+ *
+ *   const denied = await requireGlobalRole(request, 'owner')
+ *   if (denied) return denied
+ */
+
+export type Role = 'viewer' | 'editor' | 'owner'
+
+export const ROLES: ReadonlyArray<Role> = ['viewer', 'editor', 'owner']
+
+const ROLE_RANK: Record<Role, number> = { viewer: 1, editor: 2, owner: 3 }
+
+export interface Access {
+	userId: string | null
+	/** Role on every book (and on instance-wide settings); null when only book-scoped roles exist. */
+	globalRole: Role | null
+	/** Book-scoped roles keyed by address book id. */
+	bookRoles: Record<string, Role>
+}
+
+export interface UserRoleAssignment {
+	address_book_id: string | null
+	role: Role
+}
+
+const FULL_ACCESS: Access = { userId: null, globalRole: 'owner', bookRoles: {} }
+
+export function isRole(value: unknown): value is Role {
+	return typeof value === 'string' && value in ROLE_RANK
+}
+
+export function roleAtLeast(role: Role | null | undefined, minimum: Role): boolean {
+	return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum]
+}
+
+function higherRole(a: Role | null | undefined, b: Role | null | undefined): Role | null {
+	if (!a) return b ?? null
+	if (!b) return a
+	return ROLE_RANK[a] >= ROLE_RANK[b] ? a : b
+}
+
+export function roleForBook(access: Access, addressBookId: string): Role | null {
+	return higherRole(access.globalRole, access.bookRoles[addressBookId])
+}
+
+/**
+ * True when the user holds at least `minimum` on every listed book. A contact
+ * that belongs to no book is only reachable through a global role.
+ */
+export function canAccessBooks(access: Access, addressBookIds: ReadonlyArray<string>, minimum: Role): boolean {
+	if (addressBookIds.length === 0) return roleAtLeast(access.globalRole, minimum)
+	return addressBookIds.every(id => roleAtLeast(roleForBook(access, id), minimum))
+}
+
+/** True when the user holds at least `minimum` anywhere (globally or on some book). */
+export function hasAnyRole(access: Access, minimum: Role): boolean {
+	if (roleAtLeast(access.globalRole, minimum)) return true
+	return Object.values(access.bookRoles).some(role => roleAtLeast(role, minimum))
+}
+
+export function contactBookIds(contact: Pick<Contact, 'address_books'>): Array<string> {
+	return (contact.address_books ?? []).map(book => book.id)
+}
+
+export function canAccessContact(access: Access, contact: Pick<Contact, 'address_books'>, minimum: Role): boolean {
+	return canAccessBooks(access, contactBookIds(contact), minimum)
+}
+
+/** Book ids the user may read, or null when they can read every book. */
+export function readableBookIds(access: Access): Array<string> | null {
+	if (roleAtLeast(access.globalRole, 'viewer')) return null
+	return Object.keys(access.bookRoles)
+}
+
+export function filterReadableContacts<T extends Pick<Contact, 'address_books'>>(access: Access, contacts: Array<T>): Array<T> {
+	if (roleAtLeast(access.globalRole, 'viewer')) return contacts
+	// Readable when any one of the contact's books is readable.
+	return contacts.filter(contact => contactBookIds(contact).some(id => roleAtLeast(roleForBook(access, id), 'viewer')))
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+export async function getUserRoles(userId: string): Promise<Array<UserRoleAssignment>> {
+	const result = await getPool().query('SELECT address_book_id, role FROM ui_user_roles WHERE user_id = $1', [userId])
+	return result.rows
+}
+
+export async function getAllUserRoles(): Promise<Map<string, Array<UserRoleAssignment>>> {
+	const result = await getPool().query('SELECT user_id, address_book_id, role FROM ui_user_roles ORDER BY created_at')
+	const byUser = new Map<string, Array<UserRoleAssignment>>()
+	for (const row of result.rows) {
+		const existing = byUser.get(row.user_id) || []
+		existing.push({ address_book_id: row.address_book_id, role: row.role })
+		byUser.set(row.user_id, existing)
+	}
+	return byUser
+}
+
+/** Replace every role assignment for a user in one transaction, or in `client`'s when given. */
+export async function setUserRoles(userId: string, assignments: Array<UserRoleAssignment>, client?: PoolClient): Promise<void> {
+	await withTransaction(async tx => {
+		await tx.query('DELETE FROM ui_user_roles WHERE user_id = $1', [userId])
+		for (const assignment of assignments) {
+			await tx.query('INSERT INTO ui_user_roles (user_id, address_book_id, role) VALUES ($1, $2, $3)', [
+				userId,
+				assignment.address_book_id,
+				assignment.role,
+			])
+		}
+	}, client)
+}
+
+/** One assignment per scope, keeping the highest role when a scope repeats. */
+export function normalizeAssignments(assignments: Array<UserRoleAssignment>): Array<UserRoleAssignment> {
+	const byScope = new Map<string | null, Role>()
+	for (const { address_book_id: bookId, role } of assignments) {
+		byScope.set(bookId, higherRole(byScope.get(bookId), role) as Role)
+	}
+	return Array.from(byScope, ([bookId, role]) => ({ address_book_id: bookId, role }))
+}
+
+/** Users holding a global owner role, so the last one cannot lock everyone out. */
+export async function getGlobalOwnerIds(): Promise<Array<string>> {
+	const result = await getPool().query(`SELECT user_id FROM ui_user_roles WHERE address_book_id IS NULL AND role = 'owner'`)
+	return result.rows.map(row => row.user_id)
+}
+
+export function accessFromAssignments(userId: string | null, assignments: Array<UserRoleAssignment>): Access {
+	const access: Access = { userId, globalRole: null, bookRoles: {} }
+	for (const { address_book_id: bookId, role } of assignments) {
+		if (bookId === null) {
+			access.globalRole = higherRole(access.globalRole, role)
+		} else {
+			access.bookRoles[bookId] = higherRole(access.bookRoles[bookId], role) as Role
+		}
+	}
+	return access
+}
+
+// ---------------------------------------------------------------------------
+// Request helpers
+// ---------------------------------------------------------------------------
+
+const accessCache = new WeakMap<Request, Promise<Access>>()
+
+export async function getAccessForUser(userId: string): Promise<Access> {
+	// Before migration 21 runs every signed-in user keeps full access.
+	if (!(await tableExists('ui_user_roles'))) return { ...FULL_ACCESS, userId }
+	return accessFromAssignments(userId, await getUserRoles(userId))
+}
+
+async function loadAccess(request: Request): Promise<Access> {
+	if (isAuthDisabled()) return FULL_ACCESS
+	const user = getAuthenticatedUser(request)
+	if (!user) return { userId: null, globalRole: null, bookRoles: {} }
+	return getAccessForUser(user.id)
+}
+
+export function getRequestAccess(request: Request): Promise<Access> {
+	let access = accessCache.get(request)
+	if (!access) {
+		access = loadAccess(request)
+		accessCache.set(request, access)
+	}
+	return access
+}
+
+export function forbidden(message = 'You do not have permission to do that') {
+	return json({ error: message }, { status: 403 })
+}
+
+/** Instance-wide pages (Radicale users, settings, creating books) need a global role. */
+export async function requireGlobalRole(request: Request, minimum: Role): Promise<Response | null> {
+	const access = await getRequestAccess(request)
+	return roleAtLeast(access.globalRole, minimum) ? null : forbidden()
+}
+
+export async function requireAnyRole(request: Request, minimum: Role): Promise<Response | null> {
+	const access = await getRequestAccess(request)
+	return hasAnyRole(access, minimum) ? null : forbidden()
+}
+
+export async function requireBookRole(request: Request, addressBookIds: ReadonlyArray<string>, minimum: Role): Promise<Response | null> {
+	const access = await getRequestAccess(request)
+	return canAccessBooks(access, addressBookIds, minimum) ? null : forbidden()
+}
+
+/** Every contact must be reachable at `minimum`, e.g. editor on each of its books before a merge. */
+export async function requireContactRole(
+	request: Request,
+	contacts: Array<Pick<Contact, 'address_books'>>,
+	minimum: Role
+): Promise<Response | null> {
+	const access = await getRequestAccess(request)
+	return contacts.every(contact => canAccessContact(access, contact, minimum)) ? null : forbidden()
+}
+
+/**
+ * Id-based variant for routes that only know contact ids (relationship
+ * endpoints). With no contact ids at all - e.g. an edge between two
+ * placeholders - any book-level role of `minimum` is enough.
+ */
+export async function requireContactIdsRole(request: Request, contactIds: Array<string>, minimum: Role): Promise<Response | null> {
+	if (contactIds.length === 0) return requireAnyRole(request, minimum)
+	return requireContactRole(request, await getContactsByIds(contactIds, true), minimum)
+}
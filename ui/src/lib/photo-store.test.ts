@@ -0,0 +1,173 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import sharp from 'sharp'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getPool } from './db'
+import {
+	createFsStore,
+	getPhoto,
+	getPhotoVariant,
+	getPhotoVariantHash,
+	matchesETag,
+	photoHash,
+	putPhoto,
+	resizePhoto,
+	withStoredPhoto,
+} from './photo-store'
+import { generateVCard, hasVCardPhoto, insertVCardPhoto, stripVCardPhoto } from './vcard'
+
+vi.mock('./db', () => ({ getPool: vi.fn() }))
+
+const PHOTO = Buffer.from('not really a jpeg, but long enough to fold across several vCard lines '.repeat(4))
+
+describe('vCard photo helpers', () => {
+	it('puts a stripped photo back where generateVCard wrote it', () => {
+		const contact = {
+			vcard_id: 'jane',
+			full_name: 'Jane Doe',
+			first_name: 'Jane',
+			last_name: 'Doe',
+			nickname: 'JD',
+			email: 'jane@example.com',
+		}
+		const withPhoto = generateVCard({ ...contact, photo_blob: PHOTO, photo_mime: 'image/png' })
+
+		const stripped = stripVCardPhoto(withPhoto)
+
+		expect(stripped).toBe(generateVCard(contact))
+		expect(hasVCardPhoto(stripped)).toBe(false)
+		expect(insertVCardPhoto(stripped, PHOTO.toString('base64'), 'image/png')).toBe(withPhoto)
+	})
+})
+
+describe('photo store', () => {
+	const query = vi.fn()
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(getPool).mockReturnValue({ query } as never)
+		query.mockResolvedValue({ rows: [] })
+	})
+
+	it('keeps photos in contact_photos by default', async () => {
+		const photo = await putPhoto(PHOTO, 'image/jpeg')
+
+		const insert = query.mock.calls.find(([sql]) => String(sql).includes('INSERT INTO contact_photos'))
+		expect(photo).toEqual({ hash: photoHash(PHOTO), mime: 'image/jpeg' })
+		expect(insert?.[0]).toContain('INSERT INTO contact_photos (hash, mime, byte_size, data)')
+		expect(insert?.[1]).toEqual([photo.hash, 'image/jpeg', PHOTO.length, PHOTO])
+	})
+
+	it('does not store a photo twice', async () => {
+		query.mockResolvedValueOnce({ rows: [{ mime: 'image/png' }] })
+
+		expect(await putPhoto(PHOTO, 'image/jpeg')).toEqual({ hash: photoHash(PHOTO), mime: 'image/png' })
+		expect(query).toHaveBeenCalledTimes(1)
+	})
+
+	it('adds the stored photo to exported cards that lack one', async () => {
+		query.mockResolvedValue({ rows: [{ data: PHOTO }] })
+		const card = generateVCard({ vcard_id: 'jane', full_name: 'Jane Doe' })
+
+		expect(await withStoredPhoto(card, { photo_hash: 'abc123', photo_mime: 'image/jpeg' })).toBe(
+			generateVCard({ vcard_id: 'jane', full_name: 'Jane Doe', photo_blob: PHOTO, photo_mime: 'image/jpeg' })
+		)
+		expect(await withStoredPhoto(card, { photo_hash: null })).toBe(card)
+		expect(query).toHaveBeenCalledTimes(1)
+	})
+
+	it('returns null for a hash it does not have', async () => {
+		expect(await getPhoto('missing')).toBeNull()
+		expect(await getPhotoVariant('missing', 64)).toBeNull()
+	})
+
+	it('serves a stored variant without touching the original', async () => {
+		query.mockResolvedValueOnce({ rows: [{ variant_hash: 'small', mime: 'image/jpeg', data: Buffer.from('small-bytes') }] })
+
+		expect(await getPhotoVariant('abc123', 64)).toEqual({ hash: 'small', data: Buffer.from('small-bytes'), mime: 'image/jpeg' })
+		expect(query).toHaveBeenCalledTimes(1)
+	})
+
+	it('serves the original when it already fits', async () => {
+		query
+			.mockResolvedValueOnce({ rows: [{ variant_hash: 'abc123', mime: null, data: null }] })
+			.mockResolvedValueOnce({ rows: [{ data: PHOTO }] })
+
+		expect(await getPhotoVariant('abc123', 512)).toEqual({ hash: 'abc123', data: PHOTO, mime: null })
+		expect(query.mock.calls.some(([sql]) => String(sql).includes('INSERT'))).toBe(false)
+	})
+
+	it('looks up a variant hash without reading bytes', async () => {
+		query.mockResolvedValueOnce({ rows: [{ variant_hash: 'small' }] })
+
+		expect(await getPhotoVariantHash('abc123', 64)).toBe('small')
+		expect(query.mock.calls[0][0]).toBe('SELECT variant_hash FROM contact_photo_variants WHERE hash = $1 AND size = $2')
+		expect(await getPhotoVariantHash('abc123', 256)).toBeNull()
+	})
+
+	it('makes missing variants for photos stored before variants existed', async () => {
+		const jpeg = await sharp({ create: { width: 400, height: 200, channels: 3, background: '#00ff00' } })
+			.jpeg()
+			.toBuffer()
+		query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [{ data: jpeg }] })
+
+		const variant = await getPhotoVariant('abc123', 256)
+
+		expect(variant?.mime).toBe('image/jpeg')
+		expect(await sharp(variant!.data).metadata()).toMatchObject({ width: 256, height: 128 })
+		expect(query.mock.calls[2][0]).toContain('INSERT INTO contact_photo_variants')
+		expect(query.mock.calls[2][1].slice(0, 3)).toEqual(['abc123', 256, variant?.hash])
+	})
+})
+
+describe('matchesETag', () => {
+	it('matches strong, weak and listed tags', () => {
+		expect(matchesETag('"abc123"', 'abc123')).toBe(true)
+		expect(matchesETag('W/"abc123"', 'abc123')).toBe(true)
+		expect(matchesETag('"other", W/"abc123"', 'abc123')).toBe(true)
+		expect(matchesETag('*', 'abc123')).toBe(true)
+	})
+
+	it('rejects other or missing tags', () => {
+		expect(matchesETag(null, 'abc123')).toBe(false)
+		expect(matchesETag('"other"', 'abc123')).toBe(false)
+		expect(matchesETag('abc123', 'abc123')).toBe(false)
+	})
+})
+
+describe('resizePhoto', () => {
+	it('keeps PNGs as PNG and leaves photos that fit alone', async () => {
+		const png = await sharp({ create: { width: 100, height: 300, channels: 4, background: '#336699' } })
+			.png()
+			.toBuffer()
+
+		const resized = await resizePhoto(png, 64)
+
+		expect(resized?.mime).toBe('image/png')
+		expect(await sharp(resized!.data).metadata()).toMatchObject({ width: 21, height: 64 })
+		expect(await resizePhoto(png, 512)).toBeNull()
+	})
+})
+
+describe('createFsStore', () => {
+	let root: string
+
+	beforeEach(() => {
+		root = mkdtempSync(join(tmpdir(), 'photo-store-'))
+	})
+
+	afterEach(() => {
+		rmSync(root, { recursive: true, force: true })
+	})
+
+	it('writes photos under their hash and reads them back', async () => {
+		const store = createFsStore(root)
+		await store.put('ab12cd', PHOTO, 'image/jpeg')
+
+		expect(readFileSync(join(root, 'ab', 'ab12cd'))).toEqual(PHOTO)
+		expect(await store.get('ab12cd')).toEqual(PHOTO)
+		expect(await store.get('ffffff')).toBeNull()
+	})
+})
@@ -0,0 +1,48 @@
+import sharp from 'sharp'
+import { createPhotoStore } from '../../../shared/photo-store'
+import { getPool } from './db'
+import { logger } from './logger'
+import { hasVCardPhoto, insertVCardPhoto } from './vcard'
+
+// Contact photos live in the content-addressed store of
+// shared/photo-store.ts, which the sync service runs too; this module wires
+// it to the UI's pool and logger and adds what only the UI serves.
+
+export { createFsStore, createS3Store, photoHash, signS3Request } from '../../../shared/photo-store'
+export type { BlobStore, PhotoData, S3Config } from '../../../shared/photo-store'
+
+/** Shrink a photo to fit `size`, or null when it already does. PNGs stay PNG; everything else becomes JPEG. */
+export async function resizePhoto(data: Buffer, size: number): Promise<{ data: Buffer; mime: string } | null> {
+	const image = sharp(data, { failOn: 'none' })
+	const { width = 0, height = 0, format } = await image.metadata()
+	if (width <= size && height <= size) return null
+	const resized = image.rotate().resize(size, size, { fit: 'inside' })
+	return format === 'png'
+		? { data: await resized.png().toBuffer(), mime: 'image/png' }
+		: { data: await resized.jpeg({ quality: 85 }).toBuffer(), mime: 'image/jpeg' }
+}
+
+export const { putPhoto, getPhoto, getPhotoVariant, getPhotoVariantHash } = createPhotoStore({
+	query: (text, values) => getPool().query(text, values),
+	resize: resizePhoto,
+	logger,
+})
+
+/** Whether an If-None-Match header (weak `W/"…"` tags, comma-separated lists or `*`) names the photo's hash. */
+export function matchesETag(ifNoneMatch: string | null, hash: string): boolean {
+	if (!ifNoneMatch) return false
+	return ifNoneMatch.split(',').some(tag => {
+		const value = tag.trim().replace(/^W\//, '')
+		return value === '*' || value === `"${hash}"`
+	})
+}
+
+/**
+ * The card with the contact's photo put back in. Stored vCards leave PHOTO
+ * out; exports apply this so downloaded cards still carry the photo.
+ */
+export async function withStoredPhoto(card: string, contact: { photo_hash?: string | null; photo_mime?: string | null }): Promise<string> {
+	if (!contact.photo_hash || hasVCardPhoto(card)) return card
+	const data = await getPhoto(contact.photo_hash)
+	return data ? insertVCardPhoto(card, data.toString('base64'), contact.photo_mime) : card
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { CARD_H, CARD_W, assignGenerations, layoutEgoTree, relationLabels } from './relationship-layout'
+import { CARD_H, CARD_W, assignGenerations, familyProjection, layoutEgoTree, relationLabels, unionDatesLabel } from './relationship-layout'
 import type { EgoGraph, GraphEdge, GraphNode } from './relationship-layout'
 
 const node = (key: string, name: string): GraphNode => ({
@@ -10,6 +10,8 @@ const node = (key: string, name: string): GraphNode => ({
 	birthday: null,
 	birth_year: null,
 	death_year: null,
+	birth_date: null,
+	death_date: null,
 	photo_hash: null,
 	photo_updated_at: null,
 })
@@ -90,6 +92,34 @@ describe('relationLabels', () => {
 	})
 })
 
+describe('familyProjection', () => {
+	it('drops non-family edges and the people only they reach', () => {
+		const family = familyGraph()
+		const graph = familyProjection({
+			...family,
+			nodes: [...family.nodes, node('c:boss', 'Pat Boss')],
+			edges: [...family.edges, edge('c:boss', 'c:sofia', 'manager')],
+		})
+		expect(graph.edges).toEqual(family.edges)
+		expect(graph.nodes.map(entry => entry.key)).not.toContain('c:boss')
+	})
+})
+
+describe('unionDatesLabel', () => {
+	it('spells out marriage and divorce years', () => {
+		const married = { ...edge('c:a', 'c:b', 'spouse'), start_date: '1998-06-20' }
+		expect(unionDatesLabel(married)).toBe('m. 1998')
+		expect(unionDatesLabel({ ...married, qualifier: 'ex', end_date: '2010-01-04' })).toBe('m. 1998 – div. 2010')
+		expect(unionDatesLabel({ ...edge('c:a', 'c:b', 'partner'), end_date: '2015-03-01' })).toBe('until 2015')
+	})
+
+	it('skips undated edges, no-year dates and non-union types', () => {
+		expect(unionDatesLabel(edge('c:a', 'c:b', 'spouse'))).toBeNull()
+		expect(unionDatesLabel({ ...edge('c:a', 'c:b', 'spouse'), start_date: '1604-06-20' })).toBeNull()
+		expect(unionDatesLabel({ ...edge('c:a', 'c:b', 'parent'), start_date: '1998-06-20' })).toBeNull()
+	})
+})
+
 describe('layoutEgoTree', () => {
 	it('stacks generations top-down with finite positions', () => {
 		const layout = layoutEgoTree(familyGraph())
@@ -1,3 +1,4 @@
+import { catalogLabel, isFamilyType } from './relationship-types'
 import type { DerivedSibling, EgoGraph, GraphEdge, GraphNode, RelationshipType } from './relationships'
 
 // Pure generational auto-layout for the ego tree. Server types are imported
@@ -54,6 +55,8 @@ function directLabel(type: RelationshipType, qualifier: string | null, focusIsPa
 			return 'partner'
 		case 'sibling':
 			return `${qualifierPrefix(qualifier)}sibling`
+		default:
+			return catalogLabel(type, focusIsParentSide)
 	}
 }
 
@@ -117,6 +120,23 @@ export function relationLabels(graph: EgoGraph): Map<string, string> {
 	return labels
 }
 
+/** The year of a "YYYY-MM-DD" date, or null when absent or a no-year placeholder (Apple's 1604). */
+function dateYear(value: string | null | undefined): number | null {
+	const year = value ? Number(value.slice(0, 4)) : NaN
+	return year > 1700 ? year : null
+}
+
+/** "m. 1998", "m. 1998 – div. 2010", "from 2004" - the span of a spouse/partner edge, null when undated. */
+export function unionDatesLabel(edge: GraphEdge): string | null {
+	if (edge.type !== 'spouse' && edge.type !== 'partner') return null
+	const start = dateYear(edge.start_date)
+	const end = dateYear(edge.end_date)
+	const parts: Array<string> = []
+	if (start) parts.push(edge.type === 'spouse' ? `m. ${start}` : `from ${start}`)
+	if (end) parts.push(edge.qualifier === 'ex' ? `div. ${end}` : `until ${end}`)
+	return parts.length > 0 ? parts.join(' – ') : null
+}
+
 /** Generation offset of every node relative to the focal node (negative = older). */
 export function assignGenerations(graph: EgoGraph): Map<string, number> {
 	const adjacency = new Map<string, Array<{ key: string; delta: number }>>()
@@ -161,7 +181,20 @@ interface Positioned {
 	y: number
 }
 
-export function layoutEgoTree(graph: EgoGraph): TreeLayout {
+/**
+ * The part of an ego graph the tree draws: family edges and the people they
+ * reach. Friends, coworkers and the like are listed in the panel instead.
+ */
+export function familyProjection(graph: EgoGraph): EgoGraph {
+	const edges = graph.edges.filter(edge => isFamilyType(edge.type))
+	const keys = new Set<string>([graph.focus])
+	for (const edge of edges) keys.add(edge.a).add(edge.b)
+	for (const pair of graph.derivedSiblings) keys.add(pair.a).add(pair.b)
+	return { ...graph, nodes: graph.nodes.filter(node => keys.has(node.key)), edges }
+}
+
+export function layoutEgoTree(fullGraph: EgoGraph): TreeLayout {
+	const graph = familyProjection(fullGraph)
 	const nodesByKey = new Map(graph.nodes.map(node => [node.key, node]))
 	const generations = assignGenerations(graph)
 	const labels = relationLabels(graph)
@@ -0,0 +1,55 @@
+// Catalog of relationship types. contact_relationships.type is free TEXT, so
+// adding a type here is all it takes - no migration. Pure data, imported by
+// both the server module (relationships.ts) and the client (panel, tree).
+//
+// Family types drive the tree layout, sibling derivation and auto-link
+// propagation; every other type is a plain labelled link that lives outside
+// the tree.
+
+export type RelationshipCategory = 'family' | 'social' | 'work'
+
+export interface RelationshipTypeDefinition {
+	/** Stored in contact_relationships.type. */
+	type: string
+	category: RelationshipCategory
+	/** Symmetric types store each pair once; directional ones read "A is the <aLabel> of B". */
+	symmetric: boolean
+	/** What endpoint A is to B. */
+	aLabel: string
+	/** What endpoint B is to A; the same as aLabel for symmetric types. */
+	bLabel: string
+}
+
+export const RELATIONSHIP_TYPE_CATALOG: Array<RelationshipTypeDefinition> = [
+	{ type: 'parent', category: 'family', symmetric: false, aLabel: 'parent', bLabel: 'child' },
+	{ type: 'spouse', category: 'family', symmetric: true, aLabel: 'spouse', bLabel: 'spouse' },
+	{ type: 'partner', category: 'family', symmetric: true, aLabel: 'partner', bLabel: 'partner' },
+	{ type: 'sibling', category: 'family', symmetric: true, aLabel: 'sibling', bLabel: 'sibling' },
+	{ type: 'friend', category: 'social', symmetric: true, aLabel: 'friend', bLabel: 'friend' },
+	{ type: 'emergency_contact', category: 'social', symmetric: false, aLabel: 'emergency contact', bLabel: 'emergency contact for' },
+	{ type: 'coworker', category: 'work', symmetric: true, aLabel: 'coworker', bLabel: 'coworker' },
+	{ type: 'manager', category: 'work', symmetric: false, aLabel: 'manager', bLabel: 'report' },
+	{ type: 'assistant', category: 'work', symmetric: false, aLabel: 'assistant', bLabel: 'executive' },
+]
+
+const DEFINITIONS = new Map(RELATIONSHIP_TYPE_CATALOG.map(definition => [definition.type, definition]))
+
+export function getRelationshipTypeDefinition(type: string): RelationshipTypeDefinition | null {
+	return DEFINITIONS.get(type) ?? null
+}
+
+export function isFamilyType(type: string): boolean {
+	return DEFINITIONS.get(type)?.category === 'family'
+}
+
+/** Unknown types (rows written by a newer version) are treated as directional. */
+export function isSymmetricType(type: string): boolean {
+	return DEFINITIONS.get(type)?.symmetric ?? false
+}
+
+/** What the other endpoint is to the focal one: bLabel when the focus is endpoint A. */
+export function catalogLabel(type: string, focusIsA: boolean): string {
+	const definition = DEFINITIONS.get(type)
+	if (!definition) return type.replace(/_/g, ' ')
+	return focusIsA ? definition.bLabel : definition.aLabel
+}
@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest'
 import {
 	canonicalizeEndpoints,
 	deriveSiblings,
+	describeEdge,
 	describeRelationship,
 	expandToComponents,
 	injectRelatedNames,
@@ -62,6 +63,11 @@ describe('canonicalizeEndpoints', () => {
 	it('orders contacts before placeholders for symmetric edges', () => {
 		expect(canonicalizeEndpoints(placeholder(ID_A), contact(ID_B), 'sibling')).toEqual([contact(ID_B), placeholder(ID_A)])
 	})
+
+	it('follows the catalog for non-family types', () => {
+		expect(canonicalizeEndpoints(contact(ID_B), contact(ID_A), 'friend')).toEqual([contact(ID_A), contact(ID_B)])
+		expect(canonicalizeEndpoints(contact(ID_B), contact(ID_A), 'manager')).toEqual([contact(ID_B), contact(ID_A)])
+	})
 })
 
 // ---------------------------------------------------------------------------
@@ -203,6 +209,8 @@ const row = (a: NodeRef, b: NodeRef, type: GraphEdge['type'], qualifier: string
 	b_placeholder_id: b.kind === 'placeholder' ? b.id : null,
 	type,
 	qualifier,
+	start_date: null,
+	end_date: null,
 	created_at: new Date(0),
 	updated_at: new Date(0),
 })
@@ -355,6 +363,29 @@ describe('relatedNamesForFocus', () => {
 			{ label: 'ex-spouse', name: 'Anna Delgado' },
 		])
 	})
+
+	it('labels non-family types from the focal side, with Apple labels where they exist', () => {
+		const edges = [edge('c:dad', 'c:kid', 'manager'), edge('c:dad', 'c:sib', 'friend'), edge('c:wife', 'c:dad', 'emergency_contact')]
+		expect(relatedNamesForFocus('c:kid', edges, [], names)).toEqual([{ label: '_$!<Manager>!$_', name: 'Miguel Delgado' }])
+		expect(relatedNamesForFocus('c:dad', edges, [], names)).toEqual([
+			{ label: '_$!<Friend>!$_', name: 'Marcus Delgado' },
+			{ label: 'emergency contact', name: 'Anna Delgado' },
+			{ label: 'report', name: 'Sofia Delgado' },
+		])
+	})
+
+	it('carries the start date of current unions only', () => {
+		const edges = [
+			{ ...edge('c:dad', 'c:wife', 'spouse'), start_date: '1998-06-20' },
+			{ ...edge('c:dad', 'c:sib', 'spouse', 'ex'), start_date: '1990-05-01', end_date: '1994-02-01' },
+			{ ...edge('c:dad', 'c:kid', 'partner'), start_date: '1995-01-01', end_date: '1997-01-01' },
+		]
+		expect(relatedNamesForFocus('c:dad', edges, [], names)).toEqual([
+			{ label: '_$!<Partner>!$_', name: 'Sofia Delgado' },
+			{ label: '_$!<Spouse>!$_', name: 'Anna Delgado', anniversary: '1998-06-20' },
+			{ label: 'ex-spouse', name: 'Marcus Delgado' },
+		])
+	})
 })
 
 describe('injectRelatedNames', () => {
@@ -383,6 +414,27 @@ describe('injectRelatedNames', () => {
 		expect(replaced).toContain('screl1.X-ABRELATEDNAMES:Zane Delgado')
 	})
 
+	it('exports anniversaries as labelled X-ABDATE in vCard 3.0', () => {
+		const spouse = { label: '_$!<Spouse>!$_', name: 'Tom Whitfield', anniversary: '2015-09-12' }
+		const result = injectRelatedNames(BASE, [spouse])
+		expect(result).toContain('screl2.X-ABDATE:2015-09-12\r\nscrel2.X-ABLabel:_$!<Anniversary>!$_\r\nEND:VCARD')
+		expect(injectRelatedNames(result, [spouse])).toBe(result)
+		expect(injectRelatedNames(result, [{ label: '_$!<Spouse>!$_', name: 'Tom Whitfield' }])).not.toContain('X-ABDATE')
+	})
+
+	it('exports one ANNIVERSARY in vCard 4.0, for the most recent union', () => {
+		const base = BASE.replace('VERSION:3.0', 'VERSION:4.0')
+		const result = injectRelatedNames(base, [
+			{ label: '_$!<Partner>!$_', name: 'Sam Lee', anniversary: '1604-03-02' },
+			{ label: '_$!<Spouse>!$_', name: 'Tom Whitfield', anniversary: '2015-09-12' },
+		])
+		expect(result).toContain('screl3.ANNIVERSARY:20150912\r\nEND:VCARD')
+		expect(result).not.toContain('X-ABDATE')
+		expect(injectRelatedNames(base, [{ label: '_$!<Partner>!$_', name: 'Sam Lee', anniversary: '1604-03-02' }])).toContain(
+			'screl2.ANNIVERSARY:--0302'
+		)
+	})
+
 	it('strips all related lines when the list is empty and preserves other properties', () => {
 		const withOther = injectRelatedNames(BASE.replace('FN:Sofia Delgado', 'FN:Sofia Delgado\r\nitem1.URL:https://example.com'), [
 			{ label: 'sibling', name: 'Marcus Delgado' },
@@ -419,4 +471,17 @@ describe('describeRelationship', () => {
 		expect(describeRelationship('spouse', 'ex', false)).toBe('ex-spouse')
 		expect(describeRelationship('spouse', null, false)).toBe('spouse')
 	})
+
+	it('uses catalog labels for non-family types', () => {
+		expect(describeRelationship('manager', null, false)).toBe('manager')
+		expect(describeRelationship('manager', null, true)).toBe('report')
+	})
+})
+
+describe('describeEdge', () => {
+	it('phrases directional and symmetric edges', () => {
+		expect(describeEdge({ type: 'parent', qualifier: 'step' }, 'Ana', 'Ben')).toBe('Ana is a step-parent of Ben')
+		expect(describeEdge({ type: 'emergency_contact', qualifier: null }, 'Ana', 'Ben')).toBe('Ana is an emergency contact of Ben')
+		expect(describeEdge({ type: 'coworker', qualifier: null }, 'Ana', 'Ben')).toBe('Ana and Ben are coworkers')
+	})
 })
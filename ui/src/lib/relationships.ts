@@ -1,5 +1,7 @@
-import { getAppSetting, getPool, setAppSetting, tableExists } from './db'
+import { columnExists, getAppSetting, getPool, setAppSetting, tableExists } from './db'
 import { logger } from './logger'
+import { RELATIONSHIP_TYPE_CATALOG, catalogLabel, isFamilyType, isSymmetricType } from './relationship-types'
+import type { PoolClient } from 'pg'
 
 // One canonical relationship graph; every tree view is a projection of it.
 // Edges live between two endpoints (contact or placeholder person) and are
@@ -7,17 +9,24 @@ import { logger } from './logger'
 // Relationships never touch vcard_data, so the CardDAV sync pipeline is
 // unaffected by anything in this module.
 
-export type RelationshipType = 'parent' | 'spouse' | 'partner' | 'sibling'
+export type FamilyRelationshipType = 'parent' | 'spouse' | 'partner' | 'sibling'
 
-export const RELATIONSHIP_TYPES: Array<RelationshipType> = ['parent', 'spouse', 'partner', 'sibling']
+/** A family type or any other type from the catalog in relationship-types.ts. */
+export type RelationshipType = string
 
-const SYMMETRIC_TYPES = new Set<RelationshipType>(['spouse', 'partner', 'sibling'])
+export const RELATIONSHIP_TYPES: Array<RelationshipType> = RELATIONSHIP_TYPE_CATALOG.map(definition => definition.type)
+
+/** Years at or below this mean "no year given" (Apple stores 1604), as in upcoming.ts. */
+const NO_YEAR_MAX = 1700
 
 export interface PlaceholderPerson {
 	id: string
 	name: string
 	birth_year: number | null
 	death_year: number | null
+	/** "YYYY-MM-DD" when the full date is known; the year columns follow it. */
+	birth_date: string | null
+	death_date: string | null
 	notes: string | null
 	created_at: Date
 	updated_at: Date
@@ -31,6 +40,9 @@ export interface RelationshipRow {
 	b_placeholder_id: string | null
 	type: RelationshipType
 	qualifier: string | null
+	/** Spouse/partner only - "YYYY-MM-DD" dates the relationship started and ended */
+	start_date: string | null
+	end_date: string | null
 	created_at: Date
 	updated_at: Date
 }
@@ -67,7 +79,7 @@ export function endpointB(row: RelationshipRow): NodeRef {
  * either direction collides on the unique index.
  */
 export function canonicalizeEndpoints(a: NodeRef, b: NodeRef, type: RelationshipType): [NodeRef, NodeRef] {
-	if (!SYMMETRIC_TYPES.has(type)) return [a, b]
+	if (!isSymmetricType(type)) return [a, b]
 	const sortKey = (ref: NodeRef) => `${ref.kind === 'contact' ? '0' : '1'}:${ref.id}`
 	return sortKey(a) <= sortKey(b) ? [a, b] : [b, a]
 }
@@ -86,6 +98,8 @@ export interface GraphNode {
 	/** Placeholders only */
 	birth_year: number | null
 	death_year: number | null
+	birth_date: string | null
+	death_date: string | null
 	photo_hash: string | null
 	photo_updated_at: Date | string | null
 }
@@ -94,6 +108,8 @@ export interface GraphEdge {
 	id: string
 	type: RelationshipType
 	qualifier: string | null
+	start_date?: string | null
+	end_date?: string | null
 	/** Node key; for `parent` edges, `a` is the parent of `b` */
 	a: string
 	b: string
@@ -274,13 +290,79 @@ export async function listPlaceholders(): Promise<Array<PlaceholderPerson>> {
 	return result.rows
 }
 
-export async function getPlaceholdersByIds(ids: Array<string>): Promise<Array<PlaceholderPerson>> {
-	if (ids.length === 0) return []
+export async function getPlaceholder(id: string): Promise<PlaceholderPerson | null> {
 	const pool = getPool()
+	const result = await pool.query('SELECT * FROM relationship_placeholders WHERE id = $1', [id])
+	return result.rows[0] ?? null
+}
+
+export async function getPlaceholdersByIds(ids: Array<string>, client?: PoolClient): Promise<Array<PlaceholderPerson>> {
+	if (ids.length === 0) return []
+	const pool = client ?? getPool()
 	const result = await pool.query('SELECT * FROM relationship_placeholders WHERE id = ANY($1)', [ids])
 	return result.rows
 }
 
+/** Edge start/end dates and placeholder birth/death dates (migration 26). */
+export async function relationshipDatesEnabled(): Promise<boolean> {
+	return (await relationshipsEnabled()) && (await columnExists('contact_relationships', 'end_date'))
+}
+
+export interface UpdatePlaceholderInput {
+	birth_year?: number | null
+	death_year?: number | null
+	birth_date?: string | null
+	death_date?: string | null
+}
+
+/**
+ * Update a placeholder's life dates. A full date with a real year also sets
+ * the matching year column, so year-only views (tree captions, the person
+ * picker) stay in step; clearing a date leaves the year alone.
+ */
+export async function updatePlaceholder(id: string, changes: UpdatePlaceholderInput): Promise<PlaceholderPerson | null> {
+	const resolved: UpdatePlaceholderInput = { ...changes }
+	for (const [dateColumn, yearColumn] of [
+		['birth_date', 'birth_year'],
+		['death_date', 'death_year'],
+	] as const) {
+		const date = changes[dateColumn]
+		const year = date ? Number(date.slice(0, 4)) : null
+		if (year !== null && year > NO_YEAR_MAX) resolved[yearColumn] = year
+	}
+
+	const setClauses: Array<string> = []
+	const values: Array<unknown> = []
+	for (const column of ['birth_year', 'death_year', 'birth_date', 'death_date'] as const) {
+		if (resolved[column] === undefined) continue
+		values.push(resolved[column])
+		setClauses.push(`${column} = $${values.length}`)
+	}
+	if (setClauses.length === 0) return getPlaceholder(id)
+	values.push(id)
+	const pool = getPool()
+	const result = await pool.query(
+		`UPDATE relationship_placeholders SET ${setClauses.join(', ')}, updated_at = NOW() WHERE id = $${values.length} RETURNING *`,
+		values
+	)
+	return result.rows[0] ?? null
+}
+
+/** Contacts sharing an edge with the placeholder - the people whose editors may edit it. */
+export async function placeholderContactIds(placeholderId: string): Promise<Array<string>> {
+	const pool = getPool()
+	const result = await pool.query(
+		`SELECT DISTINCT contact_id FROM (
+		   SELECT b_contact_id AS contact_id FROM contact_relationships WHERE a_placeholder_id = $1
+		   UNION
+		   SELECT a_contact_id AS contact_id FROM contact_relationships WHERE b_placeholder_id = $1
+		 ) endpoints
+		 WHERE contact_id IS NOT NULL`,
+		[placeholderId]
+	)
+	return result.rows.map(row => row.contact_id)
+}
+
 export interface EndpointInput {
 	contact_id?: string
 	placeholder_id?: string
@@ -468,12 +550,28 @@ export async function createRelationship(input: CreateRelationshipInput): Promis
 	}
 }
 
-export async function updateRelationshipQualifier(id: string, qualifier: string | null): Promise<RelationshipRow | null> {
+export interface UpdateRelationshipInput {
+	qualifier?: string | null
+	start_date?: string | null
+	end_date?: string | null
+}
+
+/** Update the mutable columns of an edge; endpoints and type are fixed (replace the edge to change them). */
+export async function updateRelationship(id: string, changes: UpdateRelationshipInput): Promise<RelationshipRow | null> {
 	const pool = getPool()
-	const result = await pool.query('UPDATE contact_relationships SET qualifier = $1, updated_at = NOW() WHERE id = $2 RETURNING *', [
-		qualifier,
-		id,
-	])
+	const setClauses: Array<string> = []
+	const values: Array<unknown> = []
+	for (const column of ['qualifier', 'start_date', 'end_date'] as const) {
+		if (changes[column] === undefined) continue
+		values.push(changes[column])
+		setClauses.push(`${column} = $${values.length}`)
+	}
+	if (setClauses.length === 0) return getRelationship(id)
+	values.push(id)
+	const result = await pool.query(
+		`UPDATE contact_relationships SET ${setClauses.join(', ')}, updated_at = NOW() WHERE id = $${values.length} RETURNING *`,
+		values
+	)
 	return result.rows[0] ?? null
 }
 
@@ -521,6 +619,9 @@ export interface TransferredEdgeSnapshot {
 	b_placeholder_id: string | null
 	type: RelationshipType
 	qualifier: string | null
+	/** Missing on merges recorded before relationship dates existed. */
+	start_date?: string | null
+	end_date?: string | null
 }
 
 export interface EdgeTransferPlan {
@@ -561,6 +662,8 @@ function snapshotEdge(row: RelationshipRow): TransferredEdgeSnapshot {
 		b_placeholder_id: row.b_placeholder_id,
 		type: row.type,
 		qualifier: row.qualifier,
+		start_date: row.start_date,
+		end_date: row.end_date,
 	}
 }
 
@@ -688,16 +791,31 @@ export function remapEdgeContactIds(snapshot: TransferredEdgeSnapshot, contactId
  */
 export async function restoreTransferredEdges(
 	transfer: EdgeTransferSnapshotSet,
-	contactIdMap: Map<string, string>
+	contactIdMap: Map<string, string>,
+	client?: PoolClient
 ): Promise<{ restored: number; skipped: number }> {
 	if (!(await relationshipsEnabled())) return { restored: 0, skipped: 0 }
 	const pool = getPool()
+	// A failed statement aborts the caller's transaction, so on its client
+	// each edge goes through a savepoint that a skip rolls back to.
+	const attempt = async (text: string, values: Array<unknown>) => {
+		if (!client) return pool.query(text, values)
+		await client.query('SAVEPOINT restore_edge')
+		try {
+			const result = await client.query(text, values)
+			await client.query('RELEASE SAVEPOINT restore_edge')
+			return result
+		} catch (error) {
+			await client.query('ROLLBACK TO SAVEPOINT restore_edge')
+			throw error
+		}
+	}
 	let restored = 0
 	let skipped = 0
 	for (const before of transfer.repointed) {
 		const target = remapEdgeContactIds(before, contactIdMap)
 		try {
-			const result = await pool.query(
+			const result = await attempt(
 				`UPDATE contact_relationships
 				 SET a_contact_id = $1, a_placeholder_id = $2, b_contact_id = $3, b_placeholder_id = $4, updated_at = NOW()
 				 WHERE id = $5 RETURNING id`,
@@ -712,9 +830,9 @@ export async function restoreTransferredEdges(
 	for (const before of transfer.dropped) {
 		const target = remapEdgeContactIds(before, contactIdMap)
 		try {
-			const result = await pool.query(
-				`INSERT INTO contact_relationships (id, a_contact_id, a_placeholder_id, b_contact_id, b_placeholder_id, type, qualifier)
-				 VALUES ($1, $2, $3, $4, $5, $6, $7)
+			const result = await attempt(
+				`INSERT INTO contact_relationships (id, a_contact_id, a_placeholder_id, b_contact_id, b_placeholder_id, type, qualifier, start_date, end_date)
+				 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
 				 ON CONFLICT DO NOTHING RETURNING id`,
 				[
 					target.id,
@@ -724,6 +842,8 @@ export async function restoreTransferredEdges(
 					target.b_placeholder_id,
 					target.type,
 					target.qualifier,
+					target.start_date ?? null,
+					target.end_date ?? null,
 				]
 			)
 			if (result.rowCount) restored++
@@ -869,9 +989,11 @@ const MAX_GRAPH_NODES = 400
 const MAX_GRAPH_HOPS = 12
 
 /**
- * The full family component reachable from a contact: BFS across edges in
- * both directions, hopping through contacts and placeholders alike. Deleted
- * contacts (and edges touching them) are dropped from the result.
+ * The full family component reachable from a contact: BFS across family edges
+ * in both directions, hopping through contacts and placeholders alike. Other
+ * types (friend, manager, ...) are included only where they touch the focal
+ * contact and are never walked, so a coworker's family stays out of the tree.
+ * Deleted contacts (and edges touching them) are dropped from the result.
  */
 export async function getEgoGraph(contactId: string): Promise<EgoGraph | null> {
 	const pool = getPool()
@@ -884,6 +1006,9 @@ export async function getEgoGraph(contactId: string): Promise<EgoGraph | null> {
 
 	const seenContacts = new Set<string>([contactId])
 	const seenPlaceholders = new Set<string>()
+	// Reached through family edges, so their own edges get walked in turn.
+	const walkedContacts = new Set<string>([contactId])
+	const walkedPlaceholders = new Set<string>()
 	const edgeRows = new Map<string, RelationshipRow>()
 
 	let frontierContacts: Array<string> = [contactId]
@@ -901,14 +1026,16 @@ export async function getEgoGraph(contactId: string): Promise<EgoGraph | null> {
 		const nextContacts = new Set<string>()
 		const nextPlaceholders = new Set<string>()
 		for (const row of result.rows as Array<RelationshipRow>) {
+			const family = isFamilyType(row.type)
+			if (!family && row.a_contact_id !== contactId && row.b_contact_id !== contactId) continue
 			edgeRows.set(row.id, row)
 			for (const ref of [endpointA(row), endpointB(row)]) {
-				if (ref.kind === 'contact' && !seenContacts.has(ref.id)) {
-					seenContacts.add(ref.id)
-					nextContacts.add(ref.id)
-				} else if (ref.kind === 'placeholder' && !seenPlaceholders.has(ref.id)) {
-					seenPlaceholders.add(ref.id)
-					nextPlaceholders.add(ref.id)
+				const [seen, walked, next] =
+					ref.kind === 'contact' ? [seenContacts, walkedContacts, nextContacts] : [seenPlaceholders, walkedPlaceholders, nextPlaceholders]
+				seen.add(ref.id)
+				if (family && !walked.has(ref.id)) {
+					walked.add(ref.id)
+					next.add(ref.id)
 				}
 			}
 		}
@@ -936,6 +1063,8 @@ export async function getEgoGraph(contactId: string): Promise<EgoGraph | null> {
 			birthday: row.birthday ?? null,
 			birth_year: null,
 			death_year: null,
+			birth_date: null,
+			death_date: null,
 			photo_hash: row.photo_hash ?? null,
 			photo_updated_at: row.photo_updated_at ?? null,
 		})
@@ -949,6 +1078,8 @@ export async function getEgoGraph(contactId: string): Promise<EgoGraph | null> {
 			birthday: null,
 			birth_year: row.birth_year,
 			death_year: row.death_year,
+			birth_date: row.birth_date ?? null,
+			death_date: row.death_date ?? null,
 			photo_hash: null,
 			photo_updated_at: null,
 		})
@@ -960,7 +1091,15 @@ export async function getEgoGraph(contactId: string): Promise<EgoGraph | null> {
 		const a = refKey(endpointA(row))
 		const b = refKey(endpointB(row))
 		if (!nodes.has(a) || !nodes.has(b)) continue
-		edges.push({ id: row.id, type: row.type, qualifier: row.qualifier, a, b })
+		edges.push({
+			id: row.id,
+			type: row.type,
+			qualifier: row.qualifier,
+			start_date: row.start_date ?? null,
+			end_date: row.end_date ?? null,
+			a,
+			b,
+		})
 	}
 
 	return {
@@ -972,8 +1111,8 @@ export async function getEgoGraph(contactId: string): Promise<EgoGraph | null> {
 }
 
 /** Display names for a set of endpoints (history summaries, API responses). */
-export async function getEndpointNames(refs: Array<NodeRef>): Promise<Map<string, string>> {
-	const pool = getPool()
+export async function getEndpointNames(refs: Array<NodeRef>, client?: PoolClient): Promise<Map<string, string>> {
+	const pool = client ?? getPool()
 	const contactIds = refs.filter(r => r.kind === 'contact').map(r => r.id)
 	const placeholderIds = refs.filter(r => r.kind === 'placeholder').map(r => r.id)
 	const names = new Map<string, string>()
@@ -984,7 +1123,7 @@ export async function getEndpointNames(refs: Array<NodeRef>): Promise<Map<string
 		}
 	}
 	if (placeholderIds.length > 0) {
-		for (const row of await getPlaceholdersByIds(placeholderIds)) {
+		for (const row of await getPlaceholdersByIds(placeholderIds, client)) {
 			names.set(`p:${row.id}`, row.name)
 		}
 	}
@@ -1000,6 +1139,13 @@ export async function getEndpointNames(refs: Array<NodeRef>): Promise<Map<string
 //   screl1.X-ABRELATEDNAMES:Carol Hoffman
 //   screl1.X-ABLabel:_$!<Parent>!$_
 //
+// The start date of a current spouse or partner relationship goes out as the
+// contact's anniversary: ANNIVERSARY in vCard 4.0, which has the property,
+// and Apple's labelled X-ABDATE in 3.0, which does not:
+//
+//   screl2.X-ABDATE:1998-06-20
+//   screl2.X-ABLabel:_$!<Anniversary>!$_
+//
 // The DB graph stays authoritative: the sync-service parser drops grouped
 // X- properties on inbound parse, so client-side edits to related names are
 // ignored and overwritten on the next regeneration. The `screl` group prefix
@@ -1010,15 +1156,28 @@ export async function getEndpointNames(refs: Array<NodeRef>): Promise<Map<string
 export interface RelatedName {
 	label: string
 	name: string
+	/** "YYYY-MM-DD" start of a current spouse/partner relationship with this person. */
+	anniversary?: string
+}
+
+/** Catalog labels Apple Contacts knows as built-ins, which it localizes. */
+const APPLE_CATALOG_LABELS: Record<string, string> = {
+	friend: '_$!<Friend>!$_',
+	manager: '_$!<Manager>!$_',
+	assistant: '_$!<Assistant>!$_',
 }
 
-/** Apple canonical label wrappers where a gender-neutral one exists; plain text otherwise. */
-export function relatedNameLabel(type: RelationshipType, qualifier: string | null, focusIsParentSide: boolean): string {
+/**
+ * Apple canonical label wrappers where a gender-neutral one exists; plain text
+ * otherwise. `focusIsA` says which end of a directional edge the vCard's owner
+ * is on (for parent edges: the parent).
+ */
+export function relatedNameLabel(type: RelationshipType, qualifier: string | null, focusIsA: boolean): string {
 	switch (type) {
 		case 'parent': {
-			const base = focusIsParentSide ? 'child' : 'parent'
+			const base = focusIsA ? 'child' : 'parent'
 			if (qualifier && qualifier !== 'biological') return `${qualifier}-${base}`
-			return focusIsParentSide ? '_$!<Child>!$_' : '_$!<Parent>!$_'
+			return focusIsA ? '_$!<Child>!$_' : '_$!<Parent>!$_'
 		}
 		case 'spouse':
 			return qualifier === 'ex' ? 'ex-spouse' : '_$!<Spouse>!$_'
@@ -1026,9 +1185,20 @@ export function relatedNameLabel(type: RelationshipType, qualifier: string | nul
 			return '_$!<Partner>!$_'
 		case 'sibling':
 			return 'sibling'
+		default: {
+			const label = catalogLabel(type, focusIsA)
+			return APPLE_CATALOG_LABELS[label] ?? label
+		}
 	}
 }
 
+/** The start date of a spouse/partner relationship that hasn't ended; exes have none. */
+function edgeAnniversary(edge: GraphEdge): string | undefined {
+	if (edge.type !== 'spouse' && edge.type !== 'partner') return undefined
+	if (edge.qualifier === 'ex' || edge.end_date) return undefined
+	return edge.start_date ?? undefined
+}
+
 /** Related names for one focal node, from direct edges plus derived siblings. */
 export function relatedNamesForFocus(
 	focusKey: string,
@@ -1038,17 +1208,18 @@ export function relatedNamesForFocus(
 ): Array<RelatedName> {
 	const related: Array<RelatedName> = []
 	const seen = new Set<string>()
-	const push = (label: string, otherKey: string) => {
+	const push = (label: string, otherKey: string, anniversary?: string) => {
 		const name = names.get(otherKey)
 		if (!name) return
 		const dedupeKey = `${label}|${name}`
 		if (seen.has(dedupeKey)) return
 		seen.add(dedupeKey)
-		related.push({ label, name })
+		related.push(anniversary ? { label, name, anniversary } : { label, name })
 	}
 	for (const edge of edges) {
-		if (edge.a === focusKey) push(relatedNameLabel(edge.type, edge.qualifier, edge.type === 'parent'), edge.b)
-		else if (edge.b === focusKey) push(relatedNameLabel(edge.type, edge.qualifier, false), edge.a)
+		const anniversary = edgeAnniversary(edge)
+		if (edge.a === focusKey) push(relatedNameLabel(edge.type, edge.qualifier, true), edge.b, anniversary)
+		else if (edge.b === focusKey) push(relatedNameLabel(edge.type, edge.qualifier, false), edge.a, anniversary)
 	}
 	for (const pair of derivedSiblings) {
 		if (pair.a === focusKey) push('sibling', pair.b)
@@ -1087,6 +1258,12 @@ export function expandToComponents(edges: Array<GraphEdge>, seedContactIds: Arra
 
 const RELATED_GROUP_PREFIX = /^screl\d+\./i
 
+/** RFC 6350 basic date; "--MMDD" when the stored year is a no-year placeholder. */
+function vcard4Date(date: string): string {
+	const [year, month, day] = date.split('-')
+	return Number(year) > NO_YEAR_MAX ? `${year}${month}${day}` : `--${month}${day}`
+}
+
 function sanitizeVCardValue(value: string): string {
 	return value.replace(/[\r\n]+/g, ' ').trim()
 }
@@ -1114,6 +1291,16 @@ export function injectRelatedNames(vcard: string, related: Array<RelatedName>):
 		additions.push(`screl${index + 1}.X-ABRELATEDNAMES:${sanitizeVCardValue(entry.name)}`)
 		additions.push(`screl${index + 1}.X-ABLabel:${sanitizeVCardValue(entry.label)}`)
 	})
+	const anniversaries = related.flatMap(entry => (entry.anniversary ? [entry.anniversary] : [])).sort()
+	if (anniversaries.length > 0 && kept.some(line => /^VERSION:4\.0$/i.test(line.trim()))) {
+		// ANNIVERSARY may appear only once; the most recent relationship wins.
+		additions.push(`screl${related.length + 1}.ANNIVERSARY:${vcard4Date(anniversaries[anniversaries.length - 1])}`)
+	} else {
+		anniversaries.forEach((date, index) => {
+			additions.push(`screl${related.length + index + 1}.X-ABDATE:${date}`)
+			additions.push(`screl${related.length + index + 1}.X-ABLabel:_$!<Anniversary>!$_`)
+		})
+	}
 
 	// Drop a trailing empty line so the insert lands directly before END:VCARD
 	// and repeated injections stay byte-identical.
@@ -1124,19 +1311,25 @@ export function injectRelatedNames(vcard: string, related: Array<RelatedName>):
 	return kept.join('\r\n')
 }
 
-async function loadAllGraphEdges(): Promise<Array<GraphEdge>> {
-	const pool = getPool()
+async function loadAllGraphEdges(client?: PoolClient): Promise<Array<GraphEdge>> {
+	const pool = client ?? getPool()
 	const result = await pool.query('SELECT * FROM contact_relationships')
 	return (result.rows as Array<RelationshipRow>).map(row => ({
 		id: row.id,
 		type: row.type,
 		qualifier: row.qualifier,
+		start_date: row.start_date ?? null,
+		end_date: row.end_date ?? null,
 		a: refKey(endpointA(row)),
 		b: refKey(endpointB(row)),
 	}))
 }
 
-async function relatedNamesFromEdges(edges: Array<GraphEdge>, contactIds?: Array<string>): Promise<Map<string, Array<RelatedName>>> {
+async function relatedNamesFromEdges(
+	edges: Array<GraphEdge>,
+	contactIds?: Array<string>,
+	client?: PoolClient
+): Promise<Map<string, Array<RelatedName>>> {
 	const derived = deriveSiblings(edges)
 	const refs: Array<NodeRef> = []
 	const refKeys = new Set<string>()
@@ -1148,7 +1341,7 @@ async function relatedNamesFromEdges(edges: Array<GraphEdge>, contactIds?: Array
 			if (ref) refs.push(ref)
 		}
 	}
-	const names = await getEndpointNames(refs)
+	const names = await getEndpointNames(refs, client)
 	const focusIds = contactIds ?? refs.filter(ref => ref.kind === 'contact').map(ref => ref.id)
 	const result = new Map<string, Array<RelatedName>>()
 	for (const id of focusIds) {
@@ -1158,8 +1351,8 @@ async function relatedNamesFromEdges(edges: Array<GraphEdge>, contactIds?: Array
 }
 
 /** Related names for a set of contacts (or every related contact when omitted). */
-export async function getRelatedNamesByContact(contactIds?: Array<string>): Promise<Map<string, Array<RelatedName>>> {
-	return relatedNamesFromEdges(await loadAllGraphEdges(), contactIds)
+export async function getRelatedNamesByContact(contactIds?: Array<string>, client?: PoolClient): Promise<Map<string, Array<RelatedName>>> {
+	return relatedNamesFromEdges(await loadAllGraphEdges(client), contactIds, client)
 }
 
 /**
@@ -1168,11 +1361,11 @@ export async function getRelatedNamesByContact(contactIds?: Array<string>): Prom
  * vCard is already correct. Cheap for the common case - contacts without
  * edges only cost one indexed existence check.
  */
-export async function maybeInjectRelatedNames(contactId: string, vcard: string): Promise<string | null> {
+export async function maybeInjectRelatedNames(contactId: string, vcard: string, client?: PoolClient): Promise<string | null> {
 	if (!(await relationshipsEnabled())) return null
-	const pool = getPool()
+	const pool = client ?? getPool()
 	const hasEdges = await pool.query('SELECT 1 FROM contact_relationships WHERE a_contact_id = $1 OR b_contact_id = $1 LIMIT 1', [contactId])
-	const related = hasEdges.rowCount === 0 ? [] : ((await getRelatedNamesByContact([contactId])).get(contactId) ?? [])
+	const related = hasEdges.rowCount === 0 ? [] : ((await getRelatedNamesByContact([contactId], client)).get(contactId) ?? [])
 	const injected = injectRelatedNames(vcard, related)
 	return injected === vcard ? null : injected
 }
@@ -1184,22 +1377,22 @@ export async function maybeInjectRelatedNames(contactId: string, vcard: string):
  * endpoints, so the whole component is refreshed - the contacts trigger
  * bumps updated_at, which queues the Radicale push.
  */
-export async function refreshRelatedNamesVcards(seedContactIds: Array<string>): Promise<number> {
+export async function refreshRelatedNamesVcards(seedContactIds: Array<string>, client?: PoolClient): Promise<number> {
 	const seeds = [...new Set(seedContactIds)]
 	if (seeds.length === 0) return 0
 	const { getContactById, updateContact } = await import('./db')
 	const { generateVCard } = await import('./vcard')
-	const edges = await loadAllGraphEdges()
+	const edges = await loadAllGraphEdges(client)
 	const affected = expandToComponents(edges, seeds)
-	const relatedByContact = await relatedNamesFromEdges(edges, [...affected])
+	const relatedByContact = await relatedNamesFromEdges(edges, [...affected], client)
 	let changed = 0
 	for (const contactId of affected) {
-		const contact = await getContactById(contactId)
+		const contact = await getContactById(contactId, false, client)
 		if (!contact) continue
 		const base = contact.vcard_data || generateVCard(contact)
 		const next = injectRelatedNames(base, relatedByContact.get(contactId) ?? [])
 		if (next !== contact.vcard_data) {
-			await updateContact(contactId, { vcard_data: next })
+			await updateContact(contactId, { vcard_data: next }, client)
 			changed++
 		}
 	}
@@ -1222,5 +1415,14 @@ export function describeRelationship(type: RelationshipType, qualifier: string |
 			return 'partner'
 		case 'sibling':
 			return `${qualifierPrefix}sibling`
+		default:
+			return catalogLabel(type, fromParentSide)
 	}
 }
+
+/** History sentence for an edge: "A is a manager of B", "A and B are friends". */
+export function describeEdge(row: Pick<RelationshipRow, 'type' | 'qualifier'>, aName: string, bName: string): string {
+	if (isSymmetricType(row.type)) return `${aName} and ${bName} are ${describeRelationship(row.type, row.qualifier, false)}s`
+	const label = describeRelationship(row.type, row.qualifier, false)
+	return `${aName} is ${/^[aeiou]/i.test(label) ? 'an' : 'a'} ${label} of ${bName}`
+}
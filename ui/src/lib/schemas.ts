@@ -1,4 +1,8 @@
 import { z } from 'zod'
+import { getRelationshipTypeDefinition } from './relationship-types'
+import { CSV_IMPORT_FIELDS } from './csv'
+import { BULK_EDIT_FIELDS, BULK_EDIT_OPERATIONS } from './bulk-edit-fields'
+import type { BulkEditField } from './bulk-edit-fields'
 
 // ---------------------------------------------------------------------------
 // Shared field schemas
@@ -15,6 +19,14 @@ export const CustomFieldSchema = z.object({
 	params: z.array(z.string()).optional(),
 })
 
+/** A real calendar date as "YYYY-MM-DD" (rejects e.g. 2024-02-30, which Postgres would too). */
+export const DateOnlySchema = z.string().refine(value => {
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+	if (!match) return false
+	const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+	return date.toISOString().slice(0, 10) === value
+}, 'Expected a YYYY-MM-DD date')
+
 // ---------------------------------------------------------------------------
 // Contact schemas
 // ---------------------------------------------------------------------------
@@ -84,6 +96,10 @@ export const MergeContactsSchema = z.object({
 	contactIds: z.array(z.string()).min(2, 'At least 2 contacts are required to merge'),
 })
 
+export const BulkDeleteSchema = z.object({
+	contact_ids: z.array(z.string()).min(1, 'contact_ids must be a non-empty array'),
+})
+
 export const BulkBooksSchema = z
 	.object({
 		contact_ids: z.array(z.string()).min(1, 'contact_ids must be a non-empty array'),
@@ -94,6 +110,68 @@ export const BulkBooksSchema = z
 		message: 'Provide at least one of add_to_book_ids or remove_from_book_ids',
 	})
 
+// CATEGORIES separates tags with commas, so a tag can't contain one.
+const TagNameSchema = z
+	.string()
+	.trim()
+	.min(1, 'Tag cannot be empty')
+	.max(100, 'Tag is too long')
+	.refine(tag => !tag.includes(','), { message: 'Tags cannot contain commas' })
+
+export const BulkTagsSchema = z
+	.object({
+		contact_ids: z.array(z.string()).min(1, 'contact_ids must be a non-empty array'),
+		add: z.array(TagNameSchema).optional().default([]),
+		remove: z.array(TagNameSchema).optional().default([]),
+	})
+	.refine(data => data.add.length > 0 || data.remove.length > 0, {
+		message: 'Provide at least one tag to add or remove',
+	})
+
+const BulkEditChangeSchema = z
+	.object({
+		field: z.enum(Object.keys(BULK_EDIT_FIELDS) as [BulkEditField, ...Array<BulkEditField>]),
+		operation: z.enum(BULK_EDIT_OPERATIONS),
+		value: z.string().trim().max(10000, 'Value is too long').optional(),
+	})
+	.refine(change => change.operation === 'clear' || !!change.value, {
+		message: 'A value is required unless the field is cleared',
+		path: ['value'],
+	})
+
+export const BulkEditSchema = z.object({
+	contact_ids: z.array(z.string()).min(1, 'contact_ids must be a non-empty array'),
+	changes: z.array(BulkEditChangeSchema).min(1, 'Provide at least one change'),
+	/** Return the affected contacts without saving. */
+	preview: z.boolean().optional().default(false),
+})
+
+export const UpdateTagSchema = z.object({
+	tag: TagNameSchema,
+	/** Renames the tag on every contact. */
+	name: TagNameSchema.optional(),
+	color: z
+		.string()
+		.regex(/^#[0-9a-fA-F]{6}$/, 'Color must be #rrggbb')
+		.nullable()
+		.optional(),
+})
+
+export const MergeTagsSchema = z.object({
+	sources: z.array(TagNameSchema).min(1, 'Pick at least one tag to merge'),
+	target: TagNameSchema,
+})
+
+export const ResolveSyncConflictSchema = z.object({
+	choices: z
+		.record(z.string(), z.enum(['db', 'radicale', 'both']))
+		.refine(choices => Object.keys(choices).length > 0, { message: 'Pick a value for at least one field' }),
+})
+
+export const ResyncSchema = z.object({
+	source: z.enum(['radicale', 'db']),
+})
+
 // ---------------------------------------------------------------------------
 // Address books
 // ---------------------------------------------------------------------------
@@ -111,6 +189,28 @@ export const UpdateAddressBookSchema = z.object({
 	readonly_password: z.string().optional(),
 })
 
+export const CreateSmartGroupSchema = z.object({
+	name: z.string().trim().min(1, 'Name is required'),
+	query: z.string().trim().min(1, 'Query is required'),
+	password: z.string().optional(),
+})
+
+export const UpdateSmartGroupSchema = z.object({
+	name: z.string().trim().min(1, 'Name cannot be empty').optional(),
+	query: z.string().trim().min(1, 'Query cannot be empty').optional(),
+	password: z.string().optional(),
+})
+
+export const CreateContactGroupSchema = z.object({
+	name: z.string().trim().min(1, 'Name is required'),
+	member_ids: z.array(z.string().uuid()).optional(),
+})
+
+export const UpdateContactGroupSchema = z.object({
+	name: z.string().trim().min(1, 'Name cannot be empty').optional(),
+	member_ids: z.array(z.string().uuid()).optional(),
+})
+
 // ---------------------------------------------------------------------------
 // Radicale users (proxied to sync-service)
 // ---------------------------------------------------------------------------
@@ -120,6 +220,39 @@ export const CreateRadicaleUserSchema = z.object({
 	password: z.string().min(1, 'Password is required'),
 })
 
+// ---------------------------------------------------------------------------
+// Auth
+// ---------------------------------------------------------------------------
+
+export const LoginSchema = z.object({
+	email: z.string().trim().min(1, 'Email is required'),
+	password: z.string().min(1, 'Password is required'),
+})
+
+export const SetupOwnerSchema = z.object({
+	name: z.string().trim().max(200).nullish(),
+	email: z.string().trim().email('A valid email is required'),
+	password: z.string().min(8, 'Password must be at least 8 characters'),
+})
+
+const RoleAssignmentSchema = z.object({
+	address_book_id: z.string().uuid().nullable(),
+	role: z.enum(['viewer', 'editor', 'owner']),
+})
+
+export const CreateUserSchema = z.object({
+	name: z.string().trim().max(200).nullish(),
+	email: z.string().trim().email('A valid email is required'),
+	password: z.string().min(8, 'Password must be at least 8 characters'),
+	roles: z.array(RoleAssignmentSchema).default([]),
+})
+
+export const UpdateUserSchema = z.object({
+	name: z.string().trim().max(200).nullish(),
+	password: z.string().min(8, 'Password must be at least 8 characters').optional(),
+	roles: z.array(RoleAssignmentSchema).optional(),
+})
+
 // ---------------------------------------------------------------------------
 // Pagination
 // ---------------------------------------------------------------------------
@@ -155,10 +288,82 @@ export const RelationshipEndpointSchema = z
 export const CreateRelationshipSchema = z.object({
 	a: RelationshipEndpointSchema,
 	b: RelationshipEndpointSchema,
-	type: z.enum(['parent', 'spouse', 'partner', 'sibling']),
+	type: z.string().refine(type => getRelationshipTypeDefinition(type) !== null, 'Unknown relationship type'),
 	qualifier: z.string().trim().max(40).nullish(),
 })
 
-export const UpdateRelationshipSchema = z.object({
-	qualifier: z.string().trim().max(40).nullable(),
+export const UpdateRelationshipSchema = z
+	.object({
+		qualifier: z.string().trim().max(40).nullable().optional(),
+		start_date: DateOnlySchema.nullable().optional(),
+		end_date: DateOnlySchema.nullable().optional(),
+	})
+	.refine(data => data.qualifier !== undefined || data.start_date !== undefined || data.end_date !== undefined, {
+		message: 'Provide qualifier, start_date or end_date',
+	})
+
+export const UpdatePlaceholderSchema = z
+	.object({
+		birth_year: relationshipYear,
+		death_year: relationshipYear,
+		birth_date: DateOnlySchema.nullable().optional(),
+		death_date: DateOnlySchema.nullable().optional(),
+	})
+	.refine(
+		data =>
+			data.birth_year !== undefined || data.death_year !== undefined || data.birth_date !== undefined || data.death_date !== undefined,
+		{
+			message: 'Provide birth_year, death_year, birth_date or death_date',
+		}
+	)
+
+// ---------------------------------------------------------------------------
+// Sync
+// ---------------------------------------------------------------------------
+
+export const StartSyncSchema = z.object({
+	direction: z.enum(['both', 'radicale-to-db', 'db-to-radicale']).optional().default('both'),
 })
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const importFieldKeys = new Set(CSV_IMPORT_FIELDS.map(field => field.key))
+
+const MatchStrategySchema = z.enum(['overwrite', 'fill_empty', 'skip', 'create'])
+
+/** Options sent as form fields alongside an uploaded file. */
+export const ImportOptionsSchema = z.object({
+	/** Books new contacts go into; empty means the default book. */
+	address_book_ids: z.array(z.string()).optional(),
+	match_strategy: MatchStrategySchema.optional(),
+})
+
+export const UpdateImportSessionSchema = z
+	.object({
+		/** One field key (or null to ignore the column) per CSV column. */
+		column_mapping: z
+			.array(
+				z
+					.string()
+					.refine(key => importFieldKeys.has(key), 'Unknown import field')
+					.nullable()
+			)
+			.optional(),
+		/** Row or card number to its outcome; null returns the row to the detected outcome. */
+		decisions: z.record(z.string().regex(/^\d+$/), z.enum(['create', 'update', 'skip']).nullable()).optional(),
+		/** Null returns to the default book. */
+		address_book_ids: z.array(z.string()).nullable().optional(),
+		match_strategy: MatchStrategySchema.optional(),
+	})
+	.refine(
+		data =>
+			data.column_mapping !== undefined ||
+			data.decisions !== undefined ||
+			data.address_book_ids !== undefined ||
+			data.match_strategy !== undefined,
+		{
+			message: 'Provide column_mapping, decisions, address_book_ids or match_strategy',
+		}
+	)
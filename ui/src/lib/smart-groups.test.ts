@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { functionExists, getPool } from './db'
+import { ContactQueryError } from './contact-query'
+import { createSmartGroup, listSmartGroups, updateSmartGroup } from './smart-groups'
+
+vi.mock('./db', () => ({
+	attachAddressBooks: vi.fn(),
+	functionExists: vi.fn(),
+	getPool: vi.fn(),
+	parseContactRow: (row: unknown) => row,
+	tableExists: vi.fn(),
+}))
+
+const GROUP_ID = '5c9e1f0a-3b2d-4c8e-9f7a-6d5e4c3b2a19'
+
+describe('smart groups', () => {
+	const query = vi.fn()
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(getPool).mockReturnValue({ query } as never)
+		vi.mocked(functionExists).mockResolvedValue(true)
+		query.mockImplementation((sql: string) =>
+			Promise.resolve(
+				sql.startsWith('SELECT COUNT') ? { rows: [{ 0: '4' }] } : { rows: [{ id: GROUP_ID, name: 'Family', query: 'q', filter_terms: [] }] }
+			)
+		)
+	})
+
+	it('stores the parsed terms and reports the member count', async () => {
+		const group = await createSmartGroup({ name: 'Family birthdays', query: 'book:family has:birthday ada' })
+
+		const [sql, params] = query.mock.calls[0] as [string, Array<unknown>]
+		expect(sql).toContain('INSERT INTO smart_groups (name, query, filter_terms, password_hash)')
+		const [name, savedQuery, terms, hash] = params as [string, string, string, string]
+		expect([name, savedQuery]).toEqual(['Family birthdays', 'book:family has:birthday ada'])
+		expect(JSON.parse(terms)).toEqual([
+			{ kind: 'qualifier', qualifier: 'book', value: 'family', negated: false },
+			{ kind: 'qualifier', qualifier: 'has', value: 'birthday', negated: false },
+			{ kind: 'text', value: 'ada', negated: false },
+		])
+		expect(hash).toMatch(/^\$2[aby]\$10\$/)
+
+		expect(query.mock.calls[1][0]).toBe('SELECT COUNT(*) FILTER (WHERE (true)) AS "0" FROM contacts WHERE deleted_at IS NULL')
+		expect(group).toMatchObject({ id: GROUP_ID, member_count: 4, readonly_username: `ro-${GROUP_ID}` })
+	})
+
+	it('rejects a query that does not compile', async () => {
+		await expect(createSmartGroup({ name: 'Bad', query: 'born:someday' })).rejects.toThrow(ContactQueryError)
+		expect(query).not.toHaveBeenCalled()
+	})
+
+	it('counts every group in one query', async () => {
+		query.mockImplementation((sql: string) =>
+			Promise.resolve(
+				sql.startsWith('SELECT COUNT')
+					? { rows: [{ 0: '2', 1: '0' }] }
+					: {
+							rows: [
+								{ id: 'g-1', name: 'Family', query: 'book:family', filter_terms: null },
+								{
+									id: 'g-2',
+									name: 'Empty',
+									query: '"&!"',
+									filter_terms: [{ kind: 'text', value: '&!', negated: false }],
+								},
+							],
+						}
+			)
+		)
+
+		const groups = await listSmartGroups()
+
+		const counts = query.mock.calls.filter(([sql]) => String(sql).startsWith('SELECT COUNT'))
+		expect(counts).toHaveLength(1)
+		const [sql, params] = counts[0] as [string, Array<unknown>]
+		expect(sql).toContain('ab.slug = $1')
+		expect(sql).toContain('COUNT(*) FILTER (WHERE (false)) AS "1"')
+		expect(params).toEqual(['family'])
+		expect(groups.map(group => group.member_count)).toEqual([2, 0])
+	})
+
+	it('only touches the given fields on update', async () => {
+		await updateSmartGroup(GROUP_ID, { name: 'Renamed' })
+		expect(query.mock.calls[0]).toEqual(['UPDATE smart_groups SET name = $1 WHERE id = $2 RETURNING *', ['Renamed', GROUP_ID]])
+	})
+})
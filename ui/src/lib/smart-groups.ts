@@ -0,0 +1,135 @@
+import crypto from 'node:crypto'
+import bcrypt from 'bcryptjs'
+import { functionExists, getPool, tableExists } from './db'
+import { compileContactFilter, compileContactQuery, parseContactQuery } from './contact-query'
+import type { QueryTerm } from './contact-query'
+
+// Smart groups: saved contact searches that the sync service publishes to
+// CardDAV as read-only address books (see migrations/30_smart_groups.sql).
+// The query is parsed here on every save and stored as terms; this module and
+// the sync service compile them with shared/contact-filter.ts whenever they
+// run a group, so membership follows contact edits.
+
+const READONLY_USERNAME_PREFIX = 'ro-'
+
+export interface SmartGroup {
+	id: string
+	name: string
+	query: string
+	/** Contacts currently matching the query. */
+	member_count: number
+	/** CardDAV user that reads the group's collection. */
+	readonly_username: string
+	created_at: Date
+	updated_at: Date
+}
+
+export interface SmartGroupInput {
+	name: string
+	query: string
+	/** Subscription password; a random one when omitted on create, unchanged when omitted on update. */
+	password?: string
+}
+
+export async function smartGroupsEnabled(): Promise<boolean> {
+	return tableExists('smart_groups')
+}
+
+async function hashPassword(password: string | undefined): Promise<string> {
+	return bcrypt.hash(password || crypto.randomBytes(32).toString('hex'), 10)
+}
+
+type SmartGroupRow = Omit<SmartGroup, 'member_count' | 'readonly_username'> & { filter_terms: Array<QueryTerm> | null }
+
+/** Groups saved before migration 38 have no stored terms, only their query. */
+function groupTerms(row: SmartGroupRow): Array<QueryTerm> {
+	return row.filter_terms ?? parseContactQuery(row.query)
+}
+
+/** Parse a query for saving. Compiling it once rejects values such as born:someday; throws ContactQueryError. */
+function parseGroupQuery(query: string): string {
+	const terms = parseContactQuery(query)
+	compileContactQuery(terms, () => 'NULL')
+	return JSON.stringify(terms)
+}
+
+/** Count every group's members in one pass over contacts, one FILTER aggregate per group. */
+async function withMemberCounts(rows: Array<SmartGroupRow>): Promise<Array<SmartGroup>> {
+	if (rows.length === 0) return []
+	const params: Array<unknown> = []
+	const param = (value: unknown) => {
+		params.push(value)
+		return `$${params.length}`
+	}
+	const fullTextSearch = await functionExists('contact_search_vector')
+	const counts = rows.map(
+		(row, index) => `COUNT(*) FILTER (WHERE ${compileContactFilter(groupTerms(row), param, fullTextSearch)}) AS "${index}"`
+	)
+	const result = await getPool().query(`SELECT ${counts.join(', ')} FROM contacts WHERE deleted_at IS NULL`, params)
+	return rows.map((row, index) => ({
+		id: row.id,
+		name: row.name,
+		query: row.query,
+		member_count: parseInt(result.rows[0][index], 10),
+		readonly_username: `${READONLY_USERNAME_PREFIX}${row.id}`,
+		created_at: row.created_at,
+		updated_at: row.updated_at,
+	}))
+}
+
+async function withMemberCount(row: SmartGroupRow): Promise<SmartGroup> {
+	const [group] = await withMemberCounts([row])
+	return group
+}
+
+export async function listSmartGroups(): Promise<Array<SmartGroup>> {
+	const result = await getPool().query<SmartGroupRow>('SELECT * FROM smart_groups ORDER BY name')
+	return withMemberCounts(result.rows)
+}
+
+export async function getSmartGroup(id: string): Promise<SmartGroup | null> {
+	const result = await getPool().query<SmartGroupRow>('SELECT * FROM smart_groups WHERE id = $1', [id])
+	return result.rows[0] ? withMemberCount(result.rows[0]) : null
+}
+
+/** Throws ContactQueryError when the query does not compile. */
+export async function createSmartGroup(input: SmartGroupInput): Promise<SmartGroup> {
+	const terms = parseGroupQuery(input.query)
+	const result = await getPool().query<SmartGroupRow>(
+		`INSERT INTO smart_groups (name, query, filter_terms, password_hash)
+		 VALUES ($1, $2, $3, $4)
+		 RETURNING *`,
+		[input.name, input.query, terms, await hashPassword(input.password)]
+	)
+	return withMemberCount(result.rows[0])
+}
+
+/** Throws ContactQueryError when the query does not compile. */
+export async function updateSmartGroup(id: string, input: Partial<SmartGroupInput>): Promise<SmartGroup | null> {
+	const sets: Array<string> = []
+	const values: Array<unknown> = []
+	const set = (column: string, value: unknown) => {
+		values.push(value)
+		sets.push(`${column} = $${values.length}`)
+	}
+	if (input.name !== undefined) set('name', input.name)
+	if (input.query !== undefined) {
+		const terms = parseGroupQuery(input.query)
+		set('query', input.query)
+		set('filter_terms', terms)
+	}
+	if (input.password) set('password_hash', await hashPassword(input.password))
+	if (sets.length === 0) return getSmartGroup(id)
+
+	values.push(id)
+	const result = await getPool().query<SmartGroupRow>(
+		`UPDATE smart_groups SET ${sets.join(', ')} WHERE id = $${values.length} RETURNING *`,
+		values
+	)
+	return result.rows[0] ? withMemberCount(result.rows[0]) : null
+}
+
+export async function deleteSmartGroup(id: string): Promise<boolean> {
+	const result = await getPool().query('DELETE FROM smart_groups WHERE id = $1', [id])
+	return (result.rowCount ?? 0) > 0
+}
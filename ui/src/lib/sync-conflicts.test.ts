@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { applyConflictChoices, differingFields, invalidConflictChoice } from './sync-conflicts'
+import type { Contact } from './db'
+
+const db: Partial<Contact> = {
+	full_name: 'Ana Núñez',
+	phones: [{ value: '+15550001', type: 'CELL' }],
+	emails: [{ value: 'ana@example.com', type: 'HOME' }],
+	job_title: 'Engineer',
+	notes: 'Met at the conference',
+	categories: null,
+}
+
+const radicale: Partial<Contact> = {
+	full_name: 'Ana Núñez',
+	phones: [{ value: '+15550002', type: 'CELL' }],
+	emails: [{ value: 'ANA@example.com ', type: 'HOME' }],
+	job_title: 'Manager',
+	notes: '',
+	categories: [],
+}
+
+describe('differingFields', () => {
+	it('lists fields whose values differ, treating empty values as equal', () => {
+		expect(differingFields(db, radicale)).toEqual(['phones', 'emails', 'job_title', 'notes'])
+	})
+
+	it('handles a missing version', () => {
+		expect(differingFields(null, { nickname: 'Ana' })).toEqual(['nickname'])
+	})
+})
+
+describe('applyConflictChoices', () => {
+	it('takes the chosen side per field and keeps the legacy columns in step', () => {
+		expect(applyConflictChoices(db, radicale, { phones: 'radicale', job_title: 'db' })).toEqual({
+			phones: [{ value: '+15550002', type: 'CELL' }],
+			phone: '+15550002',
+			job_title: 'Engineer',
+		})
+	})
+
+	it('keeps both by merging list entries without duplicates', () => {
+		expect(applyConflictChoices(db, radicale, { phones: 'both', emails: 'both' })).toEqual({
+			phones: [
+				{ value: '+15550001', type: 'CELL' },
+				{ value: '+15550002', type: 'CELL' },
+			],
+			phone: '+15550001',
+			emails: [{ value: 'ana@example.com', type: 'HOME' }],
+			email: 'ana@example.com',
+		})
+	})
+
+	it('joins notes when keeping both and drops empty values', () => {
+		expect(applyConflictChoices(db, { notes: 'Prefers email' }, { notes: 'both' })).toEqual({
+			notes: 'Met at the conference\n\nPrefers email',
+		})
+		expect(applyConflictChoices(db, radicale, { notes: 'radicale' })).toEqual({ notes: null })
+	})
+})
+
+describe('invalidConflictChoice', () => {
+	it('rejects unknown fields and keeping both of a single-value field', () => {
+		expect(invalidConflictChoice({ phones: 'both', notes: 'both', full_name: 'db' })).toBeNull()
+		expect(invalidConflictChoice({ vcard_data: 'db' })).toBe('Unknown field: vcard_data')
+		expect(invalidConflictChoice({ job_title: 'both' })).toBe('Cannot keep both values of job_title')
+	})
+})
@@ -0,0 +1,143 @@
+import type { Contact, ContactField } from './db'
+
+/**
+ * Field-by-field resolution for the /conflicts inbox. A conflict stores both
+ * sides' contact fields as the sync service saw them (see
+ * migrations/24_sync_conflict_versions.sql); the inbox shows the ones that
+ * differ and the user picks the web version, the CardDAV version, or - for
+ * repeating fields and notes - both.
+ */
+
+export type ConflictChoice = 'db' | 'radicale' | 'both'
+
+export type ConflictChoices = Record<string, ConflictChoice>
+
+type ConflictVersion = Partial<Contact> | null | undefined
+
+/** Fields compared in the inbox. The legacy single-value columns are derived from the arrays. */
+export const CONFLICT_FIELDS: ReadonlyArray<keyof Contact> = [
+	'full_name',
+	'name_prefix',
+	'first_name',
+	'middle_name',
+	'last_name',
+	'name_suffix',
+	'nickname',
+	'maiden_name',
+	'phones',
+	'emails',
+	'addresses',
+	'urls',
+	'organization',
+	'org_units',
+	'job_title',
+	'role',
+	'birthday',
+	'categories',
+	'notes',
+	'labels',
+	'logos',
+	'sounds',
+	'keys',
+	'mailer',
+	'time_zone',
+	'geo',
+	'agent',
+	'sort_string',
+	'class',
+	'custom_fields',
+]
+
+/** Legacy single-value column kept equal to the first entry of its array. */
+const PRIMARY_VALUE_FIELDS: Partial<Record<keyof Contact, keyof Contact>> = {
+	phones: 'phone',
+	emails: 'email',
+	addresses: 'address',
+	urls: 'homepage',
+}
+
+function isEmpty(value: unknown): boolean {
+	return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+	if (isEmpty(a) && isEmpty(b)) return true
+	return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/** Repeating fields; keeping both merges their entries. */
+const LIST_FIELDS = new Set<string>([
+	'phones',
+	'emails',
+	'addresses',
+	'urls',
+	'org_units',
+	'categories',
+	'labels',
+	'logos',
+	'sounds',
+	'keys',
+	'custom_fields',
+])
+
+/** Lists merge entry by entry and notes are joined; every other field holds one value. */
+export function canKeepBoth(field: string): boolean {
+	return field === 'notes' || LIST_FIELDS.has(field)
+}
+
+export function differingFields(db: ConflictVersion, radicale: ConflictVersion): Array<keyof Contact> {
+	return CONFLICT_FIELDS.filter(field => !sameValue(db?.[field], radicale?.[field]))
+}
+
+function entryKey(entry: unknown): string {
+	if (entry && typeof entry === 'object' && 'value' in entry)
+		return String((entry as ContactField).value)
+			.trim()
+			.toLowerCase()
+	return JSON.stringify(entry)
+}
+
+function keepBoth(field: keyof Contact, db: unknown, radicale: unknown): unknown {
+	if (field === 'notes') {
+		return [db, radicale].filter(value => typeof value === 'string' && value.trim() !== '').join('\n\n') || null
+	}
+	const merged: Array<unknown> = []
+	const seen = new Set<string>()
+	for (const entry of [...((db as Array<unknown> | null) ?? []), ...((radicale as Array<unknown> | null) ?? [])]) {
+		const key = entryKey(entry)
+		if (seen.has(key)) continue
+		seen.add(key)
+		merged.push(entry)
+	}
+	return merged.length > 0 ? merged : null
+}
+
+/** Returns an error message for choices the inbox could not have produced, else null. */
+export function invalidConflictChoice(choices: ConflictChoices): string | null {
+	for (const [field, choice] of Object.entries(choices)) {
+		if (!CONFLICT_FIELDS.includes(field as keyof Contact)) return `Unknown field: ${field}`
+		if (choice === 'both' && !canKeepBoth(field)) return `Cannot keep both values of ${field}`
+	}
+	return null
+}
+
+/**
+ * The contact update for a set of choices. Only the chosen fields are
+ * included, so anything edited since the conflict was recorded is left alone.
+ */
+export function applyConflictChoices(db: ConflictVersion, radicale: ConflictVersion, choices: ConflictChoices): Partial<Contact> {
+	const update: Record<string, unknown> = {}
+	for (const [key, choice] of Object.entries(choices)) {
+		const field = key as keyof Contact
+		const dbValue = db?.[field] ?? null
+		const radicaleValue = radicale?.[field] ?? null
+		const value = choice === 'both' ? keepBoth(field, dbValue, radicaleValue) : choice === 'db' ? dbValue : radicaleValue
+		update[field] = isEmpty(value) ? null : value
+
+		const primaryField = PRIMARY_VALUE_FIELDS[field]
+		if (primaryField) {
+			update[primaryField] = Array.isArray(value) && value.length > 0 ? (value[0] as ContactField).value : null
+		}
+	}
+	return update as Partial<Contact>
+}
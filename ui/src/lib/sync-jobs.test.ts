@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { summarizeSyncJob, waitForSyncJob } from './sync-jobs'
+import type { SyncJob } from './sync-jobs'
+
+const running: SyncJob = {
+	id: 'job-1',
+	direction: 'db-to-radicale',
+	state: 'running',
+	started_at: '2026-01-01T00:00:00.000Z',
+	finished_at: null,
+	error: null,
+	passes: [],
+}
+
+const finished: SyncJob = {
+	...running,
+	state: 'finished',
+	finished_at: '2026-01-01T00:00:02.000Z',
+	passes: [{ direction: 'db-to-radicale', synced: 3, skipped: 10, conflicts: 1 }],
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals()
+})
+
+describe('waitForSyncJob', () => {
+	it('polls until the job is no longer running', async () => {
+		const fetchMock = vi
+			.fn()
+			.mockImplementationOnce(() => Promise.resolve(Response.json(running)))
+			.mockImplementationOnce(() => Promise.resolve(Response.json(finished)))
+		vi.stubGlobal('fetch', fetchMock)
+
+		await expect(waitForSyncJob(running, 0)).resolves.toEqual(finished)
+		expect(fetchMock).toHaveBeenCalledTimes(2)
+		expect(fetchMock).toHaveBeenCalledWith('/api/sync/runs/job-1')
+	})
+
+	it('does not poll a job that already finished', async () => {
+		const fetchMock = vi.fn()
+		vi.stubGlobal('fetch', fetchMock)
+
+		await expect(waitForSyncJob(finished, 0)).resolves.toBe(finished)
+		expect(fetchMock).not.toHaveBeenCalled()
+	})
+
+	it('surfaces the error of a failed status request', async () => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(() => Promise.resolve(Response.json({ error: 'Sync run not found' }, { status: 404 })))
+		)
+
+		await expect(waitForSyncJob(running, 0)).rejects.toThrow('Sync run not found')
+	})
+})
+
+describe('summarizeSyncJob', () => {
+	it('counts synced contacts and conflicts across passes', () => {
+		expect(summarizeSyncJob(finished)).toBe('Sync finished: 3 contacts synced, 1 conflict')
+	})
+
+	it('reports the error of a failed job', () => {
+		expect(summarizeSyncJob({ ...running, state: 'failed', error: 'Radicale unreachable' })).toBe('Sync failed: Radicale unreachable')
+	})
+})
@@ -0,0 +1,64 @@
+/**
+ * Client helpers for on-demand sync runs. The sync service starts a run in the
+ * background and answers with a job; the browser polls /api/sync/runs/$id
+ * until the job is no longer running.
+ */
+
+export type SyncDirection = 'radicale-to-db' | 'db-to-radicale'
+
+/** radicale: re-import the CardDAV copy. db: push the web copy to CardDAV. */
+export type ResyncSource = 'radicale' | 'db'
+
+export interface SyncJob {
+	id: string
+	direction: SyncDirection | 'both'
+	state: 'running' | 'finished' | 'failed'
+	started_at: string
+	finished_at: string | null
+	error: string | null
+	passes: Array<{ direction: SyncDirection; synced: number; skipped: number; conflicts: number }>
+}
+
+export type ResyncTarget = { contactId: string } | { addressBookId: string }
+
+const POLL_INTERVAL_MS = 1000
+const POLL_TIMEOUT_MS = 5 * 60_000
+
+async function readJob(response: Response, fallback: string): Promise<SyncJob> {
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || fallback)
+	}
+	return response.json()
+}
+
+export async function startResync(target: ResyncTarget, source: ResyncSource): Promise<SyncJob> {
+	const path = 'contactId' in target ? `/api/contacts/${target.contactId}/resync` : `/api/address-books/${target.addressBookId}/resync`
+	const response = await fetch(path, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ source }),
+	})
+	return readJob(response, 'Failed to start resync')
+}
+
+/** Poll a job until it finishes or fails. Resolves with the final job either way. */
+export async function waitForSyncJob(job: SyncJob, intervalMs = POLL_INTERVAL_MS, timeoutMs = POLL_TIMEOUT_MS): Promise<SyncJob> {
+	const deadline = Date.now() + timeoutMs
+	let current = job
+	while (current.state === 'running') {
+		if (Date.now() > deadline) throw new Error('Sync is still running; check the Sync page for the result')
+		await new Promise(resolve => setTimeout(resolve, intervalMs))
+		current = await readJob(await fetch(`/api/sync/runs/${current.id}`), 'Failed to fetch sync status')
+	}
+	return current
+}
+
+export function summarizeSyncJob(job: SyncJob): string {
+	if (job.state === 'failed') return `Sync failed: ${job.error ?? 'unknown error'}`
+	const synced = job.passes.reduce((total, pass) => total + pass.synced, 0)
+	const conflicts = job.passes.reduce((total, pass) => total + pass.conflicts, 0)
+	const parts = [`${synced} ${synced === 1 ? 'contact' : 'contacts'} synced`]
+	if (conflicts > 0) parts.push(`${conflicts} ${conflicts === 1 ? 'conflict' : 'conflicts'}`)
+	return `Sync finished: ${parts.join(', ')}`
+}
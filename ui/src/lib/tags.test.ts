@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getContactsByIds, getPool, tableExists, updateContact } from './db'
+import { recordHistory } from './history'
+import { bulkEditTags, mergeTags, normalizeTags } from './tags'
+import type { Contact } from './db'
+
+vi.mock('./db', () => ({
+	getContactsByIds: vi.fn(),
+	getPool: vi.fn(),
+	tableExists: vi.fn(),
+	updateContact: vi.fn(),
+}))
+
+vi.mock('./history', () => ({
+	recordHistory: vi.fn(),
+}))
+
+const ACTOR = { actor: 'ada@example.com', actorType: 'user' as const, userAgent: null, clientIp: null, source: 'web' as const }
+
+function contact(id: string, categories: Array<string> | null): Contact {
+	return { id, full_name: `Contact ${id}`, vcard_id: `uid-${id}`, categories } as Contact
+}
+
+describe('tags', () => {
+	const query = vi.fn()
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(getPool).mockReturnValue({ query } as never)
+		vi.mocked(tableExists).mockResolvedValue(false)
+		query.mockResolvedValue({ rows: [{ id: 'a' }, { id: 'b' }] })
+		vi.mocked(updateContact).mockImplementation((id, data) => Promise.resolve({ ...contact(id, null), ...data } as Contact))
+	})
+
+	it('normalizes tags case-insensitively, keeping the first spelling', () => {
+		expect(normalizeTags([' Work ', 'work', '', 'Family', 'WORK'])).toEqual(['Work', 'Family'])
+	})
+
+	it('renames a tag everywhere, regenerating the vCard and recording history', async () => {
+		vi.mocked(getContactsByIds).mockResolvedValue([contact('a', ['Friends', 'work']), contact('b', ['Work', 'Office'])])
+
+		const updated = await mergeTags(['work'], 'Office', ACTOR)
+
+		expect(updated).toBe(2)
+		expect(query.mock.calls[0][1]).toEqual([['work']])
+		const [firstId, firstData] = vi.mocked(updateContact).mock.calls[0]
+		expect(firstId).toBe('a')
+		expect(firstData).toMatchObject({ categories: ['Friends', 'Office'], sync_source: 'api', last_synced_to_radicale_at: null })
+		expect(firstData.vcard_data).toContain('CATEGORIES:Friends,Office')
+		// Merging into a tag the contact already has leaves one copy.
+		expect(vi.mocked(updateContact).mock.calls[1][1]).toMatchObject({ categories: ['Office'] })
+
+		const history = vi.mocked(recordHistory).mock.calls.map(call => call[0])
+		expect(history).toHaveLength(2)
+		expect(history[0]).toMatchObject({
+			contactId: 'a',
+			operation: 'update',
+			source: 'web',
+			actor: 'ada@example.com',
+			summary: 'Renamed tag "work" to "Office": Contact a',
+		})
+		expect(history[0].batchId).toBe(history[1].batchId)
+	})
+
+	it('adds and removes tags on the selection, skipping unchanged contacts', async () => {
+		vi.mocked(getContactsByIds).mockResolvedValue([contact('a', ['Old']), contact('b', ['new'])])
+
+		const updated = await bulkEditTags(['a', 'b'], { add: ['New'], remove: ['old'] }, ACTOR)
+
+		expect(updated).toBe(1)
+		expect(vi.mocked(updateContact).mock.calls).toHaveLength(1)
+		expect(vi.mocked(updateContact).mock.calls[0][1]).toMatchObject({ categories: ['New'] })
+		expect(vi.mocked(recordHistory).mock.calls[0][0].summary).toBe('Tags added "New" and removed "old": Contact a')
+	})
+
+	it('clears categories when the last tag is removed', async () => {
+		vi.mocked(getContactsByIds).mockResolvedValue([contact('a', ['Old'])])
+
+		await bulkEditTags(['a'], { add: [], remove: ['Old'] }, ACTOR)
+
+		const data = vi.mocked(updateContact).mock.calls[0][1]
+		expect(data.categories).toBeNull()
+		expect(data.vcard_data).not.toContain('CATEGORIES')
+	})
+})
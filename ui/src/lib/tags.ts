@@ -0,0 +1,188 @@
+import crypto from 'node:crypto'
+import { getContactsByIds, getPool, tableExists, updateContact } from './db'
+import { recordHistory } from './history'
+import { generateVCard } from './vcard'
+import type { Contact } from './db'
+import type { HistoryEntryInput } from './history'
+
+// Tags are the entries of contacts.categories (vCard CATEGORIES) and compare
+// case-insensitively, like the tag: search qualifier. Every change rewrites
+// the affected contacts' vcard_data so phones pick it up on the next sync,
+// and records one contact_history entry per contact, grouped by batch_id.
+// Colors live in tag_colors (migrations/32_tag_colors.sql).
+
+export interface TagSummary {
+	/** The most common spelling across contacts. */
+	name: string
+	/** Contacts carrying the tag. */
+	count: number
+	/** #rrggbb, or null when no color was picked. */
+	color: string | null
+}
+
+export type TagActor = Pick<HistoryEntryInput, 'actor' | 'actorType' | 'userAgent' | 'clientIp' | 'source'>
+
+const CATEGORY_ELEMENTS = `jsonb_array_elements_text(CASE WHEN jsonb_typeof(c.categories) = 'array' THEN c.categories ELSE '[]'::jsonb END)`
+
+function tagKey(name: string): string {
+	return name.trim().toLowerCase()
+}
+
+/** Trim, drop empties and drop case-insensitive duplicates, keeping the first spelling. */
+export function normalizeTags(tags: Array<string>): Array<string> {
+	const seen = new Set<string>()
+	const out: Array<string> = []
+	for (const tag of tags) {
+		const trimmed = tag.trim()
+		if (!trimmed || seen.has(tagKey(trimmed))) continue
+		seen.add(tagKey(trimmed))
+		out.push(trimmed)
+	}
+	return out
+}
+
+/** `readableBookIds` null means every contact (see permissions.readableBookIds). */
+export async function listTags(readableBookIds: Array<string> | null): Promise<Array<TagSummary>> {
+	const pool = getPool()
+	const params: Array<unknown> = []
+	let scope = ''
+	if (readableBookIds) {
+		params.push(readableBookIds)
+		scope = `AND EXISTS (SELECT 1 FROM contact_address_books cab WHERE cab.contact_id = c.id AND cab.address_book_id = ANY($1::uuid[]))`
+	}
+	const result = await pool.query<{ key: string; name: string; count: number }>(
+		`SELECT lower(btrim(t)) AS key, mode() WITHIN GROUP (ORDER BY btrim(t)) AS name, COUNT(DISTINCT c.id)::int AS count
+		 FROM contacts c CROSS JOIN LATERAL ${CATEGORY_ELEMENTS} t
+		 WHERE c.deleted_at IS NULL AND btrim(t) <> '' ${scope}
+		 GROUP BY lower(btrim(t))
+		 ORDER BY lower(btrim(t))`,
+		params
+	)
+	const colors = new Map<string, string>()
+	if (await tableExists('tag_colors')) {
+		const colorRows = await pool.query<{ tag: string; color: string }>('SELECT tag, color FROM tag_colors')
+		for (const row of colorRows.rows) colors.set(row.tag, row.color)
+	}
+	return result.rows.map(row => ({ name: row.name, count: row.count, color: colors.get(row.key) ?? null }))
+}
+
+export async function setTagColor(name: string, color: string | null): Promise<void> {
+	const pool = getPool()
+	if (color) {
+		await pool.query(
+			`INSERT INTO tag_colors (tag, color) VALUES ($1, $2)
+			 ON CONFLICT (tag) DO UPDATE SET color = EXCLUDED.color`,
+			[tagKey(name), color.toLowerCase()]
+		)
+	} else {
+		await pool.query('DELETE FROM tag_colors WHERE tag = $1', [tagKey(name)])
+	}
+}
+
+async function contactsWithTags(tags: Array<string>): Promise<Array<Contact>> {
+	const result = await getPool().query<{ id: string }>(
+		`SELECT c.id FROM contacts c
+		 WHERE c.deleted_at IS NULL
+		   AND EXISTS (SELECT 1 FROM ${CATEGORY_ELEMENTS} t WHERE lower(btrim(t)) = ANY($1::text[]))`,
+		[tags.map(tagKey)]
+	)
+	return getContactsByIds(result.rows.map(row => row.id))
+}
+
+/**
+ * Apply `edit` to each contact's tags and save the ones that changed. Returns
+ * how many contacts were updated.
+ */
+async function retagContacts(
+	contacts: Array<Contact>,
+	edit: (tags: Array<string>) => Array<string>,
+	history: { actor: TagActor; summary: string; metadata: Record<string, unknown> }
+): Promise<number> {
+	const batchId = crypto.randomUUID()
+	let updated = 0
+	for (const contact of contacts) {
+		const before = contact.categories ?? []
+		const after = normalizeTags(edit(before))
+		if (JSON.stringify(after) === JSON.stringify(before)) continue
+
+		const categories = after.length > 0 ? after : null
+		const saved = await updateContact(contact.id, {
+			categories,
+			vcard_data: generateVCard({ ...contact, categories }),
+			sync_source: 'api',
+			last_synced_to_radicale_at: null, // Force sync to Radicale
+		})
+		await recordHistory({
+			...history.actor,
+			contactId: contact.id,
+			operation: 'update',
+			summary: `${history.summary}: ${saved.full_name || saved.email || 'contact'}`,
+			previousState: contact,
+			newState: saved,
+			metadata: history.metadata,
+			batchId,
+		})
+		updated++
+	}
+	return updated
+}
+
+/**
+ * Replace every tag in `sources` with `target` on all contacts. Renaming is a
+ * merge with one source; merging into a tag that already exists leaves one
+ * copy of it per contact. The target keeps its color, or takes the first
+ * source's when it has none.
+ */
+export async function mergeTags(sources: Array<string>, target: string, actor: TagActor): Promise<number> {
+	const sourceKeys = new Set(sources.map(tagKey))
+	const contacts = await contactsWithTags(sources)
+	const updated = await retagContacts(
+		contacts,
+		tags => {
+			const index = tags.findIndex(tag => sourceKeys.has(tagKey(tag)))
+			if (index === -1) return tags
+			const kept = tags.filter(tag => !sourceKeys.has(tagKey(tag)))
+			// The target takes the first source's place; normalizeTags drops it if the contact already had it.
+			return [...kept.slice(0, index), target, ...kept.slice(index)]
+		},
+		{
+			actor,
+			summary:
+				sources.length === 1
+					? `Renamed tag "${sources[0]}" to "${target}"`
+					: `Merged tags ${sources.map(s => `"${s}"`).join(', ')} into "${target}"`,
+			metadata: { tags: { operation: sources.length === 1 ? 'rename' : 'merge', sources, target } },
+		}
+	)
+
+	if (await tableExists('tag_colors')) {
+		const targetKey = tagKey(target)
+		const pool = getPool()
+		const colors = await pool.query<{ tag: string; color: string }>('SELECT tag, color FROM tag_colors WHERE tag = ANY($1::text[])', [
+			[targetKey, ...sourceKeys],
+		])
+		const byTag = new Map(colors.rows.map(row => [row.tag, row.color]))
+		const inherited = byTag.get(targetKey) ?? sources.map(source => byTag.get(tagKey(source))).find(Boolean)
+		await pool.query('DELETE FROM tag_colors WHERE tag = ANY($1::text[])', [[...sourceKeys].filter(key => key !== targetKey)])
+		if (inherited) await setTagColor(target, inherited)
+	}
+	return updated
+}
+
+/** Add and remove tags on the given contacts, e.g. from the contacts list selection. */
+export async function bulkEditTags(
+	contactIds: Array<string>,
+	changes: { add: Array<string>; remove: Array<string> },
+	actor: TagActor
+): Promise<number> {
+	const removeKeys = new Set(changes.remove.map(tagKey))
+	const parts = [
+		changes.add.length > 0 ? `added ${changes.add.map(tag => `"${tag}"`).join(', ')}` : null,
+		changes.remove.length > 0 ? `removed ${changes.remove.map(tag => `"${tag}"`).join(', ')}` : null,
+	].filter(Boolean)
+	return retagContacts(await getContactsByIds(contactIds), tags => [...tags.filter(tag => !removeKeys.has(tagKey(tag))), ...changes.add], {
+		actor,
+		summary: `Tags ${parts.join(' and ')}`,
+		metadata: { tags: { operation: 'bulk', add: changes.add, remove: changes.remove } },
+	})
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { nextOccurrence, upcomingEvents } from './upcoming'
+import type { DatedItem } from './upcoming'
+
+function birthday(id: string, name: string, date: string): DatedItem {
+	return { kind: 'birthday', id, original_date: date, people: [{ contact_id: id, name }] }
+}
+
+describe('nextOccurrence', () => {
+	it('returns this year when the date is still ahead, with the age turning', () => {
+		expect(nextOccurrence('1990-06-15', '2026-06-01')).toEqual({ date: '2026-06-15', days_until: 14, years: 36 })
+	})
+
+	it('counts today as zero days away', () => {
+		expect(nextOccurrence('1990-06-15', '2026-06-15')).toEqual({ date: '2026-06-15', days_until: 0, years: 36 })
+	})
+
+	it('rolls over to next year once the date has passed', () => {
+		expect(nextOccurrence('1990-01-02', '2026-12-30')).toEqual({ date: '2027-01-02', days_until: 3, years: 37 })
+	})
+
+	it('moves Feb 29 to Feb 28 in common years', () => {
+		expect(nextOccurrence('2000-02-29', '2026-02-01')).toEqual({ date: '2026-02-28', days_until: 27, years: 26 })
+		expect(nextOccurrence('2000-02-29', '2028-02-01')).toEqual({ date: '2028-02-29', days_until: 28, years: 28 })
+	})
+
+	it('leaves out the age for placeholder years', () => {
+		expect(nextOccurrence('1604-03-10', '2026-03-01')).toEqual({ date: '2026-03-10', days_until: 9, years: null })
+	})
+
+	it('rejects malformed dates', () => {
+		expect(nextOccurrence('06/15/1990', '2026-06-01')).toBeNull()
+	})
+})
+
+describe('upcomingEvents', () => {
+	const items = [
+		birthday('a', 'Zoe', '1980-07-01'),
+		birthday('b', 'Ana', '1985-07-01'),
+		birthday('c', 'Bob', '1970-06-20'),
+		birthday('d', 'Cy', '1970-12-25'),
+	]
+
+	it('keeps dates inside the window, soonest first and then by name', () => {
+		const events = upcomingEvents(items, '2026-06-15', 30)
+		expect(events.map(event => event.id)).toEqual(['c', 'b', 'a'])
+		expect(events[0]).toMatchObject({ date: '2026-06-20', days_until: 5, years: 56 })
+	})
+
+	it('includes the last day of the window', () => {
+		expect(upcomingEvents(items, '2026-06-15', 5).map(event => event.id)).toEqual(['c'])
+		expect(upcomingEvents(items, '2026-06-15', 4)).toEqual([])
+	})
+})
@@ -0,0 +1,172 @@
+import { getPool } from './db'
+import { getEndpointNames, refKey, relationshipDatesEnabled } from './relationships'
+import type { NodeRef } from './relationships'
+
+// Birthdays and anniversaries for the /upcoming page and the per-book
+// calendar feed. Dates are date-only "YYYY-MM-DD" strings end to end (see the
+// DATE type parser in db.ts); all arithmetic is done on UTC midnights so no
+// timezone can shift a day.
+
+export type UpcomingKind = 'birthday' | 'anniversary'
+
+export interface UpcomingPerson {
+	/** Null for placeholder people in the relationship graph. */
+	contact_id: string | null
+	name: string
+}
+
+/** A stored yearly date: a contact's birthday or a spouse/partner anniversary. */
+export interface DatedItem {
+	kind: UpcomingKind
+	/** Contact id for birthdays, relationship id for anniversaries. */
+	id: string
+	/** As stored, "YYYY-MM-DD". */
+	original_date: string
+	people: Array<UpcomingPerson>
+}
+
+export interface UpcomingEvent extends DatedItem {
+	/** Next occurrence on or after the reference day. */
+	date: string
+	days_until: number
+	/** Age turning or years together on `date`; null when the stored year is a placeholder. */
+	years: number | null
+}
+
+export const DEFAULT_UPCOMING_DAYS = 30
+export const MAX_UPCOMING_DAYS = 366
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Years at or below this mean "no year given" (Apple stores 1604), as in ContactPreview. */
+const NO_YEAR_MAX = 1700
+
+interface DateParts {
+	year: number
+	month: number
+	day: number
+}
+
+export function parseDateOnly(value: string): DateParts | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim())
+	if (!match) return null
+	const parts = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }
+	if (parts.month < 1 || parts.month > 12 || parts.day < 1 || parts.day > 31) return null
+	return parts
+}
+
+export function hasKnownYear(value: string): boolean {
+	const parts = parseDateOnly(value)
+	return parts !== null && parts.year > NO_YEAR_MAX
+}
+
+function isLeapYear(year: number): boolean {
+	return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+}
+
+function formatDate(year: number, month: number, day: number): string {
+	return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/** The anniversary of month/day in `year`; Feb 29 falls on Feb 28 in common years. */
+function occurrenceIn(year: number, month: number, day: number): string {
+	return formatDate(year, month, month === 2 && day === 29 && !isLeapYear(year) ? 28 : day)
+}
+
+function utcTime(value: string): number {
+	const { year, month, day } = parseDateOnly(value)!
+	return Date.UTC(year, month - 1, day)
+}
+
+/** Today's date in the server's local timezone, "YYYY-MM-DD". */
+export function localToday(now = new Date()): string {
+	return formatDate(now.getFullYear(), now.getMonth() + 1, now.getDate())
+}
+
+export function nextOccurrence(value: string, today: string): Pick<UpcomingEvent, 'date' | 'days_until' | 'years'> | null {
+	const parts = parseDateOnly(value)
+	const reference = parseDateOnly(today)
+	if (!parts || !reference) return null
+	let date = occurrenceIn(reference.year, parts.month, parts.day)
+	if (date < today) date = occurrenceIn(reference.year + 1, parts.month, parts.day)
+	const years = parts.year > NO_YEAR_MAX ? Number(date.slice(0, 4)) - parts.year : null
+	return {
+		date,
+		days_until: Math.round((utcTime(date) - utcTime(today)) / DAY_MS),
+		years: years !== null && years >= 0 ? years : null,
+	}
+}
+
+/** Items whose next occurrence is within `days` days of `today` (inclusive), soonest first. */
+export function upcomingEvents(items: Array<DatedItem>, today: string, days: number): Array<UpcomingEvent> {
+	const events: Array<UpcomingEvent> = []
+	for (const item of items) {
+		const next = nextOccurrence(item.original_date, today)
+		if (next && next.days_until <= days) events.push({ ...item, ...next })
+	}
+	return events.sort((a, b) => a.days_until - b.days_until || (a.people[0]?.name ?? '').localeCompare(b.people[0]?.name ?? ''))
+}
+
+function contactName(row: { full_name: string | null; first_name: string | null; last_name: string | null }): string {
+	return row.full_name || [row.first_name, row.last_name].filter(Boolean).join(' ') || 'Unnamed contact'
+}
+
+/**
+ * Every birthday and anniversary visible through `addressBookIds` (null: all
+ * books). An anniversary is the start date of a spouse or partner relationship,
+ * visible when either partner is a live contact in one of the books; exes and
+ * relationships with an end date are left out.
+ */
+export async function getDatedItems(addressBookIds: Array<string> | null): Promise<Array<DatedItem>> {
+	const pool = getPool()
+	const inBooks = (column: string) =>
+		`($1::uuid[] IS NULL OR EXISTS (SELECT 1 FROM contact_address_books cab WHERE cab.contact_id = ${column} AND cab.address_book_id = ANY($1::uuid[])))`
+
+	const birthdays = await pool.query(
+		`SELECT c.id, c.full_name, c.first_name, c.last_name, c.birthday
+		 FROM contacts c
+		 WHERE c.deleted_at IS NULL AND c.birthday IS NOT NULL AND ${inBooks('c.id')}`,
+		[addressBookIds]
+	)
+	const items: Array<DatedItem> = birthdays.rows.map(row => ({
+		kind: 'birthday',
+		id: row.id,
+		original_date: row.birthday,
+		people: [{ contact_id: row.id, name: contactName(row) }],
+	}))
+
+	if (!(await relationshipDatesEnabled())) return items
+
+	const anniversaries = await pool.query(
+		`SELECT r.id, r.start_date, r.a_contact_id, r.a_placeholder_id, r.b_contact_id, r.b_placeholder_id
+		 FROM contact_relationships r
+		 WHERE r.start_date IS NOT NULL
+		   AND r.end_date IS NULL
+		   AND r.type IN ('spouse', 'partner')
+		   AND r.qualifier IS DISTINCT FROM 'ex'
+		   AND EXISTS (
+		     SELECT 1 FROM contacts c
+		     WHERE c.id IN (r.a_contact_id, r.b_contact_id) AND c.deleted_at IS NULL AND ${inBooks('c.id')}
+		   )`,
+		[addressBookIds]
+	)
+	const endpoints = (row: Record<string, string | null>): Array<NodeRef> =>
+		(['a', 'b'] as const).map(side =>
+			row[`${side}_contact_id`]
+				? { kind: 'contact', id: row[`${side}_contact_id`]! }
+				: { kind: 'placeholder', id: row[`${side}_placeholder_id`]! }
+		)
+	const names = await getEndpointNames(anniversaries.rows.flatMap(endpoints))
+	for (const row of anniversaries.rows) {
+		items.push({
+			kind: 'anniversary',
+			id: row.id,
+			original_date: row.start_date,
+			people: endpoints(row).map(ref => ({
+				contact_id: ref.kind === 'contact' ? ref.id : null,
+				name: names.get(refKey(ref)) ?? 'Unknown',
+			})),
+		})
+	}
+	return items
+}
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest'
+import { mapVCardToContact, normalizeVCardDate, parseVCardProperty, splitVCards, unfoldVCardLines } from './vcard-import'
+
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+function importFirst(text: string) {
+	const [card] = splitVCards(text)
+	return mapVCardToContact(card)
+}
+
+// ---------------------------------------------------------------------------
+// splitVCards / unfoldVCardLines
+// ---------------------------------------------------------------------------
+describe('splitVCards', () => {
+	it('splits a multi-card export and ignores text between cards', () => {
+		const text = [
+			'\uFEFFBEGIN:VCARD',
+			'VERSION:3.0',
+			'FN:Ada Lovelace',
+			'END:VCARD',
+			'',
+			'junk',
+			'begin:vcard',
+			'VERSION:4.0',
+			'FN:Grace Hopper',
+			'end:vcard',
+		].join('\r\n')
+		expect(splitVCards(text)).toEqual([
+			['VERSION:3.0', 'FN:Ada Lovelace'],
+			['VERSION:4.0', 'FN:Grace Hopper'],
+		])
+	})
+
+	it('keeps a nested AGENT card inside its parent', () => {
+		const text = ['BEGIN:VCARD', 'FN:Boss', 'AGENT:', 'BEGIN:VCARD', 'FN:Assistant', 'END:VCARD', 'END:VCARD'].join('\n')
+		const cards = splitVCards(text)
+		expect(cards).toHaveLength(1)
+		expect(cards[0]).toContain('FN:Assistant')
+	})
+
+	it('returns nothing for a file without cards', () => {
+		expect(splitVCards('first,last\nAda,Lovelace')).toEqual([])
+	})
+})
+
+describe('unfoldVCardLines', () => {
+	it('joins folded continuation lines', () => {
+		expect(unfoldVCardLines('NOTE:long\r\n  line\r\n\tend')).toEqual(['NOTE:long lineend'])
+	})
+
+	it('joins quoted-printable soft line breaks', () => {
+		expect(unfoldVCardLines('NOTE;ENCODING=QUOTED-PRINTABLE:first=\nsecond\nFN:x')).toEqual([
+			'NOTE;ENCODING=QUOTED-PRINTABLE:firstsecond',
+			'FN:x',
+		])
+	})
+})
+
+// ---------------------------------------------------------------------------
+// parseVCardProperty
+// ---------------------------------------------------------------------------
+describe('parseVCardProperty', () => {
+	it('reads bare vCard 2.1 types', () => {
+		expect(parseVCardProperty('TEL;HOME;VOICE:555-1234')).toMatchObject({ name: 'TEL', types: ['HOME', 'VOICE'], value: '555-1234' })
+	})
+
+	it('reads quoted vCard 4.0 type lists and PREF', () => {
+		expect(parseVCardProperty('EMAIL;TYPE="work,internet";PREF=1:ada@example.com')).toMatchObject({
+			types: ['WORK', 'INTERNET', 'PREF'],
+			value: 'ada@example.com',
+		})
+	})
+
+	it('strips the group prefix', () => {
+		expect(parseVCardProperty('item1.EMAIL;type=INTERNET:ada@example.com')).toMatchObject({ group: 'item1', name: 'EMAIL' })
+	})
+
+	it('decodes quoted-printable values in the declared charset', () => {
+		expect(parseVCardProperty('FN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:Ren=C3=A9e')?.value).toBe('Renée')
+		expect(parseVCardProperty('FN;CHARSET=ISO-8859-1;QUOTED-PRINTABLE:Ren=E9e')?.value).toBe('Renée')
+	})
+
+	it('keeps colons inside the value', () => {
+		expect(parseVCardProperty('URL:https://example.com:8443/')?.value).toBe('https://example.com:8443/')
+	})
+
+	it('returns null for lines without a value', () => {
+		expect(parseVCardProperty('garbage')).toBeNull()
+	})
+})
+
+// ---------------------------------------------------------------------------
+// normalizeVCardDate
+// ---------------------------------------------------------------------------
+describe('normalizeVCardDate', () => {
+	it.each([
+		['19850415', '1985-04-15'],
+		['1985-04-15', '1985-04-15'],
+		['1985-04-15T00:00:00Z', '1985-04-15'],
+		['19850415T000000', '1985-04-15'],
+		['--0415', '1604-04-15'],
+		['--04-15', '1604-04-15'],
+	])('parses %s', (input, expected) => {
+		expect(normalizeVCardDate(input)).toBe(expected)
+	})
+
+	it('rejects invalid dates', () => {
+		expect(normalizeVCardDate('1985-13-01')).toBeNull()
+		expect(normalizeVCardDate('soon')).toBeNull()
+	})
+})
+
+// ---------------------------------------------------------------------------
+// mapVCardToContact
+// ---------------------------------------------------------------------------
+describe('mapVCardToContact', () => {
+	it('maps a vCard 2.1 card from an Outlook export', () => {
+		const { contact, photo_data } = importFirst(
+			[
+				'BEGIN:VCARD',
+				'VERSION:2.1',
+				'N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:M=C3=BCller;J=C3=BCrgen;;Dr.;',
+				'FN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:Dr. J=C3=BCrgen M=C3=BCller',
+				'TEL;WORK;VOICE:+49 30 1234567',
+				'TEL;CELL:5551234',
+				'EMAIL;PREF;INTERNET:juergen@example.com',
+				'ADR;WORK:;;Hauptstr. 1;Berlin;;10115;Germany',
+				'NOTE;ENCODING=QUOTED-PRINTABLE:Line one=0D=0A=',
+				'Line two',
+				`PHOTO;ENCODING=BASE64;TYPE=PNG:${PNG_BASE64.slice(0, 40)}`,
+				`  ${PNG_BASE64.slice(40)}`,
+				'',
+				'END:VCARD',
+			].join('\r\n')
+		)
+		expect(contact).toMatchObject({
+			full_name: 'Dr. Jürgen Müller',
+			first_name: 'Jürgen',
+			last_name: 'Müller',
+			name_prefix: 'Dr.',
+			phone: '+49 30 1234567',
+			phones: [
+				{ value: '+49 30 1234567', type: 'WORK,VOICE' },
+				{ value: '555-1234', type: 'CELL' },
+			],
+			email: 'juergen@example.com',
+			emails: [{ value: 'juergen@example.com', type: 'INTERNET' }],
+			addresses: [{ value: ';;Hauptstr. 1;Berlin;;10115;Germany', type: 'WORK' }],
+			notes: 'Line one\r\nLine two',
+		})
+		expect(photo_data).toBe(PNG_BASE64)
+	})
+
+	it('maps an Apple vCard 3.0 card with grouped properties', () => {
+		const { contact, photo_data } = importFirst(
+			[
+				'BEGIN:VCARD',
+				'VERSION:3.0',
+				'PRODID:-//Apple Inc.//iPhone OS 17.0//EN',
+				'N:Lovelace;Ada;;;',
+				'FN:Ada Lovelace',
+				'ORG:Analytical Engines\\, Ltd.;Research',
+				'TITLE:Mathematician',
+				'item1.EMAIL;type=INTERNET;type=pref:ada@example.com',
+				'item1.X-ABLabel:_$!<Other>!$_',
+				'item2.URL;type=pref:https://example.com',
+				'item2.X-ABLabel:_$!<HomePage>!$_',
+				'BDAY;VALUE=date:--12-10',
+				'NOTE:Wrote the first program\\nand more',
+				'CATEGORIES:Friends,Work',
+				'X-SOCIALPROFILE;type=twitter:x-apple:ada',
+				`PHOTO;ENCODING=b;TYPE=JPEG:${PNG_BASE64}`,
+				'UID:2D1F-ADA',
+				'END:VCARD',
+			].join('\n')
+		)
+		expect(contact).toMatchObject({
+			vcard_id: '2D1F-ADA',
+			full_name: 'Ada Lovelace',
+			organization: 'Analytical Engines, Ltd.',
+			org_units: ['Research'],
+			job_title: 'Mathematician',
+			email: 'ada@example.com',
+			homepage: 'https://example.com',
+			birthday: '1604-12-10',
+			notes: 'Wrote the first program\nand more',
+			categories: ['Friends', 'Work'],
+			custom_fields: [{ key: 'X-SOCIALPROFILE', value: 'x-apple:ada' }],
+		})
+		expect(photo_data).toBe(PNG_BASE64)
+	})
+
+	it('maps a vCard 4.0 card with URIs and a data: photo', () => {
+		const { contact, photo_data } = importFirst(
+			[
+				'BEGIN:VCARD',
+				'VERSION:4.0',
+				'FN:Grace Hopper',
+				'TEL;VALUE=uri;TYPE="cell,voice":tel:+1-202-555-0100',
+				'EMAIL;TYPE=work:grace@example.com',
+				'BDAY:19061209',
+				`PHOTO:data:image/png;base64,${PNG_BASE64}`,
+				'END:VCARD',
+			].join('\r\n')
+		)
+		expect(contact).toMatchObject({
+			full_name: 'Grace Hopper',
+			phones: [{ value: '+1-202-555-0100', type: 'CELL,VOICE' }],
+			emails: [{ value: 'grace@example.com', type: 'WORK' }],
+			birthday: '1906-12-09',
+		})
+		expect(photo_data).toBe(`data:image/png;base64,${PNG_BASE64}`)
+	})
+
+	it('ignores photos given by URL', () => {
+		const { photo_data } = importFirst('BEGIN:VCARD\nFN:x\nPHOTO;VALUE=uri:https://example.com/x.jpg\nEND:VCARD')
+		expect(photo_data).toBeNull()
+	})
+
+	it('falls back to the N parts, then the organization, for the full name', () => {
+		expect(importFirst('BEGIN:VCARD\nN:Hopper;Grace;Brewster;;\nEND:VCARD').contact.full_name).toBe('Grace Brewster Hopper')
+		expect(importFirst('BEGIN:VCARD\nORG:Acme\nEND:VCARD').contact.full_name).toBe('Acme')
+		expect(importFirst('BEGIN:VCARD\nVERSION:3.0\nEND:VCARD').contact.full_name).toBe('Unnamed Contact')
+	})
+})
@@ -0,0 +1,330 @@
+import { normalizeBirthday } from './csv'
+import { normalizePhoneNumber } from './utils'
+import type { Contact, ContactField } from './db'
+
+// Parsing for uploaded .vcf files (iPhone, Google and Outlook exports). These
+// hold many cards per file and mix vCard 2.1, 3.0 and 4.0 syntax, so unlike the
+// sync-service parser - which only ever reads cards written by Radicale - this
+// one handles quoted-printable values, bare 2.1 type parameters, escaped text
+// and every photo encoding.
+
+export interface VCardProperty {
+	/** Apple-style group prefix ("item1" in "item1.EMAIL"), or null. */
+	group: string | null
+	/** Upper-cased property name. */
+	name: string
+	/** Upper-cased TYPE values, including bare vCard 2.1 parameters such as "HOME" or "VOICE". */
+	types: Array<string>
+	/** Other parameters, keyed by lower-cased name; values unquoted. */
+	params: Partial<Record<string, string>>
+	/** Raw value, already decoded from quoted-printable but not unescaped. */
+	value: string
+}
+
+export interface ImportedVCard {
+	contact: Partial<Contact>
+	/** Base64 (or a base64 data: URL) for decodePhotoPayload; null when the card has no inline photo. */
+	photo_data: string | null
+}
+
+/** Bare vCard 2.1 parameters that name an encoding rather than a type. */
+const ENCODING_TOKENS = new Set(['QUOTED-PRINTABLE', 'BASE64', 'B', '8BIT', '7BIT'])
+
+/** Year used for birthdays without one, matching Apple (any year <= 1700 reads as "no year"). */
+const NO_YEAR = '1604'
+
+function isQuotedPrintableLine(line: string): boolean {
+	const colon = line.indexOf(':')
+	return colon !== -1 && /QUOTED-PRINTABLE/i.test(line.slice(0, colon))
+}
+
+/**
+ * Undo line folding: a line starting with a space or tab continues the previous
+ * one, and a quoted-printable line ending in "=" (a 2.1 soft break) continues
+ * onto the next line verbatim. Blank lines are dropped.
+ */
+export function unfoldVCardLines(text: string): Array<string> {
+	const lines: Array<string> = []
+	for (const raw of text.split(/\r\n|\r|\n/)) {
+		const last = lines.length - 1
+		if (last >= 0 && lines[last].endsWith('=') && isQuotedPrintableLine(lines[last])) {
+			lines[last] = lines[last].slice(0, -1) + raw
+		} else if (last >= 0 && (raw.startsWith(' ') || raw.startsWith('\t'))) {
+			lines[last] += raw.slice(1)
+		} else if (raw.trim()) {
+			lines.push(raw)
+		}
+	}
+	return lines
+}
+
+/**
+ * Split a .vcf file into its cards, each as unfolded content lines without the
+ * BEGIN/END markers. Text outside BEGIN:VCARD ... END:VCARD is ignored, and a
+ * nested card (a 2.1 AGENT) stays inside its parent.
+ */
+export function splitVCards(text: string): Array<Array<string>> {
+	const cards: Array<Array<string>> = []
+	let current: Array<string> | null = null
+	let depth = 0
+	for (const line of unfoldVCardLines(text.replace(/^\uFEFF/, ''))) {
+		const marker = line.trim().toUpperCase()
+		if (marker === 'BEGIN:VCARD') {
+			depth++
+			if (depth === 1) {
+				current = []
+				continue
+			}
+		} else if (marker === 'END:VCARD' && depth > 0) {
+			depth--
+			if (depth === 0) {
+				if (current) cards.push(current)
+				current = null
+				continue
+			}
+		}
+		if (current) current.push(line)
+	}
+	return cards
+}
+
+/** Split on `separator` outside double quotes, the way vCard 4.0 allows quoted parameter values. */
+function splitUnquoted(value: string, separator: string): Array<string> {
+	const parts: Array<string> = []
+	let inQuotes = false
+	let start = 0
+	for (let i = 0; i < value.length; i++) {
+		if (value[i] === '"') inQuotes = !inQuotes
+		else if (value[i] === separator && !inQuotes) {
+			parts.push(value.slice(start, i))
+			start = i + 1
+		}
+	}
+	parts.push(value.slice(start))
+	return parts
+}
+
+function decodeQuotedPrintable(value: string, charset: string | undefined): string {
+	const bytes: Array<number> = []
+	for (let i = 0; i < value.length; i++) {
+		const hex = value[i] === '=' ? value.slice(i + 1, i + 3) : ''
+		if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+			bytes.push(parseInt(hex, 16))
+			i += 2
+		} else {
+			bytes.push(...new TextEncoder().encode(value[i]))
+		}
+	}
+	try {
+		return new TextDecoder(charset || 'utf-8').decode(new Uint8Array(bytes))
+	} catch {
+		// Unknown charset label.
+		return new TextDecoder('utf-8').decode(new Uint8Array(bytes))
+	}
+}
+
+/** Parse one unfolded content line; null for lines without a name and value. */
+export function parseVCardProperty(line: string): VCardProperty | null {
+	const [head, ...rest] = splitUnquoted(line, ':')
+	if (rest.length === 0) return null
+	const [fullName, ...rawParams] = splitUnquoted(head, ';')
+	const dot = fullName.indexOf('.')
+	const name = fullName
+		.slice(dot + 1)
+		.trim()
+		.toUpperCase()
+	if (!name) return null
+
+	const types: Array<string> = []
+	const params: Partial<Record<string, string>> = {}
+	for (const raw of rawParams) {
+		const eq = raw.indexOf('=')
+		if (eq === -1) {
+			const token = raw.trim().toUpperCase()
+			if (ENCODING_TOKENS.has(token)) params.encoding = token
+			else if (token) types.push(token)
+			continue
+		}
+		const key = raw.slice(0, eq).trim().toLowerCase()
+		const paramValue = raw
+			.slice(eq + 1)
+			.trim()
+			.replace(/^"|"$/g, '')
+		if (key === 'type') {
+			types.push(
+				...paramValue
+					.split(',')
+					.map(type => type.trim().toUpperCase())
+					.filter(Boolean)
+			)
+		} else if (key === 'pref') {
+			types.push('PREF')
+		} else {
+			params[key] = paramValue
+		}
+	}
+
+	let value = rest.join(':')
+	if (params.encoding?.toUpperCase() === 'QUOTED-PRINTABLE') {
+		value = decodeQuotedPrintable(value, params.charset)
+	}
+	return { group: dot === -1 ? null : fullName.slice(0, dot), name, types: Array.from(new Set(types)), params, value }
+}
+
+/** Unescape a text value: "\n", "\,", "\;" and "\\". */
+export function unescapeVCardText(value: string): string {
+	return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+/** Split a structured value (N, ADR, ORG) or a list (CATEGORIES) on unescaped separators, then unescape each part. */
+function splitEscaped(value: string, separator: ';' | ','): Array<string> {
+	const parts: Array<string> = []
+	let current = ''
+	for (let i = 0; i < value.length; i++) {
+		if (value[i] === '\\' && i + 1 < value.length) {
+			current += value.slice(i, i + 2)
+			i++
+		} else if (value[i] === separator) {
+			parts.push(current)
+			current = ''
+		} else {
+			current += value[i]
+		}
+	}
+	parts.push(current)
+	return parts.map(part => unescapeVCardText(part).trim())
+}
+
+/**
+ * A vCard date as "YYYY-MM-DD". Accepts 19850415, 1985-04-15 (with or without
+ * a time) and the year-less --0415 / --04-15, which is stored with Apple's
+ * placeholder year.
+ */
+export function normalizeVCardDate(value: string): string | null {
+	const trimmed = value.trim()
+	const noYear = /^--(\d{2})-?(\d{2})$/.exec(trimmed)
+	if (noYear) return normalizeBirthday(`${NO_YEAR}-${noYear[1]}-${noYear[2]}`)
+	return normalizeBirthday(trimmed.replace(/^(\d{8})T.*$/, '$1'))
+}
+
+function typeOf(property: VCardProperty, fallback: string): string {
+	return property.types.filter(type => type !== 'PREF').join(',') || fallback
+}
+
+function photoData(property: VCardProperty): string | null {
+	const value = property.value.trim()
+	if (/^data:/i.test(value)) return value.replace(/\s+/g, '')
+	const encoding = property.params.encoding?.toUpperCase()
+	if (encoding === 'B' || encoding === 'BASE64') return value.replace(/\s+/g, '')
+	// VALUE=uri photos point at a remote image; those are not fetched.
+	return null
+}
+
+/** Map one card (as returned by splitVCards) onto contact columns. */
+export function mapVCardToContact(lines: Array<string>): ImportedVCard {
+	const emails: Array<ContactField> = []
+	const phones: Array<ContactField> = []
+	const addresses: Array<ContactField> = []
+	const urls: Array<ContactField> = []
+	const customFields: Array<{ key: string; value: string; params?: Array<string> }> = []
+	const contact: Partial<Contact> = {}
+	let nameParts: Array<string> = []
+	let photo: string | null = null
+
+	for (const line of lines) {
+		const property = parseVCardProperty(line)
+		if (!property) continue
+		const value = property.value
+		switch (property.name) {
+			case 'UID':
+				contact.vcard_id = value.trim() || null
+				break
+			case 'FN':
+				contact.full_name = unescapeVCardText(value).trim() || null
+				break
+			case 'N':
+				nameParts = splitEscaped(value, ';')
+				break
+			case 'NICKNAME':
+				contact.nickname = unescapeVCardText(value).trim() || null
+				break
+			case 'X-MAIDENNAME':
+				contact.maiden_name = unescapeVCardText(value).trim() || null
+				break
+			case 'EMAIL':
+				if (value.trim()) emails.push({ value: value.trim().replace(/^mailto:/i, ''), type: typeOf(property, 'INTERNET') })
+				break
+			case 'TEL': {
+				const phone = normalizePhoneNumber(value.replace(/^tel:/i, ''))
+				if (phone) phones.push({ value: phone, type: typeOf(property, 'CELL') })
+				break
+			}
+			case 'ADR': {
+				const parts = splitEscaped(value, ';')
+				if (parts.some(Boolean)) addresses.push({ value: parts.join(';'), type: typeOf(property, 'HOME') })
+				break
+			}
+			case 'URL':
+				if (value.trim()) urls.push({ value: unescapeVCardText(value).trim(), type: typeOf(property, 'HOME') })
+				break
+			case 'ORG': {
+				const [organization = '', ...units] = splitEscaped(value, ';')
+				contact.organization = organization || null
+				contact.org_units = units.filter(Boolean).length > 0 ? units.filter(Boolean) : null
+				break
+			}
+			case 'TITLE':
+				contact.job_title = unescapeVCardText(value).trim() || null
+				break
+			case 'ROLE':
+				contact.role = unescapeVCardText(value).trim() || null
+				break
+			case 'BDAY':
+				contact.birthday = normalizeVCardDate(value)
+				break
+			case 'NOTE':
+				contact.notes = unescapeVCardText(value).trim() || null
+				break
+			case 'CATEGORIES': {
+				const categories = splitEscaped(value, ',').filter(Boolean)
+				contact.categories = categories.length > 0 ? categories : null
+				break
+			}
+			case 'PHOTO':
+				photo ??= photoData(property)
+				break
+			default:
+				// Grouped X- properties are Apple labels for a sibling line, not data of their own.
+				if (property.name.startsWith('X-') && !property.group) {
+					customFields.push({ key: property.name, value: unescapeVCardText(value) })
+				}
+				break
+		}
+	}
+
+	const [last = '', first = '', middle = '', prefix = '', suffix = ''] = nameParts
+	const fromParts = [first, middle, last].filter(Boolean).join(' ')
+
+	return {
+		contact: {
+			...contact,
+			full_name: contact.full_name || fromParts || contact.organization || 'Unnamed Contact',
+			first_name: first || null,
+			last_name: last || null,
+			middle_name: middle || null,
+			name_prefix: prefix || null,
+			name_suffix: suffix || null,
+			// Single-value columns mirror the first entry, as in the sync service.
+			email: emails[0]?.value ?? null,
+			phone: phones[0]?.value ?? null,
+			address: addresses[0]?.value ?? null,
+			homepage: urls[0]?.value ?? null,
+			emails: emails.length > 0 ? emails : null,
+			phones: phones.length > 0 ? phones : null,
+			addresses: addresses.length > 0 ? addresses : null,
+			urls: urls.length > 0 ? urls : null,
+			custom_fields: customFields.length > 0 ? customFields : null,
+		},
+		photo_data: photo,
+	}
+}
@@ -42,6 +42,11 @@ function normalizePhotoBase64(photoBlob: Uint8Array | string | null | undefined)
 	return NodeBuffer ? NodeBuffer.from(photoBlob).toString('base64') : null
 }
 
+function photoLines(base64: string, mime: string | null | undefined): Array<string> {
+	const type = (mime || 'image/jpeg').toLowerCase().includes('png') ? 'PNG' : 'JPEG'
+	return foldVCardLine(`PHOTO;ENCODING=b;TYPE=${type}:${base64}`)
+}
+
 export function generateVCard(contact: {
 	vcard_id?: string | null
 	full_name?: string | null
@@ -117,10 +122,7 @@ export function generateVCard(contact: {
 	// Photo (base64)
 	const photoBase64 = normalizePhotoBase64(contact.photo_blob)
 	if (photoBase64) {
-		const mime = contact.photo_mime || 'image/jpeg'
-		const type = mime.toLowerCase().includes('png') ? 'PNG' : 'JPEG'
-		const photoLine = `PHOTO;ENCODING=b;TYPE=${type}:${photoBase64}`
-		lines.push(...foldVCardLine(photoLine))
+		lines.push(...photoLines(photoBase64, contact.photo_mime))
 	}
 
 	// Emails - use arrays if available, fall back to single value
@@ -350,3 +352,43 @@ export function extractUID(vcardString: string): string | null {
 	const uidMatch = vcardString.match(/^UID:(.+)$/m)
 	return uidMatch ? uidMatch[1].trim() : null
 }
+
+const PHOTO_LINE = /^(?:[\w-]+\.)?PHOTO[;:]/i
+
+/** Whether a card carries a PHOTO property. */
+export function hasVCardPhoto(card: string): boolean {
+	return card.split(/\r?\n/).some(line => PHOTO_LINE.test(line))
+}
+
+/** Drop PHOTO properties, folded continuation lines included. */
+export function stripVCardPhoto(card: string): string {
+	const eol = card.includes('\r\n') ? '\r\n' : '\n'
+	const kept: Array<string> = []
+	let inPhoto = false
+	for (const line of card.split(/\r?\n/)) {
+		if (inPhoto && /^[ \t]/.test(line)) continue
+		inPhoto = PHOTO_LINE.test(line)
+		if (!inPhoto) kept.push(line)
+	}
+	return kept.join(eol)
+}
+
+/**
+ * Put a PHOTO back into a card, after the name properties as generateVCard
+ * writes it, or just before END:VCARD when the card has none.
+ */
+export function insertVCardPhoto(card: string, base64: string, mime?: string | null): string {
+	const eol = card.includes('\r\n') ? '\r\n' : '\n'
+	const lines = card.split(/\r?\n/)
+	let at = -1
+	lines.forEach((line, index) => {
+		if (/^(?:FN|N|NICKNAME|SORT-STRING)[;:]/i.test(line)) at = index + 1
+	})
+	if (at < 0) {
+		at = lines.findIndex(line => /^END:VCARD/i.test(line))
+		if (at < 0) at = lines.length
+	}
+	while (at < lines.length && /^[ \t]/.test(lines[at])) at++
+	lines.splice(at, 0, ...photoLines(base64, mime))
+	return lines.join(eol)
+}
@@ -14,16 +14,23 @@ import { Route as IdRouteImport } from './routes/$id'
 import { Route as AboutRouteImport } from './routes/about'
 import { Route as BooksRouteImport } from './routes/books'
 import { Route as CarddavConnectionRouteImport } from './routes/carddav-connection'
+import { Route as ConflictsRouteImport } from './routes/conflicts'
 import { Route as DuplicatesRouteImport } from './routes/duplicates'
 import { Route as HelpRouteImport } from './routes/help'
 import { Route as HistoryRouteImport } from './routes/history'
 import { Route as ImportRouteImport } from './routes/import'
+import { Route as LoginRouteImport } from './routes/login'
 import { Route as NewRouteImport } from './routes/new'
 import { Route as RadicaleUsersRouteImport } from './routes/radicale-users'
 import { Route as RelationshipsRouteImport } from './routes/relationships'
+import { Route as SyncRouteImport } from './routes/sync'
+import { Route as TagsRouteImport } from './routes/tags'
 import { Route as TrashRouteImport } from './routes/trash'
+import { Route as UpcomingRouteImport } from './routes/upcoming'
+import { Route as UsersRouteImport } from './routes/users'
 import { Route as ApiAboutRouteImport } from './routes/api/about'
 import { Route as ApiAddressBooksRouteImport } from './routes/api/address-books'
+import { Route as ApiConflictsRouteImport } from './routes/api/conflicts'
 import { Route as ApiContactsRouteImport } from './routes/api/contacts'
 import { Route as ApiHealthRouteImport } from './routes/api/health'
 import { Route as ApiHistoryRouteImport } from './routes/api/history'
@@ -33,11 +40,23 @@ import { Route as ApiRelationshipPlaceholdersRouteImport } from './routes/api/re
 import { Route as ApiRelationshipsRouteImport } from './routes/api/relationships'
 import { Route as ApiRuntimeConfigRouteImport } from './routes/api/runtime-config'
 import { Route as ApiSettingsRouteImport } from './routes/api/settings'
+import { Route as ApiSmartGroupsRouteImport } from './routes/api/smart-groups'
+import { Route as ApiTagsRouteImport } from './routes/api/tags'
+import { Route as ApiUpcomingRouteImport } from './routes/api/upcoming'
 import { Route as ApiUserBookAssignmentsRouteImport } from './routes/api/user-book-assignments'
+import { Route as ApiUsersRouteImport } from './routes/api/users'
 import { Route as ApiAddressBooksIdRouteImport } from './routes/api/address-books.$id'
 import { Route as ApiAddressBooksMembershipsRouteImport } from './routes/api/address-books.memberships'
+import { Route as ApiAuthLoginRouteImport } from './routes/api/auth.login'
+import { Route as ApiAuthLogoutRouteImport } from './routes/api/auth.logout'
+import { Route as ApiAuthSessionRouteImport } from './routes/api/auth.session'
+import { Route as ApiAuthSetupRouteImport } from './routes/api/auth.setup'
+import { Route as ApiCalendarBirthdaysDoticsRouteImport } from './routes/api/calendar.birthdays[.]ics'
 import { Route as ApiContactsIdRouteImport } from './routes/api/contacts.$id'
 import { Route as ApiContactsBulkBooksRouteImport } from './routes/api/contacts.bulk-books'
+import { Route as ApiContactsBulkDeleteRouteImport } from './routes/api/contacts.bulk-delete'
+import { Route as ApiContactsBulkEditRouteImport } from './routes/api/contacts.bulk-edit'
+import { Route as ApiContactsBulkTagsRouteImport } from './routes/api/contacts.bulk-tags'
 import { Route as ApiContactsDeduplicateRouteImport } from './routes/api/contacts.deduplicate'
 import { Route as ApiContactsDuplicatesRouteImport } from './routes/api/contacts.duplicates'
 import { Route as ApiContactsExportRouteImport } from './routes/api/contacts.export'
@@ -45,11 +64,29 @@ import { Route as ApiContactsImportRouteImport } from './routes/api/contacts.imp
 import { Route as ApiContactsMergeRouteImport } from './routes/api/contacts.merge'
 import { Route as ApiContactsTrashRouteImport } from './routes/api/contacts.trash'
 import { Route as ApiRadicaleUsersUsernameRouteImport } from './routes/api/radicale-users.$username'
+import { Route as ApiRelationshipPlaceholdersIdRouteImport } from './routes/api/relationship-placeholders.$id'
 import { Route as ApiRelationshipsIdRouteImport } from './routes/api/relationships.$id'
+import { Route as ApiSmartGroupsIdRouteImport } from './routes/api/smart-groups.$id'
+import { Route as ApiSyncRunRouteImport } from './routes/api/sync.run'
+import { Route as ApiSyncStatusRouteImport } from './routes/api/sync.status'
+import { Route as ApiTagsMergeRouteImport } from './routes/api/tags.merge'
+import { Route as ApiUsersIdRouteImport } from './routes/api/users.$id'
+import { Route as ApiAddressBooksIdCalendarFeedRouteImport } from './routes/api/address-books.$id.calendar-feed'
+import { Route as ApiAddressBooksIdGroupsRouteImport } from './routes/api/address-books.$id.groups'
+import { Route as ApiAddressBooksIdResyncRouteImport } from './routes/api/address-books.$id.resync'
+import { Route as ApiContactsIdConflictsRouteImport } from './routes/api/contacts.$id.conflicts'
 import { Route as ApiContactsIdPhotoRouteImport } from './routes/api/contacts.$id.photo'
 import { Route as ApiContactsIdRelationshipsRouteImport } from './routes/api/contacts.$id.relationships'
+import { Route as ApiContactsIdResyncRouteImport } from './routes/api/contacts.$id.resync'
+import { Route as ApiContactsImportSessionsRouteImport } from './routes/api/contacts.import.sessions'
 import { Route as ApiHistoryIdUndoRouteImport } from './routes/api/history.$id.undo'
 import { Route as ApiRadicaleUsersUsernameBackfillRouteImport } from './routes/api/radicale-users.$username.backfill'
+import { Route as ApiSyncRunsIdRouteImport } from './routes/api/sync.runs.$id'
+import { Route as ApiAddressBooksIdGroupsGroupIdRouteImport } from './routes/api/address-books.$id.groups.$groupId'
+import { Route as ApiContactsIdConflictsConflictIdRouteImport } from './routes/api/contacts.$id.conflicts.$conflictId'
+import { Route as ApiContactsImportSessionsIdRouteImport } from './routes/api/contacts.import.sessions.$id'
+import { Route as ApiHistoryBatchesBatchIdUndoRouteImport } from './routes/api/history.batches.$batchId.undo'
+import { Route as ApiContactsImportSessionsIdCommitRouteImport } from './routes/api/contacts.import.sessions.$id.commit'
 
 const IndexRoute = IndexRouteImport.update({
   id: '/',
@@ -76,6 +113,11 @@ const CarddavConnectionRoute = CarddavConnectionRouteImport.update({
   path: '/carddav-connection',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ConflictsRoute = ConflictsRouteImport.update({
+  id: '/conflicts',
+  path: '/conflicts',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DuplicatesRoute = DuplicatesRouteImport.update({
   id: '/duplicates',
   path: '/duplicates',
@@ -96,6 +138,11 @@ const ImportRoute = ImportRouteImport.update({
   path: '/import',
   getParentRoute: () => rootRouteImport,
 } as any)
+const LoginRoute = LoginRouteImport.update({
+  id: '/login',
+  path: '/login',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const NewRoute = NewRouteImport.update({
   id: '/new',
   path: '/new',
@@ -111,11 +158,31 @@ const RelationshipsRoute = RelationshipsRouteImport.update({
   path: '/relationships',
   getParentRoute: () => rootRouteImport,
 } as any)
+const SyncRoute = SyncRouteImport.update({
+  id: '/sync',
+  path: '/sync',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const TagsRoute = TagsRouteImport.update({
+  id: '/tags',
+  path: '/tags',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const TrashRoute = TrashRouteImport.update({
   id: '/trash',
   path: '/trash',
   getParentRoute: () => rootRouteImport,
 } as any)
+const UpcomingRoute = UpcomingRouteImport.update({
+  id: '/upcoming',
+  path: '/upcoming',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const UsersRoute = UsersRouteImport.update({
+  id: '/users',
+  path: '/users',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiAboutRoute = ApiAboutRouteImport.update({
   id: '/api/about',
   path: '/api/about',
@@ -126,6 +193,11 @@ const ApiAddressBooksRoute = ApiAddressBooksRouteImport.update({
   path: '/api/address-books',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiConflictsRoute = ApiConflictsRouteImport.update({
+  id: '/api/conflicts',
+  path: '/api/conflicts',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiContactsRoute = ApiContactsRouteImport.update({
   id: '/api/contacts',
   path: '/api/contacts',
@@ -172,11 +244,31 @@ const ApiSettingsRoute = ApiSettingsRouteImport.update({
   path: '/api/settings',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiSmartGroupsRoute = ApiSmartGroupsRouteImport.update({
+  id: '/api/smart-groups',
+  path: '/api/smart-groups',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiTagsRoute = ApiTagsRouteImport.update({
+  id: '/api/tags',
+  path: '/api/tags',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiUpcomingRoute = ApiUpcomingRouteImport.update({
+  id: '/api/upcoming',
+  path: '/api/upcoming',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiUserBookAssignmentsRoute = ApiUserBookAssignmentsRouteImport.update({
   id: '/api/user-book-assignments',
   path: '/api/user-book-assignments',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiUsersRoute = ApiUsersRouteImport.update({
+  id: '/api/users',
+  path: '/api/users',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiAddressBooksIdRoute = ApiAddressBooksIdRouteImport.update({
   id: '/$id',
   path: '/$id',
@@ -188,6 +280,32 @@ const ApiAddressBooksMembershipsRoute =
     path: '/memberships',
     getParentRoute: () => ApiAddressBooksRoute,
   } as any)
+const ApiAuthLoginRoute = ApiAuthLoginRouteImport.update({
+  id: '/api/auth/login',
+  path: '/api/auth/login',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAuthLogoutRoute = ApiAuthLogoutRouteImport.update({
+  id: '/api/auth/logout',
+  path: '/api/auth/logout',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAuthSessionRoute = ApiAuthSessionRouteImport.update({
+  id: '/api/auth/session',
+  path: '/api/auth/session',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAuthSetupRoute = ApiAuthSetupRouteImport.update({
+  id: '/api/auth/setup',
+  path: '/api/auth/setup',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiCalendarBirthdaysDoticsRoute =
+  ApiCalendarBirthdaysDoticsRouteImport.update({
+    id: '/api/calendar/birthdays.ics',
+    path: '/api/calendar/birthdays.ics',
+    getParentRoute: () => rootRouteImport,
+  } as any)
 const ApiContactsIdRoute = ApiContactsIdRouteImport.update({
   id: '/$id',
   path: '/$id',
@@ -198,6 +316,21 @@ const ApiContactsBulkBooksRoute = ApiContactsBulkBooksRouteImport.update({
   path: '/bulk-books',
   getParentRoute: () => ApiContactsRoute,
 } as any)
+const ApiContactsBulkDeleteRoute = ApiContactsBulkDeleteRouteImport.update({
+  id: '/bulk-delete',
+  path: '/bulk-delete',
+  getParentRoute: () => ApiContactsRoute,
+} as any)
+const ApiContactsBulkEditRoute = ApiContactsBulkEditRouteImport.update({
+  id: '/bulk-edit',
+  path: '/bulk-edit',
+  getParentRoute: () => ApiContactsRoute,
+} as any)
+const ApiContactsBulkTagsRoute = ApiContactsBulkTagsRouteImport.update({
+  id: '/bulk-tags',
+  path: '/bulk-tags',
+  getParentRoute: () => ApiContactsRoute,
+} as any)
 const ApiContactsDeduplicateRoute = ApiContactsDeduplicateRouteImport.update({
   id: '/deduplicate',
   path: '/deduplicate',
@@ -234,11 +367,63 @@ const ApiRadicaleUsersUsernameRoute =
     path: '/$username',
     getParentRoute: () => ApiRadicaleUsersRoute,
   } as any)
+const ApiRelationshipPlaceholdersIdRoute =
+  ApiRelationshipPlaceholdersIdRouteImport.update({
+    id: '/$id',
+    path: '/$id',
+    getParentRoute: () => ApiRelationshipPlaceholdersRoute,
+  } as any)
 const ApiRelationshipsIdRoute = ApiRelationshipsIdRouteImport.update({
   id: '/$id',
   path: '/$id',
   getParentRoute: () => ApiRelationshipsRoute,
 } as any)
+const ApiSmartGroupsIdRoute = ApiSmartGroupsIdRouteImport.update({
+  id: '/$id',
+  path: '/$id',
+  getParentRoute: () => ApiSmartGroupsRoute,
+} as any)
+const ApiSyncRunRoute = ApiSyncRunRouteImport.update({
+  id: '/api/sync/run',
+  path: '/api/sync/run',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiSyncStatusRoute = ApiSyncStatusRouteImport.update({
+  id: '/api/sync/status',
+  path: '/api/sync/status',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiTagsMergeRoute = ApiTagsMergeRouteImport.update({
+  id: '/merge',
+  path: '/merge',
+  getParentRoute: () => ApiTagsRoute,
+} as any)
+const ApiUsersIdRoute = ApiUsersIdRouteImport.update({
+  id: '/$id',
+  path: '/$id',
+  getParentRoute: () => ApiUsersRoute,
+} as any)
+const ApiAddressBooksIdCalendarFeedRoute =
+  ApiAddressBooksIdCalendarFeedRouteImport.update({
+    id: '/calendar-feed',
+    path: '/calendar-feed',
+    getParentRoute: () => ApiAddressBooksIdRoute,
+  } as any)
+const ApiAddressBooksIdGroupsRoute = ApiAddressBooksIdGroupsRouteImport.update({
+  id: '/groups',
+  path: '/groups',
+  getParentRoute: () => ApiAddressBooksIdRoute,
+} as any)
+const ApiAddressBooksIdResyncRoute = ApiAddressBooksIdResyncRouteImport.update({
+  id: '/resync',
+  path: '/resync',
+  getParentRoute: () => ApiAddressBooksIdRoute,
+} as any)
+const ApiContactsIdConflictsRoute = ApiContactsIdConflictsRouteImport.update({
+  id: '/conflicts',
+  path: '/conflicts',
+  getParentRoute: () => ApiContactsIdRoute,
+} as any)
 const ApiContactsIdPhotoRoute = ApiContactsIdPhotoRouteImport.update({
   id: '/photo',
   path: '/photo',
@@ -250,6 +435,17 @@ const ApiContactsIdRelationshipsRoute =
     path: '/relationships',
     getParentRoute: () => ApiContactsIdRoute,
   } as any)
+const ApiContactsIdResyncRoute = ApiContactsIdResyncRouteImport.update({
+  id: '/resync',
+  path: '/resync',
+  getParentRoute: () => ApiContactsIdRoute,
+} as any)
+const ApiContactsImportSessionsRoute =
+  ApiContactsImportSessionsRouteImport.update({
+    id: '/sessions',
+    path: '/sessions',
+    getParentRoute: () => ApiContactsImportRoute,
+  } as any)
 const ApiHistoryIdUndoRoute = ApiHistoryIdUndoRouteImport.update({
   id: '/$id/undo',
   path: '/$id/undo',
@@ -261,6 +457,41 @@ const ApiRadicaleUsersUsernameBackfillRoute =
     path: '/backfill',
     getParentRoute: () => ApiRadicaleUsersUsernameRoute,
   } as any)
+const ApiSyncRunsIdRoute = ApiSyncRunsIdRouteImport.update({
+  id: '/api/sync/runs/$id',
+  path: '/api/sync/runs/$id',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAddressBooksIdGroupsGroupIdRoute =
+  ApiAddressBooksIdGroupsGroupIdRouteImport.update({
+    id: '/$groupId',
+    path: '/$groupId',
+    getParentRoute: () => ApiAddressBooksIdGroupsRoute,
+  } as any)
+const ApiContactsIdConflictsConflictIdRoute =
+  ApiContactsIdConflictsConflictIdRouteImport.update({
+    id: '/$conflictId',
+    path: '/$conflictId',
+    getParentRoute: () => ApiContactsIdConflictsRoute,
+  } as any)
+const ApiContactsImportSessionsIdRoute =
+  ApiContactsImportSessionsIdRouteImport.update({
+    id: '/$id',
+    path: '/$id',
+    getParentRoute: () => ApiContactsImportSessionsRoute,
+  } as any)
+const ApiHistoryBatchesBatchIdUndoRoute =
+  ApiHistoryBatchesBatchIdUndoRouteImport.update({
+    id: '/batches/$batchId/undo',
+    path: '/batches/$batchId/undo',
+    getParentRoute: () => ApiHistoryRoute,
+  } as any)
+const ApiContactsImportSessionsIdCommitRoute =
+  ApiContactsImportSessionsIdCommitRouteImport.update({
+    id: '/commit',
+    path: '/commit',
+    getParentRoute: () => ApiContactsImportSessionsIdRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
@@ -268,42 +499,79 @@ export interface FileRoutesByFullPath {
   '/about': typeof AboutRoute
   '/books': typeof BooksRoute
   '/carddav-connection': typeof CarddavConnectionRoute
+  '/conflicts': typeof ConflictsRoute
   '/duplicates': typeof DuplicatesRoute
   '/help': typeof HelpRoute
   '/history': typeof HistoryRoute
   '/import': typeof ImportRoute
+  '/login': typeof LoginRoute
   '/new': typeof NewRoute
   '/radicale-users': typeof RadicaleUsersRoute
   '/relationships': typeof RelationshipsRoute
+  '/sync': typeof SyncRoute
+  '/tags': typeof TagsRoute
   '/trash': typeof TrashRoute
+  '/upcoming': typeof UpcomingRoute
+  '/users': typeof UsersRoute
   '/api/about': typeof ApiAboutRoute
   '/api/address-books': typeof ApiAddressBooksRouteWithChildren
+  '/api/conflicts': typeof ApiConflictsRoute
   '/api/contacts': typeof ApiContactsRouteWithChildren
   '/api/health': typeof ApiHealthRoute
   '/api/history': typeof ApiHistoryRouteWithChildren
   '/api/mobileconfig': typeof ApiMobileconfigRoute
   '/api/radicale-users': typeof ApiRadicaleUsersRouteWithChildren
-  '/api/relationship-placeholders': typeof ApiRelationshipPlaceholdersRoute
+  '/api/relationship-placeholders': typeof ApiRelationshipPlaceholdersRouteWithChildren
   '/api/relationships': typeof ApiRelationshipsRouteWithChildren
   '/api/runtime-config': typeof ApiRuntimeConfigRoute
   '/api/settings': typeof ApiSettingsRoute
+  '/api/smart-groups': typeof ApiSmartGroupsRouteWithChildren
+  '/api/tags': typeof ApiTagsRouteWithChildren
+  '/api/upcoming': typeof ApiUpcomingRoute
   '/api/user-book-assignments': typeof ApiUserBookAssignmentsRoute
-  '/api/address-books/$id': typeof ApiAddressBooksIdRoute
+  '/api/users': typeof ApiUsersRouteWithChildren
+  '/api/address-books/$id': typeof ApiAddressBooksIdRouteWithChildren
   '/api/address-books/memberships': typeof ApiAddressBooksMembershipsRoute
+  '/api/auth/login': typeof ApiAuthLoginRoute
+  '/api/auth/logout': typeof ApiAuthLogoutRoute
+  '/api/auth/session': typeof ApiAuthSessionRoute
+  '/api/auth/setup': typeof ApiAuthSetupRoute
+  '/api/calendar/birthdays.ics': typeof ApiCalendarBirthdaysDoticsRoute
   '/api/contacts/$id': typeof ApiContactsIdRouteWithChildren
   '/api/contacts/bulk-books': typeof ApiContactsBulkBooksRoute
+  '/api/contacts/bulk-delete': typeof ApiContactsBulkDeleteRoute
+  '/api/contacts/bulk-edit': typeof ApiContactsBulkEditRoute
+  '/api/contacts/bulk-tags': typeof ApiContactsBulkTagsRoute
   '/api/contacts/deduplicate': typeof ApiContactsDeduplicateRoute
   '/api/contacts/duplicates': typeof ApiContactsDuplicatesRoute
   '/api/contacts/export': typeof ApiContactsExportRoute
-  '/api/contacts/import': typeof ApiContactsImportRoute
+  '/api/contacts/import': typeof ApiContactsImportRouteWithChildren
   '/api/contacts/merge': typeof ApiContactsMergeRoute
   '/api/contacts/trash': typeof ApiContactsTrashRoute
   '/api/radicale-users/$username': typeof ApiRadicaleUsersUsernameRouteWithChildren
+  '/api/relationship-placeholders/$id': typeof ApiRelationshipPlaceholdersIdRoute
   '/api/relationships/$id': typeof ApiRelationshipsIdRoute
+  '/api/smart-groups/$id': typeof ApiSmartGroupsIdRoute
+  '/api/sync/run': typeof ApiSyncRunRoute
+  '/api/sync/status': typeof ApiSyncStatusRoute
+  '/api/tags/merge': typeof ApiTagsMergeRoute
+  '/api/users/$id': typeof ApiUsersIdRoute
+  '/api/address-books/$id/calendar-feed': typeof ApiAddressBooksIdCalendarFeedRoute
+  '/api/address-books/$id/groups': typeof ApiAddressBooksIdGroupsRouteWithChildren
+  '/api/address-books/$id/resync': typeof ApiAddressBooksIdResyncRoute
+  '/api/contacts/$id/conflicts': typeof ApiContactsIdConflictsRouteWithChildren
   '/api/contacts/$id/photo': typeof ApiContactsIdPhotoRoute
   '/api/contacts/$id/relationships': typeof ApiContactsIdRelationshipsRoute
+  '/api/contacts/$id/resync': typeof ApiContactsIdResyncRoute
+  '/api/contacts/import/sessions': typeof ApiContactsImportSessionsRouteWithChildren
   '/api/history/$id/undo': typeof ApiHistoryIdUndoRoute
   '/api/radicale-users/$username/backfill': typeof ApiRadicaleUsersUsernameBackfillRoute
+  '/api/sync/runs/$id': typeof ApiSyncRunsIdRoute
+  '/api/address-books/$id/groups/$groupId': typeof ApiAddressBooksIdGroupsGroupIdRoute
+  '/api/contacts/$id/conflicts/$conflictId': typeof ApiContactsIdConflictsConflictIdRoute
+  '/api/contacts/import/sessions/$id': typeof ApiContactsImportSessionsIdRouteWithChildren
+  '/api/history/batches/$batchId/undo': typeof ApiHistoryBatchesBatchIdUndoRoute
+  '/api/contacts/import/sessions/$id/commit': typeof ApiContactsImportSessionsIdCommitRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
@@ -311,42 +579,79 @@ export interface FileRoutesByTo {
   '/about': typeof AboutRoute
   '/books': typeof BooksRoute
   '/carddav-connection': typeof CarddavConnectionRoute
+  '/conflicts': typeof ConflictsRoute
   '/duplicates': typeof DuplicatesRoute
   '/help': typeof HelpRoute
   '/history': typeof HistoryRoute
   '/import': typeof ImportRoute
+  '/login': typeof LoginRoute
   '/new': typeof NewRoute
   '/radicale-users': typeof RadicaleUsersRoute
   '/relationships': typeof RelationshipsRoute
+  '/sync': typeof SyncRoute
+  '/tags': typeof TagsRoute
   '/trash': typeof TrashRoute
+  '/upcoming': typeof UpcomingRoute
+  '/users': typeof UsersRoute
   '/api/about': typeof ApiAboutRoute
   '/api/address-books': typeof ApiAddressBooksRouteWithChildren
+  '/api/conflicts': typeof ApiConflictsRoute
   '/api/contacts': typeof ApiContactsRouteWithChildren
   '/api/health': typeof ApiHealthRoute
   '/api/history': typeof ApiHistoryRouteWithChildren
   '/api/mobileconfig': typeof ApiMobileconfigRoute
   '/api/radicale-users': typeof ApiRadicaleUsersRouteWithChildren
-  '/api/relationship-placeholders': typeof ApiRelationshipPlaceholdersRoute
+  '/api/relationship-placeholders': typeof ApiRelationshipPlaceholdersRouteWithChildren
   '/api/relationships': typeof ApiRelationshipsRouteWithChildren
   '/api/runtime-config': typeof ApiRuntimeConfigRoute
   '/api/settings': typeof ApiSettingsRoute
+  '/api/smart-groups': typeof ApiSmartGroupsRouteWithChildren
+  '/api/tags': typeof ApiTagsRouteWithChildren
+  '/api/upcoming': typeof ApiUpcomingRoute
   '/api/user-book-assignments': typeof ApiUserBookAssignmentsRoute
-  '/api/address-books/$id': typeof ApiAddressBooksIdRoute
+  '/api/users': typeof ApiUsersRouteWithChildren
+  '/api/address-books/$id': typeof ApiAddressBooksIdRouteWithChildren
   '/api/address-books/memberships': typeof ApiAddressBooksMembershipsRoute
+  '/api/auth/login': typeof ApiAuthLoginRoute
+  '/api/auth/logout': typeof ApiAuthLogoutRoute
+  '/api/auth/session': typeof ApiAuthSessionRoute
+  '/api/auth/setup': typeof ApiAuthSetupRoute
+  '/api/calendar/birthdays.ics': typeof ApiCalendarBirthdaysDoticsRoute
   '/api/contacts/$id': typeof ApiContactsIdRouteWithChildren
   '/api/contacts/bulk-books': typeof ApiContactsBulkBooksRoute
+  '/api/contacts/bulk-delete': typeof ApiContactsBulkDeleteRoute
+  '/api/contacts/bulk-edit': typeof ApiContactsBulkEditRoute
+  '/api/contacts/bulk-tags': typeof ApiContactsBulkTagsRoute
   '/api/contacts/deduplicate': typeof ApiContactsDeduplicateRoute
   '/api/contacts/duplicates': typeof ApiContactsDuplicatesRoute
   '/api/contacts/export': typeof ApiContactsExportRoute
-  '/api/contacts/import': typeof ApiContactsImportRoute
+  '/api/contacts/import': typeof ApiContactsImportRouteWithChildren
   '/api/contacts/merge': typeof ApiContactsMergeRoute
   '/api/contacts/trash': typeof ApiContactsTrashRoute
   '/api/radicale-users/$username': typeof ApiRadicaleUsersUsernameRouteWithChildren
+  '/api/relationship-placeholders/$id': typeof ApiRelationshipPlaceholdersIdRoute
   '/api/relationships/$id': typeof ApiRelationshipsIdRoute
+  '/api/smart-groups/$id': typeof ApiSmartGroupsIdRoute
+  '/api/sync/run': typeof ApiSyncRunRoute
+  '/api/sync/status': typeof ApiSyncStatusRoute
+  '/api/tags/merge': typeof ApiTagsMergeRoute
+  '/api/users/$id': typeof ApiUsersIdRoute
+  '/api/address-books/$id/calendar-feed': typeof ApiAddressBooksIdCalendarFeedRoute
+  '/api/address-books/$id/groups': typeof ApiAddressBooksIdGroupsRouteWithChildren
+  '/api/address-books/$id/resync': typeof ApiAddressBooksIdResyncRoute
+  '/api/contacts/$id/conflicts': typeof ApiContactsIdConflictsRouteWithChildren
   '/api/contacts/$id/photo': typeof ApiContactsIdPhotoRoute
   '/api/contacts/$id/relationships': typeof ApiContactsIdRelationshipsRoute
+  '/api/contacts/$id/resync': typeof ApiContactsIdResyncRoute
+  '/api/contacts/import/sessions': typeof ApiContactsImportSessionsRouteWithChildren
   '/api/history/$id/undo': typeof ApiHistoryIdUndoRoute
   '/api/radicale-users/$username/backfill': typeof ApiRadicaleUsersUsernameBackfillRoute
+  '/api/sync/runs/$id': typeof ApiSyncRunsIdRoute
+  '/api/address-books/$id/groups/$groupId': typeof ApiAddressBooksIdGroupsGroupIdRoute
+  '/api/contacts/$id/conflicts/$conflictId': typeof ApiContactsIdConflictsConflictIdRoute
+  '/api/contacts/import/sessions/$id': typeof ApiContactsImportSessionsIdRouteWithChildren
+  '/api/history/batches/$batchId/undo': typeof ApiHistoryBatchesBatchIdUndoRoute
+  '/api/contacts/import/sessions/$id/commit': typeof ApiContactsImportSessionsIdCommitRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -355,42 +660,79 @@ export interface FileRoutesById {
   '/about': typeof AboutRoute
   '/books': typeof BooksRoute
   '/carddav-connection': typeof CarddavConnectionRoute
+  '/conflicts': typeof ConflictsRoute
   '/duplicates': typeof DuplicatesRoute
   '/help': typeof HelpRoute
   '/history': typeof HistoryRoute
   '/import': typeof ImportRoute
+  '/login': typeof LoginRoute
   '/new': typeof NewRoute
   '/radicale-users': typeof RadicaleUsersRoute
   '/relationships': typeof RelationshipsRoute
+  '/sync': typeof SyncRoute
+  '/tags': typeof TagsRoute
   '/trash': typeof TrashRoute
+  '/upcoming': typeof UpcomingRoute
+  '/users': typeof UsersRoute
   '/api/about': typeof ApiAboutRoute
   '/api/address-books': typeof ApiAddressBooksRouteWithChildren
+  '/api/conflicts': typeof ApiConflictsRoute
   '/api/contacts': typeof ApiContactsRouteWithChildren
   '/api/health': typeof ApiHealthRoute
   '/api/history': typeof ApiHistoryRouteWithChildren
   '/api/mobileconfig': typeof ApiMobileconfigRoute
   '/api/radicale-users': typeof ApiRadicaleUsersRouteWithChildren
-  '/api/relationship-placeholders': typeof ApiRelationshipPlaceholdersRoute
+  '/api/relationship-placeholders': typeof ApiRelationshipPlaceholdersRouteWithChildren
   '/api/relationships': typeof ApiRelationshipsRouteWithChildren
   '/api/runtime-config': typeof ApiRuntimeConfigRoute
   '/api/settings': typeof ApiSettingsRoute
+  '/api/smart-groups': typeof ApiSmartGroupsRouteWithChildren
+  '/api/tags': typeof ApiTagsRouteWithChildren
+  '/api/upcoming': typeof ApiUpcomingRoute
   '/api/user-book-assignments': typeof ApiUserBookAssignmentsRoute
-  '/api/address-books/$id': typeof ApiAddressBooksIdRoute
+  '/api/users': typeof ApiUsersRouteWithChildren
+  '/api/address-books/$id': typeof ApiAddressBooksIdRouteWithChildren
   '/api/address-books/memberships': typeof ApiAddressBooksMembershipsRoute
+  '/api/auth/login': typeof ApiAuthLoginRoute
+  '/api/auth/logout': typeof ApiAuthLogoutRoute
+  '/api/auth/session': typeof ApiAuthSessionRoute
+  '/api/auth/setup': typeof ApiAuthSetupRoute
+  '/api/calendar/birthdays.ics': typeof ApiCalendarBirthdaysDoticsRoute
   '/api/contacts/$id': typeof ApiContactsIdRouteWithChildren
   '/api/contacts/bulk-books': typeof ApiContactsBulkBooksRoute
+  '/api/contacts/bulk-delete': typeof ApiContactsBulkDeleteRoute
+  '/api/contacts/bulk-edit': typeof ApiContactsBulkEditRoute
+  '/api/contacts/bulk-tags': typeof ApiContactsBulkTagsRoute
   '/api/contacts/deduplicate': typeof ApiContactsDeduplicateRoute
   '/api/contacts/duplicates': typeof ApiContactsDuplicatesRoute
   '/api/contacts/export': typeof ApiContactsExportRoute
-  '/api/contacts/import': typeof ApiContactsImportRoute
+  '/api/contacts/import': typeof ApiContactsImportRouteWithChildren
   '/api/contacts/merge': typeof ApiContactsMergeRoute
   '/api/contacts/trash': typeof ApiContactsTrashRoute
   '/api/radicale-users/$username': typeof ApiRadicaleUsersUsernameRouteWithChildren
+  '/api/relationship-placeholders/$id': typeof ApiRelationshipPlaceholdersIdRoute
   '/api/relationships/$id': typeof ApiRelationshipsIdRoute
+  '/api/smart-groups/$id': typeof ApiSmartGroupsIdRoute
+  '/api/sync/run': typeof ApiSyncRunRoute
+  '/api/sync/status': typeof ApiSyncStatusRoute
+  '/api/tags/merge': typeof ApiTagsMergeRoute
+  '/api/users/$id': typeof ApiUsersIdRoute
+  '/api/address-books/$id/calendar-feed': typeof ApiAddressBooksIdCalendarFeedRoute
+  '/api/address-books/$id/groups': typeof ApiAddressBooksIdGroupsRouteWithChildren
+  '/api/address-books/$id/resync': typeof ApiAddressBooksIdResyncRoute
+  '/api/contacts/$id/conflicts': typeof ApiContactsIdConflictsRouteWithChildren
   '/api/contacts/$id/photo': typeof ApiContactsIdPhotoRoute
   '/api/contacts/$id/relationships': typeof ApiContactsIdRelationshipsRoute
+  '/api/contacts/$id/resync': typeof ApiContactsIdResyncRoute
+  '/api/contacts/import/sessions': typeof ApiContactsImportSessionsRouteWithChildren
   '/api/history/$id/undo': typeof ApiHistoryIdUndoRoute
   '/api/radicale-users/$username/backfill': typeof ApiRadicaleUsersUsernameBackfillRoute
+  '/api/sync/runs/$id': typeof ApiSyncRunsIdRoute
+  '/api/address-books/$id/groups/$groupId': typeof ApiAddressBooksIdGroupsGroupIdRoute
+  '/api/contacts/$id/conflicts/$conflictId': typeof ApiContactsIdConflictsConflictIdRoute
+  '/api/contacts/import/sessions/$id': typeof ApiContactsImportSessionsIdRouteWithChildren
+  '/api/history/batches/$batchId/undo': typeof ApiHistoryBatchesBatchIdUndoRoute
+  '/api/contacts/import/sessions/$id/commit': typeof ApiContactsImportSessionsIdCommitRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -400,16 +742,23 @@ export interface FileRouteTypes {
     | '/about'
     | '/books'
     | '/carddav-connection'
+    | '/conflicts'
     | '/duplicates'
     | '/help'
     | '/history'
     | '/import'
+    | '/login'
     | '/new'
     | '/radicale-users'
     | '/relationships'
+    | '/sync'
+    | '/tags'
     | '/trash'
+    | '/upcoming'
+    | '/users'
     | '/api/about'
     | '/api/address-books'
+    | '/api/conflicts'
     | '/api/contacts'
     | '/api/health'
     | '/api/history'
@@ -419,11 +768,23 @@ export interface FileRouteTypes {
     | '/api/relationships'
     | '/api/runtime-config'
     | '/api/settings'
+    | '/api/smart-groups'
+    | '/api/tags'
+    | '/api/upcoming'
     | '/api/user-book-assignments'
+    | '/api/users'
     | '/api/address-books/$id'
     | '/api/address-books/memberships'
+    | '/api/auth/login'
+    | '/api/auth/logout'
+    | '/api/auth/session'
+    | '/api/auth/setup'
+    | '/api/calendar/birthdays.ics'
     | '/api/contacts/$id'
     | '/api/contacts/bulk-books'
+    | '/api/contacts/bulk-delete'
+    | '/api/contacts/bulk-edit'
+    | '/api/contacts/bulk-tags'
     | '/api/contacts/deduplicate'
     | '/api/contacts/duplicates'
     | '/api/contacts/export'
@@ -431,11 +792,29 @@ export interface FileRouteTypes {
     | '/api/contacts/merge'
     | '/api/contacts/trash'
     | '/api/radicale-users/$username'
+    | '/api/relationship-placeholders/$id'
     | '/api/relationships/$id'
+    | '/api/smart-groups/$id'
+    | '/api/sync/run'
+    | '/api/sync/status'
+    | '/api/tags/merge'
+    | '/api/users/$id'
+    | '/api/address-books/$id/calendar-feed'
+    | '/api/address-books/$id/groups'
+    | '/api/address-books/$id/resync'
+    | '/api/contacts/$id/conflicts'
     | '/api/contacts/$id/photo'
     | '/api/contacts/$id/relationships'
+    | '/api/contacts/$id/resync'
+    | '/api/contacts/import/sessions'
     | '/api/history/$id/undo'
     | '/api/radicale-users/$username/backfill'
+    | '/api/sync/runs/$id'
+    | '/api/address-books/$id/groups/$groupId'
+    | '/api/contacts/$id/conflicts/$conflictId'
+    | '/api/contacts/import/sessions/$id'
+    | '/api/history/batches/$batchId/undo'
+    | '/api/contacts/import/sessions/$id/commit'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
@@ -443,16 +822,23 @@ export interface FileRouteTypes {
     | '/about'
     | '/books'
     | '/carddav-connection'
+    | '/conflicts'
     | '/duplicates'
     | '/help'
     | '/history'
     | '/import'
+    | '/login'
     | '/new'
     | '/radicale-users'
     | '/relationships'
+    | '/sync'
+    | '/tags'
     | '/trash'
+    | '/upcoming'
+    | '/users'
     | '/api/about'
     | '/api/address-books'
+    | '/api/conflicts'
     | '/api/contacts'
     | '/api/health'
     | '/api/history'
@@ -462,11 +848,23 @@ export interface FileRouteTypes {
     | '/api/relationships'
     | '/api/runtime-config'
     | '/api/settings'
+    | '/api/smart-groups'
+    | '/api/tags'
+    | '/api/upcoming'
     | '/api/user-book-assignments'
+    | '/api/users'
     | '/api/address-books/$id'
     | '/api/address-books/memberships'
+    | '/api/auth/login'
+    | '/api/auth/logout'
+    | '/api/auth/session'
+    | '/api/auth/setup'
+    | '/api/calendar/birthdays.ics'
     | '/api/contacts/$id'
     | '/api/contacts/bulk-books'
+    | '/api/contacts/bulk-delete'
+    | '/api/contacts/bulk-edit'
+    | '/api/contacts/bulk-tags'
     | '/api/contacts/deduplicate'
     | '/api/contacts/duplicates'
     | '/api/contacts/export'
@@ -474,11 +872,29 @@ export interface FileRouteTypes {
     | '/api/contacts/merge'
     | '/api/contacts/trash'
     | '/api/radicale-users/$username'
+    | '/api/relationship-placeholders/$id'
     | '/api/relationships/$id'
+    | '/api/smart-groups/$id'
+    | '/api/sync/run'
+    | '/api/sync/status'
+    | '/api/tags/merge'
+    | '/api/users/$id'
+    | '/api/address-books/$id/calendar-feed'
+    | '/api/address-books/$id/groups'
+    | '/api/address-books/$id/resync'
+    | '/api/contacts/$id/conflicts'
     | '/api/contacts/$id/photo'
     | '/api/contacts/$id/relationships'
+    | '/api/contacts/$id/resync'
+    | '/api/contacts/import/sessions'
     | '/api/history/$id/undo'
     | '/api/radicale-users/$username/backfill'
+    | '/api/sync/runs/$id'
+    | '/api/address-books/$id/groups/$groupId'
+    | '/api/contacts/$id/conflicts/$conflictId'
+    | '/api/contacts/import/sessions/$id'
+    | '/api/history/batches/$batchId/undo'
+    | '/api/contacts/import/sessions/$id/commit'
   id:
     | '__root__'
     | '/'
@@ -486,16 +902,23 @@ export interface FileRouteTypes {
     | '/about'
     | '/books'
     | '/carddav-connection'
+    | '/conflicts'
     | '/duplicates'
     | '/help'
     | '/history'
     | '/import'
+    | '/login'
     | '/new'
     | '/radicale-users'
     | '/relationships'
+    | '/sync'
+    | '/tags'
     | '/trash'
+    | '/upcoming'
+    | '/users'
     | '/api/about'
     | '/api/address-books'
+    | '/api/conflicts'
     | '/api/contacts'
     | '/api/health'
     | '/api/history'
@@ -505,11 +928,23 @@ export interface FileRouteTypes {
     | '/api/relationships'
     | '/api/runtime-config'
     | '/api/settings'
+    | '/api/smart-groups'
+    | '/api/tags'
+    | '/api/upcoming'
     | '/api/user-book-assignments'
+    | '/api/users'
     | '/api/address-books/$id'
     | '/api/address-books/memberships'
+    | '/api/auth/login'
+    | '/api/auth/logout'
+    | '/api/auth/session'
+    | '/api/auth/setup'
+    | '/api/calendar/birthdays.ics'
     | '/api/contacts/$id'
     | '/api/contacts/bulk-books'
+    | '/api/contacts/bulk-delete'
+    | '/api/contacts/bulk-edit'
+    | '/api/contacts/bulk-tags'
     | '/api/contacts/deduplicate'
     | '/api/contacts/duplicates'
     | '/api/contacts/export'
@@ -517,11 +952,29 @@ export interface FileRouteTypes {
     | '/api/contacts/merge'
     | '/api/contacts/trash'
     | '/api/radicale-users/$username'
+    | '/api/relationship-placeholders/$id'
     | '/api/relationships/$id'
+    | '/api/smart-groups/$id'
+    | '/api/sync/run'
+    | '/api/sync/status'
+    | '/api/tags/merge'
+    | '/api/users/$id'
+    | '/api/address-books/$id/calendar-feed'
+    | '/api/address-books/$id/groups'
+    | '/api/address-books/$id/resync'
+    | '/api/contacts/$id/conflicts'
     | '/api/contacts/$id/photo'
     | '/api/contacts/$id/relationships'
+    | '/api/contacts/$id/resync'
+    | '/api/contacts/import/sessions'
     | '/api/history/$id/undo'
     | '/api/radicale-users/$username/backfill'
+    | '/api/sync/runs/$id'
+    | '/api/address-books/$id/groups/$groupId'
+    | '/api/contacts/$id/conflicts/$conflictId'
+    | '/api/contacts/import/sessions/$id'
+    | '/api/history/batches/$batchId/undo'
+    | '/api/contacts/import/sessions/$id/commit'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -530,26 +983,45 @@ export interface RootRouteChildren {
   AboutRoute: typeof AboutRoute
   BooksRoute: typeof BooksRoute
   CarddavConnectionRoute: typeof CarddavConnectionRoute
+  ConflictsRoute: typeof ConflictsRoute
   DuplicatesRoute: typeof DuplicatesRoute
   HelpRoute: typeof HelpRoute
   HistoryRoute: typeof HistoryRoute
   ImportRoute: typeof ImportRoute
+  LoginRoute: typeof LoginRoute
   NewRoute: typeof NewRoute
   RadicaleUsersRoute: typeof RadicaleUsersRoute
   RelationshipsRoute: typeof RelationshipsRoute
+  SyncRoute: typeof SyncRoute
+  TagsRoute: typeof TagsRoute
   TrashRoute: typeof TrashRoute
+  UpcomingRoute: typeof UpcomingRoute
+  UsersRoute: typeof UsersRoute
   ApiAboutRoute: typeof ApiAboutRoute
   ApiAddressBooksRoute: typeof ApiAddressBooksRouteWithChildren
+  ApiConflictsRoute: typeof ApiConflictsRoute
   ApiContactsRoute: typeof ApiContactsRouteWithChildren
   ApiHealthRoute: typeof ApiHealthRoute
   ApiHistoryRoute: typeof ApiHistoryRouteWithChildren
   ApiMobileconfigRoute: typeof ApiMobileconfigRoute
   ApiRadicaleUsersRoute: typeof ApiRadicaleUsersRouteWithChildren
-  ApiRelationshipPlaceholdersRoute: typeof ApiRelationshipPlaceholdersRoute
+  ApiRelationshipPlaceholdersRoute: typeof ApiRelationshipPlaceholdersRouteWithChildren
   ApiRelationshipsRoute: typeof ApiRelationshipsRouteWithChildren
   ApiRuntimeConfigRoute: typeof ApiRuntimeConfigRoute
   ApiSettingsRoute: typeof ApiSettingsRoute
+  ApiSmartGroupsRoute: typeof ApiSmartGroupsRouteWithChildren
+  ApiTagsRoute: typeof ApiTagsRouteWithChildren
+  ApiUpcomingRoute: typeof ApiUpcomingRoute
   ApiUserBookAssignmentsRoute: typeof ApiUserBookAssignmentsRoute
+  ApiUsersRoute: typeof ApiUsersRouteWithChildren
+  ApiAuthLoginRoute: typeof ApiAuthLoginRoute
+  ApiAuthLogoutRoute: typeof ApiAuthLogoutRoute
+  ApiAuthSessionRoute: typeof ApiAuthSessionRoute
+  ApiAuthSetupRoute: typeof ApiAuthSetupRoute
+  ApiCalendarBirthdaysDoticsRoute: typeof ApiCalendarBirthdaysDoticsRoute
+  ApiSyncRunRoute: typeof ApiSyncRunRoute
+  ApiSyncStatusRoute: typeof ApiSyncStatusRoute
+  ApiSyncRunsIdRoute: typeof ApiSyncRunsIdRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -589,6 +1061,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof CarddavConnectionRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/conflicts': {
+      id: '/conflicts'
+      path: '/conflicts'
+      fullPath: '/conflicts'
+      preLoaderRoute: typeof ConflictsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/duplicates': {
       id: '/duplicates'
       path: '/duplicates'
@@ -617,6 +1096,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ImportRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/login': {
+      id: '/login'
+      path: '/login'
+      fullPath: '/login'
+      preLoaderRoute: typeof LoginRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/new': {
       id: '/new'
       path: '/new'
@@ -638,6 +1124,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof RelationshipsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/sync': {
+      id: '/sync'
+      path: '/sync'
+      fullPath: '/sync'
+      preLoaderRoute: typeof SyncRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/tags': {
+      id: '/tags'
+      path: '/tags'
+      fullPath: '/tags'
+      preLoaderRoute: typeof TagsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/trash': {
       id: '/trash'
       path: '/trash'
@@ -645,6 +1145,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof TrashRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/upcoming': {
+      id: '/upcoming'
+      path: '/upcoming'
+      fullPath: '/upcoming'
+      preLoaderRoute: typeof UpcomingRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/users': {
+      id: '/users'
+      path: '/users'
+      fullPath: '/users'
+      preLoaderRoute: typeof UsersRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/about': {
       id: '/api/about'
       path: '/api/about'
@@ -659,6 +1173,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiAddressBooksRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/conflicts': {
+      id: '/api/conflicts'
+      path: '/api/conflicts'
+      fullPath: '/api/conflicts'
+      preLoaderRoute: typeof ApiConflictsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/contacts': {
       id: '/api/contacts'
       path: '/api/contacts'
@@ -722,6 +1243,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiSettingsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/smart-groups': {
+      id: '/api/smart-groups'
+      path: '/api/smart-groups'
+      fullPath: '/api/smart-groups'
+      preLoaderRoute: typeof ApiSmartGroupsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/tags': {
+      id: '/api/tags'
+      path: '/api/tags'
+      fullPath: '/api/tags'
+      preLoaderRoute: typeof ApiTagsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/upcoming': {
+      id: '/api/upcoming'
+      path: '/api/upcoming'
+      fullPath: '/api/upcoming'
+      preLoaderRoute: typeof ApiUpcomingRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/user-book-assignments': {
       id: '/api/user-book-assignments'
       path: '/api/user-book-assignments'
@@ -729,6 +1271,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiUserBookAssignmentsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/users': {
+      id: '/api/users'
+      path: '/api/users'
+      fullPath: '/api/users'
+      preLoaderRoute: typeof ApiUsersRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/address-books/$id': {
       id: '/api/address-books/$id'
       path: '/$id'
@@ -743,6 +1292,41 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiAddressBooksMembershipsRouteImport
       parentRoute: typeof ApiAddressBooksRoute
     }
+    '/api/auth/login': {
+      id: '/api/auth/login'
+      path: '/api/auth/login'
+      fullPath: '/api/auth/login'
+      preLoaderRoute: typeof ApiAuthLoginRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/auth/logout': {
+      id: '/api/auth/logout'
+      path: '/api/auth/logout'
+      fullPath: '/api/auth/logout'
+      preLoaderRoute: typeof ApiAuthLogoutRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/auth/session': {
+      id: '/api/auth/session'
+      path: '/api/auth/session'
+      fullPath: '/api/auth/session'
+      preLoaderRoute: typeof ApiAuthSessionRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/auth/setup': {
+      id: '/api/auth/setup'
+      path: '/api/auth/setup'
+      fullPath: '/api/auth/setup'
+      preLoaderRoute: typeof ApiAuthSetupRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/calendar/birthdays.ics': {
+      id: '/api/calendar/birthdays.ics'
+      path: '/api/calendar/birthdays.ics'
+      fullPath: '/api/calendar/birthdays.ics'
+      preLoaderRoute: typeof ApiCalendarBirthdaysDoticsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/contacts/$id': {
       id: '/api/contacts/$id'
       path: '/$id'
@@ -757,6 +1341,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiContactsBulkBooksRouteImport
       parentRoute: typeof ApiContactsRoute
     }
+    '/api/contacts/bulk-delete': {
+      id: '/api/contacts/bulk-delete'
+      path: '/bulk-delete'
+      fullPath: '/api/contacts/bulk-delete'
+      preLoaderRoute: typeof ApiContactsBulkDeleteRouteImport
+      parentRoute: typeof ApiContactsRoute
+    }
+    '/api/contacts/bulk-edit': {
+      id: '/api/contacts/bulk-edit'
+      path: '/bulk-edit'
+      fullPath: '/api/contacts/bulk-edit'
+      preLoaderRoute: typeof ApiContactsBulkEditRouteImport
+      parentRoute: typeof ApiContactsRoute
+    }
+    '/api/contacts/bulk-tags': {
+      id: '/api/contacts/bulk-tags'
+      path: '/bulk-tags'
+      fullPath: '/api/contacts/bulk-tags'
+      preLoaderRoute: typeof ApiContactsBulkTagsRouteImport
+      parentRoute: typeof ApiContactsRoute
+    }
     '/api/contacts/deduplicate': {
       id: '/api/contacts/deduplicate'
       path: '/deduplicate'
@@ -806,6 +1411,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiRadicaleUsersUsernameRouteImport
       parentRoute: typeof ApiRadicaleUsersRoute
     }
+    '/api/relationship-placeholders/$id': {
+      id: '/api/relationship-placeholders/$id'
+      path: '/$id'
+      fullPath: '/api/relationship-placeholders/$id'
+      preLoaderRoute: typeof ApiRelationshipPlaceholdersIdRouteImport
+      parentRoute: typeof ApiRelationshipPlaceholdersRoute
+    }
     '/api/relationships/$id': {
       id: '/api/relationships/$id'
       path: '/$id'
@@ -813,6 +1425,69 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiRelationshipsIdRouteImport
       parentRoute: typeof ApiRelationshipsRoute
     }
+    '/api/smart-groups/$id': {
+      id: '/api/smart-groups/$id'
+      path: '/$id'
+      fullPath: '/api/smart-groups/$id'
+      preLoaderRoute: typeof ApiSmartGroupsIdRouteImport
+      parentRoute: typeof ApiSmartGroupsRoute
+    }
+    '/api/sync/run': {
+      id: '/api/sync/run'
+      path: '/api/sync/run'
+      fullPath: '/api/sync/run'
+      preLoaderRoute: typeof ApiSyncRunRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/sync/status': {
+      id: '/api/sync/status'
+      path: '/api/sync/status'
+      fullPath: '/api/sync/status'
+      preLoaderRoute: typeof ApiSyncStatusRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/tags/merge': {
+      id: '/api/tags/merge'
+      path: '/merge'
+      fullPath: '/api/tags/merge'
+      preLoaderRoute: typeof ApiTagsMergeRouteImport
+      parentRoute: typeof ApiTagsRoute
+    }
+    '/api/users/$id': {
+      id: '/api/users/$id'
+      path: '/$id'
+      fullPath: '/api/users/$id'
+      preLoaderRoute: typeof ApiUsersIdRouteImport
+      parentRoute: typeof ApiUsersRoute
+    }
+    '/api/address-books/$id/calendar-feed': {
+      id: '/api/address-books/$id/calendar-feed'
+      path: '/calendar-feed'
+      fullPath: '/api/address-books/$id/calendar-feed'
+      preLoaderRoute: typeof ApiAddressBooksIdCalendarFeedRouteImport
+      parentRoute: typeof ApiAddressBooksIdRoute
+    }
+    '/api/address-books/$id/groups': {
+      id: '/api/address-books/$id/groups'
+      path: '/groups'
+      fullPath: '/api/address-books/$id/groups'
+      preLoaderRoute: typeof ApiAddressBooksIdGroupsRouteImport
+      parentRoute: typeof ApiAddressBooksIdRoute
+    }
+    '/api/address-books/$id/resync': {
+      id: '/api/address-books/$id/resync'
+      path: '/resync'
+      fullPath: '/api/address-books/$id/resync'
+      preLoaderRoute: typeof ApiAddressBooksIdResyncRouteImport
+      parentRoute: typeof ApiAddressBooksIdRoute
+    }
+    '/api/contacts/$id/conflicts': {
+      id: '/api/contacts/$id/conflicts'
+      path: '/conflicts'
+      fullPath: '/api/contacts/$id/conflicts'
+      preLoaderRoute: typeof ApiContactsIdConflictsRouteImport
+      parentRoute: typeof ApiContactsIdRoute
+    }
     '/api/contacts/$id/photo': {
       id: '/api/contacts/$id/photo'
       path: '/photo'
@@ -827,6 +1502,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiContactsIdRelationshipsRouteImport
       parentRoute: typeof ApiContactsIdRoute
     }
+    '/api/contacts/$id/resync': {
+      id: '/api/contacts/$id/resync'
+      path: '/resync'
+      fullPath: '/api/contacts/$id/resync'
+      preLoaderRoute: typeof ApiContactsIdResyncRouteImport
+      parentRoute: typeof ApiContactsIdRoute
+    }
+    '/api/contacts/import/sessions': {
+      id: '/api/contacts/import/sessions'
+      path: '/sessions'
+      fullPath: '/api/contacts/import/sessions'
+      preLoaderRoute: typeof ApiContactsImportSessionsRouteImport
+      parentRoute: typeof ApiContactsImportRoute
+    }
     '/api/history/$id/undo': {
       id: '/api/history/$id/undo'
       path: '/$id/undo'
@@ -841,16 +1530,87 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiRadicaleUsersUsernameBackfillRouteImport
       parentRoute: typeof ApiRadicaleUsersUsernameRoute
     }
+    '/api/sync/runs/$id': {
+      id: '/api/sync/runs/$id'
+      path: '/api/sync/runs/$id'
+      fullPath: '/api/sync/runs/$id'
+      preLoaderRoute: typeof ApiSyncRunsIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/address-books/$id/groups/$groupId': {
+      id: '/api/address-books/$id/groups/$groupId'
+      path: '/$groupId'
+      fullPath: '/api/address-books/$id/groups/$groupId'
+      preLoaderRoute: typeof ApiAddressBooksIdGroupsGroupIdRouteImport
+      parentRoute: typeof ApiAddressBooksIdGroupsRoute
+    }
+    '/api/contacts/$id/conflicts/$conflictId': {
+      id: '/api/contacts/$id/conflicts/$conflictId'
+      path: '/$conflictId'
+      fullPath: '/api/contacts/$id/conflicts/$conflictId'
+      preLoaderRoute: typeof ApiContactsIdConflictsConflictIdRouteImport
+      parentRoute: typeof ApiContactsIdConflictsRoute
+    }
+    '/api/contacts/import/sessions/$id': {
+      id: '/api/contacts/import/sessions/$id'
+      path: '/$id'
+      fullPath: '/api/contacts/import/sessions/$id'
+      preLoaderRoute: typeof ApiContactsImportSessionsIdRouteImport
+      parentRoute: typeof ApiContactsImportSessionsRoute
+    }
+    '/api/history/batches/$batchId/undo': {
+      id: '/api/history/batches/$batchId/undo'
+      path: '/batches/$batchId/undo'
+      fullPath: '/api/history/batches/$batchId/undo'
+      preLoaderRoute: typeof ApiHistoryBatchesBatchIdUndoRouteImport
+      parentRoute: typeof ApiHistoryRoute
+    }
+    '/api/contacts/import/sessions/$id/commit': {
+      id: '/api/contacts/import/sessions/$id/commit'
+      path: '/commit'
+      fullPath: '/api/contacts/import/sessions/$id/commit'
+      preLoaderRoute: typeof ApiContactsImportSessionsIdCommitRouteImport
+      parentRoute: typeof ApiContactsImportSessionsIdRoute
+    }
+  }
+}
+
+interface ApiAddressBooksIdGroupsRouteChildren {
+  ApiAddressBooksIdGroupsGroupIdRoute: typeof ApiAddressBooksIdGroupsGroupIdRoute
+}
+
+const ApiAddressBooksIdGroupsRouteChildren: ApiAddressBooksIdGroupsRouteChildren =
+  {
+    ApiAddressBooksIdGroupsGroupIdRoute: ApiAddressBooksIdGroupsGroupIdRoute,
   }
+
+const ApiAddressBooksIdGroupsRouteWithChildren =
+  ApiAddressBooksIdGroupsRoute._addFileChildren(
+    ApiAddressBooksIdGroupsRouteChildren,
+  )
+
+interface ApiAddressBooksIdRouteChildren {
+  ApiAddressBooksIdCalendarFeedRoute: typeof ApiAddressBooksIdCalendarFeedRoute
+  ApiAddressBooksIdGroupsRoute: typeof ApiAddressBooksIdGroupsRouteWithChildren
+  ApiAddressBooksIdResyncRoute: typeof ApiAddressBooksIdResyncRoute
+}
+
+const ApiAddressBooksIdRouteChildren: ApiAddressBooksIdRouteChildren = {
+  ApiAddressBooksIdCalendarFeedRoute: ApiAddressBooksIdCalendarFeedRoute,
+  ApiAddressBooksIdGroupsRoute: ApiAddressBooksIdGroupsRouteWithChildren,
+  ApiAddressBooksIdResyncRoute: ApiAddressBooksIdResyncRoute,
 }
 
+const ApiAddressBooksIdRouteWithChildren =
+  ApiAddressBooksIdRoute._addFileChildren(ApiAddressBooksIdRouteChildren)
+
 interface ApiAddressBooksRouteChildren {
-  ApiAddressBooksIdRoute: typeof ApiAddressBooksIdRoute
+  ApiAddressBooksIdRoute: typeof ApiAddressBooksIdRouteWithChildren
   ApiAddressBooksMembershipsRoute: typeof ApiAddressBooksMembershipsRoute
 }
 
 const ApiAddressBooksRouteChildren: ApiAddressBooksRouteChildren = {
-  ApiAddressBooksIdRoute: ApiAddressBooksIdRoute,
+  ApiAddressBooksIdRoute: ApiAddressBooksIdRouteWithChildren,
   ApiAddressBooksMembershipsRoute: ApiAddressBooksMembershipsRoute,
 }
 
@@ -858,27 +1618,90 @@ const ApiAddressBooksRouteWithChildren = ApiAddressBooksRoute._addFileChildren(
   ApiAddressBooksRouteChildren,
 )
 
+interface ApiContactsIdConflictsRouteChildren {
+  ApiContactsIdConflictsConflictIdRoute: typeof ApiContactsIdConflictsConflictIdRoute
+}
+
+const ApiContactsIdConflictsRouteChildren: ApiContactsIdConflictsRouteChildren =
+  {
+    ApiContactsIdConflictsConflictIdRoute:
+      ApiContactsIdConflictsConflictIdRoute,
+  }
+
+const ApiContactsIdConflictsRouteWithChildren =
+  ApiContactsIdConflictsRoute._addFileChildren(
+    ApiContactsIdConflictsRouteChildren,
+  )
+
 interface ApiContactsIdRouteChildren {
+  ApiContactsIdConflictsRoute: typeof ApiContactsIdConflictsRouteWithChildren
   ApiContactsIdPhotoRoute: typeof ApiContactsIdPhotoRoute
   ApiContactsIdRelationshipsRoute: typeof ApiContactsIdRelationshipsRoute
+  ApiContactsIdResyncRoute: typeof ApiContactsIdResyncRoute
 }
 
 const ApiContactsIdRouteChildren: ApiContactsIdRouteChildren = {
+  ApiContactsIdConflictsRoute: ApiContactsIdConflictsRouteWithChildren,
   ApiContactsIdPhotoRoute: ApiContactsIdPhotoRoute,
   ApiContactsIdRelationshipsRoute: ApiContactsIdRelationshipsRoute,
+  ApiContactsIdResyncRoute: ApiContactsIdResyncRoute,
 }
 
 const ApiContactsIdRouteWithChildren = ApiContactsIdRoute._addFileChildren(
   ApiContactsIdRouteChildren,
 )
 
+interface ApiContactsImportSessionsIdRouteChildren {
+  ApiContactsImportSessionsIdCommitRoute: typeof ApiContactsImportSessionsIdCommitRoute
+}
+
+const ApiContactsImportSessionsIdRouteChildren: ApiContactsImportSessionsIdRouteChildren =
+  {
+    ApiContactsImportSessionsIdCommitRoute:
+      ApiContactsImportSessionsIdCommitRoute,
+  }
+
+const ApiContactsImportSessionsIdRouteWithChildren =
+  ApiContactsImportSessionsIdRoute._addFileChildren(
+    ApiContactsImportSessionsIdRouteChildren,
+  )
+
+interface ApiContactsImportSessionsRouteChildren {
+  ApiContactsImportSessionsIdRoute: typeof ApiContactsImportSessionsIdRouteWithChildren
+}
+
+const ApiContactsImportSessionsRouteChildren: ApiContactsImportSessionsRouteChildren =
+  {
+    ApiContactsImportSessionsIdRoute:
+      ApiContactsImportSessionsIdRouteWithChildren,
+  }
+
+const ApiContactsImportSessionsRouteWithChildren =
+  ApiContactsImportSessionsRoute._addFileChildren(
+    ApiContactsImportSessionsRouteChildren,
+  )
+
+interface ApiContactsImportRouteChildren {
+  ApiContactsImportSessionsRoute: typeof ApiContactsImportSessionsRouteWithChildren
+}
+
+const ApiContactsImportRouteChildren: ApiContactsImportRouteChildren = {
+  ApiContactsImportSessionsRoute: ApiContactsImportSessionsRouteWithChildren,
+}
+
+const ApiContactsImportRouteWithChildren =
+  ApiContactsImportRoute._addFileChildren(ApiContactsImportRouteChildren)
+
 interface ApiContactsRouteChildren {
   ApiContactsIdRoute: typeof ApiContactsIdRouteWithChildren
   ApiContactsBulkBooksRoute: typeof ApiContactsBulkBooksRoute
+  ApiContactsBulkDeleteRoute: typeof ApiContactsBulkDeleteRoute
+  ApiContactsBulkEditRoute: typeof ApiContactsBulkEditRoute
+  ApiContactsBulkTagsRoute: typeof ApiContactsBulkTagsRoute
   ApiContactsDeduplicateRoute: typeof ApiContactsDeduplicateRoute
   ApiContactsDuplicatesRoute: typeof ApiContactsDuplicatesRoute
   ApiContactsExportRoute: typeof ApiContactsExportRoute
-  ApiContactsImportRoute: typeof ApiContactsImportRoute
+  ApiContactsImportRoute: typeof ApiContactsImportRouteWithChildren
   ApiContactsMergeRoute: typeof ApiContactsMergeRoute
   ApiContactsTrashRoute: typeof ApiContactsTrashRoute
 }
@@ -886,10 +1709,13 @@ interface ApiContactsRouteChildren {
 const ApiContactsRouteChildren: ApiContactsRouteChildren = {
   ApiContactsIdRoute: ApiContactsIdRouteWithChildren,
   ApiContactsBulkBooksRoute: ApiContactsBulkBooksRoute,
+  ApiContactsBulkDeleteRoute: ApiContactsBulkDeleteRoute,
+  ApiContactsBulkEditRoute: ApiContactsBulkEditRoute,
+  ApiContactsBulkTagsRoute: ApiContactsBulkTagsRoute,
   ApiContactsDeduplicateRoute: ApiContactsDeduplicateRoute,
   ApiContactsDuplicatesRoute: ApiContactsDuplicatesRoute,
   ApiContactsExportRoute: ApiContactsExportRoute,
-  ApiContactsImportRoute: ApiContactsImportRoute,
+  ApiContactsImportRoute: ApiContactsImportRouteWithChildren,
   ApiContactsMergeRoute: ApiContactsMergeRoute,
   ApiContactsTrashRoute: ApiContactsTrashRoute,
 }
@@ -900,10 +1726,12 @@ const ApiContactsRouteWithChildren = ApiContactsRoute._addFileChildren(
 
 interface ApiHistoryRouteChildren {
   ApiHistoryIdUndoRoute: typeof ApiHistoryIdUndoRoute
+  ApiHistoryBatchesBatchIdUndoRoute: typeof ApiHistoryBatchesBatchIdUndoRoute
 }
 
 const ApiHistoryRouteChildren: ApiHistoryRouteChildren = {
   ApiHistoryIdUndoRoute: ApiHistoryIdUndoRoute,
+  ApiHistoryBatchesBatchIdUndoRoute: ApiHistoryBatchesBatchIdUndoRoute,
 }
 
 const ApiHistoryRouteWithChildren = ApiHistoryRoute._addFileChildren(
@@ -936,6 +1764,20 @@ const ApiRadicaleUsersRouteChildren: ApiRadicaleUsersRouteChildren = {
 const ApiRadicaleUsersRouteWithChildren =
   ApiRadicaleUsersRoute._addFileChildren(ApiRadicaleUsersRouteChildren)
 
+interface ApiRelationshipPlaceholdersRouteChildren {
+  ApiRelationshipPlaceholdersIdRoute: typeof ApiRelationshipPlaceholdersIdRoute
+}
+
+const ApiRelationshipPlaceholdersRouteChildren: ApiRelationshipPlaceholdersRouteChildren =
+  {
+    ApiRelationshipPlaceholdersIdRoute: ApiRelationshipPlaceholdersIdRoute,
+  }
+
+const ApiRelationshipPlaceholdersRouteWithChildren =
+  ApiRelationshipPlaceholdersRoute._addFileChildren(
+    ApiRelationshipPlaceholdersRouteChildren,
+  )
+
 interface ApiRelationshipsRouteChildren {
   ApiRelationshipsIdRoute: typeof ApiRelationshipsIdRoute
 }
@@ -947,32 +1789,87 @@ const ApiRelationshipsRouteChildren: ApiRelationshipsRouteChildren = {
 const ApiRelationshipsRouteWithChildren =
   ApiRelationshipsRoute._addFileChildren(ApiRelationshipsRouteChildren)
 
+interface ApiSmartGroupsRouteChildren {
+  ApiSmartGroupsIdRoute: typeof ApiSmartGroupsIdRoute
+}
+
+const ApiSmartGroupsRouteChildren: ApiSmartGroupsRouteChildren = {
+  ApiSmartGroupsIdRoute: ApiSmartGroupsIdRoute,
+}
+
+const ApiSmartGroupsRouteWithChildren = ApiSmartGroupsRoute._addFileChildren(
+  ApiSmartGroupsRouteChildren,
+)
+
+interface ApiTagsRouteChildren {
+  ApiTagsMergeRoute: typeof ApiTagsMergeRoute
+}
+
+const ApiTagsRouteChildren: ApiTagsRouteChildren = {
+  ApiTagsMergeRoute: ApiTagsMergeRoute,
+}
+
+const ApiTagsRouteWithChildren =
+  ApiTagsRoute._addFileChildren(ApiTagsRouteChildren)
+
+interface ApiUsersRouteChildren {
+  ApiUsersIdRoute: typeof ApiUsersIdRoute
+}
+
+const ApiUsersRouteChildren: ApiUsersRouteChildren = {
+  ApiUsersIdRoute: ApiUsersIdRoute,
+}
+
+const ApiUsersRouteWithChildren = ApiUsersRoute._addFileChildren(
+  ApiUsersRouteChildren,
+)
+
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   IdRoute: IdRoute,
   AboutRoute: AboutRoute,
   BooksRoute: BooksRoute,
   CarddavConnectionRoute: CarddavConnectionRoute,
+  ConflictsRoute: ConflictsRoute,
   DuplicatesRoute: DuplicatesRoute,
   HelpRoute: HelpRoute,
   HistoryRoute: HistoryRoute,
   ImportRoute: ImportRoute,
+  LoginRoute: LoginRoute,
   NewRoute: NewRoute,
   RadicaleUsersRoute: RadicaleUsersRoute,
   RelationshipsRoute: RelationshipsRoute,
+  SyncRoute: SyncRoute,
+  TagsRoute: TagsRoute,
   TrashRoute: TrashRoute,
+  UpcomingRoute: UpcomingRoute,
+  UsersRoute: UsersRoute,
   ApiAboutRoute: ApiAboutRoute,
   ApiAddressBooksRoute: ApiAddressBooksRouteWithChildren,
+  ApiConflictsRoute: ApiConflictsRoute,
   ApiContactsRoute: ApiContactsRouteWithChildren,
   ApiHealthRoute: ApiHealthRoute,
   ApiHistoryRoute: ApiHistoryRouteWithChildren,
   ApiMobileconfigRoute: ApiMobileconfigRoute,
   ApiRadicaleUsersRoute: ApiRadicaleUsersRouteWithChildren,
-  ApiRelationshipPlaceholdersRoute: ApiRelationshipPlaceholdersRoute,
+  ApiRelationshipPlaceholdersRoute:
+    ApiRelationshipPlaceholdersRouteWithChildren,
   ApiRelationshipsRoute: ApiRelationshipsRouteWithChildren,
   ApiRuntimeConfigRoute: ApiRuntimeConfigRoute,
   ApiSettingsRoute: ApiSettingsRoute,
+  ApiSmartGroupsRoute: ApiSmartGroupsRouteWithChildren,
+  ApiTagsRoute: ApiTagsRouteWithChildren,
+  ApiUpcomingRoute: ApiUpcomingRoute,
   ApiUserBookAssignmentsRoute: ApiUserBookAssignmentsRoute,
+  ApiUsersRoute: ApiUsersRouteWithChildren,
+  ApiAuthLoginRoute: ApiAuthLoginRoute,
+  ApiAuthLogoutRoute: ApiAuthLogoutRoute,
+  ApiAuthSessionRoute: ApiAuthSessionRoute,
+  ApiAuthSetupRoute: ApiAuthSetupRoute,
+  ApiCalendarBirthdaysDoticsRoute: ApiCalendarBirthdaysDoticsRoute,
+  ApiSyncRunRoute: ApiSyncRunRoute,
+  ApiSyncStatusRoute: ApiSyncStatusRoute,
+  ApiSyncRunsIdRoute: ApiSyncRunsIdRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
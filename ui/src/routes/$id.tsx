@@ -5,6 +5,8 @@ import { toast } from 'sonner'
 import { ContactEditPane } from '../components/ContactEditPane'
 import { ContactHistoryPanel } from '../components/ContactHistoryPanel'
 import { ContactPreview } from '../components/ContactPreview'
+import { ResyncButton } from '../components/ResyncButton'
+import { SyncConflictNotice } from '../components/SyncConflictNotice'
 import { RelationshipPanel } from '../components/relationships/RelationshipPanel'
 import { useContactForm } from '../components/contact-form/useContactForm'
 import { Button } from '../components/ui/button'
@@ -139,6 +141,7 @@ function ContactEditor({ contact, onDiscard }: { contact: Contact; onDiscard: ()
 				<h1 className="text-lg font-semibold">{displayName}</h1>
 				{form.isDirty && <span className="rounded-sm border bg-muted px-2.5 py-1 text-xs text-muted-foreground">Unsaved changes</span>}
 				<div className="ml-auto flex flex-wrap items-center gap-3">
+					<ResyncButton target={{ contactId: contact.id }} />
 					<div className="flex w-max gap-1 rounded-md border bg-card p-1">
 						<button
 							type="button"
@@ -178,6 +181,8 @@ function ContactEditor({ contact, onDiscard }: { contact: Contact; onDiscard: ()
 				</div>
 			</div>
 
+			<SyncConflictNotice contactId={contact.id} />
+
 			{/* Relations gets the full width for the tree; edit/history keep the 1:1 preview layout */}
 			{tab === 'relations' ? (
 				<RelationshipPanel
@@ -0,0 +1,59 @@
+import { randomBytes } from 'node:crypto'
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { getAddressBook, getAddressBookCalendarToken, setAddressBookCalendarToken } from '../../lib/db'
+import { requireBookRole } from '../../lib/permissions'
+
+// Subscription link for the book's birthdays calendar. Anyone who can read the
+// book may see the link (it exposes nothing they can't already read); only
+// book owners turn it on, rotate it, or turn it off.
+
+function feedPath(bookId: string, token: string | null) {
+	return {
+		enabled: token !== null,
+		path: token ? `/api/calendar/birthdays.ics?book=${bookId}&token=${token}` : null,
+	}
+}
+
+export const Route = createFileRoute('/api/address-books/$id/calendar-feed')({
+	server: {
+		handlers: {
+			GET: async ({ params, request }) => {
+				try {
+					const denied = await requireBookRole(request, [params.id], 'viewer')
+					if (denied) return denied
+					return json(feedPath(params.id, await getAddressBookCalendarToken(params.id)))
+				} catch (error) {
+					logger.error({ err: error, addressBookId: params.id }, 'Error fetching calendar feed')
+					return json({ error: 'Failed to fetch calendar feed' }, { status: 500 })
+				}
+			},
+			// Create the link, or replace it so the old one stops working.
+			POST: async ({ params, request }) => {
+				try {
+					const denied = await requireBookRole(request, [params.id], 'owner')
+					if (denied) return denied
+					if (!(await getAddressBook(params.id))) return json({ error: 'Address book not found' }, { status: 404 })
+					const token = randomBytes(24).toString('base64url')
+					await setAddressBookCalendarToken(params.id, token)
+					return json(feedPath(params.id, token))
+				} catch (error) {
+					logger.error({ err: error, addressBookId: params.id }, 'Error creating calendar feed')
+					return json({ error: 'Failed to create calendar feed' }, { status: 500 })
+				}
+			},
+			DELETE: async ({ params, request }) => {
+				try {
+					const denied = await requireBookRole(request, [params.id], 'owner')
+					if (denied) return denied
+					await setAddressBookCalendarToken(params.id, null)
+					return json(feedPath(params.id, null))
+				} catch (error) {
+					logger.error({ err: error, addressBookId: params.id }, 'Error removing calendar feed')
+					return json({ error: 'Failed to remove calendar feed' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
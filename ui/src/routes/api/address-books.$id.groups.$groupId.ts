@@ -0,0 +1,53 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { zodError } from '../../lib/contact-helpers'
+import { contactGroupsEnabled, deleteContactGroup, getContactGroup, updateContactGroup } from '../../lib/contact-groups'
+import { UpdateContactGroupSchema } from '../../lib/schemas'
+import { requireBookRole } from '../../lib/permissions'
+
+const notFound = () => json({ error: 'Contact group not found' }, { status: 404 })
+
+export const Route = createFileRoute('/api/address-books/$id/groups/$groupId')({
+	server: {
+		handlers: {
+			GET: async ({ params, request }) => {
+				try {
+					const denied = await requireBookRole(request, [params.id], 'viewer')
+					if (denied) return denied
+					if (!(await contactGroupsEnabled())) return notFound()
+					const group = await getContactGroup(params.id, params.groupId)
+					return group ? json(group) : notFound()
+				} catch (error) {
+					logger.error({ err: error, groupId: params.groupId }, 'Error fetching contact group')
+					return json({ error: 'Failed to fetch contact group' }, { status: 500 })
+				}
+			},
+			PUT: async ({ params, request }) => {
+				try {
+					const denied = await requireBookRole(request, [params.id], 'editor')
+					if (denied) return denied
+					if (!(await contactGroupsEnabled())) return notFound()
+					const parsed = UpdateContactGroupSchema.safeParse(await request.json())
+					if (!parsed.success) return zodError(parsed.error)
+					const group = await updateContactGroup(params.id, params.groupId, parsed.data)
+					return group ? json(group) : notFound()
+				} catch (error) {
+					logger.error({ err: error, groupId: params.groupId }, 'Error updating contact group')
+					return json({ error: 'Failed to update contact group' }, { status: 500 })
+				}
+			},
+			DELETE: async ({ params, request }) => {
+				try {
+					const denied = await requireBookRole(request, [params.id], 'editor')
+					if (denied) return denied
+					if (!(await contactGroupsEnabled()) || !(await deleteContactGroup(params.id, params.groupId))) return notFound()
+					return json({ success: true })
+				} catch (error) {
+					logger.error({ err: error, groupId: params.groupId }, 'Error deleting contact group')
+					return json({ error: 'Failed to delete contact group' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
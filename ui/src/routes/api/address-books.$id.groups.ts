@@ -0,0 +1,42 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { zodError } from '../../lib/contact-helpers'
+import { getAddressBook } from '../../lib/db'
+import { contactGroupsEnabled, createContactGroup, listContactGroups } from '../../lib/contact-groups'
+import { CreateContactGroupSchema } from '../../lib/schemas'
+import { requireBookRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/address-books/$id/groups')({
+	server: {
+		handlers: {
+			GET: async ({ params, request }) => {
+				try {
+					const denied = await requireBookRole(request, [params.id], 'viewer')
+					if (denied) return denied
+					if (!(await contactGroupsEnabled())) return json([])
+					return json(await listContactGroups(params.id))
+				} catch (error) {
+					logger.error({ err: error, addressBookId: params.id }, 'Error fetching contact groups')
+					return json({ error: 'Failed to fetch contact groups' }, { status: 500 })
+				}
+			},
+			POST: async ({ params, request }) => {
+				try {
+					const denied = await requireBookRole(request, [params.id], 'editor')
+					if (denied) return denied
+					if (!(await contactGroupsEnabled())) {
+						return json({ error: 'Contact groups are not available (migration pending)' }, { status: 503 })
+					}
+					const parsed = CreateContactGroupSchema.safeParse(await request.json())
+					if (!parsed.success) return zodError(parsed.error)
+					if (!(await getAddressBook(params.id))) return json({ error: 'Address book not found' }, { status: 404 })
+					return json(await createContactGroup(params.id, parsed.data), { status: 201 })
+				} catch (error) {
+					logger.error({ err: error, addressBookId: params.id }, 'Error creating contact group')
+					return json({ error: 'Failed to create contact group' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -0,0 +1,32 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { zodError } from '../../lib/contact-helpers'
+import { requireBookRole } from '../../lib/permissions'
+import { ResyncSchema } from '../../lib/schemas'
+import { proxyRequest } from '../../lib/sync-service'
+
+export const Route = createFileRoute('/api/address-books/$id/resync')({
+	server: {
+		handlers: {
+			// Force resync every contact in the book; same body as /api/contacts/$id/resync.
+			POST: async ({ params, request }) => {
+				try {
+					const denied = await requireBookRole(request, [params.id], 'editor')
+					if (denied) return denied
+					const parsed = ResyncSchema.safeParse(await request.json())
+					if (!parsed.success) return zodError(parsed.error)
+					const { data, status } = await proxyRequest(`/api/address-books/${encodeURIComponent(params.id)}/resync`, {
+						method: 'POST',
+						headers: { 'Content-Type': 'application/json' },
+						body: JSON.stringify(parsed.data),
+					})
+					return json(data, { status })
+				} catch (error: any) {
+					logger.error({ err: error, addressBookId: params.id }, 'Error starting address book resync')
+					return json({ error: 'Failed to start resync' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -6,14 +6,17 @@ import { logger } from '../../lib/logger'
 import { getAddressBook, getAddressBookReadonly, setAddressBookReadonly, updateAddressBook } from '../../lib/db'
 import { zodError } from '../../lib/contact-helpers'
 import { UpdateAddressBookSchema } from '../../lib/schemas'
+import { requireBookRole } from '../../lib/permissions'
 
 const READONLY_USERNAME_PREFIX = 'ro-'
 
 export const Route = createFileRoute('/api/address-books/$id')({
 	server: {
 		handlers: {
-			GET: async ({ params }) => {
+			GET: async ({ params, request }) => {
 				try {
+					const denied = await requireBookRole(request, [params.id], 'viewer')
+					if (denied) return denied
 					const book = await getAddressBook(params.id)
 					if (!book) {
 						return json({ error: 'Address book not found' }, { status: 404 })
@@ -31,6 +34,8 @@ export const Route = createFileRoute('/api/address-books/$id')({
 			},
 			PUT: async ({ request, params }) => {
 				try {
+					const denied = await requireBookRole(request, [params.id], 'owner')
+					if (denied) return denied
 					const body = await request.json()
 					const parsed = UpdateAddressBookSchema.safeParse(body)
 					if (!parsed.success) return zodError(parsed.error)
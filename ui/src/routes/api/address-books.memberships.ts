@@ -2,12 +2,15 @@ import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { getAddressBooks, getUserAddressBookIds, setUserAddressBooks } from '../../lib/db'
+import { requireGlobalRole } from '../../lib/permissions'
 
 export const Route = createFileRoute('/api/address-books/memberships')({
 	server: {
 		handlers: {
 			GET: async ({ request }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const url = new URL(request.url)
 					const username = url.searchParams.get('username')
 					if (!username) {
@@ -22,6 +25,8 @@ export const Route = createFileRoute('/api/address-books/memberships')({
 			},
 			PUT: async ({ request }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const body = await request.json()
 					const username = String(body.username || '').trim()
 					if (!username) {
@@ -4,6 +4,7 @@ import { logger } from '../../lib/logger'
 import { createAddressBook, getAddressBooks, getAddressBooksWithReadonly } from '../../lib/db'
 import { zodError } from '../../lib/contact-helpers'
 import { CreateAddressBookSchema } from '../../lib/schemas'
+import { getRequestAccess, readableBookIds, requireGlobalRole } from '../../lib/permissions'
 
 function slugify(value: string): string {
 	return value
@@ -21,7 +22,8 @@ export const Route = createFileRoute('/api/address-books')({
 					const url = new URL(request.url)
 					const withReadonly = url.searchParams.get('readonly') === '1'
 					const books = withReadonly ? await getAddressBooksWithReadonly() : await getAddressBooks()
-					return json(books)
+					const readable = readableBookIds(await getRequestAccess(request))
+					return json(readable ? books.filter(book => readable.includes(book.id)) : books)
 				} catch (error) {
 					logger.error({ err: error }, 'Error fetching address books')
 					return json({ error: 'Failed to fetch address books' }, { status: 500 })
@@ -29,6 +31,8 @@ export const Route = createFileRoute('/api/address-books')({
 			},
 			POST: async ({ request }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const body = await request.json()
 					const parsed = CreateAddressBookSchema.safeParse(body)
 					if (!parsed.success) return zodError(parsed.error)
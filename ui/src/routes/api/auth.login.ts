@@ -0,0 +1,34 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { createSession, isSecureRequest, sessionCookie, verifyCredentials } from '../../lib/auth'
+import { zodError } from '../../lib/contact-helpers'
+import { actorFromRequest } from '../../lib/history'
+import { LoginSchema } from '../../lib/schemas'
+
+export const Route = createFileRoute('/api/auth/login')({
+	server: {
+		handlers: {
+			POST: async ({ request }) => {
+				try {
+					const body = await request.json()
+					const parsed = LoginSchema.safeParse(body)
+					if (!parsed.success) return zodError(parsed.error)
+
+					const user = await verifyCredentials(parsed.data.email, parsed.data.password)
+					if (!user) {
+						return json({ error: 'Invalid email or password' }, { status: 401 })
+					}
+
+					const meta = actorFromRequest(request)
+					const { token, expiresAt } = await createSession(user.id, { ipAddress: meta.clientIp, userAgent: meta.userAgent })
+					logger.info({ userId: user.id }, 'User signed in')
+					return json({ user }, { headers: { 'Set-Cookie': sessionCookie(token, expiresAt, isSecureRequest(request)) } })
+				} catch (error) {
+					logger.error({ err: error }, 'Error signing in')
+					return json({ error: 'Failed to sign in' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -0,0 +1,24 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { clearedSessionCookie, deleteSession, isSecureRequest, readSessionToken } from '../../lib/auth'
+
+export const Route = createFileRoute('/api/auth/logout')({
+	server: {
+		handlers: {
+			POST: async ({ request }) => {
+				const headers = { 'Set-Cookie': clearedSessionCookie(isSecureRequest(request)) }
+				try {
+					const token = readSessionToken(request.headers.get('cookie'))
+					if (token) await deleteSession(token)
+					return json({ ok: true }, { headers })
+				} catch (error) {
+					logger.error({ err: error }, 'Error signing out')
+					// Still clear the cookie: the browser should end up signed out
+					// even if the session row could not be removed.
+					return json({ error: 'Failed to sign out' }, { status: 500, headers })
+				}
+			},
+		},
+	},
+})
@@ -0,0 +1,33 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { countUsers, getSessionUser, isAuthDisabled, readSessionToken } from '../../lib/auth'
+import { getAccessForUser } from '../../lib/permissions'
+
+/**
+ * Who is signed in. Public (the middleware lets /api/auth/* through) so the
+ * login page can tell "signed out" apart from "no users yet, run setup".
+ */
+export const Route = createFileRoute('/api/auth/session')({
+	server: {
+		handlers: {
+			GET: async ({ request }) => {
+				try {
+					if (isAuthDisabled()) {
+						return json({ user: null, authDisabled: true, needsSetup: false, access: { globalRole: 'owner', bookRoles: {} } })
+					}
+					const token = readSessionToken(request.headers.get('cookie'))
+					const user = token ? await getSessionUser(token) : null
+					if (!user) {
+						return json({ user: null, authDisabled: false, needsSetup: (await countUsers()) === 0, access: null })
+					}
+					const { globalRole, bookRoles } = await getAccessForUser(user.id)
+					return json({ user, authDisabled: false, needsSetup: false, access: { globalRole, bookRoles } })
+				} catch (error) {
+					logger.error({ err: error }, 'Error loading session')
+					return json({ error: 'Failed to load session' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -0,0 +1,43 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { createSession, createUser, isSecureRequest, sessionCookie, withFirstUserSetup } from '../../lib/auth'
+import { zodError } from '../../lib/contact-helpers'
+import { actorFromRequest } from '../../lib/history'
+import { setUserRoles } from '../../lib/permissions'
+import { SetupOwnerSchema } from '../../lib/schemas'
+
+/**
+ * First-run bootstrap: creates the initial account as owner of every address
+ * book and signs it in. Only allowed while the user table is empty, so a
+ * fresh deployment can be claimed exactly once.
+ */
+export const Route = createFileRoute('/api/auth/setup')({
+	server: {
+		handlers: {
+			POST: async ({ request }) => {
+				try {
+					const body = await request.json()
+					const parsed = SetupOwnerSchema.safeParse(body)
+					if (!parsed.success) return zodError(parsed.error)
+
+					const user = await withFirstUserSetup(async client => {
+						const created = await createUser(parsed.data, client)
+						await setUserRoles(created.id, [{ address_book_id: null, role: 'owner' }], client)
+						return created
+					})
+					if (!user) {
+						return json({ error: 'Setup has already been completed' }, { status: 409 })
+					}
+					const meta = actorFromRequest(request)
+					const { token, expiresAt } = await createSession(user.id, { ipAddress: meta.clientIp, userAgent: meta.userAgent })
+					logger.info({ userId: user.id }, 'Initial user created')
+					return json({ user }, { status: 201, headers: { 'Set-Cookie': sessionCookie(token, expiresAt, isSecureRequest(request)) } })
+				} catch (error) {
+					logger.error({ err: error }, 'Error completing setup')
+					return json({ error: 'Failed to complete setup' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
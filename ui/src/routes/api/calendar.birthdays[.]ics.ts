@@ -0,0 +1,51 @@
+import { timingSafeEqual } from 'node:crypto'
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { getAddressBook, getAddressBookCalendarToken } from '../../lib/db'
+import { buildCalendar } from '../../lib/calendar'
+import { getDatedItems } from '../../lib/upcoming'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function tokenMatches(expected: string | null, given: string): boolean {
+	if (!expected) return false
+	const a = Buffer.from(expected)
+	const b = Buffer.from(given)
+	return a.length === b.length && timingSafeEqual(a, b)
+}
+
+export const Route = createFileRoute('/api/calendar/birthdays.ics')({
+	server: {
+		handlers: {
+			// ?book=<id>&token=<feed token>. Calendar apps cannot log in, so this path
+			// skips the session check (see isPublicApiPath) and the token is the only credential.
+			GET: async ({ request }) => {
+				try {
+					const url = new URL(request.url)
+					const bookId = url.searchParams.get('book')
+					const token = url.searchParams.get('token')
+					if (!bookId || !token || !UUID_PATTERN.test(bookId) || !tokenMatches(await getAddressBookCalendarToken(bookId), token)) {
+						return json({ error: 'Calendar feed not found' }, { status: 404 })
+					}
+
+					const book = await getAddressBook(bookId)
+					if (!book) return json({ error: 'Address book not found' }, { status: 404 })
+
+					const calendar = buildCalendar(await getDatedItems([bookId]), { name: `${book.name} birthdays` })
+					return new Response(calendar, {
+						status: 200,
+						headers: {
+							'Content-Type': 'text/calendar; charset=utf-8',
+							'Content-Disposition': `inline; filename="${book.slug}-birthdays.ics"`,
+							'Cache-Control': 'private, max-age=3600',
+						},
+					})
+				} catch (error) {
+					logger.error({ err: error }, 'Error generating birthdays calendar')
+					return json({ error: 'Failed to generate calendar' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
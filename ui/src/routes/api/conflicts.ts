@@ -0,0 +1,32 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { getContactsByIds, getOpenSyncConflicts } from '../../lib/db'
+import { filterReadableContacts, getRequestAccess, requireAnyRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/conflicts')({
+	server: {
+		handlers: {
+			// Open sync conflicts across every contact the user can read, newest first.
+			GET: async ({ request }) => {
+				try {
+					const denied = await requireAnyRole(request, 'viewer')
+					if (denied) return denied
+					const conflicts = await getOpenSyncConflicts()
+					const contacts = await getContactsByIds([...new Set(conflicts.map(conflict => conflict.contact_id))])
+					const readable = new Map(filterReadableContacts(await getRequestAccess(request), contacts).map(contact => [contact.id, contact]))
+					return json(
+						conflicts.flatMap(conflict => {
+							const contact = readable.get(conflict.contact_id)
+							if (!contact) return []
+							return [{ ...conflict, contact: { id: contact.id, full_name: contact.full_name, address_books: contact.address_books } }]
+						})
+					)
+				} catch (error) {
+					logger.error({ err: error }, 'Error fetching sync conflicts')
+					return json({ error: 'Failed to fetch sync conflicts' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
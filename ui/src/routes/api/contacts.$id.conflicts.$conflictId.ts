@@ -0,0 +1,86 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { getContactById, getSyncConflictById, resolveSyncConflict, updateContact } from '../../lib/db'
+import { sanitizeContact, zodError } from '../../lib/contact-helpers'
+import { actorFromRequest, recordHistory } from '../../lib/history'
+import { requireContactRole } from '../../lib/permissions'
+import { ResolveSyncConflictSchema } from '../../lib/schemas'
+import { applyConflictChoices, invalidConflictChoice } from '../../lib/sync-conflicts'
+import { extractUID, generateVCard } from '../../lib/vcard'
+
+export const Route = createFileRoute('/api/contacts/$id/conflicts/$conflictId')({
+	server: {
+		handlers: {
+			// Resolve from the /conflicts inbox: apply the value picked for each field, then close the conflict.
+			POST: async ({ params, request }) => {
+				try {
+					const body = await request.json()
+					const parsed = ResolveSyncConflictSchema.safeParse(body)
+					if (!parsed.success) return zodError(parsed.error)
+					const { choices } = parsed.data
+					const invalid = invalidConflictChoice(choices)
+					if (invalid) return json({ error: invalid }, { status: 400 })
+
+					const existingContact = await getContactById(params.id)
+					if (!existingContact) return json({ error: 'Contact not found' }, { status: 404 })
+					const denied = await requireContactRole(request, [existingContact], 'editor')
+					if (denied) return denied
+
+					const conflict = await getSyncConflictById(params.conflictId)
+					if (!conflict || conflict.contact_id !== params.id) return json({ error: 'Conflict not found' }, { status: 404 })
+					if (conflict.resolved_at) return json({ error: 'Conflict was already resolved' }, { status: 409 })
+					if (!conflict.db_version || !conflict.radicale_version) {
+						return json({ error: 'This conflict predates field-level resolution; edit the contact and dismiss it' }, { status: 400 })
+					}
+
+					const contactData = applyConflictChoices(conflict.db_version, conflict.radicale_version, choices)
+					const vcardData = generateVCard({ ...existingContact, ...contactData })
+					const contact = await updateContact(params.id, {
+						...contactData,
+						vcard_id: extractUID(vcardData) || existingContact.vcard_id,
+						vcard_data: vcardData,
+						sync_source: 'api',
+						last_synced_to_radicale_at: null, // Force sync to Radicale
+					})
+
+					const meta = actorFromRequest(request)
+					await resolveSyncConflict(params.id, params.conflictId, meta.actor, choices)
+					const contactWithBooks = await getContactById(params.id)
+					await recordHistory({
+						contactId: params.id,
+						operation: 'update',
+						source: meta.source,
+						actor: meta.actor,
+						actorType: meta.actorType,
+						userAgent: meta.userAgent,
+						clientIp: meta.clientIp,
+						summary: `Resolved sync conflict for ${contact.full_name || contact.email || 'contact'}`,
+						previousState: existingContact,
+						newState: contactWithBooks || contact,
+						metadata: { conflictId: params.conflictId, choices },
+					})
+					return json(sanitizeContact(contactWithBooks || contact))
+				} catch (error) {
+					logger.error({ err: error, contactId: params.id, conflictId: params.conflictId }, 'Error resolving sync conflict')
+					return json({ error: 'Failed to resolve sync conflict' }, { status: 500 })
+				}
+			},
+			// Dismiss a conflict once the user has checked (and, if needed, fixed) the merged contact.
+			DELETE: async ({ params, request }) => {
+				try {
+					const contact = await getContactById(params.id)
+					if (!contact) return json({ error: 'Contact not found' }, { status: 404 })
+					const denied = await requireContactRole(request, [contact], 'editor')
+					if (denied) return denied
+					const resolved = await resolveSyncConflict(params.id, params.conflictId, actorFromRequest(request).actor)
+					if (!resolved) return json({ error: 'Conflict not found' }, { status: 404 })
+					return json({ success: true })
+				} catch (error) {
+					logger.error({ err: error, contactId: params.id, conflictId: params.conflictId }, 'Error resolving sync conflict')
+					return json({ error: 'Failed to resolve sync conflict' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
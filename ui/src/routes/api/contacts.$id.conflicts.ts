@@ -0,0 +1,24 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { getContactById, getOpenSyncConflicts } from '../../lib/db'
+import { requireContactRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/contacts/$id/conflicts')({
+	server: {
+		handlers: {
+			GET: async ({ params, request }) => {
+				try {
+					const contact = await getContactById(params.id)
+					if (!contact) return json({ error: 'Contact not found' }, { status: 404 })
+					const denied = await requireContactRole(request, [contact], 'viewer')
+					if (denied) return denied
+					return json(await getOpenSyncConflicts(params.id))
+				} catch (error) {
+					logger.error({ err: error, contactId: params.id }, 'Error fetching sync conflicts')
+					return json({ error: 'Failed to fetch sync conflicts' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getContactById } from '../../lib/db'
+import { getPhoto, getPhotoVariant, getPhotoVariantHash } from '../../lib/photo-store'
+
+vi.mock('../../lib/db', () => ({
+	getContactById: vi.fn(),
+}))
+
+vi.mock('../../lib/logger', () => ({
+	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('../../lib/photo-store', async importOriginal => {
+	const actual = await importOriginal<Record<string, unknown>>()
+	return { ...actual, getPhoto: vi.fn(), getPhotoVariant: vi.fn(), getPhotoVariantHash: vi.fn() }
+})
+
+vi.mock('../../lib/permissions', () => ({
+	canAccessContact: vi.fn(() => true),
+	getRequestAccess: vi.fn(() => Promise.resolve({ userId: null, globalRole: 'owner', bookRoles: {} })),
+}))
+
+const getHandler = async () => {
+	const mod = await import('./contacts.$id.photo')
+	const route = mod.Route as unknown as Record<string, unknown>
+	const options = route.options as Record<string, unknown>
+	const server = options.server as Record<string, unknown>
+	const handlers = server.handlers as Record<string, (...args: Array<unknown>) => Promise<Response>>
+	return handlers
+}
+
+const fetchPhoto = async (query: string, ifNoneMatch?: string) => {
+	const handlers = await getHandler()
+	return handlers.GET({
+		request: new Request(`http://localhost/api/contacts/id-1/photo${query}`, {
+			headers: ifNoneMatch ? { 'If-None-Match': ifNoneMatch } : {},
+		}),
+		params: { id: 'id-1' },
+	})
+}
+
+describe('GET /api/contacts/:id/photo', () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(getContactById).mockResolvedValue({ id: 'id-1', photo_hash: 'abc123', photo_mime: 'image/jpeg' } as never)
+		vi.mocked(getPhoto).mockResolvedValue(Buffer.from('original'))
+		vi.mocked(getPhotoVariant).mockResolvedValue({ hash: 'small', data: Buffer.from('small'), mime: 'image/jpeg' })
+		vi.mocked(getPhotoVariantHash).mockResolvedValue('small')
+	})
+
+	it('answers a matching revalidation without reading the photo', async () => {
+		const response = await fetchPhoto('', 'W/"abc123"')
+
+		expect(response.status).toBe(304)
+		expect(response.headers.get('ETag')).toBe('"abc123"')
+		expect(getPhoto).not.toHaveBeenCalled()
+	})
+
+	it('checks a variant against its own hash before reading it', async () => {
+		const response = await fetchPhoto('?size=64', '"other", "small"')
+
+		expect(response.status).toBe(304)
+		expect(getPhotoVariantHash).toHaveBeenCalledWith('abc123', 64)
+		expect(getPhotoVariant).not.toHaveBeenCalled()
+	})
+
+	it('serves the bytes when the tag does not match', async () => {
+		const response = await fetchPhoto('', '"stale"')
+
+		expect(response.status).toBe(200)
+		expect(response.headers.get('ETag')).toBe('"abc123"')
+		expect(await response.text()).toBe('original')
+	})
+})
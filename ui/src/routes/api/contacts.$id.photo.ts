@@ -1,47 +1,49 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { getContactById } from '../../lib/db'
 import { logger } from '../../lib/logger'
+import { getPhoto, getPhotoVariant, getPhotoVariantHash, matchesETag } from '../../lib/photo-store'
+import { PHOTO_SIZES } from '../../lib/image'
 import { ALLOWED_IMAGE_MIME } from '../../lib/contact-helpers'
-
-const NodeBuffer = (globalThis as { Buffer?: any }).Buffer
-
-function decodeHexBytea(value: string): Uint8Array | null {
-	if (!NodeBuffer) return null
-	const hex = value.startsWith('\\x') ? value.slice(2) : value
-	return NodeBuffer.from(hex, 'hex')
-}
-
-function normalizePhotoBlob(blob: Uint8Array | string | null | undefined): Uint8Array | null {
-	if (!blob) return null
-	if (NodeBuffer && NodeBuffer.isBuffer?.(blob)) {
-		return NodeBuffer.from(blob)
-	}
-	if (typeof blob === 'string') {
-		// Postgres can return bytea as hex string (\\x...)
-		if (blob.startsWith('\\x')) {
-			return decodeHexBytea(blob)
-		}
-		// Fallback: assume base64
-		return NodeBuffer ? NodeBuffer.from(blob, 'base64') : null
-	}
-	return NodeBuffer ? NodeBuffer.from(blob) : blob
-}
+import { canAccessContact, getRequestAccess } from '../../lib/permissions'
 
 export const Route = createFileRoute('/api/contacts/$id/photo')({
 	server: {
 		handlers: {
-			GET: async ({ params }) => {
+			GET: async ({ params, request }) => {
 				try {
+					// ?size= picks a resized variant (longest edge in pixels); without it the original is served.
+					const sizeParam = new URL(request.url).searchParams.get('size')
+					const size = sizeParam ? PHOTO_SIZES.find(value => String(value) === sizeParam) : undefined
+					if (sizeParam && !size) {
+						return new Response(`size must be one of ${PHOTO_SIZES.join(', ')}`, { status: 400 })
+					}
+
 					const contact = await getContactById(params.id)
-					if (!contact || !contact.photo_blob) {
+					if (!contact || !contact.photo_hash) {
 						return new Response('Not Found', { status: 404 })
 					}
+					if (!canAccessContact(await getRequestAccess(request), contact, 'viewer')) {
+						return new Response('Forbidden', { status: 403 })
+					}
+
+					const hash = contact.photo_hash
+					const cacheHeaders = (servedHash: string) => ({ ETag: `"${servedHash}"`, 'Cache-Control': 'private, max-age=3600' })
+					// Answer revalidations from the hash alone, before any bytes are read.
+					const knownHash = size ? await getPhotoVariantHash(hash, size) : hash
+					const ifNoneMatch = request.headers.get('If-None-Match')
+					if (knownHash && matchesETag(ifNoneMatch, knownHash)) {
+						return new Response(null, { status: 304, headers: cacheHeaders(knownHash) })
+					}
 
-					const buffer = normalizePhotoBlob(contact.photo_blob)
-					if (!buffer) {
+					const photo = size ? await getPhotoVariant(hash, size) : await getPhoto(hash).then(data => data && { hash, data, mime: null })
+					if (!photo) {
 						return new Response('Not Found', { status: 404 })
 					}
+					if (matchesETag(ifNoneMatch, photo.hash)) {
+						return new Response(null, { status: 304, headers: cacheHeaders(photo.hash) })
+					}
 
+					const buffer = photo.data
 					const arrayBuffer =
 						buffer.buffer instanceof ArrayBuffer
 							? buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
@@ -50,15 +52,15 @@ export const Route = createFileRoute('/api/contacts/$id/photo')({
 					// svg/html photo stored before the upload-time allowlist existed) is
 					// served as a non-renderable download, and the extra headers stop the
 					// browser sniffing or executing it. This neutralizes stored XSS.
-					const safeType =
-						contact.photo_mime && ALLOWED_IMAGE_MIME.has(contact.photo_mime) ? contact.photo_mime : 'application/octet-stream'
+					const mime = photo.mime ?? contact.photo_mime
+					const safeType = mime && ALLOWED_IMAGE_MIME.has(mime) ? mime : 'application/octet-stream'
 					return new Response(arrayBuffer, {
 						headers: {
 							'Content-Type': safeType,
 							'Content-Disposition': 'inline',
 							'X-Content-Type-Options': 'nosniff',
 							'Content-Security-Policy': "default-src 'none'; sandbox",
-							'Cache-Control': 'private, max-age=3600',
+							...cacheHeaders(photo.hash),
 						},
 					})
 				} catch (error) {
@@ -1,16 +1,22 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
+import { getContactById } from '../../lib/db'
+import { requireContactRole } from '../../lib/permissions'
 import { ensureMergeEdgeRepair, getEgoGraph, relationshipsEnabled } from '../../lib/relationships'
 
 export const Route = createFileRoute('/api/contacts/$id/relationships')({
 	server: {
 		handlers: {
-			GET: async ({ params }) => {
+			GET: async ({ params, request }) => {
 				try {
 					if (!(await relationshipsEnabled())) {
 						return json({ error: 'Relationships are not available (migration pending)' }, { status: 503 })
 					}
+					const contact = await getContactById(params.id)
+					if (!contact) return json({ error: 'Contact not found' }, { status: 404 })
+					const denied = await requireContactRole(request, [contact], 'viewer')
+					if (denied) return denied
 					// One-time, sentinel-guarded: heal edges left dangling by merges
 					// that predate merge-time edge transfer, so the first graph view
 					// after deploying already shows them.
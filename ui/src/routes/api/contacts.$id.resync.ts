@@ -0,0 +1,35 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { getContactById } from '../../lib/db'
+import { zodError } from '../../lib/contact-helpers'
+import { requireContactRole } from '../../lib/permissions'
+import { ResyncSchema } from '../../lib/schemas'
+import { proxyRequest } from '../../lib/sync-service'
+
+export const Route = createFileRoute('/api/contacts/$id/resync')({
+	server: {
+		handlers: {
+			// Force resync: { source: 'radicale' } re-imports the CardDAV copy, { source: 'db' } pushes the web copy.
+			POST: async ({ params, request }) => {
+				try {
+					const parsed = ResyncSchema.safeParse(await request.json())
+					if (!parsed.success) return zodError(parsed.error)
+					const contact = await getContactById(params.id)
+					if (!contact) return json({ error: 'Contact not found' }, { status: 404 })
+					const denied = await requireContactRole(request, [contact], 'editor')
+					if (denied) return denied
+					const { data, status } = await proxyRequest(`/api/contacts/${params.id}/resync`, {
+						method: 'POST',
+						headers: { 'Content-Type': 'application/json' },
+						body: JSON.stringify(parsed.data),
+					})
+					return json(data, { status })
+				} catch (error: any) {
+					logger.error({ err: error, contactId: params.id }, 'Error starting contact resync')
+					return json({ error: 'Failed to start resync' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -21,6 +21,12 @@ vi.mock('../../lib/logger', () => ({
 	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
 }))
 
+// Full access unless a test says otherwise
+vi.mock('../../lib/permissions', () => ({
+	requireBookRole: vi.fn(() => Promise.resolve(null)),
+	requireContactRole: vi.fn(() => Promise.resolve(null)),
+}))
+
 vi.mock('../../lib/vcard', () => ({
 	extractUID: vi.fn().mockReturnValue('test-uid'),
 	generateVCard: vi.fn(),
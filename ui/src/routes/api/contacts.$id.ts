@@ -8,17 +8,20 @@ import { normalizePhoneNumber } from '../../lib/utils'
 import { BadPhotoError, decodePhotoPayloadForUpdate, resolveAddressBookIds, sanitizeContact, zodError } from '../../lib/contact-helpers'
 import { UpdateContactSchema } from '../../lib/schemas'
 import { actorFromRequest, recordHistory } from '../../lib/history'
+import { requireBookRole, requireContactRole } from '../../lib/permissions'
 import type { Contact } from '../../lib/db'
 
 export const Route = createFileRoute('/api/contacts/$id')({
 	server: {
 		handlers: {
-			GET: async ({ params }) => {
+			GET: async ({ params, request }) => {
 				try {
 					const contact = await getContactById(params.id)
 					if (!contact) {
 						return json({ error: 'Contact not found' }, { status: 404 })
 					}
+					const denied = await requireContactRole(request, [contact], 'viewer')
+					if (denied) return denied
 					return json(sanitizeContact(contact))
 				} catch (error) {
 					logger.error({ err: error }, 'Error fetching contact')
@@ -99,6 +102,12 @@ export const Route = createFileRoute('/api/contacts/$id')({
 					if (!existingContact) {
 						return json({ error: 'Contact not found' }, { status: 404 })
 					}
+					// Editing needs editor on the books the contact is in now and on
+					// any book it is being moved into.
+					const denied =
+						(await requireContactRole(request, [existingContact], 'editor')) ||
+						(hasAddressBookIds ? await requireBookRole(request, addressBookIds, 'editor') : null)
+					if (denied) return denied
 
 					const vcardData = generateVCard({
 						...existingContact,
@@ -107,8 +116,6 @@ export const Route = createFileRoute('/api/contacts/$id')({
 						emails: contactData.emails || existingContact.emails,
 						addresses: contactData.addresses || existingContact.addresses,
 						urls: contactData.urls || existingContact.urls,
-						photo_blob: photoFields.hasPhotoUpdate ? photoFields.photo_blob : existingContact.photo_blob,
-						photo_mime: photoFields.hasPhotoUpdate ? photoFields.photo_mime : existingContact.photo_mime,
 					})
 					const vcardId = extractUID(vcardData) || existingContact.vcard_id
 
@@ -152,6 +159,8 @@ export const Route = createFileRoute('/api/contacts/$id')({
 					if (!contact) {
 						return json({ error: 'Contact not found' }, { status: 404 })
 					}
+					const denied = await requireContactRole(request, [contact], 'editor')
+					if (denied) return denied
 
 					// Delete from database
 					await deleteContact(params.id)
@@ -1,17 +1,31 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-import { bulkSetContactAddressBooks, getBulkContactAddressBookIds } from '../../lib/db'
+import { bulkSetContactAddressBooks, getBulkContactAddressBookIds, getContactsByIds } from '../../lib/db'
+import { recordHistory } from '../../lib/history'
 import { BulkBooksSchema } from '../../lib/schemas'
 
 vi.mock('../../lib/db', () => ({
 	getBulkContactAddressBookIds: vi.fn(),
 	bulkSetContactAddressBooks: vi.fn(),
+	getContactsByIds: vi.fn(),
+}))
+
+vi.mock('../../lib/history', () => ({
+	actorFromRequest: vi.fn(() => ({ actor: null, actorType: null, userAgent: null, clientIp: null, source: 'web' })),
+	recordHistory: vi.fn(),
 }))
 
 vi.mock('../../lib/logger', () => ({
 	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
 }))
 
+// Full access unless a test says otherwise
+vi.mock('../../lib/permissions', () => ({
+	canAccessBooks: vi.fn(() => true),
+	forbidden: vi.fn(() => Response.json({ error: 'Forbidden' }, { status: 403 })),
+	getRequestAccess: vi.fn(() => Promise.resolve({ userId: null, globalRole: 'owner', bookRoles: {} })),
+}))
+
 vi.mock('../../lib/contact-helpers', () => ({
 	zodError: vi.fn().mockReturnValue(Response.json({ error: 'Validation failed' }, { status: 400 })),
 }))
@@ -68,6 +82,10 @@ describe('POST /api/contacts/bulk-books', () => {
 		])
 		vi.mocked(getBulkContactAddressBookIds).mockResolvedValue(currentMap)
 		vi.mocked(bulkSetContactAddressBooks).mockResolvedValue(undefined)
+		vi.mocked(getContactsByIds).mockResolvedValue([
+			{ id: 'c1', full_name: 'Ada' },
+			{ id: 'c2', full_name: 'Grace' },
+		] as never)
 
 		const handlers = await getHandler()
 		const request = new Request('http://localhost/api/contacts/bulk-books', {
@@ -89,6 +107,19 @@ describe('POST /api/contacts/bulk-books', () => {
 			{ contactId: 'c1', bookIds: expect.arrayContaining(['book-c', 'book-a']) },
 			{ contactId: 'c2', bookIds: ['book-a'] },
 		])
+
+		// Both changes land in one history batch that undo can restore the books from
+		const history = vi.mocked(recordHistory).mock.calls.map(call => call[0])
+		expect(history).toHaveLength(2)
+		expect(history[1]).toMatchObject({
+			contactId: 'c2',
+			operation: 'update',
+			summary: 'Changed address books of Grace',
+			previousState: { address_book_ids: ['book-b'] },
+			newState: { address_book_ids: ['book-a'] },
+			batchId: data.batchId,
+		})
+		expect(history[0].batchId).toBe(data.batchId)
 	})
 
 	it('returns 500 on database error', async () => {
@@ -1,9 +1,12 @@
+import crypto from 'node:crypto'
 import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
-import { bulkSetContactAddressBooks, getBulkContactAddressBookIds } from '../../lib/db'
+import { bulkSetContactAddressBooks, getBulkContactAddressBookIds, getContactsByIds } from '../../lib/db'
 import { zodError } from '../../lib/contact-helpers'
+import { actorFromRequest, recordHistory } from '../../lib/history'
 import { BulkBooksSchema } from '../../lib/schemas'
+import { canAccessBooks, forbidden, getRequestAccess } from '../../lib/permissions'
 
 export const Route = createFileRoute('/api/contacts/bulk-books')({
 	server: {
@@ -16,6 +19,11 @@ export const Route = createFileRoute('/api/contacts/bulk-books')({
 					const { contact_ids: contactIds, add_to_book_ids: addToBookIds, remove_from_book_ids: removeFromBookIds } = parsed.data
 
 					const currentMap = await getBulkContactAddressBookIds(contactIds)
+					const access = await getRequestAccess(request)
+					const touchesOnlyEditableBooks =
+						canAccessBooks(access, [...addToBookIds, ...removeFromBookIds], 'editor') &&
+						contactIds.every(contactId => canAccessBooks(access, currentMap.get(contactId) || [], 'editor'))
+					if (!touchesOnlyEditableBooks) return forbidden()
 					const assignments = contactIds.map(contactId => {
 						const current = new Set(currentMap.get(contactId) || [])
 						for (const id of addToBookIds) current.add(id)
@@ -24,7 +32,30 @@ export const Route = createFileRoute('/api/contacts/bulk-books')({
 					})
 					await bulkSetContactAddressBooks(assignments)
 
-					return json({ updated: contactIds.length })
+					// One history entry per contact whose books changed, batched so the
+					// whole change can be undone at once from /history.
+					const changed = assignments.filter(({ contactId, bookIds }) => {
+						const before = currentMap.get(contactId) || []
+						return before.length !== bookIds.length || before.some(id => !bookIds.includes(id))
+					})
+					const batchId = crypto.randomUUID()
+					const actor = actorFromRequest(request)
+					const contactsById = new Map((await getContactsByIds(changed.map(({ contactId }) => contactId))).map(c => [c.id, c]))
+					for (const { contactId, bookIds } of changed) {
+						const contact = contactsById.get(contactId)
+						await recordHistory({
+							...actor,
+							contactId,
+							operation: 'update',
+							summary: `Changed address books of ${contact?.full_name || contact?.email || 'contact'}`,
+							previousState: { address_book_ids: currentMap.get(contactId) || [] },
+							newState: { address_book_ids: bookIds },
+							metadata: { books: { add: addToBookIds, remove: removeFromBookIds } },
+							batchId,
+						})
+					}
+
+					return json({ updated: contactIds.length, batchId: changed.length > 0 ? batchId : null })
 				} catch (error) {
 					logger.error({ err: error }, 'Error updating contact address books')
 					return json({ error: 'Failed to update contact address books' }, { status: 500 })
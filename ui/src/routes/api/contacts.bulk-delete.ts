@@ -0,0 +1,48 @@
+import crypto from 'node:crypto'
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { deleteContact, getContactsByIds } from '../../lib/db'
+import { zodError } from '../../lib/contact-helpers'
+import { actorFromRequest, recordHistory } from '../../lib/history'
+import { BulkDeleteSchema } from '../../lib/schemas'
+import { requireContactRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/contacts/bulk-delete')({
+	server: {
+		handlers: {
+			POST: async ({ request }) => {
+				try {
+					const body = await request.json()
+					const parsed = BulkDeleteSchema.safeParse(body)
+					if (!parsed.success) return zodError(parsed.error)
+
+					const contacts = await getContactsByIds(parsed.data.contact_ids)
+					const denied = await requireContactRole(request, contacts, 'editor')
+					if (denied) return denied
+
+					// Soft deletes, one history entry each, batched so the whole
+					// selection can be restored at once from /history.
+					const batchId = crypto.randomUUID()
+					const actor = actorFromRequest(request)
+					for (const contact of contacts) {
+						await deleteContact(contact.id)
+						await recordHistory({
+							...actor,
+							contactId: contact.id,
+							operation: 'delete',
+							summary: `Deleted ${contact.full_name || contact.email || 'contact'}`,
+							previousState: contact,
+							batchId,
+						})
+					}
+
+					return json({ deleted: contacts.length, batchId: contacts.length > 0 ? batchId : null })
+				} catch (error) {
+					logger.error({ err: error }, 'Error deleting contacts')
+					return json({ error: 'Failed to delete contacts' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
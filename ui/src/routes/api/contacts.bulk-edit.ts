@@ -0,0 +1,37 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { getBulkContactAddressBookIds } from '../../lib/db'
+import { zodError } from '../../lib/contact-helpers'
+import { actorFromRequest } from '../../lib/history'
+import { BulkEditSchema } from '../../lib/schemas'
+import { bulkEditContacts, previewBulkEdit } from '../../lib/bulk-edit'
+import { canAccessBooks, forbidden, getRequestAccess } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/contacts/bulk-edit')({
+	server: {
+		handlers: {
+			POST: async ({ request }) => {
+				try {
+					const body = await request.json()
+					const parsed = BulkEditSchema.safeParse(body)
+					if (!parsed.success) return zodError(parsed.error)
+					const { contact_ids: contactIds, changes, preview } = parsed.data
+
+					const currentMap = await getBulkContactAddressBookIds(contactIds)
+					const access = await getRequestAccess(request)
+					if (!contactIds.every(contactId => canAccessBooks(access, currentMap.get(contactId) || [], 'editor'))) return forbidden()
+
+					if (preview) {
+						return json({ contacts: await previewBulkEdit(contactIds, changes) })
+					}
+					const result = await bulkEditContacts(contactIds, changes, actorFromRequest(request))
+					return json(result)
+				} catch (error) {
+					logger.error({ err: error }, 'Error bulk editing contacts')
+					return json({ error: 'Failed to edit contacts' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -0,0 +1,34 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { getBulkContactAddressBookIds } from '../../lib/db'
+import { zodError } from '../../lib/contact-helpers'
+import { actorFromRequest } from '../../lib/history'
+import { BulkTagsSchema } from '../../lib/schemas'
+import { bulkEditTags } from '../../lib/tags'
+import { canAccessBooks, forbidden, getRequestAccess } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/contacts/bulk-tags')({
+	server: {
+		handlers: {
+			POST: async ({ request }) => {
+				try {
+					const body = await request.json()
+					const parsed = BulkTagsSchema.safeParse(body)
+					if (!parsed.success) return zodError(parsed.error)
+					const { contact_ids: contactIds, add, remove } = parsed.data
+
+					const currentMap = await getBulkContactAddressBookIds(contactIds)
+					const access = await getRequestAccess(request)
+					if (!contactIds.every(contactId => canAccessBooks(access, currentMap.get(contactId) || [], 'editor'))) return forbidden()
+
+					const updated = await bulkEditTags(contactIds, { add, remove }, actorFromRequest(request))
+					return json({ updated })
+				} catch (error) {
+					logger.error({ err: error }, 'Error updating contact tags')
+					return json({ error: 'Failed to update contact tags' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
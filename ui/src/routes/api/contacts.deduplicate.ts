@@ -1,9 +1,11 @@
+import crypto from 'node:crypto'
 import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { deleteContact, getAllContacts, getContactById, updateContact } from '../../lib/db'
 import { extractUID, generateVCard } from '../../lib/vcard'
 import { actorFromRequest, recordHistory, snapshotContact } from '../../lib/history'
+import { requireGlobalRole } from '../../lib/permissions'
 import { refreshRelatedNamesVcards, transferRelationshipEdges } from '../../lib/relationships'
 import type { EdgeTransferSnapshotSet } from '../../lib/relationships'
 import type { Contact } from '../../lib/db'
@@ -27,7 +29,6 @@ function mergeContacts(primary: Contact, duplicate: Contact): Partial<Contact> {
 		birthday: primary.birthday || duplicate.birthday,
 		homepage: primary.homepage || duplicate.homepage,
 		notes: primary.notes || duplicate.notes,
-		photo_blob: primary.photo_blob || duplicate.photo_blob,
 		photo_mime: primary.photo_mime || duplicate.photo_mime,
 		photo_width: primary.photo_width || duplicate.photo_width,
 		photo_height: primary.photo_height || duplicate.photo_height,
@@ -64,6 +65,9 @@ export const Route = createFileRoute('/api/contacts/deduplicate')({
 			POST: async ({ request }) => {
 				const meta = actorFromRequest(request)
 				try {
+					// Deduplication sweeps every contact in every book.
+					const denied = await requireGlobalRole(request, 'editor')
+					if (denied) return denied
 					const allContacts = await getAllContacts()
 
 					// Group contacts by email (case-insensitive)
@@ -90,6 +94,8 @@ export const Route = createFileRoute('/api/contacts/deduplicate')({
 						}
 					}
 
+					// Every merge of this run shares a history batch, so the run can be undone at once.
+					const batchId = crypto.randomUUID()
 					const results = {
 						merged: 0,
 						deleted: 0,
@@ -155,6 +161,7 @@ export const Route = createFileRoute('/api/contacts/deduplicate')({
 										reason: 'email-duplicate',
 										...(relationshipTransfers ? { relationshipTransfers } : {}),
 									},
+									batchId,
 								})
 							} catch (error) {
 								results.errors.push({
@@ -231,6 +238,7 @@ export const Route = createFileRoute('/api/contacts/deduplicate')({
 											reason: 'name-phone-duplicate',
 											...(relationshipTransfers ? { relationshipTransfers } : {}),
 										},
+										batchId,
 									})
 								} catch (error) {
 									results.errors.push({
@@ -245,6 +253,7 @@ export const Route = createFileRoute('/api/contacts/deduplicate')({
 					return json({
 						message: `Merged ${results.merged} duplicate contacts, deleted ${results.deleted} duplicates${results.errors.length > 0 ? `, ${results.errors.length} errors` : ''}`,
 						...results,
+						batchId: results.merged > 0 ? batchId : null,
 					})
 				} catch (error) {
 					logger.error({ err: error }, 'Error deduplicating contacts')
@@ -3,13 +3,16 @@ import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { getAllContacts } from '../../lib/db'
 import { detectDuplicates } from '../../lib/merge'
+import { filterReadableContacts, getRequestAccess, requireAnyRole } from '../../lib/permissions'
 
 export const Route = createFileRoute('/api/contacts/duplicates')({
 	server: {
 		handlers: {
-			GET: async () => {
+			GET: async ({ request }) => {
 				try {
-					const contacts = await getAllContacts()
+					const denied = await requireAnyRole(request, 'viewer')
+					if (denied) return denied
+					const contacts = filterReadableContacts(await getRequestAccess(request), await getAllContacts())
 					const duplicateGroups = detectDuplicates(contacts)
 
 					return json({
@@ -3,7 +3,9 @@ import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { getAllContacts } from '../../lib/db'
 import { generateVCard } from '../../lib/vcard'
+import { withStoredPhoto } from '../../lib/photo-store'
 import { contactsToCsv } from '../../lib/csv'
+import { filterReadableContacts, getRequestAccess, requireAnyRole } from '../../lib/permissions'
 import { getRelatedNamesByContact, injectRelatedNames, relationshipsEnabled } from '../../lib/relationships'
 import type { Contact } from '../../lib/db'
 import type { RelatedName } from '../../lib/relationships'
@@ -16,7 +18,12 @@ async function contactsToVcf(contacts: Array<Contact>): Promise<string> {
 	} catch (error) {
 		logger.error({ err: error }, 'Failed to compute related names for export')
 	}
-	return contacts.map(contact => injectRelatedNames(generateVCard(contact), relatedByContact.get(contact.id) ?? [])).join('\r\n')
+	const cards: Array<string> = []
+	for (const contact of contacts) {
+		const card = injectRelatedNames(generateVCard(contact), relatedByContact.get(contact.id) ?? [])
+		cards.push(await withStoredPhoto(card, contact))
+	}
+	return cards.join('\r\n')
 }
 
 export const Route = createFileRoute('/api/contacts/export')({
@@ -31,7 +38,9 @@ export const Route = createFileRoute('/api/contacts/export')({
 						return json({ error: 'Missing or invalid format parameter. Use ?format=csv or ?format=vcf' }, { status: 400 })
 					}
 
-					const contacts = await getAllContacts()
+					const denied = await requireAnyRole(request, 'viewer')
+					if (denied) return denied
+					const contacts = filterReadableContacts(await getRequestAccess(request), await getAllContacts())
 
 					if (format === 'csv') {
 						const csv = contactsToCsv(contacts)
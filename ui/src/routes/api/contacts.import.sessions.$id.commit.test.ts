@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	ImportAlreadyCommittedError,
+	claimImportSession,
+	commitImportSession,
+	getImportSession,
+	releaseImportSession,
+} from '../../lib/contact-import'
+import type { ImportSession } from '../../lib/contact-import'
+
+vi.mock('../../lib/contact-import', async importOriginal => ({
+	...(await importOriginal<Record<string, unknown>>()),
+	claimImportSession: vi.fn(),
+	commitImportSession: vi.fn(),
+	getImportSession: vi.fn(),
+	importResultMessage: vi.fn().mockReturnValue('Imported'),
+	importSessionsEnabled: vi.fn().mockResolvedValue(true),
+	releaseImportSession: vi.fn(),
+}))
+
+vi.mock('../../lib/history', () => ({
+	actorFromRequest: vi.fn().mockReturnValue({ actor: null, actorType: null, userAgent: null, clientIp: null, source: 'web' }),
+}))
+
+vi.mock('../../lib/logger', () => ({
+	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}))
+
+vi.mock('../../lib/permissions', () => ({
+	requireGlobalRole: vi.fn(() => Promise.resolve(null)),
+}))
+
+const getHandler = async () => {
+	const mod = await import('./contacts.import.sessions.$id.commit')
+	const route = mod.Route as unknown as Record<string, unknown>
+	const options = route.options as Record<string, unknown>
+	const server = options.server as Record<string, unknown>
+	const handlers = server.handlers as Record<string, (...args: Array<unknown>) => Promise<Response>>
+	return handlers
+}
+
+const commit = async () => {
+	const handlers = await getHandler()
+	return handlers.POST({
+		request: new Request('http://localhost/api/contacts/import/sessions/s-1/commit', { method: 'POST' }),
+		params: { id: 's-1' },
+	})
+}
+
+const session = {
+	id: 's-1',
+	file_name: 'contacts.csv',
+	format: 'csv',
+	decisions: {},
+	commit_claimed_at: new Date(),
+} as unknown as ImportSession
+
+describe('POST /api/contacts/import/sessions/:id/commit', () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+		vi.mocked(claimImportSession).mockResolvedValue(session)
+		vi.mocked(commitImportSession).mockResolvedValue({ success: 1, updated: 0, skipped: 0, failed: 0, errors: [], historyId: 'h-1' })
+	})
+
+	it('commits the claimed session', async () => {
+		const response = await commit()
+
+		expect(response.status).toBe(200)
+		expect(claimImportSession).toHaveBeenCalledWith('s-1')
+		expect(commitImportSession).toHaveBeenCalledWith(session, expect.anything())
+		expect(releaseImportSession).not.toHaveBeenCalled()
+	})
+
+	it('releases the claim when the import fails', async () => {
+		vi.mocked(commitImportSession).mockRejectedValue(new Error('connection lost'))
+
+		const response = await commit()
+
+		expect(response.status).toBe(500)
+		expect(releaseImportSession).toHaveBeenCalledWith('s-1')
+	})
+
+	it('answers 409 when a commit that took over the claim finished first', async () => {
+		vi.mocked(commitImportSession).mockRejectedValue(new ImportAlreadyCommittedError())
+
+		const response = await commit()
+
+		expect(response.status).toBe(409)
+		expect(releaseImportSession).not.toHaveBeenCalled()
+	})
+
+	it('refuses a second commit while the first holds the claim', async () => {
+		vi.mocked(claimImportSession).mockResolvedValue(null)
+		vi.mocked(getImportSession).mockResolvedValue(session)
+
+		const response = await commit()
+
+		expect(response.status).toBe(409)
+		expect(commitImportSession).not.toHaveBeenCalled()
+	})
+
+	it('returns 404 for a session that no longer exists', async () => {
+		vi.mocked(claimImportSession).mockResolvedValue(null)
+		vi.mocked(getImportSession).mockResolvedValue(null)
+
+		const response = await commit()
+
+		expect(response.status).toBe(404)
+	})
+})
@@ -0,0 +1,58 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import {
+	ImportAlreadyCommittedError,
+	claimImportSession,
+	commitImportSession,
+	getImportSession,
+	importResultMessage,
+	importSessionsEnabled,
+	releaseImportSession,
+} from '../../lib/contact-import'
+import { actorFromRequest } from '../../lib/history'
+import { requireGlobalRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/contacts/import/sessions/$id/commit')({
+	server: {
+		handlers: {
+			// Write a previewed import with its mapping and per-row decisions.
+			POST: async ({ request, params }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'editor')
+					if (denied) return denied
+					if (!(await importSessionsEnabled())) {
+						return json({ error: 'Import preview is not available (migration pending)' }, { status: 503 })
+					}
+					// Claim the session so a double-submitted confirm cannot import twice.
+					const session = await claimImportSession(params.id)
+					if (!session) {
+						return (await getImportSession(params.id))
+							? json({ error: 'This import is already being committed' }, { status: 409 })
+							: json({ error: 'Import not found' }, { status: 404 })
+					}
+
+					let results
+					try {
+						results = await commitImportSession(session, actorFromRequest(request))
+					} catch (error) {
+						if (error instanceof ImportAlreadyCommittedError) return json({ error: error.message }, { status: 409 })
+						// The import rolled back, so the session can be committed again.
+						await releaseImportSession(session.id)
+						throw error
+					}
+					return json({ message: importResultMessage(session.format, results), format: session.format, ...results })
+				} catch (error) {
+					logger.error({ err: error, importId: params.id }, 'Error committing import')
+					return json(
+						{
+							error: 'Failed to import contacts',
+							details: error instanceof Error ? error.message : 'Unknown error',
+						},
+						{ status: 500 }
+					)
+				}
+			},
+		},
+	},
+})
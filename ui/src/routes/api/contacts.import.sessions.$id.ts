@@ -0,0 +1,83 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { zodError } from '../../lib/contact-helpers'
+import { UpdateImportSessionSchema } from '../../lib/schemas'
+import { requireGlobalRole } from '../../lib/permissions'
+import {
+	deleteImportSession,
+	describeImportSession,
+	getImportSession,
+	importSessionsEnabled,
+	unknownAddressBookIds,
+	updateImportSession,
+} from '../../lib/contact-import'
+import { parseCSVTable } from '../../lib/csv'
+
+const notAvailable = () => json({ error: 'Import preview is not available (migration pending)' }, { status: 503 })
+
+export const Route = createFileRoute('/api/contacts/import/sessions/$id')({
+	server: {
+		handlers: {
+			GET: async ({ request, params }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'editor')
+					if (denied) return denied
+					if (!(await importSessionsEnabled())) return notAvailable()
+					const session = await getImportSession(params.id)
+					if (!session) return json({ error: 'Import not found' }, { status: 404 })
+					return json({ session: await describeImportSession(session) })
+				} catch (error) {
+					logger.error({ err: error, importId: params.id }, 'Error loading import preview')
+					return json({ error: 'Failed to load import preview' }, { status: 500 })
+				}
+			},
+			PATCH: async ({ request, params }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'editor')
+					if (denied) return denied
+					if (!(await importSessionsEnabled())) return notAvailable()
+					const body = await request.json()
+					const parsed = UpdateImportSessionSchema.safeParse(body)
+					if (!parsed.success) return zodError(parsed.error)
+
+					const session = await getImportSession(params.id)
+					if (!session) return json({ error: 'Import not found' }, { status: 404 })
+					const mapping = parsed.data.column_mapping
+					if (mapping) {
+						if (session.format !== 'csv') {
+							return json({ error: 'Only CSV imports have a column mapping' }, { status: 400 })
+						}
+						if (mapping.length !== parseCSVTable(session.content).headers.length) {
+							return json({ error: 'Column mapping must have one entry per column' }, { status: 400 })
+						}
+					}
+
+					const unknownBooks = await unknownAddressBookIds(parsed.data.address_book_ids ?? [])
+					if (unknownBooks.length > 0) {
+						return json({ error: `Unknown address book: ${unknownBooks.join(', ')}` }, { status: 400 })
+					}
+
+					const updated = await updateImportSession(session, parsed.data)
+					return json({ session: await describeImportSession(updated) })
+				} catch (error) {
+					logger.error({ err: error, importId: params.id }, 'Error updating import preview')
+					return json({ error: 'Failed to update import preview' }, { status: 500 })
+				}
+			},
+			// Discard a staged file without importing it.
+			DELETE: async ({ request, params }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'editor')
+					if (denied) return denied
+					if (!(await importSessionsEnabled())) return notAvailable()
+					await deleteImportSession(params.id)
+					return json({ message: 'Import discarded' })
+				} catch (error) {
+					logger.error({ err: error, importId: params.id }, 'Error discarding import')
+					return json({ error: 'Failed to discard import' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -0,0 +1,70 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { zodError } from '../../lib/contact-helpers'
+import { ImportOptionsSchema } from '../../lib/schemas'
+import {
+	DEFAULT_MATCH_STRATEGY,
+	createImportSession,
+	describeImportSession,
+	importFormatForFile,
+	importSessionsEnabled,
+	readImportRecords,
+	unknownAddressBookIds,
+} from '../../lib/contact-import'
+import { actorFromRequest } from '../../lib/history'
+import { requireGlobalRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/contacts/import/sessions')({
+	server: {
+		handlers: {
+			// Stage an uploaded file for preview; nothing is written to contacts yet.
+			POST: async ({ request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'editor')
+					if (denied) return denied
+					if (!(await importSessionsEnabled())) {
+						return json({ error: 'Import preview is not available (migration pending)' }, { status: 503 })
+					}
+					const formData = await request.formData()
+					const file = formData.get('file') as File | null
+					if (!file) {
+						return json({ error: 'No file provided' }, { status: 400 })
+					}
+
+					const format = importFormatForFile(file.name)
+					if (!format) {
+						return json({ error: 'File must be a CSV or vCard (.vcf) file' }, { status: 400 })
+					}
+
+					const options = ImportOptionsSchema.safeParse({
+						address_book_ids: formData.getAll('address_book_ids').map(String).filter(Boolean),
+						match_strategy: formData.get('match_strategy') ?? undefined,
+					})
+					if (!options.success) return zodError(options.error)
+					const unknownBooks = await unknownAddressBookIds(options.data.address_book_ids ?? [])
+					if (unknownBooks.length > 0) {
+						return json({ error: `Unknown address book: ${unknownBooks.join(', ')}` }, { status: 400 })
+					}
+					const content = await file.text()
+					if (readImportRecords(format, content).length === 0) {
+						return json({ error: format === 'vcard' ? 'vCard file contains no contacts' : 'CSV file is empty' }, { status: 400 })
+					}
+
+					const session = await createImportSession({
+						fileName: file.name,
+						format,
+						content,
+						addressBookIds: options.data.address_book_ids?.length ? options.data.address_book_ids : null,
+						matchStrategy: options.data.match_strategy ?? DEFAULT_MATCH_STRATEGY,
+						createdBy: actorFromRequest(request).actor,
+					})
+					return json({ session: await describeImportSession(session) }, { status: 201 })
+				} catch (error) {
+					logger.error({ err: error }, 'Error staging import')
+					return json({ error: 'Failed to read import file' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -1,19 +1,30 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
-import { createContact, findDuplicateContact, getAddressBookBySlug, setContactAddressBooks, updateContact } from '../../lib/db'
-import { extractUID, generateVCard } from '../../lib/vcard'
-import { mapCSVRowToContact, parseCSV } from '../../lib/csv'
-import { actorFromRequest, recordHistory } from '../../lib/history'
-import type { Contact } from '../../lib/db'
+import { zodError } from '../../lib/contact-helpers'
+import { ImportOptionsSchema } from '../../lib/schemas'
+import {
+	importFormatForFile,
+	importResultMessage,
+	readImportRecords,
+	resolveImportOptions,
+	runImport,
+	unknownAddressBookIds,
+} from '../../lib/contact-import'
+import { actorFromRequest } from '../../lib/history'
+import { requireGlobalRole } from '../../lib/permissions'
 
+// One-shot import with the detected column mapping and no per-row overrides.
+// The UI stages files through /api/contacts/import/sessions instead.
 export const Route = createFileRoute('/api/contacts/import')({
 	server: {
 		handlers: {
 			POST: async ({ request }) => {
 				const meta = actorFromRequest(request)
 				try {
-					const defaultBook = await getAddressBookBySlug('shared-contacts')
+					// Rows are matched against (and may update) contacts in any book.
+					const denied = await requireGlobalRole(request, 'editor')
+					if (denied) return denied
 					const formData = await request.formData()
 					const file = formData.get('file') as File | null
 
@@ -21,137 +32,39 @@ export const Route = createFileRoute('/api/contacts/import')({
 						return json({ error: 'No file provided' }, { status: 400 })
 					}
 
-					if (!file.name.endsWith('.csv')) {
-						return json({ error: 'File must be a CSV' }, { status: 400 })
+					const format = importFormatForFile(file.name)
+					if (!format) {
+						return json({ error: 'File must be a CSV or vCard (.vcf) file' }, { status: 400 })
 					}
 
-					// Read file content
-					const csvText = await file.text()
-					const rows = parseCSV(csvText)
-
-					if (rows.length === 0) {
-						return json({ error: 'CSV file is empty' }, { status: 400 })
-					}
-
-					const results = {
-						success: 0,
-						updated: 0,
-						skipped: 0,
-						failed: 0,
-						errors: [] as Array<{ row: number; error: string }>,
+					const options = ImportOptionsSchema.safeParse({
+						address_book_ids: formData.getAll('address_book_ids').map(String).filter(Boolean),
+						match_strategy: formData.get('match_strategy') ?? undefined,
+					})
+					if (!options.success) return zodError(options.error)
+					const unknownBooks = await unknownAddressBookIds(options.data.address_book_ids ?? [])
+					if (unknownBooks.length > 0) {
+						return json({ error: `Unknown address book: ${unknownBooks.join(', ')}` }, { status: 400 })
 					}
 
-					// Process each row
-					for (let i = 0; i < rows.length; i++) {
-						try {
-							const contactData = mapCSVRowToContact(rows[i])
-
-							// Skip if no meaningful data
-							if (!contactData.full_name && !contactData.email && !contactData.phone) {
-								results.skipped++
-								continue
-							}
-
-							// Check for existing duplicate
-							const existing = await findDuplicateContact(
-								contactData.full_name || null,
-								contactData.email || null,
-								contactData.phone || null
-							)
-
-							// Generate vCard data
-							const vcardData = generateVCard(contactData)
-							const vcardId = extractUID(vcardData) || undefined
-
-							if (existing) {
-								// Merge with existing contact - prefer new non-null values
-								const mergedData: Partial<Contact> = {
-									// Keep existing ID and timestamps
-									id: existing.id,
-									created_at: existing.created_at,
-									// Merge fields - prefer new non-null values
-									full_name: contactData.full_name || existing.full_name,
-									first_name: contactData.first_name || existing.first_name,
-									last_name: contactData.last_name || existing.last_name,
-									middle_name: contactData.middle_name || existing.middle_name,
-									nickname: contactData.nickname || existing.nickname,
-									maiden_name: contactData.maiden_name || existing.maiden_name,
-									email: contactData.email || existing.email,
-									phone: contactData.phone || existing.phone,
-									organization: contactData.organization || existing.organization,
-									job_title: contactData.job_title || existing.job_title,
-									address: contactData.address || existing.address,
-									birthday: contactData.birthday || existing.birthday,
-									homepage: contactData.homepage || existing.homepage,
-									notes: contactData.notes || existing.notes,
-									// Always update vCard
-									vcard_id: vcardId,
-									vcard_data: vcardData,
-								}
-
-								const updated = await updateContact(existing.id, {
-									...mergedData,
-									sync_source: 'api',
-									last_synced_to_radicale_at: null, // Force sync to Radicale
-								})
-								await recordHistory({
-									contactId: existing.id,
-									operation: 'update',
-									source: 'import',
-									actor: meta.actor,
-									actorType: meta.actorType,
-									userAgent: meta.userAgent,
-									clientIp: meta.clientIp,
-									summary: `Updated from CSV import: ${updated.full_name || updated.email || 'contact'}`,
-									previousState: existing,
-									newState: updated,
-									metadata: { csvRow: i + 2 },
-								})
-								results.updated++
-							} else {
-								// Create new contact
-								const created = await createContact({
-									...contactData,
-									vcard_id: vcardId,
-									vcard_data: vcardData,
-									sync_source: 'api',
-									last_synced_to_radicale_at: null, // Force sync to Radicale
-								})
-								if (defaultBook) {
-									await setContactAddressBooks(created.id, [defaultBook.id])
-								}
-								await recordHistory({
-									contactId: created.id,
-									operation: 'create',
-									source: 'import',
-									actor: meta.actor,
-									actorType: meta.actorType,
-									userAgent: meta.userAgent,
-									clientIp: meta.clientIp,
-									summary: `Imported from CSV: ${created.full_name || created.email || 'contact'}`,
-									newState: created,
-									metadata: { csvRow: i + 2 },
-								})
-								results.success++
-							}
-						} catch (error) {
-							results.failed++
-							results.errors.push({
-								row: i + 2, // +2 because row 1 is header, and we're 0-indexed
-								error: error instanceof Error ? error.message : 'Unknown error',
-							})
-						}
+					const records = readImportRecords(format, await file.text())
+					if (records.length === 0) {
+						return json({ error: format === 'vcard' ? 'vCard file contains no contacts' : 'CSV file is empty' }, { status: 400 })
 					}
 
-					return json({
-						message: `Imported ${results.success} new contacts, updated ${results.updated} existing contacts${results.skipped > 0 ? `, skipped ${results.skipped} empty rows` : ''}${results.failed > 0 ? `, ${results.failed} failed` : ''}`,
-						...results,
+					const results = await runImport({
+						records,
+						format,
+						fileName: file.name,
+						actor: meta,
+						options: await resolveImportOptions(options.data.address_book_ids, options.data.match_strategy),
 					})
+					return json({ message: importResultMessage(format, results), format, ...results })
 				} catch (error) {
-					logger.error({ err: error }, 'Error importing CSV')
+					logger.error({ err: error }, 'Error importing contacts')
 					return json(
 						{
-							error: 'Failed to import CSV',
+							error: 'Failed to import contacts',
 							details: error instanceof Error ? error.message : 'Unknown error',
 						},
 						{ status: 500 }
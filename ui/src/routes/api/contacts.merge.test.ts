@@ -23,6 +23,11 @@ vi.mock('../../lib/logger', () => ({
 	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
 }))
 
+// Full access unless a test says otherwise
+vi.mock('../../lib/permissions', () => ({
+	requireContactRole: vi.fn(() => Promise.resolve(null)),
+}))
+
 vi.mock('../../lib/vcard', () => ({
 	extractUID: vi.fn().mockReturnValue('test-uid'),
 	generateVCard: vi.fn().mockReturnValue('BEGIN:VCARD\nVERSION:3.0\nFN:Test\nEND:VCARD'),
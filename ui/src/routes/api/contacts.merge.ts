@@ -7,6 +7,7 @@ import { mergeContacts } from '../../lib/merge'
 import { sanitizeContact, zodError } from '../../lib/contact-helpers'
 import { MergeContactsSchema } from '../../lib/schemas'
 import { actorFromRequest, recordHistory, snapshotContact } from '../../lib/history'
+import { requireContactRole } from '../../lib/permissions'
 import { refreshRelatedNamesVcards, transferRelationshipEdges } from '../../lib/relationships'
 import type { EdgeTransferSnapshotSet } from '../../lib/relationships'
 
@@ -27,6 +28,8 @@ export const Route = createFileRoute('/api/contacts/merge')({
 						const missingId = contactIds.find(id => !foundIds.has(id))
 						return json({ error: `Contact with id ${missingId} not found` }, { status: 404 })
 					}
+					const denied = await requireContactRole(request, contacts, 'editor')
+					if (denied) return denied
 
 					// Merge contacts (this will sort by created_at and identify primary)
 					const mergedData = mergeContacts(contacts)
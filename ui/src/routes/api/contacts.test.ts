@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import { createContact, getAllContacts, getAllContactsPaginated } from '../../lib/db'
+import { readableBookIds, requireAnyRole } from '../../lib/permissions'
 import { CreateContactSchema } from '../../lib/schemas'
 
 // Mock db module before imports
@@ -17,6 +18,15 @@ vi.mock('../../lib/logger', () => ({
 	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
 }))
 
+// Full access unless a test says otherwise
+vi.mock('../../lib/permissions', () => ({
+	filterReadableContacts: vi.fn((_access: unknown, contacts: Array<unknown>) => contacts),
+	getRequestAccess: vi.fn(() => Promise.resolve({ userId: null, globalRole: 'owner', bookRoles: {} })),
+	readableBookIds: vi.fn(() => null),
+	requireAnyRole: vi.fn(() => Promise.resolve(null)),
+	requireBookRole: vi.fn(() => Promise.resolve(null)),
+}))
+
 vi.mock('../../lib/vcard', () => ({
 	extractUID: vi.fn().mockReturnValue('test-uid'),
 	generateVCard: vi.fn().mockReturnValue('BEGIN:VCARD\nVERSION:3.0\nFN:Test\nEND:VCARD'),
@@ -43,10 +53,10 @@ vi.mock('../../lib/schemas', () => ({
 // Extract the handler from the route module
 const getHandler = async () => {
 	const mod = await import('./contacts')
-	const route = mod.Route as Record<string, unknown>
+	const route = mod.Route as unknown as Record<string, unknown>
 	const options = route.options as Record<string, unknown>
 	const server = options.server as Record<string, unknown>
-	const handlers = server.handlers as Record<string, (...args: Array<unknown>) => unknown>
+	const handlers = server.handlers as Record<string, (...args: Array<unknown>) => Promise<Response>>
 	return handlers
 }
 
@@ -83,6 +93,26 @@ describe('GET /api/contacts', () => {
 		expect(data).toHaveProperty('total')
 	})
 
+	it('scopes paginated results to the books the user can read', async () => {
+		vi.mocked(readableBookIds).mockReturnValueOnce(['book-1'])
+		vi.mocked(getAllContactsPaginated).mockResolvedValue({ data: [], total: 0, limit: 10, offset: 0 } as never)
+
+		const handlers = await getHandler()
+		await handlers.GET({ request: new Request('http://localhost/api/contacts?limit=10') })
+
+		expect(getAllContactsPaginated).toHaveBeenCalledWith({ limit: 10, offset: undefined, addressBookIds: ['book-1'] })
+	})
+
+	it('returns 403 when the user has no role on any book', async () => {
+		vi.mocked(requireAnyRole).mockResolvedValueOnce(Response.json({ error: 'Forbidden' }, { status: 403 }))
+
+		const handlers = await getHandler()
+		const response = await handlers.GET({ request: new Request('http://localhost/api/contacts') })
+
+		expect(response.status).toBe(403)
+		expect(getAllContacts).not.toHaveBeenCalled()
+	})
+
 	it('returns 500 on database error', async () => {
 		vi.mocked(getAllContacts).mockRejectedValue(new Error('DB error'))
 
@@ -20,6 +20,15 @@ vi.mock('../../lib/logger', () => ({
 	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
 }))
 
+// Full access unless a test says otherwise
+vi.mock('../../lib/permissions', () => ({
+	filterReadableContacts: vi.fn((_access: unknown, contacts: Array<unknown>) => contacts),
+	getRequestAccess: vi.fn(() => Promise.resolve({ userId: null, globalRole: 'owner', bookRoles: {} })),
+	requireAnyRole: vi.fn(() => Promise.resolve(null)),
+	requireContactRole: vi.fn(() => Promise.resolve(null)),
+	requireGlobalRole: vi.fn(() => Promise.resolve(null)),
+}))
+
 vi.mock('../../lib/relationships', () => ({
 	contactEdgeNeighborIds: vi.fn(),
 	deleteOrphanPlaceholders: vi.fn(),
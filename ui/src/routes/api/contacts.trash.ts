@@ -3,6 +3,7 @@ import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { emptyTrash, getContactById, getDeletedContacts, permanentlyDeleteContact, restoreContact } from '../../lib/db'
 import { actorFromRequest, recordHistory } from '../../lib/history'
+import { filterReadableContacts, getRequestAccess, requireAnyRole, requireContactRole, requireGlobalRole } from '../../lib/permissions'
 import { contactEdgeNeighborIds, deleteOrphanPlaceholders, refreshRelatedNamesVcards } from '../../lib/relationships'
 
 /**
@@ -33,9 +34,11 @@ async function cleanupAfterPurge(neighborIds: Array<string>): Promise<void> {
 export const Route = createFileRoute('/api/contacts/trash')({
 	server: {
 		handlers: {
-			GET: async () => {
+			GET: async ({ request }) => {
 				try {
-					const contacts = await getDeletedContacts()
+					const denied = await requireAnyRole(request, 'viewer')
+					if (denied) return denied
+					const contacts = filterReadableContacts(await getRequestAccess(request), await getDeletedContacts())
 					return json(contacts)
 				} catch (error) {
 					logger.error({ err: error }, 'Failed to fetch deleted contacts')
@@ -50,6 +53,8 @@ export const Route = createFileRoute('/api/contacts/trash')({
 
 					if (action === 'restore' && id) {
 						const before = await getContactById(id, true)
+						const denied = before ? await requireContactRole(request, [before], 'editor') : null
+						if (denied) return denied
 						await restoreContact(id)
 						const after = await getContactById(id, true)
 						await recordHistory({
@@ -69,6 +74,8 @@ export const Route = createFileRoute('/api/contacts/trash')({
 
 					if (action === 'permanent-delete' && id) {
 						const before = await getContactById(id, true)
+						const denied = before ? await requireContactRole(request, [before], 'editor') : null
+						if (denied) return denied
 						const neighborIds = await neighborsBeforePurge([id])
 						await permanentlyDeleteContact(id)
 						await cleanupAfterPurge(neighborIds)
@@ -88,6 +95,8 @@ export const Route = createFileRoute('/api/contacts/trash')({
 					}
 
 					if (action === 'empty') {
+						const denied = await requireGlobalRole(request, 'editor')
+						if (denied) return denied
 						const trashed = await getDeletedContacts()
 						const neighborIds = await neighborsBeforePurge(trashed.map(contact => contact.id))
 						const count = await emptyTrash()
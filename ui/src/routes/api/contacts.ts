@@ -7,7 +7,10 @@ import { normalizeBirthday } from '../../lib/csv'
 import { normalizePhoneNumber } from '../../lib/utils'
 import { BadPhotoError, decodePhotoPayload, resolveAddressBookIds, sanitizeContact, zodError } from '../../lib/contact-helpers'
 import { CreateContactSchema } from '../../lib/schemas'
+import { isContactSearchRequest, parseContactListQuery, searchContacts } from '../../lib/contact-search'
+import { ContactQueryError } from '../../lib/contact-query'
 import { actorFromRequest, recordHistory } from '../../lib/history'
+import { filterReadableContacts, getRequestAccess, readableBookIds, requireAnyRole, requireBookRole } from '../../lib/permissions'
 import type { Contact } from '../../lib/db'
 
 export const Route = createFileRoute('/api/contacts')({
@@ -16,6 +19,22 @@ export const Route = createFileRoute('/api/contacts')({
 			GET: async ({ request }) => {
 				try {
 					const url = new URL(request.url)
+
+					// ?q, ?book, ?has, ?missing, ?sort, ?order and ?cursor: one page of the list (see lib/contact-search.ts).
+					// ?q takes the search language of shared/contact-filter.ts, e.g. `book:family has:birthday -has:email`.
+					if (isContactSearchRequest(url.searchParams)) {
+						const parsed = parseContactListQuery(url.searchParams)
+						if ('error' in parsed) return json({ error: parsed.error }, { status: 400 })
+						const { query } = parsed
+						const denied = query.bookId ? await requireBookRole(request, [query.bookId], 'viewer') : await requireAnyRole(request, 'viewer')
+						if (denied) return denied
+						const page = await searchContacts(query, readableBookIds(await getRequestAccess(request)))
+						return json(page)
+					}
+
+					const denied = await requireAnyRole(request, 'viewer')
+					if (denied) return denied
+					const access = await getRequestAccess(request)
 					const limitParam = url.searchParams.get('limit')
 					const offsetParam = url.searchParams.get('offset')
 
@@ -24,6 +43,7 @@ export const Route = createFileRoute('/api/contacts')({
 						const result = await getAllContactsPaginated({
 							limit: limitParam ? parseInt(limitParam, 10) : undefined,
 							offset: offsetParam ? parseInt(offsetParam, 10) : undefined,
+							addressBookIds: readableBookIds(access) ?? undefined,
 						})
 						return json({
 							data: result.data.map(sanitizeContact),
@@ -34,9 +54,12 @@ export const Route = createFileRoute('/api/contacts')({
 					}
 
 					// Default: return flat array for backward compatibility
-					const contacts = await getAllContacts()
+					const contacts = filterReadableContacts(access, await getAllContacts())
 					return json(contacts.map(sanitizeContact))
 				} catch (error) {
+					if (error instanceof ContactQueryError) {
+						return json({ error: error.message }, { status: 400 })
+					}
 					logger.error({ err: error }, 'Error fetching contacts')
 					return json({ error: 'Failed to fetch contacts' }, { status: 500 })
 				}
@@ -48,6 +71,8 @@ export const Route = createFileRoute('/api/contacts')({
 					if (!parsed.success) return zodError(parsed.error)
 					const photoFields = decodePhotoPayload(parsed.data)
 					const addressBookIds = await resolveAddressBookIds(parsed.data.address_book_ids)
+					const denied = await requireBookRole(request, addressBookIds, 'editor')
+					if (denied) return denied
 
 					const normalizedPhones = Array.isArray(parsed.data.phones)
 						? parsed.data.phones.map((phone: { value?: string }) => ({
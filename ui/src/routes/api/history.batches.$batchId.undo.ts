@@ -0,0 +1,27 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { actorFromRequest } from '../../lib/history'
+import { UndoError, undoHistoryBatch } from '../../lib/history-undo'
+import { requireGlobalRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/history/batches/$batchId/undo')({
+	server: {
+		handlers: {
+			POST: async ({ params, request }) => {
+				try {
+					// A batch can span every book, like the unscoped history feed.
+					const denied = await requireGlobalRole(request, 'editor')
+					if (denied) return denied
+					return json(await undoHistoryBatch(params.batchId, actorFromRequest(request)))
+				} catch (error) {
+					if (error instanceof UndoError) {
+						return json({ error: error.message }, { status: error.status })
+					}
+					logger.error({ err: error, batchId: params.batchId }, 'Failed to undo history batch')
+					return json({ error: 'Failed to undo batch' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -1,7 +1,9 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
+import { getContactById } from '../../lib/db'
 import { listHistory } from '../../lib/history'
+import { requireContactRole, requireGlobalRole } from '../../lib/permissions'
 
 export const Route = createFileRoute('/api/history')({
 	server: {
@@ -9,11 +11,18 @@ export const Route = createFileRoute('/api/history')({
 			GET: async ({ request }) => {
 				try {
 					const url = new URL(request.url)
-					const contactId = url.searchParams.get('contactId') || undefined
+					const batchId = url.searchParams.get('batchId') || undefined
+					const contactId = batchId ? undefined : url.searchParams.get('contactId') || undefined
+					// The unscoped feed and batches span every book; per-contact history
+					// only needs read access to that contact.
+					const contact = contactId ? await getContactById(contactId, true) : null
+					const denied = contact ? await requireContactRole(request, [contact], 'viewer') : await requireGlobalRole(request, 'viewer')
+					if (denied) return denied
 					const limit = url.searchParams.get('limit')
 					const offset = url.searchParams.get('offset')
 					const result = await listHistory({
 						contactId,
+						batchId,
 						limit: limit ? parseInt(limit, 10) : undefined,
 						offset: offset ? parseInt(offset, 10) : undefined,
 					})
@@ -12,6 +12,11 @@ vi.mock('../../lib/logger', () => ({
 	logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
 }))
 
+// Full access unless a test says otherwise
+vi.mock('../../lib/permissions', () => ({
+	requireGlobalRole: vi.fn(() => Promise.resolve(null)),
+}))
+
 vi.mock('../../lib/mobileconfig-signer', () => ({
 	signMobileconfig: vi.fn((xml: string) =>
 		Promise.resolve({
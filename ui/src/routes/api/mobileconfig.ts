@@ -4,6 +4,7 @@ import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { getAddressBook, getAddressBookReadonly, getAddressBooks, getAppSetting, getUserAddressBookIds } from '../../lib/db'
 import { signMobileconfig } from '../../lib/mobileconfig-signer'
+import { requireGlobalRole } from '../../lib/permissions'
 
 function getCardDAVBaseUrlFromRequest(request: Request): string {
 	const envBase = process.env.PUBLIC_CARDDAV_URL
@@ -153,6 +154,8 @@ export const Route = createFileRoute('/api/mobileconfig')({
 		handlers: {
 			GET: async ({ request }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const url = new URL(request.url)
 					const username = (url.searchParams.get('username') || '').trim()
 					const bookId = (url.searchParams.get('bookId') || '').trim()
@@ -2,13 +2,16 @@ import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { proxyRequest } from '../../lib/sync-service'
+import { requireGlobalRole } from '../../lib/permissions'
 
 export const Route = createFileRoute('/api/radicale-users/$username/backfill')({
 	server: {
 		handlers: {
-			POST: async ({ params }) => {
+			POST: async ({ params, request }) => {
 				logger.info({ params }, 'backfilling user')
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const { username } = params
 					const { data, status } = await proxyRequest(`/api/radicale-users/backfill/${encodeURIComponent(username)}`, {
 						method: 'POST',
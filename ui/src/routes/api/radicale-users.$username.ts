@@ -2,12 +2,15 @@ import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { proxyRequest } from '../../lib/sync-service'
+import { requireGlobalRole } from '../../lib/permissions'
 
 export const Route = createFileRoute('/api/radicale-users/$username')({
 	server: {
 		handlers: {
 			PUT: async ({ request, params }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const { username } = params
 					const body = await request.json()
 					const { data, status } = await proxyRequest(`/api/radicale-users/${encodeURIComponent(username)}`, {
@@ -21,8 +24,10 @@ export const Route = createFileRoute('/api/radicale-users/$username')({
 					return json({ error: 'Failed to update user' }, { status: 500 })
 				}
 			},
-			DELETE: async ({ params }) => {
+			DELETE: async ({ params, request }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const { username } = params
 					const { data, status } = await proxyRequest(`/api/radicale-users/${encodeURIComponent(username)}`, { method: 'DELETE' })
 					return json(data, { status })
@@ -4,12 +4,15 @@ import { logger } from '../../lib/logger'
 import { proxyRequest } from '../../lib/sync-service'
 import { zodError } from '../../lib/contact-helpers'
 import { CreateRadicaleUserSchema } from '../../lib/schemas'
+import { requireGlobalRole } from '../../lib/permissions'
 
 export const Route = createFileRoute('/api/radicale-users')({
 	server: {
 		handlers: {
-			GET: async () => {
+			GET: async ({ request }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const { data, status } = await proxyRequest('/api/radicale-users')
 					return json(data, { status })
 				} catch (error: any) {
@@ -19,6 +22,8 @@ export const Route = createFileRoute('/api/radicale-users')({
 			},
 			POST: async ({ request }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const body = await request.json()
 					const parsed = CreateRadicaleUserSchema.safeParse(body)
 					if (!parsed.success) return zodError(parsed.error)
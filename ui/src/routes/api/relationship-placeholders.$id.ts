@@ -0,0 +1,43 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { zodError } from '../../lib/contact-helpers'
+import { UpdatePlaceholderSchema } from '../../lib/schemas'
+import { requireContactIdsRole } from '../../lib/permissions'
+import { getPlaceholder, placeholderContactIds, relationshipDatesEnabled, updatePlaceholder } from '../../lib/relationships'
+
+export const Route = createFileRoute('/api/relationship-placeholders/$id')({
+	server: {
+		handlers: {
+			PATCH: async ({ request, params }) => {
+				try {
+					if (!(await relationshipDatesEnabled())) {
+						return json({ error: 'Relationship dates are not available (migration pending)' }, { status: 503 })
+					}
+					const body = await request.json()
+					const parsed = UpdatePlaceholderSchema.safeParse(body)
+					if (!parsed.success) return zodError(parsed.error)
+
+					const existing = await getPlaceholder(params.id)
+					if (!existing) return json({ error: 'Placeholder not found' }, { status: 404 })
+					// Placeholders belong to no book; whoever may edit a contact linked to one may edit it.
+					const denied = await requireContactIdsRole(request, await placeholderContactIds(params.id), 'editor')
+					if (denied) return denied
+
+					const birth = parsed.data.birth_date === undefined ? existing.birth_date : parsed.data.birth_date
+					const death = parsed.data.death_date === undefined ? existing.death_date : parsed.data.death_date
+					if (birth && death && death < birth) {
+						return json({ error: 'Date of death cannot be before the date of birth' }, { status: 400 })
+					}
+
+					const updated = await updatePlaceholder(params.id, parsed.data)
+					if (!updated) return json({ error: 'Placeholder not found' }, { status: 404 })
+					return json({ placeholder: updated })
+				} catch (error) {
+					logger.error({ err: error, placeholderId: params.id }, 'Error updating relationship placeholder')
+					return json({ error: 'Failed to update placeholder' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
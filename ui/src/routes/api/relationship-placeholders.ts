@@ -2,12 +2,15 @@ import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { listPlaceholders, relationshipsEnabled } from '../../lib/relationships'
+import { requireAnyRole } from '../../lib/permissions'
 
 export const Route = createFileRoute('/api/relationship-placeholders')({
 	server: {
 		handlers: {
-			GET: async () => {
+			GET: async ({ request }) => {
 				try {
+					const denied = await requireAnyRole(request, 'viewer')
+					if (denied) return denied
 					if (!(await relationshipsEnabled())) {
 						return json({ error: 'Relationships are not available (migration pending)' }, { status: 503 })
 					}
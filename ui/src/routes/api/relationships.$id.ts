@@ -4,17 +4,19 @@ import { logger } from '../../lib/logger'
 import { zodError } from '../../lib/contact-helpers'
 import { UpdateRelationshipSchema } from '../../lib/schemas'
 import { actorFromRequest, recordHistory } from '../../lib/history'
+import { requireContactIdsRole } from '../../lib/permissions'
 import {
 	deleteRelationship,
-	describeRelationship,
+	describeEdge,
 	endpointA,
 	endpointB,
 	getEndpointNames,
 	getRelationship,
 	refKey,
 	refreshRelatedNamesVcards,
+	relationshipDatesEnabled,
 	relationshipsEnabled,
-	updateRelationshipQualifier,
+	updateRelationship,
 } from '../../lib/relationships'
 import type { RelationshipRow } from '../../lib/relationships'
 import type { HistoryOperation } from '../../lib/history'
@@ -46,20 +48,25 @@ async function recordEdgeHistory(request: Request, row: RelationshipRow, operati
 		clientIp: actor.clientIp,
 		summary,
 		relatedContactIds: contactEndpoints.slice(1).map(other => other.id),
-		metadata: { relationship_id: row.id, type: row.type, qualifier: row.qualifier },
+		metadata: {
+			relationship_id: row.id,
+			type: row.type,
+			qualifier: row.qualifier,
+			start_date: row.start_date,
+			end_date: row.end_date,
+		},
 	})
 }
 
+function edgeContactIds(row: RelationshipRow): Array<string> {
+	return [endpointA(row), endpointB(row)].filter(ref => ref.kind === 'contact').map(ref => ref.id)
+}
+
 async function edgeSummary(row: RelationshipRow, verb: string): Promise<string> {
 	const a = endpointA(row)
 	const b = endpointB(row)
 	const names = await getEndpointNames([a, b])
-	const aName = names.get(refKey(a)) ?? 'Unknown'
-	const bName = names.get(refKey(b)) ?? 'Unknown'
-	if (row.type === 'parent') {
-		return `${verb} relationship: ${aName} is a ${describeRelationship('parent', row.qualifier, false)} of ${bName}`
-	}
-	return `${verb} relationship: ${aName} and ${bName} are ${describeRelationship(row.type, row.qualifier, false)}s`
+	return `${verb} relationship: ${describeEdge(row, names.get(refKey(a)) ?? 'Unknown', names.get(refKey(b)) ?? 'Unknown')}`
 }
 
 export const Route = createFileRoute('/api/relationships/$id')({
@@ -74,7 +81,27 @@ export const Route = createFileRoute('/api/relationships/$id')({
 					const parsed = UpdateRelationshipSchema.safeParse(body)
 					if (!parsed.success) return zodError(parsed.error)
 
-					const updated = await updateRelationshipQualifier(params.id, parsed.data.qualifier)
+					const existing = await getRelationship(params.id)
+					if (!existing) return json({ error: 'Relationship not found' }, { status: 404 })
+					const denied = await requireContactIdsRole(request, edgeContactIds(existing), 'editor')
+					if (denied) return denied
+
+					const { start_date: startDate, end_date: endDate } = parsed.data
+					if (startDate !== undefined || endDate !== undefined) {
+						if (!(await relationshipDatesEnabled())) {
+							return json({ error: 'Relationship dates are not available (migration pending)' }, { status: 503 })
+						}
+						if ((startDate || endDate) && existing.type !== 'spouse' && existing.type !== 'partner') {
+							return json({ error: 'Only spouse and partner relationships have start and end dates' }, { status: 400 })
+						}
+						const start = startDate === undefined ? existing.start_date : startDate
+						const end = endDate === undefined ? existing.end_date : endDate
+						if (start && end && end < start) {
+							return json({ error: 'End date cannot be before the start date' }, { status: 400 })
+						}
+					}
+
+					const updated = await updateRelationship(params.id, parsed.data)
 					if (!updated) return json({ error: 'Relationship not found' }, { status: 404 })
 
 					await recordEdgeHistory(request, updated, 'relationship_update', await edgeSummary(updated, 'Updated'))
@@ -92,6 +119,8 @@ export const Route = createFileRoute('/api/relationships/$id')({
 					}
 					const existing = await getRelationship(params.id)
 					if (!existing) return json({ error: 'Relationship not found' }, { status: 404 })
+					const denied = await requireContactIdsRole(request, edgeContactIds(existing), 'editor')
+					if (denied) return denied
 
 					// Summarize before deleting - the placeholder GC in
 					// deleteRelationship can remove the names we need.
@@ -4,11 +4,12 @@ import { logger } from '../../lib/logger'
 import { zodError } from '../../lib/contact-helpers'
 import { CreateRelationshipSchema } from '../../lib/schemas'
 import { actorFromRequest, recordHistory } from '../../lib/history'
+import { requireContactIdsRole } from '../../lib/permissions'
 import {
 	DuplicateRelationshipError,
 	UnknownEndpointError,
 	createRelationship,
-	describeRelationship,
+	describeEdge,
 	endpointA,
 	endpointB,
 	getEndpointNames,
@@ -29,6 +30,9 @@ export const Route = createFileRoute('/api/relationships')({
 					const body = await request.json()
 					const parsed = CreateRelationshipSchema.safeParse(body)
 					if (!parsed.success) return zodError(parsed.error)
+					const endpointContactIds = [parsed.data.a.contact_id, parsed.data.b.contact_id].filter((id): id is string => !!id)
+					const denied = await requireContactIdsRole(request, endpointContactIds, 'editor')
+					if (denied) return denied
 
 					const result = await createRelationship({
 						a: parsed.data.a,
@@ -46,13 +50,7 @@ export const Route = createFileRoute('/api/relationships')({
 					for (const row of [...autoAdded, ...autoRemoved]) nameRefs.push(endpointA(row), endpointB(row))
 					const names = await getEndpointNames(nameRefs)
 					const nameOf = (ref: NodeRef) => names.get(refKey(ref)) ?? 'Unknown'
-					const edgeSentence = (row: typeof relationship) => {
-						const rowA = endpointA(row)
-						const rowB = endpointB(row)
-						return row.type === 'parent'
-							? `${nameOf(rowA)} is a ${describeRelationship('parent', row.qualifier, false)} of ${nameOf(rowB)}`
-							: `${nameOf(rowA)} and ${nameOf(rowB)} are ${describeRelationship(row.type, row.qualifier, false)}s`
-					}
+					const edgeSentence = (row: typeof relationship) => describeEdge(row, nameOf(endpointA(row)), nameOf(endpointB(row)))
 					const actor = actorFromRequest(request)
 					const record = (row: typeof relationship, operation: 'relationship_add' | 'relationship_remove', summary: string) => {
 						const contactEndpoints = [endpointA(row), endpointB(row)].filter(ref => ref.kind === 'contact')
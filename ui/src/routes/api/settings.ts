@@ -3,14 +3,17 @@ import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { getAppSetting, setAppSetting } from '../../lib/db'
 import { getSigningStatus } from '../../lib/mobileconfig-signer'
+import { requireGlobalRole } from '../../lib/permissions'
 
 const ALLOWED_KEYS = new Set(['mobileconfig_org'])
 
 export const Route = createFileRoute('/api/settings')({
 	server: {
 		handlers: {
-			GET: async () => {
+			GET: async ({ request }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const entries = await Promise.all(Array.from(ALLOWED_KEYS).map(async key => [key, await getAppSetting(key)] as const))
 					const settings: Record<string, string | null> = {}
 					for (const [key, value] of entries) {
@@ -28,6 +31,8 @@ export const Route = createFileRoute('/api/settings')({
 			},
 			PUT: async ({ request }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const body = (await request.json()) as Record<string, unknown>
 					const updates: Record<string, string | null> = {}
 					for (const [key, value] of Object.entries(body)) {
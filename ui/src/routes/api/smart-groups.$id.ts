@@ -0,0 +1,61 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { zodError } from '../../lib/contact-helpers'
+import { ContactQueryError } from '../../lib/contact-query'
+import { UpdateSmartGroupSchema } from '../../lib/schemas'
+import { deleteSmartGroup, getSmartGroup, updateSmartGroup } from '../../lib/smart-groups'
+import { requireGlobalRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/smart-groups/$id')({
+	server: {
+		handlers: {
+			GET: async ({ params, request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'viewer')
+					if (denied) return denied
+					const group = await getSmartGroup(params.id)
+					if (!group) {
+						return json({ error: 'Smart group not found' }, { status: 404 })
+					}
+					return json(group)
+				} catch (error) {
+					logger.error({ err: error }, 'Error fetching smart group')
+					return json({ error: 'Failed to fetch smart group' }, { status: 500 })
+				}
+			},
+			PUT: async ({ params, request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
+					const parsed = UpdateSmartGroupSchema.safeParse(await request.json())
+					if (!parsed.success) return zodError(parsed.error)
+					const group = await updateSmartGroup(params.id, parsed.data)
+					if (!group) {
+						return json({ error: 'Smart group not found' }, { status: 404 })
+					}
+					return json(group)
+				} catch (error) {
+					if (error instanceof ContactQueryError) {
+						return json({ error: error.message }, { status: 400 })
+					}
+					logger.error({ err: error }, 'Error updating smart group')
+					return json({ error: 'Failed to update smart group' }, { status: 500 })
+				}
+			},
+			DELETE: async ({ params, request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
+					if (!(await deleteSmartGroup(params.id))) {
+						return json({ error: 'Smart group not found' }, { status: 404 })
+					}
+					return json({ success: true })
+				} catch (error) {
+					logger.error({ err: error }, 'Error deleting smart group')
+					return json({ error: 'Failed to delete smart group' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
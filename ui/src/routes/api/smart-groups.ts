@@ -0,0 +1,45 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { zodError } from '../../lib/contact-helpers'
+import { ContactQueryError } from '../../lib/contact-query'
+import { CreateSmartGroupSchema } from '../../lib/schemas'
+import { createSmartGroup, listSmartGroups, smartGroupsEnabled } from '../../lib/smart-groups'
+import { requireGlobalRole } from '../../lib/permissions'
+
+// Smart groups span every book, so they need a global role: viewer to list, owner to change.
+export const Route = createFileRoute('/api/smart-groups')({
+	server: {
+		handlers: {
+			GET: async ({ request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'viewer')
+					if (denied) return denied
+					if (!(await smartGroupsEnabled())) return json([])
+					return json(await listSmartGroups())
+				} catch (error) {
+					logger.error({ err: error }, 'Error fetching smart groups')
+					return json({ error: 'Failed to fetch smart groups' }, { status: 500 })
+				}
+			},
+			POST: async ({ request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
+					if (!(await smartGroupsEnabled())) {
+						return json({ error: 'Smart groups are not available (migration pending)' }, { status: 503 })
+					}
+					const parsed = CreateSmartGroupSchema.safeParse(await request.json())
+					if (!parsed.success) return zodError(parsed.error)
+					return json(await createSmartGroup(parsed.data), { status: 201 })
+				} catch (error) {
+					if (error instanceof ContactQueryError) {
+						return json({ error: error.message }, { status: 400 })
+					}
+					logger.error({ err: error }, 'Error creating smart group')
+					return json({ error: 'Failed to create smart group' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
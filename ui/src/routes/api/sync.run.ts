@@ -0,0 +1,33 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { zodError } from '../../lib/contact-helpers'
+import { proxyRequest } from '../../lib/sync-service'
+import { requireGlobalRole } from '../../lib/permissions'
+import { StartSyncSchema } from '../../lib/schemas'
+
+export const Route = createFileRoute('/api/sync/run')({
+	server: {
+		handlers: {
+			// Body is optional; an empty POST runs both directions.
+			POST: async ({ request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
+					const text = await request.text()
+					const parsed = StartSyncSchema.safeParse(text ? JSON.parse(text) : {})
+					if (!parsed.success) return zodError(parsed.error)
+					const { data, status } = await proxyRequest('/api/sync/run', {
+						method: 'POST',
+						headers: { 'Content-Type': 'application/json' },
+						body: JSON.stringify(parsed.data),
+					})
+					return json(data, { status })
+				} catch (error: any) {
+					logger.error({ err: error }, 'Error starting sync')
+					return json({ error: 'Failed to start sync' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -0,0 +1,24 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { proxyRequest } from '../../lib/sync-service'
+import { requireAnyRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/sync/runs/$id')({
+	server: {
+		handlers: {
+			// Any editor can start a force resync, so any editor can poll it. Job ids are random UUIDs.
+			GET: async ({ params, request }) => {
+				try {
+					const denied = await requireAnyRole(request, 'editor')
+					if (denied) return denied
+					const { data, status } = await proxyRequest(`/api/sync/runs/${encodeURIComponent(params.id)}`)
+					return json(data, { status })
+				} catch (error: any) {
+					logger.error({ err: error, runId: params.id }, 'Error fetching sync run')
+					return json({ error: 'Failed to fetch sync run' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
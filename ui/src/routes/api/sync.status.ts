@@ -0,0 +1,24 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { proxyRequest } from '../../lib/sync-service'
+import { requireGlobalRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/sync/status')({
+	server: {
+		handlers: {
+			GET: async ({ request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
+					const limit = new URL(request.url).searchParams.get('limit')
+					const { data, status } = await proxyRequest(`/api/sync/status${limit ? `?limit=${encodeURIComponent(limit)}` : ''}`)
+					return json(data, { status })
+				} catch (error: any) {
+					logger.error({ err: error }, 'Error fetching sync status')
+					return json({ error: 'Failed to fetch sync status' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
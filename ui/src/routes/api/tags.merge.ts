@@ -0,0 +1,28 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { zodError } from '../../lib/contact-helpers'
+import { actorFromRequest } from '../../lib/history'
+import { MergeTagsSchema } from '../../lib/schemas'
+import { mergeTags } from '../../lib/tags'
+import { requireGlobalRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/tags/merge')({
+	server: {
+		handlers: {
+			POST: async ({ request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'editor')
+					if (denied) return denied
+					const parsed = MergeTagsSchema.safeParse(await request.json())
+					if (!parsed.success) return zodError(parsed.error)
+					const updated = await mergeTags(parsed.data.sources, parsed.data.target, actorFromRequest(request))
+					return json({ updated })
+				} catch (error) {
+					logger.error({ err: error }, 'Error merging tags')
+					return json({ error: 'Failed to merge tags' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -0,0 +1,48 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { tableExists } from '../../lib/db'
+import { zodError } from '../../lib/contact-helpers'
+import { actorFromRequest } from '../../lib/history'
+import { UpdateTagSchema } from '../../lib/schemas'
+import { listTags, mergeTags, setTagColor } from '../../lib/tags'
+import { getRequestAccess, readableBookIds, requireAnyRole, requireGlobalRole } from '../../lib/permissions'
+
+export const Route = createFileRoute('/api/tags')({
+	server: {
+		handlers: {
+			// Every tag with its contact count, counting only contacts the caller can read.
+			GET: async ({ request }) => {
+				try {
+					const denied = await requireAnyRole(request, 'viewer')
+					if (denied) return denied
+					return json(await listTags(readableBookIds(await getRequestAccess(request))))
+				} catch (error) {
+					logger.error({ err: error }, 'Error fetching tags')
+					return json({ error: 'Failed to fetch tags' }, { status: 500 })
+				}
+			},
+			// Rename a tag on every contact and/or set its color. Renames touch contacts
+			// in every book, so they need a global editor.
+			PUT: async ({ request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'editor')
+					if (denied) return denied
+					const parsed = UpdateTagSchema.safeParse(await request.json())
+					if (!parsed.success) return zodError(parsed.error)
+					const { tag, name, color } = parsed.data
+					if (color !== undefined && !(await tableExists('tag_colors'))) {
+						return json({ error: 'Tag colors are not available (migration pending)' }, { status: 503 })
+					}
+
+					const updated = name !== undefined && name !== tag ? await mergeTags([tag], name, actorFromRequest(request)) : 0
+					if (color !== undefined) await setTagColor(name ?? tag, color)
+					return json({ updated })
+				} catch (error) {
+					logger.error({ err: error }, 'Error updating tag')
+					return json({ error: 'Failed to update tag' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -0,0 +1,37 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { getRequestAccess, readableBookIds, requireAnyRole, requireBookRole } from '../../lib/permissions'
+import { DEFAULT_UPCOMING_DAYS, MAX_UPCOMING_DAYS, getDatedItems, localToday, parseDateOnly, upcomingEvents } from '../../lib/upcoming'
+
+export const Route = createFileRoute('/api/upcoming')({
+	server: {
+		handlers: {
+			// ?days=30 (1-366), optional ?book=<id>, and ?from=YYYY-MM-DD so "today" is the browser's day rather than the server's.
+			GET: async ({ request }) => {
+				try {
+					const url = new URL(request.url)
+					const days = Number(url.searchParams.get('days') ?? DEFAULT_UPCOMING_DAYS)
+					if (!Number.isInteger(days) || days < 1 || days > MAX_UPCOMING_DAYS) {
+						return json({ error: `days must be a whole number from 1 to ${MAX_UPCOMING_DAYS}` }, { status: 400 })
+					}
+					const from = url.searchParams.get('from')
+					if (from !== null && !parseDateOnly(from)) {
+						return json({ error: 'from must be a YYYY-MM-DD date' }, { status: 400 })
+					}
+					const bookId = url.searchParams.get('book')
+
+					const denied = bookId ? await requireBookRole(request, [bookId], 'viewer') : await requireAnyRole(request, 'viewer')
+					if (denied) return denied
+					const bookIds = bookId ? [bookId] : readableBookIds(await getRequestAccess(request))
+
+					const today = from ?? localToday()
+					return json({ from: today, days, events: upcomingEvents(await getDatedItems(bookIds), today, days) })
+				} catch (error) {
+					logger.error({ err: error }, 'Error fetching upcoming dates')
+					return json({ error: 'Failed to fetch upcoming dates' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
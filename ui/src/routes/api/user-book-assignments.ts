@@ -2,12 +2,15 @@ import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
 import { logger } from '../../lib/logger'
 import { getAddressBooks, getPool, getUserAddressBookIds, tableExists } from '../../lib/db'
+import { requireGlobalRole } from '../../lib/permissions'
 
 export const Route = createFileRoute('/api/user-book-assignments')({
 	server: {
 		handlers: {
 			GET: async ({ request }) => {
 				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
 					const url = new URL(request.url)
 					const username = url.searchParams.get('username')
 
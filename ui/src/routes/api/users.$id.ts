@@ -0,0 +1,59 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { deleteUser, updateUser } from '../../lib/auth'
+import { zodError } from '../../lib/contact-helpers'
+import { getGlobalOwnerIds, getUserRoles, normalizeAssignments, requireGlobalRole, setUserRoles } from '../../lib/permissions'
+import { UpdateUserSchema } from '../../lib/schemas'
+
+const LAST_OWNER_ERROR = 'At least one user must keep the owner role on all address books'
+
+async function isLastGlobalOwner(userId: string): Promise<boolean> {
+	const ownerIds = await getGlobalOwnerIds()
+	return ownerIds.length === 1 && ownerIds[0] === userId
+}
+
+export const Route = createFileRoute('/api/users/$id')({
+	server: {
+		handlers: {
+			PUT: async ({ request, params }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
+					const body = await request.json()
+					const parsed = UpdateUserSchema.safeParse(body)
+					if (!parsed.success) return zodError(parsed.error)
+
+					const roles = parsed.data.roles ? normalizeAssignments(parsed.data.roles) : undefined
+					const keepsGlobalOwner = roles?.some(role => role.address_book_id === null && role.role === 'owner')
+					if (roles && !keepsGlobalOwner && (await isLastGlobalOwner(params.id))) {
+						return json({ error: LAST_OWNER_ERROR }, { status: 409 })
+					}
+
+					const user = await updateUser(params.id, { name: parsed.data.name, password: parsed.data.password })
+					if (!user) return json({ error: 'User not found' }, { status: 404 })
+					if (roles) await setUserRoles(params.id, roles)
+					return json({ ...user, roles: roles ?? (await getUserRoles(params.id)) })
+				} catch (error) {
+					logger.error({ err: error }, 'Error updating user')
+					return json({ error: 'Failed to update user' }, { status: 500 })
+				}
+			},
+			DELETE: async ({ request, params }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
+					if (await isLastGlobalOwner(params.id)) {
+						return json({ error: LAST_OWNER_ERROR }, { status: 409 })
+					}
+					const deleted = await deleteUser(params.id)
+					if (!deleted) return json({ error: 'User not found' }, { status: 404 })
+					return json({ message: 'User deleted' })
+				} catch (error) {
+					logger.error({ err: error }, 'Error deleting user')
+					return json({ error: 'Failed to delete user' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
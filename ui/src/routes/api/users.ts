@@ -0,0 +1,46 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { logger } from '../../lib/logger'
+import { createUser, listUsers } from '../../lib/auth'
+import { zodError } from '../../lib/contact-helpers'
+import { getAllUserRoles, normalizeAssignments, requireGlobalRole, setUserRoles } from '../../lib/permissions'
+import { CreateUserSchema } from '../../lib/schemas'
+
+/** Management UI logins and their roles. Instance owners only. */
+export const Route = createFileRoute('/api/users')({
+	server: {
+		handlers: {
+			GET: async ({ request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
+					const [users, roles] = await Promise.all([listUsers(), getAllUserRoles()])
+					return json(users.map(user => ({ ...user, roles: roles.get(user.id) ?? [] })))
+				} catch (error) {
+					logger.error({ err: error }, 'Error fetching users')
+					return json({ error: 'Failed to fetch users' }, { status: 500 })
+				}
+			},
+			POST: async ({ request }) => {
+				try {
+					const denied = await requireGlobalRole(request, 'owner')
+					if (denied) return denied
+					const body = await request.json()
+					const parsed = CreateUserSchema.safeParse(body)
+					if (!parsed.success) return zodError(parsed.error)
+
+					const user = await createUser(parsed.data)
+					const roles = normalizeAssignments(parsed.data.roles)
+					await setUserRoles(user.id, roles)
+					return json({ ...user, roles }, { status: 201 })
+				} catch (error: any) {
+					if (error?.code === '23505') {
+						return json({ error: 'A user with that email already exists' }, { status: 409 })
+					}
+					logger.error({ err: error }, 'Error creating user')
+					return json({ error: 'Failed to create user' }, { status: 500 })
+				}
+			},
+		},
+	},
+})
@@ -1,10 +1,14 @@
 import { Link, createFileRoute } from '@tanstack/react-router'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
-import { BookOpen, Edit, Eye, EyeOff, Plus, Server, Users } from 'lucide-react'
+import { BookOpen, Cake, Edit, Eye, EyeOff, Plus, Server, Sparkles, Trash2, Users, UsersRound, X } from 'lucide-react'
 import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { ContactSearchInput } from '../components/ContactSearchInput'
+import { ResyncButton } from '../components/ResyncButton'
 import { Badge } from '../components/ui/badge'
 import { Button } from '../components/ui/button'
 import { Card, CardContent } from '../components/ui/card'
+import { ConfirmDialog } from '../components/ui/confirm-dialog'
 import { Field, FieldContent, FieldLabel } from '../components/ui/field'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog'
 import { Input } from '../components/ui/input'
@@ -22,6 +26,7 @@ import {
 	getCardDAVUrl,
 	getDirectCardDAVBaseUrl,
 	getProxyCardDAVBaseUrl,
+	getReadonlyCardDAVUrl,
 	handleDownloadMobileconfig,
 } from '../lib/carddav'
 
@@ -39,6 +44,35 @@ interface AddressBookWithReadonly extends AddressBook {
 	readonly_username?: string
 }
 
+interface SmartGroup {
+	id: string
+	name: string
+	query: string
+	member_count: number
+	readonly_username: string
+}
+
+interface ContactGroup {
+	id: string
+	name: string
+	member_count: number
+}
+
+interface ContactGroupMember {
+	id: string
+	full_name: string | null
+	email: string | null
+}
+
+interface ContactGroupWithMembers extends ContactGroup {
+	members: Array<ContactGroupMember>
+}
+
+interface CalendarFeed {
+	enabled: boolean
+	path: string | null
+}
+
 // ── API helpers ────────────────────────────────────────────────────
 
 async function fetchAddressBooks(): Promise<Array<AddressBook>> {
@@ -78,6 +112,15 @@ async function updateAddressBook(
 	return response.json()
 }
 
+async function calendarFeedRequest(id: string, method: 'GET' | 'POST' | 'DELETE' = 'GET'): Promise<CalendarFeed> {
+	const response = await fetch(`/api/address-books/${id}/calendar-feed`, { method })
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to update calendar feed')
+	}
+	return response.json()
+}
+
 async function fetchAddressBook(id: string): Promise<AddressBookWithReadonly> {
 	const response = await fetch(`/api/address-books/${id}`)
 	if (!response.ok) {
@@ -86,6 +129,90 @@ async function fetchAddressBook(id: string): Promise<AddressBookWithReadonly> {
 	return response.json()
 }
 
+async function fetchSmartGroups(): Promise<Array<SmartGroup>> {
+	const response = await fetch('/api/smart-groups')
+	if (!response.ok) {
+		throw new Error('Failed to fetch smart groups')
+	}
+	return response.json()
+}
+
+async function saveSmartGroup(id: string | null, payload: { name: string; query: string; password?: string }): Promise<SmartGroup> {
+	const response = await fetch(id ? `/api/smart-groups/${id}` : '/api/smart-groups', {
+		method: id ? 'PUT' : 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(payload),
+	})
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to save smart group')
+	}
+	return response.json()
+}
+
+async function deleteSmartGroup(id: string): Promise<void> {
+	const response = await fetch(`/api/smart-groups/${id}`, { method: 'DELETE' })
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to delete smart group')
+	}
+}
+
+async function fetchContactGroups(bookId: string): Promise<Array<ContactGroup>> {
+	const response = await fetch(`/api/address-books/${bookId}/groups`)
+	if (!response.ok) {
+		throw new Error('Failed to fetch contact groups')
+	}
+	return response.json()
+}
+
+async function fetchContactGroup(bookId: string, id: string): Promise<ContactGroupWithMembers> {
+	const response = await fetch(`/api/address-books/${bookId}/groups/${id}`)
+	if (!response.ok) {
+		throw new Error('Failed to fetch contact group')
+	}
+	return response.json()
+}
+
+async function saveContactGroup(
+	bookId: string,
+	id: string | null,
+	payload: { name: string; member_ids: Array<string> }
+): Promise<ContactGroupWithMembers> {
+	const response = await fetch(id ? `/api/address-books/${bookId}/groups/${id}` : `/api/address-books/${bookId}/groups`, {
+		method: id ? 'PUT' : 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(payload),
+	})
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to save contact group')
+	}
+	return response.json()
+}
+
+async function deleteContactGroup(bookId: string, id: string): Promise<void> {
+	const response = await fetch(`/api/address-books/${bookId}/groups/${id}`, { method: 'DELETE' })
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to delete contact group')
+	}
+}
+
+async function searchBookContacts(bookId: string, q: string): Promise<Array<ContactGroupMember>> {
+	const params = new URLSearchParams({ book: bookId, q, sort: 'name', limit: '20' })
+	const response = await fetch(`/api/contacts?${params}`)
+	if (!response.ok) {
+		throw new Error('Failed to search contacts')
+	}
+	const page: { data: Array<ContactGroupMember> } = await response.json()
+	return page.data
+}
+
+function memberLabel(member: ContactGroupMember): string {
+	return member.full_name || member.email || 'Unnamed contact'
+}
+
 function generateSlug(name: string): string {
 	return name
 		.toLowerCase()
@@ -359,6 +486,7 @@ function ConnectionDetailsDialog({
 							})}
 						</div>
 					)}
+					<CalendarFeedSection bookId={book.id} open={open} />
 				</div>
 				<DialogFooter>
 					<Button variant="outline" onClick={() => onOpenChange(false)}>
@@ -370,6 +498,504 @@ function ConnectionDetailsDialog({
 	)
 }
 
+function CalendarFeedSection({ bookId, open }: { bookId: string; open: boolean }) {
+	const queryClient = useQueryClient()
+	const { data: feed } = useQuery({
+		queryKey: ['calendar-feed', bookId],
+		queryFn: () => calendarFeedRequest(bookId),
+		enabled: open,
+	})
+	const feedMutation = useMutation({
+		mutationFn: (method: 'POST' | 'DELETE') => calendarFeedRequest(bookId, method),
+		onSuccess: updated => queryClient.setQueryData(['calendar-feed', bookId], updated),
+		onError: (err: Error) => toast.error(err.message),
+	})
+	const url = feed?.path ? `${window.location.origin}${feed.path}` : null
+
+	return (
+		<div className="mt-4 space-y-3 rounded-lg border p-4">
+			<div className="flex items-center gap-2 text-sm font-medium">
+				<Cake className="size-4" />
+				Birthday calendar
+			</div>
+			<p className="text-xs text-muted-foreground">
+				Subscribe to this link in a calendar app to see the book&apos;s birthdays and anniversaries. Anyone with the link can read them;
+				make a new link to revoke the old one.
+			</p>
+			{url && (
+				<div className="flex items-start justify-between gap-2">
+					<code className="min-w-0 font-mono text-xs text-muted-foreground break-all">{url}</code>
+					<CopyButton text={url} label="calendar link" />
+				</div>
+			)}
+			<div className="flex gap-2">
+				<Button variant="outline" size="sm" onClick={() => feedMutation.mutate('POST')} disabled={feedMutation.isPending}>
+					{url ? 'New link' : 'Create link'}
+				</Button>
+				{url && (
+					<Button variant="outline" size="sm" onClick={() => feedMutation.mutate('DELETE')} disabled={feedMutation.isPending}>
+						Turn off
+					</Button>
+				)}
+			</div>
+		</div>
+	)
+}
+
+// ── Smart Groups ───────────────────────────────────────────────────
+
+function SmartGroupDialog({
+	group,
+	books,
+	open,
+	onOpenChange,
+}: {
+	/** null creates a new group. */
+	group: SmartGroup | null
+	books: Array<AddressBook>
+	open: boolean
+	onOpenChange: (open: boolean) => void
+}) {
+	const queryClient = useQueryClient()
+	const [name, setName] = useState('')
+	const [query, setQuery] = useState('')
+	const [password, setPassword] = useState('')
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		if (open) {
+			setName(group?.name ?? '')
+			setQuery(group?.query ?? '')
+			setPassword('')
+			setError(null)
+		}
+	}, [open, group])
+
+	const saveMutation = useMutation({
+		mutationFn: () =>
+			saveSmartGroup(group?.id ?? null, { name: name.trim(), query: query.trim(), ...(password.trim() ? { password } : {}) }),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['smart-groups'] })
+			onOpenChange(false)
+		},
+		onError: (err: Error) => setError(err.message),
+	})
+
+	const handleSave = () => {
+		if (!name.trim()) {
+			setError('Name is required')
+			return
+		}
+		if (!query.trim()) {
+			setError('Query is required')
+			return
+		}
+		saveMutation.mutate()
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-xl">
+				<DialogHeader>
+					<DialogTitle>{group ? 'Edit Smart Group' : 'Create Smart Group'}</DialogTitle>
+					<DialogDescription>
+						A saved search, published over CardDAV as a read-only address book. Members update as contacts change.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4 py-2">
+					<Field>
+						<FieldLabel htmlFor="smart-group-name">Name</FieldLabel>
+						<FieldContent>
+							<Input id="smart-group-name" value={name} onChange={e => setName(e.target.value)} placeholder="Family birthdays" />
+						</FieldContent>
+					</Field>
+					<Field>
+						<FieldLabel>Search</FieldLabel>
+						<FieldContent>
+							<ContactSearchInput value={query} onChange={setQuery} books={books} />
+							<span className="text-xs text-muted-foreground">
+								Same syntax as the contacts search, e.g. book:family has:birthday has:phone
+							</span>
+						</FieldContent>
+					</Field>
+					<Field>
+						<FieldLabel htmlFor="smart-group-password">Subscription password</FieldLabel>
+						<FieldContent>
+							<Input
+								id="smart-group-password"
+								type="password"
+								value={password}
+								onChange={e => setPassword(e.target.value)}
+								placeholder={group ? 'Leave empty to keep the current password' : 'Set a password (optional)'}
+								autoComplete="new-password"
+							/>
+						</FieldContent>
+					</Field>
+					{error && <div className="text-sm text-destructive bg-destructive/10 rounded-lg px-3 py-2">{error}</div>}
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleSave} disabled={saveMutation.isPending}>
+						{saveMutation.isPending ? 'Saving…' : 'Save'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+function SmartGroupsSection({ books }: { books: Array<AddressBook> }) {
+	const queryClient = useQueryClient()
+	const [editing, setEditing] = useState<SmartGroup | null>(null)
+	const [isDialogOpen, setIsDialogOpen] = useState(false)
+	const [deleting, setDeleting] = useState<SmartGroup | null>(null)
+
+	const { data: groups = [], isError } = useQuery({
+		queryKey: ['smart-groups'],
+		queryFn: fetchSmartGroups,
+	})
+	const { data: runtimeConfig } = useQuery({
+		queryKey: ['runtime-config'],
+		queryFn: fetchRuntimeConfig,
+	})
+	const deleteMutation = useMutation({
+		mutationFn: (id: string) => deleteSmartGroup(id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['smart-groups'] })
+			setDeleting(null)
+		},
+		onError: (err: Error) => toast.error(err.message),
+	})
+
+	// Smart groups span every book; users with only book-scoped roles cannot list them.
+	if (isError) return null
+
+	const proxyBaseUrl = getProxyCardDAVBaseUrl(runtimeConfig)
+	const openDialog = (group: SmartGroup | null) => {
+		setEditing(group)
+		setIsDialogOpen(true)
+	}
+
+	return (
+		<div className="space-y-3">
+			<div className="flex items-center justify-between gap-2">
+				<div>
+					<h2 className="flex items-center gap-2 font-medium">
+						<Sparkles className="size-4" />
+						Smart groups
+					</h2>
+					<p className="text-sm text-muted-foreground">Saved searches, kept in sync as read-only CardDAV address books.</p>
+				</div>
+				<Button variant="outline" onClick={() => openDialog(null)}>
+					<Plus className="mr-2 h-4 w-4" />
+					New Smart Group
+				</Button>
+			</div>
+			{groups.length > 0 && (
+				<div className="rounded-md border">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Name</TableHead>
+								<TableHead className="hidden sm:table-cell">Search</TableHead>
+								<TableHead className="hidden sm:table-cell">Members</TableHead>
+								<TableHead className="hidden md:table-cell">Subscription</TableHead>
+								<TableHead className="text-right">Actions</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{groups.map(group => {
+								const url = getReadonlyCardDAVUrl(group.readonly_username, group.id, proxyBaseUrl)
+								return (
+									<TableRow key={group.id}>
+										<TableCell className="font-medium">{group.name}</TableCell>
+										<TableCell className="hidden sm:table-cell">
+											<code className="font-mono text-xs text-muted-foreground">{group.query}</code>
+										</TableCell>
+										<TableCell className="hidden sm:table-cell">{group.member_count}</TableCell>
+										<TableCell className="hidden md:table-cell">
+											<div className="flex items-center gap-2">
+												<code className="font-mono text-xs text-muted-foreground break-all">{group.readonly_username}</code>
+												<CopyButton text={url} label="URL" />
+											</div>
+										</TableCell>
+										<TableCell className="text-right">
+											<div className="flex justify-end gap-2">
+												<Button variant="outline" size="sm" asChild>
+													<Link to="/" search={{ q: group.query }}>
+														<Users className="size-4 mr-1" />
+														<span className="hidden sm:inline">Contacts</span>
+													</Link>
+												</Button>
+												<Button variant="outline" size="sm" onClick={() => openDialog(group)}>
+													<Edit className="size-4 mr-1" />
+													<span className="hidden sm:inline">Edit</span>
+												</Button>
+												<Button variant="outline" size="sm" onClick={() => setDeleting(group)} aria-label={`Delete ${group.name}`}>
+													<Trash2 className="size-4" />
+												</Button>
+											</div>
+										</TableCell>
+									</TableRow>
+								)
+							})}
+						</TableBody>
+					</Table>
+				</div>
+			)}
+			<SmartGroupDialog group={editing} books={books} open={isDialogOpen} onOpenChange={setIsDialogOpen} />
+			<ConfirmDialog
+				open={deleting !== null}
+				onOpenChange={open => !open && setDeleting(null)}
+				title="Delete smart group?"
+				description={`"${deleting?.name ?? ''}" will be removed from CardDAV subscribers on the next sync. Contacts are not affected.`}
+				onConfirm={() => {
+					if (deleting) deleteMutation.mutate(deleting.id)
+				}}
+				pending={deleteMutation.isPending}
+			/>
+		</div>
+	)
+}
+
+// ── Contact Groups ─────────────────────────────────────────────────
+
+function ContactGroupDialog({
+	book,
+	group,
+	open,
+	onOpenChange,
+}: {
+	book: AddressBook
+	/** null creates a new group. */
+	group: ContactGroup | null
+	open: boolean
+	onOpenChange: (open: boolean) => void
+}) {
+	const queryClient = useQueryClient()
+	const [name, setName] = useState('')
+	const [members, setMembers] = useState<Array<ContactGroupMember>>([])
+	const [search, setSearch] = useState('')
+	const [error, setError] = useState<string | null>(null)
+
+	const { data: details } = useQuery({
+		queryKey: ['contact-group', book.id, group?.id],
+		queryFn: () => fetchContactGroup(book.id, group?.id ?? ''),
+		enabled: open && group !== null,
+	})
+	const { data: results = [] } = useQuery({
+		queryKey: ['contact-group-search', book.id, search.trim()],
+		queryFn: () => searchBookContacts(book.id, search.trim()),
+		enabled: open && search.trim().length > 0,
+	})
+
+	useEffect(() => {
+		if (open) {
+			setName(group?.name ?? '')
+			setMembers([])
+			setSearch('')
+			setError(null)
+		}
+	}, [open, group])
+
+	useEffect(() => {
+		if (open && details) setMembers(details.members)
+	}, [open, details])
+
+	const saveMutation = useMutation({
+		mutationFn: () => saveContactGroup(book.id, group?.id ?? null, { name: name.trim(), member_ids: members.map(member => member.id) }),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['contact-groups', book.id] })
+			queryClient.invalidateQueries({ queryKey: ['contact-group', book.id] })
+			onOpenChange(false)
+		},
+		onError: (err: Error) => setError(err.message),
+	})
+
+	const handleSave = () => {
+		if (!name.trim()) {
+			setError('Name is required')
+			return
+		}
+		saveMutation.mutate()
+	}
+
+	const memberIds = new Set(members.map(member => member.id))
+	const toggleMember = (contact: ContactGroupMember) => {
+		setMembers(prev => (memberIds.has(contact.id) ? prev.filter(member => member.id !== contact.id) : [...prev, contact]))
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-xl">
+				<DialogHeader>
+					<DialogTitle>{group ? 'Edit Group' : 'Create Group'}</DialogTitle>
+					<DialogDescription>Shown as a group in Apple Contacts and DAVx5 for {book.name}.</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4 py-2">
+					<Field>
+						<FieldLabel htmlFor="contact-group-name">Name</FieldLabel>
+						<FieldContent>
+							<Input id="contact-group-name" value={name} onChange={e => setName(e.target.value)} placeholder="Close friends" />
+						</FieldContent>
+					</Field>
+					<Field>
+						<FieldLabel>Members ({members.length})</FieldLabel>
+						<FieldContent>
+							{members.length > 0 && (
+								<div className="flex flex-wrap gap-1">
+									{members.map(member => (
+										<Badge key={member.id} variant="secondary" className="gap-1">
+											{memberLabel(member)}
+											<button type="button" onClick={() => toggleMember(member)} aria-label={`Remove ${memberLabel(member)}`}>
+												<X className="size-3" />
+											</button>
+										</Badge>
+									))}
+								</div>
+							)}
+							<Input value={search} onChange={e => setSearch(e.target.value)} placeholder={`Search contacts in ${book.name}`} />
+							{search.trim() && (
+								<div className="max-h-56 overflow-y-auto rounded-md border">
+									{results.length === 0 ? (
+										<p className="px-3 py-2 text-sm text-muted-foreground">No matching contacts</p>
+									) : (
+										results.map(contact => (
+											<label key={contact.id} className="flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-muted">
+												<Checkbox checked={memberIds.has(contact.id)} onCheckedChange={() => toggleMember(contact)} />
+												<span>{memberLabel(contact)}</span>
+												{contact.full_name && contact.email && <span className="text-muted-foreground">{contact.email}</span>}
+											</label>
+										))
+									)}
+								</div>
+							)}
+						</FieldContent>
+					</Field>
+					{error && <div className="text-sm text-destructive bg-destructive/10 rounded-lg px-3 py-2">{error}</div>}
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleSave} disabled={saveMutation.isPending}>
+						{saveMutation.isPending ? 'Saving…' : 'Save'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+function ContactGroupsDialog({
+	book,
+	open,
+	onOpenChange,
+}: {
+	book: AddressBook | null
+	open: boolean
+	onOpenChange: (open: boolean) => void
+}) {
+	const queryClient = useQueryClient()
+	const [editing, setEditing] = useState<ContactGroup | null>(null)
+	const [isEditorOpen, setIsEditorOpen] = useState(false)
+	const [deleting, setDeleting] = useState<ContactGroup | null>(null)
+
+	const { data: groups = [], isLoading } = useQuery({
+		queryKey: ['contact-groups', book?.id],
+		queryFn: () => fetchContactGroups(book?.id ?? ''),
+		enabled: open && book !== null,
+	})
+	const deleteMutation = useMutation({
+		mutationFn: (id: string) => deleteContactGroup(book?.id ?? '', id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['contact-groups', book?.id] })
+			setDeleting(null)
+		},
+		onError: (err: Error) => toast.error(err.message),
+	})
+
+	if (!book) return null
+
+	const openEditor = (group: ContactGroup | null) => {
+		setEditing(group)
+		setIsEditorOpen(true)
+	}
+
+	return (
+		<>
+			<Dialog open={open} onOpenChange={onOpenChange}>
+				<DialogContent className="sm:max-w-xl">
+					<DialogHeader>
+						<DialogTitle>Groups in {book.name}</DialogTitle>
+						<DialogDescription>Groups sync both ways with phones: groups created on an iPhone show up here too.</DialogDescription>
+					</DialogHeader>
+					<div className="space-y-3 py-2">
+						{isLoading ? (
+							<Skeleton className="h-24 w-full" />
+						) : groups.length === 0 ? (
+							<p className="text-sm text-muted-foreground">No groups yet.</p>
+						) : (
+							<div className="rounded-md border">
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Name</TableHead>
+											<TableHead>Members</TableHead>
+											<TableHead className="text-right">Actions</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{groups.map(group => (
+											<TableRow key={group.id}>
+												<TableCell className="font-medium">{group.name}</TableCell>
+												<TableCell>{group.member_count}</TableCell>
+												<TableCell className="text-right">
+													<div className="flex justify-end gap-2">
+														<Button variant="outline" size="sm" onClick={() => openEditor(group)}>
+															<Edit className="size-4 mr-1" />
+															<span className="hidden sm:inline">Edit</span>
+														</Button>
+														<Button variant="outline" size="sm" onClick={() => setDeleting(group)} aria-label={`Delete ${group.name}`}>
+															<Trash2 className="size-4" />
+														</Button>
+													</div>
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</div>
+						)}
+					</div>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => openEditor(null)}>
+							<Plus className="mr-2 h-4 w-4" />
+							New Group
+						</Button>
+						<Button variant="outline" onClick={() => onOpenChange(false)}>
+							Close
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+			<ContactGroupDialog book={book} group={editing} open={isEditorOpen} onOpenChange={setIsEditorOpen} />
+			<ConfirmDialog
+				open={deleting !== null}
+				onOpenChange={isOpen => !isOpen && setDeleting(null)}
+				title="Delete group?"
+				description={`"${deleting?.name ?? ''}" will be removed from phones on the next sync. Its contacts are not affected.`}
+				onConfirm={() => {
+					if (deleting) deleteMutation.mutate(deleting.id)
+				}}
+				pending={deleteMutation.isPending}
+			/>
+		</>
+	)
+}
+
 // ── Page ───────────────────────────────────────────────────────────
 
 function BooksPage() {
@@ -379,6 +1005,7 @@ function BooksPage() {
 	const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
 	const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
 	const [isConnectionDialogOpen, setIsConnectionDialogOpen] = useState(false)
+	const [isGroupsDialogOpen, setIsGroupsDialogOpen] = useState(false)
 	const [selectedBook, setSelectedBook] = useState<AddressBook | null>(null)
 
 	// Create form state
@@ -421,6 +1048,11 @@ function BooksPage() {
 		setIsConnectionDialogOpen(true)
 	}
 
+	const openGroupsDialog = (book: AddressBook) => {
+		setSelectedBook(book)
+		setIsGroupsDialogOpen(true)
+	}
+
 	if (isLoading) {
 		return (
 			<PageContainer width="standard" className="space-y-6">
@@ -474,6 +1106,7 @@ function BooksPage() {
 									book={book}
 									onEdit={() => openEditDialog(book)}
 									onConnectionDetails={() => openConnectionDialog(book)}
+									onGroups={() => openGroupsDialog(book)}
 								/>
 							))}
 						</TableBody>
@@ -481,6 +1114,8 @@ function BooksPage() {
 				</div>
 			)}
 
+			<SmartGroupsSection books={books} />
+
 			{/* Create Dialog */}
 			<Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
 				<DialogContent className="sm:max-w-xl">
@@ -561,13 +1196,26 @@ function BooksPage() {
 
 			{/* Connection Details Dialog */}
 			<ConnectionDetailsDialog book={selectedBook} open={isConnectionDialogOpen} onOpenChange={setIsConnectionDialogOpen} />
+
+			{/* Contact Groups Dialog */}
+			<ContactGroupsDialog book={selectedBook} open={isGroupsDialogOpen} onOpenChange={setIsGroupsDialogOpen} />
 		</PageContainer>
 	)
 }
 
 // ── Table Row ──────────────────────────────────────────────────────
 
-function BookRow({ book, onEdit, onConnectionDetails }: { book: AddressBook; onEdit: () => void; onConnectionDetails: () => void }) {
+function BookRow({
+	book,
+	onEdit,
+	onConnectionDetails,
+	onGroups,
+}: {
+	book: AddressBook
+	onEdit: () => void
+	onConnectionDetails: () => void
+	onGroups: () => void
+}) {
 	const { data: details } = useQuery({
 		queryKey: ['address-book', book.id],
 		queryFn: () => fetchAddressBook(book.id),
@@ -593,6 +1241,10 @@ function BookRow({ book, onEdit, onConnectionDetails }: { book: AddressBook; onE
 							<span className="hidden sm:inline">Contacts</span>
 						</Link>
 					</Button>
+					<Button variant="outline" size="sm" onClick={onGroups}>
+						<UsersRound className="size-4 mr-1" />
+						<span className="hidden sm:inline">Groups</span>
+					</Button>
 					<Button variant="outline" size="sm" onClick={onEdit}>
 						<Edit className="size-4 mr-1" />
 						<span className="hidden sm:inline">Edit</span>
@@ -601,6 +1253,7 @@ function BookRow({ book, onEdit, onConnectionDetails }: { book: AddressBook; onE
 						<Server className="size-4 mr-1" />
 						<span className="hidden sm:inline">Connection</span>
 					</Button>
+					<ResyncButton target={{ addressBookId: book.id }} />
 				</div>
 			</TableCell>
 		</TableRow>
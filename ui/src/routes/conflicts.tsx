@@ -0,0 +1,166 @@
+import { Link, createFileRoute } from '@tanstack/react-router'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { GitCompare } from 'lucide-react'
+import { Button } from '../components/ui/button'
+import { PageContainer } from '../components/ui/page-container'
+import { PageHeader } from '../components/ui/page-header'
+import { formatHistoryDate, formatValue, humanizeField } from '../lib/history-format'
+import { canKeepBoth, differingFields } from '../lib/sync-conflicts'
+import type { ConflictChoice, ConflictChoices } from '../lib/sync-conflicts'
+import type { SyncConflict } from '../lib/db'
+
+export const Route = createFileRoute('/conflicts')({
+	component: ConflictsPage,
+})
+
+interface ConflictWithContact extends SyncConflict {
+	contact: { id: string; full_name: string | null }
+}
+
+async function fetchConflicts(): Promise<Array<ConflictWithContact>> {
+	const response = await fetch('/api/conflicts')
+	if (!response.ok) {
+		throw new Error('Failed to fetch sync conflicts')
+	}
+	return response.json()
+}
+
+async function resolveConflict(conflict: ConflictWithContact, choices: ConflictChoices): Promise<void> {
+	const response = await fetch(`/api/contacts/${conflict.contact_id}/conflicts/${conflict.id}`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ choices }),
+	})
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to resolve conflict')
+	}
+}
+
+async function dismissConflict(conflict: ConflictWithContact): Promise<void> {
+	const response = await fetch(`/api/contacts/${conflict.contact_id}/conflicts/${conflict.id}`, { method: 'DELETE' })
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to dismiss conflict')
+	}
+}
+
+const choiceClass =
+	'w-full rounded-md border px-3 py-2 text-left text-sm transition-colors hover:bg-muted data-[active=true]:border-primary data-[active=true]:bg-primary/5'
+
+function ConflictsPage() {
+	const { data: conflicts = [], isLoading, error } = useQuery({ queryKey: ['sync-conflicts'], queryFn: fetchConflicts })
+
+	return (
+		<PageContainer width="wide" className="space-y-6">
+			<PageHeader
+				icon={<GitCompare />}
+				title="Conflicts"
+				description="Contacts edited in the web UI and on a CardDAV client at the same time. Pick the value to keep for each field."
+			/>
+
+			{isLoading ? (
+				<div className="py-12 text-center text-sm text-muted-foreground">Loading…</div>
+			) : error ? (
+				<div className="py-12 text-center text-sm text-destructive">Error loading conflicts</div>
+			) : conflicts.length === 0 ? (
+				<div className="flex flex-col items-center gap-2 rounded-2xl border bg-card py-16 text-center">
+					<GitCompare className="size-8 text-muted-foreground" />
+					<p className="text-sm text-muted-foreground">No open conflicts.</p>
+				</div>
+			) : (
+				conflicts.map(conflict => <ConflictCard key={conflict.id} conflict={conflict} />)
+			)}
+		</PageContainer>
+	)
+}
+
+function ConflictCard({ conflict }: { conflict: ConflictWithContact }) {
+	const queryClient = useQueryClient()
+	const [choices, setChoices] = useState<ConflictChoices>({})
+	const fields = differingFields(conflict.db_version, conflict.radicale_version)
+	const hasVersions = Boolean(conflict.db_version && conflict.radicale_version)
+
+	const onDone = (message: string) => {
+		queryClient.invalidateQueries({ queryKey: ['sync-conflicts'] })
+		queryClient.invalidateQueries({ queryKey: ['contacts'] })
+		queryClient.invalidateQueries({ queryKey: ['history', conflict.contact_id] })
+		toast.success(message)
+	}
+
+	const resolveMutation = useMutation({
+		mutationFn: () => resolveConflict(conflict, choices),
+		onSuccess: () => onDone('Conflict resolved'),
+		onError: (err: Error) => toast.error(err.message),
+	})
+
+	const dismissMutation = useMutation({
+		mutationFn: () => dismissConflict(conflict),
+		onSuccess: () => onDone('Conflict dismissed'),
+		onError: (err: Error) => toast.error(err.message),
+	})
+
+	const pending = resolveMutation.isPending || dismissMutation.isPending
+	const choose = (field: string, choice: ConflictChoice) => setChoices(current => ({ ...current, [field]: choice }))
+
+	return (
+		<div className="rounded-2xl border bg-card">
+			<div className="flex flex-wrap items-center gap-3 border-b p-4">
+				<div className="min-w-0 flex-1">
+					<Link to="/$id" params={{ id: conflict.contact.id }} className="font-medium hover:underline">
+						{conflict.contact.full_name || 'Unnamed contact'}
+					</Link>
+					<p className="text-xs text-muted-foreground">Detected {formatHistoryDate(String(conflict.created_at))}</p>
+				</div>
+				<Button variant="outline" size="sm" onClick={() => dismissMutation.mutate()} disabled={pending}>
+					{dismissMutation.isPending ? 'Dismissing…' : 'Keep as is'}
+				</Button>
+				{hasVersions && (
+					<Button size="sm" onClick={() => resolveMutation.mutate()} disabled={pending || Object.keys(choices).length === 0}>
+						{resolveMutation.isPending ? 'Saving…' : 'Apply choices'}
+					</Button>
+				)}
+			</div>
+
+			{!hasVersions || fields.length === 0 ? (
+				<p className="p-4 text-sm text-muted-foreground">
+					{hasVersions
+						? 'The versions only differ in ways this page cannot compare, such as the photo. Check the contact and keep it as is.'
+						: 'This conflict was recorded before both versions were kept. Check the contact and keep it as is.'}
+				</p>
+			) : (
+				<div className="divide-y">
+					<div className="hidden gap-3 px-4 py-2 text-xs font-medium text-muted-foreground md:grid md:grid-cols-[10rem_1fr_1fr_8rem]">
+						<span>Field</span>
+						<span>Web</span>
+						<span>CardDAV</span>
+						<span />
+					</div>
+					{fields.map(field => {
+						const choice = choices[field]
+						return (
+							<div key={field} className="grid gap-2 px-4 py-3 md:grid-cols-[10rem_1fr_1fr_8rem] md:items-center md:gap-3">
+								<span className="text-sm font-medium">{humanizeField(field)}</span>
+								<button type="button" className={choiceClass} data-active={choice === 'db'} onClick={() => choose(field, 'db')}>
+									{formatValue(conflict.db_version?.[field])}
+								</button>
+								<button type="button" className={choiceClass} data-active={choice === 'radicale'} onClick={() => choose(field, 'radicale')}>
+									{formatValue(conflict.radicale_version?.[field])}
+								</button>
+								{canKeepBoth(field) ? (
+									<button type="button" className={choiceClass} data-active={choice === 'both'} onClick={() => choose(field, 'both')}>
+										Keep both
+									</button>
+								) : (
+									<span />
+								)}
+							</div>
+						)
+					})}
+				</div>
+			)}
+		</div>
+	)
+}
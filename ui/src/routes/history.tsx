@@ -1,7 +1,7 @@
 import { Fragment, useState } from 'react'
-import { createFileRoute } from '@tanstack/react-router'
+import { Link, createFileRoute } from '@tanstack/react-router'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
-import { ChevronDown, ChevronRight, History, RotateCcw } from 'lucide-react'
+import { ArrowLeft, ChevronDown, ChevronRight, History, Layers, RotateCcw } from 'lucide-react'
 import { toast } from 'sonner'
 import { Button } from '../components/ui/button'
 import { Card, CardContent } from '../components/ui/card'
@@ -14,29 +14,35 @@ import {
 	computeChanges,
 	describeSource,
 	fetchHistory,
+	fetchHistoryBatch,
 	formatHistoryDate as formatDate,
 	humanizeField,
 	operationBadgeClass,
 	undoHistory,
+	undoHistoryBatch,
 } from '../lib/history-format'
+import type { BatchUndoResponse } from '../lib/history-format'
 
 export const Route = createFileRoute('/history')({
 	component: HistoryPage,
 	validateSearch: (search: Record<string, unknown>) => ({
 		contactId: typeof search.contactId === 'string' ? search.contactId : undefined,
+		batchId: typeof search.batchId === 'string' ? search.batchId : undefined,
 	}),
 })
 
 function HistoryPage() {
-	const { contactId } = Route.useSearch()
+	const { contactId, batchId } = Route.useSearch()
 	const queryClient = useQueryClient()
-	const queryKey = ['history', contactId ?? null] as const
+	const queryKey = batchId ? (['history', 'batch', batchId] as const) : (['history', contactId ?? null] as const)
 	const [expandedId, setExpandedId] = useState<string | null>(null)
 	const [confirmId, setConfirmId] = useState<string | null>(null)
+	const [isConfirmBatchOpen, setIsConfirmBatchOpen] = useState(false)
+	const [batchReport, setBatchReport] = useState<{ batchId: string; result: BatchUndoResponse } | null>(null)
 
 	const { data, isLoading, error } = useQuery({
 		queryKey,
-		queryFn: () => fetchHistory(contactId),
+		queryFn: () => (batchId ? fetchHistoryBatch(batchId) : fetchHistory(contactId)),
 	})
 
 	const undoMutation = useMutation({
@@ -51,11 +57,45 @@ function HistoryPage() {
 		onError: (err: Error) => toast.error(err.message),
 	})
 
+	const undoBatchMutation = useMutation({
+		mutationFn: undoHistoryBatch,
+		onSuccess: (result, undoneBatchId) => {
+			toast.success(result.message)
+			setIsConfirmBatchOpen(false)
+			setBatchReport({ batchId: undoneBatchId, result })
+			queryClient.invalidateQueries({ queryKey: ['history'] })
+			queryClient.invalidateQueries({ queryKey: ['contacts'] })
+			queryClient.invalidateQueries({ queryKey: ['trash'] })
+		},
+		onError: (err: Error) => toast.error(err.message),
+	})
+
 	const rows = data?.rows ?? []
+	const batchUndoable = rows.some(row => !row.undone_at && UNDOABLE_OPS.has(row.operation))
+	const skipped = batchReport && batchReport.batchId === batchId ? batchReport.result.skipped : []
+
+	const description = batchId
+		? `One bulk change of ${data?.total ?? 0} entries, undone together.`
+		: contactId
+			? `History for this contact (${rows.length} of ${data?.total ?? 0}).`
+			: `Every change made to your contacts (${rows.length} of ${data?.total ?? 0}).`
 
-	const description = contactId
-		? `History for this contact (${rows.length} of ${data?.total ?? 0}).`
-		: `Every change made to your contacts (${rows.length} of ${data?.total ?? 0}).`
+	const batchActions = batchId ? (
+		<>
+			<Button variant="outline" asChild>
+				<Link to="/history" search={{ contactId: undefined, batchId: undefined }}>
+					<ArrowLeft className="mr-1 size-4" />
+					All history
+				</Link>
+			</Button>
+			{batchUndoable && (
+				<Button onClick={() => setIsConfirmBatchOpen(true)} disabled={undoBatchMutation.isPending}>
+					<RotateCcw className="mr-1 size-4" />
+					Undo batch
+				</Button>
+			)}
+		</>
+	) : undefined
 
 	if (isLoading) {
 		return (
@@ -77,7 +117,24 @@ function HistoryPage() {
 
 	return (
 		<PageContainer width="wide" className="space-y-6">
-			<PageHeader icon={<History />} title="History" description={description} />
+			<PageHeader icon={<History />} title="History" description={description} actions={batchActions} />
+
+			{skipped.length > 0 && (
+				<Card>
+					<CardContent className="space-y-2 text-sm">
+						<p className="font-medium">
+							{skipped.length} {skipped.length === 1 ? 'entry was' : 'entries were'} not reverted:
+						</p>
+						<ul className="space-y-1 text-muted-foreground">
+							{skipped.map(entry => (
+								<li key={entry.historyId}>
+									{entry.summary || 'Change'} — {entry.reason}
+								</li>
+							))}
+						</ul>
+					</CardContent>
+				</Card>
+			)}
 
 			{rows.length === 0 ? (
 				<Card>
@@ -131,6 +188,16 @@ function HistoryPage() {
 														{changes.length} {changes.length === 1 ? 'field' : 'fields'} changed
 													</button>
 												)}
+												{!batchId && row.batch_id && (row.batch_size ?? 0) > 1 && (
+													<Link
+														to="/history"
+														search={{ contactId: undefined, batchId: row.batch_id }}
+														className="mt-0.5 inline-flex items-center gap-1 text-xs text-muted-foreground transition-colors hover:text-foreground"
+													>
+														<Layers className="size-3" />
+														Part of a batch of {row.batch_size}
+													</Link>
+												)}
 												{undone && <div className="mt-0.5 text-xs italic text-muted-foreground">Undone {formatDate(row.undone_at!)}</div>}
 											</TableCell>
 											<TableCell className="align-top text-right">
@@ -191,6 +258,20 @@ function HistoryPage() {
 					if (confirmId) undoMutation.mutate(confirmId)
 				}}
 			/>
+
+			<ConfirmDialog
+				open={isConfirmBatchOpen}
+				onOpenChange={setIsConfirmBatchOpen}
+				variant="default"
+				title="Undo this batch?"
+				description="Every change of the batch still in effect is reverted in one go. Contacts changed since are left alone and listed."
+				confirmLabel="Undo batch"
+				pendingLabel="Undoing…"
+				pending={undoBatchMutation.isPending}
+				onConfirm={() => {
+					if (batchId) undoBatchMutation.mutate(batchId)
+				}}
+			/>
 		</PageContainer>
 	)
 }
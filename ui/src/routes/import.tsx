@@ -1,18 +1,39 @@
+import { useState } from 'react'
 import { createFileRoute } from '@tanstack/react-router'
 import { Upload } from 'lucide-react'
 import { PageContainer } from '../components/ui/page-container'
 import { PageHeader } from '../components/ui/page-header'
 import { CSVUpload } from '../components/CSVUpload'
+import { ImportPreview, ImportResultCard } from '../components/ImportPreview'
+import type { ImportCommitResult } from '../components/ImportPreview'
+import type { ImportSessionView } from '../lib/contact-import'
 
 export const Route = createFileRoute('/import')({
 	component: ImportPage,
 })
 
 function ImportPage() {
+	const [session, setSession] = useState<ImportSessionView | null>(null)
+	const [result, setResult] = useState<ImportCommitResult | null>(null)
+
 	return (
 		<PageContainer width="narrow" className="space-y-6">
-			<PageHeader icon={<Upload />} title="Import" description="Bring contacts in from a CSV file." />
-			<CSVUpload />
+			<PageHeader icon={<Upload />} title="Import" description="Bring contacts in from a CSV file or a vCard export." />
+			{result ? (
+				<ImportResultCard result={result} onReset={() => setResult(null)} />
+			) : session ? (
+				<ImportPreview
+					session={session}
+					onChange={setSession}
+					onCommitted={committed => {
+						setSession(null)
+						setResult(committed)
+					}}
+					onDiscarded={() => setSession(null)}
+				/>
+			) : (
+				<CSVUpload onStaged={setSession} />
+			)}
 		</PageContainer>
 	)
 }
@@ -1,6 +1,6 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
-import { useQuery } from '@tanstack/react-query'
-import { flexRender, getCoreRowModel, getFilteredRowModel, getSortedRowModel, useReactTable } from '@tanstack/react-table'
+import { keepPreviousData, useInfiniteQuery } from '@tanstack/react-query'
+import { flexRender, getCoreRowModel, useReactTable } from '@tanstack/react-table'
 import {
 	ArrowDown,
 	ArrowUp,
@@ -11,30 +11,35 @@ import {
 	Download,
 	FileDown,
 	Mail,
+	PencilLine,
 	Phone,
 	Plus,
 	RefreshCw,
+	Tag,
 	Trash2,
 	Users,
 	X,
 } from 'lucide-react'
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { toast } from 'sonner'
 import { formatPhoneNumber } from '../lib/utils'
+import { undoHistoryBatch } from '../lib/history-format'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
 import { Button } from '../components/ui/button'
-import { Input } from '../components/ui/input'
 import { Checkbox } from '../components/ui/checkbox'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog'
 import { ConfirmDialog } from '../components/ui/confirm-dialog'
+import { Input } from '../components/ui/input'
 import { PageContainer } from '../components/ui/page-container'
 import { PageHeader } from '../components/ui/page-header'
 import { Skeleton } from '../components/ui/skeleton'
 import { ContactAvatar } from '../components/ContactAvatar'
 import { DeduplicateButton } from '../components/DeduplicateButton'
 import { MergeButton } from '../components/MergeButton'
+import { BulkEditDialog } from '../components/BulkEditDialog'
+import { ContactSearchInput } from '../components/ContactSearchInput'
 import type { ColumnDef, SortingState } from '@tanstack/react-table'
-import type { Contact } from '../lib/db'
+import type { ContactListItem, ContactListPage } from '../lib/contact-search'
 
 // Extend ColumnMeta to include className
 declare module '@tanstack/react-table' {
@@ -45,21 +50,59 @@ declare module '@tanstack/react-table' {
 
 export const Route = createFileRoute('/')({
 	component: ContactsIndexPage,
-	validateSearch: (search: Record<string, unknown>) => ({
+	validateSearch: (search: Record<string, unknown>): { book?: string; q?: string } => ({
 		book: typeof search.book === 'string' ? search.book : undefined,
+		// Opens the list pre-searched, e.g. from a smart group on /books.
+		q: typeof search.q === 'string' ? search.q : undefined,
 	}),
 })
 
-async function fetchContacts(): Promise<Array<Contact>> {
-	const response = await fetch('/api/contacts')
+type FieldFilterKey = 'email' | 'phone' | 'birthday' | 'organization' | 'book'
+type FieldFilterState = 'off' | 'has' | 'missing'
+
+const SEARCH_DEBOUNCE_MS = 250
+
+function splitTags(value: string): Array<string> {
+	return value
+		.split(',')
+		.map(tag => tag.trim())
+		.filter(Boolean)
+}
+
+/** The server rejected the search or filters (a 400); shown under the search box rather than replacing the page. */
+class InvalidContactQueryError extends Error {}
+
+async function fetchContactPage(params: string, cursor: string | null): Promise<ContactListPage> {
+	const response = await fetch(`/api/contacts?${params}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`)
+	if (response.status === 400) {
+		const body = await response.json().catch(() => ({}))
+		throw new InvalidContactQueryError(typeof body.error === 'string' ? body.error : 'Invalid search')
+	}
 	if (!response.ok) {
 		throw new Error('Failed to fetch contacts')
 	}
 	return response.json()
 }
 
-type FieldFilterKey = 'email' | 'phone' | 'birthday' | 'organization' | 'book'
-type FieldFilterState = 'off' | 'has' | 'missing'
+/** Search, filters and sorting as /api/contacts query params; the column ids double as sort keys. */
+function contactListParams(query: string, bookId: string, filters: Map<FieldFilterKey, FieldFilterState>, sorting: SortingState): string {
+	const params = new URLSearchParams()
+	if (query) params.set('q', query)
+	if (bookId !== 'all') params.set('book', bookId)
+	const has = [...filters].filter(([, state]) => state === 'has').map(([key]) => key)
+	const missing = [...filters].filter(([, state]) => state === 'missing').map(([key]) => key)
+	if (has.length > 0) params.set('has', has.join(','))
+	if (missing.length > 0) params.set('missing', missing.join(','))
+	const sort = sorting.at(0)
+	if (sort) {
+		params.set('sort', sort.id)
+		params.set('order', sort.desc ? 'desc' : 'asc')
+	} else if (!query) {
+		// With a query the server picks the order: relevance for words, name for qualifiers alone.
+		params.set('sort', 'name')
+	}
+	return params.toString()
+}
 
 const FIELD_FILTERS: Array<{ id: FieldFilterKey; hasLabel: string; missingLabel: string; icon: typeof Mail }> = [
 	{ id: 'email', hasLabel: 'Has Email', missingLabel: 'No Email', icon: Mail },
@@ -71,8 +114,9 @@ const FIELD_FILTERS: Array<{ id: FieldFilterKey; hasLabel: string; missingLabel:
 
 function ContactsIndexPage() {
 	const navigate = useNavigate()
-	const { book: bookFromUrl } = Route.useSearch()
-	const [searchQuery, setSearchQuery] = useState('')
+	const { book: bookFromUrl, q: queryFromUrl } = Route.useSearch()
+	const [searchQuery, setSearchQuery] = useState(queryFromUrl ?? '')
+	const [debouncedSearch, setDebouncedSearch] = useState(queryFromUrl?.trim() ?? '')
 	const [rowSelection, setRowSelection] = useState<Record<string, boolean>>({})
 	const [isBulkDeleting, setIsBulkDeleting] = useState(false)
 	const [isBulkDeleteDialogOpen, setIsBulkDeleteDialogOpen] = useState(false)
@@ -80,7 +124,12 @@ function ContactsIndexPage() {
 	const [bulkAddToBookIds, setBulkAddToBookIds] = useState<Set<string>>(new Set())
 	const [bulkRemoveFromBookIds, setBulkRemoveFromBookIds] = useState<Set<string>>(new Set())
 	const [isBulkBooksSubmitting, setIsBulkBooksSubmitting] = useState(false)
-	const [addressBooks, setAddressBooks] = useState<Array<{ id: string; name: string }>>([])
+	const [isBulkTagsDialogOpen, setIsBulkTagsDialogOpen] = useState(false)
+	const [bulkAddTags, setBulkAddTags] = useState('')
+	const [bulkRemoveTags, setBulkRemoveTags] = useState('')
+	const [isBulkTagsSubmitting, setIsBulkTagsSubmitting] = useState(false)
+	const [isBulkEditDialogOpen, setIsBulkEditDialogOpen] = useState(false)
+	const [addressBooks, setAddressBooks] = useState<Array<{ id: string; name: string; slug: string }>>([])
 	const [selectedBookId, setSelectedBookId] = useState<string>(bookFromUrl ?? 'all')
 	const [isDownloadDialogOpen, setIsDownloadDialogOpen] = useState(false)
 	const [activeFilters, setActiveFilters] = useState<Map<FieldFilterKey, FieldFilterState>>(new Map())
@@ -93,7 +142,7 @@ function ContactsIndexPage() {
 		}
 	}, [bookFromUrl, addressBooks])
 
-	const getNameParts = useCallback((contact: Contact) => {
+	const getNameParts = useCallback((contact: ContactListItem) => {
 		const firstName = contact.first_name?.trim() ?? ''
 		const lastName = contact.last_name?.trim() ?? ''
 		if (firstName || lastName) {
@@ -118,16 +167,41 @@ function ContactsIndexPage() {
 		return { firstName: parts[0], lastName: parts.slice(1).join(' ') }
 	}, [])
 
-	const {
-		data: contacts = [],
-		isLoading,
-		isFetching,
-		error,
-		refetch,
-	} = useQuery({
-		queryKey: ['contacts'],
-		queryFn: fetchContacts,
+	useEffect(() => {
+		const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS)
+		return () => clearTimeout(timer)
+	}, [searchQuery])
+
+	const [sorting, setSorting] = useState<SortingState>([])
+	const listParams = contactListParams(debouncedSearch, selectedBookId, activeFilters, sorting)
+
+	const { data, isLoading, isFetching, isFetchingNextPage, hasNextPage, fetchNextPage, error, refetch } = useInfiniteQuery({
+		queryKey: ['contacts', 'list', listParams],
+		queryFn: ({ pageParam }) => fetchContactPage(listParams, pageParam),
+		initialPageParam: null as string | null,
+		getNextPageParam: lastPage => lastPage.next_cursor,
+		// Keep the current rows on screen while a new search or sort loads.
+		placeholderData: keepPreviousData,
+		retry: (failureCount, err) => !(err instanceof InvalidContactQueryError) && failureCount < 3,
 	})
+	const queryError = error instanceof InvalidContactQueryError ? error.message : null
+	const contacts = useMemo(() => data?.pages.flatMap(page => page.data) ?? [], [data])
+	const matchingCount = data?.pages[0]?.total ?? 0
+
+	// Infinite scroll: load the next page once the end of the table comes into view.
+	const loadMoreRef = useRef<HTMLDivElement>(null)
+	useEffect(() => {
+		const node = loadMoreRef.current
+		if (!node || !hasNextPage) return
+		const observer = new IntersectionObserver(
+			entries => {
+				if (entries[0]?.isIntersecting && !isFetchingNextPage) fetchNextPage()
+			},
+			{ rootMargin: '400px' }
+		)
+		observer.observe(node)
+		return () => observer.disconnect()
+	}, [hasNextPage, isFetchingNextPage, fetchNextPage])
 
 	useEffect(() => {
 		let isMounted = true
@@ -164,7 +238,7 @@ function ContactsIndexPage() {
 	//   },
 	// })
 
-	const columns: Array<ColumnDef<Contact>> = useMemo(
+	const columns: Array<ColumnDef<ContactListItem>> = useMemo(
 		() => [
 			{
 				id: 'select',
@@ -403,15 +477,13 @@ function ContactsIndexPage() {
 							meta: {
 								className: 'hidden sm:table-cell',
 							},
-						} as ColumnDef<Contact>,
+						} as ColumnDef<ContactListItem>,
 					]
 				: []),
 		],
 		[getNameParts, showBookCount]
 	)
 
-	const [sorting, setSorting] = useState<SortingState>([])
-
 	const toggleFilter = useCallback((filter: FieldFilterKey) => {
 		setActiveFilters(prev => {
 			const next = new Map(prev)
@@ -442,59 +514,26 @@ function ContactsIndexPage() {
 		[navigate]
 	)
 
-	const filteredContacts = useMemo(() => {
-		let result = contacts
-
-		if (selectedBookId !== 'all') {
-			result = result.filter(contact => contact.address_books?.some(book => book.id === selectedBookId))
-		}
-
-		for (const [key, state] of activeFilters) {
-			if (state === 'off') continue
-			if (key === 'email') result = result.filter(c => (state === 'has' ? !!c.email : !c.email))
-			if (key === 'phone') result = result.filter(c => (state === 'has' ? !!c.phone : !c.phone))
-			if (key === 'birthday') result = result.filter(c => (state === 'has' ? !!c.birthday : !c.birthday))
-			if (key === 'organization') result = result.filter(c => (state === 'has' ? !!c.organization : !c.organization))
-			if (key === 'book')
-				result = result.filter(c =>
-					state === 'has' ? c.address_books && c.address_books.length > 0 : !c.address_books || c.address_books.length === 0
-				)
-		}
-
-		return result
-	}, [contacts, selectedBookId, activeFilters])
-
 	const table = useReactTable({
-		data: filteredContacts,
+		data: contacts,
 		columns,
 		getCoreRowModel: getCoreRowModel(),
-		getFilteredRowModel: getFilteredRowModel(),
-		getSortedRowModel: getSortedRowModel(),
+		// Search, filters and sorting all happen on the server.
+		manualFiltering: true,
+		manualSorting: true,
+		enableMultiSort: false,
 		enableRowSelection: true,
 		getRowId: row => row.id,
 		onRowSelectionChange: setRowSelection,
 		onSortingChange: setSorting,
-		globalFilterFn: (row, _columnId, filterValue) => {
-			const contact = row.original
-			const query = String(filterValue).toLowerCase()
-			return !!(
-				contact.full_name?.toLowerCase().includes(query) ||
-				contact.first_name?.toLowerCase().includes(query) ||
-				contact.last_name?.toLowerCase().includes(query) ||
-				contact.email?.toLowerCase().includes(query) ||
-				contact.phone?.includes(query) ||
-				contact.organization?.toLowerCase().includes(query) ||
-				contact.job_title?.toLowerCase().includes(query)
-			)
-		},
 		state: {
-			globalFilter: searchQuery,
 			rowSelection,
 			sorting,
 		},
 	})
 
 	const selectedContactIds = Object.keys(rowSelection).filter(id => rowSelection[id])
+	const isFiltered = activeFilters.size > 0 || selectedBookId !== 'all' || debouncedSearch !== ''
 
 	const handleBulkBooksSubmit = async () => {
 		if (selectedContactIds.length === 0 || (bulkAddToBookIds.size === 0 && bulkRemoveFromBookIds.size === 0) || isBulkBooksSubmitting) {
@@ -529,34 +568,73 @@ function ContactsIndexPage() {
 		}
 	}
 
+	const handleBulkTagsSubmit = async () => {
+		const add = splitTags(bulkAddTags)
+		const remove = splitTags(bulkRemoveTags)
+		if (selectedContactIds.length === 0 || (add.length === 0 && remove.length === 0) || isBulkTagsSubmitting) {
+			return
+		}
+		setIsBulkTagsSubmitting(true)
+		try {
+			const response = await fetch('/api/contacts/bulk-tags', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ contact_ids: selectedContactIds, add, remove }),
+			})
+			if (!response.ok) {
+				const err = await response.json()
+				throw new Error(err.error || 'Failed to update')
+			}
+			const { updated } = (await response.json()) as { updated: number }
+			setIsBulkTagsDialogOpen(false)
+			setBulkAddTags('')
+			setBulkRemoveTags('')
+			setRowSelection({})
+			await refetch()
+			toast.success(`Tags updated on ${updated} contact${updated === 1 ? '' : 's'}`)
+		} catch (e) {
+			console.error(e)
+			toast.error(e instanceof Error ? e.message : 'Failed to update tags')
+		} finally {
+			setIsBulkTagsSubmitting(false)
+		}
+	}
+
 	const handleBulkDelete = async () => {
 		if (selectedContactIds.length === 0 || isBulkDeleting) {
 			return
 		}
 
-		const total = selectedContactIds.length
 		setIsBulkDeleting(true)
 		try {
-			const results = await Promise.allSettled(
-				selectedContactIds.map(async id => {
-					const response = await fetch(`/api/contacts/${id}`, {
-						method: 'DELETE',
-					})
-					if (!response.ok) {
-						const errorText = await response.text()
-						throw new Error(errorText || `Failed to delete contact with id ${id}`)
-					}
-				})
-			)
-			const failed = results.filter(result => result.status === 'rejected')
-			if (failed.length > 0) {
-				toast.error(`Failed to delete ${failed.length} contact${failed.length === 1 ? '' : 's'}.`)
-			} else {
-				toast.success(`Deleted ${total} contact${total === 1 ? '' : 's'}`)
+			const response = await fetch('/api/contacts/bulk-delete', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ contact_ids: selectedContactIds }),
+			})
+			if (!response.ok) {
+				const err = await response.json()
+				throw new Error(err.error || 'Failed to delete')
 			}
+			const { deleted, batchId } = (await response.json()) as { deleted: number; batchId: string | null }
+			toast.success(`Deleted ${deleted} contact${deleted === 1 ? '' : 's'}`, {
+				action: batchId
+					? {
+							label: 'Undo',
+							onClick: () => {
+								undoHistoryBatch(batchId)
+									.then(result => {
+										toast.success(result.message)
+										return refetch()
+									})
+									.catch((err: Error) => toast.error(err.message))
+							},
+						}
+					: undefined,
+			})
 		} catch (err) {
 			console.error('Error deleting contacts:', err)
-			toast.error('Failed to delete selected contacts.')
+			toast.error(err instanceof Error ? err.message : 'Failed to delete selected contacts.')
 		} finally {
 			setIsBulkDeleting(false)
 			setIsBulkDeleteDialogOpen(false)
@@ -598,7 +676,7 @@ function ContactsIndexPage() {
 		)
 	}
 
-	if (error) {
+	if (error && !queryError) {
 		return (
 			<PageContainer width="standard">
 				<div className="py-12 text-center">
@@ -629,16 +707,7 @@ function ContactsIndexPage() {
 
 			<div className="space-y-4">
 				<div className="flex flex-col sm:flex-row gap-2 sm:items-center">
-					<div className="relative flex-1">
-						<span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 select-none font-medium text-primary">❯</span>
-						<Input
-							type="text"
-							placeholder="filter contacts: name, email, org…"
-							value={searchQuery}
-							onChange={e => setSearchQuery(e.target.value)}
-							className="pl-8"
-						/>
-					</div>
+					<ContactSearchInput value={searchQuery} onChange={setSearchQuery} books={addressBooks} error={queryError} />
 					<div className="flex flex-row gap-2">
 						<Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching} aria-label="Refresh contacts">
 							<RefreshCw className={isFetching ? 'size-4 animate-spin' : 'size-4'} />
@@ -692,7 +761,7 @@ function ContactsIndexPage() {
 							</button>
 						)
 					})}
-					{(activeFilters.size > 0 || selectedBookId !== 'all' || searchQuery) && (
+					{(isFiltered || searchQuery) && (
 						<button
 							type="button"
 							onClick={clearAllFilters}
@@ -705,8 +774,8 @@ function ContactsIndexPage() {
 				</div>
 				<div className="flex flex-wrap items-center gap-x-4 gap-y-1 border-t border-border/60 pt-3 text-xs text-muted-foreground">
 					<span>
-						<span className="text-primary">{table.getRowModel().rows.length}</span> / {contacts.length} contact
-						{contacts.length === 1 ? '' : 's'}
+						<span className="text-primary">{contacts.length}</span> / {matchingCount} contact
+						{matchingCount === 1 ? '' : 's'}
 					</span>
 					{showBookCount && <span>{addressBooks.length} books</span>}
 					{selectedContactIds.length > 0 && <span className="text-primary">{selectedContactIds.length} selected</span>}
@@ -729,6 +798,21 @@ function ContactsIndexPage() {
 									Manage Books
 								</Button>
 							)}
+							<Button
+								variant="outline"
+								onClick={() => {
+									setBulkAddTags('')
+									setBulkRemoveTags('')
+									setIsBulkTagsDialogOpen(true)
+								}}
+							>
+								<Tag className="size-4" />
+								Tags
+							</Button>
+							<Button variant="outline" onClick={() => setIsBulkEditDialogOpen(true)}>
+								<PencilLine className="size-4" />
+								Bulk Edit
+							</Button>
 							{selectedContactIds.length >= 2 && <MergeButton contactIds={selectedContactIds} onMergeSuccess={() => setRowSelection({})} />}
 							<Button variant="destructive" onClick={() => setIsBulkDeleteDialogOpen(true)} disabled={isBulkDeleting}>
 								<Trash2 className="size-4" />
@@ -739,7 +823,7 @@ function ContactsIndexPage() {
 				)}
 			</div>
 
-			{contacts.length === 0 && !searchQuery ? (
+			{matchingCount === 0 && !isFiltered && !searchQuery ? (
 				<div className="flex flex-col items-center justify-center rounded-md border border-dashed py-16 text-center">
 					<Users className="mb-4 size-12 text-muted-foreground" />
 					<p className="mb-1 text-muted-foreground">No contacts yet</p>
@@ -793,12 +877,14 @@ function ContactsIndexPage() {
 							) : (
 								<TableRow>
 									<TableCell colSpan={columns.length} className="h-24 text-center text-muted-foreground">
-										{searchQuery ? 'No contacts found matching your search.' : 'No contacts yet.'}
+										{debouncedSearch ? 'No contacts found matching your search.' : 'No contacts match these filters.'}
 									</TableCell>
 								</TableRow>
 							)}
 						</TableBody>
 					</Table>
+					<div ref={loadMoreRef} />
+					{isFetchingNextPage && <div className="border-t py-3 text-center text-xs text-muted-foreground">Loading more…</div>}
 				</div>
 			)}
 
@@ -898,6 +984,46 @@ function ContactsIndexPage() {
 				</DialogContent>
 			</Dialog>
 
+			<Dialog open={isBulkTagsDialogOpen} onOpenChange={setIsBulkTagsDialogOpen}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Tags</DialogTitle>
+						<DialogDescription>
+							Add or remove tags on {selectedContactIds.length} selected contact{selectedContactIds.length === 1 ? '' : 's'}. Separate tags
+							with commas.
+						</DialogDescription>
+					</DialogHeader>
+					<div className="space-y-4 py-2">
+						<label className="block space-y-2">
+							<span className="text-sm font-medium">Add</span>
+							<Input value={bulkAddTags} onChange={e => setBulkAddTags(e.target.value)} placeholder="volunteer, newsletter" />
+						</label>
+						<label className="block space-y-2">
+							<span className="text-sm font-medium">Remove</span>
+							<Input value={bulkRemoveTags} onChange={e => setBulkRemoveTags(e.target.value)} placeholder="old-team" />
+						</label>
+					</div>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setIsBulkTagsDialogOpen(false)}>
+							Cancel
+						</Button>
+						<Button
+							onClick={handleBulkTagsSubmit}
+							disabled={isBulkTagsSubmitting || (splitTags(bulkAddTags).length === 0 && splitTags(bulkRemoveTags).length === 0)}
+						>
+							{isBulkTagsSubmitting ? 'Updating…' : 'Update'}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+
+			<BulkEditDialog
+				contactIds={selectedContactIds}
+				open={isBulkEditDialogOpen}
+				onOpenChange={setIsBulkEditDialogOpen}
+				onEdited={() => setRowSelection({})}
+			/>
+
 			<ConfirmDialog
 				open={isBulkDeleteDialogOpen}
 				onOpenChange={setIsBulkDeleteDialogOpen}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { LogIn, NotebookTabs } from 'lucide-react'
+import { Button } from '../components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Field, FieldContent, FieldLabel } from '../components/ui/field'
+import { Input } from '../components/ui/input'
+import { SESSION_QUERY_KEY, fetchSession, safeRedirectTarget, setupOwner, signIn } from '../lib/auth-client'
+
+export const Route = createFileRoute('/login')({
+	component: LoginPage,
+	validateSearch: (search: Record<string, unknown>) => ({
+		redirect: typeof search.redirect === 'string' ? search.redirect : undefined,
+	}),
+})
+
+function LoginPage() {
+	const { redirect } = Route.useSearch()
+	const [name, setName] = useState('')
+	const [email, setEmail] = useState('')
+	const [password, setPassword] = useState('')
+	const [error, setError] = useState<string | null>(null)
+
+	const { data: session, isLoading } = useQuery({ queryKey: SESSION_QUERY_KEY, queryFn: fetchSession })
+	const needsSetup = session?.needsSetup ?? false
+
+	// Full navigation rather than router.navigate: the server-rendered page
+	// needs to see the freshly-set session cookie.
+	const finish = () => window.location.assign(safeRedirectTarget(redirect))
+
+	const submitMutation = useMutation({
+		mutationFn: () => (needsSetup ? setupOwner({ name: name || undefined, email, password }) : signIn(email, password)),
+		onSuccess: finish,
+		onError: (err: Error) => setError(err.message),
+	})
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		submitMutation.mutate()
+	}
+
+	const alreadySignedIn = Boolean(session?.user || session?.authDisabled)
+	useEffect(() => {
+		if (alreadySignedIn) window.location.replace(safeRedirectTarget(redirect))
+	}, [alreadySignedIn, redirect])
+
+	if (alreadySignedIn) return null
+
+	return (
+		<div className="flex min-h-full items-center justify-center px-4 py-12">
+			<Card className="w-full max-w-sm">
+				<CardHeader>
+					<div className="mb-2 flex items-center gap-2">
+						<NotebookTabs className="size-5 text-primary" />
+						<span className="text-base font-semibold tracking-tight">
+							shared<span className="text-muted-foreground">·</span>contacts
+						</span>
+					</div>
+					<CardTitle>{needsSetup ? 'Create the first account' : 'Sign in'}</CardTitle>
+					<CardDescription>
+						{needsSetup
+							? 'No accounts exist yet. The account you create here can manage everything.'
+							: 'Sign in to manage contacts and address books.'}
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<form onSubmit={handleSubmit} className="space-y-4">
+						{needsSetup && (
+							<Field>
+								<FieldLabel htmlFor="login-name">Name</FieldLabel>
+								<FieldContent>
+									<Input id="login-name" value={name} onChange={e => setName(e.target.value)} autoComplete="name" />
+								</FieldContent>
+							</Field>
+						)}
+						<Field>
+							<FieldLabel htmlFor="login-email">Email</FieldLabel>
+							<FieldContent>
+								<Input
+									id="login-email"
+									type="email"
+									value={email}
+									onChange={e => setEmail(e.target.value)}
+									autoComplete="username"
+									required
+									autoFocus
+								/>
+							</FieldContent>
+						</Field>
+						<Field>
+							<FieldLabel htmlFor="login-password">Password</FieldLabel>
+							<FieldContent>
+								<Input
+									id="login-password"
+									type="password"
+									value={password}
+									onChange={e => setPassword(e.target.value)}
+									autoComplete={needsSetup ? 'new-password' : 'current-password'}
+									minLength={needsSetup ? 8 : undefined}
+									required
+								/>
+							</FieldContent>
+						</Field>
+						{error && <p className="text-sm text-destructive">{error}</p>}
+						<Button type="submit" className="w-full" disabled={isLoading || submitMutation.isPending}>
+							<LogIn className="mr-2 size-4" />
+							{submitMutation.isPending ? 'Signing in…' : needsSetup ? 'Create account' : 'Sign in'}
+						</Button>
+					</form>
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
@@ -0,0 +1,281 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { RefreshCw } from 'lucide-react'
+import { Badge } from '../components/ui/badge'
+import { Button } from '../components/ui/button'
+import { PageContainer } from '../components/ui/page-container'
+import { PageHeader } from '../components/ui/page-header'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
+import { formatHistoryDate } from '../lib/history-format'
+import { summarizeSyncJob, waitForSyncJob } from '../lib/sync-jobs'
+import type { SyncDirection, SyncJob } from '../lib/sync-jobs'
+
+export const Route = createFileRoute('/sync')({
+	component: SyncPage,
+})
+
+interface SyncRun {
+	direction: SyncDirection
+	trigger: 'startup' | 'periodic' | 'watcher' | 'notify' | 'manual'
+	started_at: string
+	finished_at: string
+	duration_ms: number
+	synced: number
+	skipped: number
+	conflicts: number
+	error: string | null
+}
+
+interface BookHealth {
+	id: string
+	name: string
+	contacts: number
+	pending: number
+	open_conflicts: number
+	last_synced_at: string | null
+}
+
+interface SyncStatus {
+	running: Array<SyncDirection>
+	watcher_queue_depth: number
+	last_error: { message: string; at: string; direction: SyncDirection } | null
+	last_success_at: Partial<Record<SyncDirection, string>>
+	runs: Array<SyncRun>
+	books: Array<BookHealth>
+}
+
+const DIRECTION_LABELS: Record<SyncDirection, string> = {
+	'radicale-to-db': 'CardDAV → DB',
+	'db-to-radicale': 'DB → CardDAV',
+}
+
+type RunDirection = SyncJob['direction']
+
+const RUN_LABELS: Record<RunDirection, string> = {
+	both: 'Both directions',
+	...DIRECTION_LABELS,
+}
+
+// The periodic pass runs every 30s by default; poll a little faster so a manual run shows up promptly.
+const REFRESH_MS = 5000
+
+async function fetchSyncStatus(): Promise<SyncStatus> {
+	const response = await fetch('/api/sync/status?limit=20')
+	if (!response.ok) {
+		throw new Error('Failed to fetch sync status')
+	}
+	return response.json()
+}
+
+async function runSync(direction: RunDirection): Promise<SyncJob> {
+	const response = await fetch('/api/sync/run', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ direction }),
+	})
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to start sync')
+	}
+	return response.json()
+}
+
+function SyncPage() {
+	const queryClient = useQueryClient()
+	const [runDirection, setRunDirection] = useState<RunDirection>('both')
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['sync-status'],
+		queryFn: fetchSyncStatus,
+		refetchInterval: REFRESH_MS,
+	})
+
+	const runMutation = useMutation({
+		mutationFn: async () => {
+			const job = await runSync(runDirection)
+			queryClient.invalidateQueries({ queryKey: ['sync-status'] })
+			return waitForSyncJob(job)
+		},
+		onSuccess: job => {
+			if (job.state === 'failed') toast.error(summarizeSyncJob(job))
+			else toast.success(summarizeSyncJob(job))
+			queryClient.invalidateQueries({ queryKey: ['sync-status'] })
+			queryClient.invalidateQueries({ queryKey: ['contacts'] })
+		},
+		onError: (err: Error) => toast.error(err.message),
+	})
+
+	const running = (data?.running.length ?? 0) > 0
+
+	const header = (
+		<PageHeader
+			icon={<RefreshCw />}
+			title="Sync"
+			description="Recent sync passes between Postgres and Radicale, and how each address book is doing."
+			actions={
+				<div className="flex gap-2">
+					<Select value={runDirection} onValueChange={value => setRunDirection(value as RunDirection)}>
+						<SelectTrigger className="w-40">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{(Object.keys(RUN_LABELS) as Array<RunDirection>).map(option => (
+								<SelectItem key={option} value={option}>
+									{RUN_LABELS[option]}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Button onClick={() => runMutation.mutate()} disabled={runMutation.isPending || running}>
+						<RefreshCw className={`mr-2 h-4 w-4 ${running ? 'animate-spin' : ''}`} />
+						{running ? 'Syncing…' : 'Sync now'}
+					</Button>
+				</div>
+			}
+		/>
+	)
+
+	if (isLoading) {
+		return (
+			<PageContainer width="wide" className="space-y-6">
+				{header}
+				<div className="py-12 text-center text-sm text-muted-foreground">Loading…</div>
+			</PageContainer>
+		)
+	}
+
+	if (error || !data) {
+		return (
+			<PageContainer width="wide" className="space-y-6">
+				{header}
+				<div className="py-12 text-center text-sm text-destructive">Error loading sync status</div>
+			</PageContainer>
+		)
+	}
+
+	return (
+		<PageContainer width="wide" className="space-y-6">
+			{header}
+
+			<div className="grid gap-4 sm:grid-cols-3">
+				{(Object.keys(DIRECTION_LABELS) as Array<SyncDirection>).map(direction => (
+					<div key={direction} className="rounded-2xl border bg-card p-4">
+						<p className="text-xs text-muted-foreground">{DIRECTION_LABELS[direction]}</p>
+						<p className="mt-1 text-sm font-medium">
+							{data.running.includes(direction)
+								? 'Running'
+								: data.last_success_at[direction]
+									? `Last success ${formatHistoryDate(data.last_success_at[direction])}`
+									: 'No successful run yet'}
+						</p>
+					</div>
+				))}
+				<div className="rounded-2xl border bg-card p-4">
+					<p className="text-xs text-muted-foreground">Watcher queue</p>
+					<p className="mt-1 text-sm font-medium">
+						{data.watcher_queue_depth} changed {data.watcher_queue_depth === 1 ? 'file' : 'files'} waiting
+					</p>
+				</div>
+			</div>
+
+			{data.last_error && (
+				<div className="rounded-2xl border border-destructive/40 bg-destructive/5 p-4 text-sm">
+					<p className="font-medium text-destructive">Last error ({DIRECTION_LABELS[data.last_error.direction]})</p>
+					<p className="mt-1 font-mono text-xs">{data.last_error.message}</p>
+					<p className="mt-1 text-xs text-muted-foreground">{formatHistoryDate(data.last_error.at)}</p>
+				</div>
+			)}
+
+			<section className="space-y-2">
+				<h2 className="text-sm font-medium">Address books</h2>
+				<div className="rounded-md border">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Book</TableHead>
+								<TableHead className="text-right">Contacts</TableHead>
+								<TableHead className="text-right">Pending</TableHead>
+								<TableHead className="text-right">Conflicts</TableHead>
+								<TableHead className="hidden md:table-cell">Last synced</TableHead>
+								<TableHead>Health</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{data.books.map(book => {
+								const healthy = book.pending === 0 && book.open_conflicts === 0
+								return (
+									<TableRow key={book.id}>
+										<TableCell className="font-medium">{book.name}</TableCell>
+										<TableCell className="text-right">{book.contacts}</TableCell>
+										<TableCell className="text-right">{book.pending}</TableCell>
+										<TableCell className="text-right">{book.open_conflicts}</TableCell>
+										<TableCell className="hidden text-sm text-muted-foreground md:table-cell">
+											{book.last_synced_at ? formatHistoryDate(book.last_synced_at) : '—'}
+										</TableCell>
+										<TableCell>
+											<Badge variant={healthy ? 'secondary' : 'outline'}>
+												{healthy ? 'ok' : book.open_conflicts > 0 ? 'conflicts' : 'pending'}
+											</Badge>
+										</TableCell>
+									</TableRow>
+								)
+							})}
+						</TableBody>
+					</Table>
+				</div>
+			</section>
+
+			<section className="space-y-2">
+				<h2 className="text-sm font-medium">Recent runs</h2>
+				{data.runs.length === 0 ? (
+					<div className="rounded-2xl border bg-card py-8 text-center text-sm text-muted-foreground">
+						No sync runs since the service started.
+					</div>
+				) : (
+					<div className="rounded-md border">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Finished</TableHead>
+									<TableHead>Direction</TableHead>
+									<TableHead className="hidden sm:table-cell">Trigger</TableHead>
+									<TableHead className="text-right">Synced</TableHead>
+									<TableHead className="text-right">Skipped</TableHead>
+									<TableHead className="text-right">Conflicts</TableHead>
+									<TableHead className="hidden text-right md:table-cell">Duration</TableHead>
+									<TableHead>Result</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{data.runs.map(run => (
+									<TableRow key={`${run.direction}-${run.started_at}`}>
+										<TableCell className="text-sm text-muted-foreground">{formatHistoryDate(run.finished_at)}</TableCell>
+										<TableCell>{DIRECTION_LABELS[run.direction]}</TableCell>
+										<TableCell className="hidden text-muted-foreground sm:table-cell">{run.trigger}</TableCell>
+										<TableCell className="text-right">{run.synced}</TableCell>
+										<TableCell className="text-right">{run.skipped}</TableCell>
+										<TableCell className="text-right">{run.conflicts}</TableCell>
+										<TableCell className="hidden text-right text-muted-foreground md:table-cell">
+											{(run.duration_ms / 1000).toFixed(1)}s
+										</TableCell>
+										<TableCell>
+											{run.error ? (
+												<Badge variant="destructive" title={run.error}>
+													error
+												</Badge>
+											) : (
+												<Badge variant="secondary">ok</Badge>
+											)}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					</div>
+				)}
+			</section>
+		</PageContainer>
+	)
+}
@@ -0,0 +1,364 @@
+import { Link, createFileRoute } from '@tanstack/react-router'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Check, Edit, Merge, Tags, Users } from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Field, FieldContent, FieldLabel } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { PageContainer } from '@/components/ui/page-container'
+import { PageHeader } from '@/components/ui/page-header'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+export const Route = createFileRoute('/tags')({
+	component: TagsPage,
+})
+
+interface TagSummary {
+	name: string
+	count: number
+	color: string | null
+}
+
+const TAG_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899', '#6b7280']
+
+async function fetchTags(): Promise<Array<TagSummary>> {
+	const response = await fetch('/api/tags')
+	if (!response.ok) {
+		throw new Error('Failed to fetch tags')
+	}
+	return response.json()
+}
+
+async function tagRequest(path: string, method: 'PUT' | 'POST', payload: Record<string, unknown>): Promise<{ updated: number }> {
+	const response = await fetch(path, {
+		method,
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(payload),
+	})
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to update tags')
+	}
+	return response.json()
+}
+
+/** The contacts list search for one tag. */
+function tagQuery(name: string): string {
+	return /\s/.test(name) ? `tag:"${name}"` : `tag:${name}`
+}
+
+function updatedMessage(updated: number): string {
+	return updated > 0 ? `Updated ${updated} contact${updated === 1 ? '' : 's'}` : 'Tag updated'
+}
+
+function TagBadge({ tag }: { tag: Pick<TagSummary, 'name' | 'color'> }) {
+	return (
+		<Badge variant="outline" className="gap-1.5">
+			<span className="size-2 rounded-full bg-muted-foreground" style={tag.color ? { backgroundColor: tag.color } : undefined} />
+			{tag.name}
+		</Badge>
+	)
+}
+
+function ColorPicker({ value, onChange }: { value: string | null; onChange: (color: string | null) => void }) {
+	return (
+		<div className="flex flex-wrap gap-2">
+			<button
+				type="button"
+				onClick={() => onChange(null)}
+				className="flex size-7 items-center justify-center rounded-full border text-xs text-muted-foreground"
+				aria-label="No color"
+			>
+				{value === null ? <Check className="size-3" /> : '–'}
+			</button>
+			{TAG_COLORS.map(color => (
+				<button
+					key={color}
+					type="button"
+					onClick={() => onChange(color)}
+					className="flex size-7 items-center justify-center rounded-full text-white"
+					style={{ backgroundColor: color }}
+					aria-label={`Color ${color}`}
+				>
+					{value === color && <Check className="size-3" />}
+				</button>
+			))}
+		</div>
+	)
+}
+
+function EditTagDialog({ tag, open, onOpenChange }: { tag: TagSummary | null; open: boolean; onOpenChange: (open: boolean) => void }) {
+	const queryClient = useQueryClient()
+	const [name, setName] = useState('')
+	const [color, setColor] = useState<string | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		if (open && tag) {
+			setName(tag.name)
+			setColor(tag.color)
+			setError(null)
+		}
+	}, [open, tag])
+
+	const saveMutation = useMutation({
+		mutationFn: () =>
+			tagRequest('/api/tags', 'PUT', {
+				tag: tag?.name,
+				...(name.trim() !== tag?.name ? { name: name.trim() } : {}),
+				...(color !== tag?.color ? { color } : {}),
+			}),
+		onSuccess: result => {
+			queryClient.invalidateQueries({ queryKey: ['tags'] })
+			queryClient.invalidateQueries({ queryKey: ['contacts'] })
+			toast.success(updatedMessage(result.updated))
+			onOpenChange(false)
+		},
+		onError: (err: Error) => setError(err.message),
+	})
+
+	const handleSave = () => {
+		if (!name.trim()) {
+			setError('Name is required')
+			return
+		}
+		saveMutation.mutate()
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-md">
+				<DialogHeader>
+					<DialogTitle>Edit Tag</DialogTitle>
+					<DialogDescription>
+						Renaming updates all {tag?.count ?? 0} contact{tag?.count === 1 ? '' : 's'} and syncs to phones. Renaming to an existing tag
+						merges the two.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4 py-2">
+					<Field>
+						<FieldLabel htmlFor="tag-name">Name</FieldLabel>
+						<FieldContent>
+							<Input id="tag-name" value={name} onChange={e => setName(e.target.value)} />
+						</FieldContent>
+					</Field>
+					<Field>
+						<FieldLabel>Color</FieldLabel>
+						<FieldContent>
+							<ColorPicker value={color} onChange={setColor} />
+						</FieldContent>
+					</Field>
+					{error && <div className="text-sm text-destructive bg-destructive/10 rounded-lg px-3 py-2">{error}</div>}
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleSave} disabled={saveMutation.isPending}>
+						{saveMutation.isPending ? 'Saving…' : 'Save'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+function MergeTagsDialog({
+	tags,
+	open,
+	onOpenChange,
+	onMerged,
+}: {
+	tags: Array<TagSummary>
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	onMerged: () => void
+}) {
+	const queryClient = useQueryClient()
+	const [target, setTarget] = useState('')
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		if (open) {
+			// Default to the most used of the selected tags.
+			setTarget([...tags].sort((a, b) => b.count - a.count)[0]?.name ?? '')
+			setError(null)
+		}
+	}, [open, tags])
+
+	const mergeMutation = useMutation({
+		mutationFn: () => tagRequest('/api/tags/merge', 'POST', { sources: tags.map(tag => tag.name), target: target.trim() }),
+		onSuccess: result => {
+			queryClient.invalidateQueries({ queryKey: ['tags'] })
+			queryClient.invalidateQueries({ queryKey: ['contacts'] })
+			toast.success(updatedMessage(result.updated))
+			onMerged()
+			onOpenChange(false)
+		},
+		onError: (err: Error) => setError(err.message),
+	})
+
+	const handleMerge = () => {
+		if (!target.trim()) {
+			setError('Name is required')
+			return
+		}
+		mergeMutation.mutate()
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-md">
+				<DialogHeader>
+					<DialogTitle>Merge {tags.length} Tags</DialogTitle>
+					<DialogDescription>Every contact with any of these tags gets the merged tag instead.</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4 py-2">
+					<div className="flex flex-wrap gap-1">
+						{tags.map(tag => (
+							<TagBadge key={tag.name} tag={tag} />
+						))}
+					</div>
+					<Field>
+						<FieldLabel htmlFor="merge-target">Merged tag</FieldLabel>
+						<FieldContent>
+							<Input id="merge-target" value={target} onChange={e => setTarget(e.target.value)} />
+						</FieldContent>
+					</Field>
+					{error && <div className="text-sm text-destructive bg-destructive/10 rounded-lg px-3 py-2">{error}</div>}
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleMerge} disabled={mergeMutation.isPending}>
+						{mergeMutation.isPending ? 'Merging…' : 'Merge'}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+function TagsPage() {
+	const [editing, setEditing] = useState<TagSummary | null>(null)
+	const [isEditOpen, setIsEditOpen] = useState(false)
+	const [isMergeOpen, setIsMergeOpen] = useState(false)
+	const [selected, setSelected] = useState<Set<string>>(new Set())
+
+	const { data: tags = [], isLoading, error } = useQuery({ queryKey: ['tags'], queryFn: fetchTags })
+	const selectedTags = useMemo(() => tags.filter(tag => selected.has(tag.name)), [tags, selected])
+
+	const toggleSelected = (name: string) =>
+		setSelected(prev => {
+			const next = new Set(prev)
+			if (next.has(name)) next.delete(name)
+			else next.add(name)
+			return next
+		})
+
+	const header = (
+		<PageHeader
+			icon={<Tags />}
+			title="Tags"
+			description="Rename, merge and color the tags on your contacts. Changes sync to phones as vCard categories."
+			actions={
+				selectedTags.length >= 2 ? (
+					<Button onClick={() => setIsMergeOpen(true)}>
+						<Merge className="mr-2 h-4 w-4" />
+						Merge {selectedTags.length}
+					</Button>
+				) : undefined
+			}
+		/>
+	)
+
+	if (isLoading) {
+		return (
+			<PageContainer width="standard" className="space-y-6">
+				{header}
+				<div className="py-12 text-center text-sm text-muted-foreground">Loading…</div>
+			</PageContainer>
+		)
+	}
+
+	if (error) {
+		return (
+			<PageContainer width="standard" className="space-y-6">
+				{header}
+				<div className="py-12 text-center text-sm text-destructive">Error loading tags</div>
+			</PageContainer>
+		)
+	}
+
+	return (
+		<PageContainer width="standard" className="space-y-6">
+			{header}
+
+			{tags.length === 0 ? (
+				<div className="flex flex-col items-center gap-2 rounded-2xl border bg-card py-16 text-center">
+					<Tags className="size-8 text-muted-foreground" />
+					<p className="text-sm text-muted-foreground">No tags yet. Tag contacts from the contacts list or a contact's categories.</p>
+				</div>
+			) : (
+				<div className="rounded-md border">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead className="w-10" />
+								<TableHead>Tag</TableHead>
+								<TableHead>Contacts</TableHead>
+								<TableHead className="text-right">Actions</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{tags.map(tag => (
+								<TableRow key={tag.name} data-state={selected.has(tag.name) ? 'selected' : undefined}>
+									<TableCell>
+										<Checkbox
+											checked={selected.has(tag.name)}
+											onCheckedChange={() => toggleSelected(tag.name)}
+											aria-label={`Select ${tag.name}`}
+										/>
+									</TableCell>
+									<TableCell>
+										<TagBadge tag={tag} />
+									</TableCell>
+									<TableCell>{tag.count}</TableCell>
+									<TableCell className="text-right">
+										<div className="flex justify-end gap-2">
+											<Button variant="outline" size="sm" asChild>
+												<Link to="/" search={{ q: tagQuery(tag.name) }}>
+													<Users className="size-4 mr-1" />
+													<span className="hidden sm:inline">Contacts</span>
+												</Link>
+											</Button>
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => {
+													setEditing(tag)
+													setIsEditOpen(true)
+												}}
+											>
+												<Edit className="size-4 mr-1" />
+												<span className="hidden sm:inline">Edit</span>
+											</Button>
+										</div>
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				</div>
+			)}
+
+			<EditTagDialog tag={editing} open={isEditOpen} onOpenChange={setIsEditOpen} />
+			<MergeTagsDialog tags={selectedTags} open={isMergeOpen} onOpenChange={setIsMergeOpen} onMerged={() => setSelected(new Set())} />
+		</PageContainer>
+	)
+}
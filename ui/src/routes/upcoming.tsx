@@ -0,0 +1,162 @@
+import { Link, createFileRoute } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Cake, Heart } from 'lucide-react'
+import { PageContainer } from '../components/ui/page-container'
+import { PageHeader } from '../components/ui/page-header'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import type { AddressBook } from '../lib/db'
+import type { UpcomingEvent } from '../lib/upcoming'
+
+export const Route = createFileRoute('/upcoming')({
+	component: UpcomingPage,
+})
+
+interface UpcomingResponse {
+	from: string
+	days: number
+	events: Array<UpcomingEvent>
+}
+
+const ALL_BOOKS = 'all'
+const DAY_OPTIONS = [7, 30, 90, 365]
+
+/** The browser's local date; the server would otherwise use its own timezone. */
+function today(): string {
+	const now = new Date()
+	return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+async function fetchUpcoming(days: number, bookId: string): Promise<UpcomingResponse> {
+	const params = new URLSearchParams({ days: String(days), from: today() })
+	if (bookId !== ALL_BOOKS) params.set('book', bookId)
+	const response = await fetch(`/api/upcoming?${params}`)
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({}))
+		throw new Error(error.error || 'Failed to fetch upcoming dates')
+	}
+	return response.json()
+}
+
+async function fetchAddressBooks(): Promise<Array<AddressBook>> {
+	const response = await fetch('/api/address-books')
+	if (!response.ok) throw new Error('Failed to fetch address books')
+	return response.json()
+}
+
+function formatDay(value: string): string {
+	const [year, month, day] = value.split('-').map(Number)
+	return new Date(year, month - 1, day).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+}
+
+function whenLabel(daysUntil: number): string {
+	if (daysUntil === 0) return 'Today'
+	if (daysUntil === 1) return 'Tomorrow'
+	return `In ${daysUntil} days`
+}
+
+function detailLabel(event: UpcomingEvent): string | null {
+	if (event.years === null) return null
+	if (event.kind === 'birthday') return `turns ${event.years}`
+	return `${event.years} ${event.years === 1 ? 'year' : 'years'}`
+}
+
+function UpcomingPage() {
+	const [days, setDays] = useState(30)
+	const [bookId, setBookId] = useState<string>(ALL_BOOKS)
+
+	const { data: books } = useQuery({ queryKey: ['address-books'], queryFn: fetchAddressBooks })
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['upcoming', days, bookId],
+		queryFn: () => fetchUpcoming(days, bookId),
+	})
+
+	return (
+		<PageContainer width="wide" className="space-y-6">
+			<PageHeader
+				icon={<Cake />}
+				title="Upcoming"
+				description="Birthdays and anniversaries coming up. Subscribe to a book's birthdays from its connection details on the books page."
+				actions={
+					<div className="flex gap-2">
+						<Select value={bookId} onValueChange={setBookId}>
+							<SelectTrigger className="w-44">
+								<SelectValue placeholder="Select a book" />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL_BOOKS}>All books</SelectItem>
+								{(books ?? []).map(book => (
+									<SelectItem key={book.id} value={book.id}>
+										{book.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Select value={String(days)} onValueChange={value => setDays(Number(value))}>
+							<SelectTrigger className="w-36">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{DAY_OPTIONS.map(option => (
+									<SelectItem key={option} value={String(option)}>
+										Next {option} days
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				}
+			/>
+
+			{isLoading ? (
+				<div className="py-12 text-center text-sm text-muted-foreground">Loading…</div>
+			) : error || !data ? (
+				<div className="py-12 text-center text-sm text-destructive">Error loading upcoming dates</div>
+			) : data.events.length === 0 ? (
+				<div className="flex flex-col items-center gap-2 rounded-2xl border bg-card py-16 text-center">
+					<Cake className="size-8 text-muted-foreground" />
+					<p className="text-sm text-muted-foreground">Nothing in the next {data.days} days.</p>
+				</div>
+			) : (
+				<div className="divide-y rounded-2xl border bg-card">
+					{data.events.map(event => {
+						const detail = detailLabel(event)
+						return (
+							<div key={`${event.kind}-${event.id}`} className="flex flex-wrap items-center gap-3 px-4 py-3">
+								{event.kind === 'birthday' ? (
+									<Cake className="size-4 shrink-0 text-muted-foreground" />
+								) : (
+									<Heart className="size-4 shrink-0 text-muted-foreground" />
+								)}
+								<div className="min-w-0 flex-1">
+									<p className="text-sm font-medium">
+										{event.people.map((person, index) => (
+											<span key={person.contact_id ?? `${person.name}-${index}`}>
+												{index > 0 && ' & '}
+												{person.contact_id ? (
+													<Link to="/$id" params={{ id: person.contact_id }} className="hover:underline">
+														{person.name}
+													</Link>
+												) : (
+													person.name
+												)}
+											</span>
+										))}
+									</p>
+									<p className="text-xs text-muted-foreground">
+										{event.kind === 'birthday' ? 'Birthday' : 'Anniversary'}
+										{detail && ` · ${detail}`}
+									</p>
+								</div>
+								<div className="text-right">
+									<p className="text-sm">{formatDay(event.date)}</p>
+									<p className="text-xs text-muted-foreground">{whenLabel(event.days_until)}</p>
+								</div>
+							</div>
+						)
+					})}
+				</div>
+			)}
+		</PageContainer>
+	)
+}
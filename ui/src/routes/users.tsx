@@ -0,0 +1,365 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Edit, Plus, ShieldCheck, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '../components/ui/button'
+import { Input } from '../components/ui/input'
+import { Field, FieldContent, FieldDescription, FieldLabel } from '../components/ui/field'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
+import type { Role } from '../lib/auth-client'
+import { Badge } from '@/components/ui/badge'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { PageContainer } from '@/components/ui/page-container'
+import { PageHeader } from '@/components/ui/page-header'
+import { Skeleton } from '@/components/ui/skeleton'
+
+export const Route = createFileRoute('/users')({
+	component: UsersPage,
+})
+
+interface RoleAssignment {
+	address_book_id: string | null
+	role: Role
+}
+
+interface UiUser {
+	id: string
+	email: string
+	name: string | null
+	roles: Array<RoleAssignment>
+}
+
+interface AddressBook {
+	id: string
+	name: string
+}
+
+interface UserForm {
+	name: string
+	email: string
+	password: string
+	roles: Array<RoleAssignment>
+}
+
+const EMPTY_FORM: UserForm = { name: '', email: '', password: '', roles: [] }
+
+const NO_ACCESS = '__none__'
+
+const ROLE_LABELS: Record<Role, string> = {
+	viewer: 'Viewer',
+	editor: 'Editor',
+	owner: 'Owner',
+}
+
+async function fetchUsers(): Promise<Array<UiUser>> {
+	const response = await fetch('/api/users')
+	if (!response.ok) {
+		throw new Error('Failed to fetch users')
+	}
+	return response.json()
+}
+
+async function fetchAddressBooks(): Promise<Array<AddressBook>> {
+	const response = await fetch('/api/address-books')
+	if (!response.ok) {
+		throw new Error('Failed to fetch address books')
+	}
+	return response.json()
+}
+
+async function saveUser(id: string | null, form: UserForm): Promise<UiUser> {
+	const body = id
+		? { name: form.name, roles: form.roles, ...(form.password ? { password: form.password } : {}) }
+		: { name: form.name, email: form.email, password: form.password, roles: form.roles }
+	const response = await fetch(id ? `/api/users/${encodeURIComponent(id)}` : '/api/users', {
+		method: id ? 'PUT' : 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify(body),
+	})
+	if (!response.ok) {
+		const error = await response.json()
+		throw new Error(error.error || 'Failed to save user')
+	}
+	return response.json()
+}
+
+async function deleteUser(id: string): Promise<void> {
+	const response = await fetch(`/api/users/${encodeURIComponent(id)}`, {
+		method: 'DELETE',
+	})
+	if (!response.ok) {
+		const error = await response.json()
+		throw new Error(error.error || 'Failed to delete user')
+	}
+}
+
+function roleFor(roles: Array<RoleAssignment>, bookId: string | null): Role | null {
+	return roles.find(assignment => assignment.address_book_id === bookId)?.role ?? null
+}
+
+function withRole(roles: Array<RoleAssignment>, bookId: string | null, role: Role | null): Array<RoleAssignment> {
+	const rest = roles.filter(assignment => assignment.address_book_id !== bookId)
+	return role ? [...rest, { address_book_id: bookId, role }] : rest
+}
+
+function RoleSelect({ id, value, onChange }: { id: string; value: Role | null; onChange: (role: Role | null) => void }) {
+	return (
+		<Select value={value ?? NO_ACCESS} onValueChange={v => onChange(v === NO_ACCESS ? null : (v as Role))}>
+			<SelectTrigger id={id} className="w-36">
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent>
+				<SelectItem value={NO_ACCESS}>No access</SelectItem>
+				{(Object.keys(ROLE_LABELS) as Array<Role>).map(role => (
+					<SelectItem key={role} value={role}>
+						{ROLE_LABELS[role]}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	)
+}
+
+function RoleBadges({ roles, books }: { roles: Array<RoleAssignment>; books: Array<AddressBook> }) {
+	if (roles.length === 0) return <span className="text-sm text-muted-foreground">No access</span>
+	const bookName = (id: string) => books.find(book => book.id === id)?.name ?? 'Unknown book'
+	return (
+		<div className="flex flex-wrap gap-1">
+			{roles.map(assignment => (
+				<Badge key={assignment.address_book_id ?? 'all'} variant={assignment.address_book_id === null ? 'default' : 'secondary'}>
+					{ROLE_LABELS[assignment.role]} · {assignment.address_book_id === null ? 'All books' : bookName(assignment.address_book_id)}
+				</Badge>
+			))}
+		</div>
+	)
+}
+
+function UsersPage() {
+	const queryClient = useQueryClient()
+	const [isFormOpen, setIsFormOpen] = useState(false)
+	const [editingUser, setEditingUser] = useState<UiUser | null>(null)
+	const [deletingUser, setDeletingUser] = useState<UiUser | null>(null)
+	const [form, setForm] = useState<UserForm>(EMPTY_FORM)
+	const [error, setError] = useState<string | null>(null)
+
+	const { data: users = [], isLoading } = useQuery({
+		queryKey: ['users'],
+		queryFn: fetchUsers,
+	})
+
+	const { data: addressBooks = [] } = useQuery({
+		queryKey: ['address-books'],
+		queryFn: fetchAddressBooks,
+	})
+
+	const saveMutation = useMutation({
+		mutationFn: () => saveUser(editingUser?.id ?? null, form),
+		onSuccess: user => {
+			queryClient.invalidateQueries({ queryKey: ['users'] })
+			setIsFormOpen(false)
+			setEditingUser(null)
+			setForm(EMPTY_FORM)
+			setError(null)
+			toast.success(editingUser ? `Updated ${user.email}` : `Created ${user.email}`)
+		},
+		onError: (err: Error) => {
+			setError(err.message)
+		},
+	})
+
+	const deleteMutation = useMutation({
+		mutationFn: (id: string) => deleteUser(id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['users'] })
+			toast.success(`Deleted ${deletingUser?.email ?? 'user'}`)
+			setDeletingUser(null)
+		},
+		onError: (err: Error) => {
+			toast.error(err.message)
+		},
+	})
+
+	const openCreateDialog = () => {
+		setEditingUser(null)
+		setForm(EMPTY_FORM)
+		setError(null)
+		setIsFormOpen(true)
+	}
+
+	const openEditDialog = (user: UiUser) => {
+		setEditingUser(user)
+		setForm({ name: user.name ?? '', email: user.email, password: '', roles: user.roles })
+		setError(null)
+		setIsFormOpen(true)
+	}
+
+	const handleSave = () => {
+		if (!editingUser && (!form.email.trim() || !form.password)) {
+			setError('Email and password are required')
+			return
+		}
+		if (form.password && form.password.length < 8) {
+			setError('Password must be at least 8 characters')
+			return
+		}
+		saveMutation.mutate()
+	}
+
+	const globalRole = roleFor(form.roles, null)
+
+	return (
+		<PageContainer width="standard" className="space-y-6">
+			<PageHeader
+				title="Admins"
+				description="Accounts that can sign in to this web UI, and what each one may do. Separate from CardDAV book users."
+				actions={
+					<Button onClick={openCreateDialog}>
+						<Plus className="mr-1 size-4" />
+						New Admin
+					</Button>
+				}
+			/>
+
+			{isLoading ? (
+				<div className="space-y-3">
+					<Skeleton className="h-10 w-full" />
+					<Skeleton className="h-10 w-full" />
+					<Skeleton className="h-10 w-full" />
+				</div>
+			) : (
+				<div className="rounded-md border">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>User</TableHead>
+								<TableHead>Roles</TableHead>
+								<TableHead className="text-right">Actions</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{users.map(user => (
+								<TableRow key={user.id}>
+									<TableCell>
+										<div className="font-medium">{user.name || user.email}</div>
+										{user.name && <div className="text-sm text-muted-foreground">{user.email}</div>}
+									</TableCell>
+									<TableCell>
+										<RoleBadges roles={user.roles} books={addressBooks} />
+									</TableCell>
+									<TableCell className="text-right">
+										<div className="flex flex-col justify-end gap-2 sm:flex-row">
+											<Button variant="outline" size="sm" onClick={() => openEditDialog(user)}>
+												<Edit className="mr-1 size-4" />
+												Edit
+											</Button>
+											<Button variant="outline" size="sm" onClick={() => setDeletingUser(user)} aria-label={`Delete user ${user.email}`}>
+												<Trash2 className="mr-1 size-4" />
+												<span className="inline sm:hidden md:inline">Delete</span>
+											</Button>
+										</div>
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				</div>
+			)}
+
+			{/* Create / Edit Dialog */}
+			<Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>{editingUser ? `Edit ${editingUser.email}` : 'New Admin'}</DialogTitle>
+						<DialogDescription>
+							Viewers can browse contacts, editors can change them, owners can also manage books, book users, and admins.
+						</DialogDescription>
+					</DialogHeader>
+					<div className="space-y-4 py-2">
+						<Field>
+							<FieldLabel htmlFor="user-name">Name</FieldLabel>
+							<FieldContent>
+								<Input id="user-name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+							</FieldContent>
+						</Field>
+						{!editingUser && (
+							<Field>
+								<FieldLabel htmlFor="user-email">Email</FieldLabel>
+								<FieldContent>
+									<Input id="user-email" type="email" value={form.email} onChange={e => setForm({ ...form, email: e.target.value })} />
+								</FieldContent>
+							</Field>
+						)}
+						<Field>
+							<FieldLabel htmlFor="user-password">{editingUser ? 'New Password' : 'Password'}</FieldLabel>
+							<FieldContent>
+								<Input
+									id="user-password"
+									type="password"
+									autoComplete="new-password"
+									value={form.password}
+									onChange={e => setForm({ ...form, password: e.target.value })}
+									placeholder={editingUser ? 'Leave blank to keep the current password' : 'At least 8 characters'}
+								/>
+							</FieldContent>
+						</Field>
+						<Field>
+							<FieldLabel htmlFor="user-role-all">All books</FieldLabel>
+							<FieldContent>
+								<RoleSelect
+									id="user-role-all"
+									value={globalRole}
+									onChange={role => setForm({ ...form, roles: withRole(form.roles, null, role) })}
+								/>
+								<FieldDescription>Applies to every address book. Owner here also grants the instance-wide admin pages.</FieldDescription>
+							</FieldContent>
+						</Field>
+						{addressBooks.length > 0 && (
+							<div className="space-y-2">
+								<div className="text-sm font-medium">Per-book roles</div>
+								{addressBooks.map(book => (
+									<div key={book.id} className="flex items-center justify-between gap-2">
+										<label htmlFor={`user-role-${book.id}`} className="text-sm">
+											{book.name}
+										</label>
+										<RoleSelect
+											id={`user-role-${book.id}`}
+											value={roleFor(form.roles, book.id)}
+											onChange={role => setForm({ ...form, roles: withRole(form.roles, book.id, role) })}
+										/>
+									</div>
+								))}
+							</div>
+						)}
+						{error && <div className="rounded-lg bg-destructive/10 px-3 py-2 text-sm text-destructive">{error}</div>}
+					</div>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setIsFormOpen(false)}>
+							Cancel
+						</Button>
+						<Button onClick={handleSave} disabled={saveMutation.isPending}>
+							<ShieldCheck className="mr-1 size-4" />
+							{saveMutation.isPending ? 'Saving…' : editingUser ? 'Save' : 'Create Admin'}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+
+			<ConfirmDialog
+				open={deletingUser !== null}
+				onOpenChange={open => !open && setDeletingUser(null)}
+				title={`Delete ${deletingUser?.email ?? 'user'}?`}
+				description="They will be signed out and can no longer sign in to this UI. Contacts and CardDAV accounts are not affected."
+				pending={deleteMutation.isPending}
+				pendingLabel="Deleting…"
+				onConfirm={() => {
+					if (deletingUser) deleteMutation.mutate(deletingUser.id)
+				}}
+			/>
+		</PageContainer>
+	)
+}
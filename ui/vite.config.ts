@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import { tanstackStart } from '@tanstack/react-start/plugin/vite'
 import viteReact from '@vitejs/plugin-react'
 import viteTsConfigPaths from 'vite-tsconfig-paths'
@@ -17,6 +17,10 @@ const config = defineConfig({
 			host: 'localhost',
 			port: 3030,
 		},
+		fs: {
+			// The search box imports the search language from ../shared
+			allow: [searchForWorkspaceRoot(process.cwd()), '../shared'],
+		},
 	},
 	plugins: [
 		nitro(),